@@ -19,6 +19,7 @@ import { ProjectProvider, useProjectContext } from './contexts/ProjectContext';
 import { ToastProvider } from './contexts/ToastContext';
 import { TokenProvider, useTokenContext } from './contexts/TokenContext';
 import layoutStyles from './styles/components/layout/AppLayout.module.css';
+import { loadCustomFonts } from './ts/utils/customFonts.js';
 
 function AppContent() {
   const { currentProject, setSaveNow } = useProjectContext();
@@ -35,6 +36,11 @@ function AppContent() {
     }
   }, [saveNow, setSaveNow]);
 
+  // Register uploaded fonts so token previews draw with them
+  useEffect(() => {
+    loadCustomFonts();
+  }, []);
+
   // Monitor storage quota
   const { warning, cleanup } = useStorageQuota({
     checkInterval: 5 * 60 * 1000, // Check every 5 minutes
@@ -3,9 +3,11 @@
  *
  * Main application shell containing tab navigation and view rendering.
  * Acts as the container for all sub-tabs (Projects, JSON, Tokens, Characters, Script, Export, Studio).
+ * Also hosts the shared-script import dialog, since importing a link switches to the JSON tab.
  */
 
 import { useCallback, useState } from 'react';
+import { ScriptLinkImportModal } from '@/components/Modals/ScriptLinkImportModal';
 import { CharactersView } from '@/components/Views/CharactersView';
 import { ExportView } from '@/components/Views/ExportView';
 import { JsonView } from '@/components/Views/JsonView';
@@ -15,7 +17,7 @@ import { StudioView } from '@/components/Views/StudioView';
 import { TokensView } from '@/components/Views/TokensView';
 import { TownSquareView } from '@/components/Views/TownSquareView';
 import { useTokenContext } from '@/contexts/TokenContext';
-import { useProjects } from '@/hooks';
+import { useProjects, useScriptDeepLink } from '@/hooks';
 import styles from '@/styles/components/pages/Pages.module.css';
 import type { Token } from '@/ts/types/index.js';
 import { logger } from '@/ts/utils/logger.js';
@@ -34,6 +36,8 @@ export function AppShell() {
   );
   const { currentProject } = useProjects();
   const { tokens, characters } = useTokenContext();
+  const scriptLink = useScriptDeepLink();
+  const { importAsProject: importScriptLink } = scriptLink;
 
   const handleTokenClick = useCallback((token: Token) => {
     setSelectedTokenForCustomize(token);
@@ -86,6 +90,17 @@ export function AppShell() {
     [characters, tokens]
   );
 
+  // Create a project from a shared script link and show its JSON
+  const handleImportScriptLink = useCallback(
+    async (name: string) => {
+      const project = await importScriptLink(name);
+      if (project) {
+        setActiveTab('json');
+      }
+    },
+    [importScriptLink]
+  );
+
   // Handle character selection changes from CustomizeView
   const handleCharacterSelect = useCallback((characterUuid: string) => {
     setLastSelectedCharacterUuid(characterUuid);
@@ -130,6 +145,16 @@ export function AppShell() {
         lastSelectedCharacterUuid={lastSelectedCharacterUuid}
       />
       <div className={styles.pageContent}>{renderActiveView()}</div>
+
+      <ScriptLinkImportModal
+        isOpen={scriptLink.hasLink}
+        preview={scriptLink.preview}
+        error={scriptLink.error}
+        isReady={scriptLink.isReady}
+        isImporting={scriptLink.isImporting}
+        onImport={handleImportScriptLink}
+        onClose={scriptLink.dismiss}
+      />
     </div>
   );
 }
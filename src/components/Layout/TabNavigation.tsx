@@ -25,7 +25,8 @@ export function TabNavigation({
   onTabChange,
   lastSelectedCharacterUuid,
 }: TabNavigationProps) {
-  const { tokens, jsonInput, characters, scriptMeta, generationOptions } = useTokenContext();
+  const { tokens, jsonInput, characters, scriptMeta, generationOptions, characterMetadata } =
+    useTokenContext();
   const _hasTokens = tokens.length > 0;
   const _hasScript = jsonInput.trim() !== '';
 
@@ -43,9 +44,17 @@ export function TabNavigation({
         scriptMeta,
         generationOptions,
         lastSelectedCharacterUuid,
+        characterMetadata,
       });
     },
-    [characters, scriptMeta, generationOptions, tokens, lastSelectedCharacterUuid]
+    [
+      characters,
+      scriptMeta,
+      generationOptions,
+      tokens,
+      lastSelectedCharacterUuid,
+      characterMetadata,
+    ]
   );
 
   const tabs: { id: EditorTab; label: string; disabled?: boolean }[] = [
@@ -70,6 +70,7 @@ const ASSET_TYPES: AssetType[] = [
   'setup-overlay',
   'accent',
   'logo',
+  'font',
 ];
 
 // ============================================================================
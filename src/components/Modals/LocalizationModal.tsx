@@ -0,0 +1,195 @@
+/**
+ * Localization Modal
+ *
+ * Imports translation packs (JSON) and picks the language tokens, night order
+ * sheets and player scripts are rendered in. Packs only override displayed
+ * text; the script JSON keeps its source text.
+ */
+
+import { useRef, useState } from 'react';
+import { FormGroup, Select } from '@/components/Shared/Form';
+import { Modal } from '@/components/Shared/ModalBase/Modal';
+import { Alert } from '@/components/Shared/UI/Alert';
+import { Button } from '@/components/Shared/UI/Button';
+import styles from '@/styles/components/modals/LocalizationModal.module.css';
+import {
+  findLocalizationPack,
+  getLocalizationCoverage,
+  parseLocalizationPack,
+  upsertLocalizationPack,
+} from '@/ts/data/localization.js';
+import type { Character, LocalizationPack } from '@/ts/types/index.js';
+import { getLocaleFontScript } from '@/ts/utils/localeFonts.js';
+import { logger } from '@/ts/utils/logger.js';
+
+interface LocalizationModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  /** Characters on the script (for translation coverage) */
+  characters: Character[];
+  packs: LocalizationPack[];
+  /** Active locale (unset = source text) */
+  locale: string | undefined;
+  onPacksChange: (packs: LocalizationPack[]) => void;
+  onLocaleChange: (locale: string | undefined) => void;
+}
+
+/** Missing characters listed by name before the rest are summarized */
+const MAX_MISSING_LISTED = 8;
+
+export function LocalizationModal({
+  isOpen,
+  onClose,
+  characters,
+  packs,
+  locale,
+  onPacksChange,
+  onLocaleChange,
+}: LocalizationModalProps) {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [errors, setErrors] = useState<string[]>([]);
+  const [warnings, setWarnings] = useState<string[]>([]);
+
+  const activePack = findLocalizationPack(packs, locale);
+  const coverage = activePack ? getLocalizationCoverage(characters, activePack) : null;
+  const missingNames = coverage
+    ? characters.filter((c) => coverage.missing.includes(c.id)).map((c) => c.name)
+    : [];
+
+  const localeOptions = [
+    { value: '', label: 'Source text (no translation)' },
+    ...packs.map((pack) => ({ value: pack.locale, label: `${pack.name} (${pack.locale})` })),
+  ];
+
+  const handleFiles = async (files: FileList | null) => {
+    if (!files || files.length === 0) return;
+
+    const nextErrors: string[] = [];
+    const nextWarnings: string[] = [];
+    let nextPacks = packs;
+    let lastImported: LocalizationPack | undefined;
+
+    for (const file of Array.from(files)) {
+      try {
+        const result = parseLocalizationPack(JSON.parse(await file.text()));
+        nextErrors.push(...result.errors.map((message) => `${file.name}: ${message}`));
+        nextWarnings.push(...result.warnings.map((message) => `${file.name}: ${message}`));
+        if (result.pack) {
+          nextPacks = upsertLocalizationPack(nextPacks, result.pack);
+          lastImported = result.pack;
+        }
+      } catch (err) {
+        logger.warn('LocalizationModal', `Failed to read ${file.name}`, err);
+        nextErrors.push(`${file.name}: not valid JSON`);
+      }
+    }
+
+    setErrors(nextErrors);
+    setWarnings(nextWarnings);
+    if (nextPacks !== packs) onPacksChange(nextPacks);
+    // Switch to a newly imported language when none is active yet
+    if (lastImported && !activePack) onLocaleChange(lastImported.locale);
+
+    if (fileInputRef.current) fileInputRef.current.value = '';
+  };
+
+  const handleRemove = (pack: LocalizationPack) => {
+    onPacksChange(packs.filter((p) => p !== pack));
+    if (pack === activePack) onLocaleChange(undefined);
+  };
+
+  const footerContent = (
+    <Button variant="secondary" onClick={onClose}>
+      Done
+    </Button>
+  );
+
+  return (
+    <Modal isOpen={isOpen} onClose={onClose} title="Language" size="medium" footer={footerContent}>
+      <FormGroup label="Render Tokens and Sheets In" htmlFor="localization-locale">
+        <Select
+          id="localization-locale"
+          value={activePack?.locale ?? ''}
+          options={localeOptions}
+          onChange={(e) => onLocaleChange(e.target.value || undefined)}
+        />
+      </FormGroup>
+
+      {coverage && (
+        <p className={styles.coverage}>
+          {coverage.translated} of {coverage.total} characters translated.
+          {missingNames.length > 0 && (
+            <>
+              {' '}
+              Untranslated: {missingNames.slice(0, MAX_MISSING_LISTED).join(', ')}
+              {missingNames.length > MAX_MISSING_LISTED &&
+                ` and ${missingNames.length - MAX_MISSING_LISTED} more`}
+              .
+            </>
+          )}
+        </p>
+      )}
+
+      {activePack && getLocaleFontScript(activePack.locale) !== 'latin' && (
+        <Alert variant="info" style={{ marginBottom: 'var(--spacing-md)' }}>
+          Tokens use your system fonts for this script. PDF sheets embed a Noto font from
+          fonts/Noto/, which must be installed with the app.
+        </Alert>
+      )}
+
+      <section className={styles.section}>
+        <h3>Translation Packs</h3>
+        {packs.length === 0 ? (
+          <p className={styles.empty}>No packs imported yet.</p>
+        ) : (
+          <ul className={styles.packList}>
+            {packs.map((pack) => (
+              <li key={pack.locale} className={styles.pack}>
+                <span className={styles.packName}>{pack.name}</span>
+                <span className={styles.packMeta}>
+                  {pack.locale} · {Object.keys(pack.characters).length} characters
+                </span>
+                <Button variant="ghost" size="small" onClick={() => handleRemove(pack)}>
+                  Remove
+                </Button>
+              </li>
+            ))}
+          </ul>
+        )}
+
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept=".json,application/json"
+          multiple
+          onChange={(e) => handleFiles(e.target.files)}
+          className={styles.fileInput}
+        />
+        <Button variant="secondary" onClick={() => fileInputRef.current?.click()}>
+          Import Pack…
+        </Button>
+        <p className={styles.hint}>
+          A pack is a JSON object with <code>locale</code>, <code>name</code> and{' '}
+          <code>characters</code> keyed by character ID. Each character may translate{' '}
+          <code>name</code>, <code>ability</code>, <code>reminders</code>,{' '}
+          <code>firstNightReminder</code> and <code>otherNightReminder</code>.
+        </p>
+      </section>
+
+      {errors.length > 0 && (
+        <Alert variant="error" style={{ marginTop: 'var(--spacing-md)' }}>
+          {errors.map((message) => (
+            <div key={message}>{message}</div>
+          ))}
+        </Alert>
+      )}
+      {warnings.length > 0 && (
+        <Alert variant="warning" style={{ marginTop: 'var(--spacing-md)' }}>
+          {warnings.length} entr{warnings.length === 1 ? 'y was' : 'ies were'} skipped:{' '}
+          {warnings.slice(0, 3).join('; ')}
+          {warnings.length > 3 && '…'}
+        </Alert>
+      )}
+    </Modal>
+  );
+}
@@ -0,0 +1,281 @@
+/**
+ * Random Script Modal
+ *
+ * Draws a random script from the synced official characters under team
+ * counts, edition, must-include, jinx and setup-modifier constraints, shows
+ * the draw for re-rolling, and saves the chosen one as a new project.
+ */
+
+import { useEffect, useMemo, useState } from 'react';
+import { Checkbox, FormGroup, Input } from '@/components/Shared/Form';
+import { Modal } from '@/components/Shared/ModalBase/Modal';
+import { Alert } from '@/components/Shared/UI/Alert';
+import { Button } from '@/components/Shared/UI/Button';
+import { useRandomScript } from '@/hooks/projects/useRandomScript';
+import styles from '@/styles/components/modals/RandomScriptModal.module.css';
+import { TEAM_LABELS } from '@/ts/constants.js';
+import { groupByTeam } from '@/ts/data/characterUtils.js';
+import { EDITIONS, type EditionId } from '@/ts/data/editions.js';
+import {
+  DEFAULT_RANDOM_SCRIPT_COUNTS,
+  type RandomScriptResult,
+  type RandomScriptTeam,
+} from '@/ts/data/scriptRandomizer.js';
+import type { Project } from '@/ts/types/project.js';
+import { SAO_TEAM_ORDER } from '@/ts/utils/scriptSorting.js';
+
+interface RandomScriptModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  /** Called with the new project after it is saved and opened */
+  onCreated: (project: Project) => void;
+}
+
+const COUNT_LABELS: Record<RandomScriptTeam, string> = {
+  townsfolk: 'Townsfolk',
+  outsider: 'Outsiders',
+  minion: 'Minions',
+  demon: 'Demons',
+  traveller: 'Travellers',
+};
+
+/** Editions offered as sources (Fabled and Loric are never drawn) */
+const SOURCE_EDITIONS = EDITIONS.filter(
+  (edition) => edition.id !== 'fabled' && edition.id !== 'loric'
+);
+
+const DEFAULT_EDITIONS: EditionId[] = ['tb', 'bmr', 'snv'];
+
+function defaultName(): string {
+  const date = new Date().toLocaleDateString('en-US', { month: 'short', day: 'numeric' });
+  return `Random Script - ${date}`;
+}
+
+/** Parse an optional limit field (blank = no limit) */
+function parseLimit(value: string): number | undefined {
+  if (!value.trim()) return undefined;
+  const parsed = Number.parseInt(value, 10);
+  return Number.isNaN(parsed) ? undefined : Math.max(0, parsed);
+}
+
+export function RandomScriptModal({ isOpen, onClose, onCreated }: RandomScriptModalProps) {
+  const { isRolling, isCreating, error, roll, createProject } = useRandomScript();
+
+  const [name, setName] = useState('');
+  const [teamCounts, setTeamCounts] = useState({ ...DEFAULT_RANDOM_SCRIPT_COUNTS });
+  const [editions, setEditions] = useState<Set<EditionId>>(new Set(DEFAULT_EDITIONS));
+  const [mustInclude, setMustInclude] = useState('');
+  const [maxJinxPairs, setMaxJinxPairs] = useState('');
+  const [minOutsiderModifiers, setMinOutsiderModifiers] = useState('1');
+  const [maxSetupModifiers, setMaxSetupModifiers] = useState('');
+  const [result, setResult] = useState<RandomScriptResult | null>(null);
+
+  // Fresh name and draw each time the dialog opens; constraints are kept
+  useEffect(() => {
+    if (!isOpen) return;
+    setName(defaultName());
+    setResult(null);
+  }, [isOpen]);
+
+  const groups = useMemo(() => groupByTeam(result?.characters ?? []), [result]);
+
+  const toggleEdition = (id: EditionId) => {
+    setEditions((prev) => {
+      const next = new Set(prev);
+      if (next.has(id)) next.delete(id);
+      else next.add(id);
+      return next;
+    });
+  };
+
+  const handleRoll = async () => {
+    const drawn = await roll({
+      teamCounts,
+      editions: Array.from(editions),
+      mustInclude: mustInclude.split(/[,\n]/),
+      maxJinxPairs: parseLimit(maxJinxPairs),
+      minOutsiderModifiers: parseLimit(minOutsiderModifiers),
+      maxSetupModifiers: parseLimit(maxSetupModifiers),
+    });
+    setResult(drawn);
+  };
+
+  const handleCreate = async () => {
+    if (!result?.characters.length) return;
+    const project = await createProject(name.trim() || defaultName(), result.characters);
+    if (project) onCreated(project);
+  };
+
+  const isBusy = isRolling || isCreating;
+  const hasDraw = !!result && result.characters.length > 0;
+
+  const footerContent = (
+    <>
+      <Button variant="secondary" onClick={onClose} disabled={isCreating}>
+        Cancel
+      </Button>
+      <Button
+        variant="secondary"
+        onClick={handleRoll}
+        disabled={isBusy || editions.size === 0}
+        loading={isRolling}
+        loadingText="Drawing..."
+      >
+        {hasDraw ? 'Re-roll' : 'Roll'}
+      </Button>
+      <Button
+        variant="accent"
+        onClick={handleCreate}
+        disabled={!hasDraw || isRolling}
+        loading={isCreating}
+        loadingText="Creating..."
+      >
+        Create Project
+      </Button>
+    </>
+  );
+
+  return (
+    <Modal
+      isOpen={isOpen}
+      onClose={onClose}
+      title="Random Script"
+      size="large"
+      preventClose={isCreating}
+      footer={footerContent}
+    >
+      <FormGroup label="Project Name" htmlFor="random-script-name">
+        <Input
+          id="random-script-name"
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          disabled={isBusy}
+          fullWidth
+        />
+      </FormGroup>
+
+      <div className={styles.counts}>
+        {(Object.keys(COUNT_LABELS) as RandomScriptTeam[]).map((team) => (
+          <FormGroup key={team} label={COUNT_LABELS[team]} htmlFor={`random-script-${team}`}>
+            <Input
+              id={`random-script-${team}`}
+              type="number"
+              min={0}
+              max={30}
+              value={teamCounts[team]}
+              onChange={(e) =>
+                setTeamCounts((prev) => ({
+                  ...prev,
+                  [team]: Math.max(0, Number.parseInt(e.target.value, 10) || 0),
+                }))
+              }
+              disabled={isBusy}
+              fullWidth
+            />
+          </FormGroup>
+        ))}
+      </div>
+
+      <FormGroup label="Draw From">
+        <div className={styles.editions}>
+          {SOURCE_EDITIONS.map((edition) => (
+            <Checkbox
+              key={edition.id}
+              size="small"
+              label={edition.name}
+              checked={editions.has(edition.id)}
+              onChange={() => toggleEdition(edition.id)}
+              disabled={isBusy}
+            />
+          ))}
+        </div>
+      </FormGroup>
+
+      <FormGroup
+        label="Must Include"
+        htmlFor="random-script-must-include"
+        helpText="Character names or IDs, separated by commas. These may come from any edition."
+      >
+        <Input
+          id="random-script-must-include"
+          value={mustInclude}
+          onChange={(e) => setMustInclude(e.target.value)}
+          placeholder="e.g. Fortune Teller, Vortox"
+          disabled={isBusy}
+          fullWidth
+        />
+      </FormGroup>
+
+      <div className={styles.limits}>
+        <FormGroup label="Max Jinxed Pairs" htmlFor="random-script-max-jinxes">
+          <Input
+            id="random-script-max-jinxes"
+            type="number"
+            min={0}
+            value={maxJinxPairs}
+            onChange={(e) => setMaxJinxPairs(e.target.value)}
+            placeholder="No limit"
+            disabled={isBusy}
+            fullWidth
+          />
+        </FormGroup>
+        <FormGroup label="Min Outsider Modifiers" htmlFor="random-script-min-outsider-mods">
+          <Input
+            id="random-script-min-outsider-mods"
+            type="number"
+            min={0}
+            value={minOutsiderModifiers}
+            onChange={(e) => setMinOutsiderModifiers(e.target.value)}
+            placeholder="0"
+            disabled={isBusy}
+            fullWidth
+          />
+        </FormGroup>
+        <FormGroup label="Max Setup Modifiers" htmlFor="random-script-max-setup-mods">
+          <Input
+            id="random-script-max-setup-mods"
+            type="number"
+            min={0}
+            value={maxSetupModifiers}
+            onChange={(e) => setMaxSetupModifiers(e.target.value)}
+            placeholder="No limit"
+            disabled={isBusy}
+            fullWidth
+          />
+        </FormGroup>
+      </div>
+      <p className={styles.hint}>
+        Setup modifiers are abilities with [brackets]; Outsider modifiers change the Outsider count,
+        like the Baron or Godfather.
+      </p>
+
+      {hasDraw && result && (
+        <section className={styles.result}>
+          <p className={styles.resultSummary}>
+            {result.characters.length} characters · {result.jinxPairs.length} jinxed pair
+            {result.jinxPairs.length === 1 ? '' : 's'}
+          </p>
+          {SAO_TEAM_ORDER.filter((team) => groups[team]?.length).map((team) => (
+            <div key={team} className={styles.resultTeam}>
+              <h3>{TEAM_LABELS[team]}</h3>
+              <p>{groups[team].map((character) => character.name).join(', ')}</p>
+            </div>
+          ))}
+        </section>
+      )}
+
+      {result && result.errors.length > 0 && (
+        <Alert variant="warning" style={{ marginTop: 'var(--spacing-md)' }}>
+          {result.errors.map((message) => (
+            <div key={message}>{message}</div>
+          ))}
+        </Alert>
+      )}
+      {error && !result?.errors.includes(error) && (
+        <Alert variant="error" style={{ marginTop: 'var(--spacing-md)' }}>
+          {error}
+        </Alert>
+      )}
+    </Modal>
+  );
+}
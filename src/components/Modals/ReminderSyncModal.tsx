@@ -0,0 +1,160 @@
+/**
+ * Reminder Sync Modal
+ *
+ * Batch review of reminder tokens against night reminder text. Lists tokens
+ * that night text names but characters don't list (selectable, added on
+ * apply) and reminders no night text mentions (flagged only).
+ */
+
+import { useEffect, useMemo, useState } from 'react';
+import { Checkbox } from '@/components/Shared/Form';
+import { Modal } from '@/components/Shared/ModalBase/Modal';
+import { Alert } from '@/components/Shared/UI/Alert';
+import { Button } from '@/components/Shared/UI/Button';
+import styles from '@/styles/components/modals/ReminderSyncModal.module.css';
+import { analyzeReminderSync } from '@/ts/data/reminderSync.js';
+import type { Character } from '@/ts/types/index.js';
+
+interface ReminderSyncModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  /** Characters in the script */
+  characters: Character[];
+  /** Add the selected reminders (keyed by character UUID) */
+  onApply: (additions: Map<string, string[]>) => void;
+}
+
+/**
+ * Selection key for one reminder of one character
+ */
+function selectionKey(uuid: string, name: string): string {
+  return `${uuid}\u0000${name}`;
+}
+
+export function ReminderSyncModal({
+  isOpen,
+  onClose,
+  characters,
+  onApply,
+}: ReminderSyncModalProps) {
+  const report = useMemo(() => analyzeReminderSync(characters), [characters]);
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+
+  const missingIssues = report.issues.filter((issue) => issue.missing.length > 0);
+  const flaggedIssues = report.issues.filter(
+    (issue) => issue.unused.length > 0 || issue.unlistedPlacement
+  );
+
+  // Select every missing reminder each time the dialog opens
+  useEffect(() => {
+    if (!isOpen) return;
+    setSelected(
+      new Set(
+        report.issues.flatMap((issue) =>
+          issue.missing.map((name) => selectionKey(issue.character.uuid ?? '', name))
+        )
+      )
+    );
+  }, [isOpen, report]);
+
+  const toggle = (key: string) => {
+    setSelected((prev) => {
+      const next = new Set(prev);
+      if (next.has(key)) next.delete(key);
+      else next.add(key);
+      return next;
+    });
+  };
+
+  const handleApply = () => {
+    const additions = new Map<string, string[]>();
+    for (const issue of missingIssues) {
+      const uuid = issue.character.uuid ?? '';
+      const names = issue.missing.filter((name) => selected.has(selectionKey(uuid, name)));
+      if (names.length > 0) additions.set(uuid, names);
+    }
+    onApply(additions);
+  };
+
+  const footerContent = (
+    <>
+      <Button variant="secondary" onClick={onClose}>
+        Close
+      </Button>
+      <Button variant="accent" onClick={handleApply} disabled={selected.size === 0}>
+        Add {selected.size} Reminder{selected.size === 1 ? '' : 's'}
+      </Button>
+    </>
+  );
+
+  return (
+    <Modal
+      isOpen={isOpen}
+      onClose={onClose}
+      title="Sync Reminders"
+      size="medium"
+      footer={footerContent}
+    >
+      {report.issues.length === 0 ? (
+        <Alert variant="success">
+          Every reminder token named in night reminder text is listed, and every listed reminder is
+          used.
+        </Alert>
+      ) : (
+        <>
+          {missingIssues.length > 0 && (
+            <section className={styles.section}>
+              <h3>Missing Reminders</h3>
+              <p className={styles.hint}>
+                Named in night reminder text (<code>*TOKEN*</code>) but not listed as reminders.
+              </p>
+              <ul className={styles.characterList}>
+                {missingIssues.map(({ character, missing }) => (
+                  <li key={character.uuid ?? character.id} className={styles.characterItem}>
+                    <span className={styles.characterName}>{character.name}</span>
+                    <div className={styles.reminderOptions}>
+                      {missing.map((name) => {
+                        const key = selectionKey(character.uuid ?? '', name);
+                        return (
+                          <Checkbox
+                            key={key}
+                            size="small"
+                            label={name}
+                            checked={selected.has(key)}
+                            onChange={() => toggle(key)}
+                          />
+                        );
+                      })}
+                    </div>
+                  </li>
+                ))}
+              </ul>
+            </section>
+          )}
+
+          {flaggedIssues.length > 0 && (
+            <section className={styles.section}>
+              <h3>Not Used at Night</h3>
+              <p className={styles.hint}>
+                Reminders no night text mentions. Day-only reminders are fine; check for typos or
+                leftovers.
+              </p>
+              <ul className={styles.characterList}>
+                {flaggedIssues.map(({ character, unused, unlistedPlacement }) => (
+                  <li key={character.uuid ?? character.id} className={styles.characterItem}>
+                    <span className={styles.characterName}>{character.name}</span>
+                    <span className={styles.flagged}>
+                      {unlistedPlacement
+                        ? 'Night text places a reminder (:reminder:) but none are listed'
+                        : unused.join(', ')}
+                    </span>
+                  </li>
+                ))}
+              </ul>
+            </section>
+          )}
+        </>
+      )}
+    </Modal>
+  );
+}
@@ -0,0 +1,134 @@
+/**
+ * Script Link Import Modal
+ *
+ * Shown when the app is opened with a shared script link (`?script=` or `#script=`).
+ * Previews the script and creates a new project from it.
+ */
+
+import { useEffect, useState } from 'react';
+import { FormGroup, Input } from '@/components/Shared/Form';
+import { Modal } from '@/components/Shared/ModalBase/Modal';
+import { Alert } from '@/components/Shared/UI/Alert';
+import { Button } from '@/components/Shared/UI/Button';
+import type { ScriptLinkPreview } from '@/hooks';
+import styles from '@/styles/components/modals/ImportProjectModal.module.css';
+
+interface ScriptLinkImportModalProps {
+  isOpen: boolean;
+  /** Parsed link contents (null while parsing or if the link is damaged) */
+  preview: ScriptLinkPreview | null;
+  /** Decode or import error */
+  error: string | null;
+  /** Whether official character data has loaded */
+  isReady: boolean;
+  isImporting: boolean;
+  onImport: (name: string) => void;
+  onClose: () => void;
+}
+
+export function ScriptLinkImportModal({
+  isOpen,
+  preview,
+  error,
+  isReady,
+  isImporting,
+  onImport,
+  onClose,
+}: ScriptLinkImportModalProps) {
+  const [projectName, setProjectName] = useState('');
+
+  // Default the project name to the script name once the link is parsed
+  const scriptName = preview?.scriptMeta?.name;
+  useEffect(() => {
+    setProjectName(scriptName || 'Shared Script');
+  }, [scriptName]);
+
+  const footerContent = (
+    <>
+      <Button variant="secondary" onClick={onClose} disabled={isImporting}>
+        Cancel
+      </Button>
+      <Button
+        variant="accent"
+        onClick={() => onImport(projectName.trim() || 'Shared Script')}
+        disabled={!preview || !isReady}
+        loading={isImporting}
+        loadingText="Creating..."
+      >
+        Create Project
+      </Button>
+    </>
+  );
+
+  return (
+    <Modal
+      isOpen={isOpen}
+      onClose={onClose}
+      title="Import Shared Script"
+      size="medium"
+      preventClose={isImporting}
+      footer={footerContent}
+    >
+      {!preview && !error && (
+        <div className={styles.validating}>
+          <div className={styles.spinner} />
+          <p>Reading script link...</p>
+        </div>
+      )}
+
+      {preview && (
+        <div className={styles.preview}>
+          <h3 className={styles.previewTitle}>{scriptName || 'Untitled Script'}</h3>
+          {preview.scriptMeta?.author && (
+            <p className={styles.previewDescription}>by {preview.scriptMeta.author}</p>
+          )}
+
+          <div className={styles.previewStats}>
+            <div className={styles.stat}>
+              <span className={styles.statLabel}>Characters:</span>
+              <span className={styles.statValue}>
+                {isReady ? preview.characters.length : 'Loading character data...'}
+              </span>
+            </div>
+            <div className={styles.stat}>
+              <span className={styles.statLabel}>Custom Characters:</span>
+              <span className={styles.statValue}>
+                {preview.characters.filter((c) => c.source === 'custom').length}
+              </span>
+            </div>
+            <div className={styles.stat}>
+              <span className={styles.statLabel}>Token Style:</span>
+              <span className={styles.statValue}>
+                {preview.payload.generationOptions ? 'Included' : 'Your current settings'}
+              </span>
+            </div>
+          </div>
+
+          <FormGroup label="Project Name" htmlFor="script-link-project-name">
+            <Input
+              id="script-link-project-name"
+              value={projectName}
+              onChange={(e) => setProjectName(e.target.value)}
+              disabled={isImporting}
+              fullWidth
+            />
+          </FormGroup>
+        </div>
+      )}
+
+      {isReady && preview && preview.warnings.length > 0 && (
+        <Alert variant="warning" style={{ marginTop: 'var(--spacing-md)' }}>
+          {preview.warnings.length} script{' '}
+          {preview.warnings.length === 1 ? 'entry has' : 'entries have'} issues. Review them in the
+          JSON view after importing.
+        </Alert>
+      )}
+
+      {error && (
+        <Alert variant="error" style={{ marginTop: 'var(--spacing-md)' }}>
+          {error}
+        </Alert>
+      )}
+    </Modal>
+  );
+}
@@ -0,0 +1,226 @@
+/**
+ * Script Variant Modal
+ *
+ * Builds a variant project for a smaller player count (e.g. a 5–6 player
+ * "Teensyville" cut) from the current script. Characters are picked per team
+ * against the recommended composition for the chosen player count.
+ */
+
+import { useEffect, useMemo, useState } from 'react';
+import { Checkbox, FormGroup, Input, Select } from '@/components/Shared/Form';
+import { Modal } from '@/components/Shared/ModalBase/Modal';
+import { Alert } from '@/components/Shared/UI/Alert';
+import { Button } from '@/components/Shared/UI/Button';
+import type { CreateScriptVariantOptions } from '@/hooks';
+import styles from '@/styles/components/modals/ScriptVariantModal.module.css';
+import { TEAM_LABELS } from '@/ts/constants.js';
+import { groupByTeam } from '@/ts/data/characterUtils.js';
+import type { CompositionTeam } from '@/ts/data/scriptAnalyzer.js';
+import {
+  getPlayerCountSetup,
+  getVariantComposition,
+  MAX_PLAYER_COUNT,
+  MIN_PLAYER_COUNT,
+  TEENSYVILLE_MAX_PLAYERS,
+} from '@/ts/data/scriptVariant.js';
+import type { Character } from '@/ts/types/index.js';
+import { SAO_TEAM_ORDER } from '@/ts/utils/scriptSorting.js';
+
+interface ScriptVariantModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  /** Characters on the parent script */
+  characters: Character[];
+  /** Parent script name (used for the default variant name) */
+  scriptName: string;
+  isCreating: boolean;
+  error: string | null;
+  onCreate: (options: CreateScriptVariantOptions) => void;
+}
+
+const DEFAULT_PLAYER_COUNT = TEENSYVILLE_MAX_PLAYERS;
+
+const PLAYER_COUNT_OPTIONS = Array.from(
+  { length: MAX_PLAYER_COUNT - MIN_PLAYER_COUNT + 1 },
+  (_, i) => {
+    const count = MIN_PLAYER_COUNT + i;
+    return {
+      value: String(count),
+      label:
+        count <= TEENSYVILLE_MAX_PLAYERS ? `${count} players (Teensyville)` : `${count} players`,
+    };
+  }
+);
+
+function isCompositionTeam(team: string): team is CompositionTeam {
+  return team === 'townsfolk' || team === 'outsider' || team === 'minion' || team === 'demon';
+}
+
+function variantName(scriptName: string, playerCount: number): string {
+  return playerCount <= TEENSYVILLE_MAX_PLAYERS
+    ? `${scriptName} (Teensyville)`
+    : `${scriptName} (${playerCount} players)`;
+}
+
+/**
+ * Default selection: the first characters of each core team up to the
+ * recommended count, and every Traveller, Fabled and Loric
+ */
+function defaultSelection(characters: Character[], playerCount: number): Set<string> {
+  const composition = getVariantComposition(playerCount);
+  const groups = groupByTeam(characters);
+  const selected = new Set<string>();
+  for (const team of SAO_TEAM_ORDER) {
+    const members = groups[team] ?? [];
+    const limit = isCompositionTeam(team) ? composition[team] : members.length;
+    for (const character of members.slice(0, limit)) selected.add(character.id);
+  }
+  return selected;
+}
+
+export function ScriptVariantModal({
+  isOpen,
+  onClose,
+  characters,
+  scriptName,
+  isCreating,
+  error,
+  onCreate,
+}: ScriptVariantModalProps) {
+  const [playerCount, setPlayerCount] = useState(DEFAULT_PLAYER_COUNT);
+  const [name, setName] = useState('');
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+
+  const groups = useMemo(() => groupByTeam(characters), [characters]);
+  const composition = getVariantComposition(playerCount);
+  const setup = getPlayerCountSetup(playerCount);
+
+  // Start from the recommended Teensyville cut each time the dialog opens
+  useEffect(() => {
+    if (!isOpen) return;
+    setPlayerCount(DEFAULT_PLAYER_COUNT);
+    setName(variantName(scriptName, DEFAULT_PLAYER_COUNT));
+    setSelected(defaultSelection(characters, DEFAULT_PLAYER_COUNT));
+  }, [isOpen, scriptName, characters]);
+
+  const handlePlayerCountChange = (value: number) => {
+    // Follow the player count in the name unless the user renamed the variant
+    if (name === variantName(scriptName, playerCount)) {
+      setName(variantName(scriptName, value));
+    }
+    setPlayerCount(value);
+  };
+
+  const toggle = (id: string) => {
+    setSelected((prev) => {
+      const next = new Set(prev);
+      if (next.has(id)) next.delete(id);
+      else next.add(id);
+      return next;
+    });
+  };
+
+  const handleCreate = () => {
+    onCreate({
+      name: name.trim() || variantName(scriptName, playerCount),
+      playerCount,
+      characterIds: characters.filter((c) => selected.has(c.id)).map((c) => c.id),
+    });
+  };
+
+  const setupSummary = (Object.keys(setup) as CompositionTeam[])
+    .map((team) => {
+      const plural = team !== 'townsfolk' && setup[team] !== 1;
+      return `${setup[team]} ${TEAM_LABELS[team]}${plural ? 's' : ''}`;
+    })
+    .join(', ');
+
+  const footerContent = (
+    <>
+      <Button variant="secondary" onClick={onClose} disabled={isCreating}>
+        Cancel
+      </Button>
+      <Button
+        variant="accent"
+        onClick={handleCreate}
+        disabled={selected.size === 0}
+        loading={isCreating}
+        loadingText="Creating..."
+      >
+        Create Variant ({selected.size})
+      </Button>
+    </>
+  );
+
+  return (
+    <Modal
+      isOpen={isOpen}
+      onClose={onClose}
+      title="Build Script Variant"
+      size="large"
+      preventClose={isCreating}
+      footer={footerContent}
+    >
+      <div className={styles.settings}>
+        <FormGroup label="Player Count" htmlFor="script-variant-player-count">
+          <Select
+            id="script-variant-player-count"
+            value={String(playerCount)}
+            options={PLAYER_COUNT_OPTIONS}
+            onChange={(e) => handlePlayerCountChange(Number(e.target.value))}
+            disabled={isCreating}
+          />
+        </FormGroup>
+        <FormGroup label="Project Name" htmlFor="script-variant-name">
+          <Input
+            id="script-variant-name"
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            disabled={isCreating}
+            fullWidth
+          />
+        </FormGroup>
+      </div>
+      <p className={styles.hint}>
+        In play at {playerCount} players: {setupSummary}. The variant is saved as a new project
+        linked to this one; the night order is rebuilt from this script's order.
+      </p>
+
+      {SAO_TEAM_ORDER.filter((team) => groups[team]?.length).map((team) => {
+        const members = groups[team];
+        const count = members.filter((c) => selected.has(c.id)).length;
+        const recommended = isCompositionTeam(team) ? composition[team] : undefined;
+        return (
+          <section key={team} className={styles.section}>
+            <h3>
+              {TEAM_LABELS[team]}
+              <span
+                className={`${styles.teamCount} ${recommended !== undefined && count !== recommended ? styles.offTarget : ''}`}
+              >
+                {recommended !== undefined ? `${count} / ${recommended}` : count}
+              </span>
+            </h3>
+            <div className={styles.characterOptions}>
+              {members.map((character) => (
+                <Checkbox
+                  key={character.uuid ?? character.id}
+                  size="small"
+                  label={character.name}
+                  checked={selected.has(character.id)}
+                  onChange={() => toggle(character.id)}
+                  disabled={isCreating}
+                />
+              ))}
+            </div>
+          </section>
+        );
+      })}
+
+      {error && (
+        <Alert variant="error" style={{ marginTop: 'var(--spacing-md)' }}>
+          {error}
+        </Alert>
+      )}
+    </Modal>
+  );
+}
@@ -5,5 +5,10 @@ export { ExportProjectModal } from './ExportProjectModal';
 export { IconManagementModal } from './IconManagementModal';
 export { ImportProjectModal } from './ImportProjectModal';
 export { InfoModal } from './InfoModal';
+export { LocalizationModal } from './LocalizationModal';
+export { RandomScriptModal } from './RandomScriptModal';
+export { ReminderSyncModal } from './ReminderSyncModal';
+export { ScriptLinkImportModal } from './ScriptLinkImportModal';
+export { ScriptVariantModal } from './ScriptVariantModal';
 export { SettingsModal } from './SettingsModal';
 export { SyncDetailsModal } from './SyncDetailsModal';
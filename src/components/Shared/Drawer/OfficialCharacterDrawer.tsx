@@ -6,9 +6,10 @@
  *
  * Features:
  * - Full-height side panel sliding from right
- * - Search by name or ability text
- * - Filter by edition (Base 3 vs Experimental)
+ * - Full-text search over name, ability, flavor and reminder text
+ * - Edition facets with counts (TB, BMR, S&V, Experimental, Fabled, Loric)
  * - Filter by team
+ * - Start a new project from a base edition's script
  * - Toggle characters on/off the script with real-time sync
  * - Collapsible team sections
  * - Escape key to close
@@ -19,12 +20,15 @@
 import { memo, useCallback, useEffect, useMemo, useState } from 'react';
 import { createPortal } from 'react-dom';
 import { useDataSync } from '@/contexts/DataSyncContext';
+import { useToast } from '@/contexts/ToastContext';
 import { useTokenContext } from '@/contexts/TokenContext';
+import { useEditionProject } from '@/hooks/projects/useEditionProject';
 import { useOfficialCharacterImages } from '@/hooks/sync/useOfficialCharacterImages';
 import { useCharacterFiltering } from '@/hooks/ui/useCharacterFiltering';
 import { useDrawerAnimation } from '@/hooks/ui/useDrawerAnimation';
 import { useModalBehavior } from '@/hooks/ui/useModalBehavior';
 import styles from '@/styles/components/shared/OfficialCharacterDrawer.module.css';
+import { EDITIONS, getEditionInfo, isBaseEdition } from '@/ts/data/editions.js';
 import type { Character, Team } from '@/ts/types/index.js';
 import { charactersToJson } from '@/ts/utils/jsonUtils.js';
 import { logger } from '@/ts/utils/logger.js';
@@ -223,11 +227,27 @@ export const OfficialCharacterDrawer = memo(function OfficialCharacterDrawer({
     toggleShowSelectedOnly,
     clearSearch,
     filteredCharacters,
+    editionCounts,
   } = useCharacterFiltering({
     characters: officialCharacters,
     onScriptIds,
   });
 
+  // New project from a base edition
+  const { addToast } = useToast();
+  const { isCreating: isCreatingProject, createEditionProject } = useEditionProject();
+
+  const handleStartEditionProject = useCallback(async () => {
+    if (editionFilter === 'all' || !isBaseEdition(editionFilter)) return;
+    const project = await createEditionProject(editionFilter);
+    if (project) {
+      addToast(`Created project "${project.name}"`, 'success');
+      onClose();
+    } else {
+      addToast('Failed to create project from edition', 'error');
+    }
+  }, [editionFilter, createEditionProject, addToast, onClose]);
+
   // Image loading
   const { imageUrls, isLoading: imagesLoading } = useOfficialCharacterImages({
     characters: officialCharacters,
@@ -366,7 +386,7 @@ export const OfficialCharacterDrawer = memo(function OfficialCharacterDrawer({
             <input
               type="text"
               className={styles.searchInput}
-              placeholder="Search by name or ability..."
+              placeholder="Search name, ability, flavor or reminders..."
               value={searchQuery}
               onChange={(e) => setSearchQuery(e.target.value)}
             />
@@ -377,18 +397,50 @@ export const OfficialCharacterDrawer = memo(function OfficialCharacterDrawer({
             )}
           </div>
 
-          {/* Filters */}
-          <div className={styles.filterRow}>
-            <select
-              className={styles.filterSelect}
-              value={editionFilter}
-              onChange={(e) => setEditionFilter(e.target.value as typeof editionFilter)}
+          {/* Edition Facets */}
+          <div className={styles.editionFacets}>
+            <button
+              type="button"
+              className={`${styles.editionChip} ${editionFilter === 'all' ? styles.editionChipActive : ''}`}
+              onClick={() => setEditionFilter('all')}
+              aria-pressed={editionFilter === 'all'}
             >
-              <option value="all">All Editions</option>
-              <option value="base3">Base 3 (TB, SV, BMR)</option>
-              <option value="experimental">Experimental</option>
-            </select>
+              All
+            </button>
+            {EDITIONS.map((edition) => (
+              <button
+                key={edition.id}
+                type="button"
+                className={`${styles.editionChip} ${editionFilter === edition.id ? styles.editionChipActive : ''}`}
+                onClick={() => setEditionFilter(editionFilter === edition.id ? 'all' : edition.id)}
+                disabled={editionCounts[edition.id] === 0 && editionFilter !== edition.id}
+                aria-pressed={editionFilter === edition.id}
+                title={edition.name}
+              >
+                {edition.shortName}
+                <span className={styles.editionChipCount}>{editionCounts[edition.id]}</span>
+              </button>
+            ))}
+          </div>
 
+          {/* Base Edition Project */}
+          {editionFilter !== 'all' && isBaseEdition(editionFilter) && (
+            <div className={styles.editionProjectRow}>
+              <span>{getEditionInfo(editionFilter).name}</span>
+              <button
+                type="button"
+                className={styles.editionProjectButton}
+                onClick={handleStartEditionProject}
+                disabled={isCreatingProject || isLoading}
+                title="Create a new project with this edition's script and open it"
+              >
+                {isCreatingProject ? 'Creating...' : 'Start New Project'}
+              </button>
+            </div>
+          )}
+
+          {/* Filters */}
+          <div className={styles.filterRow}>
             <select
               className={styles.filterSelect}
               value={teamFilter}
@@ -10,6 +10,7 @@
  * - Bracket matching with visual feedback
  * - Search and replace (Ctrl+F / Ctrl+H)
  * - JSON syntax highlighting and linting
+ * - Script-schema diagnostics with quick fixes (opt-in via lintScriptSchema)
  * - Undo/redo history (Ctrl+Z / Ctrl+Y)
  */
 
@@ -44,6 +45,8 @@ export interface CodeMirrorEditorProps {
   showLineNumbers?: boolean;
   /** Whether to show fold gutter (default: true) */
   showFoldGutter?: boolean;
+  /** Whether to show script-schema diagnostics with quick fixes (default: false) */
+  lintScriptSchema?: boolean;
 }
 
 export interface EditorControls {
@@ -79,6 +82,7 @@ export function CodeMirrorEditor({
   showInfoIndicator = true,
   showLineNumbers = true,
   showFoldGutter = true,
+  lintScriptSchema = false,
 }: CodeMirrorEditorProps) {
   const onEditorReadyRef = useRef(onEditorReady);
   onEditorReadyRef.current = onEditorReady;
@@ -95,6 +99,7 @@ export function CodeMirrorEditor({
     showLintGutter: true,
     showLineNumbers,
     showFoldGutter,
+    lintScriptSchema,
   });
 
   // Expose editor controls to parent
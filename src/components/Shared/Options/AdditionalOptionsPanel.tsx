@@ -6,6 +6,10 @@
  * - Reminder Count (with style options)
  * - Setup (setup flower asset selector)
  * - Accents (accent decorations)
+ * - Language (translation packs for token and sheet text)
+ * - Shape (token outline for non-circular blanks)
+ * - Layout (character token layout template)
+ * - Randomness (master seed for accents, textures and rotations)
  *
  * These options apply to token generation and are separated from the main
  * Options panel for better organization. Additional token types (Variants,
@@ -16,8 +20,12 @@
 
 import { memo } from 'react';
 import { AccentSettingsSelector } from '@/components/Shared/Selectors/AccentSettingsSelector';
+import { LanguageSettingsSelector } from '@/components/Shared/Selectors/LanguageSettingsSelector';
+import { LayoutTemplateSelector } from '@/components/Shared/Selectors/LayoutTemplateSelector';
+import { RandomSeedSelector } from '@/components/Shared/Selectors/RandomSeedSelector';
 import { ReminderCountSelector } from '@/components/Shared/Selectors/ReminderCountSelector';
 import { SetupSettingsSelector } from '@/components/Shared/Selectors/SetupSettingsSelector';
+import { TokenShapeSelector } from '@/components/Shared/Selectors/TokenShapeSelector';
 import styles from '@/styles/components/options/OptionsPanel.module.css';
 import type { GenerationOptions } from '@/ts/types/index';
 import { AbilityTextSection } from './AppearancePanel';
@@ -66,6 +74,38 @@ export const AdditionalOptionsPanel = memo(
               projectId={projectId}
             />
           </div>
+
+          {/* 5. Language */}
+          <div className={styles.settingsGroup}>
+            <LanguageSettingsSelector
+              generationOptions={generationOptions}
+              onOptionChange={onOptionChange}
+            />
+          </div>
+
+          {/* 6. Shape */}
+          <div className={styles.settingsGroup}>
+            <TokenShapeSelector
+              generationOptions={generationOptions}
+              onOptionChange={onOptionChange}
+            />
+          </div>
+
+          {/* 7. Layout */}
+          <div className={styles.settingsGroup}>
+            <LayoutTemplateSelector
+              generationOptions={generationOptions}
+              onOptionChange={onOptionChange}
+            />
+          </div>
+
+          {/* 8. Randomness */}
+          <div className={styles.settingsGroup}>
+            <RandomSeedSelector
+              generationOptions={generationOptions}
+              onOptionChange={onOptionChange}
+            />
+          </div>
         </div>
       </div>
     );
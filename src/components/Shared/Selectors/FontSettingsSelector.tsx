@@ -10,6 +10,7 @@
  * - Portal-based panel to avoid overflow clipping
  * - Smart upward/downward opening based on viewport space
  * - Reusable configuration via FontSettings object
+ * - Uploaded fonts listed after the given options, with an upload button
  *
  * Uses SettingsSelectorBase for consistent styling and useExpandablePanel
  * for panel management.
@@ -17,10 +18,10 @@
  * @module components/Shared/FontSettingsSelector
  */
 
-import { memo, useRef } from 'react';
+import { memo, useMemo, useRef } from 'react';
 import { createPortal } from 'react-dom';
 import { EditableSlider } from '@/components/Shared/Controls/EditableSlider';
-import { useExpandablePanel } from '@/hooks';
+import { useCustomFonts, useExpandablePanel } from '@/hooks';
 import styles from '@/styles/components/shared/FontSettingsSelector.module.css';
 import baseStyles from '@/styles/components/shared/SettingsSelectorBase.module.css';
 import panelStyles from '@/styles/components/shared/SimplePanelSelector.module.css';
@@ -161,6 +162,18 @@ export const FontSettingsSelector = memo(function FontSettingsSelector({
   headerSlot,
 }: FontSettingsSelectorProps) {
   const colorInputRef = useRef<HTMLInputElement>(null);
+  const customFonts = useCustomFonts();
+
+  // Uploaded fonts follow the bundled options
+  const allFontOptions = useMemo<FontOption[]>(
+    () => [
+      ...fontOptions,
+      ...customFonts.fonts
+        .filter((font) => !fontOptions.some((option) => option.value === font.family))
+        .map((font) => ({ value: font.family, label: font.family, category: 'Custom' })),
+    ],
+    [fontOptions, customFonts.fonts]
+  );
 
   // Default settings for reset
   const defaultSettings: FontSettings = {
@@ -186,7 +199,14 @@ export const FontSettingsSelector = memo(function FontSettingsSelector({
 
   // Get current font option for display
   const currentFontOption =
-    fontOptions.find((f) => f.value === displaySettings.fontFamily) || fontOptions[0];
+    allFontOptions.find((f) => f.value === displaySettings.fontFamily) || fontOptions[0];
+
+  const handleUploadFont = async () => {
+    const family = await customFonts.uploadFont();
+    if (family) {
+      panel.updatePendingField('fontFamily', family);
+    }
+  };
 
   // Render the expandable panel via portal
   const renderPanel = () => {
@@ -214,7 +234,7 @@ export const FontSettingsSelector = memo(function FontSettingsSelector({
           <div className={styles.leftPanel}>
             <div className={panelStyles.panelTitle}>Font</div>
             <div className={styles.fontList}>
-              {fontOptions.map((font) => {
+              {allFontOptions.map((font) => {
                 const isSelected = font.value === panel.pendingValue.fontFamily;
                 return (
                   <button
@@ -230,6 +250,16 @@ export const FontSettingsSelector = memo(function FontSettingsSelector({
                 );
               })}
             </div>
+            <button
+              type="button"
+              className={styles.uploadFontButton}
+              onClick={handleUploadFont}
+              disabled={customFonts.isUploading}
+              title="Upload a TTF, OTF or WOFF2 font"
+            >
+              {customFonts.isUploading ? 'Uploading…' : '+ Upload font'}
+            </button>
+            {customFonts.error && <span className={styles.uploadError}>{customFonts.error}</span>}
           </div>
 
           {/* Right Panel: Style Settings */}
@@ -0,0 +1,91 @@
+/**
+ * LanguageSettingsSelector Component
+ *
+ * A settings selector for the language tokens and script sheets are rendered
+ * in. Shows the active translation pack and its coverage of the script;
+ * "Manage" opens the LocalizationModal to import packs and switch language.
+ *
+ * @module components/Shared/LanguageSettingsSelector
+ */
+
+import { memo, useCallback, useState } from 'react';
+import { LocalizationModal } from '@/components/Modals/LocalizationModal';
+import { useTokenContext } from '@/contexts/TokenContext';
+import styles from '@/styles/components/shared/SimplePanelSelector.module.css';
+import { getLocalizationCoverage } from '@/ts/data/localization.js';
+import type { GenerationOptions } from '@/ts/types/index';
+import { InfoSection, PreviewBox, SettingsSelectorBase } from './SettingsSelectorBase';
+
+export interface LanguageSettingsSelectorProps {
+  generationOptions: GenerationOptions;
+  onOptionChange: (options: Partial<GenerationOptions>) => void;
+  size?: 'small' | 'medium' | 'large';
+  disabled?: boolean;
+  ariaLabel?: string;
+}
+
+// ============================================================================
+// Component
+// ============================================================================
+
+export const LanguageSettingsSelector = memo(function LanguageSettingsSelector({
+  generationOptions,
+  onOptionChange,
+  size = 'medium',
+  disabled = false,
+  ariaLabel,
+}: LanguageSettingsSelectorProps) {
+  const { characters, localizationPacks, setLocalizationPacks, activeLocalizationPack } =
+    useTokenContext();
+  const [isModalOpen, setIsModalOpen] = useState(false);
+
+  const handleLocaleChange = useCallback(
+    (locale: string | undefined) => onOptionChange({ locale }),
+    [onOptionChange]
+  );
+
+  let summary = 'Source text';
+  if (activeLocalizationPack) {
+    const { translated, total } = getLocalizationCoverage(characters, activeLocalizationPack);
+    summary =
+      total > 0
+        ? `${activeLocalizationPack.name}, ${translated}/${total}`
+        : activeLocalizationPack.name;
+  } else if (localizationPacks.length > 0) {
+    summary = `Source text, ${localizationPacks.length} pack${localizationPacks.length === 1 ? '' : 's'}`;
+  }
+
+  return (
+    <SettingsSelectorBase
+      preview={
+        <PreviewBox shape="square" size={size}>
+          <div
+            className={`${styles.previewContainer} ${!activeLocalizationPack ? styles.previewDisabled : ''}`}
+          >
+            <span className={styles.previewIcon}>
+              {activeLocalizationPack ? activeLocalizationPack.locale.toUpperCase() : '🌐'}
+            </span>
+          </div>
+        </PreviewBox>
+      }
+      info={<InfoSection label="Language" summary={summary} />}
+      actionLabel="Manage"
+      onAction={() => setIsModalOpen(true)}
+      disabled={disabled}
+      size={size}
+      ariaLabel={ariaLabel ?? 'Language and translation pack settings'}
+    >
+      <LocalizationModal
+        isOpen={isModalOpen}
+        onClose={() => setIsModalOpen(false)}
+        characters={characters}
+        packs={localizationPacks}
+        locale={generationOptions.locale}
+        onPacksChange={setLocalizationPacks}
+        onLocaleChange={handleLocaleChange}
+      />
+    </SettingsSelectorBase>
+  );
+});
+
+export default LanguageSettingsSelector;
@@ -0,0 +1,544 @@
+/**
+ * LayoutTemplateSelector Component
+ *
+ * Settings selector for the character token layout. Shows a diagram of the
+ * current template as a preview; the panel offers the built-in templates and
+ * sliders for every element position. Editing a built-in template turns it
+ * into a custom one, which is saved with the options and presets.
+ *
+ * @module components/Shared/LayoutTemplateSelector
+ */
+
+import { memo, useCallback, useMemo } from 'react';
+import { createPortal } from 'react-dom';
+import { EditableSlider } from '@/components/Shared/Controls/EditableSlider';
+import { useExpandablePanel } from '@/hooks';
+import styles from '@/styles/components/shared/LayoutTemplateSelector.module.css';
+import baseStyles from '@/styles/components/shared/SettingsSelectorBase.module.css';
+import {
+  BUILT_IN_LAYOUT_TEMPLATES,
+  CLASSIC_LAYOUT_TEMPLATE,
+  CUSTOM_LAYOUT_TEMPLATE_ID,
+  resolveLayoutTemplate,
+} from '@/ts/generation/layoutTemplates.js';
+import type {
+  GenerationOptions,
+  NamePlacement,
+  TemplateAccentArc,
+  TokenLayoutTemplate,
+} from '@/ts/types/index';
+import { InfoSection, PreviewBox, SettingsSelectorBase } from './SettingsSelectorBase';
+
+export interface LayoutTemplateSelectorProps {
+  generationOptions: GenerationOptions;
+  onOptionChange: (options: Partial<GenerationOptions>) => void;
+  size?: 'small' | 'medium' | 'large';
+  disabled?: boolean;
+  ariaLabel?: string;
+}
+
+const NAME_PLACEMENTS: { value: NamePlacement; label: string }[] = [
+  { value: 'bottom-arc', label: 'Bottom Arc' },
+  { value: 'top-arc', label: 'Top Arc' },
+  { value: 'banner', label: 'Banner' },
+];
+
+/** Diagram token radius in the 100×100 view box */
+const DIAGRAM_RADIUS = 48;
+
+/** Ability text lines drawn in the diagram */
+const DIAGRAM_TEXT_LINES = 3;
+
+/** Spacing of diagram text lines, as a fraction of the diameter */
+const DIAGRAM_LINE_HEIGHT = 0.06;
+
+/** Percent slider value to ratio */
+const toRatio = (percent: number) => percent / 100;
+
+/** Ratio to percent slider value */
+const toPercent = (ratio: number) => Math.round(ratio * 100);
+
+// ============================================================================
+// Diagram Component
+// ============================================================================
+
+/**
+ * Point on a circle around the diagram center
+ * @param radius - Distance from the center
+ * @param degrees - Angle clockwise from the top
+ */
+function polarPoint(radius: number, degrees: number): { x: number; y: number } {
+  const angle = (degrees * Math.PI) / 180;
+  return { x: 50 + radius * Math.sin(angle), y: 50 - radius * Math.cos(angle) };
+}
+
+/**
+ * SVG path for an arc drawn clockwise from start to end
+ */
+function arcPath(radius: number, startDegrees: number, endDegrees: number): string {
+  const start = polarPoint(radius, startDegrees);
+  const end = polarPoint(radius, endDegrees);
+  const largeArc = endDegrees - startDegrees > 180 ? 1 : 0;
+  return `M ${start.x} ${start.y} A ${radius} ${radius} 0 ${largeArc} 1 ${end.x} ${end.y}`;
+}
+
+/**
+ * Half the width of the token at a height (0-1 from the top), in diagram units
+ */
+function halfChord(ratioY: number): number {
+  const dy = Math.abs(ratioY - 0.5) * 2 * DIAGRAM_RADIUS;
+  return Math.sqrt(Math.max(0, DIAGRAM_RADIUS * DIAGRAM_RADIUS - dy * dy));
+}
+
+const LayoutDiagram = memo(function LayoutDiagram({
+  template,
+  arcSpan,
+  className,
+}: {
+  template: TokenLayoutTemplate;
+  arcSpan: number;
+  className: string;
+}) {
+  const { characterName, icon, abilityText, reminderBadge, accentArcs } = template;
+
+  const textLines = Array.from({ length: DIAGRAM_TEXT_LINES }, (_, i) => {
+    const y = abilityText.top + (i + 0.5) * DIAGRAM_LINE_HEIGHT;
+    const half = halfChord(y) * abilityText.padding * (i === DIAGRAM_TEXT_LINES - 1 ? 0.6 : 1);
+    return { y: y * 100, x1: 50 - half, x2: 50 + half };
+  });
+
+  // The icon band starts below the ability text
+  const boxTop = Math.max(abilityText.top + DIAGRAM_TEXT_LINES * DIAGRAM_LINE_HEIGHT, icon.top);
+  const boxBottom = Math.max(boxTop, icon.bottom);
+  const iconRadius = Math.min(((boxBottom - boxTop) * icon.scaleWithText * 100) / 2, 30);
+
+  const nameRadius = characterName.radius * DIAGRAM_RADIUS;
+  const bannerHalf = halfChord(characterName.bannerY) * 0.9;
+
+  return (
+    <svg className={className} viewBox="0 0 100 100" aria-hidden="true">
+      <circle className={styles.diagramOutline} cx={50} cy={50} r={DIAGRAM_RADIUS} />
+
+      {accentArcs.map((arc, i) => {
+        const span = arc.span ?? arcSpan;
+        return (
+          <path
+            key={`arc-${arc.center}-${i}`}
+            className={styles.diagramAccent}
+            d={arcPath(DIAGRAM_RADIUS * 0.88, arc.center - span / 2, arc.center + span / 2)}
+          />
+        );
+      })}
+
+      {textLines.map((line) => (
+        <line
+          key={`line-${line.y}`}
+          className={styles.diagramText}
+          x1={line.x1}
+          x2={line.x2}
+          y1={line.y}
+          y2={line.y}
+        />
+      ))}
+
+      <rect
+        className={styles.diagramIconBox}
+        x={20}
+        y={boxTop * 100}
+        width={60}
+        height={(boxBottom - boxTop) * 100}
+      />
+      <circle
+        className={styles.diagramIcon}
+        cx={50}
+        cy={((boxTop + boxBottom) / 2) * 100}
+        r={Math.max(iconRadius, 0)}
+      />
+
+      {characterName.placement === 'banner' ? (
+        <rect
+          className={styles.diagramBanner}
+          x={50 - bannerHalf}
+          y={characterName.bannerY * 100 - 4}
+          width={bannerHalf * 2}
+          height={8}
+          rx={2}
+        />
+      ) : (
+        <path
+          className={styles.diagramName}
+          d={
+            characterName.placement === 'top-arc'
+              ? arcPath(nameRadius, -50, 50)
+              : arcPath(nameRadius, 130, 230)
+          }
+        />
+      )}
+
+      <circle
+        className={styles.diagramBadge}
+        cx={reminderBadge.x * 100}
+        cy={reminderBadge.y * 100}
+        r={4}
+      />
+    </svg>
+  );
+});
+
+// ============================================================================
+// Component
+// ============================================================================
+
+export const LayoutTemplateSelector = memo(function LayoutTemplateSelector({
+  generationOptions,
+  onOptionChange,
+  size = 'medium',
+  disabled = false,
+  ariaLabel,
+}: LayoutTemplateSelectorProps) {
+  const currentTemplate = useMemo(
+    () => resolveLayoutTemplate(generationOptions.layoutTemplate),
+    [generationOptions.layoutTemplate]
+  );
+  const arcSpan = generationOptions.accentArcSpan ?? 120;
+
+  const handlePanelChange = useCallback(
+    (template: TokenLayoutTemplate) => {
+      onOptionChange({ layoutTemplate: template });
+    },
+    [onOptionChange]
+  );
+
+  const panel = useExpandablePanel<TokenLayoutTemplate>({
+    value: currentTemplate,
+    onChange: handlePanelChange,
+    onPreviewChange: handlePanelChange,
+    disabled,
+    panelHeight: 400,
+    minPanelWidth: 480,
+  });
+
+  const displayTemplate = panel.isExpanded ? panel.pendingValue : currentTemplate;
+  const pending = panel.pendingValue;
+
+  /**
+   * Update one section of the pending template, marking it as custom
+   */
+  const updateSection = <K extends 'characterName' | 'icon' | 'abilityText' | 'reminderBadge'>(
+    key: K,
+    patch: Partial<TokenLayoutTemplate[K]>
+  ) => {
+    panel.updatePending({
+      ...pending,
+      id: CUSTOM_LAYOUT_TEMPLATE_ID,
+      name: 'Custom',
+      [key]: { ...pending[key], ...patch },
+    });
+  };
+
+  const updateArcs = (accentArcs: TemplateAccentArc[]) => {
+    panel.updatePending({ ...pending, id: CUSTOM_LAYOUT_TEMPLATE_ID, name: 'Custom', accentArcs });
+  };
+
+  const updateArc = (index: number, patch: Partial<TemplateAccentArc>) => {
+    updateArcs(pending.accentArcs.map((arc, i) => (i === index ? { ...arc, ...patch } : arc)));
+  };
+
+  const renderPanel = () => {
+    if (!(panel.isExpanded && panel.panelPosition)) return null;
+
+    const panelStyle: React.CSSProperties = {
+      position: 'fixed',
+      top: panel.panelPosition.openUpward ? 'auto' : panel.panelPosition.top,
+      bottom: panel.panelPosition.openUpward
+        ? window.innerHeight - panel.panelPosition.top
+        : 'auto',
+      left: panel.panelPosition.left,
+      width: panel.panelPosition.width,
+      zIndex: 10000,
+    };
+
+    const isBanner = pending.characterName.placement === 'banner';
+
+    return createPortal(
+      <div
+        ref={panel.panelRef}
+        className={`${baseStyles.panel} ${panel.panelPosition.openUpward ? baseStyles.panelUpward : ''}`}
+        style={panelStyle}
+      >
+        <div className={styles.twoPanelLayout}>
+          {/* LEFT PANEL - Templates and diagram */}
+          <div className={styles.leftPanel}>
+            <div className={styles.panelTitle}>Template</div>
+            <div className={styles.toggleGroup}>
+              {BUILT_IN_LAYOUT_TEMPLATES.map((template) => (
+                <button
+                  key={template.id}
+                  type="button"
+                  className={`${styles.toggleBtn} ${
+                    pending.id === template.id ? styles.toggleBtnActive : ''
+                  }`}
+                  onClick={() => panel.updatePending(template)}
+                >
+                  {template.name}
+                </button>
+              ))}
+            </div>
+            {pending.id === CUSTOM_LAYOUT_TEMPLATE_ID && (
+              <span className={styles.customNote}>Custom layout (saved with presets)</span>
+            )}
+            <LayoutDiagram template={pending} arcSpan={arcSpan} className={styles.diagram} />
+          </div>
+
+          {/* RIGHT PANEL - Element positions */}
+          <div className={styles.rightPanel}>
+            <div className={styles.panelTitle}>Elements</div>
+
+            {/* Character Name */}
+            <div className={styles.sectionDivider}>
+              <span>Name</span>
+            </div>
+            <div className={styles.toggleGroup}>
+              {NAME_PLACEMENTS.map((option) => (
+                <button
+                  key={option.value}
+                  type="button"
+                  className={`${styles.toggleBtn} ${
+                    pending.characterName.placement === option.value ? styles.toggleBtnActive : ''
+                  }`}
+                  onClick={() => updateSection('characterName', { placement: option.value })}
+                >
+                  {option.label}
+                </button>
+              ))}
+            </div>
+            <div className={styles.settingGroup}>
+              {isBanner ? (
+                <EditableSlider
+                  label="Banner Height"
+                  value={toPercent(pending.characterName.bannerY)}
+                  onChange={(v) => updateSection('characterName', { bannerY: toRatio(v) })}
+                  min={10}
+                  max={90}
+                  step={1}
+                  suffix="%"
+                  defaultValue={toPercent(CLASSIC_LAYOUT_TEMPLATE.characterName.bannerY)}
+                />
+              ) : (
+                <EditableSlider
+                  label="Arc Radius"
+                  value={toPercent(pending.characterName.radius)}
+                  onChange={(v) => updateSection('characterName', { radius: toRatio(v) })}
+                  min={30}
+                  max={100}
+                  step={1}
+                  suffix="%"
+                  defaultValue={toPercent(CLASSIC_LAYOUT_TEMPLATE.characterName.radius)}
+                />
+              )}
+            </div>
+
+            {/* Ability Text */}
+            <div className={styles.sectionDivider}>
+              <span>Ability Text</span>
+            </div>
+            <div className={styles.settingGroup}>
+              <EditableSlider
+                label="Top"
+                value={toPercent(pending.abilityText.top)}
+                onChange={(v) => updateSection('abilityText', { top: toRatio(v) })}
+                min={0}
+                max={90}
+                step={1}
+                suffix="%"
+                defaultValue={toPercent(CLASSIC_LAYOUT_TEMPLATE.abilityText.top)}
+              />
+              <EditableSlider
+                label="Width"
+                value={toPercent(pending.abilityText.padding)}
+                onChange={(v) => updateSection('abilityText', { padding: toRatio(v) })}
+                min={30}
+                max={100}
+                step={1}
+                suffix="%"
+                defaultValue={toPercent(CLASSIC_LAYOUT_TEMPLATE.abilityText.padding)}
+              />
+            </div>
+
+            {/* Icon Box */}
+            <div className={styles.sectionDivider}>
+              <span>Icon Box</span>
+            </div>
+            <div className={styles.settingGroup}>
+              <EditableSlider
+                label="Top"
+                value={toPercent(pending.icon.top)}
+                onChange={(v) => updateSection('icon', { top: toRatio(v) })}
+                min={0}
+                max={toPercent(pending.icon.bottom)}
+                step={1}
+                suffix="%"
+                defaultValue={toPercent(CLASSIC_LAYOUT_TEMPLATE.icon.top)}
+              />
+              <EditableSlider
+                label="Bottom"
+                value={toPercent(pending.icon.bottom)}
+                onChange={(v) => updateSection('icon', { bottom: toRatio(v) })}
+                min={toPercent(pending.icon.top)}
+                max={100}
+                step={1}
+                suffix="%"
+                defaultValue={toPercent(CLASSIC_LAYOUT_TEMPLATE.icon.bottom)}
+              />
+              <EditableSlider
+                label="Size (text)"
+                value={pending.icon.scaleWithText}
+                onChange={(v) => updateSection('icon', { scaleWithText: v })}
+                min={0.5}
+                max={3}
+                step={0.1}
+                suffix="×"
+                defaultValue={CLASSIC_LAYOUT_TEMPLATE.icon.scaleWithText}
+              />
+              <EditableSlider
+                label="Size (no text)"
+                value={pending.icon.scale}
+                onChange={(v) => updateSection('icon', { scale: v })}
+                min={0.5}
+                max={3}
+                step={0.1}
+                suffix="×"
+                defaultValue={CLASSIC_LAYOUT_TEMPLATE.icon.scale}
+              />
+            </div>
+
+            {/* Reminder Badge */}
+            <div className={styles.sectionDivider}>
+              <span>Reminder Badge</span>
+            </div>
+            <div className={styles.settingGroup}>
+              <EditableSlider
+                label="X"
+                value={toPercent(pending.reminderBadge.x)}
+                onChange={(v) => updateSection('reminderBadge', { x: toRatio(v) })}
+                min={0}
+                max={100}
+                step={1}
+                suffix="%"
+                defaultValue={toPercent(CLASSIC_LAYOUT_TEMPLATE.reminderBadge.x)}
+              />
+              <EditableSlider
+                label="Y"
+                value={toPercent(pending.reminderBadge.y)}
+                onChange={(v) => updateSection('reminderBadge', { y: toRatio(v) })}
+                min={0}
+                max={100}
+                step={1}
+                suffix="%"
+                defaultValue={toPercent(CLASSIC_LAYOUT_TEMPLATE.reminderBadge.y)}
+              />
+            </div>
+
+            {/* Accent Arcs */}
+            <div className={styles.sectionDivider}>
+              <span>Accent Arcs</span>
+            </div>
+            {pending.accentArcs.length === 0 && (
+              <span className={styles.emptyNote}>No arc accents</span>
+            )}
+            {pending.accentArcs.map((arc, i) => (
+              // biome-ignore lint/suspicious/noArrayIndexKey: arcs are edited in place, so position is their identity
+              <div key={`arc-${i}`} className={styles.arcItem}>
+                <div className={styles.arcHeader}>
+                  <span>Arc {i + 1}</span>
+                  <button
+                    type="button"
+                    className={styles.linkButton}
+                    onClick={() => updateArcs(pending.accentArcs.filter((_, j) => j !== i))}
+                  >
+                    Remove
+                  </button>
+                </div>
+                <EditableSlider
+                  label="Center"
+                  value={arc.center}
+                  onChange={(v) => updateArc(i, { center: v })}
+                  min={-180}
+                  max={180}
+                  step={5}
+                  suffix="°"
+                  defaultValue={0}
+                />
+                <EditableSlider
+                  label="Span"
+                  value={arc.span ?? arcSpan}
+                  onChange={(v) => updateArc(i, { span: v })}
+                  min={30}
+                  max={180}
+                  step={10}
+                  suffix="°"
+                  defaultValue={arcSpan}
+                />
+              </div>
+            ))}
+            <button
+              type="button"
+              className={styles.linkButton}
+              onClick={() => updateArcs([...pending.accentArcs, { center: 180 }])}
+            >
+              + Add arc
+            </button>
+          </div>
+        </div>
+
+        <div className={baseStyles.panelFooter}>
+          <button
+            type="button"
+            className={baseStyles.resetLink}
+            onClick={() => panel.reset(CLASSIC_LAYOUT_TEMPLATE)}
+          >
+            Reset
+          </button>
+          <div className={baseStyles.panelActions}>
+            <button type="button" className={baseStyles.cancelButton} onClick={panel.cancel}>
+              Cancel
+            </button>
+            <button type="button" className={baseStyles.confirmButton} onClick={panel.apply}>
+              Apply
+            </button>
+          </div>
+        </div>
+      </div>,
+      document.body
+    );
+  };
+
+  return (
+    <SettingsSelectorBase
+      ref={panel.containerRef}
+      preview={
+        <PreviewBox shape="square" size={size}>
+          <div className={styles.previewContainer}>
+            <LayoutDiagram
+              template={displayTemplate}
+              arcSpan={arcSpan}
+              className={styles.previewDiagram}
+            />
+          </div>
+        </PreviewBox>
+      }
+      info={<InfoSection label="Layout" summary={displayTemplate.name} />}
+      actionLabel="Customize"
+      onAction={panel.toggle}
+      isExpanded={panel.isExpanded}
+      disabled={disabled}
+      size={size}
+      ariaLabel={ariaLabel ?? 'Token layout settings'}
+      onKeyDown={panel.handleKeyDown}
+    >
+      {renderPanel()}
+    </SettingsSelectorBase>
+  );
+});
+
+export default LayoutTemplateSelector;
@@ -0,0 +1,180 @@
+/**
+ * RandomSeedSelector Component
+ *
+ * A simple settings selector for the project's master random seed. Accent
+ * placement, texture seeds and background crop and rotation are drawn from
+ * it, so the same seed always regenerates the same tokens. Picking a new
+ * seed rerolls every token whose look is not locked.
+ *
+ * Uses SimplePanelSelector pattern for consistent styling with other option panels.
+ *
+ * @module components/Shared/RandomSeedSelector
+ */
+
+import { memo, useCallback } from 'react';
+import { createPortal } from 'react-dom';
+import { useExpandablePanel } from '@/hooks';
+import baseStyles from '@/styles/components/shared/SettingsSelectorBase.module.css';
+import styles from '@/styles/components/shared/SimplePanelSelector.module.css';
+import { DEFAULT_RANDOM_SEED } from '@/ts/generation/tokenSeeds';
+import type { GenerationOptions } from '@/ts/types/index';
+import { createRandomSeed } from '@/ts/utils/seededRandom';
+import { InfoSection, PreviewBox, SettingsSelectorBase } from './SettingsSelectorBase';
+
+export interface RandomSeedSelectorProps {
+  generationOptions: GenerationOptions;
+  onOptionChange: (options: Partial<GenerationOptions>) => void;
+  size?: 'small' | 'medium' | 'large';
+  disabled?: boolean;
+  ariaLabel?: string;
+}
+
+/** Largest seed offered in the panel (short enough to note down) */
+const SEED_INPUT_MAX = 99999;
+
+interface PendingSeedSettings {
+  seed: number;
+}
+
+// ============================================================================
+// Component
+// ============================================================================
+
+export const RandomSeedSelector = memo(function RandomSeedSelector({
+  generationOptions,
+  onOptionChange,
+  size = 'medium',
+  disabled = false,
+  ariaLabel,
+}: RandomSeedSelectorProps) {
+  const currentSettings: PendingSeedSettings = {
+    seed: generationOptions.randomSeed ?? DEFAULT_RANDOM_SEED,
+  };
+
+  const handlePanelChange = useCallback(
+    (settings: PendingSeedSettings) => {
+      onOptionChange({ randomSeed: settings.seed });
+    },
+    [onOptionChange]
+  );
+
+  const panel = useExpandablePanel<PendingSeedSettings>({
+    value: currentSettings,
+    onChange: handlePanelChange,
+    onPreviewChange: handlePanelChange,
+    disabled,
+    panelHeight: 180,
+    minPanelWidth: 260,
+  });
+
+  const displaySettings = panel.isExpanded ? panel.pendingValue : currentSettings;
+
+  const defaultSettings: PendingSeedSettings = {
+    seed: DEFAULT_RANDOM_SEED,
+  };
+
+  const handleSeedInput = (value: string) => {
+    const parsed = Number.parseInt(value, 10);
+    if (Number.isNaN(parsed)) return;
+    panel.updatePendingField('seed', Math.min(Math.max(parsed, 0), SEED_INPUT_MAX));
+  };
+
+  const renderPanel = () => {
+    if (!(panel.isExpanded && panel.panelPosition)) return null;
+
+    const panelStyle: React.CSSProperties = {
+      position: 'fixed',
+      top: panel.panelPosition.openUpward ? 'auto' : panel.panelPosition.top,
+      bottom: panel.panelPosition.openUpward
+        ? window.innerHeight - panel.panelPosition.top
+        : 'auto',
+      left: panel.panelPosition.left,
+      width: panel.panelPosition.width,
+      zIndex: 10000,
+    };
+
+    return createPortal(
+      <div
+        ref={panel.panelRef}
+        className={`${baseStyles.panel} ${panel.panelPosition.openUpward ? baseStyles.panelUpward : ''}`}
+        style={panelStyle}
+      >
+        <div className={styles.panelContent}>
+          <div className={styles.panelTitle}>Random Seed</div>
+
+          <div className={styles.settingRow}>
+            <span className={styles.settingLabel}>Seed</span>
+            <div className={styles.seedControls}>
+              <input
+                type="number"
+                className={styles.seedInput}
+                min={0}
+                max={SEED_INPUT_MAX}
+                step={1}
+                value={panel.pendingValue.seed}
+                onChange={(e) => handleSeedInput(e.target.value)}
+                aria-label="Random seed"
+              />
+              <button
+                type="button"
+                className={styles.toggleBtn}
+                onClick={() => panel.updatePendingField('seed', createRandomSeed(SEED_INPUT_MAX))}
+              >
+                New seed
+              </button>
+            </div>
+          </div>
+
+          <span className={styles.seedNote}>
+            The same seed always gives the same accents, textures and rotations. Tokens with a
+            locked look keep it when the seed changes.
+          </span>
+        </div>
+
+        <div className={baseStyles.panelFooter}>
+          <button
+            type="button"
+            className={baseStyles.resetLink}
+            onClick={() => panel.reset(defaultSettings)}
+          >
+            Reset
+          </button>
+          <div className={baseStyles.panelActions}>
+            <button type="button" className={baseStyles.cancelButton} onClick={panel.cancel}>
+              Cancel
+            </button>
+            <button type="button" className={baseStyles.confirmButton} onClick={panel.apply}>
+              Apply
+            </button>
+          </div>
+        </div>
+      </div>,
+      document.body
+    );
+  };
+
+  return (
+    <SettingsSelectorBase
+      ref={panel.containerRef}
+      preview={
+        <PreviewBox shape="square" size={size}>
+          <div className={styles.previewContainer}>
+            <span className={styles.previewIcon}>🎲</span>
+          </div>
+        </PreviewBox>
+      }
+      info={<InfoSection label="Random Seed" summary={`Seed ${displaySettings.seed}`} />}
+      actionLabel="Customize"
+      onAction={panel.toggle}
+      isExpanded={panel.isExpanded}
+      disabled={disabled}
+      size={size}
+      ariaLabel={ariaLabel ?? 'Random seed settings'}
+      onKeyDown={panel.handleKeyDown}
+    >
+      {renderPanel()}
+    </SettingsSelectorBase>
+  );
+});
+
+export default RandomSeedSelector;
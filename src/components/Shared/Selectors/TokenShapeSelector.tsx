@@ -0,0 +1,215 @@
+/**
+ * TokenShapeSelector Component
+ *
+ * A simple settings selector for the token outline. Shows the current shape
+ * as a preview and lets the user pick a built-in shape or paste a custom SVG
+ * path (100×100 box) for die-cut blanks.
+ *
+ * Uses SimplePanelSelector pattern for consistent styling with other option panels.
+ *
+ * @module components/Shared/TokenShapeSelector
+ */
+
+import { memo, useCallback } from 'react';
+import { createPortal } from 'react-dom';
+import { useExpandablePanel } from '@/hooks';
+import baseStyles from '@/styles/components/shared/SettingsSelectorBase.module.css';
+import styles from '@/styles/components/shared/SimplePanelSelector.module.css';
+import { getTokenShapeGeometry, isValidShapePath } from '@/ts/canvas/tokenShapes';
+import type { GenerationOptions, TokenShape } from '@/ts/types/index';
+import { InfoSection, PreviewBox, SettingsSelectorBase } from './SettingsSelectorBase';
+
+export interface TokenShapeSelectorProps {
+  generationOptions: GenerationOptions;
+  onOptionChange: (options: Partial<GenerationOptions>) => void;
+  size?: 'small' | 'medium' | 'large';
+  disabled?: boolean;
+  ariaLabel?: string;
+}
+
+const SHAPES: { value: TokenShape; label: string }[] = [
+  { value: 'circle', label: 'Circle' },
+  { value: 'rounded-square', label: 'Square' },
+  { value: 'hexagon', label: 'Hexagon' },
+  { value: 'shield', label: 'Shield' },
+  { value: 'custom', label: 'Custom' },
+];
+
+interface PendingShapeSettings {
+  shape: TokenShape;
+  path: string;
+}
+
+// ============================================================================
+// Preview Component
+// ============================================================================
+
+const ShapePreview = memo(function ShapePreview({ shape, path }: PendingShapeSettings) {
+  const geometry = getTokenShapeGeometry(shape, isValidShapePath(path) ? path : undefined);
+
+  return (
+    <div className={styles.previewContainer}>
+      <svg className={styles.shapePreview} viewBox="0 0 100 100" aria-hidden="true">
+        <path d={geometry.outline} />
+      </svg>
+    </div>
+  );
+});
+
+// ============================================================================
+// Component
+// ============================================================================
+
+export const TokenShapeSelector = memo(function TokenShapeSelector({
+  generationOptions,
+  onOptionChange,
+  size = 'medium',
+  disabled = false,
+  ariaLabel,
+}: TokenShapeSelectorProps) {
+  const currentSettings: PendingShapeSettings = {
+    shape: generationOptions.tokenShape ?? 'circle',
+    path: generationOptions.tokenShapePath ?? '',
+  };
+
+  const handlePanelChange = useCallback(
+    (settings: PendingShapeSettings) => {
+      // Keep the last good outline while a custom path is being typed
+      if (settings.shape === 'custom' && !isValidShapePath(settings.path)) return;
+      onOptionChange({
+        tokenShape: settings.shape,
+        tokenShapePath: settings.path.trim() || undefined,
+      });
+    },
+    [onOptionChange]
+  );
+
+  const panel = useExpandablePanel<PendingShapeSettings>({
+    value: currentSettings,
+    onChange: handlePanelChange,
+    onPreviewChange: handlePanelChange,
+    disabled,
+    panelHeight: 240,
+    minPanelWidth: 300,
+  });
+
+  const displaySettings = panel.isExpanded ? panel.pendingValue : currentSettings;
+  const isCustom = panel.pendingValue.shape === 'custom';
+  const pathInvalid = isCustom && !isValidShapePath(panel.pendingValue.path);
+  const currentLabel = SHAPES.find((s) => s.value === displaySettings.shape)?.label ?? 'Circle';
+
+  const defaultSettings: PendingShapeSettings = {
+    shape: 'circle',
+    path: '',
+  };
+
+  const renderPanel = () => {
+    if (!(panel.isExpanded && panel.panelPosition)) return null;
+
+    const panelStyle: React.CSSProperties = {
+      position: 'fixed',
+      top: panel.panelPosition.openUpward ? 'auto' : panel.panelPosition.top,
+      bottom: panel.panelPosition.openUpward
+        ? window.innerHeight - panel.panelPosition.top
+        : 'auto',
+      left: panel.panelPosition.left,
+      width: panel.panelPosition.width,
+      zIndex: 10000,
+    };
+
+    return createPortal(
+      <div
+        ref={panel.panelRef}
+        className={`${baseStyles.panel} ${panel.panelPosition.openUpward ? baseStyles.panelUpward : ''}`}
+        style={panelStyle}
+      >
+        <div className={styles.panelContent}>
+          <div className={styles.panelTitle}>Token Shape</div>
+
+          {/* Shape Toggle */}
+          <div className={styles.toggleGroup}>
+            {SHAPES.map((shapeOption) => (
+              <button
+                key={shapeOption.value}
+                type="button"
+                className={`${styles.toggleBtn} ${
+                  panel.pendingValue.shape === shapeOption.value ? styles.toggleBtnActive : ''
+                }`}
+                onClick={() => panel.updatePendingField('shape', shapeOption.value)}
+              >
+                {shapeOption.label}
+              </button>
+            ))}
+          </div>
+
+          {/* Custom Path */}
+          {isCustom && (
+            <>
+              <span className={styles.settingLabel}>SVG path (100×100, centered)</span>
+              <textarea
+                className={`${styles.pathInput} ${pathInvalid ? styles.pathInputInvalid : ''}`}
+                value={panel.pendingValue.path}
+                onChange={(e) => panel.updatePendingField('path', e.target.value)}
+                placeholder="M 50 0 L 100 50 L 50 100 L 0 50 Z"
+                rows={3}
+                spellCheck={false}
+              />
+              {pathInvalid && (
+                <span className={styles.pathError}>
+                  Path must be valid and contain the center (50, 50)
+                </span>
+              )}
+            </>
+          )}
+        </div>
+
+        <div className={baseStyles.panelFooter}>
+          <button
+            type="button"
+            className={baseStyles.resetLink}
+            onClick={() => panel.reset(defaultSettings)}
+          >
+            Reset
+          </button>
+          <div className={baseStyles.panelActions}>
+            <button type="button" className={baseStyles.cancelButton} onClick={panel.cancel}>
+              Cancel
+            </button>
+            <button
+              type="button"
+              className={baseStyles.confirmButton}
+              onClick={panel.apply}
+              disabled={pathInvalid}
+            >
+              Apply
+            </button>
+          </div>
+        </div>
+      </div>,
+      document.body
+    );
+  };
+
+  return (
+    <SettingsSelectorBase
+      ref={panel.containerRef}
+      preview={
+        <PreviewBox shape="square" size={size}>
+          <ShapePreview shape={displaySettings.shape} path={displaySettings.path} />
+        </PreviewBox>
+      }
+      info={<InfoSection label="Shape" summary={currentLabel} />}
+      actionLabel="Customize"
+      onAction={panel.toggle}
+      isExpanded={panel.isExpanded}
+      disabled={disabled}
+      size={size}
+      ariaLabel={ariaLabel ?? 'Token shape settings'}
+      onKeyDown={panel.handleKeyDown}
+    >
+      {renderPanel()}
+    </SettingsSelectorBase>
+  );
+});
+
+export default TokenShapeSelector;
@@ -22,8 +22,20 @@ export { FontSettingsSelector } from './FontSettingsSelector';
 export { GenerateVariantsSelector } from './GenerateVariantsSelector';
 // Icon selector
 export { type IconSettings, IconSettingsSelector } from './IconSettingsSelector';
+// Language selector (translation packs)
+export {
+  LanguageSettingsSelector,
+  type LanguageSettingsSelectorProps,
+} from './LanguageSettingsSelector';
+// Token layout templates
+export {
+  LayoutTemplateSelector,
+  type LayoutTemplateSelectorProps,
+} from './LayoutTemplateSelector';
 export { MetaTokensSelector } from './MetaTokensSelector';
 export { QRCodeSettingsSelector, type QRCodeSettingsSelectorProps } from './QRCodeSettingsSelector';
+// Master random seed (reproducible token looks)
+export { RandomSeedSelector, type RandomSeedSelectorProps } from './RandomSeedSelector';
 export { ReminderCountSelector } from './ReminderCountSelector';
 // Base components
 export {
@@ -40,5 +52,6 @@ export {
   type ToggleOption,
 } from './SettingsSelectorBase';
 export { SetupSettingsSelector } from './SetupSettingsSelector';
+export { TokenShapeSelector, type TokenShapeSelectorProps } from './TokenShapeSelector';
 // Unified settings box
 export { UnifiedSettingsBox } from './UnifiedSettingsBox';
@@ -84,6 +84,10 @@ export {
   IconSettingsSelector,
   type IconSettingsSelectorProps,
 } from './Selectors/IconSettingsSelector';
+export {
+  LanguageSettingsSelector,
+  type LanguageSettingsSelectorProps,
+} from './Selectors/LanguageSettingsSelector';
 export { MetaTokensSelector } from './Selectors/MetaTokensSelector';
 export { ReminderCountSelector } from './Selectors/ReminderCountSelector';
 // Settings Selector Base (unified pattern)
@@ -101,6 +105,10 @@ export {
   type ToggleOption,
 } from './Selectors/SettingsSelectorBase';
 export { SetupSettingsSelector } from './Selectors/SetupSettingsSelector';
+export {
+  TokenShapeSelector,
+  type TokenShapeSelectorProps,
+} from './Selectors/TokenShapeSelector';
 export {
   type BoxMode,
   type PreviewConfig,
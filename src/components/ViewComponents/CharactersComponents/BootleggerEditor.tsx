@@ -0,0 +1,258 @@
+/**
+ * BootleggerEditor Component
+ *
+ * Edits the script's Bootlegger rules (`_meta.bootlegger`). Rules can be typed
+ * freely or added from templates whose character placeholders are filled from
+ * the script. Each rule shows whether it fits on its token and flags
+ * characters it names that are not on the script.
+ *
+ * @module components/CharactersComponents/BootleggerEditor
+ */
+
+import { type RefCallback, useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { useTokenContext } from '@/contexts/TokenContext';
+import styles from '@/styles/components/characterEditor/MetaEditor.module.css';
+import {
+  BOOTLEGGER_TEMPLATES,
+  type BootleggerTemplateCategory,
+  fillBootleggerTemplate,
+  getTemplatePlaceholders,
+  validateBootleggerRule,
+} from '@/ts/data/bootleggerRules.js';
+import type { BootleggerTextFit } from '@/ts/generation/bootleggerFit.js';
+import { TokenGenerator } from '@/ts/generation/TokenGenerator.js';
+
+interface BootleggerEditorProps {
+  /** Current rules */
+  entries: string[];
+  /**
+   * Called with the updated rules. `immediate` is false while the user is
+   * typing so the caller can debounce saving.
+   */
+  onChange: (entries: string[], immediate: boolean) => void;
+}
+
+const TEMPLATE_CATEGORIES: BootleggerTemplateCategory[] = ['Setup', 'Information', 'Interaction'];
+
+const FIT_LABELS: Record<BootleggerTextFit['status'], string> = {
+  fits: '✓ Fits',
+  tight: '⚠️ Tight: the icon will be small',
+  overflow: '✕ Too long: runs into the name',
+};
+
+export function BootleggerEditor({ entries, onChange }: BootleggerEditorProps) {
+  const { characters, officialData, generationOptions } = useTokenContext();
+
+  const [draggedIndex, setDraggedIndex] = useState<number | null>(null);
+  const [dragOverIndex, setDragOverIndex] = useState<number | null>(null);
+  const [templateId, setTemplateId] = useState(BOOTLEGGER_TEMPLATES[0].id);
+  const [placeholderValues, setPlaceholderValues] = useState<Record<string, string>>({});
+
+  // Auto-expand textarea refs
+  const textareaRefs = useRef<Set<HTMLTextAreaElement>>(new Set());
+
+  const resizeTextarea = useCallback((textarea: HTMLTextAreaElement | null) => {
+    if (!textarea) return;
+    textarea.style.height = 'auto';
+    textarea.style.height = `${textarea.scrollHeight}px`;
+  }, []);
+
+  const registerTextareaRef: RefCallback<HTMLTextAreaElement> = useCallback(
+    (element) => {
+      if (element) {
+        textareaRefs.current.add(element);
+        requestAnimationFrame(() => resizeTextarea(element));
+      }
+    },
+    [resizeTextarea]
+  );
+
+  // Resize all textareas when entries change
+  useEffect(() => {
+    requestAnimationFrame(() => {
+      textareaRefs.current.forEach((textarea) => {
+        resizeTextarea(textarea);
+      });
+    });
+  }, [resizeTextarea]);
+
+  // Measure each rule with the current font settings
+  const generator = useMemo(() => new TokenGenerator(generationOptions), [generationOptions]);
+  const fits = useMemo(
+    () => entries.map((entry) => (entry.trim() ? generator.measureBootleggerFit(entry) : null)),
+    [entries, generator]
+  );
+
+  const issues = useMemo(
+    () => entries.map((entry) => validateBootleggerRule(entry, characters, officialData)),
+    [entries, characters, officialData]
+  );
+
+  const sortedCharacters = useMemo(
+    () => [...characters].sort((a, b) => a.name.localeCompare(b.name)),
+    [characters]
+  );
+
+  const template = BOOTLEGGER_TEMPLATES.find((t) => t.id === templateId) ?? BOOTLEGGER_TEMPLATES[0];
+  const placeholders = getTemplatePlaceholders(template.text);
+  const templatePreview = fillBootleggerTemplate(template.text, placeholderValues);
+  const isTemplateComplete = placeholders.every((key) => placeholderValues[key]);
+
+  const handleAddTemplate = () => {
+    onChange([...entries, templatePreview], true);
+    setPlaceholderValues({});
+  };
+
+  return (
+    <div className={styles.formGroup}>
+      <span className={styles.label}>Bootlegger</span>
+      <ul className={styles.bootleggerList} aria-label="Bootlegger entries">
+        {entries.map((entry, index) => {
+          // Generate stable key: count occurrences of same entry before this index
+          const occurrenceIndex = entries.slice(0, index).filter((e) => e === entry).length;
+          const fit = fits[index];
+          const entryIssues = issues[index];
+          return (
+            <li
+              key={`bootlegger-${entry}-occurrence-${occurrenceIndex}`}
+              className={`${styles.bootleggerRow} ${draggedIndex === index ? styles.dragging : ''} ${dragOverIndex === index ? styles.dragOver : ''}`}
+              draggable={entries.length > 1}
+              onDragStart={(e) => {
+                setDraggedIndex(index);
+                e.dataTransfer.effectAllowed = 'move';
+              }}
+              onDragEnd={() => {
+                setDraggedIndex(null);
+                setDragOverIndex(null);
+              }}
+              onDragOver={(e) => {
+                e.preventDefault();
+                if (draggedIndex !== null && draggedIndex !== index) {
+                  setDragOverIndex(index);
+                }
+              }}
+              onDragLeave={() => setDragOverIndex(null)}
+              onDrop={(e) => {
+                e.preventDefault();
+                if (draggedIndex !== null && draggedIndex !== index) {
+                  const newEntries = [...entries];
+                  const [removed] = newEntries.splice(draggedIndex, 1);
+                  newEntries.splice(index, 0, removed);
+                  onChange(newEntries, true);
+                }
+                setDraggedIndex(null);
+                setDragOverIndex(null);
+              }}
+            >
+              <span className={styles.dragHandle} title="Drag to reorder">
+                ⋮⋮
+              </span>
+              <div className={styles.bootleggerBody}>
+                <textarea
+                  ref={registerTextareaRef}
+                  value={entry}
+                  onChange={(e) => {
+                    const newEntries = [...entries];
+                    newEntries[index] = e.target.value;
+                    onChange(newEntries, false);
+                  }}
+                  onInput={(e) => resizeTextarea(e.currentTarget)}
+                  placeholder="Enter ability text..."
+                  rows={1}
+                  className={styles.bootleggerTextarea}
+                />
+                {(fit || entryIssues.length > 0) && (
+                  <ul className={styles.bootleggerStatus}>
+                    {fit && (
+                      <li className={fit.status === 'fits' ? '' : styles[fit.status]}>
+                        {FIT_LABELS[fit.status]} ({fit.lineCount} line
+                        {fit.lineCount === 1 ? '' : 's'})
+                      </li>
+                    )}
+                    {entryIssues.map((issue) => (
+                      <li
+                        key={issue.message}
+                        className={issue.level === 'error' ? styles.overflow : styles.tight}
+                      >
+                        {issue.message}
+                      </li>
+                    ))}
+                  </ul>
+                )}
+              </div>
+              <button
+                type="button"
+                className={`${styles.btnIcon} ${styles.btnDanger}`}
+                onClick={() =>
+                  onChange(
+                    entries.filter((_, i) => i !== index),
+                    true
+                  )
+                }
+                title="Remove entry"
+              >
+                ✕
+              </button>
+            </li>
+          );
+        })}
+      </ul>
+      <button
+        type="button"
+        className={`${styles.btnSecondary} ${styles.btnSm}`}
+        onClick={() => onChange([...entries, ''], true)}
+      >
+        + Add Bootlegger Entry
+      </button>
+
+      {/* Template library */}
+      <div className={styles.bootleggerTemplate}>
+        <label htmlFor="bootlegger-template">Rule Template</label>
+        <select
+          id="bootlegger-template"
+          value={template.id}
+          onChange={(e) => {
+            setTemplateId(e.target.value);
+            setPlaceholderValues({});
+          }}
+        >
+          {TEMPLATE_CATEGORIES.map((category) => (
+            <optgroup key={category} label={category}>
+              {BOOTLEGGER_TEMPLATES.filter((t) => t.category === category).map((t) => (
+                <option key={t.id} value={t.id}>
+                  {t.label}
+                </option>
+              ))}
+            </optgroup>
+          ))}
+        </select>
+        {placeholders.map((key) => (
+          <select
+            key={key}
+            aria-label={`Character for {${key}}`}
+            value={placeholderValues[key] ?? ''}
+            onChange={(e) => setPlaceholderValues((prev) => ({ ...prev, [key]: e.target.value }))}
+          >
+            <option value="">{`Choose {${key}}...`}</option>
+            {sortedCharacters.map((character) => (
+              <option key={character.uuid ?? character.id} value={character.name}>
+                {character.name}
+              </option>
+            ))}
+          </select>
+        ))}
+        <p className={styles.bootleggerPreview}>{templatePreview}</p>
+        <button
+          type="button"
+          className={`${styles.btnSecondary} ${styles.btnSm}`}
+          onClick={handleAddTemplate}
+          disabled={!isTemplateComplete}
+        >
+          + Add Rule
+        </button>
+      </div>
+    </div>
+  );
+}
+
+export default BootleggerEditor;
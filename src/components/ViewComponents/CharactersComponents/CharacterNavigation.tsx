@@ -13,6 +13,8 @@ interface CharacterNavigationProps {
   onSelectCharacter: (characterUuid: string) => void;
   onAddCharacter: () => void;
   onAddOfficialCharacter?: () => void;
+  /** Open the batch reminder sync review */
+  onSyncReminders?: () => void;
   onDeleteCharacter: (characterId: string) => void;
   onDuplicateCharacter: (characterId: string) => void;
   onSelectMetaToken?: (token: Token) => void;
@@ -64,6 +66,7 @@ export function CharacterNavigation({
   onSelectCharacter,
   onAddCharacter,
   onAddOfficialCharacter,
+  onSyncReminders,
   onDeleteCharacter,
   onDuplicateCharacter,
   onSelectMetaToken,
@@ -315,6 +318,16 @@ export function CharacterNavigation({
                 &#x1F4DA;
               </button>
             )}
+            {onSyncReminders && (
+              <button
+                type="button"
+                className={styles.iconBtn}
+                onClick={onSyncReminders}
+                title="Sync Reminders with Night Text"
+              >
+                &#x1F514;
+              </button>
+            )}
             <button
               type="button"
               className={styles.addBtn}
@@ -1,7 +1,8 @@
-import { type RefCallback, useCallback, useEffect, useRef, useState } from 'react';
+import { useCallback, useEffect, useRef, useState } from 'react';
 import { JsonEditorPanel } from '@/components/Shared/Json/JsonEditorPanel';
 import styles from '@/styles/components/characterEditor/MetaEditor.module.css';
 import type { ScriptMeta } from '@/ts/types/index.js';
+import { BootleggerEditor } from './BootleggerEditor';
 
 interface MetaEditorProps {
   scriptMeta: ScriptMeta | null;
@@ -47,8 +48,6 @@ export function MetaEditor({
 
   // Bootlegger state
   const [localBootlegger, setLocalBootlegger] = useState<string[]>(meta.bootlegger || []);
-  const [draggedBootleggerIndex, setDraggedBootleggerIndex] = useState<number | null>(null);
-  const [dragOverBootleggerIndex, setDragOverBootleggerIndex] = useState<number | null>(null);
 
   // JSON state - strip internal fields for display
   const getExportableMeta = useCallback((m: ScriptMeta) => {
@@ -63,44 +62,6 @@ export function MetaEditor({
   const jsonDebounceTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
   const isEditingJsonRef = useRef(false);
 
-  // Auto-expand textarea refs
-  const textareaRefs = useRef<Set<HTMLTextAreaElement>>(new Set());
-
-  // Utility function to resize a single textarea to fit its content
-  const resizeTextarea = useCallback((textarea: HTMLTextAreaElement | null) => {
-    if (!textarea) return;
-    textarea.style.height = 'auto';
-    textarea.style.height = `${textarea.scrollHeight}px`;
-  }, []);
-
-  // Callback ref to register textareas for auto-resize
-  const registerTextareaRef: RefCallback<HTMLTextAreaElement> = useCallback(
-    (element) => {
-      if (element) {
-        textareaRefs.current.add(element);
-        requestAnimationFrame(() => resizeTextarea(element));
-      }
-    },
-    [resizeTextarea]
-  );
-
-  // Handler for textarea input that also auto-resizes
-  const handleTextareaInput = useCallback(
-    (e: React.FormEvent<HTMLTextAreaElement>) => {
-      resizeTextarea(e.currentTarget);
-    },
-    [resizeTextarea]
-  );
-
-  // Resize all textareas when bootlegger entries change
-  useEffect(() => {
-    requestAnimationFrame(() => {
-      textareaRefs.current.forEach((textarea) => {
-        resizeTextarea(textarea);
-      });
-    });
-  }, [resizeTextarea]);
-
   // Close download menu on click outside
   useEffect(() => {
     const handleClickOutside = (event: MouseEvent) => {
@@ -337,6 +298,17 @@ export function MetaEditor({
                 }}
                 placeholder="https://..."
               />
+              <label htmlFor="meta-hide-title" className={styles.checkboxLabel}>
+                <input
+                  id="meta-hide-title"
+                  type="checkbox"
+                  checked={meta.hideTitle ?? false}
+                  onChange={(e) =>
+                    onMetaChange({ ...meta, hideTitle: e.target.checked || undefined })
+                  }
+                />
+                Hide script name (the logo already shows it)
+              </label>
             </div>
 
             <div className={styles.formGroup}>
@@ -362,92 +334,17 @@ export function MetaEditor({
             )}
 
             {/* Bootlegger Section */}
-            <div className={styles.formGroup}>
-              <span className={styles.label}>Bootlegger</span>
-              <ul className={styles.bootleggerList} aria-label="Bootlegger entries">
-                {localBootlegger.map((entry, index) => {
-                  // Generate stable key: count occurrences of same entry before this index
-                  const occurrenceIndex = localBootlegger
-                    .slice(0, index)
-                    .filter((e) => e === entry).length;
-                  return (
-                    <li
-                      key={`bootlegger-${entry}-occurrence-${occurrenceIndex}`}
-                      className={`${styles.bootleggerRow} ${draggedBootleggerIndex === index ? styles.dragging : ''} ${dragOverBootleggerIndex === index ? styles.dragOver : ''}`}
-                      draggable={localBootlegger.length > 1}
-                      onDragStart={(e) => {
-                        setDraggedBootleggerIndex(index);
-                        e.dataTransfer.effectAllowed = 'move';
-                      }}
-                      onDragEnd={() => {
-                        setDraggedBootleggerIndex(null);
-                        setDragOverBootleggerIndex(null);
-                      }}
-                      onDragOver={(e) => {
-                        e.preventDefault();
-                        if (draggedBootleggerIndex !== null && draggedBootleggerIndex !== index) {
-                          setDragOverBootleggerIndex(index);
-                        }
-                      }}
-                      onDragLeave={() => setDragOverBootleggerIndex(null)}
-                      onDrop={(e) => {
-                        e.preventDefault();
-                        if (draggedBootleggerIndex !== null && draggedBootleggerIndex !== index) {
-                          const newEntries = [...localBootlegger];
-                          const [removed] = newEntries.splice(draggedBootleggerIndex, 1);
-                          newEntries.splice(index, 0, removed);
-                          setLocalBootlegger(newEntries);
-                          onMetaChange({ ...meta, bootlegger: newEntries });
-                        }
-                        setDraggedBootleggerIndex(null);
-                        setDragOverBootleggerIndex(null);
-                      }}
-                    >
-                      <span className={styles.dragHandle} title="Drag to reorder">
-                        ⋮⋮
-                      </span>
-                      <textarea
-                        ref={registerTextareaRef}
-                        value={entry}
-                        onChange={(e) => {
-                          const newEntries = [...localBootlegger];
-                          newEntries[index] = e.target.value;
-                          setLocalBootlegger(newEntries);
-                          debouncedUpdate('bootlegger', newEntries);
-                        }}
-                        onInput={handleTextareaInput}
-                        placeholder="Enter ability text..."
-                        rows={1}
-                        className={styles.bootleggerTextarea}
-                      />
-                      <button
-                        type="button"
-                        className={`${styles.btnIcon} ${styles.btnDanger}`}
-                        onClick={() => {
-                          const newEntries = localBootlegger.filter((_, i) => i !== index);
-                          setLocalBootlegger(newEntries);
-                          onMetaChange({ ...meta, bootlegger: newEntries });
-                        }}
-                        title="Remove entry"
-                      >
-                        ✕
-                      </button>
-                    </li>
-                  );
-                })}
-              </ul>
-              <button
-                type="button"
-                className={`${styles.btnSecondary} ${styles.btnSm}`}
-                onClick={() => {
-                  const newEntries = [...localBootlegger, ''];
-                  setLocalBootlegger(newEntries);
+            <BootleggerEditor
+              entries={localBootlegger}
+              onChange={(newEntries, immediate) => {
+                setLocalBootlegger(newEntries);
+                if (immediate) {
                   onMetaChange({ ...meta, bootlegger: newEntries });
-                }}
-              >
-                + Add Bootlegger Entry
-              </button>
-            </div>
+                } else {
+                  debouncedUpdate('bootlegger', newEntries);
+                }
+              }}
+            />
           </div>
         )}
 
@@ -8,6 +8,7 @@
  * - Ability text with setup toggle
  * - Reminders with grouping and drag-and-drop
  * - Night order reminders with format validation
+ * - Jinxes with other characters on the script
  * - Special items for app integration
  *
  * @module components/CharactersComponents/TokenEditor/GameplayTabContent
@@ -36,6 +37,7 @@ import viewStyles from '@/styles/components/views/Views.module.css';
 import { TIMING } from '@/ts/constants.js';
 import type { Character } from '@/ts/types/index.js';
 import { generateRandomName, nameToId } from '@/ts/utils/nameGenerator';
+import { JinxesEditor } from './JinxesEditor';
 import { NightOrderField } from './NightOrderField';
 import { SortableImageUrlRow } from './SortableImageUrlRow';
 import { SortableReminderRow } from './SortableReminderRow';
@@ -679,6 +681,9 @@ export const GameplayTabContent = memo(function GameplayTabContent({
         placeholder="Reminder text for other nights"
       />
 
+      {/* Jinxes */}
+      <JinxesEditor character={character} disabled={isOfficial} onEditChange={onEditChange} />
+
       {/* Special Items */}
       <SpecialItemsEditor character={character} disabled={isOfficial} onEditChange={onEditChange} />
     </div>
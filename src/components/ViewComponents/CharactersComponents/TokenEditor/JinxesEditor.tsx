@@ -0,0 +1,207 @@
+/**
+ * JinxesEditor Component
+ *
+ * Manages the "jinxes" array from the official script schema.
+ * Each jinx pairs this character with another character on the script
+ * and carries the rules text explaining how the interaction resolves.
+ *
+ * @module components/CharactersComponents/TokenEditor/JinxesEditor
+ */
+
+import { memo, useCallback, useMemo } from 'react';
+import { useTokenContext } from '@/contexts/TokenContext';
+import styles from '@/styles/components/characterEditor/TokenEditor.module.css';
+import { getCharacterJinxes, getJinxesForCharacter } from '@/ts/data/jinxUtils.js';
+import type { Character, Jinx } from '@/ts/types/index.js';
+
+interface JinxesEditorProps {
+  /** The character being edited */
+  character: Character;
+  /** Whether editing is disabled */
+  disabled: boolean;
+  /** Callback to update the character */
+  onEditChange: (field: keyof Character, value: Character[keyof Character]) => void;
+}
+
+interface JinxItemCardProps {
+  jinx: Jinx;
+  index: number;
+  disabled: boolean;
+  targetOptions: Character[];
+  onUpdate: (updates: Partial<Jinx>) => void;
+  onRemove: () => void;
+}
+
+const JinxItemCard = memo(function JinxItemCard({
+  jinx,
+  index,
+  disabled,
+  targetOptions,
+  onUpdate,
+  onRemove,
+}: JinxItemCardProps) {
+  // Keep jinxes that point at characters outside the script selectable
+  const isKnownTarget = targetOptions.some((c) => c.id.toLowerCase() === jinx.id.toLowerCase());
+
+  return (
+    <div className={styles.specialItemCard}>
+      <div className={styles.specialItemHeader}>
+        <span className={styles.specialItemNumber}>#{index + 1}</span>
+        <button
+          type="button"
+          className={`${styles.btnIcon} ${styles.btnDanger}`}
+          onClick={onRemove}
+          disabled={disabled}
+          title={disabled ? 'Official character - cannot edit' : 'Remove jinx'}
+        >
+          ✕
+        </button>
+      </div>
+
+      <div className={styles.jinxItemFields}>
+        <div className={styles.specialField}>
+          <label htmlFor={`jinx-target-${index}`}>
+            Jinxed With <span className={styles.required}>*</span>
+          </label>
+          <select
+            id={`jinx-target-${index}`}
+            value={jinx.id}
+            disabled={disabled}
+            onChange={(e) => onUpdate({ id: e.target.value })}
+          >
+            <option value="">-- Select --</option>
+            {!isKnownTarget && jinx.id && (
+              <option value={jinx.id}>{jinx.id} (not on script)</option>
+            )}
+            {targetOptions.map((target) => (
+              <option key={target.uuid || target.id} value={target.id}>
+                {target.name}
+              </option>
+            ))}
+          </select>
+        </div>
+
+        <div className={styles.specialField}>
+          <label htmlFor={`jinx-reason-${index}`}>Reason</label>
+          <textarea
+            id={`jinx-reason-${index}`}
+            value={jinx.reason}
+            disabled={disabled}
+            onChange={(e) => onUpdate({ reason: e.target.value })}
+            placeholder="How the two abilities interact"
+            rows={2}
+          />
+        </div>
+      </div>
+    </div>
+  );
+});
+
+/**
+ * Editor for the jinxes array.
+ */
+export const JinxesEditor = memo(function JinxesEditor({
+  character,
+  disabled,
+  onEditChange,
+}: JinxesEditorProps) {
+  const { characters } = useTokenContext();
+  const jinxes = getCharacterJinxes(character);
+
+  // Every other character on the script is a valid jinx target
+  const targetOptions = useMemo(
+    () =>
+      characters
+        .filter((c) => c.id && c.id.toLowerCase() !== character.id.toLowerCase())
+        .sort((a, b) => a.name.localeCompare(b.name)),
+    [characters, character.id]
+  );
+
+  // Jinxes declared on other characters that reference this one
+  const incomingJinxes = useMemo(
+    () =>
+      getJinxesForCharacter(character.id, characters).filter(
+        (pair) => pair.character.id.toLowerCase() !== character.id.toLowerCase()
+      ),
+    [characters, character.id]
+  );
+
+  const updateJinxes = useCallback(
+    (newJinxes: Jinx[]) => {
+      onEditChange('jinxes', newJinxes);
+    },
+    [onEditChange]
+  );
+
+  const handleUpdateItem = useCallback(
+    (index: number, updates: Partial<Jinx>) => {
+      if (disabled) return;
+      const newJinxes = [...jinxes];
+      newJinxes[index] = { ...newJinxes[index], ...updates };
+      updateJinxes(newJinxes);
+    },
+    [disabled, jinxes, updateJinxes]
+  );
+
+  const handleRemoveItem = useCallback(
+    (index: number) => {
+      if (disabled) return;
+      updateJinxes(jinxes.filter((_, i) => i !== index));
+    },
+    [disabled, jinxes, updateJinxes]
+  );
+
+  const handleAddItem = useCallback(() => {
+    if (disabled) return;
+    updateJinxes([...jinxes, { id: '', reason: '' }]);
+  }, [disabled, jinxes, updateJinxes]);
+
+  return (
+    <div className={styles.formGroup}>
+      <span className={styles.label}>Jinxes</span>
+      <p className={styles.fieldHint}>
+        Rules for how this character interacts with another character on the script.
+      </p>
+
+      <div className={styles.specialItemsList}>
+        {jinxes.map((jinx, index) => {
+          // Generate stable key based on occurrence count (unfinished rows share an empty id)
+          const occurrenceIndex = jinxes.slice(0, index).filter((j) => j.id === jinx.id).length;
+
+          return (
+            <JinxItemCard
+              key={`jinx-${jinx.id}-occurrence-${occurrenceIndex}`}
+              jinx={jinx}
+              index={index}
+              disabled={disabled}
+              targetOptions={targetOptions}
+              onUpdate={(updates) => handleUpdateItem(index, updates)}
+              onRemove={() => handleRemoveItem(index)}
+            />
+          );
+        })}
+      </div>
+
+      {incomingJinxes.length > 0 && (
+        <ul className={styles.jinxIncomingList}>
+          {incomingJinxes.map((pair) => (
+            <li key={pair.character.uuid || pair.character.id}>
+              <strong>{pair.character.name}:</strong> {pair.reason}
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <button
+        type="button"
+        className={`${styles.btnSecondary} ${styles.btnSm}`}
+        onClick={handleAddItem}
+        disabled={disabled}
+      >
+        + Add Jinx
+      </button>
+    </div>
+  );
+});
+
+export default JinxesEditor;
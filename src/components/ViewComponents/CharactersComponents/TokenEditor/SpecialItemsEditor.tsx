@@ -9,15 +9,20 @@
 
 import { memo, useCallback } from 'react';
 import styles from '@/styles/components/characterEditor/TokenEditor.module.css';
-import type { Character } from '@/ts/types/index.js';
 import {
-  type CharacterWithSpecial,
   SPECIAL_GLOBALS,
   SPECIAL_NAMES,
   SPECIAL_TIMES,
   SPECIAL_TYPES,
-  type SpecialItem,
-} from './types';
+} from '@/ts/data/specialUtils.js';
+import type {
+  Character,
+  CharacterSpecial,
+  SpecialGlobal,
+  SpecialName,
+  SpecialTime,
+  SpecialType,
+} from '@/ts/types/index.js';
 
 interface SpecialItemsEditorProps {
   /** The character being edited */
@@ -28,35 +33,20 @@ interface SpecialItemsEditorProps {
   onEditChange: (field: keyof Character, value: Character[keyof Character]) => void;
 }
 
-/**
- * Parses the special property to always return an array.
- */
-function getSpecialArray(character: Character): SpecialItem[] {
-  const charWithSpecial = character as CharacterWithSpecial;
-  if (Array.isArray(charWithSpecial.special)) {
-    return charWithSpecial.special;
-  }
-  if (charWithSpecial.special) {
-    return [charWithSpecial.special];
-  }
-  return [];
-}
+/** Kind of the optional `value` field */
+type SpecialValueKind = 'none' | 'number' | 'text';
 
-/**
- * Parses a special item ensuring it has the correct structure.
- */
-function parseSpecialItem(item: SpecialItem | SpecialItem[]): SpecialItem {
-  if (typeof item === 'object' && item !== null && !Array.isArray(item)) {
-    return item;
-  }
-  return { type: 'selection', name: '' };
+function getValueKind(value: CharacterSpecial['value']): SpecialValueKind {
+  if (typeof value === 'number') return 'number';
+  if (typeof value === 'string') return 'text';
+  return 'none';
 }
 
 interface SpecialItemCardProps {
-  item: SpecialItem;
+  item: CharacterSpecial;
   index: number;
   disabled: boolean;
-  onUpdate: (updates: Partial<SpecialItem>) => void;
+  onUpdate: (updates: Partial<CharacterSpecial>) => void;
   onRemove: () => void;
 }
 
@@ -67,11 +57,7 @@ const SpecialItemCard = memo(function SpecialItemCard({
   onUpdate,
   onRemove,
 }: SpecialItemCardProps) {
-  const itemType = String(item.type || 'selection');
-  const itemName = String(item.name || '');
-  const itemValue = item.value !== undefined ? String(item.value) : '';
-  const itemTime = String(item.time || '');
-  const itemGlobal = String(item.global || '');
+  const valueKind = getValueKind(item.value);
 
   return (
     <div className={styles.specialItemCard}>
@@ -95,9 +81,9 @@ const SpecialItemCard = memo(function SpecialItemCard({
           </label>
           <select
             id={`special-type-${index}`}
-            value={itemType}
+            value={item.type}
             disabled={disabled}
-            onChange={(e) => onUpdate({ type: e.target.value })}
+            onChange={(e) => onUpdate({ type: e.target.value as SpecialType })}
           >
             {SPECIAL_TYPES.map((type) => (
               <option key={type} value={type}>
@@ -113,11 +99,10 @@ const SpecialItemCard = memo(function SpecialItemCard({
           </label>
           <select
             id={`special-name-${index}`}
-            value={itemName}
+            value={item.name}
             disabled={disabled}
-            onChange={(e) => onUpdate({ name: e.target.value })}
+            onChange={(e) => onUpdate({ name: e.target.value as SpecialName })}
           >
-            <option value="">-- Select --</option>
             {SPECIAL_NAMES.map((name) => (
               <option key={name} value={name}>
                 {name}
@@ -127,34 +112,57 @@ const SpecialItemCard = memo(function SpecialItemCard({
         </div>
 
         <div className={styles.specialField}>
-          <label htmlFor={`special-value-${index}`}>Value</label>
-          <input
-            id={`special-value-${index}`}
-            type="text"
-            value={itemValue}
+          <label htmlFor={`special-value-kind-${index}`}>Value</label>
+          <select
+            id={`special-value-kind-${index}`}
+            value={valueKind}
             disabled={disabled}
             onChange={(e) => {
-              const val = e.target.value;
-              // Try to parse as number if it looks like one
-              const numVal = parseFloat(val);
-              onUpdate({
-                value: !Number.isNaN(numVal) && val === String(numVal) ? numVal : val,
-              });
+              const kind = e.target.value as SpecialValueKind;
+              onUpdate({ value: kind === 'number' ? 1 : kind === 'text' ? '' : undefined });
             }}
-            placeholder="Text or number"
-          />
+          >
+            <option value="none">-- None --</option>
+            <option value="number">Number</option>
+            <option value="text">Text</option>
+          </select>
+          {valueKind === 'number' && (
+            <input
+              id={`special-value-${index}`}
+              type="number"
+              step="any"
+              value={item.value}
+              disabled={disabled}
+              aria-label="Special value"
+              onChange={(e) => {
+                const num = e.target.valueAsNumber;
+                onUpdate({ value: Number.isNaN(num) ? 0 : num });
+              }}
+            />
+          )}
+          {valueKind === 'text' && (
+            <input
+              id={`special-value-${index}`}
+              type="text"
+              value={item.value}
+              disabled={disabled}
+              aria-label="Special value"
+              onChange={(e) => onUpdate({ value: e.target.value })}
+              placeholder="Text value"
+            />
+          )}
         </div>
 
         <div className={styles.specialField}>
           <label htmlFor={`special-time-${index}`}>Time</label>
           <select
             id={`special-time-${index}`}
-            value={itemTime}
+            value={item.time ?? ''}
             disabled={disabled}
-            onChange={(e) => onUpdate({ time: e.target.value })}
+            onChange={(e) => onUpdate({ time: (e.target.value || undefined) as SpecialTime })}
           >
             <option value="">-- None --</option>
-            {SPECIAL_TIMES.filter((t) => t).map((time) => (
+            {SPECIAL_TIMES.map((time) => (
               <option key={time} value={time}>
                 {time}
               </option>
@@ -166,12 +174,12 @@ const SpecialItemCard = memo(function SpecialItemCard({
           <label htmlFor={`special-global-${index}`}>Global</label>
           <select
             id={`special-global-${index}`}
-            value={itemGlobal}
+            value={item.global ?? ''}
             disabled={disabled}
-            onChange={(e) => onUpdate({ global: e.target.value })}
+            onChange={(e) => onUpdate({ global: (e.target.value || undefined) as SpecialGlobal })}
           >
             <option value="">-- None --</option>
-            {SPECIAL_GLOBALS.filter((g) => g).map((global) => (
+            {SPECIAL_GLOBALS.map((global) => (
               <option key={global} value={global}>
                 {global}
               </option>
@@ -191,22 +199,22 @@ export const SpecialItemsEditor = memo(function SpecialItemsEditor({
   disabled,
   onEditChange,
 }: SpecialItemsEditorProps) {
-  const specialArray = getSpecialArray(character);
+  const specialArray = character.special ?? [];
 
   const updateSpecialArray = useCallback(
-    (newArray: SpecialItem[]) => {
-      onEditChange('special' as keyof Character, newArray as unknown as Character[keyof Character]);
+    (newArray: CharacterSpecial[]) => {
+      onEditChange('special', newArray.length > 0 ? newArray : undefined);
     },
     [onEditChange]
   );
 
   const handleUpdateItem = useCallback(
-    (index: number, item: SpecialItem, updates: Partial<SpecialItem>) => {
+    (index: number, item: CharacterSpecial, updates: Partial<CharacterSpecial>) => {
       if (disabled) return;
 
-      const newItem: SpecialItem = { ...item, ...updates };
-      // Remove empty optional fields
-      if (!newItem.value && newItem.value !== 0) delete newItem.value;
+      const newItem: CharacterSpecial = { ...item, ...updates };
+      // Remove cleared optional fields
+      if (newItem.value === undefined) delete newItem.value;
       if (!newItem.time) delete newItem.time;
       if (!newItem.global) delete newItem.global;
 
@@ -229,7 +237,7 @@ export const SpecialItemsEditor = memo(function SpecialItemsEditor({
 
   const handleAddItem = useCallback(() => {
     if (disabled) return;
-    const newArray: SpecialItem[] = [...specialArray, { type: 'selection', name: 'grimoire' }];
+    const newArray: CharacterSpecial[] = [...specialArray, { type: 'selection', name: 'grimoire' }];
     updateSpecialArray(newArray);
   }, [disabled, specialArray, updateSpecialArray]);
 
@@ -239,20 +247,15 @@ export const SpecialItemsEditor = memo(function SpecialItemsEditor({
       <p className={styles.fieldHint}>Add special app integration features for this character.</p>
 
       <div className={styles.specialItemsList}>
-        {specialArray.map((rawItem, index) => {
-          const item = parseSpecialItem(rawItem);
-          const itemType = String(item.type || 'selection');
-          const itemName = String(item.name || '');
-
+        {specialArray.map((item, index) => {
           // Generate stable key based on occurrence count
-          const occurrenceIndex = specialArray.slice(0, index).filter((i) => {
-            const prevItem = parseSpecialItem(i);
-            return prevItem.type === itemType && prevItem.name === itemName;
-          }).length;
+          const occurrenceIndex = specialArray
+            .slice(0, index)
+            .filter((prev) => prev.type === item.type && prev.name === item.name).length;
 
           return (
             <SpecialItemCard
-              key={`special-${itemType}-${itemName}-occurrence-${occurrenceIndex}`}
+              key={`special-${item.type}-${item.name}-occurrence-${occurrenceIndex}`}
               item={item}
               index={index}
               disabled={disabled}
@@ -11,6 +11,7 @@ export { AlmanacTabContent } from './AlmanacTabContent';
 // Shared Components
 export { FormatWarning } from './FormatWarning';
 export { GameplayTabContent } from './GameplayTabContent';
+export { JinxesEditor } from './JinxesEditor';
 export { JsonTabContent } from './JsonTabContent';
 export { SortableImageUrlRow } from './SortableImageUrlRow';
 export { SortableReminderRow } from './SortableReminderRow';
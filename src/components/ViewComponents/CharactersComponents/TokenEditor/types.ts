@@ -8,23 +8,6 @@
 
 import type { Character, DecorativeOverrides, GenerationOptions } from '@/ts/types/index.js';
 
-/**
- * Extended character type that includes the optional `special` property
- * used for app integration features (clocktower.online, etc.)
- */
-export interface CharacterWithSpecial extends Character {
-  special?: SpecialItem | SpecialItem[];
-}
-
-/** Special item for app integration features */
-export interface SpecialItem {
-  type?: string;
-  name?: string;
-  value?: string | number;
-  time?: string;
-  global?: string;
-}
-
 /**
  * Base props shared across all TokenEditor tab components
  */
@@ -109,60 +92,3 @@ export const TEAM_SELECT_CLASS_MAP: Record<string, string> = {
   fabled: 'teamFabled',
   loric: 'teamLoric',
 };
-
-/**
- * Available special types for app integration
- */
-export const SPECIAL_TYPES = [
-  'selection',
-  'ability',
-  'signal',
-  'vote',
-  'reveal',
-  'player',
-] as const;
-
-/**
- * Available special names for app integration
- */
-export const SPECIAL_NAMES = [
-  'grimoire',
-  'pointing',
-  'ghost-votes',
-  'distribute-roles',
-  'bag-disabled',
-  'bag-duplicate',
-  'multiplier',
-  'hidden',
-  'replace-character',
-  'player',
-  'card',
-  'open-eyes',
-] as const;
-
-/**
- * Available special times for app integration
- */
-export const SPECIAL_TIMES = [
-  '',
-  'pregame',
-  'day',
-  'night',
-  'firstNight',
-  'firstDay',
-  'otherNight',
-  'otherDay',
-] as const;
-
-/**
- * Available special globals for app integration
- */
-export const SPECIAL_GLOBALS = [
-  '',
-  'townsfolk',
-  'outsider',
-  'minion',
-  'demon',
-  'traveller',
-  'dead',
-] as const;
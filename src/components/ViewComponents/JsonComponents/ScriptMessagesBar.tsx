@@ -13,6 +13,7 @@ import { useState } from 'react';
 import { InfoMessage } from '@/components/Shared/Feedback/InfoMessage';
 import type { FormatIssuesSummary } from '@/hooks';
 import styles from '@/styles/components/views/Views.module.css';
+import type { CharacterSuggestion } from '@/ts/data/characterResolver.js';
 
 /** Maximum number of messages to show before "Show more" button */
 const VISIBLE_MESSAGES_COUNT = 3;
@@ -22,6 +23,8 @@ export interface ScriptMessagesBarProps {
   error: string | null;
   /** Warning messages from validation */
   warnings: string[];
+  /** Name/variant/misspelled character references with candidate IDs */
+  characterSuggestions: CharacterSuggestion[];
   /** Number of characters in the script */
   characterCount: number;
   /** Whether the script has a _meta entry */
@@ -48,6 +51,8 @@ export interface ScriptMessagesBarProps {
   onAddMeta: () => void;
   /** Handler to remove separators from IDs */
   onRemoveSeparators: () => void;
+  /** Handler to replace a script entry's reference with an official character ID */
+  onApplySuggestion: (entryIndex: number, characterId: string) => void;
 }
 
 interface MessageItem {
@@ -61,12 +66,14 @@ interface MessageItem {
  * Features:
  * - Shows errors and warnings with appropriate styling
  * - Displays actionable recommendations with fix buttons
+ * - Offers one-click "did you mean" fixes for unrecognized character references
  * - Collapsible message list for many warnings
  * - Consistent ordering of recommendation types
  */
 export function ScriptMessagesBar({
   error,
   warnings,
+  characterSuggestions,
   characterCount,
   hasScriptMeta,
   hasSeparatorsInIds,
@@ -80,6 +87,7 @@ export function ScriptMessagesBar({
   onFixFormats,
   onAddMeta,
   onRemoveSeparators,
+  onApplySuggestion,
 }: ScriptMessagesBarProps) {
   const [showAllMessages, setShowAllMessages] = useState(false);
 
@@ -88,6 +96,7 @@ export function ScriptMessagesBar({
   const hasAnyContent =
     error ||
     warnings.length > 0 ||
+    characterSuggestions.length > 0 ||
     (hasCharacters && !hasScriptMeta) ||
     hasSeparatorsInIds ||
     (hasCharacters && !isScriptSorted) ||
@@ -121,6 +130,35 @@ export function ScriptMessagesBar({
         />
       )}
 
+      {/* "Did you mean" suggestions for character references */}
+      {!error &&
+        characterSuggestions.map((suggestion) => (
+          <div
+            key={`suggestion-${suggestion.entryIndex}`}
+            className={`${styles.messageItem} ${styles.infoItem}`}
+          >
+            <span>
+              💡 {suggestion.position}: <code>{suggestion.input}</code>{' '}
+              {suggestion.resolved
+                ? `was matched to ${suggestion.matches[0].character.name}. Use the official ID?`
+                : 'is not an official character. Did you mean:'}
+            </span>
+            <span className={styles.suggestionActions}>
+              {suggestion.matches.map(({ character, score }) => (
+                <button
+                  key={character.id}
+                  type="button"
+                  className={styles.addMetaBtn}
+                  onClick={() => onApplySuggestion(suggestion.entryIndex, character.id)}
+                  title={`Replace "${suggestion.input}" with "${character.id}" (${Math.round(score * 100)}% match)`}
+                >
+                  {suggestion.resolved ? character.id : character.name}
+                </button>
+              ))}
+            </span>
+          </div>
+        ))}
+
       {/* Missing _meta recommendation */}
       {hasCharacters && !hasScriptMeta && !error && (
         <InfoMessage
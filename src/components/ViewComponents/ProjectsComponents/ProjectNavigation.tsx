@@ -22,6 +22,7 @@ interface ProjectNavigationProps {
   onSelectProject: (projectId: string) => void;
   onCreateProject: () => void;
   onImportProject: () => void;
+  onRandomizeProject: () => void;
   onIconManagement: () => void;
   onDeleteProject?: (project: Project) => void;
 }
@@ -33,6 +34,7 @@ export function ProjectNavigation({
   onSelectProject,
   onCreateProject,
   onImportProject,
+  onRandomizeProject,
   onIconManagement: _onIconManagement,
   onDeleteProject,
 }: ProjectNavigationProps) {
@@ -184,6 +186,14 @@ export function ProjectNavigation({
             >
               Import
             </Button>
+            <Button
+              variant="secondary"
+              size="small"
+              onClick={onRandomizeProject}
+              title="Create a Random Script from Official Characters"
+            >
+              Randomize
+            </Button>
           </div>
         </div>
       </details>
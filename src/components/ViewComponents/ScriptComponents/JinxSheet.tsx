@@ -0,0 +1,91 @@
+/**
+ * Jinx Sheet Component
+ *
+ * Print-ready sheet listing every jinx between characters on the script.
+ * Each row shows both character icons, the pair names, and the jinx rules text.
+ * Rendered alongside the night sheets and mirrored by the night order PDF.
+ */
+
+import { forwardRef, useMemo } from 'react';
+import { useCharacterImageResolver } from '@/hooks';
+import styles from '@/styles/components/script/JinxSheet.module.css';
+import type { JinxPair } from '@/ts/data/jinxUtils.js';
+import { getTeamColor } from '@/ts/nightOrder/nightOrderUtils.js';
+import type { Character, ScriptMeta } from '@/ts/types/index.js';
+import type { NightSheetBackground } from './NightOrderView';
+
+interface JinxSheetProps {
+  /** Jinx pairs to display (both characters must be on the script) */
+  jinxes: JinxPair[];
+  scriptMeta?: ScriptMeta | null;
+  /** Background customization options (shared with the night sheets) */
+  background?: NightSheetBackground;
+}
+
+/**
+ * Icon for one side of a jinx pair
+ */
+function JinxIcon({ character, url }: { character: Character; url: string | undefined }) {
+  return (
+    <div className={styles.iconContainer}>
+      {url && <img src={url} alt={character.name} className={styles.icon} />}
+    </div>
+  );
+}
+
+export const JinxSheet = forwardRef<HTMLDivElement, JinxSheetProps>(function JinxSheet(
+  { jinxes, scriptMeta, background },
+  ref
+) {
+  const scriptName = scriptMeta?.name || 'Untitled Script';
+
+  // Resolve icons for every character that appears in a pair
+  const pairCharacters = useMemo(() => {
+    const unique = new Map<string, Character>();
+    for (const pair of jinxes) {
+      unique.set(pair.character.uuid || pair.character.id, pair.character);
+      unique.set(pair.target.uuid || pair.target.id, pair.target);
+    }
+    return Array.from(unique.values());
+  }, [jinxes]);
+
+  const { resolvedUrls } = useCharacterImageResolver({ characters: pairCharacters });
+
+  const sheetStyle = useMemo(
+    () => ({ backgroundColor: background?.baseColor || '#f4edd9' }),
+    [background?.baseColor]
+  );
+
+  return (
+    <div ref={ref} className={styles.sheet} style={sheetStyle}>
+      <header className={styles.header}>
+        <h2 className={styles.title}>Jinxes</h2>
+        <span className={styles.scriptName}>{scriptName}</span>
+      </header>
+
+      <div className={styles.entriesContainer}>
+        {jinxes.map((pair) => (
+          <div key={`${pair.character.id}-${pair.target.id}`} className={styles.entry}>
+            <div className={styles.icons}>
+              <JinxIcon
+                character={pair.character}
+                url={resolvedUrls.get(pair.character.uuid || '')}
+              />
+              <JinxIcon character={pair.target} url={resolvedUrls.get(pair.target.uuid || '')} />
+            </div>
+            <div className={styles.content}>
+              <div className={styles.names}>
+                <span style={{ color: getTeamColor(pair.character.team) }}>
+                  {pair.character.name}
+                </span>
+                <span className={styles.separator}> &amp; </span>
+                <span style={{ color: getTeamColor(pair.target.team) }}>{pair.target.name}</span>
+              </div>
+              <div className={styles.reason}>{pair.reason}</div>
+            </div>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+});
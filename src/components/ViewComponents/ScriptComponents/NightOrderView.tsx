@@ -5,9 +5,11 @@
  * Uses sidebar layout with print preview showing realistic 8.5" x 11" pages.
  */
 
-import { useCallback, useEffect, useRef, useState } from 'react';
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
 import { createPortal } from 'react-dom';
 import { ViewLayout } from '@/components/Layout/ViewLayout';
+import { ScriptVariantModal } from '@/components/Modals/ScriptVariantModal';
+import { ConfirmDialog } from '@/components/Shared/ModalBase/ConfirmDialog';
 import {
   EnableToggle,
   InfoSection,
@@ -16,12 +18,20 @@ import {
 } from '@/components/Shared/Selectors/SettingsSelectorBase';
 import { type DownloadItem, useDownloadsContext } from '@/contexts/DownloadsContext';
 import { useNightOrder } from '@/contexts/NightOrderContext';
+import { useToast } from '@/contexts/ToastContext';
 import { useTokenContext } from '@/contexts/TokenContext';
-import { useExpandablePanel } from '@/hooks';
+import {
+  type CreateScriptVariantOptions,
+  useExpandablePanel,
+  usePdfTextOptions,
+  useScriptVariant,
+} from '@/hooks';
 import layoutStyles from '@/styles/components/layout/ViewLayout.module.css';
 import styles from '@/styles/components/script/NightOrderView.module.css';
 import baseStyles from '@/styles/components/shared/SettingsSelectorBase.module.css';
 import { UI_DIMENSIONS } from '@/ts/constants.js';
+import { getScriptJinxes } from '@/ts/data/jinxUtils.js';
+import { localizeCharacters } from '@/ts/data/localization.js';
 import { downloadNightOrderPdf, type ExportPhase } from '@/ts/nightOrder/nightOrderPdfLib.js';
 import {
   syncNightOrderToJson,
@@ -30,8 +40,10 @@ import {
 import { logger } from '@/ts/utils/logger.js';
 // TODO: Re-enable when Script PDF export is fixed
 // import { getOfficialScriptToolUrl } from '@/ts/utils/scriptEncoder.js';
+import { JinxSheet } from './JinxSheet';
 import { NightSheet } from './NightSheet';
-import type { ScriptSubTab } from './ScriptTabNavigation';
+import { ScriptAnalysisPanel } from './ScriptAnalysisPanel';
+import { type ScriptSubTab, ScriptTabNavigation } from './ScriptTabNavigation';
 
 /**
  * Background customization options
@@ -72,9 +84,24 @@ interface NightOrderViewProps {
   onEditCharacter?: (characterId: string) => void;
 }
 
-export function NightOrderView({ enableDragDrop = true, onEditCharacter }: NightOrderViewProps) {
-  const { characters, scriptMeta, jsonInput, setJsonInput, setCharacters } = useTokenContext();
+export function NightOrderView({
+  enableDragDrop = true,
+  activeTab,
+  onTabChange,
+  onEditCharacter,
+}: NightOrderViewProps) {
+  const {
+    characters,
+    scriptMeta,
+    jsonInput,
+    setJsonInput,
+    setCharacters,
+    getEnabledCharacters,
+    activeLocalizationPack,
+  } = useTokenContext();
   const { setDownloads, clearDownloads } = useDownloadsContext();
+  const { addToast } = useToast();
+  const scriptVariant = useScriptVariant();
   const {
     firstNight,
     otherNight,
@@ -96,17 +123,30 @@ export function NightOrderView({ enableDragDrop = true, onEditCharacter }: Night
   const firstNightRef = useRef<HTMLDivElement>(null);
   const otherNightRef = useRef<HTMLDivElement>(null);
 
+  // PDFs print character text in the active language with the chosen fonts
+  const pdfText = usePdfTextOptions();
+  const localizedCharacters = useMemo(
+    () => localizeCharacters(characters, activeLocalizationPack),
+    [characters, activeLocalizationPack]
+  );
+
   // Initialize night order when characters change and generation is enabled
   useEffect(() => {
-    if (generateNightOrder && characters.length > 0) {
-      const scriptData = scriptMeta ? [scriptMeta, ...characters] : characters;
+    if (generateNightOrder && localizedCharacters.length > 0) {
+      const scriptData = scriptMeta ? [scriptMeta, ...localizedCharacters] : localizedCharacters;
       initializeFromScript(scriptData);
     }
-  }, [generateNightOrder, characters, scriptMeta, initializeFromScript]);
+  }, [generateNightOrder, localizedCharacters, scriptMeta, initializeFromScript]);
 
   // Use night order's script meta if available
   const displayMeta = nightOrderMeta || scriptMeta;
 
+  // Jinxes between characters on the script (printed on their own sheet)
+  const jinxes = useMemo(() => getScriptJinxes(characters), [characters]);
+
+  // Enabled characters feed the balance analysis
+  const enabledCharacters = useMemo(() => getEnabledCharacters(), [getEnabledCharacters]);
+
   // Track if we've initialized to avoid syncing on first load
   const hasInitializedRef = useRef(false);
 
@@ -208,6 +248,8 @@ export function NightOrderView({ enableDragDrop = true, onEditCharacter }: Night
         return 'Rendering First Night...';
       case 'rendering-other':
         return 'Rendering Other Nights...';
+      case 'rendering-jinxes':
+        return 'Rendering Jinxes...';
       case 'saving':
         return 'Saving PDF...';
       default:
@@ -239,6 +281,8 @@ export function NightOrderView({ enableDragDrop = true, onEditCharacter }: Night
         includeFirstNight: true,
         includeOtherNight: true,
         showScriptName: true,
+        jinxes,
+        ...pdfText,
         onProgress: (phase, current, total) => {
           setExportPhase(phase);
           setExportProgress({ current, total });
@@ -257,7 +301,34 @@ export function NightOrderView({ enableDragDrop = true, onEditCharacter }: Night
       setExportPhase(null);
       abortControllerRef.current = null;
     }
-  }, [displayMeta, isExporting, firstNight, otherNight]);
+  }, [displayMeta, isExporting, firstNight, otherNight, jinxes, pdfText]);
+
+  // Variant builder (Teensyville and other player-count cuts)
+  const [isVariantModalOpen, setIsVariantModalOpen] = useState(false);
+  const { createVariant, pullFromParent } = scriptVariant;
+
+  const handleCreateVariant = useCallback(
+    async (options: CreateScriptVariantOptions) => {
+      const project = await createVariant(options);
+      if (project) {
+        setIsVariantModalOpen(false);
+        addToast(`Created variant project "${project.name}"`, 'success');
+      }
+    },
+    [createVariant, addToast]
+  );
+
+  // Open project is a variant: pull its parent's edits into the kept characters
+  const [isPullConfirmOpen, setIsPullConfirmOpen] = useState(false);
+  const variantParentName = scriptVariant.parentLink?.parentName;
+  const handlePullFromParent = useCallback(async () => {
+    setIsPullConfirmOpen(false);
+    if (await pullFromParent()) {
+      addToast(`Pulled changes from "${variantParentName}"`, 'success');
+    } else {
+      addToast('Failed to pull changes from the parent project', 'error');
+    }
+  }, [pullFromParent, variantParentName, addToast]);
 
   // TODO: Re-enable when Script PDF export is fixed
   // Handler to open script in official BOTC Script Tool
@@ -506,19 +577,8 @@ export function NightOrderView({ enableDragDrop = true, onEditCharacter }: Night
     <ViewLayout variant="2-panel">
       {/* Sidebar */}
       <ViewLayout.Panel position="left" width="left" scrollable>
+        <ScriptTabNavigation activeTab={activeTab} onTabChange={onTabChange} />
         <div className={layoutStyles.panelContent}>
-          {/* Player Script (Coming Soon - Disabled) */}
-          <SettingsSelectorBase
-            preview={
-              <PreviewBox shape="square" size="medium">
-                <span style={{ fontSize: '1.5rem' }}>📜</span>
-              </PreviewBox>
-            }
-            info={<InfoSection label="Player Script" summary="Coming Soon" />}
-            disabled
-            ariaLabel="Player script generation settings (coming soon)"
-          />
-
           {/* Night Order Toggle with Background Settings */}
           <SettingsSelectorBase
             ref={backgroundPanel.containerRef}
@@ -560,9 +620,83 @@ export function NightOrderView({ enableDragDrop = true, onEditCharacter }: Night
           >
             {renderBackgroundPanel()}
           </SettingsSelectorBase>
+
+          {/* Player-count variant (e.g. Teensyville) */}
+          <SettingsSelectorBase
+            preview={
+              <PreviewBox shape="square" size="medium">
+                <span style={{ fontSize: '1.5rem' }}>✂️</span>
+              </PreviewBox>
+            }
+            info={
+              <InfoSection
+                label="Script Variant"
+                summary={
+                  scriptVariant.canCreate ? 'Teensyville or smaller cut' : 'Open a saved project'
+                }
+              />
+            }
+            actionLabel="Build"
+            onAction={() => setIsVariantModalOpen(true)}
+            disabled={!scriptVariant.canCreate}
+            ariaLabel="Build a script variant for fewer players"
+          />
+
+          {/* Parent link of a variant project */}
+          {scriptVariant.parentLink && (
+            <SettingsSelectorBase
+              preview={
+                <PreviewBox shape="square" size="medium">
+                  <span style={{ fontSize: '1.5rem' }}>🔗</span>
+                </PreviewBox>
+              }
+              info={
+                <InfoSection
+                  label={`Variant of ${scriptVariant.parentLink.parentName}`}
+                  summary={
+                    scriptVariant.isPulling
+                      ? 'Pulling changes...'
+                      : scriptVariant.parentStatus === 'missing'
+                        ? 'Parent project deleted'
+                        : scriptVariant.parentStatus === 'changed'
+                          ? 'Parent changed since this variant was built'
+                          : `${scriptVariant.parentLink.playerCount}-player cut`
+                  }
+                />
+              }
+              actionLabel="Pull changes"
+              onAction={() => setIsPullConfirmOpen(true)}
+              disabled={scriptVariant.parentStatus === 'missing' || scriptVariant.isPulling}
+              ariaLabel="Pull changes from the parent project"
+            />
+          )}
+
+          {/* Balance & Composition Analysis */}
+          <ScriptAnalysisPanel characters={enabledCharacters} />
         </div>
       </ViewLayout.Panel>
 
+      <ScriptVariantModal
+        isOpen={isVariantModalOpen}
+        onClose={() => setIsVariantModalOpen(false)}
+        characters={characters}
+        scriptName={displayMeta?.name || 'Custom Script'}
+        isCreating={scriptVariant.isCreating}
+        error={scriptVariant.error}
+        onCreate={handleCreateVariant}
+      />
+
+      <ConfirmDialog
+        isOpen={isPullConfirmOpen}
+        onClose={() => setIsPullConfirmOpen(false)}
+        onConfirm={handlePullFromParent}
+        title="Pull Changes from Parent"
+        message={`Rebuild this variant from the current script of "${variantParentName}"?`}
+        warning="Local changes to the variant's script and characters will be replaced. Decoratives, locked token looks and custom icons set on the variant are kept."
+        confirmText="Pull changes"
+        loading={scriptVariant.isPulling}
+      />
+
       {/* Print Preview Area */}
       <ViewLayout.Panel position="right" width="flex" scrollable className={styles.previewArea}>
         {!generateNightOrder ? (
@@ -589,7 +723,7 @@ export function NightOrderView({ enableDragDrop = true, onEditCharacter }: Night
                   ref={firstNightRef}
                   type="first"
                   entries={firstNight.entries}
-                  characters={characters}
+                  characters={localizedCharacters}
                   scriptMeta={displayMeta}
                   enableDragDrop={enableDragDrop}
                   onMoveEntry={handleMoveFirstNight}
@@ -607,7 +741,7 @@ export function NightOrderView({ enableDragDrop = true, onEditCharacter }: Night
                   ref={otherNightRef}
                   type="other"
                   entries={otherNight.entries}
-                  characters={characters}
+                  characters={localizedCharacters}
                   scriptMeta={displayMeta}
                   enableDragDrop={enableDragDrop}
                   onMoveEntry={handleMoveOtherNight}
@@ -617,6 +751,19 @@ export function NightOrderView({ enableDragDrop = true, onEditCharacter }: Night
                 />
               </div>
             </div>
+
+            {/* Jinxes Page */}
+            {jinxes.length > 0 && (
+              <div className={styles.pageWrapper}>
+                <div className={styles.page}>
+                  <JinxSheet
+                    jinxes={jinxes}
+                    scriptMeta={displayMeta}
+                    background={displayBackground}
+                  />
+                </div>
+              </div>
+            )}
           </div>
         )}
       </ViewLayout.Panel>
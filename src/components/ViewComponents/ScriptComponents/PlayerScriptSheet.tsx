@@ -0,0 +1,124 @@
+/**
+ * Player Script Sheet Component
+ *
+ * On-screen preview of the player script PDF: logo, title and author header,
+ * characters grouped by team in SAO order (two columns per team) and the
+ * jinxes between characters on the script. Uses the same grouping as
+ * playerScriptPdfLib so the preview matches the download.
+ */
+
+import { forwardRef, useMemo } from 'react';
+import { useCharacterImageResolver } from '@/hooks';
+import styles from '@/styles/components/script/PlayerScriptSheet.module.css';
+import type { JinxPair } from '@/ts/data/jinxUtils.js';
+import { getTeamColor } from '@/ts/nightOrder/nightOrderUtils.js';
+import { groupCharactersByTeam, TEAM_SECTION_TITLES } from '@/ts/nightOrder/playerScriptPdfLib.js';
+import type { Character, ScriptMeta } from '@/ts/types/index.js';
+
+interface PlayerScriptSheetProps {
+  /** Characters printed on the script (usually the enabled characters) */
+  characters: Character[];
+  scriptMeta?: ScriptMeta | null;
+  /** Jinx pairs for the trailing jinx section (omitted when empty) */
+  jinxes: JinxPair[];
+  /** Show the script logo in the header when available */
+  includeLogo?: boolean;
+}
+
+/**
+ * Character icon, or an empty slot while it resolves
+ */
+function CharacterIcon({ character, url }: { character: Character; url: string | undefined }) {
+  return (
+    <div className={styles.iconContainer}>
+      {url && <img src={url} alt={character.name} className={styles.icon} />}
+    </div>
+  );
+}
+
+export const PlayerScriptSheet = forwardRef<HTMLDivElement, PlayerScriptSheetProps>(
+  function PlayerScriptSheet({ characters, scriptMeta, jinxes, includeLogo = true }, ref) {
+    const sections = useMemo(() => groupCharactersByTeam(characters), [characters]);
+
+    // Jinx pairs can name characters the sections already resolve; resolve each once
+    const iconCharacters = useMemo(() => {
+      const unique = new Map<string, Character>();
+      for (const character of characters) {
+        unique.set(character.uuid || character.id, character);
+      }
+      for (const pair of jinxes) {
+        unique.set(pair.character.uuid || pair.character.id, pair.character);
+        unique.set(pair.target.uuid || pair.target.id, pair.target);
+      }
+      return Array.from(unique.values());
+    }, [characters, jinxes]);
+
+    const { resolvedUrls } = useCharacterImageResolver({ characters: iconCharacters });
+
+    const logo = includeLogo ? scriptMeta?.logo : undefined;
+
+    return (
+      <div ref={ref} className={styles.sheet}>
+        <header className={styles.header}>
+          {logo && <img src={logo} alt="" className={styles.logo} />}
+          <div className={styles.headerText}>
+            <h2 className={styles.title}>{scriptMeta?.name || 'Custom Script'}</h2>
+            {scriptMeta?.author && <span className={styles.author}>by {scriptMeta.author}</span>}
+          </div>
+        </header>
+
+        {sections.map((section) => (
+          <section key={section.team} className={styles.section}>
+            <h3 className={styles.sectionTitle}>{TEAM_SECTION_TITLES[section.team]}</h3>
+            <div className={styles.characterGrid}>
+              {section.characters.map((character) => (
+                <div key={character.uuid || character.id} className={styles.entry}>
+                  <CharacterIcon
+                    character={character}
+                    url={resolvedUrls.get(character.uuid || '')}
+                  />
+                  <div className={styles.content}>
+                    <div className={styles.name} style={{ color: getTeamColor(character.team) }}>
+                      {character.name}
+                    </div>
+                    <div className={styles.ability}>{character.ability}</div>
+                  </div>
+                </div>
+              ))}
+            </div>
+          </section>
+        ))}
+
+        {jinxes.length > 0 && (
+          <section className={styles.section}>
+            <h3 className={`${styles.sectionTitle} ${styles.jinxTitle}`}>Jinxes</h3>
+            {jinxes.map((pair) => (
+              <div key={`${pair.character.id}-${pair.target.id}`} className={styles.entry}>
+                <CharacterIcon
+                  character={pair.character}
+                  url={resolvedUrls.get(pair.character.uuid || '')}
+                />
+                <CharacterIcon
+                  character={pair.target}
+                  url={resolvedUrls.get(pair.target.uuid || '')}
+                />
+                <div className={styles.content}>
+                  <div className={styles.name}>
+                    <span style={{ color: getTeamColor(pair.character.team) }}>
+                      {pair.character.name}
+                    </span>
+                    {' & '}
+                    <span style={{ color: getTeamColor(pair.target.team) }}>
+                      {pair.target.name}
+                    </span>
+                  </div>
+                  <div className={styles.ability}>{pair.reason}</div>
+                </div>
+              </div>
+            ))}
+          </section>
+        )}
+      </div>
+    );
+  }
+);
@@ -0,0 +1,184 @@
+/**
+ * Player Script View Component
+ *
+ * Player Script sub-tab of the Script view: a preview of the player-facing
+ * handout (characters by team in SAO order, jinxes) with a sidebar to pick
+ * what is printed and download the PDF.
+ */
+
+import { useEffect, useMemo, useState } from 'react';
+import { ViewLayout } from '@/components/Layout/ViewLayout';
+import {
+  EnableToggle,
+  InfoSection,
+  PreviewBox,
+  SettingsSelectorBase,
+} from '@/components/Shared/Selectors/SettingsSelectorBase';
+import { type DownloadItem, useDownloadsContext } from '@/contexts/DownloadsContext';
+import { useTokenContext } from '@/contexts/TokenContext';
+import { usePlayerScriptDownload } from '@/hooks';
+import layoutStyles from '@/styles/components/layout/ViewLayout.module.css';
+import styles from '@/styles/components/script/NightOrderView.module.css';
+import sheetStyles from '@/styles/components/script/PlayerScriptSheet.module.css';
+import { getScriptJinxes } from '@/ts/data/jinxUtils.js';
+import { PlayerScriptSheet } from './PlayerScriptSheet';
+import { type ScriptSubTab, ScriptTabNavigation } from './ScriptTabNavigation';
+
+interface PlayerScriptViewProps {
+  /** Active sub-tab */
+  activeTab: ScriptSubTab;
+  /** Callback when tab changes */
+  onTabChange: (tab: ScriptSubTab) => void;
+}
+
+export function PlayerScriptView({ activeTab, onTabChange }: PlayerScriptViewProps) {
+  const { scriptMeta } = useTokenContext();
+  const { setDownloads, clearDownloads } = useDownloadsContext();
+
+  // What the PDF prints (mirrors PlayerScriptPdfOptions)
+  const [includeJinxes, setIncludeJinxes] = useState(true);
+  const [includeLogo, setIncludeLogo] = useState(true);
+
+  // The preview shows the characters the PDF prints, in the active language
+  const {
+    characters,
+    isExporting,
+    download: handleExport,
+  } = usePlayerScriptDownload({ includeJinxes, includeLogo });
+  const jinxes = useMemo(() => getScriptJinxes(characters), [characters]);
+
+  // Register downloads for this view
+  useEffect(() => {
+    const downloads: DownloadItem[] = [
+      {
+        id: 'player-script-pdf',
+        icon: '📜',
+        label: 'Player Script PDF',
+        description: `${characters.length} characters by team`,
+        action: handleExport,
+        disabled: characters.length === 0 || isExporting,
+        disabledReason: isExporting ? 'Export in progress...' : 'Load a script first',
+        category: 'script',
+        sourceView: 'script',
+      },
+    ];
+
+    setDownloads(downloads);
+    return () => clearDownloads();
+  }, [characters.length, isExporting, handleExport, setDownloads, clearDownloads]);
+
+  const hasNoData = characters.length === 0;
+
+  return (
+    <ViewLayout variant="2-panel">
+      {/* Sidebar */}
+      <ViewLayout.Panel position="left" width="left" scrollable>
+        <ScriptTabNavigation activeTab={activeTab} onTabChange={onTabChange} />
+        <div className={layoutStyles.panelContent}>
+          {/* Download */}
+          <SettingsSelectorBase
+            preview={
+              <PreviewBox shape="square" size="medium">
+                <span style={{ fontSize: '1.5rem' }}>📜</span>
+              </PreviewBox>
+            }
+            info={
+              <InfoSection
+                label="Player Script PDF"
+                summary={
+                  isExporting
+                    ? 'Exporting...'
+                    : hasNoData
+                      ? 'No characters'
+                      : `${characters.length} characters`
+                }
+              />
+            }
+            actionLabel="Download"
+            onAction={handleExport}
+            disabled={hasNoData || isExporting}
+            ariaLabel="Download player script PDF"
+          />
+
+          {/* Jinx section */}
+          <SettingsSelectorBase
+            preview={
+              <PreviewBox shape="square" size="medium">
+                <span style={{ fontSize: '1.5rem' }}>⚡</span>
+              </PreviewBox>
+            }
+            info={
+              <InfoSection
+                label="Jinxes"
+                summary={
+                  !includeJinxes
+                    ? 'Not printed'
+                    : jinxes.length > 0
+                      ? `${jinxes.length} jinxes`
+                      : 'None on this script'
+                }
+              />
+            }
+            headerSlot={<EnableToggle enabled={includeJinxes} onChange={setIncludeJinxes} />}
+            ariaLabel="Print jinxes on the player script"
+          />
+
+          {/* Logo */}
+          <SettingsSelectorBase
+            preview={
+              <PreviewBox shape="square" size="medium">
+                {scriptMeta?.logo ? (
+                  <img
+                    src={scriptMeta.logo}
+                    alt=""
+                    style={{ width: '100%', height: '100%', objectFit: 'contain' }}
+                  />
+                ) : (
+                  <span style={{ fontSize: '1.5rem' }}>🖼️</span>
+                )}
+              </PreviewBox>
+            }
+            info={
+              <InfoSection
+                label="Logo"
+                summary={
+                  scriptMeta?.logo ? (includeLogo ? 'In header' : 'Hidden') : 'No script logo'
+                }
+              />
+            }
+            headerSlot={<EnableToggle enabled={includeLogo} onChange={setIncludeLogo} />}
+            disabled={!scriptMeta?.logo}
+            ariaLabel="Print the script logo on the player script"
+          />
+        </div>
+      </ViewLayout.Panel>
+
+      {/* Print Preview Area */}
+      <ViewLayout.Panel position="right" width="flex" scrollable className={styles.previewArea}>
+        {hasNoData ? (
+          <div className={styles.emptyState}>
+            <div className={styles.emptyIcon}>📜</div>
+            <h3>No Player Script Available</h3>
+            <p>Load a script in the Editor tab to preview the player script.</p>
+            <p className={styles.hint}>
+              The player script lists every character by team, with their abilities and jinxes.
+            </p>
+          </div>
+        ) : (
+          <div className={styles.sheetsContainer}>
+            <div className={styles.pageWrapper}>
+              <div className={sheetStyles.page}>
+                <PlayerScriptSheet
+                  characters={characters}
+                  scriptMeta={scriptMeta}
+                  jinxes={includeJinxes ? jinxes : []}
+                  includeLogo={includeLogo}
+                />
+              </div>
+            </div>
+          </div>
+        )}
+      </ViewLayout.Panel>
+    </ViewLayout>
+  );
+}
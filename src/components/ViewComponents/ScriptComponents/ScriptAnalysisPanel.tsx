@@ -0,0 +1,150 @@
+/**
+ * Script Analysis Panel Component
+ *
+ * Sidebar checklist for script design: team composition against the usual
+ * 13/4/4/4, warnings, SAO ability categories, setup modifiers and night load.
+ *
+ * @module components/ScriptComponents/ScriptAnalysisPanel
+ */
+
+import { memo, useMemo } from 'react';
+import layoutStyles from '@/styles/components/layout/ViewLayout.module.css';
+import styles from '@/styles/components/script/ScriptAnalysisPanel.module.css';
+import { TEAM_LABELS } from '@/ts/constants.js';
+import { analyzeScript } from '@/ts/data/scriptAnalyzer.js';
+import type { Character } from '@/ts/types/index.js';
+
+interface ScriptAnalysisPanelProps {
+  /** Characters to analyze (usually the enabled characters) */
+  characters: Character[];
+}
+
+/**
+ * Comma-separated character names
+ */
+function joinNames(characters: Character[]): string {
+  return characters.map((c) => c.name).join(', ');
+}
+
+export const ScriptAnalysisPanel = memo(function ScriptAnalysisPanel({
+  characters,
+}: ScriptAnalysisPanelProps) {
+  const analysis = useMemo(() => analyzeScript(characters), [characters]);
+
+  if (characters.length === 0) {
+    return null;
+  }
+
+  const { composition, extraTeamCounts, warnings, nightLoad } = analysis;
+  const extraTeams = (Object.keys(extraTeamCounts) as Array<keyof typeof extraTeamCounts>).filter(
+    (team) => extraTeamCounts[team] > 0
+  );
+
+  return (
+    <>
+      {/* Composition + Warnings */}
+      <details className={layoutStyles.sidebarCard} open>
+        <summary className={layoutStyles.sectionHeader}>Balance</summary>
+        <div className={layoutStyles.optionSection}>
+          <ul className={styles.compositionList}>
+            {composition.map((row) => (
+              <li key={row.team} className={styles.compositionRow}>
+                <span className={styles.teamName}>{TEAM_LABELS[row.team]}</span>
+                <span className={styles.bar}>
+                  <span
+                    className={styles.barFill}
+                    style={{
+                      width: `${Math.min(100, (row.count / row.expected) * 100)}%`,
+                      backgroundColor: `var(--team-${row.team})`,
+                    }}
+                  />
+                </span>
+                <span
+                  className={`${styles.teamCount} ${row.difference !== 0 ? styles.offTarget : ''}`}
+                >
+                  {row.count}/{row.expected}
+                </span>
+              </li>
+            ))}
+          </ul>
+
+          {extraTeams.length > 0 && (
+            <p className={styles.hint}>
+              {extraTeams
+                .map((team) => `${TEAM_LABELS[team]}: ${extraTeamCounts[team]}`)
+                .join(' · ')}
+            </p>
+          )}
+
+          {warnings.length > 0 ? (
+            <ul className={styles.warningList}>
+              {warnings.map((warning) => (
+                <li
+                  key={warning.id}
+                  className={warning.level === 'warning' ? styles.warning : styles.info}
+                >
+                  {warning.level === 'warning' ? '⚠️' : 'ℹ️'} {warning.message}
+                </li>
+              ))}
+            </ul>
+          ) : (
+            <p className={styles.hint}>✓ No composition concerns</p>
+          )}
+        </div>
+      </details>
+
+      {/* Ability Categories */}
+      <details className={layoutStyles.sidebarCard}>
+        <summary className={layoutStyles.sectionHeader}>Ability Categories</summary>
+        <div className={layoutStyles.optionSection}>
+          <ul className={styles.categoryList}>
+            {analysis.abilityCategories.map((category) => (
+              <li key={category.prefix} title={joinNames(category.characters)}>
+                <span className={styles.categoryName}>{category.prefix}…</span>
+                <span className={styles.categoryCount}>{category.characters.length}</span>
+              </li>
+            ))}
+            {analysis.uncategorized.length > 0 && (
+              <li title={joinNames(analysis.uncategorized)}>
+                <span className={styles.categoryName}>Other</span>
+                <span className={styles.categoryCount}>{analysis.uncategorized.length}</span>
+              </li>
+            )}
+          </ul>
+        </div>
+      </details>
+
+      {/* Setup Modifiers + Night Load */}
+      <details className={layoutStyles.sidebarCard}>
+        <summary className={layoutStyles.sectionHeader}>Setup &amp; Night Load</summary>
+        <div className={layoutStyles.optionSection}>
+          {analysis.setupModifiers.length > 0 ? (
+            <ul className={styles.categoryList}>
+              {analysis.setupModifiers.map((modifier) => (
+                <li key={`${modifier.character.id}-${modifier.text}`}>
+                  <span className={styles.categoryName}>{modifier.character.name}</span>
+                  <span className={styles.modifierText}>[{modifier.text}]</span>
+                </li>
+              ))}
+            </ul>
+          ) : (
+            <p className={styles.hint}>No setup modifiers</p>
+          )}
+
+          <ul className={styles.categoryList}>
+            <li title={joinNames(nightLoad.firstNight)}>
+              <span className={styles.categoryName}>🌙 First night</span>
+              <span className={styles.categoryCount}>{nightLoad.firstNight.length}</span>
+            </li>
+            <li title={joinNames(nightLoad.otherNight)}>
+              <span className={styles.categoryName}>🌘 Other nights</span>
+              <span className={styles.categoryCount}>{nightLoad.otherNight.length}</span>
+            </li>
+          </ul>
+        </div>
+      </details>
+    </>
+  );
+});
+
+export default ScriptAnalysisPanel;
@@ -1,10 +1,10 @@
 /**
  * Script Tab Navigation
  *
- * Sub-tab navigation within the Script view.
- * Currently supports:
- * - Night Order (active)
- * - Player Script (placeholder for future)
+ * Sub-tab navigation within the Script view, shown at the top of each
+ * sub-tab's sidebar:
+ * - Night Order
+ * - Player Script
  */
 
 import styles from '@/styles/components/script/ScriptTabNavigation.module.css';
@@ -34,8 +34,6 @@ const TABS: TabConfig[] = [
     id: 'player-script',
     label: 'Player Script',
     icon: '📜',
-    disabled: true,
-    comingSoon: true,
   },
 ];
 
@@ -1,13 +1,18 @@
 /**
  * Script Components
  *
- * Components for the Script tab, including Night Order sheets.
+ * Components for the Script tab, including Night Order sheets and the
+ * Player Script preview.
  */
 
+export { JinxSheet } from './JinxSheet';
 export { NightOrderEntry } from './NightOrderEntry';
 export { NightOrderView } from './NightOrderView';
 export type { NightSheetType } from './NightSheet';
 export { NightSheet } from './NightSheet';
+export { PlayerScriptSheet } from './PlayerScriptSheet';
+export { PlayerScriptView } from './PlayerScriptView';
+export { ScriptAnalysisPanel } from './ScriptAnalysisPanel';
 export type { ScriptSubTab } from './ScriptTabNavigation';
 export { ScriptTabNavigation } from './ScriptTabNavigation';
 export { SortableNightOrderEntry } from './SortableNightOrderEntry';
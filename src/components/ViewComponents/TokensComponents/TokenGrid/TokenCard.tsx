@@ -4,6 +4,7 @@ import { ContextMenu } from '@/components/Shared/UI/ContextMenu';
 import { useContextMenu, useIntersectionObserver } from '@/hooks';
 import styles from '@/styles/components/tokens/TokenCard.module.css';
 import { TEAM_LABELS } from '@/ts/config.js';
+import { getTextFitStatus } from '@/ts/generation/textFit.js';
 import type { Team, Token } from '@/ts/types/index.js';
 
 /** Type for requestIdleCallback (non-standard but widely supported) */
@@ -18,6 +19,25 @@ interface WindowWithIdleCallback {
   ) => number;
 }
 
+/** Badge label and tooltip per text fit outcome */
+const TEXT_FIT_BADGES = {
+  shrunk: {
+    label: 'Shrunk',
+    title: 'Text was set smaller to fit',
+    className: styles.textFitShrunk,
+  },
+  truncated: {
+    label: 'Truncated',
+    title: 'Text was too long and was cut short',
+    className: styles.textFitTruncated,
+  },
+  overflowing: {
+    label: 'Overflow',
+    title: 'Text runs past the safe area of the token',
+    className: styles.textFitOverflowing,
+  },
+} as const;
+
 // Module-level cache for data URLs - persists across tab switches
 // Key: token filename, Value: data URL
 const dataUrlCache = new Map<string, string>();
@@ -45,6 +65,13 @@ export function clearDataUrlCache(): void {
   dataUrlCache.clear();
 }
 
+// Drop cached data URLs for tokens re-rendered by an incremental regeneration
+export function clearDataUrlCacheFor(filenames: Iterable<string>): void {
+  for (const filename of filenames) {
+    dataUrlCache.delete(filename);
+  }
+}
+
 // Pre-render data URLs for ALL tokens in background chunks
 // Uses requestIdleCallback to avoid blocking the UI
 let isPreRenderingGallery = false;
@@ -107,6 +134,8 @@ interface TokenCardProps {
   onEditInStudio?: (token: Token) => void; // Navigate to Studio with token image
   onDownload?: (token: Token) => void; // Download single token as PNG
   onClearOverrides?: (token: Token) => void; // Clear decorative overrides for this token's character
+  onToggleLock?: (token: Token) => void; // Lock or unlock the token's current look (seed)
+  onReroll?: (token: Token) => void; // Redraw just this token's look with a new seed
 }
 
 // Map team names to CSS Module class names
@@ -124,20 +153,25 @@ const teamClassMap: Record<string, string> = {
 
 /**
  * Custom comparison function for React.memo
- * Only re-render if the token's filename changes (indicates a new/different token)
- * or if the onCardClick handler changes
+ * Only re-render if the token's filename or seed changes (indicates a new/different
+ * token or a rerolled look) or if the onCardClick handler changes
  */
 function arePropsEqual(prevProps: TokenCardProps, nextProps: TokenCardProps): boolean {
   return (
     prevProps.token.filename === nextProps.token.filename &&
     prevProps.count === nextProps.count &&
+    getTextFitStatus(prevProps.token.textFit) === getTextFitStatus(nextProps.token.textFit) &&
     prevProps.variants?.length === nextProps.variants?.length &&
     prevProps.onCardClick === nextProps.onCardClick &&
     prevProps.onSetAsExample === nextProps.onSetAsExample &&
     prevProps.onDelete === nextProps.onDelete &&
     prevProps.onEditInStudio === nextProps.onEditInStudio &&
     prevProps.onDownload === nextProps.onDownload &&
-    prevProps.onClearOverrides === nextProps.onClearOverrides
+    prevProps.token.seed === nextProps.token.seed &&
+    prevProps.token.isSeedLocked === nextProps.token.isSeedLocked &&
+    prevProps.onClearOverrides === nextProps.onClearOverrides &&
+    prevProps.onToggleLock === nextProps.onToggleLock &&
+    prevProps.onReroll === nextProps.onReroll
   );
 }
 
@@ -151,6 +185,8 @@ function TokenCardComponent({
   onEditInStudio,
   onDownload,
   onClearOverrides,
+  onToggleLock,
+  onReroll,
 }: TokenCardProps) {
   const [isLoading, setIsLoading] = useState(true);
   const [hasRendered, setHasRendered] = useState(false);
@@ -232,7 +268,15 @@ function TokenCardComponent({
   };
 
   const handleContextMenu = (e: React.MouseEvent) => {
-    if (onSetAsExample || onDelete || onEditInStudio || onDownload || onClearOverrides) {
+    if (
+      onSetAsExample ||
+      onDelete ||
+      onEditInStudio ||
+      onDownload ||
+      onClearOverrides ||
+      onToggleLock ||
+      onReroll
+    ) {
       contextMenu.onContextMenu(e);
     }
   };
@@ -284,8 +328,33 @@ function TokenCardComponent({
       });
     }
 
+    // Lock or reroll the look (only tokens generated with a seed)
+    if (onToggleLock && displayToken.seed !== undefined) {
+      items.push({
+        icon: displayToken.isSeedLocked ? '🔓' : '🔒',
+        label: displayToken.isSeedLocked ? 'Unlock Look' : 'Lock Look',
+        onClick: () => onToggleLock(displayToken),
+      });
+    }
+    if (onReroll && displayToken.seed !== undefined) {
+      items.push({
+        icon: '🎲',
+        label: 'Reroll Look',
+        onClick: () => onReroll(displayToken),
+      });
+    }
+
     return items;
-  }, [onSetAsExample, onDelete, onEditInStudio, onDownload, onClearOverrides, displayToken]);
+  }, [
+    onSetAsExample,
+    onDelete,
+    onEditInStudio,
+    onDownload,
+    onClearOverrides,
+    onToggleLock,
+    onReroll,
+    displayToken,
+  ]);
 
   // Get team display name for character, reminder, and meta tokens
   const getTeamDisplay = () => {
@@ -324,6 +393,7 @@ function TokenCardComponent({
   };
 
   const teamClass = getTeamClass();
+  const textFitStatus = getTextFitStatus(displayToken.textFit);
 
   return (
     <>
@@ -368,6 +438,19 @@ function TokenCardComponent({
                   Customized
                 </span>
               )}
+              {displayToken.isSeedLocked && (
+                <span className={styles.locked} title="Look is locked to its seed">
+                  Locked
+                </span>
+              )}
+              {textFitStatus && (
+                <span
+                  className={`${styles.textFit} ${TEXT_FIT_BADGES[textFitStatus].className}`}
+                  title={`${TEXT_FIT_BADGES[textFitStatus].title} (${Math.round((displayToken.textFit?.fontScale ?? 1) * 100)}% size)`}
+                >
+                  {TEXT_FIT_BADGES[textFitStatus].label}
+                </span>
+              )}
             </div>
           </div>
         </div>
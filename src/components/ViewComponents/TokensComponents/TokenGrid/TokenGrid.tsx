@@ -1,14 +1,20 @@
-import { useCallback, useMemo } from 'react';
+import { useCallback, useEffect, useMemo, useState } from 'react';
 import type { TabType } from '@/components/Layout/TabNavigation';
 import { ConfirmDialog } from '@/components/Shared/ModalBase/ConfirmDialog';
 import { useToast } from '@/contexts/ToastContext';
 import { useTokenContext } from '@/contexts/TokenContext';
-import { useStudioNavigation, useTokenDeletion, useTokenGrouping } from '@/hooks';
+import {
+  useStudioNavigation,
+  useTokenDeletion,
+  useTokenGenerator,
+  useTokenGrouping,
+} from '@/hooks';
 import styles from '@/styles/components/tokens/TokenGrid.module.css';
-import { buildTokenMetadata, embedPngMetadata } from '@/ts/export/pngMetadata';
+import { downloadTokenPNG } from '@/ts/export/pngExporter';
+import { getTokenSeedKeyForToken } from '@/ts/generation/tokenSeeds';
 import type { Token } from '@/ts/types/index.js';
-import { canvasToBlob, downloadFile } from '@/ts/utils/imageUtils';
 import { logger } from '@/ts/utils/logger';
+import { createRandomSeed } from '@/ts/utils/seededRandom';
 import { TokenCard } from './TokenCard';
 
 interface TokenGridProps {
@@ -42,8 +48,9 @@ export function TokenGrid({
     getMetadata,
   } = useTokenContext();
   const { addToast } = useToast();
+  const { generateTokens } = useTokenGenerator();
 
-  // Derive current isOfficial and hasDecorativeOverrides from character state
+  // Derive current isOfficial, hasDecorativeOverrides and isSeedLocked from character state
   // This ensures tags update when character properties change without regeneration
   const enrichedTokens = useMemo(() => {
     const tokensToEnrich = propTokens ?? contextTokens;
@@ -59,11 +66,14 @@ export function TokenGrid({
       const metadata = getMetadata(token.parentUuid);
       const currentIsOfficial = character.source === 'official';
       const currentHasDecorativeOverrides = metadata?.decoratives?.useCustomSettings ?? false;
+      const seedKey = getTokenSeedKeyForToken(token);
+      const currentIsSeedLocked = seedKey !== null && metadata?.tokenSeeds?.[seedKey] !== undefined;
 
       // Only create new object if values changed
       if (
         token.isOfficial === currentIsOfficial &&
-        token.hasDecorativeOverrides === currentHasDecorativeOverrides
+        token.hasDecorativeOverrides === currentHasDecorativeOverrides &&
+        (token.isSeedLocked ?? false) === currentIsSeedLocked
       ) {
         return token;
       }
@@ -72,6 +82,7 @@ export function TokenGrid({
         ...token,
         isOfficial: currentIsOfficial,
         hasDecorativeOverrides: currentHasDecorativeOverrides,
+        isSeedLocked: currentIsSeedLocked,
       };
     });
   }, [propTokens, contextTokens, characters, getMetadata]);
@@ -91,16 +102,8 @@ export function TokenGrid({
   const handleDownloadToken = useCallback(
     async (token: Token) => {
       try {
-        let blob = await canvasToBlob(token.canvas);
-
-        // Embed metadata if enabled in settings
-        if (generationOptions.pngSettings?.embedMetadata) {
-          const metadata = buildTokenMetadata(token);
-          blob = await embedPngMetadata(blob, metadata);
-        }
-
-        const filename = `${token.filename}.png`;
-        downloadFile(blob, filename);
+        // Embeds metadata or writes SVG according to the PNG settings
+        await downloadTokenPNG(token, generationOptions.pngSettings);
         addToast(`Downloaded ${token.name}`, 'success');
       } catch (error) {
         logger.error('TokenGrid', 'Failed to download token', error);
@@ -128,6 +131,56 @@ export function TokenGrid({
     [setMetadata, addToast]
   );
 
+  // Regenerate once a seed change has reached the metadata the generator reads
+  const [regeneratePending, setRegeneratePending] = useState(false);
+  useEffect(() => {
+    if (!regeneratePending) return;
+    setRegeneratePending(false);
+    generateTokens();
+  }, [regeneratePending, generateTokens]);
+
+  // Lock a token's current look (store its seed) or unlock it (back to the master seed)
+  const handleToggleLock = useCallback(
+    (token: Token) => {
+      const seedKey = getTokenSeedKeyForToken(token);
+      if (!token.parentUuid || seedKey === null || token.seed === undefined) {
+        addToast('Cannot lock this token', 'error');
+        return;
+      }
+
+      const tokenSeeds = { ...getMetadata(token.parentUuid)?.tokenSeeds };
+      if (token.isSeedLocked) {
+        delete tokenSeeds[seedKey];
+        setMetadata(token.parentUuid, { tokenSeeds });
+        // A rerolled token goes back to its master-seed look
+        setRegeneratePending(true);
+        addToast(`Unlocked look of ${token.name}`, 'success');
+      } else {
+        tokenSeeds[seedKey] = token.seed;
+        setMetadata(token.parentUuid, { tokenSeeds });
+        addToast(`Locked look of ${token.name}`, 'success');
+      }
+    },
+    [getMetadata, setMetadata, addToast]
+  );
+
+  // Give just this token a new look (the new seed is stored, so it stays locked)
+  const handleReroll = useCallback(
+    (token: Token) => {
+      const seedKey = getTokenSeedKeyForToken(token);
+      if (!token.parentUuid || seedKey === null) {
+        addToast('Cannot reroll this token', 'error');
+        return;
+      }
+
+      setMetadata(token.parentUuid, {
+        tokenSeeds: { ...getMetadata(token.parentUuid)?.tokenSeeds, [seedKey]: createRandomSeed() },
+      });
+      setRegeneratePending(true);
+    },
+    [getMetadata, setMetadata, addToast]
+  );
+
   // Use custom hooks for token management
   const deletion = useTokenDeletion({
     tokens: allTokens,
@@ -187,6 +240,8 @@ export function TokenGrid({
                     onEditInStudio={readOnly ? undefined : studioNav.editInStudio}
                     onDownload={readOnly ? undefined : handleDownloadToken}
                     onClearOverrides={readOnly ? undefined : handleClearOverrides}
+                    onToggleLock={readOnly ? undefined : handleToggleLock}
+                    onReroll={readOnly ? undefined : handleReroll}
                   />
                 ))}
               </div>
@@ -210,6 +265,8 @@ export function TokenGrid({
                     onDelete={readOnly ? undefined : deletion.handleDeleteRequest}
                     onDownload={readOnly ? undefined : handleDownloadToken}
                     onClearOverrides={readOnly ? undefined : handleClearOverrides}
+                    onToggleLock={readOnly ? undefined : handleToggleLock}
+                    onReroll={readOnly ? undefined : handleReroll}
                   />
                 ))}
               </div>
@@ -4,6 +4,7 @@ import { useTokenGenerator } from '@/hooks';
 import styles from '@/styles/components/tokens/TokenPreviewRow.module.css';
 import { CONFIG } from '@/ts/config.js';
 import { calculateTokenCounts, getBestPreviewCharacter } from '@/ts/data/characterUtils';
+import { localizeCharacters } from '@/ts/data/localization.js';
 import { TokenGenerator } from '@/ts/generation/index.js';
 import type { Character, GenerationOptions, ScriptMeta, Token } from '@/ts/types/index.js';
 import { logger } from '@/ts/utils/logger.js';
@@ -58,8 +59,14 @@ export function TokenPreviewRow({
   const context = useTokenContext();
   const { generateTokens } = useTokenGenerator();
 
+  // Context characters are shown in the active language, like generated tokens
+  const localizedContextCharacters = useMemo(
+    () => localizeCharacters(context.characters, context.activeLocalizationPack),
+    [context.characters, context.activeLocalizationPack]
+  );
+
   // Use props if provided, otherwise fall back to context
-  const characters = propCharacters ?? context.characters;
+  const characters = propCharacters ?? localizedContextCharacters;
   const tokens = propTokens ?? context.tokens;
   const generationOptions = propGenerationOptions ?? context.generationOptions;
   const scriptMeta = propScriptMeta ?? context.scriptMeta;
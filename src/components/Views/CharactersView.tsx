@@ -9,6 +9,7 @@
 
 import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
 import { ViewLayout } from '@/components/Layout/ViewLayout';
+import { ReminderSyncModal } from '@/components/Modals/ReminderSyncModal';
 import { ErrorBoundary, ViewErrorFallback } from '@/components/Shared';
 import { OfficialCharacterDrawer } from '@/components/Shared/Drawer';
 import { Button } from '@/components/Shared/UI/Button';
@@ -28,8 +29,9 @@ import {
 import previewStyles from '@/styles/components/characterEditor/TokenPreview.module.css';
 import layoutStyles from '@/styles/components/layout/ViewLayout.module.css';
 import styles from '@/styles/components/views/Views.module.css';
+import { addReminders } from '@/ts/data/reminderSync.js';
 import type { Token } from '@/ts/types/index.js';
-import { updateMetaInJson } from '@/ts/ui/detailViewUtils.js';
+import { updateCharacterInJson, updateMetaInJson } from '@/ts/ui/detailViewUtils.js';
 import { logger } from '@/ts/utils/logger.js';
 
 interface CharactersViewProps {
@@ -102,6 +104,7 @@ export function CharactersView({
   );
   const [isMetaSelected, setIsMetaSelected] = useState(!!selectedMetaToken);
   const [isOfficialDrawerOpen, setIsOfficialDrawerOpen] = useState(false);
+  const [isReminderSyncOpen, setIsReminderSyncOpen] = useState(false);
 
   // Track original UUID for character operations
   const originalCharacterUuidRef = useRef<string>(selectedCharacterUuid);
@@ -133,6 +136,7 @@ export function CharactersView({
     editedCharacter,
     generationOptions,
     decoratives: currentDecorative,
+    getMetadata,
     initialToken,
     tokens,
     characters,
@@ -222,6 +226,61 @@ export function CharactersView({
     [applyCachedTokens]
   );
 
+  // Characters for the reminder sync review, including unsaved editor changes
+  const reminderSyncCharacters = useMemo(
+    () =>
+      editedCharacter
+        ? characters.map((c) => (c.uuid === editedCharacter.uuid ? editedCharacter : c))
+        : characters,
+    [characters, editedCharacter]
+  );
+
+  // Add the reminders selected in the sync review to their characters
+  const handleApplyReminderSync = useCallback(
+    (additions: Map<string, string[]>) => {
+      setIsReminderSyncOpen(false);
+      if (additions.size === 0) return;
+
+      try {
+        let updatedJson = jsonInput;
+        let addedCount = 0;
+        const updatedChars = characters.map((char) => {
+          const names = char.uuid ? additions.get(char.uuid) : undefined;
+          if (!names) return char;
+          // The selected character may have unsaved edits in the editor
+          const base =
+            editedCharacter && char.uuid === editedCharacter.uuid ? editedCharacter : char;
+          const updated = addReminders(base, names);
+          addedCount += (updated.reminders?.length ?? 0) - (base.reminders?.length ?? 0);
+          updatedJson = updateCharacterInJson(updatedJson, char.id, updated);
+          if (updated.uuid) invalidateCache(updated.uuid);
+          if (updated.uuid === editedCharacter?.uuid) handleReplaceCharacter(updated);
+          return updated;
+        });
+
+        setJsonInput(updatedJson);
+        setCharacters(updatedChars);
+        addToast(
+          `Added ${addedCount} reminder${addedCount === 1 ? '' : 's'} to ${additions.size} character${additions.size === 1 ? '' : 's'}`,
+          'success'
+        );
+      } catch (e) {
+        logger.error('CharactersView', 'Failed to sync reminders', e);
+        addToast('Failed to sync reminders', 'error');
+      }
+    },
+    [
+      jsonInput,
+      characters,
+      editedCharacter,
+      invalidateCache,
+      handleReplaceCharacter,
+      setJsonInput,
+      setCharacters,
+      addToast,
+    ]
+  );
+
   // Handle meta token selection
   const handleSelectMetaToken = useCallback((token: Token) => {
     setSelectedMetaToken(token);
@@ -253,6 +312,7 @@ export function CharactersView({
             onSelectCharacter={handleSelectCharacter}
             onAddCharacter={handleAddCharacter}
             onAddOfficialCharacter={() => setIsOfficialDrawerOpen(true)}
+            onSyncReminders={() => setIsReminderSyncOpen(true)}
             onDeleteCharacter={handleDeleteCharacter}
             onDuplicateCharacter={handleDuplicateCharacter}
             onSelectMetaToken={handleSelectMetaToken}
@@ -392,6 +452,14 @@ export function CharactersView({
           isOpen={isOfficialDrawerOpen}
           onClose={() => setIsOfficialDrawerOpen(false)}
         />
+
+        {/* Reminder Sync Review */}
+        <ReminderSyncModal
+          isOpen={isReminderSyncOpen}
+          onClose={() => setIsReminderSyncOpen(false)}
+          characters={reminderSyncCharacters}
+          onApply={handleApplyReminderSync}
+        />
       </ViewLayout>
     </ErrorBoundary>
   );
@@ -24,8 +24,14 @@ import layoutStyles from '@/styles/components/layout/ViewLayout.module.css';
 import baseStyles from '@/styles/components/shared/SettingsSelectorBase.module.css';
 import exportStyles from '@/styles/components/views/ExportView.module.css';
 import styles from '@/styles/components/views/Views.module.css';
-import { UI_DIMENSIONS } from '@/ts/constants.js';
-import type { CompressionLevel, ZipExportOptions } from '@/ts/types/index';
+import { ROLE_CARD_SIZES, UI_DIMENSIONS } from '@/ts/constants.js';
+import type {
+  CompressionLevel,
+  RoleCardSize,
+  TokenBackStyle,
+  TokenImageFormat,
+  ZipExportOptions,
+} from '@/ts/types/index';
 import { BLEED_CONFIG, PDF_OFFSET_CONFIG } from '@/ts/utils/measurementUtils';
 
 const DEFAULT_ZIP_SETTINGS: ZipExportOptions = {
@@ -40,6 +46,7 @@ const DEFAULT_ZIP_SETTINGS: ZipExportOptions = {
 interface PngSettings {
   embedMetadata: boolean;
   transparentBackground: boolean;
+  format: TokenImageFormat;
 }
 
 interface ZipSettings {
@@ -57,6 +64,48 @@ interface PdfSettings {
   imageQuality: number;
 }
 
+interface BackFaceSettings {
+  characterBack: TokenBackStyle;
+  reminderBack: TokenBackStyle;
+  metaBack: TokenBackStyle;
+  imageUrl: string;
+  duplexXOffset: number;
+  duplexYOffset: number;
+}
+
+const DEFAULT_BACK_FACE_SETTINGS: BackFaceSettings = {
+  characterBack: 'none',
+  reminderBack: 'none',
+  metaBack: 'none',
+  imageUrl: '',
+  duplexXOffset: 0,
+  duplexYOffset: 0,
+};
+
+interface RoleCardSettings {
+  size: RoleCardSize;
+  flavorText: boolean;
+}
+
+const DEFAULT_ROLE_CARD_SETTINGS: RoleCardSettings = {
+  size: 'poker',
+  flavorText: true,
+};
+
+const BACK_STYLE_OPTIONS: { value: TokenBackStyle; label: string }[] = [
+  { value: 'none', label: 'None (single-sided)' },
+  { value: 'logo', label: 'Script logo' },
+  { value: 'team', label: 'Team color' },
+  { value: 'ability', label: 'Ability text' },
+  { value: 'image', label: 'Custom image' },
+];
+
+const BACK_FACE_TYPES: { key: 'characterBack' | 'reminderBack' | 'metaBack'; label: string }[] = [
+  { key: 'characterBack', label: 'Character Tokens' },
+  { key: 'reminderBack', label: 'Reminder Tokens' },
+  { key: 'metaBack', label: 'Meta Tokens' },
+];
+
 export function ExportView() {
   const {
     generationOptions,
@@ -107,6 +156,7 @@ export function ExportView() {
     () => ({
       embedMetadata: generationOptions.pngSettings?.embedMetadata ?? false,
       transparentBackground: generationOptions.pngSettings?.transparentBackground ?? false,
+      format: generationOptions.pngSettings?.format ?? 'png',
     }),
     [generationOptions.pngSettings]
   );
@@ -134,6 +184,36 @@ export function ExportView() {
     ]
   );
 
+  const currentBackSettings: BackFaceSettings = useMemo(
+    () => ({
+      characterBack: generationOptions.characterBack?.style ?? 'none',
+      reminderBack: generationOptions.reminderBack?.style ?? 'none',
+      metaBack: generationOptions.metaBack?.style ?? 'none',
+      imageUrl:
+        generationOptions.characterBack?.imageUrl ??
+        generationOptions.reminderBack?.imageUrl ??
+        generationOptions.metaBack?.imageUrl ??
+        '',
+      duplexXOffset: generationOptions.pdfDuplexXOffset ?? 0,
+      duplexYOffset: generationOptions.pdfDuplexYOffset ?? 0,
+    }),
+    [
+      generationOptions.characterBack,
+      generationOptions.reminderBack,
+      generationOptions.metaBack,
+      generationOptions.pdfDuplexXOffset,
+      generationOptions.pdfDuplexYOffset,
+    ]
+  );
+
+  const currentRoleCardSettings: RoleCardSettings = useMemo(
+    () => ({
+      size: generationOptions.roleCardSize ?? 'poker',
+      flavorText: generationOptions.roleCardFlavorText ?? true,
+    }),
+    [generationOptions.roleCardSize, generationOptions.roleCardFlavorText]
+  );
+
   // Panel handlers
   const handlePngChange = useCallback(
     (settings: PngSettings) => {
@@ -141,6 +221,7 @@ export function ExportView() {
         pngSettings: {
           embedMetadata: settings.embedMetadata,
           transparentBackground: settings.transparentBackground,
+          format: settings.format,
         },
       });
     },
@@ -168,12 +249,36 @@ export function ExportView() {
     [updateGenerationOptions]
   );
 
+  const handleBackChange = useCallback(
+    (settings: BackFaceSettings) => {
+      const imageUrl = settings.imageUrl.trim() || undefined;
+      updateGenerationOptions({
+        characterBack: { style: settings.characterBack, imageUrl },
+        reminderBack: { style: settings.reminderBack, imageUrl },
+        metaBack: { style: settings.metaBack, imageUrl },
+        pdfDuplexXOffset: settings.duplexXOffset,
+        pdfDuplexYOffset: settings.duplexYOffset,
+      });
+    },
+    [updateGenerationOptions]
+  );
+
+  const handleRoleCardChange = useCallback(
+    (settings: RoleCardSettings) => {
+      updateGenerationOptions({
+        roleCardSize: settings.size,
+        roleCardFlavorText: settings.flavorText,
+      });
+    },
+    [updateGenerationOptions]
+  );
+
   // Use expandable panel hook for each settings box
   const pngPanel = useExpandablePanel<PngSettings>({
     value: currentPngSettings,
     onChange: handlePngChange,
     onPreviewChange: handlePngChange,
-    panelHeight: 180,
+    panelHeight: 230,
     minPanelWidth: UI_DIMENSIONS.MIN_PANEL_WIDTH,
   });
 
@@ -193,10 +298,26 @@ export function ExportView() {
     minPanelWidth: 420,
   });
 
+  const backPanel = useExpandablePanel<BackFaceSettings>({
+    value: currentBackSettings,
+    onChange: handleBackChange,
+    onPreviewChange: handleBackChange,
+    panelHeight: 260,
+    minPanelWidth: 420,
+  });
+
+  const roleCardPanel = useExpandablePanel<RoleCardSettings>({
+    value: currentRoleCardSettings,
+    onChange: handleRoleCardChange,
+    onPreviewChange: handleRoleCardChange,
+    panelHeight: 170,
+    minPanelWidth: UI_DIMENSIONS.MIN_PANEL_WIDTH,
+  });
+
   // Summary helper functions
   const getPngSummary = () => {
     const settings = pngPanel.isExpanded ? pngPanel.pendingValue : currentPngSettings;
-    const parts: string[] = [];
+    const parts: string[] = [settings.format === 'svg' ? 'SVG' : 'PNG'];
     if (settings.embedMetadata) parts.push('Metadata');
     if (settings.transparentBackground) parts.push('Transparent');
     else parts.push('Opaque');
@@ -223,6 +344,21 @@ export function ExportView() {
     return `${quality}% quality`;
   };
 
+  const getBackSummary = () => {
+    const settings = backPanel.isExpanded ? backPanel.pendingValue : currentBackSettings;
+    const sided = BACK_FACE_TYPES.filter(({ key }) => settings[key] !== 'none');
+    if (sided.length === 0) return 'Single-sided';
+    return `Double-sided (${sided.map(({ label }) => label.split(' ')[0]).join(', ')})`;
+  };
+
+  const getRoleCardSummary = () => {
+    const settings = roleCardPanel.isExpanded
+      ? roleCardPanel.pendingValue
+      : currentRoleCardSettings;
+    const sizeLabel = settings.size === 'tarot' ? 'Tarot' : 'Poker';
+    return settings.flavorText ? `${sizeLabel}, flavor text` : sizeLabel;
+  };
+
   // Render PNG Settings Panel
   const renderPngPanel = () => {
     if (!(pngPanel.isExpanded && pngPanel.panelPosition)) return null;
@@ -245,6 +381,22 @@ export function ExportView() {
         style={panelStyle}
       >
         <div className={baseStyles.panelContent}>
+          <OptionGroup
+            label="Format"
+            helpText="SVG keeps names and ability text as live text for print shops and vinyl cutters"
+          >
+            <select
+              className={exportStyles.selectInput}
+              value={pngPanel.pendingValue.format}
+              onChange={(e) =>
+                pngPanel.updatePendingField('format', e.target.value as TokenImageFormat)
+              }
+            >
+              <option value="png">PNG</option>
+              <option value="svg">SVG (vector text)</option>
+            </select>
+          </OptionGroup>
+
           <OptionGroup
             label="Embed Metadata"
             helpText="Include character info (name, team, ability) in PNG file metadata"
@@ -276,7 +428,9 @@ export function ExportView() {
           <button
             type="button"
             className={baseStyles.resetLink}
-            onClick={() => pngPanel.reset({ embedMetadata: false, transparentBackground: false })}
+            onClick={() =>
+              pngPanel.reset({ embedMetadata: false, transparentBackground: false, format: 'png' })
+            }
           >
             Reset
           </button>
@@ -503,6 +657,200 @@ export function ExportView() {
     );
   };
 
+  // Render Back Faces Panel
+  const renderBackPanel = () => {
+    if (!(backPanel.isExpanded && backPanel.panelPosition)) return null;
+
+    const panelStyle: React.CSSProperties = {
+      position: 'fixed',
+      top: backPanel.panelPosition.openUpward ? 'auto' : backPanel.panelPosition.top,
+      bottom: backPanel.panelPosition.openUpward
+        ? window.innerHeight - backPanel.panelPosition.top
+        : 'auto',
+      left: backPanel.panelPosition.left,
+      width: backPanel.panelPosition.width,
+      zIndex: 10000,
+    };
+
+    const usesImage = BACK_FACE_TYPES.some(({ key }) => backPanel.pendingValue[key] === 'image');
+
+    return createPortal(
+      <div
+        ref={backPanel.panelRef}
+        className={`${baseStyles.panel} ${backPanel.panelPosition.openUpward ? baseStyles.panelUpward : ''}`}
+        style={panelStyle}
+      >
+        <div className={exportStyles.twoPanelLayout}>
+          {/* Left Panel: Back face per token type */}
+          <div className={exportStyles.leftPanel}>
+            <div className={exportStyles.panelTitle}>Back Faces</div>
+            {BACK_FACE_TYPES.map(({ key, label }) => (
+              <div key={key} className={exportStyles.selectRow}>
+                <label htmlFor={`back-face-${key}`} className={exportStyles.selectLabel}>
+                  {label}
+                </label>
+                <select
+                  id={`back-face-${key}`}
+                  className={exportStyles.selectInput}
+                  value={backPanel.pendingValue[key]}
+                  onChange={(e) =>
+                    backPanel.updatePendingField(key, e.target.value as TokenBackStyle)
+                  }
+                >
+                  {BACK_STYLE_OPTIONS.map((option) => (
+                    <option key={option.value} value={option.value}>
+                      {option.label}
+                    </option>
+                  ))}
+                </select>
+              </div>
+            ))}
+            {usesImage && (
+              <div className={exportStyles.selectRow}>
+                <label htmlFor="back-face-image" className={exportStyles.selectLabel}>
+                  Custom Image URL
+                </label>
+                <input
+                  id="back-face-image"
+                  type="text"
+                  className={exportStyles.textInput}
+                  value={backPanel.pendingValue.imageUrl}
+                  onChange={(e) => backPanel.updatePendingField('imageUrl', e.target.value)}
+                  placeholder="https://… or asset:…"
+                />
+              </div>
+            )}
+          </div>
+
+          {/* Right Panel: Duplex calibration */}
+          <div className={exportStyles.rightPanel}>
+            <div className={exportStyles.panelTitle}>Duplex Calibration</div>
+            <div className={exportStyles.sliderGroup}>
+              <MeasurementSlider
+                label="Back X Offset"
+                value={backPanel.pendingValue.duplexXOffset}
+                onChange={(value) => backPanel.updatePendingField('duplexXOffset', value)}
+                config={PDF_OFFSET_CONFIG}
+                displayUnit={generationOptions.measurementUnit || 'inches'}
+                ariaLabel="Back page X offset value"
+              />
+            </div>
+            <div className={exportStyles.sliderGroup}>
+              <MeasurementSlider
+                label="Back Y Offset"
+                value={backPanel.pendingValue.duplexYOffset}
+                onChange={(value) => backPanel.updatePendingField('duplexYOffset', value)}
+                config={PDF_OFFSET_CONFIG}
+                displayUnit={generationOptions.measurementUnit || 'inches'}
+                ariaLabel="Back page Y offset value"
+              />
+            </div>
+          </div>
+        </div>
+
+        <div className={baseStyles.panelFooter}>
+          <button
+            type="button"
+            className={baseStyles.resetLink}
+            onClick={() => backPanel.reset(DEFAULT_BACK_FACE_SETTINGS)}
+          >
+            Reset
+          </button>
+          <div className={baseStyles.panelActions}>
+            <button type="button" className={baseStyles.cancelButton} onClick={backPanel.cancel}>
+              Cancel
+            </button>
+            <button type="button" className={baseStyles.confirmButton} onClick={backPanel.apply}>
+              Apply
+            </button>
+          </div>
+        </div>
+      </div>,
+      document.body
+    );
+  };
+
+  // Render Role Card Settings Panel
+  const renderRoleCardPanel = () => {
+    if (!(roleCardPanel.isExpanded && roleCardPanel.panelPosition)) return null;
+
+    const panelStyle: React.CSSProperties = {
+      position: 'fixed',
+      top: roleCardPanel.panelPosition.openUpward ? 'auto' : roleCardPanel.panelPosition.top,
+      bottom: roleCardPanel.panelPosition.openUpward
+        ? window.innerHeight - roleCardPanel.panelPosition.top
+        : 'auto',
+      left: roleCardPanel.panelPosition.left,
+      width: roleCardPanel.panelPosition.width,
+      zIndex: 10000,
+    };
+
+    return createPortal(
+      <div
+        ref={roleCardPanel.panelRef}
+        className={`${baseStyles.panel} ${roleCardPanel.panelPosition.openUpward ? baseStyles.panelUpward : ''}`}
+        style={panelStyle}
+      >
+        <div className={baseStyles.panelContent}>
+          <OptionGroup label="Card Size" helpText="Portrait card size for the PNGs and PDF sheet">
+            <select
+              className={exportStyles.selectInput}
+              value={roleCardPanel.pendingValue.size}
+              onChange={(e) =>
+                roleCardPanel.updatePendingField('size', e.target.value as RoleCardSize)
+              }
+            >
+              {(Object.keys(ROLE_CARD_SIZES) as RoleCardSize[]).map((size) => (
+                <option key={size} value={size}>
+                  {ROLE_CARD_SIZES[size].label}
+                </option>
+              ))}
+            </select>
+          </OptionGroup>
+
+          <OptionGroup
+            label="Flavor Text"
+            helpText="Print the character's flavor quote at the bottom of the card"
+          >
+            <input
+              type="checkbox"
+              className={styles.toggleSwitch}
+              checked={roleCardPanel.pendingValue.flavorText}
+              onChange={(e) => roleCardPanel.updatePendingField('flavorText', e.target.checked)}
+            />
+          </OptionGroup>
+        </div>
+
+        <div className={baseStyles.panelFooter}>
+          <button
+            type="button"
+            className={baseStyles.resetLink}
+            onClick={() => roleCardPanel.reset(DEFAULT_ROLE_CARD_SETTINGS)}
+          >
+            Reset
+          </button>
+          <div className={baseStyles.panelActions}>
+            <button
+              type="button"
+              className={baseStyles.cancelButton}
+              onClick={roleCardPanel.cancel}
+            >
+              Cancel
+            </button>
+            <button
+              type="button"
+              className={baseStyles.confirmButton}
+              onClick={roleCardPanel.apply}
+            >
+              Apply
+            </button>
+          </div>
+        </div>
+      </div>,
+      document.body
+    );
+  };
+
   return (
     <ErrorBoundary
       fallbackRender={({ error, resetErrorBoundary }) => (
@@ -566,6 +914,42 @@ export function ExportView() {
             >
               {renderPdfPanel()}
             </SettingsSelectorBase>
+
+            {/* Back Faces (double-sided PDF) */}
+            <SettingsSelectorBase
+              ref={backPanel.containerRef}
+              preview={
+                <PreviewBox shape="square" size="medium">
+                  <span style={{ fontSize: '1.5rem' }}>2×</span>
+                </PreviewBox>
+              }
+              info={<InfoSection label="Back Faces" summary={getBackSummary()} />}
+              actionLabel="Customize"
+              onAction={backPanel.toggle}
+              isExpanded={backPanel.isExpanded}
+              ariaLabel="Token back face settings"
+              onKeyDown={backPanel.handleKeyDown}
+            >
+              {renderBackPanel()}
+            </SettingsSelectorBase>
+
+            {/* Role Cards */}
+            <SettingsSelectorBase
+              ref={roleCardPanel.containerRef}
+              preview={
+                <PreviewBox shape="square" size="medium">
+                  <span style={{ fontSize: '1.5rem' }}>🃏</span>
+                </PreviewBox>
+              }
+              info={<InfoSection label="Role Cards" summary={getRoleCardSummary()} />}
+              actionLabel="Customize"
+              onAction={roleCardPanel.toggle}
+              isExpanded={roleCardPanel.isExpanded}
+              ariaLabel="Role card settings"
+              onKeyDown={roleCardPanel.handleKeyDown}
+            >
+              {renderRoleCardPanel()}
+            </SettingsSelectorBase>
           </div>
         </ViewLayout.Panel>
 
@@ -10,6 +10,7 @@
 import { useCallback, useEffect, useRef, useState } from 'react';
 import { ViewLayout } from '@/components/Layout/ViewLayout';
 import { ErrorBoundary, ViewErrorFallback } from '@/components/Shared';
+import { Textarea } from '@/components/Shared/Form';
 import { CodeMirrorEditor, type EditorControls } from '@/components/Shared/Json/CodeMirrorEditor';
 import { Button } from '@/components/Shared/UI/Button';
 import { ScriptMessagesBar } from '@/components/ViewComponents/JsonComponents';
@@ -21,8 +22,12 @@ import layoutStyles from '@/styles/components/layout/ViewLayout.module.css';
 import styles from '@/styles/components/views/Views.module.css';
 import CONFIG from '@/ts/config.js';
 import { TIMING } from '@/ts/constants.js';
+import { isJsonText } from '@/ts/data/scriptTextImporter.js';
 import { logger } from '@/ts/utils/logger.js';
 
+/** Extensions accepted by the upload button and drop area */
+const LIST_FILE_PATTERN = /\.(?:txt|csv|md|markdown)$/i;
+
 interface JsonViewProps {
   onGenerate?: () => void;
 }
@@ -37,6 +42,8 @@ export function JsonView({ onGenerate }: JsonViewProps) {
     setError,
     warnings,
     setWarnings,
+    characterSuggestions,
+    setCharacterSuggestions,
     scriptMeta,
   } = useTokenContext();
   const { currentProject } = useProjectContext();
@@ -47,6 +54,8 @@ export function JsonView({ onGenerate }: JsonViewProps) {
     addMetaToScript,
     hasSeparatorsInIds,
     removeSeparatorsFromIds,
+    applyCharacterSuggestion,
+    importScriptFromList,
     updateScript,
   } = useScriptData();
   const { generateTokens } = useTokenGenerator();
@@ -54,6 +63,7 @@ export function JsonView({ onGenerate }: JsonViewProps) {
   // Local state
   const [isDragging, setIsDragging] = useState(false);
   const [selectedExample, setSelectedExample] = useState('');
+  const [listText, setListText] = useState('');
   const [forceRegenerate, setForceRegenerate] = useState(0);
 
   // Refs
@@ -171,20 +181,38 @@ export function JsonView({ onGenerate }: JsonViewProps) {
       setJsonInput(newValue);
       setError(null);
       setWarnings([]);
+      setCharacterSuggestions([]);
     },
-    [setJsonInput, setError, setWarnings]
+    [setJsonInput, setError, setWarnings, setCharacterSuggestions]
   );
 
   const handleFileUpload = useCallback(
     async (file: File) => {
       isExternalChangeRef.current = true;
       const text = await file.text();
-      await updateScript(text, 'upload');
+      // Character lists (.txt/.csv/.md) go through the list importer
+      if (LIST_FILE_PATTERN.test(file.name) && !isJsonText(text)) {
+        await importScriptFromList(text);
+      } else {
+        await updateScript(text, 'upload');
+      }
       previousJsonRef.current = '';
     },
-    [updateScript]
+    [updateScript, importScriptFromList]
   );
 
+  const handleImportList = useCallback(async () => {
+    if (!listText.trim()) return;
+    isExternalChangeRef.current = true;
+    if (isJsonText(listText)) {
+      await updateScript(listText, 'upload');
+      setListText('');
+    } else if (await importScriptFromList(listText)) {
+      setListText('');
+    }
+    previousJsonRef.current = '';
+  }, [listText, updateScript, importScriptFromList]);
+
   // Drag and drop handlers
   const handleDragOver = useCallback((e: React.DragEvent) => {
     e.preventDefault();
@@ -201,7 +229,7 @@ export function JsonView({ onGenerate }: JsonViewProps) {
       e.preventDefault();
       setIsDragging(false);
       const file = e.dataTransfer.files[0];
-      if (file && file.type === 'application/json') {
+      if (file && (file.type === 'application/json' || LIST_FILE_PATTERN.test(file.name))) {
         await handleFileUpload(file);
       }
     },
@@ -264,12 +292,13 @@ export function JsonView({ onGenerate }: JsonViewProps) {
               <summary className={layoutStyles.sectionHeader}>Upload Script</summary>
               <div className={layoutStyles.optionSection}>
                 <p className={styles.leftPanelDesc}>
-                  Import a script JSON file from your computer.
+                  Import a script JSON file, or a character list (.txt, .csv, .md), from your
+                  computer.
                 </p>
                 <input
                   type="file"
                   ref={fileInputRef}
-                  accept=".json"
+                  accept=".json,.txt,.csv,.md"
                   onChange={(e) => e.target.files?.[0] && handleFileUpload(e.target.files[0])}
                   style={{ display: 'none' }}
                 />
@@ -279,6 +308,36 @@ export function JsonView({ onGenerate }: JsonViewProps) {
               </div>
             </details>
 
+            {/* Import Character List */}
+            <details className={layoutStyles.sidebarCard}>
+              <summary className={layoutStyles.sectionHeader}>Import List</summary>
+              <div className={layoutStyles.optionSection}>
+                <p className={styles.leftPanelDesc}>
+                  Paste character names (one per line, comma separated, or a Markdown table). An
+                  optional first line sets the script title.
+                </p>
+                <Textarea
+                  value={listText}
+                  onChange={(e) => setListText(e.target.value)}
+                  placeholder={
+                    'Trouble Brewing by Steven Medway\nTownsfolk:\nWasherwoman\nFortune Teller'
+                  }
+                  size="small"
+                  fullWidth
+                  rows={6}
+                />
+                <Button
+                  variant="secondary"
+                  fullWidth
+                  onClick={handleImportList}
+                  disabled={!listText.trim()}
+                  style={{ marginTop: '0.5rem' }}
+                >
+                  Import List
+                </Button>
+              </div>
+            </details>
+
             {/* Load Example Script */}
             <details className={layoutStyles.sidebarCard} open>
               <summary className={layoutStyles.sectionHeader}>Example Scripts</summary>
@@ -328,6 +387,7 @@ export function JsonView({ onGenerate }: JsonViewProps) {
                 onChange={handleTextareaChange}
                 placeholder="Paste your Blood on the Clocktower script JSON here, or drag and drop a .json file..."
                 minHeight="100%"
+                lintScriptSchema
                 onEditorReady={(controls) => {
                   editorControlsRef.current = controls;
                 }}
@@ -343,6 +403,7 @@ export function JsonView({ onGenerate }: JsonViewProps) {
             <ScriptMessagesBar
               error={error}
               warnings={warnings}
+              characterSuggestions={characterSuggestions}
               characterCount={characters.length}
               hasScriptMeta={!!scriptMeta}
               hasSeparatorsInIds={hasSeparatorsInIds()}
@@ -356,6 +417,7 @@ export function JsonView({ onGenerate }: JsonViewProps) {
               onFixFormats={handleFixFormats}
               onAddMeta={() => addMetaToScript()}
               onRemoveSeparators={removeSeparatorsFromIds}
+              onApplySuggestion={applyCharacterSuggestion}
             />
           </div>
         </ViewLayout.Panel>
@@ -11,6 +11,7 @@ import { DeleteProjectModal } from '@/components/Modals/DeleteProjectModal';
 import { ExportProjectModal } from '@/components/Modals/ExportProjectModal';
 import { IconManagementModal } from '@/components/Modals/IconManagementModal';
 import { ImportProjectModal } from '@/components/Modals/ImportProjectModal';
+import { RandomScriptModal } from '@/components/Modals/RandomScriptModal';
 import { ErrorBoundary, ViewErrorFallback } from '@/components/Shared';
 import { ProjectEditor } from '@/components/ViewComponents/ProjectsComponents/ProjectEditor';
 import { ProjectNavigation } from '@/components/ViewComponents/ProjectsComponents/ProjectNavigation';
@@ -72,6 +73,7 @@ export function ProjectsView({ initialProjectId }: ProjectsViewProps) {
   const [exportModalOpen, setExportModalOpen] = useState(false);
   const [projectToExport, setProjectToExport] = useState<Project | null>(null);
   const [importModalOpen, setImportModalOpen] = useState(false);
+  const [randomScriptModalOpen, setRandomScriptModalOpen] = useState(false);
   const [iconManagementModalOpen, setIconManagementModalOpen] = useState(false);
 
   // Handlers
@@ -109,6 +111,19 @@ export function ProjectsView({ initialProjectId }: ProjectsViewProps) {
     setImportModalOpen(true);
   }, []);
 
+  const handleRandomizeProject = useCallback(() => {
+    setRandomScriptModalOpen(true);
+  }, []);
+
+  const handleRandomScriptCreated = useCallback(
+    (project: Project) => {
+      setRandomScriptModalOpen(false);
+      setSelectedProject(project);
+      addToast(`Random script "${project.name}" created!`, 'success');
+    },
+    [addToast]
+  );
+
   const handleIconManagement = useCallback(() => {
     if (!currentProject) {
       alert('Please create or activate a project first to manage custom icons');
@@ -213,6 +228,7 @@ export function ProjectsView({ initialProjectId }: ProjectsViewProps) {
             onSelectProject={handleSelectProject}
             onCreateProject={handleCreateProject}
             onImportProject={handleImportProject}
+            onRandomizeProject={handleRandomizeProject}
             onIconManagement={handleIconManagement}
             onDeleteProject={handleDeleteProject}
           />
@@ -256,6 +272,11 @@ export function ProjectsView({ initialProjectId }: ProjectsViewProps) {
         onClose={() => setImportModalOpen(false)}
         onImport={handleImportSuccess}
       />
+      <RandomScriptModal
+        isOpen={randomScriptModalOpen}
+        onClose={() => setRandomScriptModalOpen(false)}
+        onCreated={handleRandomScriptCreated}
+      />
       {currentProject && (
         <IconManagementModal
           isOpen={iconManagementModalOpen}
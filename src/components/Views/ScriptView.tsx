@@ -4,7 +4,7 @@
  * Main view for the Script tab.
  * Contains sub-tabs for different script-related features:
  * - Night Order: View and customize night order sheets
- * - Player Script: (Coming soon) Player-facing script view
+ * - Player Script: Preview and download the player-facing script PDF
  *
  * Note: NightOrderProvider is now at the app root level (App.tsx)
  * and auto-initializes from TokenContext.
@@ -13,6 +13,7 @@
 import { useState } from 'react';
 import { ErrorBoundary, ViewErrorFallback } from '@/components/Shared';
 import { NightOrderView } from '@/components/ViewComponents/ScriptComponents/NightOrderView';
+import { PlayerScriptView } from '@/components/ViewComponents/ScriptComponents/PlayerScriptView';
 import type { ScriptSubTab } from '@/components/ViewComponents/ScriptComponents/ScriptTabNavigation';
 
 interface ScriptViewProps {
@@ -35,7 +36,9 @@ export function ScriptView({ onEditCharacter }: ScriptViewProps) {
           onTabChange={setActiveSubTab}
           onEditCharacter={onEditCharacter}
         />
-      ) : null}
+      ) : (
+        <PlayerScriptView activeTab={activeSubTab} onTabChange={setActiveSubTab} />
+      )}
     </ErrorBoundary>
   );
 }
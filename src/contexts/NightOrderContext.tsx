@@ -17,6 +17,7 @@ import {
 } from 'react';
 import { useTokenContext } from '@/contexts/TokenContext';
 import { tabPreRenderService } from '@/ts/cache/index.js';
+import { localizeCharacters } from '@/ts/data/localization.js';
 import { extractScriptMeta } from '@/ts/data/scriptParser.js';
 import type {
   NightOrderContextValue,
@@ -102,8 +103,16 @@ function getInitialState(scriptData?: ScriptEntry[]): {
  * or locally with initialScriptData prop.
  */
 export function NightOrderProvider({ children, initialScriptData }: NightOrderProviderProps) {
-  // Get characters from TokenContext for auto-initialization
-  const { characters, scriptMeta: tokenScriptMeta } = useTokenContext();
+  // Get characters from TokenContext for auto-initialization (in the active language)
+  const {
+    characters: sourceCharacters,
+    scriptMeta: tokenScriptMeta,
+    activeLocalizationPack,
+  } = useTokenContext();
+  const characters = useMemo(
+    () => localizeCharacters(sourceCharacters, activeLocalizationPack),
+    [sourceCharacters, activeLocalizationPack]
+  );
 
   // Initialize state - use cache if available for instant display
   const initial = useMemo(() => getInitialState(initialScriptData), [initialScriptData]);
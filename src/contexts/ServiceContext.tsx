@@ -188,9 +188,8 @@ export function useProjectExporter(): () => IProjectExporter {
 /**
  * Factory hook for creating ProjectImporter instances
  *
- * Returns a function that creates new ProjectImporter instances.
- * Although ProjectImporter has no service dependencies currently,
- * using a factory hook maintains consistency and allows future DI.
+ * Returns a function that creates new ProjectImporter instances with
+ * properly injected dependencies from the service context.
  *
  * @example
  * ```tsx
@@ -200,5 +199,9 @@ export function useProjectExporter(): () => IProjectExporter {
  * ```
  */
 export function useProjectImporter(): () => IProjectImporter {
-  return useCallback(() => new ProjectImporter(), []);
+  const fileUploadService = useFileUploadService();
+  return useCallback(
+    () => new ProjectImporter({ fileUpload: fileUploadService }),
+    [fileUploadService]
+  );
 }
@@ -1,8 +1,11 @@
 import { createContext, type ReactNode, useCallback, useContext, useMemo, useState } from 'react';
+import type { CharacterSuggestion } from '@/ts/data/characterResolver.js';
+import { findLocalizationPack } from '@/ts/data/localization.js';
 import type {
   Character,
   CharacterMetadata,
   GenerationOptions,
+  LocalizationPack,
   ScriptMeta,
   SyncStatus,
   Token,
@@ -55,6 +58,11 @@ interface TokenContextType {
   generationOptions: GenerationOptions;
   updateGenerationOptions: (options: Partial<GenerationOptions>) => void;
 
+  // Localization packs (generationOptions.locale selects the active one)
+  localizationPacks: LocalizationPack[];
+  setLocalizationPacks: (packs: LocalizationPack[]) => void;
+  activeLocalizationPack: LocalizationPack | undefined;
+
   // JSON input
   jsonInput: string;
   setJsonInput: (json: string) => void;
@@ -91,6 +99,10 @@ interface TokenContextType {
   warnings: string[];
   setWarnings: (warnings: string[]) => void;
 
+  // "Did you mean" suggestions for name/variant/misspelled character references
+  characterSuggestions: CharacterSuggestion[];
+  setCharacterSuggestions: (suggestions: CharacterSuggestion[]) => void;
+
   // Generation progress
   generationProgress: { current: number; total: number } | null;
   setGenerationProgress: (progress: { current: number; total: number } | null) => void;
@@ -123,6 +135,7 @@ export function TokenProvider({ children }: TokenProviderProps) {
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [warnings, setWarnings] = useState<string[]>([]);
+  const [characterSuggestions, setCharacterSuggestions] = useState<CharacterSuggestion[]>([]);
   const [generationProgress, setGenerationProgress] = useState<{
     current: number;
     total: number;
@@ -238,6 +251,13 @@ export function TokenProvider({ children }: TokenProviderProps) {
     DEFAULT_GENERATION_OPTIONS
   );
 
+  const [localizationPacks, setLocalizationPacks] = useState<LocalizationPack[]>([]);
+
+  const activeLocalizationPack = useMemo(
+    () => findLocalizationPack(localizationPacks, generationOptions.locale),
+    [localizationPacks, generationOptions.locale]
+  );
+
   const [filters, setFilters] = useState({
     teams: [] as string[],
     tokenTypes: [] as string[],
@@ -309,6 +329,9 @@ export function TokenProvider({ children }: TokenProviderProps) {
     setScriptMeta,
     generationOptions,
     updateGenerationOptions,
+    localizationPacks,
+    setLocalizationPacks,
+    activeLocalizationPack,
     jsonInput,
     setJsonInput,
     filters,
@@ -325,6 +348,8 @@ export function TokenProvider({ children }: TokenProviderProps) {
     setError,
     warnings,
     setWarnings,
+    characterSuggestions,
+    setCharacterSuggestions,
     generationProgress,
     setGenerationProgress,
     lastGeneratedJsonHash,
@@ -28,6 +28,15 @@ export {
   useBuiltInAssets,
 } from './useBuiltInAssets.js';
 
+// ============================================================================
+// Custom Fonts
+// ============================================================================
+
+export {
+  type UseCustomFontsReturn,
+  useCustomFonts,
+} from './useCustomFonts.js';
+
 // ============================================================================
 // File Upload
 // ============================================================================
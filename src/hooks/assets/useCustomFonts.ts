@@ -0,0 +1,94 @@
+/**
+ * useCustomFonts Hook
+ *
+ * React hook for uploaded fonts. Loads the stored fonts, re-renders when a
+ * font is registered and opens a file picker to upload a new one.
+ *
+ * @module hooks/assets/useCustomFonts
+ *
+ * @example
+ * ```tsx
+ * const { fonts, isUploading, error, uploadFont } = useCustomFonts();
+ *
+ * const handleUpload = async () => {
+ *   const family = await uploadFont();
+ *   if (family) onFontChange(family);
+ * };
+ * ```
+ */
+
+import { useCallback, useEffect, useState } from 'react';
+import { useFileUploadService } from '@/contexts/ServiceContext';
+import type { UploadError, UploadResult } from '@/ts/services/upload/index.js';
+import {
+  type CustomFont,
+  getCustomFonts,
+  getFontAssetFamily,
+  loadCustomFonts,
+  subscribeToCustomFonts,
+} from '@/ts/utils/customFonts.js';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface UseCustomFontsReturn {
+  /** Registered fonts, sorted by family */
+  fonts: CustomFont[];
+  /** Whether an upload is in progress */
+  isUploading: boolean;
+  /** Error from the last upload */
+  error: string | null;
+  /** Pick and upload a font file; resolves with its family, if uploaded */
+  uploadFont: () => Promise<string | undefined>;
+}
+
+// ============================================================================
+// Hook
+// ============================================================================
+
+/**
+ * Hook for listing and uploading custom fonts
+ */
+export function useCustomFonts(): UseCustomFontsReturn {
+  const fileUploadService = useFileUploadService();
+
+  const [fonts, setFonts] = useState<CustomFont[]>(getCustomFonts);
+  const [isUploading, setIsUploading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Load stored fonts and follow new registrations
+  useEffect(() => {
+    const unsubscribe = subscribeToCustomFonts(() => setFonts(getCustomFonts()));
+    loadCustomFonts().then(setFonts);
+    return unsubscribe;
+  }, []);
+
+  const uploadFont = useCallback(async () => {
+    setIsUploading(true);
+    setError(null);
+
+    try {
+      // Fonts go to the global library so every project can use them
+      const results = await fileUploadService.openFilePicker({
+        assetType: 'font',
+        projectId: null,
+      });
+
+      const failed = results.filter((r): r is UploadError => !r.success);
+      if (failed.length > 0) {
+        setError(failed.map((r) => r.error).join('; '));
+      }
+
+      const uploaded = results.find((r): r is UploadResult => r.success);
+      return uploaded ? getFontAssetFamily(uploaded.asset) : undefined;
+    } catch (err) {
+      setError((err as Error).message);
+      return undefined;
+    } finally {
+      setIsUploading(false);
+    }
+  }, [fileUploadService]);
+
+  return { fonts, isUploading, error, uploadFont };
+}
@@ -31,6 +31,7 @@ export function useAutoSaveDetector() {
     characters,
     scriptMeta,
     generationOptions,
+    localizationPacks,
     jsonInput,
     filters,
     characterMetadata,
@@ -59,7 +60,7 @@ export function useAutoSaveDetector() {
 
     // PERFORMANCE OPTIMIZATION: Shallow signature check first
     // This is much faster than JSON.stringify and catches most changes
-    const shallowSignature = `${characters.length}|${tokens.length}|${jsonInput.length}|${filters.teams.join(',')}|${filters.tokenTypes.join(',')}|${characterMetadata.size}`;
+    const shallowSignature = `${characters.length}|${tokens.length}|${jsonInput.length}|${filters.teams.join(',')}|${filters.tokenTypes.join(',')}|${characterMetadata.size}|${localizationPacks.length}|${generationOptions.locale ?? ''}`;
 
     // Quick check: if shallow signature matches, state likely hasn't changed
     if (previousSignatureRef.current === shallowSignature) {
@@ -72,6 +73,7 @@ export function useAutoSaveDetector() {
       characters,
       scriptMeta,
       generationOptions,
+      localizationPacks,
       jsonInput,
       filters,
       characterMetadata: Object.fromEntries(characterMetadata),
@@ -121,6 +123,7 @@ export function useAutoSaveDetector() {
     characters,
     scriptMeta,
     generationOptions,
+    localizationPacks,
     jsonInput,
     filters,
     characterMetadata,
@@ -50,8 +50,15 @@ export function useAutoSaveTrigger(enabled: boolean = true) {
     setCurrentProject,
   } = useProjectContext();
 
-  const { characters, scriptMeta, generationOptions, jsonInput, filters, characterMetadata } =
-    useTokenContext();
+  const {
+    characters,
+    scriptMeta,
+    generationOptions,
+    localizationPacks,
+    jsonInput,
+    filters,
+    characterMetadata,
+  } = useTokenContext();
 
   // Track if we have a pending save
   const pendingSaveRef = useRef(false);
@@ -100,6 +107,7 @@ export function useAutoSaveTrigger(enabled: boolean = true) {
         characterMetadata: Object.fromEntries(characterMetadata),
         generationOptions: { ...generationOptions },
         customIcons: currentProject.state.customIcons || [], // Preserve custom icons
+        localizationPacks,
         filters,
         schemaVersion: 1,
       };
@@ -11,7 +11,13 @@
  */
 
 import { useCallback } from 'react';
-import type { Character, GenerationOptions, Team, Token } from '@/ts/types/index.js';
+import type {
+  Character,
+  CharacterMetadata,
+  GenerationOptions,
+  Team,
+  Token,
+} from '@/ts/types/index.js';
 import { regenerateCharacterAndReminders, updateCharacterInJson } from '@/ts/ui/detailViewUtils.js';
 import { logger } from '@/ts/utils/logger.js';
 
@@ -34,6 +40,8 @@ export interface UseCharacterMetadataOptions {
   setTokens: (tokens: Token[]) => void;
   /** Setter for JSON input */
   setJsonInput: (json: string) => void;
+  /** Get metadata for a character (locked token seeds survive regeneration) */
+  getMetadata: (uuid: string) => CharacterMetadata | undefined;
   /** Currently selected character UUID */
   selectedCharacterUuid: string;
   /** Setter for edited character */
@@ -59,6 +67,7 @@ export function useCharacterMetadata({
   setCharacters,
   setTokens,
   setJsonInput,
+  getMetadata,
   selectedCharacterUuid,
   setEditedCharacter,
   addToast,
@@ -82,7 +91,8 @@ export function useCharacterMetadata({
       }
 
       // Regenerate tokens for this character
-      regenerateCharacterAndReminders(updatedChar, generationOptions)
+      const metadata = char.uuid ? getMetadata(char.uuid) : undefined;
+      regenerateCharacterAndReminders(updatedChar, generationOptions, undefined, metadata)
         .then(({ characterToken, reminderTokens: newReminderTokens }) => {
           const updatedTokens = tokens.filter((t) => {
             if (t.type === 'character' && t.name === char.name) return false;
@@ -112,6 +122,7 @@ export function useCharacterMetadata({
       setCharacters,
       setTokens,
       setJsonInput,
+      getMetadata,
       setEditedCharacter,
       addToast,
     ]
@@ -155,6 +155,7 @@ export function useCharacterOperations({
     setCharacters,
     setTokens,
     setJsonInput,
+    getMetadata,
     selectedCharacterUuid,
     setEditedCharacter,
     addToast,
@@ -11,6 +11,7 @@
  * - Bracket matching
  * - Search and replace (Ctrl+F / Ctrl+H)
  * - JSON syntax highlighting and linting
+ * - Optional script-schema diagnostics with quick fixes
  * - Undo/redo history
  *
  * @module hooks/editors/useCodeMirrorEditor
@@ -26,7 +27,7 @@ import {
 } from '@codemirror/commands';
 import { json, jsonParseLinter } from '@codemirror/lang-json';
 import { bracketMatching, foldGutter, foldKeymap } from '@codemirror/language';
-import { linter, lintGutter } from '@codemirror/lint';
+import { type Diagnostic, linter, lintGutter } from '@codemirror/lint';
 import { highlightSelectionMatches, search, searchKeymap } from '@codemirror/search';
 import { Compartment, EditorState, type Extension } from '@codemirror/state';
 import {
@@ -43,6 +44,7 @@ import {
 } from '@codemirror/view';
 import { useCallback, useEffect, useMemo, useRef } from 'react';
 import { useTheme } from '@/contexts/ThemeContext';
+import { lintScriptJson, type ScriptDiagnostic } from '@/ts/data/scriptLinter.js';
 import { createCodeMirrorTheme } from '@/ts/ui/codemirrorTheme.js';
 
 export interface UseCodeMirrorEditorOptions {
@@ -64,6 +66,8 @@ export interface UseCodeMirrorEditorOptions {
   showLineNumbers?: boolean;
   /** Whether to show fold gutter (default: true) */
   showFoldGutter?: boolean;
+  /** Whether to lint the content against the script schema (default: false) */
+  lintScriptSchema?: boolean;
 }
 
 export interface UseCodeMirrorEditorResult {
@@ -83,12 +87,40 @@ export interface UseCodeMirrorEditorResult {
   openSearch: () => void;
 }
 
+/**
+ * Convert a script linter diagnostic into a CodeMirror diagnostic.
+ * The quick fix only applies to the text it was computed for; if the document
+ * changed since, the action does nothing and the next lint pass replaces it.
+ */
+function toCodeMirrorDiagnostic(diagnostic: ScriptDiagnostic, lintedText: string): Diagnostic {
+  const { fix } = diagnostic;
+  return {
+    from: diagnostic.from,
+    to: diagnostic.to,
+    severity: diagnostic.severity,
+    message: diagnostic.message,
+    source: 'script',
+    actions: fix
+      ? [
+          {
+            name: fix.label,
+            apply: (view) => {
+              if (view.state.doc.toString() !== lintedText) return;
+              view.dispatch({ changes: fix.changes });
+            },
+          },
+        ]
+      : undefined,
+  };
+}
+
 /**
  * Hook for managing a CodeMirror 6 editor with JSON support.
  *
  * Features:
  * - Controlled component pattern (syncs external value)
  * - JSON syntax highlighting and linting
+ * - Script-schema linting with quick fixes (opt-in)
  * - Line numbers with active line highlighting
  * - Fold gutter for collapsing JSON blocks
  * - Bracket matching with visual feedback
@@ -110,6 +142,7 @@ export function useCodeMirrorEditor(
     showLintGutter = true,
     showLineNumbers = true,
     showFoldGutter = true,
+    lintScriptSchema = false,
   } = options;
 
   const containerRef = useRef<HTMLDivElement>(null);
@@ -120,8 +153,10 @@ export function useCodeMirrorEditor(
   // Store callbacks in refs to avoid stale closures in the editor
   const onChangeRef = useRef(onChange);
   const onValidJsonRef = useRef(onValidJson);
+  const lintScriptSchemaRef = useRef(lintScriptSchema);
   onChangeRef.current = onChange;
   onValidJsonRef.current = onValidJson;
+  lintScriptSchemaRef.current = lintScriptSchema;
 
   // Compartments for dynamic reconfiguration
   const themeCompartment = useRef(new Compartment());
@@ -165,7 +200,13 @@ export function useCodeMirrorEditor(
         // Don't lint empty content - no annoying errors when editor is empty
         if (!content) return [];
         // Use the built-in JSON parser for non-empty content
-        return jsonParseLinter()(view);
+        const syntaxDiagnostics = jsonParseLinter()(view);
+        // Schema diagnostics only make sense once the JSON parses
+        if (syntaxDiagnostics.length > 0 || !lintScriptSchemaRef.current) {
+          return syntaxDiagnostics;
+        }
+        const text = view.state.doc.toString();
+        return lintScriptJson(text).map((diagnostic) => toCodeMirrorDiagnostic(diagnostic, text));
       },
       { delay: debounceMs }
     );
@@ -12,5 +12,12 @@ export type { ExportStep } from './useExport';
 export { useExport } from './useExport';
 export type { UseExportDownloadsResult } from './useExportDownloads';
 export { useExportDownloads } from './useExportDownloads';
+export type { PdfTextOptions } from './usePdfTextOptions';
+export { usePdfTextOptions } from './usePdfTextOptions';
+export type {
+  UsePlayerScriptDownloadOptions,
+  UsePlayerScriptDownloadResult,
+} from './usePlayerScriptDownload';
+export { usePlayerScriptDownload } from './usePlayerScriptDownload';
 export type { UseScriptPdfDownloadsOptions } from './useScriptPdfDownloads';
 export { useScriptPdfDownloads } from './useScriptPdfDownloads';
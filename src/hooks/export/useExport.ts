@@ -3,6 +3,7 @@ import { useTokenContext } from '@/contexts/TokenContext';
 import { createCompletePackage } from '@/ts/export/completePackageExporter.js';
 import { PDFGenerator } from '@/ts/export/pdfGenerator.js';
 import { createTokensZip } from '@/ts/export/zipExporter.js';
+import { generateTokenBacks } from '@/ts/generation/batchGenerator.js';
 import type { ProgressCallback } from '@/ts/types/index.js';
 import { downloadFile, getCleanJsonForExport, logger, sanitizeFilename } from '@/ts/utils/index.js';
 
@@ -176,6 +177,10 @@ export function useExport() {
       yOffset: generationOptions.pdfYOffset ?? 0, // Inches
       imageQuality: generationOptions.pdfImageQuality ?? 0.9,
       bleed: generationOptions.pdfBleed ?? 0.125, // Default 1/8" bleed
+      tokenShape: generationOptions.tokenShape,
+      tokenShapePath: generationOptions.tokenShapePath,
+      duplexXOffset: generationOptions.pdfDuplexXOffset ?? 0, // Inches
+      duplexYOffset: generationOptions.pdfDuplexYOffset ?? 0, // Inches
     });
 
     await executeDownload({
@@ -183,15 +188,16 @@ export function useExport() {
       filename: `${getBaseFilename()}.pdf`,
       requiresTokens: true,
       exportFn: async (progressCallback) => {
+        const pdfTokens = await generateTokenBacks(enabledTokens, generationOptions, scriptMeta);
         await pdfGenerator.downloadPDF(
-          enabledTokens,
+          pdfTokens,
           `${getBaseFilename()}.pdf`,
           progressCallback ?? null
         );
         return undefined;
       },
     });
-  }, [enabledTokens, generationOptions, getBaseFilename, executeDownload]);
+  }, [enabledTokens, generationOptions, scriptMeta, getBaseFilename, executeDownload]);
 
   const downloadJson = useCallback(async () => {
     await executeDownload({
@@ -3,6 +3,7 @@
  *
  * Aggregates all available downloads for the ExportView, organized by category.
  * Provides download items for Featured, JSON, Tokens, and Scripts sections.
+ * Also provides the share link (script + custom characters + generation options).
  *
  * @module hooks/export/useExportDownloads
  */
@@ -10,14 +11,21 @@
 import { useCallback, useMemo, useState } from 'react';
 import type { BundleData, DownloadItem } from '@/contexts/DownloadsContext';
 import { useNightOrder } from '@/contexts/NightOrderContext';
+import { useToast } from '@/contexts/ToastContext';
 import { useTokenContext } from '@/contexts/TokenContext';
 import { useExport } from '@/hooks';
+import { getScriptJinxes } from '@/ts/data/jinxUtils.js';
+import { localizeCharacters } from '@/ts/data/localization.js';
+import { createRoleCardSheetPdf, createRoleCardsZip } from '@/ts/export/roleCardExporter.js';
 import { createTokensZip, isMetaToken } from '@/ts/export/zipExporter.js';
+import { generateRoleCards } from '@/ts/generation/batchGenerator.js';
 import { downloadNightOrderPdf } from '@/ts/nightOrder/nightOrderPdfLib.js';
-import type { Token } from '@/ts/types/index.js';
+import type { ScriptEntry, Token } from '@/ts/types/index.js';
 import { canvasToBlob, downloadFile } from '@/ts/utils/imageUtils.js';
 import { logger } from '@/ts/utils/logger.js';
-import { getOfficialScriptToolUrl } from '@/ts/utils/scriptEncoder.js';
+import { getOfficialScriptToolUrl, getShareUrl } from '@/ts/utils/scriptEncoder.js';
+import { usePdfTextOptions } from './usePdfTextOptions';
+import { usePlayerScriptDownload } from './usePlayerScriptDownload';
 
 export interface UseExportDownloadsResult {
   /** All download items */
@@ -26,7 +34,7 @@ export interface UseExportDownloadsResult {
   featuredDownloads: DownloadItem[];
   /** JSON downloads (script JSON, style format) */
   jsonDownloads: DownloadItem[];
-  /** Token downloads (character, reminder, meta, print sheet, ZIP) */
+  /** Token downloads (character, reminder, meta, print sheet, ZIP, role cards) */
   tokenDownloads: DownloadItem[];
   /** Script-related downloads (night order, player script, script PDF) */
   scriptDownloads: DownloadItem[];
@@ -70,17 +78,30 @@ async function tokensToBundleData(tokens: Token[]): Promise<BundleData[]> {
  * ```
  */
 export function useExportDownloads(): UseExportDownloadsResult {
-  const { tokens, generationOptions, scriptMeta, jsonInput, getEnabledCharacters } =
-    useTokenContext();
+  const {
+    tokens,
+    generationOptions,
+    scriptMeta,
+    jsonInput,
+    getEnabledCharacters,
+    activeLocalizationPack,
+  } = useTokenContext();
 
   const { downloadPdf, downloadJson, isExporting } = useExport();
+  const { addToast } = useToast();
 
   const { firstNight, otherNight } = useNightOrder();
+  const pdfText = usePdfTextOptions();
+  const playerScript = usePlayerScriptDownload();
 
   const [executingId, setExecutingId] = useState<string | null>(null);
 
   // Get enabled characters for filtering
   const enabledCharacters = useMemo(() => getEnabledCharacters(), [getEnabledCharacters]);
+  const localizedEnabledCharacters = useMemo(
+    () => localizeCharacters(enabledCharacters, activeLocalizationPack),
+    [enabledCharacters, activeLocalizationPack]
+  );
   const enabledCharacterUuids = useMemo(
     () => new Set(enabledCharacters.map((c) => c.uuid)),
     [enabledCharacters]
@@ -190,6 +211,44 @@ export function useExportDownloads(): UseExportDownloadsResult {
     }
   }, [metaTokens, generationOptions.pngSettings]);
 
+  // Role card handlers - rendered on demand in the active language
+  const roleCardPrefix = scriptMeta?.name
+    ? `${scriptMeta.name.replace(/[^a-zA-Z0-9]/g, '_')}_role_cards`
+    : 'role_cards';
+
+  const handleDownloadRoleCardsZip = useCallback(async () => {
+    if (!hasCharacters) return;
+    try {
+      const cards = await generateRoleCards(
+        localizedEnabledCharacters,
+        generationOptions,
+        scriptMeta || null
+      );
+      const blob = await createRoleCardsZip(cards);
+      downloadFile(blob, `${roleCardPrefix}.zip`);
+    } catch (error) {
+      logger.error('useExportDownloads', 'Failed to download role cards', error);
+    }
+  }, [localizedEnabledCharacters, generationOptions, scriptMeta, hasCharacters, roleCardPrefix]);
+
+  const handleDownloadRoleCardSheet = useCallback(async () => {
+    if (!hasCharacters) return;
+    try {
+      const cards = await generateRoleCards(
+        localizedEnabledCharacters,
+        generationOptions,
+        scriptMeta || null
+      );
+      const pdfBytes = await createRoleCardSheetPdf(cards, {
+        imageQuality: generationOptions.pdfImageQuality,
+      });
+      const blob = new Blob([new Uint8Array(pdfBytes)], { type: 'application/pdf' });
+      downloadFile(blob, `${roleCardPrefix}.pdf`);
+    } catch (error) {
+      logger.error('useExportDownloads', 'Failed to download role card sheet', error);
+    }
+  }, [localizedEnabledCharacters, generationOptions, scriptMeta, hasCharacters, roleCardPrefix]);
+
   // Night Order PDF handler
   const handleDownloadNightOrder = useCallback(async () => {
     if (!(hasNightOrder && firstNight && otherNight)) return;
@@ -201,11 +260,13 @@ export function useExportDownloads(): UseExportDownloadsResult {
         includeFirstNight: true,
         includeOtherNight: true,
         showScriptName: true,
+        jinxes: getScriptJinxes(enabledCharacters),
+        ...pdfText,
       });
     } catch (error) {
       logger.error('useExportDownloads', 'Failed to download night order PDF', error);
     }
-  }, [firstNight, otherNight, scriptMeta, hasNightOrder]);
+  }, [firstNight, otherNight, scriptMeta, hasNightOrder, enabledCharacters, pdfText]);
 
   // Script PDF (Official Tool) handler - uses enabled characters only
   const handleOpenScriptInOfficialTool = useCallback(() => {
@@ -222,6 +283,23 @@ export function useExportDownloads(): UseExportDownloadsResult {
     window.open(url, '_blank');
   }, [enabledCharacters, scriptMeta, hasCharacters]);
 
+  // Share link handler - copies an app link carrying the full script and token style
+  const handleCopyShareLink = useCallback(async () => {
+    try {
+      const script = JSON.parse(jsonInput) as ScriptEntry[];
+      if (!Array.isArray(script)) {
+        throw new Error('Script JSON must be an array');
+      }
+      const url = getShareUrl({ script, generationOptions });
+      await navigator.clipboard.writeText(url);
+      logger.info('useExportDownloads', 'Copied share link', { length: url.length });
+      addToast('Share link copied to clipboard', 'success');
+    } catch (error) {
+      logger.error('useExportDownloads', 'Failed to create share link', error);
+      addToast('Could not create a share link for this script', 'error');
+    }
+  }, [jsonInput, generationOptions, addToast]);
+
   // Build all downloads with categories
   const downloads = useMemo<DownloadItem[]>(() => {
     const items: DownloadItem[] = [];
@@ -256,15 +334,18 @@ export function useExportDownloads(): UseExportDownloadsResult {
       sourceView: 'export',
     });
 
-    // Player Script - Featured (Coming Soon)
+    // Player Script PDF - Featured
     items.push({
       id: 'player-script',
       icon: '📜',
       label: 'Player Script',
-      description: 'Coming Soon',
-      action: () => {},
-      disabled: true,
-      disabledReason: 'Coming soon',
+      description: hasCharacters
+        ? `${enabledCharacters.length} characters (PDF)`
+        : 'No characters in script',
+      action: playerScript.download,
+      getBlob: playerScript.getBundle,
+      disabled: !hasCharacters,
+      disabledReason: 'Add characters to your script first',
       category: 'script',
       featured: true,
       sourceView: 'export',
@@ -285,6 +366,19 @@ export function useExportDownloads(): UseExportDownloadsResult {
       sourceView: 'export',
     });
 
+    // Share Link (script JSON + generation options, compressed into a URL)
+    items.push({
+      id: 'share-link',
+      icon: '🔗',
+      label: 'Share Link',
+      description: 'Copy a link with this script and token style',
+      action: handleCopyShareLink,
+      disabled: !jsonInput?.trim(),
+      disabledReason: 'No script data',
+      category: 'json',
+      sourceView: 'export',
+    });
+
     // === TOKEN DOWNLOADS ===
 
     // Character Tokens
@@ -346,6 +440,36 @@ export function useExportDownloads(): UseExportDownloadsResult {
       sourceView: 'export',
     });
 
+    // Role Cards (PNG)
+    items.push({
+      id: 'role-cards',
+      icon: '🃏',
+      label: 'Role Cards',
+      description: hasCharacters
+        ? `${enabledCharacters.length} cards (ZIP)`
+        : 'No characters in script',
+      action: handleDownloadRoleCardsZip,
+      disabled: !hasCharacters,
+      disabledReason: 'Add characters to your script first',
+      category: 'tokens',
+      sourceView: 'export',
+    });
+
+    // Role Card Sheet (PDF with cut marks)
+    items.push({
+      id: 'role-card-sheet',
+      icon: '✂️',
+      label: 'Role Card Sheet',
+      description: hasCharacters
+        ? `${enabledCharacters.length} cards (PDF)`
+        : 'No characters in script',
+      action: handleDownloadRoleCardSheet,
+      disabled: !hasCharacters,
+      disabledReason: 'Add characters to your script first',
+      category: 'tokens',
+      sourceView: 'export',
+    });
+
     // === SCRIPT DOWNLOADS ===
 
     // Script PDF (Official Tool)
@@ -380,8 +504,13 @@ export function useExportDownloads(): UseExportDownloadsResult {
     handleDownloadCharacterTokens,
     handleDownloadReminderTokens,
     handleDownloadMetaTokens,
+    handleDownloadRoleCardsZip,
+    handleDownloadRoleCardSheet,
     handleDownloadNightOrder,
+    playerScript.download,
+    playerScript.getBundle,
     handleOpenScriptInOfficialTool,
+    handleCopyShareLink,
     tokens.length,
   ]);
 
@@ -0,0 +1,51 @@
+/**
+ * usePdfTextOptions Hook
+ *
+ * Text settings shared by the script-sheet PDFs (night order, player script):
+ * the active locale, the uploaded fonts chosen for token names and ability
+ * text, and a callback that shows font fallback warnings as toasts.
+ *
+ * @module hooks/export/usePdfTextOptions
+ */
+
+import { useCallback, useMemo } from 'react';
+import { useToast } from '@/contexts/ToastContext';
+import { useTokenContext } from '@/contexts/TokenContext';
+import { type FontFamilies, getFontFamiliesFromOptions } from '@/ts/nightOrder/fontLoader.js';
+
+export interface PdfTextOptions {
+  /** Locale of the character text (unset when no localization pack is active) */
+  locale?: string;
+  /** Uploaded fonts for each PDF role */
+  fonts: FontFamilies;
+  /** Missing locale fonts fall back instead of failing the export; says so */
+  onWarning: (message: string) => void;
+}
+
+/**
+ * Hook that returns the locale, font and warning options for PDF exports
+ *
+ * @example
+ * ```tsx
+ * const pdfText = usePdfTextOptions();
+ * await downloadNightOrderPdf(firstNight, otherNight, meta, filename, { ...pdfText });
+ * ```
+ */
+export function usePdfTextOptions(): PdfTextOptions {
+  const { generationOptions, activeLocalizationPack } = useTokenContext();
+  const { addToast } = useToast();
+
+  // Script sheets are printed in the active language
+  const locale = activeLocalizationPack ? generationOptions.locale : undefined;
+
+  // Script sheets use the uploaded fonts chosen for token names and ability text
+  const { characterNameFont, abilityTextFont } = generationOptions;
+  const fonts = useMemo(
+    () => getFontFamiliesFromOptions({ characterNameFont, abilityTextFont }),
+    [characterNameFont, abilityTextFont]
+  );
+
+  const onWarning = useCallback((message: string) => addToast(message, 'warning'), [addToast]);
+
+  return useMemo(() => ({ locale, fonts, onWarning }), [locale, fonts, onWarning]);
+}
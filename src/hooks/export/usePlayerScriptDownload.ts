@@ -0,0 +1,93 @@
+/**
+ * usePlayerScriptDownload Hook
+ *
+ * Player script PDF download shared by the Player Script sub-tab and the
+ * Export view: the enabled characters in the active language, the file name
+ * and the PDF text options, so both places produce the same file.
+ *
+ * @module hooks/export/usePlayerScriptDownload
+ */
+
+import { useCallback, useMemo, useState } from 'react';
+import type { BundleData } from '@/contexts/DownloadsContext';
+import { useToast } from '@/contexts/ToastContext';
+import { useTokenContext } from '@/contexts/TokenContext';
+import { localizeCharacters } from '@/ts/data/localization.js';
+import {
+  downloadPlayerScriptPdf,
+  getPlayerScriptPdfBlob,
+  type PlayerScriptPdfOptions,
+} from '@/ts/nightOrder/playerScriptPdfLib.js';
+import type { Character } from '@/ts/types/index.js';
+import { logger } from '@/ts/utils/logger.js';
+import { usePdfTextOptions } from './usePdfTextOptions';
+
+export type UsePlayerScriptDownloadOptions = Pick<
+  PlayerScriptPdfOptions,
+  'includeJinxes' | 'includeLogo'
+>;
+
+export interface UsePlayerScriptDownloadResult {
+  /** Enabled characters in the active language (what the PDF prints) */
+  characters: Character[];
+  /** Download file name, from the script name */
+  filename: string;
+  /** Whether a download is in progress */
+  isExporting: boolean;
+  /** Download the PDF; failures are logged and shown as an error toast */
+  download: () => Promise<void>;
+  /** PDF blob for bundle downloads (null without characters) */
+  getBundle: () => Promise<BundleData | null>;
+}
+
+/**
+ * Hook for downloading the player script PDF of the current script
+ *
+ * @param options - Sections to print (both default to true)
+ */
+export function usePlayerScriptDownload({
+  includeJinxes = true,
+  includeLogo = true,
+}: UsePlayerScriptDownloadOptions = {}): UsePlayerScriptDownloadResult {
+  const { scriptMeta, getEnabledCharacters, activeLocalizationPack } = useTokenContext();
+  const { addToast } = useToast();
+  const pdfText = usePdfTextOptions();
+
+  const [isExporting, setIsExporting] = useState(false);
+
+  const characters = useMemo(
+    () => localizeCharacters(getEnabledCharacters(), activeLocalizationPack),
+    [getEnabledCharacters, activeLocalizationPack]
+  );
+
+  const filename = scriptMeta?.name
+    ? `${scriptMeta.name.replace(/[^a-zA-Z0-9]/g, '_')}_player_script.pdf`
+    : 'player_script.pdf';
+
+  const pdfOptions = useMemo<PlayerScriptPdfOptions>(
+    () => ({ includeJinxes, includeLogo, ...pdfText }),
+    [includeJinxes, includeLogo, pdfText]
+  );
+
+  const download = useCallback(async () => {
+    if (isExporting || characters.length === 0) return;
+
+    setIsExporting(true);
+    try {
+      await downloadPlayerScriptPdf(characters, scriptMeta || null, filename, pdfOptions);
+    } catch (error) {
+      logger.error('usePlayerScriptDownload', 'Player script export failed', error);
+      addToast('Failed to export player script. Please try again.', 'error');
+    } finally {
+      setIsExporting(false);
+    }
+  }, [isExporting, characters, scriptMeta, filename, pdfOptions, addToast]);
+
+  const getBundle = useCallback(async () => {
+    if (characters.length === 0) return null;
+    const blob = await getPlayerScriptPdfBlob(characters, scriptMeta || null, pdfOptions);
+    return { blob, filename };
+  }, [characters, scriptMeta, filename, pdfOptions]);
+
+  return { characters, filename, isExporting, download, getBundle };
+}
@@ -17,6 +17,7 @@ export {
   useAssetManager,
   useAssetPreview,
   useBuiltInAssets,
+  useCustomFonts,
   useFileUpload,
 } from './assets/index.js';
 // ============================================================================
@@ -69,16 +70,33 @@ export {
 // Export Hooks
 // ============================================================================
 export {
+  type PdfTextOptions,
   type UseExportDownloadsResult,
+  type UsePlayerScriptDownloadOptions,
+  type UsePlayerScriptDownloadResult,
   type UseScriptPdfDownloadsOptions,
   useExport,
   useExportDownloads,
+  usePdfTextOptions,
+  usePlayerScriptDownload,
   useScriptPdfDownloads,
 } from './export/index.js';
 // ============================================================================
 // Project Hooks
 // ============================================================================
-export { useProjects } from './projects/index.js';
+export {
+  type CreateScriptVariantOptions,
+  type ScriptLinkPreview,
+  type UseEditionProjectResult,
+  type UseRandomScriptResult,
+  type UseScriptDeepLinkResult,
+  type UseScriptVariantResult,
+  useEditionProject,
+  useProjects,
+  useRandomScript,
+  useScriptDeepLink,
+  useScriptVariant,
+} from './projects/index.js';
 // ============================================================================
 // PWA Hooks
 // ============================================================================
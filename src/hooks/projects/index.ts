@@ -6,6 +6,7 @@
  * @module hooks/projects
  */
 
+export { type UseEditionProjectResult, useEditionProject } from './useEditionProject.js';
 export {
   OPTIONAL_FIELDS_CONFIG,
   type OptionalFieldConfig,
@@ -20,3 +21,15 @@ export {
   type UseProjectTokensResult,
   useProjectTokens,
 } from './useProjectTokens.js';
+export { type UseRandomScriptResult, useRandomScript } from './useRandomScript.js';
+export {
+  type ScriptLinkPreview,
+  type UseScriptDeepLinkResult,
+  useScriptDeepLink,
+} from './useScriptDeepLink.js';
+export {
+  type CreateScriptVariantOptions,
+  type UseScriptVariantResult,
+  useScriptVariant,
+  type VariantParentStatus,
+} from './useScriptVariant.js';
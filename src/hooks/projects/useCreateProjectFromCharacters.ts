@@ -0,0 +1,74 @@
+/**
+ * Create Project From Characters Hook
+ *
+ * Shared by the hooks that start a project from official characters (base
+ * editions, random scripts): gives each character its stable UUID, saves the
+ * script with the current generation options and localization packs, opens
+ * the new project and refreshes the project list.
+ *
+ * @module hooks/projects/useCreateProjectFromCharacters
+ */
+
+import { useCallback } from 'react';
+import { useProjectService } from '@/contexts/ServiceContext';
+import { useTokenContext } from '@/contexts/TokenContext';
+import type { Character, ScriptMeta } from '@/ts/types/index.js';
+import type { Project } from '@/ts/types/project.js';
+import { charactersToJson } from '@/ts/utils/jsonUtils.js';
+import { logger } from '@/ts/utils/logger.js';
+import { generateStableUuid } from '@/ts/utils/nameGenerator.js';
+import { useProjects } from './useProjects.js';
+
+export interface CreateProjectFromCharactersOptions {
+  name: string;
+  description?: string;
+  /** Official characters of the script, in script order */
+  characters: Character[];
+  scriptMeta: ScriptMeta;
+}
+
+/**
+ * Hook returning a function that saves official characters as a new project
+ * and makes it current. Errors are thrown to the caller.
+ */
+export function useCreateProjectFromCharacters(): (
+  options: CreateProjectFromCharactersOptions
+) => Promise<Project> {
+  const projectService = useProjectService();
+  const { activateProject, loadProjects } = useProjects();
+  const { generationOptions, localizationPacks } = useTokenContext();
+
+  return useCallback(
+    async ({ name, description, characters: official, scriptMeta }) => {
+      const characters: Character[] = await Promise.all(
+        official.map(async (char) => ({
+          ...char,
+          uuid: await generateStableUuid(char.id, char.name),
+          source: 'official' as const,
+        }))
+      );
+
+      const project = await projectService.createProject({
+        name,
+        description,
+        state: {
+          jsonInput: charactersToJson(characters, scriptMeta),
+          characters,
+          scriptMeta,
+          characterMetadata: {},
+          generationOptions: { ...generationOptions },
+          customIcons: [],
+          localizationPacks,
+          schemaVersion: 1,
+        },
+      });
+
+      await activateProject(project.id);
+      loadProjects().catch((err) =>
+        logger.warn('useCreateProjectFromCharacters', 'Failed to refresh project list', err)
+      );
+      return project;
+    },
+    [generationOptions, localizationPacks, projectService, activateProject, loadProjects]
+  );
+}
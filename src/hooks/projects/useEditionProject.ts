@@ -0,0 +1,78 @@
+/**
+ * Edition Project Hook
+ *
+ * Starts a new project from a base edition's script (Trouble Brewing, Bad
+ * Moon Rising or Sects & Violets) using the cached official character data,
+ * and opens it. Variants can then be cut from it like any other project.
+ *
+ * @module hooks/projects/useEditionProject
+ */
+
+import { useCallback, useState } from 'react';
+import { useDataSync } from '@/contexts/DataSyncContext';
+import {
+  type BaseEditionId,
+  getBaseEditionCharacters,
+  getBaseEditionMeta,
+  getEditionInfo,
+} from '@/ts/data/editions.js';
+import type { Project } from '@/ts/types/project.js';
+import { logger } from '@/ts/utils/logger.js';
+import { useCreateProjectFromCharacters } from './useCreateProjectFromCharacters.js';
+
+export interface UseEditionProjectResult {
+  isCreating: boolean;
+  error: string | null;
+  /** Create a project holding the edition's script and make it current */
+  createEditionProject: (edition: BaseEditionId) => Promise<Project | undefined>;
+}
+
+export function useEditionProject(): UseEditionProjectResult {
+  const { getCharacters } = useDataSync();
+  const createProjectFromCharacters = useCreateProjectFromCharacters();
+
+  const [isCreating, setIsCreating] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const createEditionProject = useCallback(
+    async (edition: BaseEditionId) => {
+      setIsCreating(true);
+      setError(null);
+      try {
+        const official = getBaseEditionCharacters(await getCharacters(), edition);
+        if (official.length === 0) {
+          throw new Error('Official character data has not been downloaded yet');
+        }
+
+        const { name } = getEditionInfo(edition);
+        const project = await createProjectFromCharacters({
+          name,
+          description: `Base script of ${name}`,
+          characters: official,
+          scriptMeta: getBaseEditionMeta(edition),
+        });
+
+        logger.info('useEditionProject', 'Created edition project', {
+          projectId: project.id,
+          edition,
+          characterCount: official.length,
+        });
+        return project;
+      } catch (err) {
+        const message = err instanceof Error ? err.message : 'Failed to create project';
+        logger.error('useEditionProject', 'Failed to create edition project', err);
+        setError(message);
+        return undefined;
+      } finally {
+        setIsCreating(false);
+      }
+    },
+    [getCharacters, createProjectFromCharacters]
+  );
+
+  return {
+    isCreating,
+    error,
+    createEditionProject,
+  };
+}
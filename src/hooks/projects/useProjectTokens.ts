@@ -10,8 +10,9 @@
  */
 
 import { useEffect, useRef, useState } from 'react';
+import { findLocalizationPack, localizeCharacters } from '@/ts/data/localization.js';
 import { generateAllTokens } from '@/ts/generation/batchGenerator.js';
-import type { Token } from '@/ts/types/index.js';
+import type { Character, Token } from '@/ts/types/index.js';
 import type { Project } from '@/ts/types/project.js';
 import { logger } from '@/ts/utils/logger.js';
 
@@ -41,6 +42,21 @@ export interface UseProjectTokensResult {
   isGenerating: boolean;
 }
 
+// ============================================================================
+// Helpers
+// ============================================================================
+
+/**
+ * Project characters in the project's active language
+ */
+function localizeProjectCharacters(project: Project): Character[] {
+  const { characters, generationOptions, localizationPacks = [] } = project.state;
+  return localizeCharacters(
+    characters,
+    findLocalizationPack(localizationPacks, generationOptions?.locale)
+  );
+}
+
 // ============================================================================
 // Hook Implementation
 // ============================================================================
@@ -117,7 +133,7 @@ export function useProjectTokens({
 
       try {
         const generated = await generateAllTokens(
-          project.state.characters,
+          localizeProjectCharacters(project),
           project.state.generationOptions,
           null,
           project.state.scriptMeta,
@@ -156,7 +172,7 @@ export function useProjectTokens({
 
       try {
         const generated = await generateAllTokens(
-          project.state.characters,
+          localizeProjectCharacters(project),
           project.state.generationOptions,
           null,
           project.state.scriptMeta,
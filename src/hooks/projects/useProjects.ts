@@ -30,6 +30,7 @@ export function useProjects() {
     characters,
     scriptMeta,
     generationOptions,
+    localizationPacks,
     jsonInput,
     filters,
     characterMetadata,
@@ -38,6 +39,7 @@ export function useProjects() {
     setJsonInput,
     setTokens,
     updateGenerationOptions,
+    setLocalizationPacks,
     setMetadata,
     clearAllMetadata,
   } = useTokenContext();
@@ -82,6 +84,7 @@ export function useProjects() {
           characterMetadata: Object.fromEntries(characterMetadata),
           generationOptions: { ...generationOptions },
           customIcons: [],
+          localizationPacks,
           filters,
           schemaVersion: 1,
         },
@@ -113,6 +116,7 @@ export function useProjects() {
       scriptMeta,
       characterMetadata,
       generationOptions,
+      localizationPacks,
       filters,
       setCurrentProject,
       loadProjects,
@@ -177,8 +181,10 @@ export function useProjects() {
               setTokens(proj.state.tokens || []);
 
               if (proj.state.generationOptions) {
-                updateGenerationOptions(proj.state.generationOptions);
+                // Projects saved without a locale render source text
+                updateGenerationOptions({ locale: undefined, ...proj.state.generationOptions });
               }
+              setLocalizationPacks(proj.state.localizationPacks ?? []);
 
               if (proj.state.characterMetadata) {
                 clearAllMetadata();
@@ -201,6 +207,7 @@ export function useProjects() {
       setJsonInput,
       setTokens,
       updateGenerationOptions,
+      setLocalizationPacks,
       setMetadata,
       clearAllMetadata,
     ]
@@ -254,6 +261,7 @@ export function useProjects() {
         characterMetadata: Object.fromEntries(characterMetadata),
         generationOptions: { ...generationOptions },
         customIcons: [],
+        localizationPacks,
         filters,
         schemaVersion: 1,
       },
@@ -268,6 +276,7 @@ export function useProjects() {
     scriptMeta,
     characterMetadata,
     generationOptions,
+    localizationPacks,
     filters,
     updateProject,
   ]);
@@ -0,0 +1,99 @@
+/**
+ * Random Script Hook
+ *
+ * Draws random scripts from the synced official character pool and saves a
+ * chosen draw as a new project. Drawing and saving are separate so a script
+ * can be re-rolled until it suits the table.
+ *
+ * @module hooks/projects/useRandomScript
+ */
+
+import { useCallback, useState } from 'react';
+import { useDataSync } from '@/contexts/DataSyncContext';
+import {
+  generateRandomScript,
+  type RandomScriptOptions,
+  type RandomScriptResult,
+} from '@/ts/data/scriptRandomizer.js';
+import type { Character } from '@/ts/types/index.js';
+import type { Project } from '@/ts/types/project.js';
+import { logger } from '@/ts/utils/logger.js';
+import { useCreateProjectFromCharacters } from './useCreateProjectFromCharacters.js';
+
+export interface UseRandomScriptResult {
+  isRolling: boolean;
+  isCreating: boolean;
+  error: string | null;
+  /** Draw a script from the official pool */
+  roll: (options: RandomScriptOptions) => Promise<RandomScriptResult>;
+  /** Save drawn characters as a new project and make it current */
+  createProject: (name: string, characters: Character[]) => Promise<Project | undefined>;
+}
+
+export function useRandomScript(): UseRandomScriptResult {
+  const { getCharacters } = useDataSync();
+  const createProjectFromCharacters = useCreateProjectFromCharacters();
+
+  const [isRolling, setIsRolling] = useState(false);
+  const [isCreating, setIsCreating] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const roll = useCallback(
+    async (options: RandomScriptOptions) => {
+      setIsRolling(true);
+      setError(null);
+      try {
+        const pool = await getCharacters();
+        if (pool.length === 0) {
+          throw new Error('Official character data has not been downloaded yet');
+        }
+        return generateRandomScript(pool, options);
+      } catch (err) {
+        const message = err instanceof Error ? err.message : 'Failed to draw a script';
+        logger.error('useRandomScript', 'Failed to draw random script', err);
+        setError(message);
+        return { characters: [], jinxPairs: [], attempts: 0, errors: [message] };
+      } finally {
+        setIsRolling(false);
+      }
+    },
+    [getCharacters]
+  );
+
+  const createProject = useCallback(
+    async (name: string, drawn: Character[]) => {
+      setIsCreating(true);
+      setError(null);
+      try {
+        const project = await createProjectFromCharacters({
+          name,
+          description: 'Random script',
+          characters: drawn,
+          scriptMeta: { id: '_meta', name },
+        });
+
+        logger.info('useRandomScript', 'Created random script project', {
+          projectId: project.id,
+          characterCount: drawn.length,
+        });
+        return project;
+      } catch (err) {
+        const message = err instanceof Error ? err.message : 'Failed to create project';
+        logger.error('useRandomScript', 'Failed to create random script project', err);
+        setError(message);
+        return undefined;
+      } finally {
+        setIsCreating(false);
+      }
+    },
+    [createProjectFromCharacters]
+  );
+
+  return {
+    isRolling,
+    isCreating,
+    error,
+    roll,
+    createProject,
+  };
+}
@@ -0,0 +1,161 @@
+/**
+ * Script Deep Link Hook
+ *
+ * Reads a shared script from the page URL (`?script=` or `#script=`) on load,
+ * parses it for preview, and creates a new project from it on request.
+ * Accepts both this app's share links and official Script Tool links.
+ *
+ * @module hooks/projects/useScriptDeepLink
+ */
+
+import { useCallback, useEffect, useState } from 'react';
+import { useProjectService } from '@/contexts/ServiceContext';
+import { useTokenContext } from '@/contexts/TokenContext';
+import { extractScriptMeta, validateAndParseScript } from '@/ts/data/scriptParser.js';
+import type { Character, ScriptMeta } from '@/ts/types/index.js';
+import type { Project } from '@/ts/types/project.js';
+import { logger } from '@/ts/utils/logger.js';
+import {
+  clearScriptParamFromUrl,
+  decodeSharedScript,
+  getScriptParamFromUrl,
+  type SharedScriptPayload,
+} from '@/ts/utils/scriptEncoder.js';
+import { useProjects } from './useProjects.js';
+
+/**
+ * Parsed contents of a shared script link
+ */
+export interface ScriptLinkPreview {
+  payload: SharedScriptPayload;
+  scriptMeta: ScriptMeta | null;
+  characters: Character[];
+  warnings: string[];
+}
+
+export interface UseScriptDeepLinkResult {
+  /** Parsed link contents (null when there is no link or it is still parsing) */
+  preview: ScriptLinkPreview | null;
+  /** Decode error for a damaged link */
+  error: string | null;
+  /** Whether a link was found in the URL (the import dialog should be shown) */
+  hasLink: boolean;
+  /** Whether official character data is available for resolving the script */
+  isReady: boolean;
+  isImporting: boolean;
+  /** Create a project from the link and make it current */
+  importAsProject: (name: string) => Promise<Project | undefined>;
+  /** Discard the link */
+  dismiss: () => void;
+}
+
+export function useScriptDeepLink(): UseScriptDeepLinkResult {
+  const projectService = useProjectService();
+  const { loadProject, loadProjects } = useProjects();
+  const { officialData, generationOptions } = useTokenContext();
+
+  const [payload, setPayload] = useState<SharedScriptPayload | null>(null);
+  const [preview, setPreview] = useState<ScriptLinkPreview | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [hasLink, setHasLink] = useState(false);
+  const [isImporting, setIsImporting] = useState(false);
+
+  // Read the link once on load, then strip it so a refresh doesn't re-import
+  useEffect(() => {
+    const encoded = getScriptParamFromUrl();
+    if (!encoded) return;
+
+    setHasLink(true);
+    clearScriptParamFromUrl();
+    try {
+      setPayload(decodeSharedScript(encoded));
+    } catch (err) {
+      const message = err instanceof Error ? err.message : 'Failed to read script link';
+      logger.warn('useScriptDeepLink', 'Could not decode script link', err);
+      setError(message);
+    }
+  }, []);
+
+  // Re-parse whenever official data arrives so official IDs resolve
+  useEffect(() => {
+    if (!payload) return;
+
+    let cancelled = false;
+    validateAndParseScript(payload.script, officialData).then(({ characters, warnings }) => {
+      if (cancelled) return;
+      setPreview({
+        payload,
+        scriptMeta: extractScriptMeta(payload.script),
+        characters,
+        warnings,
+      });
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [payload, officialData]);
+
+  const dismiss = useCallback(() => {
+    setPayload(null);
+    setPreview(null);
+    setError(null);
+    setHasLink(false);
+  }, []);
+
+  const importAsProject = useCallback(
+    async (name: string) => {
+      if (!preview) return undefined;
+
+      setIsImporting(true);
+      try {
+        const { payload: linkPayload, scriptMeta, characters } = preview;
+        const project = await projectService.createProject({
+          name,
+          description: scriptMeta?.author ? `By ${scriptMeta.author}` : undefined,
+          state: {
+            jsonInput: JSON.stringify(linkPayload.script, null, 2),
+            characters,
+            scriptMeta,
+            characterMetadata: {},
+            // Shared settings override the local ones; plain script links keep local settings
+            generationOptions: { ...generationOptions, ...linkPayload.generationOptions },
+            customIcons: [],
+            schemaVersion: 1,
+          },
+        });
+
+        logger.info('useScriptDeepLink', 'Created project from script link', {
+          projectId: project.id,
+          characterCount: characters.length,
+          hasGenerationOptions: !!linkPayload.generationOptions,
+        });
+
+        await loadProject(project.id);
+        loadProjects().catch((err) =>
+          logger.warn('useScriptDeepLink', 'Failed to refresh project list', err)
+        );
+        dismiss();
+        return project;
+      } catch (err) {
+        const message = err instanceof Error ? err.message : 'Failed to create project';
+        setError(message);
+        return undefined;
+      } finally {
+        setIsImporting(false);
+      }
+    },
+    [preview, projectService, generationOptions, loadProject, loadProjects, dismiss]
+  );
+
+  return {
+    preview,
+    error,
+    hasLink,
+    isReady: officialData.length > 0,
+    isImporting,
+    importAsProject,
+    dismiss,
+  };
+}
+
+export default useScriptDeepLink;
@@ -0,0 +1,366 @@
+/**
+ * Script Variant Hook
+ *
+ * Builds a variant project (e.g. a 5–6 player Teensyville cut) from the
+ * current script. The variant keeps the chosen characters, their metadata and
+ * the current generation options, and records a link back to the parent
+ * project. When a variant is open, the hook checks whether the parent has
+ * changed since the variant was built (or last pulled) and can pull those
+ * changes by re-applying the variant's character subset to the parent script.
+ *
+ * @module hooks/projects/useScriptVariant
+ */
+
+import { useCallback, useEffect, useState } from 'react';
+import { useProjectContext } from '@/contexts/ProjectContext';
+import { useProjectService } from '@/contexts/ServiceContext';
+import { useTokenContext } from '@/contexts/TokenContext';
+import { normalizeCharacterKey } from '@/ts/data/characterResolver.js';
+import { extractScriptMeta } from '@/ts/data/scriptParser.js';
+import { buildScriptVariant } from '@/ts/data/scriptVariant.js';
+import type { Character, CharacterMetadata, ScriptEntry } from '@/ts/types/index.js';
+import type { CustomIconMetadata, Project, ProjectVariantLink } from '@/ts/types/project.js';
+import { logger } from '@/ts/utils/logger.js';
+import { useProjects } from './useProjects.js';
+
+export interface CreateScriptVariantOptions {
+  /** Name of the new project (also written to `_meta.name`) */
+  name: string;
+  playerCount: number;
+  /** IDs of the characters to keep */
+  characterIds: string[];
+}
+
+/**
+ * State of the open variant's parent project
+ * - checking: the parent is being loaded
+ * - current: no parent changes since the variant was built or last pulled
+ * - changed: the parent was modified since then
+ * - missing: the parent project was deleted
+ */
+export type VariantParentStatus = 'checking' | 'current' | 'changed' | 'missing';
+
+export interface UseScriptVariantResult {
+  /** Whether a variant can be built (a saved project with a script is open) */
+  canCreate: boolean;
+  isCreating: boolean;
+  error: string | null;
+  /** Create the variant project (the parent stays open) */
+  createVariant: (options: CreateScriptVariantOptions) => Promise<Project | undefined>;
+  /** Parent link of the open project, if it is a variant */
+  parentLink: ProjectVariantLink | undefined;
+  parentStatus: VariantParentStatus;
+  isPulling: boolean;
+  /** Rebuild the open variant from its parent's current script */
+  pullFromParent: () => Promise<boolean>;
+}
+
+/**
+ * Pick the characters a variant keeps, with their UUID-keyed metadata
+ */
+function keepVariantCharacters(
+  characters: Character[],
+  keepIds: string[],
+  getMetadata: (uuid: string) => CharacterMetadata | undefined
+): { keptCharacters: Character[]; keptMetadata: Record<string, CharacterMetadata> } {
+  const keep = new Set(keepIds.map(normalizeCharacterKey));
+  const keptCharacters = characters.filter((c) => keep.has(normalizeCharacterKey(c.id)));
+  const keptMetadata = Object.fromEntries(
+    keptCharacters.flatMap((c) => {
+      const metadata = c.uuid ? getMetadata(c.uuid) : undefined;
+      return c.uuid && metadata ? [[c.uuid, metadata]] : [];
+    })
+  );
+  return { keptCharacters, keptMetadata };
+}
+
+/**
+ * Pick the custom icons of kept characters (icons are keyed by UUID or ID)
+ */
+function keepVariantIcons(
+  icons: CustomIconMetadata[] | undefined,
+  keptCharacters: Character[]
+): CustomIconMetadata[] {
+  const keys = new Set(
+    keptCharacters.flatMap((c) =>
+      c.uuid ? [c.uuid, normalizeCharacterKey(c.id)] : [normalizeCharacterKey(c.id)]
+    )
+  );
+  return (icons ?? []).filter(
+    (icon) => keys.has(icon.characterId) || keys.has(normalizeCharacterKey(icon.characterId))
+  );
+}
+
+/**
+ * Merge a parent character's metadata into the variant's own entry.
+ * The variant's values (decoratives, locked token seeds, ...) win; the parent
+ * fills in whatever the variant has not set.
+ */
+function mergeVariantMetadata(
+  parent: CharacterMetadata | undefined,
+  own: CharacterMetadata | undefined
+): CharacterMetadata | undefined {
+  if (!(parent && own)) return own ?? parent;
+  return {
+    ...parent,
+    ...own,
+    decoratives:
+      parent.decoratives || own.decoratives
+        ? { ...parent.decoratives, ...own.decoratives }
+        : undefined,
+    tokenSeeds:
+      parent.tokenSeeds || own.tokenSeeds ? { ...parent.tokenSeeds, ...own.tokenSeeds } : undefined,
+  };
+}
+
+/**
+ * Parse a project's script JSON into entries
+ */
+function parseScriptEntries(jsonInput: string): ScriptEntry[] {
+  const parsed: unknown = JSON.parse(jsonInput);
+  if (!Array.isArray(parsed)) {
+    throw new Error('Script JSON must be an array');
+  }
+  return parsed as ScriptEntry[];
+}
+
+export function useScriptVariant(): UseScriptVariantResult {
+  const projectService = useProjectService();
+  const { currentProject, loadProjects } = useProjects();
+  const { setCurrentProject } = useProjectContext();
+  const {
+    jsonInput,
+    characters,
+    characterMetadata,
+    scriptMeta,
+    generationOptions,
+    localizationPacks,
+    filters,
+    setCharacters,
+    setScriptMeta,
+    setJsonInput,
+    setMetadata,
+    clearAllMetadata,
+  } = useTokenContext();
+
+  const [isCreating, setIsCreating] = useState(false);
+  const [isPulling, setIsPulling] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [parentStatus, setParentStatus] = useState<VariantParentStatus>('checking');
+
+  const parentLink = currentProject?.variantOf;
+  const parentProjectId = parentLink?.parentProjectId;
+  const parentModifiedAt = parentLink?.parentModifiedAt;
+
+  // Compare the parent's modification time with the one the variant was built from
+  useEffect(() => {
+    if (!parentProjectId || parentModifiedAt === undefined) return;
+
+    let cancelled = false;
+    setParentStatus('checking');
+    projectService
+      .getProject(parentProjectId)
+      .then((parent) => {
+        if (cancelled) return;
+        if (!parent) {
+          setParentStatus('missing');
+        } else {
+          setParentStatus(parent.lastModifiedAt > parentModifiedAt ? 'changed' : 'current');
+        }
+      })
+      .catch((err) => {
+        if (cancelled) return;
+        logger.warn('useScriptVariant', 'Failed to load parent project', err);
+        setParentStatus('missing');
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [projectService, parentProjectId, parentModifiedAt]);
+
+  const createVariant = useCallback(
+    async ({ name, playerCount, characterIds }: CreateScriptVariantOptions) => {
+      if (!currentProject) return undefined;
+
+      setIsCreating(true);
+      setError(null);
+      try {
+        const script = buildScriptVariant(parseScriptEntries(jsonInput), {
+          characters,
+          keepIds: characterIds,
+          name,
+        });
+
+        // Keep parsed characters (and their UUID-keyed metadata) instead of re-parsing
+        const { keptCharacters, keptMetadata } = keepVariantCharacters(
+          characters,
+          characterIds,
+          (uuid) => characterMetadata.get(uuid)
+        );
+
+        const project = await projectService.createProject({
+          name,
+          description: `${playerCount}-player variant of ${currentProject.name}`,
+          tags: currentProject.tags,
+          color: currentProject.color,
+          state: {
+            jsonInput: JSON.stringify(script, null, 2),
+            characters: keptCharacters,
+            scriptMeta: extractScriptMeta(script),
+            characterMetadata: keptMetadata,
+            generationOptions: { ...generationOptions },
+            customIcons: keepVariantIcons(currentProject.state.customIcons, keptCharacters),
+            localizationPacks,
+            filters,
+            schemaVersion: 1,
+          },
+          variantOf: {
+            parentProjectId: currentProject.id,
+            parentName: currentProject.name,
+            playerCount,
+            characterIds: keptCharacters.map((c) => c.id),
+            parentModifiedAt: currentProject.lastModifiedAt,
+            createdAt: Date.now(),
+          },
+        });
+
+        logger.info('useScriptVariant', 'Created variant project', {
+          projectId: project.id,
+          parentProjectId: currentProject.id,
+          playerCount,
+          characterCount: keptCharacters.length,
+        });
+
+        loadProjects().catch((err) =>
+          logger.warn('useScriptVariant', 'Failed to refresh project list', err)
+        );
+        return project;
+      } catch (err) {
+        const message = err instanceof Error ? err.message : 'Failed to create variant';
+        logger.error('useScriptVariant', 'Failed to create variant project', err);
+        setError(message);
+        return undefined;
+      } finally {
+        setIsCreating(false);
+      }
+    },
+    [
+      currentProject,
+      jsonInput,
+      characters,
+      characterMetadata,
+      generationOptions,
+      localizationPacks,
+      filters,
+      projectService,
+      loadProjects,
+    ]
+  );
+
+  const pullFromParent = useCallback(async () => {
+    const link = currentProject?.variantOf;
+    if (!(currentProject && link)) return false;
+
+    setIsPulling(true);
+    setError(null);
+    try {
+      const parent = await projectService.getProject(link.parentProjectId);
+      if (!parent) {
+        setParentStatus('missing');
+        throw new Error(`Parent project "${link.parentName}" no longer exists`);
+      }
+
+      // Re-apply the variant's subset; characters the parent dropped stay out
+      const script = buildScriptVariant(parseScriptEntries(parent.state.jsonInput), {
+        characters: parent.state.characters,
+        keepIds: link.characterIds,
+        name: scriptMeta?.name || currentProject.name,
+      });
+      // Variant-only edits (decoratives, locked seeds, icons) survive the pull
+      const parentMetadata = parent.state.characterMetadata ?? {};
+      const { keptCharacters, keptMetadata } = keepVariantCharacters(
+        parent.state.characters,
+        link.characterIds,
+        (uuid) => mergeVariantMetadata(parentMetadata[uuid], characterMetadata.get(uuid))
+      );
+      const ownIcons = currentProject.state.customIcons ?? [];
+      const ownIconIds = new Set(ownIcons.map((icon) => icon.characterId));
+      const customIcons = [
+        ...ownIcons,
+        ...keepVariantIcons(parent.state.customIcons, keptCharacters).filter(
+          (icon) => !ownIconIds.has(icon.characterId)
+        ),
+      ];
+      const pulledJson = JSON.stringify(script, null, 2);
+      const pulledMeta = extractScriptMeta(script);
+
+      const updated = await projectService.updateProject(currentProject.id, {
+        state: {
+          jsonInput: pulledJson,
+          characters: keptCharacters,
+          scriptMeta: pulledMeta,
+          characterMetadata: keptMetadata,
+          generationOptions: { ...generationOptions },
+          customIcons,
+          localizationPacks,
+          filters,
+          schemaVersion: 1,
+        },
+        variantOf: { ...link, parentName: parent.name, parentModifiedAt: parent.lastModifiedAt },
+      });
+
+      setCharacters(keptCharacters);
+      setScriptMeta(pulledMeta);
+      setJsonInput(pulledJson);
+      clearAllMetadata();
+      Object.entries(keptMetadata).forEach(([uuid, metadata]) => {
+        setMetadata(uuid, metadata);
+      });
+      setCurrentProject(updated);
+
+      logger.info('useScriptVariant', 'Pulled parent changes into variant', {
+        projectId: currentProject.id,
+        parentProjectId: parent.id,
+        characterCount: keptCharacters.length,
+      });
+
+      loadProjects().catch((err) =>
+        logger.warn('useScriptVariant', 'Failed to refresh project list', err)
+      );
+      return true;
+    } catch (err) {
+      const message = err instanceof Error ? err.message : 'Failed to pull parent changes';
+      logger.error('useScriptVariant', 'Failed to pull parent changes', err);
+      setError(message);
+      return false;
+    } finally {
+      setIsPulling(false);
+    }
+  }, [
+    currentProject,
+    scriptMeta,
+    characterMetadata,
+    generationOptions,
+    localizationPacks,
+    filters,
+    projectService,
+    setCharacters,
+    setScriptMeta,
+    setJsonInput,
+    setMetadata,
+    clearAllMetadata,
+    setCurrentProject,
+    loadProjects,
+  ]);
+
+  return {
+    canCreate: !!currentProject && characters.length > 0,
+    isCreating,
+    error,
+    createVariant,
+    parentLink,
+    parentStatus,
+    isPulling,
+    pullFromParent,
+  };
+}
@@ -6,8 +6,13 @@ import { useCallback, useEffect } from 'react';
 import { useDataSync } from '@/contexts/DataSyncContext';
 import { useTokenContext } from '@/contexts/TokenContext';
 import { characterLookup } from '@/ts/data/characterLookup.js';
+import { replaceScriptEntryId } from '@/ts/data/characterResolver.js';
 import { loadExampleScript } from '@/ts/data/dataLoader.js';
 import { extractScriptMeta, validateAndParseScript } from '@/ts/data/scriptParser.js';
+import {
+  type CharacterListImportResult,
+  importCharacterList,
+} from '@/ts/data/scriptTextImporter.js';
 import { buildInitialNightOrderArray } from '@/ts/nightOrder/index.js';
 import type { SyncEvent } from '@/ts/sync/index.js';
 import type { ScriptMeta } from '@/ts/types/index.js';
@@ -25,6 +30,7 @@ export function useScriptData() {
     setError,
     setIsLoading,
     setWarnings,
+    setCharacterSuggestions,
     officialData,
     clearAllMetadata,
     setMetadata: _setMetadata,
@@ -50,6 +56,7 @@ export function useScriptData() {
         setIsLoading(true);
         setError(null);
         setWarnings([]);
+        setCharacterSuggestions([]);
 
         // Validate JSON syntax
         const validation = validateJson(jsonString);
@@ -60,10 +67,11 @@ export function useScriptData() {
 
         // Parse the script data with lenient validation
         const parsed = JSON.parse(jsonString);
-        const { characters: scriptChars, warnings } = await validateAndParseScript(
-          parsed,
-          officialData
-        );
+        const {
+          characters: scriptChars,
+          warnings,
+          suggestions,
+        } = await validateAndParseScript(parsed, officialData);
 
         // Extract metadata if present
         const meta = extractScriptMeta(parsed);
@@ -80,6 +88,7 @@ export function useScriptData() {
         setCharacters(scriptChars);
         setScriptMeta(meta);
         setWarnings(warnings);
+        setCharacterSuggestions(suggestions);
         setError(null);
       } catch (err) {
         const errorMessage = err instanceof Error ? err.message : 'Failed to load script';
@@ -96,6 +105,7 @@ export function useScriptData() {
       setError,
       setIsLoading,
       setWarnings,
+      setCharacterSuggestions,
       officialData,
       clearAllMetadata,
       setLastGeneratedJsonHash,
@@ -154,6 +164,7 @@ export function useScriptData() {
         setCharacters([]);
         setScriptMeta(null);
         setWarnings([]);
+        setCharacterSuggestions([]);
         setError(null);
         return;
       }
@@ -168,10 +179,11 @@ export function useScriptData() {
       try {
         // Parse the script data with lenient validation
         const parsed = JSON.parse(jsonString);
-        const { characters: scriptChars, warnings } = await validateAndParseScript(
-          parsed,
-          officialData
-        );
+        const {
+          characters: scriptChars,
+          warnings,
+          suggestions,
+        } = await validateAndParseScript(parsed, officialData);
 
         // Extract metadata if present
         const meta = extractScriptMeta(parsed);
@@ -180,13 +192,14 @@ export function useScriptData() {
         setCharacters(scriptChars);
         setScriptMeta(meta);
         setWarnings(warnings);
+        setCharacterSuggestions(suggestions);
         setError(null);
       } catch (err) {
         const errorMessage = err instanceof Error ? err.message : 'Failed to parse script';
         setError(errorMessage);
       }
     },
-    [setCharacters, setScriptMeta, setError, setWarnings, officialData]
+    [setCharacters, setScriptMeta, setError, setWarnings, setCharacterSuggestions, officialData]
   );
 
   /**
@@ -198,6 +211,7 @@ export function useScriptData() {
     setTokens([]);
     setScriptMeta(null);
     setWarnings([]);
+    setCharacterSuggestions([]);
     setError(null);
     clearAllMetadata();
     setLastGeneratedJsonHash(null);
@@ -207,6 +221,7 @@ export function useScriptData() {
     setTokens,
     setScriptMeta,
     setWarnings,
+    setCharacterSuggestions,
     setError,
     clearAllMetadata,
     setLastGeneratedJsonHash,
@@ -236,6 +251,8 @@ export function useScriptData() {
         | 'undo'
         | 'redo'
         | 'fix-formats'
+        | 'apply-suggestion'
+        | 'import-list'
     ) => {
       logger.debug('ScriptData', 'Updating script via gateway', {
         source,
@@ -432,6 +449,60 @@ export function useScriptData() {
     }
   }, [jsonInput, updateScript, setError]);
 
+  /**
+   * Replace one entry's character reference with an official ID
+   * Used by the "did you mean" suggestions; only the entry's ID text changes
+   *
+   * @param entryIndex - Zero-based index of the entry in the script array
+   * @param characterId - Official character ID to use
+   */
+  const applyCharacterSuggestion = useCallback(
+    async (entryIndex: number, characterId: string) => {
+      const updatedJson = replaceScriptEntryId(jsonInput, entryIndex, characterId);
+      if (updatedJson === null) {
+        logger.warn('useScriptData', 'Could not locate script entry for suggestion', {
+          entryIndex,
+          characterId,
+        });
+        return;
+      }
+
+      // Use gateway to trigger auto-save
+      await updateScript(updatedJson, 'apply-suggestion');
+    },
+    [jsonInput, updateScript]
+  );
+
+  /**
+   * Build a script from a plain-text, CSV or Markdown character list and load it
+   * Names are resolved through the character lookup service; unresolved names
+   * stay in the script so the JSON view can suggest fixes for them
+   *
+   * @param text - Pasted or uploaded character list
+   * @returns Import result, or null if no names were found
+   */
+  const importScriptFromList = useCallback(
+    async (text: string): Promise<CharacterListImportResult | null> => {
+      const result = importCharacterList(text, characterLookup);
+      const characterCount = result.resolvedCount + result.unresolved.length;
+      if (characterCount === 0) {
+        setError('No character names found in the list');
+        return null;
+      }
+
+      logger.info('useScriptData', 'Imported script from character list', {
+        format: result.format,
+        resolved: result.resolvedCount,
+        unresolved: result.unresolved,
+      });
+
+      // Use gateway to trigger auto-save
+      await updateScript(JSON.stringify(result.script, null, 2), 'import-list');
+      return result;
+    },
+    [updateScript, setError]
+  );
+
   return {
     loadScript,
     loadExampleScriptByName,
@@ -441,6 +512,8 @@ export function useScriptData() {
     addMetaToScript,
     hasSeparatorsInIds,
     removeSeparatorsFromIds,
+    applyCharacterSuggestion,
+    importScriptFromList,
     updateScript, // ← NEW: Gateway for all script state updates
   };
 }
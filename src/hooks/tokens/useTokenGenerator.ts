@@ -1,19 +1,62 @@
 import { useCallback, useRef } from 'react';
-import { clearDataUrlCache } from '@/components/ViewComponents/TokensComponents/TokenGrid/TokenCard';
+import {
+  clearDataUrlCache,
+  clearDataUrlCacheFor,
+} from '@/components/ViewComponents/TokensComponents/TokenGrid/TokenCard';
 import { useTokenContext } from '@/contexts/TokenContext';
 import { simpleHash } from '@/ts/cache/utils/hashUtils.js';
+import { localizeCharacters } from '@/ts/data/localization.js';
 import { generateAllTokens } from '@/ts/generation/batchGenerator.js';
+import {
+  getTokenOwnerKey,
+  META_OWNER,
+  type RegenerationPlan,
+  tokenDependencyGraph,
+} from '@/ts/generation/tokenDependencies.js';
 import type { ProgressCallback, Token, TokenCallback } from '@/ts/types/index.js';
 import { logger } from '@/ts/utils/logger.js';
 
 // Batch update interval for token UI updates (ms)
 const TOKEN_BATCH_UPDATE_INTERVAL = 150;
 
+/**
+ * Tokens an incremental plan leaves untouched, re-numbered to the current script order
+ */
+function keepUnaffectedTokens(tokens: Token[], plan: RegenerationPlan, order: string[]): Token[] {
+  const position = new Map(order.map((key, index) => [key, index]));
+  const kept: Token[] = [];
+
+  for (const token of tokens) {
+    const owner = getTokenOwnerKey(token);
+    if (owner === META_OWNER) {
+      if (!plan.meta) kept.push(token);
+      continue;
+    }
+    const index = owner === null ? undefined : position.get(owner);
+    if (owner === null || index === undefined || plan.characterKeys.has(owner)) continue;
+    kept.push(token.order === index ? token : { ...token, order: index });
+  }
+
+  return kept;
+}
+
+/**
+ * Character and reminder tokens in script order, meta tokens last (as a full run returns them)
+ */
+function sortTokensForDisplay(tokens: Token[]): Token[] {
+  const isMeta = (token: Token) => getTokenOwnerKey(token) === META_OWNER;
+  const characterTokens = tokens
+    .filter((token) => !isMeta(token))
+    .sort((a, b) => (a.order ?? 0) - (b.order ?? 0));
+  return [...characterTokens, ...tokens.filter(isMeta)];
+}
+
 export function useTokenGenerator() {
   const {
     generationOptions,
     scriptMeta,
     jsonInput,
+    tokens,
     setTokens,
     setIsLoading,
     setError,
@@ -21,10 +64,14 @@ export function useTokenGenerator() {
     setLastGeneratedJsonHash,
     getEnabledCharacters,
     characterMetadata,
+    activeLocalizationPack,
   } = useTokenContext();
 
   // Use a ref to accumulate tokens incrementally during generation
   const tokensRef = useRef<Token[]>([]);
+  // Latest tokens shown, for incremental regeneration (a ref keeps generateTokens stable)
+  const currentTokensRef = useRef<Token[]>(tokens);
+  currentTokensRef.current = tokens;
   // AbortController ref for cancelling in-flight generation
   const abortControllerRef = useRef<AbortController | null>(null);
   // Prevent concurrent generation
@@ -47,8 +94,8 @@ export function useTokenGenerator() {
         return;
       }
 
-      // Filter to only enabled characters
-      const enabledCharacters = getEnabledCharacters();
+      // Filter to only enabled characters, in the active language
+      const enabledCharacters = localizeCharacters(getEnabledCharacters(), activeLocalizationPack);
 
       if (enabledCharacters.length === 0) {
         setError('No characters to generate tokens for (all characters are disabled)');
@@ -64,17 +111,46 @@ export function useTokenGenerator() {
 
       isGeneratingRef.current = true;
 
+      // Only re-render tokens whose inputs changed since the last generation
+      const snapshot = tokenDependencyGraph.snapshot(
+        enabledCharacters,
+        generationOptions,
+        scriptMeta,
+        characterMetadata
+      );
+      const plan = tokenDependencyGraph.plan(snapshot, currentTokensRef.current);
+      logger.debug('useTokenGenerator', 'Regeneration plan', {
+        full: plan.full,
+        reason: plan.reason,
+        characters: plan.characterKeys.size,
+        removed: plan.removedKeys.size,
+        meta: plan.meta,
+      });
+
       try {
         setIsLoading(true);
         setError(null);
-        setGenerationProgress({ current: 0, total: enabledCharacters.length });
+        setGenerationProgress({ current: 0, total: plan.characterKeys.size });
 
-        // Reset tokens array for new generation
-        tokensRef.current = [];
-        setTokens([]);
+        if (plan.full) {
+          // Reset tokens array for new generation
+          tokensRef.current = [];
+          setTokens([]);
 
-        // Clear the data URL cache since we're regenerating tokens
-        clearDataUrlCache();
+          // Clear the data URL cache since we're regenerating tokens
+          clearDataUrlCache();
+        } else {
+          // Keep unaffected tokens; drop the ones being re-rendered or removed
+          const kept = keepUnaffectedTokens(currentTokensRef.current, plan, snapshot.order);
+          const keptFilenames = new Set(kept.map((token) => token.filename));
+          clearDataUrlCacheFor(
+            currentTokensRef.current
+              .map((token) => token.filename)
+              .filter((filename) => !keptFilenames.has(filename))
+          );
+          tokensRef.current = kept;
+          setTokens(kept);
+        }
 
         // Clear any pending batch update
         if (batchUpdateTimerRef.current) {
@@ -109,23 +185,30 @@ export function useTokenGenerator() {
         };
 
         // Generate tokens with incremental updates and abort support
-        // Only generate for enabled characters
-        await generateAllTokens(
-          enabledCharacters,
-          generationOptions,
-          progressCallback,
-          scriptMeta || undefined,
-          tokenCallback,
-          signal,
-          characterMetadata
-        );
+        // Only generate for enabled characters (and only affected ones when incremental)
+        if (plan.full || plan.characterKeys.size > 0 || plan.meta) {
+          await generateAllTokens(
+            enabledCharacters,
+            generationOptions,
+            progressCallback,
+            scriptMeta || undefined,
+            tokenCallback,
+            signal,
+            characterMetadata,
+            plan.full ? undefined : { characterKeys: plan.characterKeys, metaTokens: plan.meta }
+          );
+        }
 
         // Final update to ensure all tokens are shown
         if (batchUpdateTimerRef.current) {
           clearTimeout(batchUpdateTimerRef.current);
           batchUpdateTimerRef.current = null;
         }
-        setTokens([...tokensRef.current]);
+        const finalTokens = plan.full
+          ? [...tokensRef.current]
+          : sortTokensForDisplay(tokensRef.current);
+        setTokens(finalTokens);
+        tokenDependencyGraph.commit(snapshot, finalTokens);
 
         // Record the JSON hash to prevent duplicate generation on navigation
         setLastGeneratedJsonHash(simpleHash(jsonInput));
@@ -158,6 +241,7 @@ export function useTokenGenerator() {
       setGenerationProgress,
       setLastGeneratedJsonHash,
       characterMetadata,
+      activeLocalizationPack,
     ]
   );
 
@@ -16,7 +16,13 @@
 import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
 import { getPreRenderedTokens, hashOptions } from '@/ts/cache/index.js';
 import { HOVER_DELAY_MS } from '@/ts/data/characterUtils.js';
-import type { Character, DecorativeOverrides, GenerationOptions, Token } from '@/ts/types/index.js';
+import type {
+  Character,
+  CharacterMetadata,
+  DecorativeOverrides,
+  GenerationOptions,
+  Token,
+} from '@/ts/types/index.js';
 import { regenerateCharacterAndReminders } from '@/ts/ui/detailViewUtils.js';
 import { createEffectiveOptions } from '@/ts/utils/decorativeUtils.js';
 import { logger } from '@/ts/utils/logger.js';
@@ -34,6 +40,8 @@ export interface UseTokenPreviewCacheOptions {
   generationOptions: GenerationOptions;
   /** Per-character decorative overrides for live preview */
   decoratives?: DecorativeOverrides;
+  /** Get metadata for a character (locked token seeds keep their look) */
+  getMetadata?: (uuid: string) => CharacterMetadata | undefined;
   /** Initial token from gallery click */
   initialToken?: Token;
   /** All tokens for looking up reminders */
@@ -95,6 +103,7 @@ export function useTokenPreviewCache({
   editedCharacter,
   generationOptions,
   decoratives,
+  getMetadata,
   initialToken,
   tokens,
   characters,
@@ -104,6 +113,11 @@ export function useTokenPreviewCache({
   const effectiveCharacter =
     editedCharacter ?? characters.find((c) => c.uuid === selectedCharacterUuid) ?? null;
 
+  // Locked token seeds of the previewed character
+  const effectiveMetadata = effectiveCharacter?.uuid
+    ? getMetadata?.(effectiveCharacter.uuid)
+    : undefined;
+
   // Compute effective options by merging global options with per-character decoratives
   const effectiveOptions = useMemo(
     () => createEffectiveOptions(generationOptions, decoratives),
@@ -191,7 +205,12 @@ export function useTokenPreviewCache({
 
     let cancelled = false;
 
-    regenerateCharacterAndReminders(effectiveCharacter, effectiveOptions)
+    regenerateCharacterAndReminders(
+      effectiveCharacter,
+      effectiveOptions,
+      undefined,
+      effectiveMetadata
+    )
       .then(({ characterToken, reminderTokens }) => {
         if (!cancelled) {
           setPreviewCharacterToken(characterToken);
@@ -207,7 +226,7 @@ export function useTokenPreviewCache({
     return () => {
       cancelled = true;
     };
-  }, [effectiveCharacter, effectiveOptions]);
+  }, [effectiveCharacter, effectiveOptions, effectiveMetadata]);
 
   // Hover handler - pre-render character token on hover
   // Note: Hover pre-rendering uses global options since we don't have decoratives for other characters
@@ -237,7 +256,12 @@ export function useTokenPreviewCache({
         preRenderingRef.current.add(cacheKey);
 
         // Use global options for hover pre-render (other characters' decoratives not available here)
-        regenerateCharacterAndReminders(char, generationOptions)
+        regenerateCharacterAndReminders(
+          char,
+          generationOptions,
+          undefined,
+          getMetadata?.(characterUuid)
+        )
           .then(({ characterToken, reminderTokens }) => {
             preRenderCacheRef.current.set(cacheKey, { characterToken, reminderTokens });
           })
@@ -247,7 +271,7 @@ export function useTokenPreviewCache({
           });
       }, HOVER_DELAY_MS);
     },
-    [characters, generationOptions, selectedCharacterUuid]
+    [characters, generationOptions, getMetadata, selectedCharacterUuid]
   );
 
   // Apply cached tokens when selecting a character
@@ -279,14 +303,16 @@ export function useTokenPreviewCache({
     try {
       const { characterToken, reminderTokens } = await regenerateCharacterAndReminders(
         effectiveCharacter,
-        effectiveOptions
+        effectiveOptions,
+        undefined,
+        effectiveMetadata
       );
       setPreviewCharacterToken(characterToken);
       setPreviewReminderTokens(reminderTokens);
     } catch (error) {
       logger.error('useTokenPreviewCache', 'Failed to regenerate preview', error);
     }
-  }, [effectiveCharacter, effectiveOptions]);
+  }, [effectiveCharacter, effectiveOptions, effectiveMetadata]);
 
   // Preview a specific variant image
   const handlePreviewVariant = useCallback(
@@ -297,7 +323,8 @@ export function useTokenPreviewCache({
         const { characterToken, reminderTokens } = await regenerateCharacterAndReminders(
           effectiveCharacter,
           effectiveOptions,
-          imageUrl
+          imageUrl,
+          effectiveMetadata
         );
         setPreviewCharacterToken(characterToken);
         setPreviewReminderTokens(reminderTokens);
@@ -305,7 +332,7 @@ export function useTokenPreviewCache({
         logger.error('useTokenPreviewCache', 'Failed to preview variant', error);
       }
     },
-    [effectiveCharacter, effectiveOptions]
+    [effectiveCharacter, effectiveOptions, effectiveMetadata]
   );
 
   // Invalidate cache for a character
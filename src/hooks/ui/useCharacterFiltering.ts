@@ -8,13 +8,15 @@
  */
 
 import { useCallback, useMemo, useState } from 'react';
+import { matchesCharacterSearch } from '@/ts/data/characterUtils.js';
+import { countByEdition, type EditionId, getCharacterEdition } from '@/ts/data/editions.js';
 import type { Character, Team } from '@/ts/types/index.js';
 
 // ============================================
 // Types
 // ============================================
 
-export type EditionFilter = 'all' | 'base3' | 'experimental';
+export type EditionFilter = EditionId | 'all';
 export type TeamFilter = Team | 'all';
 
 interface UseCharacterFilteringOptions {
@@ -45,22 +47,17 @@ interface UseCharacterFilteringReturn {
   clearSearch: () => void;
   /** Filtered characters */
   filteredCharacters: Character[];
+  /** Characters per edition that match the other filters (for facet counts) */
+  editionCounts: Record<EditionId, number>;
 }
 
-// ============================================
-// Constants
-// ============================================
-
-const BASE_3_EDITIONS = ['tb', 'snv', 'bmr'];
-
 // ============================================
 // Filter Functions
 // ============================================
 
 function filterByEdition(char: Character, filter: EditionFilter): boolean {
   if (filter === 'all') return true;
-  const isBase3 = BASE_3_EDITIONS.includes(char.edition || '');
-  return filter === 'base3' ? isBase3 : !isBase3;
+  return getCharacterEdition(char) === filter;
 }
 
 function filterByTeam(char: Character, filter: TeamFilter): boolean {
@@ -68,16 +65,6 @@ function filterByTeam(char: Character, filter: TeamFilter): boolean {
   return char.team === filter;
 }
 
-function filterBySearch(char: Character, query: string): boolean {
-  if (!query.trim()) return true;
-  const q = query.toLowerCase();
-  return (
-    char.name.toLowerCase().includes(q) ||
-    (char.ability?.toLowerCase().includes(q) ?? false) ||
-    char.id.toLowerCase().includes(q)
-  );
-}
-
 // ============================================
 // Hook
 // ============================================
@@ -92,7 +79,7 @@ function filterBySearch(char: Character, query: string): boolean {
  *   editionFilter, setEditionFilter,
  *   teamFilter, setTeamFilter,
  *   showSelectedOnly, toggleShowSelectedOnly,
- *   filteredCharacters,
+ *   filteredCharacters, editionCounts,
  * } = useCharacterFiltering({
  *   characters: officialCharacters,
  *   onScriptIds: currentScriptIds,
@@ -116,13 +103,19 @@ export function useCharacterFiltering({
     setSearchQuery('');
   }, []);
 
-  const filteredCharacters = useMemo(() => {
+  // Everything but the edition filter, so facet counts stay meaningful
+  const facetCharacters = useMemo(() => {
     return characters
-      .filter((c) => filterByEdition(c, editionFilter))
       .filter((c) => filterByTeam(c, teamFilter))
-      .filter((c) => filterBySearch(c, searchQuery))
+      .filter((c) => matchesCharacterSearch(c, searchQuery))
       .filter((c) => !showSelectedOnly || onScriptIds.has(c.id));
-  }, [characters, editionFilter, teamFilter, searchQuery, showSelectedOnly, onScriptIds]);
+  }, [characters, teamFilter, searchQuery, showSelectedOnly, onScriptIds]);
+
+  const filteredCharacters = useMemo(() => {
+    return facetCharacters.filter((c) => filterByEdition(c, editionFilter));
+  }, [facetCharacters, editionFilter]);
+
+  const editionCounts = useMemo(() => countByEdition(facetCharacters), [facetCharacters]);
 
   return {
     searchQuery,
@@ -135,6 +128,7 @@ export function useCharacterFiltering({
     toggleShowSelectedOnly,
     clearSearch,
     filteredCharacters,
+    editionCounts,
   };
 }
 
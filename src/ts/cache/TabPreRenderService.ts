@@ -15,6 +15,7 @@ import type { NightOrderResult } from '@/ts/nightOrder/nightOrderUtils.js';
 import { buildNightOrder } from '@/ts/nightOrder/nightOrderUtils.js';
 import type {
   Character,
+  CharacterMetadata,
   GenerationOptions,
   ScriptEntry,
   ScriptMeta,
@@ -61,6 +62,8 @@ export interface TabPreRenderContext {
   generationOptions?: GenerationOptions;
   /** Last selected character UUID (for characters tab) */
   lastSelectedCharacterUuid?: string;
+  /** Character metadata by UUID (locked token seeds keep their look) */
+  characterMetadata?: Map<string, CharacterMetadata>;
 }
 
 /** Result of a tab pre-render operation */
@@ -396,7 +399,7 @@ export class TabPreRenderService {
    * Generates character token and stores in sync cache for instant display.
    */
   private preRenderCharacters(context: TabPreRenderContext): TabPreRenderResult {
-    const { characters, generationOptions, lastSelectedCharacterUuid } = context;
+    const { characters, generationOptions, lastSelectedCharacterUuid, characterMetadata } = context;
 
     if (characters.length === 0 || !generationOptions) {
       return emptyResult('characters');
@@ -421,7 +424,12 @@ export class TabPreRenderService {
 
     // Generate tokens (async, fire-and-forget)
     this.deps
-      .regenerateTokens(character, generationOptions)
+      .regenerateTokens(
+        character,
+        generationOptions,
+        undefined,
+        character.uuid ? characterMetadata?.get(character.uuid) : undefined
+      )
       .then(({ characterToken, reminderTokens }) => {
         // LRU eviction if cache is full
         if (
@@ -5,13 +5,32 @@
 
 import { TokenGeneratorError } from '@/ts/errors.js';
 import { logger } from '@/ts/utils/logger.js';
-import type { WorkerResponse, WorkerTask } from '@/ts/workers/prerender-worker.js';
+import type { WorkerTask } from '@/ts/workers/prerender-worker.js';
+
+/**
+ * Minimal shape of a task a pool can dispatch.
+ */
+export interface PoolTask {
+  type: string;
+  id: string; // Unique task ID for response matching
+}
+
+/**
+ * Minimal shape of a worker response the pool can settle.
+ * Messages without a matching id (e.g. READY) are ignored by task handlers.
+ */
+export interface PoolResponse {
+  type: string;
+  id?: string;
+  data?: unknown;
+  error?: string;
+}
 
 /**
  * Task in the queue.
  */
-interface QueuedTask {
-  task: WorkerTask;
+interface QueuedTask<TTask extends PoolTask> {
+  task: TTask;
   resolve: (value: unknown) => void;
   reject: (error: Error) => void;
   signal?: AbortSignal;
@@ -35,6 +54,11 @@ export interface WorkerPoolOptions {
   workerCount?: number;
   /** Maximum tasks in queue before rejecting new tasks (default: 100) */
   maxQueueSize?: number;
+  /**
+   * Worker factory (default: the pre-render encoding worker).
+   * Workers must post `{ type: 'READY' }` once they can accept tasks.
+   */
+  createWorker?: () => Worker;
 }
 
 /**
@@ -54,12 +78,13 @@ export interface WorkerPoolOptions {
  *   data: { imageData, width, height }
  * })
  */
-export class WorkerPool {
+export class WorkerPool<TTask extends PoolTask = WorkerTask> {
   protected workers: Worker[] = [];
   protected managedWorkers: ManagedWorker[] = [];
   protected activeWorkers = new Set<Worker>();
-  private queue: QueuedTask[] = [];
+  private queue: QueuedTask<TTask>[] = [];
   private taskCounter = 0;
+  private terminated = false;
   private readonly maxQueueSize: number;
 
   /**
@@ -93,9 +118,11 @@ export class WorkerPool {
    */
   protected createManagedWorker(): ManagedWorker {
     // Vite handles this worker import specially
-    const worker = new Worker(new URL('../../workers/prerender-worker.ts', import.meta.url), {
-      type: 'module',
-    });
+    const worker = this.options.createWorker
+      ? this.options.createWorker()
+      : new Worker(new URL('../../workers/prerender-worker.ts', import.meta.url), {
+          type: 'module',
+        });
 
     // Create ready promise that resolves when worker sends READY message
     let resolveReady: () => void;
@@ -134,7 +161,7 @@ export class WorkerPool {
       }
 
       // Try to recover by creating a new worker
-      if (this.workers.length < (this.options.workerCount || 4)) {
+      if (!this.terminated && this.workers.length < (this.options.workerCount || 4)) {
         try {
           const newManaged = this.createManagedWorker();
           this.managedWorkers.push(newManaged);
@@ -159,7 +186,7 @@ export class WorkerPool {
    * @returns Promise resolving to task result
    */
   async execute<T = unknown>(
-    task: Omit<WorkerTask, 'id'>,
+    task: Omit<TTask, 'id'>,
     options?: { signal?: AbortSignal; transfer?: Transferable[] }
   ): Promise<T> {
     const signal = options?.signal;
@@ -170,10 +197,10 @@ export class WorkerPool {
     }
 
     // Add unique ID to task
-    const fullTask: WorkerTask = {
+    const fullTask = {
       ...task,
       id: `task-${++this.taskCounter}-${Date.now()}`,
-    };
+    } as TTask;
 
     return new Promise<T>((resolve, reject) => {
       // Check queue size limit
@@ -265,7 +292,7 @@ export class WorkerPool {
    */
   private runTask<T>(
     worker: Worker,
-    task: WorkerTask,
+    task: TTask,
     resolve: (value: T) => void,
     reject: (error: Error) => void,
     signal?: AbortSignal,
@@ -282,7 +309,7 @@ export class WorkerPool {
     let isCompleted = false;
 
     // Set up one-time message handler for this task
-    const handler = (e: MessageEvent<WorkerResponse>) => {
+    const handler = (e: MessageEvent<PoolResponse>) => {
       // Check if this response matches our task
       if (e.data.id !== task.id) return;
 
@@ -395,6 +422,8 @@ export class WorkerPool {
    * Call this when you're done using the pool.
    */
   terminate(): void {
+    this.terminated = true;
+
     // Reject all queued tasks
     for (const queued of this.queue) {
       queued.reject(new TokenGeneratorError('Worker pool terminated'));
@@ -410,6 +439,29 @@ export class WorkerPool {
     this.activeWorkers.clear();
   }
 
+  /**
+   * Wait until at least one worker has reported ready.
+   *
+   * @param timeout - Maximum time to wait in ms (default: 10000)
+   * @returns True if a worker is ready, false on timeout or when no workers exist
+   */
+  async waitForReady(timeout: number = 10000): Promise<boolean> {
+    if (this.managedWorkers.some((m) => m.isReady)) return true;
+    if (this.managedWorkers.length === 0) return false;
+
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    const timedOut = new Promise<boolean>((resolve) => {
+      timer = setTimeout(() => resolve(false), timeout);
+    });
+    const anyReady = Promise.race(this.managedWorkers.map((m) => m.ready)).then(() => true);
+
+    try {
+      return await Promise.race([anyReady, timedOut]);
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+
   /**
    * Check if pool is idle (no active tasks).
    * @returns True if idle
@@ -5,7 +5,10 @@
 
 import CONFIG from '@/ts/config.js';
 import { ACCENT_LAYOUT } from '@/ts/constants.js';
-import { globalImageCache, logger, shuffleArray } from '@/ts/utils/index.js';
+import { globalImageCache, logger, type RandomSource, shuffleArray } from '@/ts/utils/index.js';
+import type { DrawableImage, ImageLoader } from './canvasUtils.js';
+import { getSvgRecorder } from './svgRecorder.js';
+import { getShapeBoundaryRatio, type TokenShapeGeometry } from './tokenShapes.js';
 
 /**
  * Accent position configuration
@@ -17,6 +20,16 @@ interface AccentPosition {
   radialOffset: number;
 }
 
+/**
+ * Arc of accent positions, in degrees
+ */
+export interface AccentArc {
+  /** Arc center, clockwise from the top */
+  center: number;
+  span: number;
+  slots: number;
+}
+
 /**
  * Options for accent drawing
  */
@@ -26,23 +39,25 @@ export interface AccentDrawingOptions {
   accentGeneration: string;
   accentArcSpan: number;
   accentSlots: number;
+  /** Arcs to place accents on (default: one arc of accentArcSpan/accentSlots at the top) */
+  arcs?: AccentArc[];
   // Side accent options
   enableLeftAccent?: boolean;
   enableRightAccent?: boolean;
   sideAccentProbability?: number;
+  /** Token shape; accents follow its outline (default: circle) */
+  shape?: TokenShapeGeometry;
 }
 
 /**
  * Build array of all possible accent positions
- * @param accentArcSpan - Arc span in degrees
- * @param accentSlots - Number of positions along the arc
+ * @param arcs - Arcs of accent positions
  * @param enableLeftAccent - Whether to include left side accent position
  * @param enableRightAccent - Whether to include right side accent position
  * @returns Array of accent positions
  */
 function buildAccentPositions(
-  accentArcSpan: number,
-  accentSlots: number,
+  arcs: AccentArc[],
   enableLeftAccent: boolean = true,
   enableRightAccent: boolean = true
 ): AccentPosition[] {
@@ -68,20 +83,22 @@ function buildAccentPositions(
     });
   }
 
-  // Add arc positions along the top
-  // Arc is centered at top (0 degrees), spanning accentArcSpan degrees
-  const arcSpanRad = (accentArcSpan * Math.PI) / 180;
-  const startAngle = -arcSpanRad / 2; // Start from left side of arc
-  const angleStep = accentSlots > 1 ? arcSpanRad / (accentSlots - 1) : 0;
-
-  for (let i = 0; i < accentSlots; i++) {
-    const angle = startAngle + i * angleStep;
-    positions.push({
-      type: 'arc',
-      angle: angle,
-      scale: ACCENT_LAYOUT.ARC_ACCENTS.SCALE,
-      radialOffset: ACCENT_LAYOUT.ARC_ACCENTS.RADIAL_OFFSET,
-    });
+  // Add arc positions along each arc
+  // An arc is centered at its center angle (0 = top), spanning span degrees
+  for (const arc of arcs) {
+    const arcSpanRad = (arc.span * Math.PI) / 180;
+    const startAngle = (arc.center * Math.PI) / 180 - arcSpanRad / 2; // Start from left side of arc
+    const angleStep = arc.slots > 1 ? arcSpanRad / (arc.slots - 1) : 0;
+
+    for (let i = 0; i < arc.slots; i++) {
+      const angle = startAngle + i * angleStep;
+      positions.push({
+        type: 'arc',
+        angle: angle,
+        scale: ACCENT_LAYOUT.ARC_ACCENTS.SCALE,
+        radialOffset: ACCENT_LAYOUT.ARC_ACCENTS.RADIAL_OFFSET,
+      });
+    }
   }
 
   return positions;
@@ -99,16 +116,20 @@ async function getCachedLocalImage(path: string): Promise<HTMLImageElement> {
 /**
  * Detect available accent variants for a given style
  * @param accentGeneration - Accent style name
+ * @param loadImage - Image loader for accent assets
  * @returns Number of available variants
  */
-async function detectAccentVariants(accentGeneration: string): Promise<number> {
+async function detectAccentVariants(
+  accentGeneration: string,
+  loadImage: ImageLoader
+): Promise<number> {
   const basePath = `${CONFIG.ASSETS.ACCENTS}${ACCENT_LAYOUT.ASSETS.ACCENTS_PATH}${accentGeneration}/`;
   let availableVariants = 0;
 
   for (let i = 1; i <= 20; i++) {
     // Check up to 20 variants
     try {
-      await getCachedLocalImage(`${basePath}${ACCENT_LAYOUT.ASSETS.ACCENT_FILENAME}_${i}.webp`);
+      await loadImage(`${basePath}${ACCENT_LAYOUT.ASSETS.ACCENT_FILENAME}_${i}.webp`, true);
       availableVariants = i;
     } catch {
       break; // Stop when we can't load the next variant
@@ -124,18 +145,23 @@ async function detectAccentVariants(accentGeneration: string): Promise<number> {
  * @param accentImage - Accent image element
  * @param position - Accent position configuration
  * @param diameter - Token diameter
+ * @param shape - Token shape the accent sits on (default: circle)
  */
 function drawSingleAccent(
   ctx: CanvasRenderingContext2D,
-  accentImage: HTMLImageElement,
+  accentImage: DrawableImage,
   position: AccentPosition,
-  diameter: number
+  diameter: number,
+  shape?: TokenShapeGeometry
 ): void {
-  const radius = diameter / 2;
-  const center = { x: radius, y: radius };
+  const center = { x: diameter / 2, y: diameter / 2 };
   const accentSize = diameter * position.scale;
 
-  // Calculate position on the circle
+  // Distance to the token edge at this angle (angle 0 is up, so shift to screen angles)
+  const edgeRatio = shape ? getShapeBoundaryRatio(shape, position.angle - Math.PI / 2) : 1;
+  const radius = (diameter / 2) * edgeRatio;
+
+  // Calculate position on the outline
   // Angle 0 = top center, positive = clockwise
   const posX = center.x + radius * position.radialOffset * Math.sin(position.angle);
   const posY = center.y - radius * position.radialOffset * Math.cos(position.angle);
@@ -154,20 +180,35 @@ function drawSingleAccent(
   ctx.drawImage(accentImage, -accentSize / 2, -accentSize / 2, accentSize, accentSize);
 
   ctx.restore();
+
+  getSvgRecorder(ctx)?.add({
+    kind: 'image',
+    source: accentImage,
+    x: -accentSize / 2,
+    y: -accentSize / 2,
+    width: accentSize,
+    height: accentSize,
+    translate: { x: posX, y: posY },
+    rotate: position.angle,
+  });
 }
 
 /**
  * Draw accent decorations on a token
- * Dynamically positions accents along an arc at the top and on left/right sides
- * Uses the global image cache for loading accent assets
+ * Dynamically positions accents along arcs (the top by default) and on left/right sides
+ * Uses the global image cache for loading accent assets unless a loader is given
  * @param ctx - Canvas context
  * @param diameter - Token diameter
  * @param options - Accent drawing options
+ * @param loadImage - Optional image loader (e.g. a worker-side cache)
+ * @param random - Random source for placement and variants (seeded for a repeatable look)
  */
 export async function drawAccents(
   ctx: CanvasRenderingContext2D,
   diameter: number,
-  options: AccentDrawingOptions
+  options: AccentDrawingOptions,
+  loadImage: ImageLoader = getCachedLocalImage,
+  random: RandomSource = Math.random
 ): Promise<void> {
   const {
     maximumAccents,
@@ -178,10 +219,12 @@ export async function drawAccents(
     enableLeftAccent = true,
     enableRightAccent = true,
     sideAccentProbability = accentPopulationProbability, // Default to arc probability
+    arcs = [{ center: 0, span: accentArcSpan, slots: accentSlots }],
+    shape,
   } = options;
 
   // Detect available accent variants
-  const availableVariants = await detectAccentVariants(accentGeneration);
+  const availableVariants = await detectAccentVariants(accentGeneration, loadImage);
 
   if (availableVariants === 0) {
     logger.warn('AccentDrawing', `No accent variants found for style: ${accentGeneration}`);
@@ -189,13 +232,8 @@ export async function drawAccents(
   }
 
   // Build and shuffle positions (respecting side accent settings)
-  const positions = buildAccentPositions(
-    accentArcSpan,
-    accentSlots,
-    enableLeftAccent,
-    enableRightAccent
-  );
-  const shuffledPositions = shuffleArray(positions);
+  const positions = buildAccentPositions(arcs, enableLeftAccent, enableRightAccent);
+  const shuffledPositions = shuffleArray(positions, random);
 
   let accentsDrawn = 0;
 
@@ -212,20 +250,20 @@ export async function drawAccents(
         : accentPopulationProbability;
 
     // Roll probability check
-    const roll = Math.random() * 100;
+    const roll = random() * 100;
     if (roll >= probability) {
       continue; // Skip this accent position
     }
 
     // Pick a random accent variant from available ones
-    const variantIndex = Math.floor(Math.random() * availableVariants) + 1;
+    const variantIndex = Math.floor(random() * availableVariants) + 1;
 
     // Load and draw the accent
     try {
       const accentPath = `${CONFIG.ASSETS.ACCENTS}${ACCENT_LAYOUT.ASSETS.ACCENTS_PATH}${accentGeneration}/${ACCENT_LAYOUT.ASSETS.ACCENT_FILENAME}_${variantIndex}.webp`;
-      const accentImage = await getCachedLocalImage(accentPath);
+      const accentImage = await loadImage(accentPath, true);
 
-      drawSingleAccent(ctx, accentImage, position, diameter);
+      drawSingleAccent(ctx, accentImage, position, diameter, shape);
       accentsDrawn++;
     } catch (error) {
       logger.warn('AccentDrawing', `Could not load accent variant ${variantIndex}`, error);
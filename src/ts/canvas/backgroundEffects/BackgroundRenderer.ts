@@ -7,12 +7,18 @@
  * @module canvas/backgroundEffects/BackgroundRenderer
  */
 
+import {
+  createCanvasElement,
+  type DrawableImage,
+  type ImageLoader,
+} from '@/ts/canvas/canvasUtils.js';
 import { createBackgroundGradient } from '@/ts/canvas/gradientUtils.js';
 import { getBuiltInAssetPath, isBuiltInAsset } from '@/ts/constants/builtInAssets.js';
 import { ResourceNotFoundError, TokenCreationError } from '@/ts/errors.js';
 import { isAssetReference, resolveAssetUrl } from '@/ts/services/upload/assetResolver.js';
 import type { BackgroundStyle, TextureConfig } from '@/ts/types/backgroundEffects.js';
 import { DEFAULT_LIGHT_CONFIG } from '@/ts/types/backgroundEffects.js';
+import type { RandomSource } from '@/ts/utils/seededRandom.js';
 import { applyEffects, applyVibrance } from './effects/index.js';
 import { type TextureContext, TextureFactory } from './textures/index.js';
 
@@ -29,9 +35,10 @@ import { type TextureContext, TextureFactory } from './textures/index.js';
  * - Direct URLs (http, data, blob)
  *
  * @param url - Image URL or asset reference
- * @returns Loaded HTMLImageElement
+ * @param loadImage - Optional image loader used instead of an Image element
+ * @returns Loaded image
  */
-async function loadBackgroundImage(url: string): Promise<HTMLImageElement> {
+async function loadBackgroundImage(url: string, loadImage?: ImageLoader): Promise<DrawableImage> {
   let resolvedUrl: string;
 
   // Check if it's an asset reference (asset:uuid format)
@@ -51,6 +58,10 @@ async function loadBackgroundImage(url: string): Promise<HTMLImageElement> {
     throw new ResourceNotFoundError(`Failed to resolve image URL: ${url}`, 'image', url);
   }
 
+  if (loadImage) {
+    return loadImage(resolvedUrl, false);
+  }
+
   return new Promise((resolve, reject) => {
     const img = new Image();
     img.crossOrigin = 'anonymous';
@@ -76,12 +87,14 @@ async function loadBackgroundImage(url: string): Promise<HTMLImageElement> {
  * @param config - Texture configuration
  * @param diameter - Token diameter
  * @param baseColor - Base/solid color for tinting
+ * @param random - Random source for per-token seeds
  */
 function applyTexture(
   ctx: CanvasRenderingContext2D,
   config: TextureConfig,
   diameter: number,
-  baseColor: string
+  baseColor: string,
+  random: RandomSource = Math.random
 ): void {
   const strategy = TextureFactory.create(config.type);
   if (!strategy) {
@@ -91,15 +104,13 @@ function applyTexture(
   const intensity = config.intensity / 100;
   const center = diameter / 2;
 
-  // Determine seed: use random if randomizeSeedPerToken is enabled
+  // Determine seed: draw one per token if randomizeSeedPerToken is enabled
   const effectiveSeed = config.randomizeSeedPerToken
-    ? Math.floor(Math.random() * 100000)
+    ? Math.floor(random() * 100000)
     : (config.seed ?? 12345);
 
   // Create offscreen canvas for texture
-  const textureCanvas = document.createElement('canvas');
-  textureCanvas.width = diameter;
-  textureCanvas.height = diameter;
+  const textureCanvas = createCanvasElement(diameter, diameter);
   const textureCtx = textureCanvas.getContext('2d');
   if (!textureCtx) {
     throw new TokenCreationError('Failed to get 2d context for texture canvas', 'Texture');
@@ -231,11 +242,15 @@ function applyContrastAdjustment(
  * @param ctx - Canvas context (should have circular clip already applied)
  * @param style - Complete background style configuration
  * @param diameter - Token diameter in pixels
+ * @param loadImage - Optional image loader for image-sourced backgrounds
+ * @param random - Random source for crop, rotation and per-token texture seeds
  */
 export async function renderBackground(
   ctx: CanvasRenderingContext2D,
   style: BackgroundStyle,
-  diameter: number
+  diameter: number,
+  loadImage?: ImageLoader,
+  random: RandomSource = Math.random
 ): Promise<void> {
   const center = diameter / 2;
   const light = style.light || DEFAULT_LIGHT_CONFIG;
@@ -264,7 +279,7 @@ export async function renderBackground(
     drawCheckerboardBackground(ctx, diameter);
 
     try {
-      const img = await loadBackgroundImage(style.imageUrl);
+      const img = await loadBackgroundImage(style.imageUrl, loadImage);
       // Draw image to cover the circular area (center and crop)
       const aspectRatio = img.width / img.height;
       let drawWidth = diameter;
@@ -305,8 +320,8 @@ export async function renderBackground(
       if (style.randomCrop) {
         const maxOffsetX = Math.abs(drawWidth - diameter) / 2;
         const maxOffsetY = Math.abs(drawHeight - diameter) / 2;
-        offsetX += (Math.random() - 0.5) * 2 * maxOffsetX;
-        offsetY += (Math.random() - 0.5) * 2 * maxOffsetY;
+        offsetX += (random() - 0.5) * 2 * maxOffsetX;
+        offsetY += (random() - 0.5) * 2 * maxOffsetY;
       } else if (style.cropOffsetX !== undefined || style.cropOffsetY !== undefined) {
         // Use fixed crop offset (0-1 range, 0.5 = centered)
         const maxOffsetX = Math.abs(drawWidth - diameter) / 2;
@@ -318,7 +333,7 @@ export async function renderBackground(
       // Determine rotation angle
       let rotation = style.imageRotation ?? 0;
       if (style.randomizeRotation) {
-        rotation = Math.random() * 360;
+        rotation = random() * 360;
       }
 
       // Apply rotation if needed
@@ -362,7 +377,7 @@ export async function renderBackground(
 
   // 3. Apply texture overlay if enabled (works for all source types)
   if (style.texture.type !== 'none') {
-    applyTexture(ctx, style.texture, diameter, style.solidColor);
+    applyTexture(ctx, style.texture, diameter, style.solidColor, random);
   }
 
   // Reset filter before effects (effects should not be filtered)
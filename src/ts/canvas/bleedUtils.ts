@@ -1,6 +1,6 @@
 /**
  * Blood on the Clocktower Token Generator
- * Bleed Utilities - Print-professional edge bleeding for circular tokens
+ * Bleed Utilities - Print-professional edge bleeding for tokens
  *
  * The bleed algorithm extends edge colors outward to create print margins.
  * Key insight: the bleed ring must OVERLAP into the token's anti-aliased
@@ -40,6 +40,12 @@ export interface BleedConfig {
   innerOverlap: number;
 }
 
+/**
+ * Distance from the token center to its edge at an angle, as a ratio of the
+ * radius (non-circular token shapes)
+ */
+export type BleedBoundary = (angle: number) => number;
+
 // ============================================================================
 // Edge Color Sampling
 // ============================================================================
@@ -56,6 +62,7 @@ export interface BleedConfig {
  * @param radius - Radius of the token in pixels
  * @param sampleCount - Number of samples to take (e.g., 360 for 1° resolution)
  * @param safeDistance - Pixels inside edge to sample from (avoids AA zone)
+ * @param boundary - Edge distance per angle for non-circular tokens
  * @returns Array of edge color samples
  */
 export function sampleEdgeColors(
@@ -63,17 +70,18 @@ export function sampleEdgeColors(
   center: number,
   radius: number,
   sampleCount: number,
-  safeDistance: number
+  safeDistance: number,
+  boundary?: BleedBoundary
 ): EdgeSample[] {
   const samples: EdgeSample[] = [];
   const { width, data } = imageData;
 
   // Scale safe distance for very small tokens
   const scaledSafeDistance = Math.max(2, Math.min(safeDistance, radius * 0.1));
-  const sampleRadius = radius - scaledSafeDistance;
 
   for (let i = 0; i < sampleCount; i++) {
     const angle = (i / sampleCount) * Math.PI * 2;
+    const sampleRadius = radius * (boundary?.(angle) ?? 1) - scaledSafeDistance;
 
     // Calculate sample position
     const x = Math.round(center + Math.cos(angle) * sampleRadius);
@@ -160,7 +168,7 @@ export function interpolateSampleColor(
 // ============================================================================
 
 /**
- * Generate a bleed ring around a circular token.
+ * Generate a bleed ring around a token.
  *
  * The ring extends both INWARD (to overlap with anti-aliased edge) and
  * OUTWARD (the actual bleed margin). This ensures that when the original
@@ -179,7 +187,11 @@ export function interpolateSampleColor(
  * @param originalRadius - Original token radius
  * @param config - Bleed configuration
  * @param samples - Edge color samples from the token
+ * For non-circular tokens the ring follows the boundary inward and fills
+ * out to the canvas edge, so straight edges and corners are covered.
+ *
  * @param minAlphaThreshold - Minimum alpha for valid samples
+ * @param boundary - Edge distance per angle for non-circular tokens
  */
 export function generateBleedRing(
   bleedCtx: CanvasRenderingContext2D,
@@ -187,14 +199,15 @@ export function generateBleedRing(
   originalRadius: number,
   config: BleedConfig,
   samples: EdgeSample[],
-  minAlphaThreshold: number
+  minAlphaThreshold: number,
+  boundary?: BleedBoundary
 ): void {
   const { bleedPx, innerOverlap } = config;
   const bleedCenter = bleedSize / 2;
 
   // Ring bounds
   const innerRadius = originalRadius - innerOverlap; // Overlaps INTO token
-  const outerRadius = originalRadius + bleedPx; // Outer bleed edge
+  const outerRadius = boundary ? bleedSize : originalRadius + bleedPx; // Outer bleed edge
 
   // Get existing ImageData to preserve the white background
   // (createImageData would create transparent black pixels that show through)
@@ -211,12 +224,13 @@ export function generateBleedRing(
       const dy = y - bleedCenter;
       const dist = Math.sqrt(dx * dx + dy * dy);
 
-      // Skip pixels outside the bleed ring
-      if (dist < innerRadius || dist > outerRadius) continue;
-
       // Calculate angle for this pixel
       const angle = Math.atan2(dy, dx);
 
+      // Skip pixels outside the bleed ring
+      const edgeRatio = boundary?.(angle) ?? 1;
+      if (dist < innerRadius * edgeRatio || dist > outerRadius) continue;
+
       // Interpolate color from edge samples
       const color = interpolateSampleColor(samples, angle, minAlphaThreshold);
 
@@ -5,6 +5,7 @@
 
 import { clearFontCache, getCachedFont } from '@/ts/cache/instances/fontCache.js';
 import { CHARACTER_LAYOUT } from '@/ts/constants.js';
+import { getWrapUnits, joinWrapUnit } from '@/ts/utils/stringUtils.js';
 
 // ============================================================================
 // TEXT LAYOUT CACHING
@@ -45,7 +46,6 @@ export function calculateCircularTextLayout(
   const centerY = diameter / 2;
   const lineHeight = fontSize * lineHeightMultiplier;
 
-  const words = text.split(' ');
   const lines: string[] = [];
   let currentLine = '';
   let currentY = startY;
@@ -53,8 +53,9 @@ export function calculateCircularTextLayout(
   // Create width calculator with caching
   const widthCalculator = createCircularWidthCalculator(centerY, radius, circularPadding);
 
-  for (const word of words) {
-    const testLine = currentLine ? `${currentLine} ${word}` : word;
+  for (const unit of getWrapUnits(text)) {
+    const word = unit.text;
+    const testLine = joinWrapUnit(currentLine, unit);
     const testWidth = ctx.measureText(testLine).width;
 
     // Calculate available width at current Y position
@@ -5,6 +5,7 @@
 
 import CONFIG from '@/ts/config.js';
 import { ABILITY_TEXT_SHADOW, DEFAULT_COLORS, TEXT_SHADOW } from '@/ts/constants.js';
+import { getWrapUnits, joinWrapUnit } from '@/ts/utils/stringUtils.js';
 
 /**
  * Point interface for x, y coordinates
@@ -24,6 +25,19 @@ export interface CanvasContext {
   radius: number;
 }
 
+/**
+ * Decoded image that can be drawn onto a token
+ * (ImageBitmap when rendering inside a worker)
+ */
+export type DrawableImage = HTMLImageElement | ImageBitmap;
+
+/**
+ * Image loader injected into drawing helpers that fetch their own assets
+ * @param url - Image URL or local asset path
+ * @param isLocal - Whether the URL is a local asset path
+ */
+export type ImageLoader = (url: string, isLocal: boolean) => Promise<DrawableImage>;
+
 /**
  * Options for canvas creation
  */
@@ -32,6 +46,25 @@ export interface CanvasOptions {
   dpi?: number;
 }
 
+/**
+ * Create a blank canvas of the given pixel size.
+ * Outside the DOM (in a worker) this is an OffscreenCanvas, which supports
+ * the same 2D drawing API the token renderers use.
+ * @param width - Canvas width in pixels
+ * @param height - Canvas height in pixels
+ * @returns Canvas element
+ */
+export function createCanvasElement(width: number, height: number): HTMLCanvasElement {
+  if (typeof document === 'undefined') {
+    return new OffscreenCanvas(width, height) as unknown as HTMLCanvasElement;
+  }
+
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  return canvas;
+}
+
 /**
  * Create a canvas element with high-quality rendering settings
  * @param diameter - Canvas width and height in pixels (at base 300 DPI)
@@ -44,9 +77,7 @@ export function createCanvas(diameter: number, options: CanvasOptions = {}): Can
   const dpiScale = dpi / CONFIG.PDF.DPI;
   const scaledDiameter = Math.floor(diameter * dpiScale);
 
-  const canvas = document.createElement('canvas');
-  canvas.width = scaledDiameter;
-  canvas.height = scaledDiameter;
+  const canvas = createCanvasElement(scaledDiameter, scaledDiameter);
 
   const ctx = canvas.getContext('2d');
   if (!ctx) {
@@ -126,12 +157,12 @@ export function clearShadow(ctx: CanvasRenderingContext2D): void {
  * @returns Array of wrapped lines
  */
 export function wrapText(text: string, ctx: CanvasRenderingContext2D, maxWidth: number): string[] {
-  const words = text.split(' ');
   const lines: string[] = [];
   let currentLine = '';
 
-  for (const word of words) {
-    const testLine = currentLine ? `${currentLine} ${word}` : word;
+  for (const unit of getWrapUnits(text)) {
+    const word = unit.text;
+    const testLine = joinWrapUnit(currentLine, unit);
     const metrics = ctx.measureText(testLine);
 
     if (metrics.width > maxWidth && currentLine) {
@@ -158,10 +189,26 @@ export function wrapText(text: string, ctx: CanvasRenderingContext2D, maxWidth:
  */
 export function drawImageCover(
   ctx: CanvasRenderingContext2D,
-  img: HTMLImageElement,
+  img: DrawableImage,
   targetWidth: number,
   targetHeight: number
 ): void {
+  const { x, y, width, height } = getImageCoverRect(img, targetWidth, targetHeight);
+  ctx.drawImage(img, x, y, width, height);
+}
+
+/**
+ * Calculate where drawImageCover places an image
+ * @param img - Image to place
+ * @param targetWidth - Target width
+ * @param targetHeight - Target height
+ * @returns Draw position and size
+ */
+export function getImageCoverRect(
+  img: DrawableImage,
+  targetWidth: number,
+  targetHeight: number
+): { x: number; y: number; width: number; height: number } {
   const imgRatio = img.width / img.height;
   const targetRatio = targetWidth / targetHeight;
 
@@ -179,7 +226,7 @@ export function drawImageCover(
     drawY = (targetHeight - drawHeight) / 2;
   }
 
-  ctx.drawImage(img, drawX, drawY, drawWidth, drawHeight);
+  return { x: drawX, y: drawY, width: drawWidth, height: drawHeight };
 }
 
 /**
@@ -12,6 +12,7 @@ export {
 } from '@/ts/cache/instances/fontCache.js';
 // Accent drawing utilities
 export {
+  type AccentArc,
   type AccentDrawingOptions,
   drawAccents,
 } from './accentDrawing.js';
@@ -73,11 +74,15 @@ export {
   type CanvasOptions,
   clearShadow,
   createCanvas,
+  createCanvasElement,
   createCircularClipPath,
+  type DrawableImage,
   drawCenteredText,
   drawImageCover,
   drawMultiLineText,
   fillCircle,
+  getImageCoverRect,
+  type ImageLoader,
   measureCharacterWidths,
   type Point,
   strokeCircle,
@@ -96,6 +101,21 @@ export {
   QR_DEFAULTS,
   type StyledQRCodeOptions,
 } from './qrGeneration.js';
+// SVG recording of token drawing operations
+export {
+  getSvgDrawing,
+  getSvgRecorder,
+  type RecordedSvgElement,
+  type SvgDrawing,
+  type SvgElement,
+  type SvgFont,
+  type SvgImageSource,
+  SvgRecorder,
+  type SvgTextLine,
+  type SvgTextSegment,
+  type SvgTextShadow,
+  startSvgRecording,
+} from './svgRecorder.js';
 // Text drawing utilities
 export {
   applyConfigurableShadow,
@@ -105,5 +125,17 @@ export {
   drawCenteredWrappedText,
   drawCurvedText,
   drawQROverlayText,
+  drawStyledLine,
   drawTwoLineCenteredText,
+  getSegmentFontStyle,
 } from './textDrawing.js';
+// Token shapes (clip outlines, boundary lookup)
+export {
+  createShapeBoundary,
+  createTokenShapeClipPath,
+  createTokenShapePath,
+  getShapeBoundaryRatio,
+  getTokenShapeGeometry,
+  isValidShapePath,
+  type TokenShapeGeometry,
+} from './tokenShapes.js';
@@ -0,0 +1,229 @@
+/**
+ * Blood on the Clocktower Token Generator
+ * SVG Recorder - Records token drawing operations as vector elements
+ *
+ * While a token is drawn on canvas, the drawing helpers also report what
+ * they draw to a recorder attached to the context: images with their
+ * placement, curved and wrapped text with font settings, and badge shapes.
+ * The background is captured as a single raster layer. The recording is
+ * kept per canvas and serialized to SVG on export.
+ */
+
+import type { DrawableImage, Point } from './canvasUtils.js';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/**
+ * Image source that can be embedded in an SVG drawing
+ */
+export type SvgImageSource = DrawableImage | HTMLCanvasElement;
+
+/**
+ * Font used by a recorded text element
+ */
+export interface SvgFont {
+  family: string;
+  /** Fallback font stack (e.g. "Georgia, serif") */
+  fallback: string;
+  size: number;
+  bold: boolean;
+}
+
+/**
+ * Drop shadow behind recorded text (canvas shadowBlur and offset)
+ */
+export interface SvgTextShadow {
+  blur: number;
+  offset: number;
+}
+
+/**
+ * Run of text within a line (bold for setup brackets and *bold* markup,
+ * italic for _italic_ markup)
+ */
+export interface SvgTextSegment {
+  text: string;
+  bold: boolean;
+  italic?: boolean;
+}
+
+/**
+ * Line of horizontal text, centered on the drawing's x
+ */
+export interface SvgTextLine {
+  y: number;
+  segments: SvgTextSegment[];
+  /** Width the line is squeezed into when it is too long */
+  textLength?: number;
+}
+
+/**
+ * Recorded drawing element
+ */
+export type SvgElement =
+  | {
+      kind: 'raster';
+      /** Encoded image data URL */
+      href: string;
+      x: number;
+      y: number;
+      width: number;
+      height: number;
+    }
+  | {
+      kind: 'image';
+      source: SvgImageSource;
+      x: number;
+      y: number;
+      width: number;
+      height: number;
+      /** Optional transform applied before x/y (accents) */
+      translate?: Point;
+      /** Rotation in radians, applied after translate */
+      rotate?: number;
+    }
+  | {
+      kind: 'curved-text';
+      text: string;
+      center: Point;
+      radius: number;
+      position: 'top' | 'bottom';
+      font: SvgFont;
+      color: string;
+      letterSpacing: number;
+      shadow?: SvgTextShadow;
+      /** Arc length to fit the text into when it is compressed */
+      textLength?: number;
+    }
+  | {
+      kind: 'text';
+      x: number;
+      lines: SvgTextLine[];
+      baseline: 'top' | 'middle';
+      font: SvgFont;
+      color: string;
+      letterSpacing: number;
+      shadow?: SvgTextShadow;
+    }
+  | {
+      kind: 'circle';
+      center: Point;
+      radius: number;
+      fill: string;
+      stroke?: string;
+      strokeWidth?: number;
+    };
+
+/**
+ * Element with whether it is clipped to the token outline
+ */
+export interface RecordedSvgElement {
+  element: SvgElement;
+  clipped: boolean;
+}
+
+/**
+ * Recorded token drawing
+ */
+export interface SvgDrawing {
+  /** Token diameter in drawing units (canvas coordinates) */
+  diameter: number;
+  /** DPI the diameter was computed at (drawing units per inch) */
+  dpi: number;
+  /** Token outline as SVG path data in a 100×100 box (default: circle) */
+  outline?: string;
+  elements: RecordedSvgElement[];
+}
+
+// ============================================================================
+// RECORDER
+// ============================================================================
+
+/**
+ * Collects vector elements for one token
+ */
+export class SvgRecorder {
+  readonly drawing: SvgDrawing;
+  private clipped = false;
+
+  constructor(diameter: number, dpi: number, outline?: string) {
+    this.drawing = { diameter, dpi, outline, elements: [] };
+  }
+
+  /**
+   * Clip following elements to the token outline (until endClip)
+   */
+  beginClip(): void {
+    this.clipped = true;
+  }
+
+  endClip(): void {
+    this.clipped = false;
+  }
+
+  /**
+   * Record an element
+   */
+  add(element: SvgElement): void {
+    this.drawing.elements.push({ element, clipped: this.clipped });
+  }
+
+  /**
+   * Capture everything drawn on the canvas so far as one raster layer
+   * (backgrounds: gradients, textures and effects have no vector form)
+   */
+  captureRaster(canvas: HTMLCanvasElement): void {
+    const { diameter } = this.drawing;
+    this.drawing.elements.push({
+      element: {
+        kind: 'raster',
+        href: canvas.toDataURL('image/png'),
+        x: 0,
+        y: 0,
+        width: diameter,
+        height: diameter,
+      },
+      clipped: false,
+    });
+  }
+}
+
+const recorders = new WeakMap<CanvasRenderingContext2D, SvgRecorder>();
+const drawings = new WeakMap<HTMLCanvasElement, SvgDrawing>();
+
+/**
+ * Start recording a token drawn on this canvas
+ * @param canvas - Token canvas (the drawing is looked up by it on export)
+ * @param ctx - Context the drawing helpers draw with
+ * @param diameter - Token diameter in canvas coordinates
+ * @param dpi - Generation DPI
+ * @param outline - Token outline path data (non-circular shapes)
+ */
+export function startSvgRecording(
+  canvas: HTMLCanvasElement,
+  ctx: CanvasRenderingContext2D,
+  diameter: number,
+  dpi: number,
+  outline?: string
+): SvgRecorder {
+  const recorder = new SvgRecorder(diameter, dpi, outline);
+  recorders.set(ctx, recorder);
+  drawings.set(canvas, recorder.drawing);
+  return recorder;
+}
+
+/**
+ * Recorder attached to a context, if the token is being recorded
+ */
+export function getSvgRecorder(ctx: CanvasRenderingContext2D): SvgRecorder | undefined {
+  return recorders.get(ctx);
+}
+
+/**
+ * Recorded drawing for a token canvas, if one was recorded
+ */
+export function getSvgDrawing(canvas: HTMLCanvasElement): SvgDrawing | undefined {
+  return drawings.get(canvas);
+}
@@ -5,12 +5,19 @@
 
 import { getCachedFont } from '@/ts/cache/instances/fontCache.js';
 import { CHARACTER_LAYOUT, DEFAULT_COLORS, LINE_HEIGHTS } from '@/ts/constants.js';
-import { getLineSegments, parseAbilityText } from '@/ts/utils/abilityTextParser.js';
+import {
+  getAbilityDisplayText,
+  getLineSegments,
+  hasStyledText,
+  type TextSegment,
+} from '@/ts/utils/abilityTextParser.js';
 import {
   calculateCircularTextLayout,
   precalculateCurvedTextPositions,
+  type TextLayoutResult,
 } from './canvasOptimizations.js';
 import { wrapText } from './canvasUtils.js';
+import { getSvgRecorder, type SvgTextLine } from './svgRecorder.js';
 
 /**
  * Options for curved text rendering
@@ -26,6 +33,13 @@ export interface CurvedTextOptions {
   color: string;
   letterSpacing: number;
   shadowBlur: number;
+  /** Fonts tried after fontFamily (default: Georgia, serif) */
+  fallbackFonts?: string;
+  /**
+   * Run the text straight across the edge (at centerY ± radius) instead of
+   * along the arc, squeezed to at most this width (straight-edged shapes)
+   */
+  straightMaxWidth?: number;
 }
 
 /**
@@ -40,6 +54,8 @@ export interface CenteredTextOptions {
   color: string;
   shadowBlur: number;
   verticalOffset?: number;
+  /** Fonts tried after fontFamily (default: Georgia, serif) */
+  fallbackFonts?: string;
 }
 
 /**
@@ -71,12 +87,18 @@ export function drawCurvedText(ctx: CanvasRenderingContext2D, options: CurvedTex
     color,
     letterSpacing,
     shadowBlur,
+    fallbackFonts = 'Georgia, serif',
   } = options;
 
+  if (options.straightMaxWidth !== undefined) {
+    drawStraightEdgeText(ctx, options, options.straightMaxWidth);
+    return;
+  }
+
   ctx.save();
 
   // Use cached font string
-  ctx.font = getCachedFont('bold', fontSize, fontFamily, 'Georgia, serif');
+  ctx.font = getCachedFont('bold', fontSize, fontFamily, fallbackFonts);
   ctx.fillStyle = color;
   ctx.textAlign = 'center';
   ctx.textBaseline = 'middle';
@@ -95,6 +117,20 @@ export function drawCurvedText(ctx: CanvasRenderingContext2D, options: CurvedTex
   const maxArcSpan = CHARACTER_LAYOUT.MAX_TEXT_ARC_SPAN;
   const arcSpan = Math.min(totalWidth / radius, maxArcSpan);
 
+  getSvgRecorder(ctx)?.add({
+    kind: 'curved-text',
+    text,
+    center: { x: centerX, y: centerY },
+    radius,
+    position,
+    font: { family: fontFamily, fallback: fallbackFonts, size: fontSize, bold: true },
+    color,
+    letterSpacing,
+    shadow: shadowBlur > 0 ? { blur: shadowBlur, offset: shadowBlur / 2 } : undefined,
+    // Over-long text is squeezed into the maximum arc
+    textLength: totalWidth / radius > maxArcSpan ? arcSpan * radius : undefined,
+  });
+
   // Starting angle for bottom text (centered)
   let startAngle: number;
   if (position === 'bottom') {
@@ -140,6 +176,82 @@ export function drawCurvedText(ctx: CanvasRenderingContext2D, options: CurvedTex
   ctx.restore();
 }
 
+/**
+ * Draw edge text in a straight line, centered, with the same letter spacing
+ * as curved text. Text wider than maxWidth has its spacing tightened, the way
+ * curved text is compressed into the maximum arc.
+ * @param ctx - Canvas context
+ * @param options - Curved text options (radius is the distance from center)
+ * @param maxWidth - Widest the text may run
+ */
+function drawStraightEdgeText(
+  ctx: CanvasRenderingContext2D,
+  options: CurvedTextOptions,
+  maxWidth: number
+): void {
+  const {
+    text,
+    centerX,
+    centerY,
+    radius,
+    fontFamily,
+    fontSize,
+    position,
+    color,
+    letterSpacing,
+    shadowBlur,
+    fallbackFonts = 'Georgia, serif',
+  } = options;
+
+  ctx.save();
+
+  ctx.font = getCachedFont('bold', fontSize, fontFamily, fallbackFonts);
+  ctx.fillStyle = color;
+  ctx.textAlign = 'center';
+  ctx.textBaseline = 'middle';
+  applyConfigurableShadow(ctx, shadowBlur);
+
+  const charWidths: number[] = [];
+  let totalCharWidth = 0;
+  for (const char of text) {
+    const width = ctx.measureText(char).width + letterSpacing;
+    charWidths.push(width);
+    totalCharWidth += width;
+  }
+
+  const span = Math.min(totalCharWidth, maxWidth);
+  const y = position === 'bottom' ? centerY + radius : centerY - radius;
+
+  getSvgRecorder(ctx)?.add({
+    kind: 'text',
+    x: centerX,
+    lines: [
+      {
+        y,
+        segments: [{ text, bold: true }],
+        textLength: totalCharWidth > maxWidth ? span : undefined,
+      },
+    ],
+    baseline: 'middle',
+    font: { family: fontFamily, fallback: fallbackFonts, size: fontSize, bold: true },
+    color,
+    letterSpacing,
+    shadow: shadowBlur > 0 ? { blur: shadowBlur, offset: shadowBlur / 2 } : undefined,
+  });
+
+  // Place each character at the middle of its share of the span
+  let x = centerX - span / 2;
+  let i = 0;
+  for (const char of text) {
+    const share = (charWidths[i] / totalCharWidth) * span;
+    ctx.fillText(char, x + share / 2, y);
+    x += share;
+    i++;
+  }
+
+  ctx.restore();
+}
+
 /**
  * Draw centered text with word wrapping
  * @param ctx - Canvas context
@@ -158,13 +270,14 @@ export function drawCenteredWrappedText(
     color,
     shadowBlur,
     verticalOffset = 0,
+    fallbackFonts = 'Georgia, serif',
   } = options;
 
   ctx.save();
 
   const fontSize = diameter * fontSizeRatio;
   // Use cached font string
-  ctx.font = getCachedFont('bold', fontSize, fontFamily, 'Georgia, serif');
+  ctx.font = getCachedFont('bold', fontSize, fontFamily, fallbackFonts);
   ctx.fillStyle = color;
   ctx.textAlign = 'center';
   ctx.textBaseline = 'middle';
@@ -185,6 +298,20 @@ export function drawCenteredWrappedText(
     ctx.fillText(lines[i], diameter / 2, startY + i * lineHeight);
   }
 
+  getSvgRecorder(ctx)?.add({
+    kind: 'text',
+    x: diameter / 2,
+    lines: lines.map((line, i) => ({
+      y: startY + i * lineHeight,
+      segments: [{ text: line, bold: true }],
+    })),
+    baseline: 'middle',
+    font: { family: fontFamily, fallback: fallbackFonts, size: fontSize, bold: true },
+    color,
+    letterSpacing: 0,
+    shadow: shadowBlur > 0 ? { blur: shadowBlur, offset: shadowBlur / 2 } : undefined,
+  });
+
   ctx.restore();
 }
 
@@ -232,11 +359,62 @@ export function drawTwoLineCenteredText(
   ctx.restore();
 }
 
+/**
+ * Canvas font style prefix for a styled ability text segment
+ * @param segment - Segment from getLineSegments
+ * @returns Style and weight for getCachedFont ('' for regular text)
+ */
+export function getSegmentFontStyle(segment: TextSegment): string {
+  return [segment.isItalic ? 'italic' : '', segment.isBold ? 'bold' : ''].filter(Boolean).join(' ');
+}
+
+/**
+ * Draw one line of styled segments centered on centerX
+ * @param ctx - Canvas context (font and textAlign are changed)
+ * @param segments - Segments from getLineSegments
+ * @param centerX - Horizontal center of the line
+ * @param y - Y position (uses the context's textBaseline)
+ * @param fontSize - Font size in pixels
+ * @param fontFamily - Font family name
+ * @param fallbackFonts - Fonts tried after fontFamily
+ */
+export function drawStyledLine(
+  ctx: CanvasRenderingContext2D,
+  segments: TextSegment[],
+  centerX: number,
+  y: number,
+  fontSize: number,
+  fontFamily: string,
+  fallbackFonts: string
+): void {
+  // Calculate total line width with mixed fonts
+  let totalWidth = 0;
+  for (const seg of segments) {
+    ctx.font = getCachedFont(getSegmentFontStyle(seg), fontSize, fontFamily, fallbackFonts);
+    totalWidth += ctx.measureText(seg.text).width;
+  }
+
+  // Start from left edge of centered text
+  let xPos = centerX - totalWidth / 2;
+  const previousAlign = ctx.textAlign;
+  ctx.textAlign = 'left'; // Left-align for segment drawing
+
+  // Draw each segment with its own font style
+  for (const seg of segments) {
+    ctx.font = getCachedFont(getSegmentFontStyle(seg), fontSize, fontFamily, fallbackFonts);
+    ctx.fillText(seg.text, xPos, y);
+    xPos += ctx.measureText(seg.text).width;
+  }
+
+  // Reset alignment for the caller
+  ctx.textAlign = previousAlign;
+}
+
 /**
  * Draw ability text on token (horizontal, word-wrapped with adaptive width based on circular shape)
  * This version uses optimized circular text layout calculation
  * @param ctx - Canvas context
- * @param ability - Ability text
+ * @param ability - Ability text, with bold/italic/:reminder: markup
  * @param diameter - Token diameter
  * @param fontFamily - Font family name
  * @param fontSizeRatio - Font size as ratio of diameter
@@ -246,6 +424,8 @@ export function drawTwoLineCenteredText(
  * @param color - Text color
  * @param letterSpacing - Letter spacing in pixels
  * @param shadowBlur - Shadow blur radius
+ * @param fallbackFonts - Fonts tried after fontFamily
+ * @param fittedLayout - Precomputed layout from text fitting (lines at this font size)
  */
 export function drawAbilityText(
   ctx: CanvasRenderingContext2D,
@@ -258,13 +438,15 @@ export function drawAbilityText(
   yPositionRatio: number,
   color: string,
   letterSpacing: number,
-  shadowBlur: number
+  shadowBlur: number,
+  fallbackFonts = 'sans-serif',
+  fittedLayout?: TextLayoutResult
 ): void {
   ctx.save();
 
   const fontSize = diameter * fontSizeRatio;
   // Use cached font string (normal weight for ability text)
-  ctx.font = getCachedFont('', fontSize, fontFamily, 'sans-serif');
+  ctx.font = getCachedFont('', fontSize, fontFamily, fallbackFonts);
   ctx.fillStyle = color;
   ctx.textAlign = 'center';
   ctx.textBaseline = 'top';
@@ -283,55 +465,67 @@ export function drawAbilityText(
 
   const startY = diameter * yPositionRatio;
 
-  // Use optimized circular text layout calculation
-  const layout = calculateCircularTextLayout(
-    ctx,
-    ability,
-    diameter,
-    fontSize,
-    lineHeightMultiplier,
-    startY,
-    CHARACTER_LAYOUT.ABILITY_TEXT_CIRCULAR_PADDING
-  );
-
-  // Check if we have bold text (setup brackets)
-  const segments = parseAbilityText(ability);
-  const hasBoldText = segments.some((s) => s.isBold);
+  // Use the fitted layout when given, else the optimized circular text layout
+  const layout =
+    fittedLayout ??
+    calculateCircularTextLayout(
+      ctx,
+      getAbilityDisplayText(ability),
+      diameter,
+      fontSize,
+      lineHeightMultiplier,
+      startY,
+      CHARACTER_LAYOUT.ABILITY_TEXT_CIRCULAR_PADDING
+    );
+
+  // Check if we have styled text (setup brackets, bold or italic markup)
+  const hasStyles = hasStyledText(ability);
 
   // Draw lines
+  const recordedLines: SvgTextLine[] = [];
   let currentY = startY;
   for (const line of layout.lines) {
-    if (!hasBoldText) {
-      // Fast path: no bold text, use simple centered drawing
+    const lineSegments = hasStyles
+      ? getLineSegments(line, ability)
+      : [{ text: line, isBold: false, isItalic: false }];
+    recordedLines.push({
+      y: currentY,
+      segments: lineSegments.map((seg) => ({
+        text: seg.text,
+        bold: seg.isBold,
+        italic: seg.isItalic,
+      })),
+    });
+
+    if (!hasStyles) {
+      // Fast path: no styled text, use simple centered drawing
       ctx.fillText(line, diameter / 2, currentY);
     } else {
-      // Slow path: render segment-by-segment for mixed bold/normal text
-      const lineSegments = getLineSegments(line, ability);
-
-      // Calculate total line width with mixed fonts
-      let totalWidth = 0;
-      for (const seg of lineSegments) {
-        ctx.font = getCachedFont(seg.isBold ? 'bold' : '', fontSize, fontFamily, 'sans-serif');
-        totalWidth += ctx.measureText(seg.text).width;
-      }
-
-      // Start from left edge of centered text
-      let xPos = diameter / 2 - totalWidth / 2;
-
-      // Draw each segment with appropriate font weight
-      for (const seg of lineSegments) {
-        ctx.font = getCachedFont(seg.isBold ? 'bold' : '', fontSize, fontFamily, 'sans-serif');
-        ctx.textAlign = 'left'; // Left-align for segment drawing
-        ctx.fillText(seg.text, xPos, currentY);
-        xPos += ctx.measureText(seg.text).width;
-      }
-
-      // Reset alignment for next iteration
-      ctx.textAlign = 'center';
+      // Slow path: render segment-by-segment for mixed styles
+      drawStyledLine(
+        ctx,
+        lineSegments,
+        diameter / 2,
+        currentY,
+        fontSize,
+        fontFamily,
+        fallbackFonts
+      );
     }
     currentY += layout.lineHeight;
   }
 
+  getSvgRecorder(ctx)?.add({
+    kind: 'text',
+    x: diameter / 2,
+    lines: recordedLines,
+    baseline: 'top',
+    font: { family: fontFamily, fallback: fallbackFonts, size: fontSize, bold: false },
+    color,
+    letterSpacing,
+    shadow: shadowBlur > 0 ? { blur: shadowBlur, offset: shadowBlur / 3 } : undefined,
+  });
+
   ctx.restore();
 }
 
@@ -386,6 +580,7 @@ export default {
   drawCenteredWrappedText,
   drawTwoLineCenteredText,
   drawAbilityText,
+  drawStyledLine,
   drawQROverlayText,
   applyConfigurableShadow,
 };
@@ -0,0 +1,231 @@
+/**
+ * Blood on the Clocktower Token Generator
+ * Token Shapes - Outlines for circular and non-circular tokens
+ *
+ * Every shape is an SVG path in a 100×100 box centered on (50, 50), scaled
+ * to the token diameter when drawn. Clipping, accent placement, bleed and
+ * SVG export all read the same outline. Edges that are straight (square and
+ * hexagon bottoms) get straight text instead of text on an arc.
+ */
+
+import type { TokenShape } from '@/ts/types/index.js';
+import { createCanvasElement, createCircularClipPath } from './canvasUtils.js';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/**
+ * Resolved outline and text behavior of a token shape
+ */
+export interface TokenShapeGeometry {
+  shape: TokenShape;
+  /** SVG path data in a 100×100 box */
+  outline: string;
+  /** Edges where names run straight instead of along an arc */
+  straightEdges: { top: boolean; bottom: boolean };
+  /** Widest straight text as a ratio of the token diameter */
+  straightTextWidth: number;
+}
+
+// ============================================================================
+// SHAPES
+// ============================================================================
+
+/** Size of the box outlines are defined in */
+const OUTLINE_BOX = 100;
+
+/** Boundary samples per full turn (interpolated between) */
+const BOUNDARY_SAMPLES = 360;
+
+const CIRCLE: TokenShapeGeometry = {
+  shape: 'circle',
+  outline: 'M 50 0 A 50 50 0 1 1 50 100 A 50 50 0 1 1 50 0 Z',
+  straightEdges: { top: false, bottom: false },
+  straightTextWidth: 0,
+};
+
+const BUILT_IN_SHAPES: Record<Exclude<TokenShape, 'custom'>, TokenShapeGeometry> = {
+  circle: CIRCLE,
+  'rounded-square': {
+    shape: 'rounded-square',
+    outline:
+      'M 12 0 H 88 A 12 12 0 0 1 100 12 V 88 A 12 12 0 0 1 88 100 H 12 A 12 12 0 0 1 0 88 V 12 A 12 12 0 0 1 12 0 Z',
+    straightEdges: { top: true, bottom: true },
+    straightTextWidth: 0.8,
+  },
+  // Flat top and bottom so names sit on an edge
+  hexagon: {
+    shape: 'hexagon',
+    outline: 'M 25 6.7 H 75 L 100 50 L 75 93.3 H 25 L 0 50 Z',
+    straightEdges: { top: true, bottom: true },
+    straightTextWidth: 0.55,
+  },
+  shield: {
+    shape: 'shield',
+    outline: 'M 6 4 H 94 V 44 C 94 72 74 88 50 98 C 26 88 6 72 6 44 Z',
+    straightEdges: { top: true, bottom: false },
+    straightTextWidth: 0.8,
+  },
+};
+
+/**
+ * Resolve the geometry for a token shape
+ * @param shape - Shape option (default: circle)
+ * @param customPath - SVG path data in a 100×100 box (custom shape only)
+ * @returns Shape geometry; custom shapes without a path fall back to a circle
+ */
+export function getTokenShapeGeometry(
+  shape: TokenShape = 'circle',
+  customPath?: string
+): TokenShapeGeometry {
+  if (shape !== 'custom') {
+    return BUILT_IN_SHAPES[shape] ?? CIRCLE;
+  }
+  const outline = customPath?.trim();
+  if (!outline) return CIRCLE;
+  return {
+    shape: 'custom',
+    outline,
+    straightEdges: { top: false, bottom: false },
+    straightTextWidth: 0,
+  };
+}
+
+/**
+ * Check whether custom path data can be used as a token outline
+ * (it must parse and contain the token center)
+ */
+export function isValidShapePath(pathData: string): boolean {
+  if (!pathData.trim()) return false;
+  try {
+    const probe = getProbeContext();
+    // Path2D ignores invalid data from the first bad command onward
+    return !!probe && probe.isPointInPath(new Path2D(pathData), OUTLINE_BOX / 2, OUTLINE_BOX / 2);
+  } catch {
+    return false;
+  }
+}
+
+// ============================================================================
+// PATHS AND CLIPPING
+// ============================================================================
+
+/**
+ * Create the token outline as a Path2D in token coordinates
+ * @param geometry - Shape geometry
+ * @param diameter - Token diameter
+ */
+export function createTokenShapePath(geometry: TokenShapeGeometry, diameter: number): Path2D {
+  const path = new Path2D();
+  path.addPath(
+    new Path2D(geometry.outline),
+    new DOMMatrix().scale(diameter / OUTLINE_BOX, diameter / OUTLINE_BOX)
+  );
+  return path;
+}
+
+/**
+ * Clip to the token shape.
+ * The current path is left as the token's bounding box, so fills that
+ * rely on it (backgrounds, effects) cover the token and get clipped.
+ * Circles keep the arc path so their output is unchanged.
+ * @param ctx - Canvas 2D context
+ * @param geometry - Shape geometry
+ * @param diameter - Token diameter
+ */
+export function createTokenShapeClipPath(
+  ctx: CanvasRenderingContext2D,
+  geometry: TokenShapeGeometry,
+  diameter: number
+): void {
+  if (geometry.shape === 'circle') {
+    const radius = diameter / 2;
+    createCircularClipPath(ctx, { x: radius, y: radius }, radius);
+    return;
+  }
+
+  ctx.clip(createTokenShapePath(geometry, diameter));
+  ctx.beginPath();
+  ctx.rect(0, 0, diameter, diameter);
+}
+
+// ============================================================================
+// BOUNDARY
+// ============================================================================
+
+let probeContext: CanvasRenderingContext2D | null | undefined;
+const boundaryTables = new Map<string, Float64Array>();
+
+function getProbeContext(): CanvasRenderingContext2D | null {
+  if (probeContext === undefined) {
+    probeContext = createCanvasElement(1, 1).getContext('2d');
+  }
+  return probeContext;
+}
+
+/**
+ * Distance from center to the outline along each sample angle, found by
+ * bisecting point-in-path tests (works for any path, including custom ones)
+ */
+function buildBoundaryTable(outline: string): Float64Array {
+  const table = new Float64Array(BOUNDARY_SAMPLES).fill(1);
+  const probe = getProbeContext();
+  if (!probe) return table;
+
+  const path = new Path2D(outline);
+  const half = OUTLINE_BOX / 2;
+  const maxDistance = half * Math.SQRT2;
+
+  for (let i = 0; i < BOUNDARY_SAMPLES; i++) {
+    const angle = (i / BOUNDARY_SAMPLES) * Math.PI * 2;
+    const dx = Math.cos(angle);
+    const dy = Math.sin(angle);
+    let inside = 0;
+    let outside = maxDistance;
+    for (let step = 0; step < 16; step++) {
+      const mid = (inside + outside) / 2;
+      if (probe.isPointInPath(path, half + dx * mid, half + dy * mid)) {
+        inside = mid;
+      } else {
+        outside = mid;
+      }
+    }
+    table[i] = inside / half;
+  }
+  return table;
+}
+
+/**
+ * Distance from the token center to its edge at an angle, as a ratio of the
+ * radius (1 for circles)
+ * @param geometry - Shape geometry
+ * @param angle - Angle in radians (0 = right, π/2 = bottom)
+ */
+export function getShapeBoundaryRatio(geometry: TokenShapeGeometry, angle: number): number {
+  if (geometry.shape === 'circle') return 1;
+
+  let table = boundaryTables.get(geometry.outline);
+  if (!table) {
+    table = buildBoundaryTable(geometry.outline);
+    boundaryTables.set(geometry.outline, table);
+  }
+
+  const turn = Math.PI * 2;
+  const position = ((((angle % turn) + turn) % turn) / turn) * BOUNDARY_SAMPLES;
+  const lower = Math.floor(position) % BOUNDARY_SAMPLES;
+  const upper = (lower + 1) % BOUNDARY_SAMPLES;
+  const t = position - Math.floor(position);
+  return table[lower] + (table[upper] - table[lower]) * t;
+}
+
+/**
+ * Build a boundary lookup for bleed and sampling helpers
+ * @returns Function from angle to edge distance ratio, or undefined for circles
+ */
+export function createShapeBoundary(
+  geometry: TokenShapeGeometry
+): ((angle: number) => number) | undefined {
+  if (geometry.shape === 'circle') return undefined;
+  return (angle) => getShapeBoundaryRatio(geometry, angle);
+}
@@ -44,6 +44,8 @@ export const CHARACTER_LAYOUT = {
   ICON_SPACE_RATIO_NO_ABILITY: 1.2,
   /** Top margin when no ability text (distance from top of token to start of icon space) */
   NO_ABILITY_TOP_MARGIN: 0.1,
+  /** Share of the token width at its height that a banner name may use */
+  NAME_BANNER_WIDTH: 0.9,
 
   /** Y position for token count badge from top */
   TOKEN_COUNT_Y_POSITION: 0.12,
@@ -95,6 +97,84 @@ export const QR_TOKEN_LAYOUT = {
   LOGO_SIZE_RATIO: 0.25,
 } as const;
 
+/**
+ * Text fitting limits for ability and reminder text (see generation/textFit.ts)
+ */
+export const TEXT_FIT = {
+  /** Smallest font scale text may shrink to before it is truncated */
+  MIN_FONT_SCALE: 0.7,
+  /** Font scale tried in the first pass, while the icon keeps its preferred size */
+  PREFERRED_MIN_FONT_SCALE: 0.85,
+  /** Step between font scales tried */
+  FONT_SCALE_STEP: 0.05,
+  /** Icon space (ratio of diameter between ability text and name) the first pass keeps */
+  PREFERRED_ICON_SPACE: 0.25,
+  /** Icon space below which ability text is truncated */
+  MIN_ICON_SPACE: 0.18,
+  /** Spacing between the two arcs of two-line reminder text (ratio of font size) */
+  REMINDER_LINE_SPACING: 1.05,
+  /** Icon scale on reminder tokens with two lines of text */
+  REMINDER_TWO_LINE_ICON_SCALE: 0.8,
+  /** Appended to truncated text */
+  ELLIPSIS: '\u2026',
+} as const;
+
+/**
+ * Layout ratios for token back faces (double-sided printing)
+ */
+export const BACK_FACE_LAYOUT = {
+  /** Ability text size relative to the front face ability text */
+  ABILITY_TEXT_SCALE: 1.5,
+  /** Max width ratio for back face ability text wrapping */
+  ABILITY_TEXT_MAX_WIDTH: 0.7,
+  /** Upward shift of the ability text, clear of the name at the bottom */
+  ABILITY_TEXT_RAISE: 0.04,
+} as const;
+
+// ============================================================================
+// ROLE CARDS - Portrait character cards (poker and tarot size)
+// ============================================================================
+
+/**
+ * Physical role card sizes in inches (portrait)
+ */
+export const ROLE_CARD_SIZES = {
+  poker: { width: 2.5, height: 3.5, label: 'Poker (2.5" × 3.5")' },
+  tarot: { width: 2.75, height: 4.75, label: 'Tarot (2.75" × 4.75")' },
+} as const;
+
+/**
+ * Layout ratios for role cards (relative to card height unless noted)
+ */
+export const ROLE_CARD_LAYOUT = {
+  /** Inset of the frame and content from the card edge (ratio of width) */
+  MARGIN: 0.07,
+  /** Frame stroke width */
+  FRAME_WIDTH: 0.004,
+  /** Character name baseline center */
+  NAME_Y: 0.085,
+  /** Character name font size */
+  NAME_SIZE: 0.062,
+  /** Team banner top */
+  BANNER_Y: 0.13,
+  /** Team banner height */
+  BANNER_HEIGHT: 0.045,
+  /** Team banner label font size (ratio of banner height) */
+  BANNER_TEXT_SIZE: 0.55,
+  /** Icon area top */
+  ICON_TOP: 0.2,
+  /** Icon area height */
+  ICON_HEIGHT: 0.38,
+  /** Ability text top */
+  ABILITY_Y: 0.61,
+  /** Ability text font size */
+  ABILITY_SIZE: 0.036,
+  /** Flavor text font size */
+  FLAVOR_SIZE: 0.028,
+  /** Gap between ability and flavor text */
+  FLAVOR_GAP: 0.025,
+} as const;
+
 // ============================================================================
 // TEXT SIZING - Line heights and typography settings
 // ============================================================================
@@ -487,6 +567,10 @@ export default {
   REMINDER_LAYOUT,
   META_TOKEN_LAYOUT,
   QR_TOKEN_LAYOUT,
+  TEXT_FIT,
+  BACK_FACE_LAYOUT,
+  ROLE_CARD_SIZES,
+  ROLE_CARD_LAYOUT,
   LINE_HEIGHTS,
   TOKEN_COUNT_BADGE,
   ACCENT_LAYOUT,
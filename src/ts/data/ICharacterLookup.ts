@@ -37,6 +37,13 @@ export interface ICharacterLookupService {
    */
   getCharacter(id: string): Character | null;
 
+  /**
+   * Resolve a display name or ID variant to a character
+   * @param query - Name or ID as written by a user (e.g. "Fortune Teller")
+   * @returns Character object or null
+   */
+  resolveName(query: string): Character | null;
+
   /**
    * Search characters by name or ID (fuzzy)
    * @param query - Search query
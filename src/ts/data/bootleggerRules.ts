@@ -0,0 +1,193 @@
+/**
+ * Blood on the Clocktower Token Generator
+ * Bootlegger Rules - Rule templates and validation for `_meta.bootlegger`
+ *
+ * Bootlegger rules are free text stored as `string[]` in the script meta.
+ * Templates are common rule shapes with character placeholders (`{A}`, `{B}`)
+ * that are filled with characters from the script before the text is stored,
+ * so the saved rules stay plain strings as the schema requires.
+ *
+ * Validation works on the stored text: it flags placeholders that were never
+ * filled and characters a rule names ("the Spy") that are not on the script.
+ */
+
+import type { Character } from '@/ts/types/index.js';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type BootleggerTemplateCategory = 'Setup' | 'Information' | 'Interaction';
+
+/**
+ * A reusable rule shape
+ */
+export interface BootleggerTemplate {
+  id: string;
+  label: string;
+  category: BootleggerTemplateCategory;
+  /** Rule text with `{A}`/`{B}` placeholders for characters on the script */
+  text: string;
+}
+
+export type BootleggerIssueLevel = 'error' | 'warning';
+
+/**
+ * A problem with one Bootlegger rule
+ */
+export interface BootleggerRuleIssue {
+  level: BootleggerIssueLevel;
+  message: string;
+}
+
+// ============================================================================
+// Templates
+// ============================================================================
+
+export const BOOTLEGGER_TEMPLATES: readonly BootleggerTemplate[] = [
+  {
+    id: 'exclusive',
+    label: 'Cannot both be in play',
+    category: 'Setup',
+    text: 'If the {A} is in play, the {B} is not.',
+  },
+  {
+    id: 'requires',
+    label: 'Brings another character',
+    category: 'Setup',
+    text: 'If the {A} is in play, the {B} is in play.',
+  },
+  {
+    id: 'extra-outsider',
+    label: 'Adds an Outsider',
+    category: 'Setup',
+    text: 'If the {A} is in play, there is an extra Outsider.',
+  },
+  {
+    id: 'starts-knowing',
+    label: 'Starts knowing a player',
+    category: 'Information',
+    text: 'The {A} starts knowing which player is the {B}.',
+  },
+  {
+    id: 'learns-death',
+    label: 'Learns of a death',
+    category: 'Information',
+    text: 'If the {A} dies, the {B} learns this tonight.',
+  },
+  {
+    id: 'registers-as',
+    label: 'Might register as',
+    category: 'Interaction',
+    text: 'The {A} might register as the {B}.',
+  },
+  {
+    id: 'unaffected',
+    label: 'Unaffected by an ability',
+    category: 'Interaction',
+    text: "The {A} is not affected by the {B}'s ability.",
+  },
+  {
+    id: 'no-bluff',
+    label: 'Cannot be bluffed',
+    category: 'Interaction',
+    text: 'The Demon can not be shown the {A} as a bluff.',
+  },
+];
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+const PLACEHOLDER_PATTERN = /\{([A-Z])\}/g;
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+// ============================================================================
+// Public API
+// ============================================================================
+
+/**
+ * Get the distinct placeholders of a template in order ("{A}", "{B}" → ['A', 'B'])
+ */
+export function getTemplatePlaceholders(text: string): string[] {
+  return [...new Set(Array.from(text.matchAll(PLACEHOLDER_PATTERN), (match) => match[1]))];
+}
+
+/**
+ * Replace placeholders with character names; unfilled placeholders are kept
+ *
+ * @param text - Template text
+ * @param values - Character name for each placeholder key
+ * @returns Rule text
+ */
+export function fillBootleggerTemplate(text: string, values: Record<string, string>): string {
+  return text.replace(
+    PLACEHOLDER_PATTERN,
+    (placeholder, key: string) => values[key] || placeholder
+  );
+}
+
+/**
+ * Find the characters a rule refers to with "the <Name>"
+ *
+ * Requiring the article avoids false hits on names that are also ordinary
+ * words ("is drunk", "a spy").
+ *
+ * @param text - Rule text
+ * @param candidates - Characters that may be referenced
+ * @returns Referenced characters, without duplicates
+ */
+export function findReferencedCharacters(text: string, candidates: Character[]): Character[] {
+  const found = new Map<string, Character>();
+  for (const character of candidates) {
+    if (!character.name || found.has(character.id)) continue;
+    const pattern = new RegExp(`\\b[Tt]he\\s+${escapeRegExp(character.name)}(?![\\w])`);
+    if (pattern.test(text)) found.set(character.id, character);
+  }
+  return [...found.values()];
+}
+
+/**
+ * Validate one Bootlegger rule against the script
+ *
+ * @param text - Rule text
+ * @param scriptCharacters - Characters on the script
+ * @param knownCharacters - All characters a rule might name (usually official data)
+ * @returns Problems found (empty when the rule is fine)
+ */
+export function validateBootleggerRule(
+  text: string,
+  scriptCharacters: Character[],
+  knownCharacters: Character[]
+): BootleggerRuleIssue[] {
+  const issues: BootleggerRuleIssue[] = [];
+  if (!text.trim()) return issues;
+
+  const placeholders = getTemplatePlaceholders(text);
+  if (placeholders.length > 0) {
+    issues.push({
+      level: 'error',
+      message: `Choose a character for ${placeholders.map((key) => `{${key}}`).join(', ')}`,
+    });
+  }
+
+  const scriptIds = new Set(scriptCharacters.map((c) => c.id.toLowerCase()));
+  const scriptNames = new Set(scriptCharacters.map((c) => c.name.toLowerCase()));
+  for (const character of findReferencedCharacters(text, [
+    ...scriptCharacters,
+    ...knownCharacters,
+  ])) {
+    if (
+      scriptIds.has(character.id.toLowerCase()) ||
+      scriptNames.has(character.name.toLowerCase())
+    ) {
+      continue;
+    }
+    issues.push({ level: 'warning', message: `The ${character.name} is not on the script` });
+  }
+
+  return issues;
+}
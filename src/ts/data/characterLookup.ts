@@ -5,6 +5,7 @@
  * Features:
  * - Character ID validation against official data
  * - Fuzzy search by name or ID
+ * - Name/ID-variant resolution (e.g. "Fortune Teller" → fortuneteller)
  * - Caches results for performance
  * - Integrates with DataSync service
  *
@@ -15,6 +16,7 @@
 
 import type { Character } from '@/ts/types/index.js';
 import { logger } from '@/ts/utils/logger.js';
+import { type CharacterResolver, createCharacterResolver } from './characterResolver.js';
 import type { ICharacterLookupService } from './ICharacterLookup.js';
 
 // ============================================================================
@@ -50,6 +52,7 @@ export interface CharacterLookupServiceDeps {
 export class CharacterLookupService implements ICharacterLookupService {
   private characters: Character[] = [];
   private characterMap: Map<string, Character> = new Map();
+  private resolver: CharacterResolver = createCharacterResolver([]);
   private lastUpdate: number = 0;
   private readonly cacheTtl: number;
 
@@ -84,6 +87,7 @@ export class CharacterLookupService implements ICharacterLookupService {
     for (const character of characters) {
       this.characterMap.set(character.id.toLowerCase(), character);
     }
+    this.resolver = createCharacterResolver(characters);
 
     this.lastUpdate = Date.now();
     logger.info('CharacterLookup', `Updated with ${characters.length} characters`);
@@ -109,6 +113,17 @@ export class CharacterLookupService implements ICharacterLookupService {
     return this.characterMap.get(id.toLowerCase()) || null;
   }
 
+  /**
+   * Resolve a display name or ID variant to a character
+   * Matches exact IDs, then IDs/names ignoring case, spaces and punctuation
+   * @param query - Name or ID as written by a user (e.g. "Fortune Teller", "fortune_teller")
+   * @returns Character object or null
+   */
+  resolveName(query: string): Character | null {
+    if (!query || typeof query !== 'string') return null;
+    return this.resolver.resolve(query)?.character ?? null;
+  }
+
   /**
    * Search characters by name or ID (fuzzy)
    * @param query - Search query
@@ -199,6 +214,7 @@ export class CharacterLookupService implements ICharacterLookupService {
   clear(): void {
     this.characters = [];
     this.characterMap.clear();
+    this.resolver = createCharacterResolver([]);
     this.lastUpdate = 0;
   }
 }
@@ -0,0 +1,204 @@
+/**
+ * Blood on the Clocktower Token Generator
+ * Character Resolver - Fuzzy matching of script entries to official characters
+ *
+ * Scripts pasted from Discord or older tools often reference characters by
+ * display name ("Fortune Teller") or by separated/legacy IDs ("fortune_teller",
+ * "fortune-teller") instead of the official ID ("fortuneteller"). The resolver
+ * matches those variants exactly after normalization, and ranks misspellings
+ * by edit-distance similarity so the UI can offer "did you mean" fixes.
+ */
+
+import type { Character } from '@/ts/types/index.js';
+import { getJsonProperty, parseJsonAst } from '@/ts/utils/jsonAst.js';
+import { levenshteinDistance } from '@/ts/utils/stringUtils.js';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * How a query was matched to a character
+ * - id: exact (case-insensitive) official ID
+ * - normalized-id: ID after removing spaces, separators and punctuation
+ * - name: display name after the same normalization
+ * - fuzzy: closest match by similarity score
+ */
+export type CharacterMatchType = 'id' | 'normalized-id' | 'name' | 'fuzzy';
+
+/**
+ * A candidate official character for a query
+ */
+export interface CharacterMatch {
+  character: Character;
+  /** Similarity between 0 and 1 (1 = exact after normalization) */
+  score: number;
+  matchType: CharacterMatchType;
+}
+
+/**
+ * Lookup service built once per official data set
+ */
+export interface CharacterResolver {
+  /**
+   * Resolve a query that matches an official character unambiguously
+   * (exact ID, normalized ID or normalized name)
+   * @returns The match, or null if only fuzzy candidates exist
+   */
+  resolve(query: string): CharacterMatch | null;
+  /**
+   * Rank official characters by similarity to a query
+   * @param limit - Maximum number of matches to return
+   * @returns Matches sorted by descending score (an unambiguous match is returned alone)
+   */
+  suggest(query: string, limit?: number): CharacterMatch[];
+}
+
+/**
+ * A script entry that referenced an official character by a non-canonical ID
+ */
+export interface CharacterSuggestion {
+  /** Zero-based index of the entry in the script array */
+  entryIndex: number;
+  /** Human-readable position (e.g. "Entry 4") */
+  position: string;
+  /** The ID or name as written in the script */
+  input: string;
+  /** Candidate characters, best first */
+  matches: CharacterMatch[];
+  /** Whether the parser already used the first match for this entry */
+  resolved: boolean;
+}
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+/** Minimum similarity for a fuzzy match to be suggested */
+export const MIN_SUGGESTION_SCORE = 0.7;
+
+/** Default number of fuzzy suggestions per entry */
+const DEFAULT_SUGGESTION_LIMIT = 3;
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+/**
+ * Normalize an ID or name for comparison: lowercase, strip accents, and drop
+ * everything that is not a letter or digit ("Hell's Librarian" → "hellslibrarian")
+ */
+export function normalizeCharacterKey(value: string): string {
+  return value
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9]/g, '');
+}
+
+/**
+ * Similarity between two normalized keys (1 - edit distance / longer length)
+ */
+function similarity(a: string, b: string): number {
+  if (!a || !b) return 0;
+  return 1 - levenshteinDistance(a, b) / Math.max(a.length, b.length);
+}
+
+// ============================================================================
+// Public API
+// ============================================================================
+
+/**
+ * Build a resolver for a set of official characters
+ *
+ * @param officialData - Official character data
+ * @returns Resolver with exact and fuzzy lookup
+ *
+ * @example
+ * ```typescript
+ * const resolver = createCharacterResolver(officialData);
+ * resolver.resolve('Fortune Teller'); // { character: fortuneteller, matchType: 'normalized-id', score: 1 }
+ * resolver.suggest('fortune_tellr');  // [{ character: fortuneteller, matchType: 'fuzzy', score: 0.92 }]
+ * ```
+ */
+export function createCharacterResolver(officialData: Character[]): CharacterResolver {
+  const byId = new Map<string, Character>();
+  const byNormalizedId = new Map<string, Character>();
+  const byNormalizedName = new Map<string, Character>();
+  const entries: Array<{ character: Character; idKey: string; nameKey: string }> = [];
+
+  for (const character of officialData) {
+    if (!character?.id) continue;
+    const idKey = normalizeCharacterKey(character.id);
+    const nameKey = normalizeCharacterKey(character.name ?? '');
+
+    byId.set(character.id.toLowerCase(), character);
+    if (idKey && !byNormalizedId.has(idKey)) byNormalizedId.set(idKey, character);
+    if (nameKey && !byNormalizedName.has(nameKey)) byNormalizedName.set(nameKey, character);
+    entries.push({ character, idKey, nameKey });
+  }
+
+  const resolve = (query: string): CharacterMatch | null => {
+    const exact = byId.get(query.toLowerCase());
+    if (exact) return { character: exact, score: 1, matchType: 'id' };
+
+    const key = normalizeCharacterKey(query);
+    if (!key) return null;
+
+    const normalizedId = byNormalizedId.get(key);
+    if (normalizedId) return { character: normalizedId, score: 1, matchType: 'normalized-id' };
+
+    const normalizedName = byNormalizedName.get(key);
+    if (normalizedName) return { character: normalizedName, score: 1, matchType: 'name' };
+
+    return null;
+  };
+
+  const suggest = (query: string, limit = DEFAULT_SUGGESTION_LIMIT): CharacterMatch[] => {
+    const resolved = resolve(query);
+    if (resolved) return [resolved];
+
+    const key = normalizeCharacterKey(query);
+    if (!key) return [];
+
+    return entries
+      .map(({ character, idKey, nameKey }) => ({
+        character,
+        score: Math.max(similarity(key, idKey), similarity(key, nameKey)),
+        matchType: 'fuzzy' as const,
+      }))
+      .filter((match) => match.score >= MIN_SUGGESTION_SCORE)
+      .sort((a, b) => b.score - a.score)
+      .slice(0, limit);
+  };
+
+  return { resolve, suggest };
+}
+
+/**
+ * Replace the character ID of one script entry, keeping the rest of the text
+ * (indentation, key order, other entries) untouched.
+ *
+ * Works for string entries ("fortune teller") and objects with an `id` field.
+ *
+ * @param text - Script JSON text
+ * @param entryIndex - Zero-based index of the entry in the script array
+ * @param id - Replacement character ID
+ * @returns Updated JSON text, or null if the entry could not be located
+ */
+export function replaceScriptEntryId(text: string, entryIndex: number, id: string): string | null {
+  const root = parseJsonAst(text);
+  if (root?.type !== 'array') return null;
+
+  const entry = root.items[entryIndex];
+  let target: { from: number; to: number } | undefined;
+  if (entry?.type === 'string') {
+    target = entry;
+  } else if (entry?.type === 'object') {
+    const idProperty = getJsonProperty(entry, 'id');
+    if (idProperty?.value.type === 'string') target = idProperty.value;
+  }
+  if (!target) return null;
+
+  return text.slice(0, target.from) + JSON.stringify(id) + text.slice(target.to);
+}
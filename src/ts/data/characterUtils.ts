@@ -122,6 +122,40 @@ export function getGlobalReminders(character: Character): string[] {
   return [];
 }
 
+// ============================================================================
+// Character Search
+// ============================================================================
+
+/**
+ * Check whether a character matches a full-text search query
+ *
+ * The query is split on whitespace and every term must appear in the name,
+ * ID, ability, flavor or reminder text (case-insensitive). An empty query
+ * matches everything.
+ *
+ * @param character - Character object
+ * @param query - Search query
+ * @returns true if all query terms match
+ */
+export function matchesCharacterSearch(character: Character, query: string): boolean {
+  const terms = query.toLowerCase().split(/\s+/).filter(Boolean);
+  if (terms.length === 0) {
+    return true;
+  }
+  const haystack = [
+    character.name,
+    character.id,
+    character.ability,
+    character.flavor,
+    ...(Array.isArray(character.reminders) ? character.reminders : []),
+    ...getGlobalReminders(character),
+  ]
+    .filter(Boolean)
+    .join('\n')
+    .toLowerCase();
+  return terms.every((term) => haystack.includes(term));
+}
+
 // ============================================================================
 // Character Grouping and Counting
 // ============================================================================
@@ -306,6 +340,7 @@ export default {
   getAllCharacterImageUrls,
   countReminders,
   getGlobalReminders,
+  matchesCharacterSearch,
   groupByTeam,
   calculateTokenCounts,
   getBestPreviewCharacter,
@@ -0,0 +1,117 @@
+/**
+ * Blood on the Clocktower Token Generator
+ * Editions - Official edition facets and base edition scripts
+ *
+ * Official characters carry an `edition` ID ('tb', 'bmr', 'snv'; empty for
+ * experimental characters). Fabled and Loric are grouped by team instead,
+ * since they sit outside the editions. A base edition's script is its
+ * Townsfolk, Outsiders, Minions and Demons; its Travellers are left out as on
+ * the published scripts.
+ */
+
+import type { Character, ScriptMeta, Team } from '@/ts/types/index.js';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type EditionId = 'tb' | 'bmr' | 'snv' | 'experimental' | 'fabled' | 'loric';
+
+export type BaseEditionId = 'tb' | 'bmr' | 'snv';
+
+export interface EditionInfo {
+  id: EditionId;
+  name: string;
+  /** Short label for facet chips */
+  shortName: string;
+}
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+export const EDITIONS: readonly EditionInfo[] = [
+  { id: 'tb', name: 'Trouble Brewing', shortName: 'TB' },
+  { id: 'bmr', name: 'Bad Moon Rising', shortName: 'BMR' },
+  { id: 'snv', name: 'Sects & Violets', shortName: 'S&V' },
+  { id: 'experimental', name: 'Experimental', shortName: 'Exp' },
+  { id: 'fabled', name: 'Fabled', shortName: 'Fabled' },
+  { id: 'loric', name: 'Loric', shortName: 'Loric' },
+];
+
+export const BASE_EDITION_IDS: readonly BaseEditionId[] = ['tb', 'bmr', 'snv'];
+
+/** Teams printed on a base edition script */
+const BASE_SCRIPT_TEAMS: ReadonlySet<Team> = new Set(['townsfolk', 'outsider', 'minion', 'demon']);
+
+const BASE_SCRIPT_AUTHOR = 'The Pandemonium Institute';
+
+// ============================================================================
+// Public API
+// ============================================================================
+
+/**
+ * Check whether an edition is one of the three base editions
+ */
+export function isBaseEdition(id: EditionId): id is BaseEditionId {
+  return (BASE_EDITION_IDS as readonly string[]).includes(id);
+}
+
+/**
+ * Get the display info for an edition
+ */
+export function getEditionInfo(id: EditionId): EditionInfo {
+  return EDITIONS.find((edition) => edition.id === id) ?? EDITIONS[3];
+}
+
+/**
+ * Get the edition facet a character belongs to
+ */
+export function getCharacterEdition(character: Character): EditionId {
+  if (character.team === 'fabled') return 'fabled';
+  if (character.team === 'loric') return 'loric';
+  const edition = character.edition?.toLowerCase();
+  return edition === 'tb' || edition === 'bmr' || edition === 'snv' ? edition : 'experimental';
+}
+
+/**
+ * Count characters per edition facet
+ */
+export function countByEdition(characters: Character[]): Record<EditionId, number> {
+  const counts: Record<EditionId, number> = {
+    tb: 0,
+    bmr: 0,
+    snv: 0,
+    experimental: 0,
+    fabled: 0,
+    loric: 0,
+  };
+  for (const character of characters) {
+    counts[getCharacterEdition(character)]++;
+  }
+  return counts;
+}
+
+/**
+ * Get the characters on a base edition's script, in the given order
+ *
+ * @param characters - Official characters
+ * @param edition - Base edition
+ * @returns Townsfolk, Outsiders, Minions and Demons of the edition
+ */
+export function getBaseEditionCharacters(
+  characters: Character[],
+  edition: BaseEditionId
+): Character[] {
+  return characters.filter(
+    (character) =>
+      getCharacterEdition(character) === edition && BASE_SCRIPT_TEAMS.has(character.team)
+  );
+}
+
+/**
+ * Script meta for a base edition script
+ */
+export function getBaseEditionMeta(edition: BaseEditionId): ScriptMeta {
+  return { id: '_meta', name: getEditionInfo(edition).name, author: BASE_SCRIPT_AUTHOR };
+}
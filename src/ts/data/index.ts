@@ -3,12 +3,35 @@
  * Data Module - Barrel export for all data loading and parsing functionality
  */
 
+// Bootlegger rule templates and validation
+export {
+  BOOTLEGGER_TEMPLATES,
+  type BootleggerIssueLevel,
+  type BootleggerRuleIssue,
+  type BootleggerTemplate,
+  type BootleggerTemplateCategory,
+  fillBootleggerTemplate,
+  findReferencedCharacters,
+  getTemplatePlaceholders,
+  validateBootleggerRule,
+} from './bootleggerRules.js';
 // Character lookup service
 export {
   CharacterLookupService,
   type CharacterLookupServiceDeps,
   characterLookup,
 } from './characterLookup.js';
+// Character resolution (names, ID variants, fuzzy suggestions)
+export {
+  type CharacterMatch,
+  type CharacterMatchType,
+  type CharacterResolver,
+  type CharacterSuggestion,
+  createCharacterResolver,
+  MIN_SUGGESTION_SCORE,
+  normalizeCharacterKey,
+  replaceScriptEntryId,
+} from './characterResolver.js';
 // Character utilities
 export {
   calculateTokenCounts,
@@ -16,6 +39,7 @@ export {
   getCharacterImageUrl,
   getGlobalReminders,
   groupByTeam,
+  matchesCharacterSearch,
   validateCharacter,
 } from './characterUtils.js';
 // Data loading (I/O operations)
@@ -23,7 +47,73 @@ export {
   loadExampleScript,
   loadJsonFile,
 } from './dataLoader.js';
+// Official editions (facets and base edition scripts)
+export {
+  BASE_EDITION_IDS,
+  type BaseEditionId,
+  countByEdition,
+  EDITIONS,
+  type EditionId,
+  type EditionInfo,
+  getBaseEditionCharacters,
+  getBaseEditionMeta,
+  getCharacterEdition,
+  getEditionInfo,
+  isBaseEdition,
+} from './editions.js';
 export type { ICharacterLookupService } from './ICharacterLookup.js';
+// Jinx utilities
+export {
+  getCharacterJinxes,
+  getJinxesForCharacter,
+  getScriptJinxes,
+  type JinxNormalizeResult,
+  type JinxPair,
+  normalizeJinxes,
+} from './jinxUtils.js';
+// Localization packs (translated character text)
+export {
+  findLocalizationPack,
+  getLocalizationCoverage,
+  type LocalizationCoverage,
+  type LocalizationPackParseResult,
+  localizeCharacter,
+  localizeCharacters,
+  parseLocalizationPack,
+  upsertLocalizationPack,
+} from './localization.js';
+// Reminder sync (night reminder text vs. reminder tokens)
+export {
+  addReminders,
+  analyzeReminderSync,
+  getNightReminderTokens,
+  type ReminderSyncIssue,
+  type ReminderSyncReport,
+} from './reminderSync.js';
+// Script analysis (balance and composition checks)
+export {
+  type AbilityCategory,
+  analyzeScript,
+  type BalanceWarning,
+  type BalanceWarningLevel,
+  type CompositionTeam,
+  getSetupModifiers,
+  type NightLoad,
+  type ScriptAnalysis,
+  type SetupModifier,
+  STANDARD_COMPOSITION,
+  type TeamCompositionRow,
+} from './scriptAnalyzer.js';
+// Script linting (schema diagnostics on raw JSON text)
+export {
+  applyScriptQuickFix,
+  lintScriptJson,
+  type ScriptDiagnostic,
+  type ScriptDiagnosticSeverity,
+  type ScriptLintCode,
+  type ScriptQuickFix,
+  type ScriptTextChange,
+} from './scriptLinter.js';
 // Script parsing
 export {
   extractScriptMeta,
@@ -34,3 +124,38 @@ export {
   type ScriptValidationResult,
   validateAndParseScript,
 } from './scriptParser.js';
+// Random scripts (constrained draws from the official pool)
+export {
+  DEFAULT_RANDOM_SCRIPT_COUNTS,
+  generateRandomScript,
+  type RandomScriptOptions,
+  type RandomScriptResult,
+  type RandomScriptTeam,
+} from './scriptRandomizer.js';
+// Script import from plain-text, CSV and Markdown character lists
+export {
+  type CharacterListFormat,
+  type CharacterListImportResult,
+  importCharacterList,
+  isJsonText,
+} from './scriptTextImporter.js';
+// Script variants (player-count cuts such as Teensyville)
+export {
+  buildScriptVariant,
+  getPlayerCountSetup,
+  getVariantComposition,
+  MAX_PLAYER_COUNT,
+  MIN_PLAYER_COUNT,
+  type ScriptVariantOptions,
+  TEENSYVILLE_COMPOSITION,
+  TEENSYVILLE_MAX_PLAYERS,
+} from './scriptVariant.js';
+// App integration ("special") items
+export {
+  normalizeSpecial,
+  SPECIAL_GLOBALS,
+  SPECIAL_NAMES,
+  SPECIAL_TIMES,
+  SPECIAL_TYPES,
+  type SpecialNormalizeResult,
+} from './specialUtils.js';
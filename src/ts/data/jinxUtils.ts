@@ -0,0 +1,147 @@
+/**
+ * Blood on the Clocktower Token Generator
+ * Jinx Utilities - Validate jinx arrays and resolve jinx pairs within a script
+ *
+ * Jinxes follow the official script schema: a character carries
+ * `jinxes: [{ id, reason }]` where `id` is the other character in the pair.
+ * Either side of a pair may declare the jinx (official data usually stores it
+ * on one side only), so pairs are deduplicated when collected.
+ */
+
+import type { Character, Jinx } from '@/ts/types/index.js';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * A jinx between two characters that are both present on a script
+ */
+export interface JinxPair {
+  /** Character that declares the jinx */
+  character: Character;
+  /** Character referenced by the jinx `id` */
+  target: Character;
+  /** Rules text explaining how the interaction resolves */
+  reason: string;
+}
+
+/**
+ * Result of normalizing a raw `jinxes` value
+ */
+export interface JinxNormalizeResult {
+  /** Valid jinx entries (invalid entries are dropped) */
+  jinxes: Jinx[];
+  /** Problems found while normalizing */
+  errors: string[];
+}
+
+// ============================================================================
+// Validation
+// ============================================================================
+
+/**
+ * Validate and normalize a raw `jinxes` value from script JSON.
+ * Entries must be objects with a non-empty string `id` and a string `reason`.
+ *
+ * @param value - Raw value of the `jinxes` field
+ * @returns Valid entries plus a list of problems for invalid ones
+ */
+export function normalizeJinxes(value: unknown): JinxNormalizeResult {
+  if (value === undefined) {
+    return { jinxes: [], errors: [] };
+  }
+  if (!Array.isArray(value)) {
+    return { jinxes: [], errors: ['jinxes must be an array'] };
+  }
+
+  const jinxes: Jinx[] = [];
+  const errors: string[] = [];
+
+  value.forEach((item, index) => {
+    if (typeof item !== 'object' || item === null) {
+      errors.push(`jinx ${index + 1} must be an object`);
+      return;
+    }
+    const { id, reason } = item as Record<string, unknown>;
+    if (typeof id !== 'string' || !id.trim()) {
+      errors.push(`jinx ${index + 1} is missing a character id`);
+      return;
+    }
+    if (reason !== undefined && typeof reason !== 'string') {
+      errors.push(`jinx ${index + 1} (${id}) reason must be a string`);
+      return;
+    }
+    jinxes.push({ id: id.trim(), reason: reason ?? '' });
+  });
+
+  return { jinxes, errors };
+}
+
+/**
+ * Get the jinxes declared on a character (always an array)
+ */
+export function getCharacterJinxes(character: Character): Jinx[] {
+  return Array.isArray(character.jinxes) ? character.jinxes : [];
+}
+
+// ============================================================================
+// Pair Resolution
+// ============================================================================
+
+/**
+ * Build an order-independent key for a pair of character IDs
+ */
+function pairKey(idA: string, idB: string): string {
+  const a = idA.toLowerCase();
+  const b = idB.toLowerCase();
+  return a < b ? `${a}|${b}` : `${b}|${a}`;
+}
+
+/**
+ * Collect every jinx whose two characters are both on the script.
+ * Pairs declared on both sides are reported once (first declaration wins).
+ *
+ * @param characters - Characters on the script
+ * @returns Jinx pairs in script order of the declaring character
+ */
+export function getScriptJinxes(characters: Character[]): JinxPair[] {
+  const byId = new Map<string, Character>();
+  for (const char of characters) {
+    if (char.id) {
+      byId.set(char.id.toLowerCase(), char);
+    }
+  }
+
+  const seen = new Set<string>();
+  const pairs: JinxPair[] = [];
+
+  for (const character of characters) {
+    for (const jinx of getCharacterJinxes(character)) {
+      const target = byId.get(jinx.id.toLowerCase());
+      if (!target || target === character) continue;
+
+      const key = pairKey(character.id, target.id);
+      if (seen.has(key)) continue;
+      seen.add(key);
+
+      pairs.push({ character, target, reason: jinx.reason });
+    }
+  }
+
+  return pairs;
+}
+
+/**
+ * Get the jinx pairs that involve a specific character
+ *
+ * @param characterId - Character ID to look up
+ * @param characters - Characters on the script
+ */
+export function getJinxesForCharacter(characterId: string, characters: Character[]): JinxPair[] {
+  const lowerId = characterId.toLowerCase();
+  return getScriptJinxes(characters).filter(
+    (pair) =>
+      pair.character.id.toLowerCase() === lowerId || pair.target.id.toLowerCase() === lowerId
+  );
+}
@@ -0,0 +1,213 @@
+/**
+ * Blood on the Clocktower Token Generator
+ * Localization - Translation packs for character text
+ *
+ * A localization pack carries translated names, abilities, reminders and
+ * night reminders for one locale. Packs are imported as JSON and applied on
+ * top of the parsed script when tokens, night order sheets and script sheets
+ * are rendered; the script JSON itself always keeps its source text.
+ *
+ * Accepted pack JSON:
+ * ```json
+ * { "locale": "de", "name": "Deutsch",
+ *   "characters": { "washerwoman": { "name": "Waschweib", "ability": "..." } } }
+ * ```
+ * `characters` may also be an array of objects with an `id` field.
+ */
+
+import type { Character, LocalizationPack, LocalizedCharacterFields } from '@/ts/types/index.js';
+import { normalizeCharacterKey } from './characterResolver.js';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * Result of parsing a localization pack
+ */
+export interface LocalizationPackParseResult {
+  pack: LocalizationPack | null;
+  /** Problems that made the pack unusable */
+  errors: string[];
+  /** Entries or fields that were skipped */
+  warnings: string[];
+}
+
+/**
+ * How much of a script a pack translates
+ */
+export interface LocalizationCoverage {
+  translated: number;
+  total: number;
+  /** IDs of characters without a translated name or ability */
+  missing: string[];
+}
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+const STRING_FIELDS = ['name', 'ability', 'firstNightReminder', 'otherNightReminder'] as const;
+
+const LOCALE_PATTERN = /^[a-z]{2,3}(-[a-z0-9]{2,8})*$/i;
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function parseFields(
+  id: string,
+  value: Record<string, unknown>,
+  warnings: string[]
+): LocalizedCharacterFields | null {
+  const fields: LocalizedCharacterFields = {};
+  for (const key of STRING_FIELDS) {
+    const text = value[key];
+    if (text === undefined) continue;
+    if (typeof text === 'string') fields[key] = text;
+    else warnings.push(`"${id}": ${key} must be a string`);
+  }
+  if (value.reminders !== undefined) {
+    if (Array.isArray(value.reminders) && value.reminders.every((r) => typeof r === 'string')) {
+      fields.reminders = value.reminders as string[];
+    } else {
+      warnings.push(`"${id}": reminders must be an array of strings`);
+    }
+  }
+  return Object.keys(fields).length > 0 ? fields : null;
+}
+
+// ============================================================================
+// Public API
+// ============================================================================
+
+/**
+ * Parse and validate a localization pack
+ *
+ * @param data - Parsed JSON of the pack file
+ * @returns The pack (null when unusable) with errors and warnings
+ */
+export function parseLocalizationPack(data: unknown): LocalizationPackParseResult {
+  const errors: string[] = [];
+  const warnings: string[] = [];
+
+  if (!isRecord(data)) {
+    return { pack: null, errors: ['Localization pack must be a JSON object'], warnings };
+  }
+
+  const locale = typeof data.locale === 'string' ? data.locale.trim() : '';
+  if (!locale) {
+    errors.push('Missing "locale" (e.g. "de", "zh-CN", "ja")');
+  } else if (!LOCALE_PATTERN.test(locale)) {
+    errors.push(`"${locale}" is not a valid locale tag`);
+  }
+
+  const entries: [string, unknown][] = [];
+  if (Array.isArray(data.characters)) {
+    for (const item of data.characters) {
+      if (isRecord(item) && typeof item.id === 'string') entries.push([item.id, item]);
+      else warnings.push('Skipped a character entry without an "id"');
+    }
+  } else if (isRecord(data.characters)) {
+    entries.push(...Object.entries(data.characters));
+  } else {
+    errors.push('Missing "characters" (an object keyed by character ID, or an array)');
+  }
+
+  const characters: Record<string, LocalizedCharacterFields> = {};
+  for (const [id, value] of entries) {
+    const key = normalizeCharacterKey(id);
+    if (!key || !isRecord(value)) {
+      warnings.push(`Skipped invalid entry "${id}"`);
+      continue;
+    }
+    const fields = parseFields(id, value, warnings);
+    if (fields) characters[key] = { ...characters[key], ...fields };
+  }
+
+  if (errors.length === 0 && Object.keys(characters).length === 0) {
+    errors.push('Pack contains no translations');
+  }
+  if (errors.length > 0) return { pack: null, errors, warnings };
+
+  const name = typeof data.name === 'string' && data.name.trim() ? data.name.trim() : locale;
+  return { pack: { locale, name, characters }, errors, warnings };
+}
+
+/**
+ * Find the pack for a locale (case-insensitive)
+ */
+export function findLocalizationPack(
+  packs: readonly LocalizationPack[],
+  locale: string | undefined
+): LocalizationPack | undefined {
+  if (!locale) return undefined;
+  const wanted = locale.toLowerCase();
+  return packs.find((pack) => pack.locale.toLowerCase() === wanted);
+}
+
+/**
+ * Add a pack, replacing any pack for the same locale
+ */
+export function upsertLocalizationPack(
+  packs: readonly LocalizationPack[],
+  pack: LocalizationPack
+): LocalizationPack[] {
+  const locale = pack.locale.toLowerCase();
+  return [...packs.filter((p) => p.locale.toLowerCase() !== locale), pack];
+}
+
+/**
+ * Apply a pack's translations to one character
+ *
+ * Untranslated fields keep their source text; reminders are matched by
+ * position so reminder counts never change.
+ */
+export function localizeCharacter(character: Character, pack: LocalizationPack): Character {
+  const fields = pack.characters[normalizeCharacterKey(character.id)];
+  if (!fields) return character;
+
+  const localized: Character = { ...character };
+  for (const key of STRING_FIELDS) {
+    if (fields[key]) localized[key] = fields[key];
+  }
+  if (fields.reminders && character.reminders) {
+    localized.reminders = character.reminders.map(
+      (reminder, i) => fields.reminders?.[i] || reminder
+    );
+  }
+  return localized;
+}
+
+/**
+ * Apply a pack to a list of characters
+ *
+ * @returns The same array when there is no pack
+ */
+export function localizeCharacters(
+  characters: Character[],
+  pack: LocalizationPack | undefined
+): Character[] {
+  if (!pack) return characters;
+  return characters.map((character) => localizeCharacter(character, pack));
+}
+
+/**
+ * Count the characters a pack translates (name or ability)
+ */
+export function getLocalizationCoverage(
+  characters: Character[],
+  pack: LocalizationPack
+): LocalizationCoverage {
+  const missing = characters
+    .filter((c) => {
+      const fields = pack.characters[normalizeCharacterKey(c.id)];
+      return !fields?.name && !fields?.ability;
+    })
+    .map((c) => c.id);
+  return { translated: characters.length - missing.length, total: characters.length, missing };
+}
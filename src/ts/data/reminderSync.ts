@@ -0,0 +1,216 @@
+/**
+ * Blood on the Clocktower Token Generator
+ * Reminder Sync - Consistency checks between night reminder text and reminder tokens
+ *
+ * Night reminder text names reminder tokens in bold (`*POISONED*`) and marks
+ * token placements with `:reminder:`. Homebrew characters often reference
+ * tokens in their night text that are missing from `reminders`, or list
+ * reminders their night text never mentions. This module compares the two
+ * and builds the additions for a batch "sync reminders" action.
+ *
+ * Official characters are skipped: their data is canonical and editing them
+ * would turn their ID entries into full custom objects.
+ */
+
+import { parseAbilityText } from '@/ts/nightOrder/nightOrderUtils.js';
+import type { Character } from '@/ts/types/index.js';
+import { capitalize } from '@/ts/utils/stringUtils.js';
+import { normalizeCharacterKey } from './characterResolver.js';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * Reminder inconsistencies for one character
+ */
+export interface ReminderSyncIssue {
+  character: Character;
+  /** Tokens named in night text but not listed, formatted as reminder names ("Sculpture") */
+  missing: string[];
+  /** Listed reminders (local or global) that no night text in the script mentions */
+  unused: string[];
+  /** Night text places a token (`:reminder:`) but the character lists no reminders */
+  unlistedPlacement: boolean;
+}
+
+/**
+ * Result of comparing night text and reminders across a script
+ */
+export interface ReminderSyncReport {
+  /** Characters with at least one inconsistency, in script order */
+  issues: ReminderSyncIssue[];
+  /** Total reminder names that can be added */
+  missingCount: number;
+  /** Total reminders flagged as unused */
+  unusedCount: number;
+}
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+/**
+ * Info tokens shown to players; bold in night text but never reminder tokens
+ */
+const INFO_TOKEN_TEXTS = new Set(
+  [
+    'THIS IS THE DEMON',
+    'THESE ARE YOUR MINIONS',
+    'THESE CHARACTERS ARE NOT IN PLAY',
+    'THIS CHARACTER SELECTED YOU',
+    'THIS PLAYER IS',
+    'YOU ARE',
+    'YOU ARE GOOD',
+    'YOU ARE EVIL',
+    'USE YOUR ABILITY?',
+    'DID YOU NOMINATE TODAY?',
+    'DID YOU VOTE TODAY?',
+    'MAKE A CHOICE',
+  ].map(normalizeCharacterKey)
+);
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+/**
+ * Comparison key for a reminder name: normalized and singular
+ * ("PATIENTS" and "Patient" compare equal)
+ */
+function reminderKey(name: string): string {
+  const key = normalizeCharacterKey(name);
+  return key.length > 3 && key.endsWith('s') ? key.slice(0, -1) : key;
+}
+
+/**
+ * Whether bold night text is something shown to a player rather than a token
+ * ("YOU ARE", "I AM SPARTACUS!")
+ */
+function isInfoText(text: string): boolean {
+  return /[!?]$/.test(text.trim()) || INFO_TOKEN_TEXTS.has(normalizeCharacterKey(text));
+}
+
+/**
+ * Format a token name from night text as a reminder ("1ST DEMON" → "1st Demon").
+ * Mixed-case names are kept as written.
+ */
+function toReminderName(text: string): string {
+  const name = text.trim();
+  if (name !== name.toUpperCase()) return name;
+  return name
+    .split(/\s+/)
+    .map((word) => capitalize(word))
+    .join(' ');
+}
+
+function getNightTexts(character: Character): string[] {
+  return [character.firstNightReminder, character.otherNightReminder].filter(
+    (text): text is string => !!text?.trim()
+  );
+}
+
+function getListedReminders(character: Character): string[] {
+  return [...(character.reminders ?? []), ...(character.remindersGlobal ?? [])];
+}
+
+// ============================================================================
+// Public API
+// ============================================================================
+
+/**
+ * Get the reminder token names a night reminder references in bold
+ * (info tokens such as *YOU ARE* are excluded)
+ *
+ * @param text - First or other night reminder text
+ * @returns Token names as written, without duplicates
+ */
+export function getNightReminderTokens(text: string): string[] {
+  const names = new Map<string, string>();
+  for (const segment of parseAbilityText(text)) {
+    if (!(segment.isBold && segment.text.trim()) || isInfoText(segment.text)) continue;
+    const key = reminderKey(segment.text);
+    if (key && !names.has(key)) names.set(key, segment.text.trim());
+  }
+  return [...names.values()];
+}
+
+/**
+ * Compare each custom character's night reminder text with its reminders
+ *
+ * A token is missing when the character's own night text names it and no
+ * character in the script lists it (so references to another character's
+ * tokens are not flagged). A reminder is unused when the character has night
+ * text but no night text in the script names it; day-only reminders are
+ * legitimate, so these are reported but never removed automatically.
+ *
+ * @param characters - Characters in the script
+ * @returns Inconsistencies per character
+ *
+ * @example
+ * ```typescript
+ * const { issues } = analyzeReminderSync([
+ *   { id: 'sculptor', reminders: [], firstNightReminder: 'Point to the *SCULPTURE*. :reminder:', ... },
+ * ]);
+ * // issues[0].missing: ['Sculpture']
+ * ```
+ */
+export function analyzeReminderSync(characters: Character[]): ReminderSyncReport {
+  const listedKeys = new Set<string>();
+  const referencedKeys = new Set<string>();
+  for (const character of characters) {
+    for (const reminder of getListedReminders(character)) listedKeys.add(reminderKey(reminder));
+    for (const text of getNightTexts(character)) {
+      for (const name of getNightReminderTokens(text)) referencedKeys.add(reminderKey(name));
+    }
+  }
+
+  const issues: ReminderSyncIssue[] = [];
+  let missingCount = 0;
+  let unusedCount = 0;
+
+  for (const character of characters) {
+    if (character.source === 'official') continue;
+    const nightTexts = getNightTexts(character);
+    if (nightTexts.length === 0) continue;
+
+    const missing = new Map<string, string>();
+    for (const text of nightTexts) {
+      for (const name of getNightReminderTokens(text)) {
+        const key = reminderKey(name);
+        if (!(listedKeys.has(key) || missing.has(key))) missing.set(key, toReminderName(name));
+      }
+    }
+
+    const listed = getListedReminders(character);
+    const unused = [...new Set(listed)].filter(
+      (reminder) => !referencedKeys.has(reminderKey(reminder))
+    );
+    const unlistedPlacement =
+      listed.length === 0 &&
+      missing.size === 0 &&
+      nightTexts.some((text) => parseAbilityText(text).some((segment) => segment.isCircle));
+
+    if (missing.size === 0 && unused.length === 0 && !unlistedPlacement) continue;
+
+    issues.push({ character, missing: [...missing.values()], unused, unlistedPlacement });
+    missingCount += missing.size;
+    unusedCount += unused.length;
+  }
+
+  return { issues, missingCount, unusedCount };
+}
+
+/**
+ * Add reminder names to a character (skipping ones it already lists)
+ *
+ * @param character - Character to update
+ * @param names - Reminder names to add
+ * @returns A new character with the reminders appended
+ */
+export function addReminders(character: Character, names: string[]): Character {
+  const existing = new Set(getListedReminders(character).map(reminderKey));
+  const additions = names.filter((name) => !existing.has(reminderKey(name)));
+  if (additions.length === 0) return character;
+  return { ...character, reminders: [...(character.reminders ?? []), ...additions] };
+}
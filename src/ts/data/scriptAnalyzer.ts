@@ -0,0 +1,280 @@
+/**
+ * Blood on the Clocktower Token Generator
+ * Script Analyzer - Balance and composition checks for a script
+ *
+ * getScriptSortStats and calculateTokenCounts only count entries. The analyzer
+ * goes further and produces a design checklist: team counts against the usual
+ * 13/4/4/4 composition, SAO ability categories, setup modifiers ([brackets]),
+ * night load, and coverage warnings such as a missing outsider-modifying Minion.
+ */
+
+import { TEAM_LABELS } from '@/ts/constants.js';
+import type { Character, Team } from '@/ts/types/index.js';
+import { hasSetupBrackets } from '@/ts/utils/abilityTextParser.js';
+import { getSAOAbilityPrefix, SAO_ABILITY_PREFIXES } from '@/ts/utils/scriptSorting.js';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/** Teams that make up the core composition of a script */
+export type CompositionTeam = 'townsfolk' | 'outsider' | 'minion' | 'demon';
+
+/**
+ * Character count for one core team compared to the usual composition
+ */
+export interface TeamCompositionRow {
+  team: CompositionTeam;
+  count: number;
+  expected: number;
+  /** count - expected (negative = fewer than usual) */
+  difference: number;
+}
+
+/**
+ * Characters grouped under one SAO ability prefix
+ */
+export interface AbilityCategory {
+  /** Matching prefix from SAO_ABILITY_PREFIXES */
+  prefix: string;
+  characters: Character[];
+}
+
+/**
+ * A character whose ability changes setup (e.g. "[+2 Outsiders]")
+ */
+export interface SetupModifier {
+  character: Character;
+  /** Bracket contents without the brackets */
+  text: string;
+  /** Whether the modifier changes the Outsider count */
+  modifiesOutsiders: boolean;
+}
+
+/**
+ * Characters that wake on each night type
+ */
+export interface NightLoad {
+  firstNight: Character[];
+  otherNight: Character[];
+}
+
+export type BalanceWarningLevel = 'warning' | 'info';
+
+/**
+ * A design concern found while analyzing the script
+ */
+export interface BalanceWarning {
+  /** Stable identifier for the check that produced the warning */
+  id: string;
+  level: BalanceWarningLevel;
+  message: string;
+}
+
+/**
+ * Full analysis of a script
+ */
+export interface ScriptAnalysis {
+  /** Number of characters on the script (all teams) */
+  characterCount: number;
+  /** Core team counts in SAO team order */
+  composition: TeamCompositionRow[];
+  /** Counts for teams outside the core composition */
+  extraTeamCounts: Record<'traveller' | 'fabled' | 'loric', number>;
+  /** Ability categories in SAO prefix order (empty categories omitted) */
+  abilityCategories: AbilityCategory[];
+  /** Core-team characters whose ability matches no SAO prefix */
+  uncategorized: Character[];
+  setupModifiers: SetupModifier[];
+  nightLoad: NightLoad;
+  warnings: BalanceWarning[];
+}
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+/** Usual character counts for a full script (13 Townsfolk, 4 Outsiders, 4 Minions, 4 Demons) */
+export const STANDARD_COMPOSITION: Readonly<Record<CompositionTeam, number>> = {
+  townsfolk: 13,
+  outsider: 4,
+  minion: 4,
+  demon: 4,
+};
+
+const COMPOSITION_TEAMS = Object.keys(STANDARD_COMPOSITION) as CompositionTeam[];
+
+/** Minimum Townsfolk that wake on other nights before the script feels quiet */
+const MIN_OTHER_NIGHT_TOWNSFOLK = 2;
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+function isCompositionTeam(team: Team): team is CompositionTeam {
+  return team in STANDARD_COMPOSITION;
+}
+
+function wakesOn(character: Character, night: 'firstNight' | 'otherNight'): boolean {
+  const reminder =
+    night === 'firstNight' ? character.firstNightReminder : character.otherNightReminder;
+  return (character[night] ?? 0) > 0 || !!reminder?.trim();
+}
+
+/**
+ * Extract setup modifiers ([bracket] text) from a character's ability
+ */
+export function getSetupModifiers(character: Character): SetupModifier[] {
+  const ability = character.ability ?? '';
+  if (!hasSetupBrackets(ability)) return [];
+
+  return Array.from(ability.matchAll(/\[([^\]]*)\]/g), (match) => ({
+    character,
+    text: match[1].trim(),
+    modifiesOutsiders: /outsider/i.test(match[1]),
+  }));
+}
+
+function pluralLabel(team: CompositionTeam): string {
+  return team === 'townsfolk' ? TEAM_LABELS.townsfolk : `${TEAM_LABELS[team]}s`;
+}
+
+// ============================================================================
+// Checks
+// ============================================================================
+
+/**
+ * Build coverage and balance warnings from the collected statistics
+ */
+function collectWarnings(
+  characters: Character[],
+  composition: TeamCompositionRow[],
+  setupModifiers: SetupModifier[],
+  nightLoad: NightLoad
+): BalanceWarning[] {
+  const warnings: BalanceWarning[] = [];
+  const countOf = (team: CompositionTeam) =>
+    composition.find((row) => row.team === team)?.count ?? 0;
+
+  if (countOf('demon') === 0) {
+    warnings.push({ id: 'no-demon', level: 'warning', message: 'No Demon on the script' });
+  }
+  if (countOf('minion') === 0) {
+    warnings.push({ id: 'no-minion', level: 'warning', message: 'No Minions on the script' });
+  }
+
+  for (const row of composition) {
+    if (row.difference === 0 || row.count === 0) continue;
+    const direction = row.difference < 0 ? 'Fewer' : 'More';
+    warnings.push({
+      id: `composition-${row.team}`,
+      level: 'info',
+      message: `${direction} ${pluralLabel(row.team)} than usual (${row.count}/${row.expected})`,
+    });
+  }
+  if (countOf('townsfolk') === 0) {
+    warnings.push({ id: 'no-townsfolk', level: 'warning', message: 'No Townsfolk on the script' });
+  }
+  if (countOf('outsider') === 0) {
+    warnings.push({ id: 'no-outsider', level: 'warning', message: 'No Outsiders on the script' });
+  }
+
+  const minionModifiesOutsiders = setupModifiers.some(
+    (mod) => mod.character.team === 'minion' && mod.modifiesOutsiders
+  );
+  if (countOf('minion') > 0 && !minionModifiesOutsiders) {
+    warnings.push({
+      id: 'no-outsider-modifying-minion',
+      level: 'warning',
+      message: 'No outsider-modifying Minion (like the Baron or Godfather)',
+    });
+  }
+
+  if (countOf('demon') === 1) {
+    warnings.push({
+      id: 'single-demon',
+      level: 'info',
+      message: 'Only one Demon: good players will always know which Demon they face',
+    });
+  }
+
+  const startKnowing = characters.some(
+    (c) => c.team === 'townsfolk' && getSAOAbilityPrefix(c.ability) === 'You start knowing'
+  );
+  if (countOf('townsfolk') > 0 && !startKnowing) {
+    warnings.push({
+      id: 'no-start-knowing',
+      level: 'info',
+      message: 'No Townsfolk start with information ("You start knowing")',
+    });
+  }
+
+  const otherNightTownsfolk = nightLoad.otherNight.filter((c) => c.team === 'townsfolk').length;
+  if (countOf('townsfolk') > 0 && otherNightTownsfolk < MIN_OTHER_NIGHT_TOWNSFOLK) {
+    warnings.push({
+      id: 'quiet-other-nights',
+      level: 'info',
+      message: `Only ${otherNightTownsfolk} Townsfolk wake after the first night`,
+    });
+  }
+
+  return warnings;
+}
+
+// ============================================================================
+// Public API
+// ============================================================================
+
+/**
+ * Analyze a script's balance and composition
+ *
+ * @param characters - Characters on the script (meta entries excluded)
+ * @returns Composition, ability categories, setup modifiers, night load and warnings
+ */
+export function analyzeScript(characters: Character[]): ScriptAnalysis {
+  const composition: TeamCompositionRow[] = COMPOSITION_TEAMS.map((team) => {
+    const count = characters.filter((c) => c.team === team).length;
+    const expected = STANDARD_COMPOSITION[team];
+    return { team, count, expected, difference: count - expected };
+  });
+
+  const extraTeamCounts = {
+    traveller: characters.filter((c) => c.team === 'traveller').length,
+    fabled: characters.filter((c) => c.team === 'fabled').length,
+    loric: characters.filter((c) => c.team === 'loric').length,
+  };
+
+  // Ability categories only consider the core teams (Fabled/Loric are storyteller tools)
+  const coreCharacters = characters.filter((c) => isCompositionTeam(c.team));
+  const byPrefix = new Map<string, Character[]>();
+  const uncategorized: Character[] = [];
+  for (const character of coreCharacters) {
+    const prefix = getSAOAbilityPrefix(character.ability);
+    if (!prefix) {
+      uncategorized.push(character);
+      continue;
+    }
+    byPrefix.set(prefix, [...(byPrefix.get(prefix) ?? []), character]);
+  }
+  const abilityCategories = SAO_ABILITY_PREFIXES.filter((prefix) => byPrefix.has(prefix)).map(
+    (prefix) => ({ prefix, characters: byPrefix.get(prefix) ?? [] })
+  );
+
+  const setupModifiers = coreCharacters.flatMap(getSetupModifiers);
+
+  const nightLoad: NightLoad = {
+    firstNight: characters.filter((c) => wakesOn(c, 'firstNight')),
+    otherNight: characters.filter((c) => wakesOn(c, 'otherNight')),
+  };
+
+  return {
+    characterCount: characters.length,
+    composition,
+    extraTeamCounts,
+    abilityCategories,
+    uncategorized,
+    setupModifiers,
+    nightLoad,
+    warnings: collectWarnings(characters, composition, setupModifiers, nightLoad),
+  };
+}
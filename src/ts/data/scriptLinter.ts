@@ -0,0 +1,589 @@
+/**
+ * Blood on the Clocktower Token Generator
+ * Script Linter - Schema-aware diagnostics for script JSON text
+ *
+ * Unlike validateAndParseScript (which works on parsed data and returns plain
+ * warning strings), the linter works on the raw JSON text so every problem
+ * can be mapped to the exact range that caused it. Each diagnostic carries an
+ * optional quick fix expressed as text changes, so editors can apply it
+ * without knowing anything about the script schema.
+ *
+ * The linter assumes syntactically valid JSON; syntax errors are left to the
+ * JSON parser linter and produce no schema diagnostics.
+ */
+
+import CONFIG from '@/ts/config.js';
+import { SPECIAL_ENTRY_IDS } from '@/ts/nightOrder/nightOrderTypes.js';
+import {
+  getJsonProperty,
+  getListRemovalRange,
+  type JsonArrayNode,
+  type JsonNode,
+  type JsonObjectNode,
+  parseJsonAst,
+} from '@/ts/utils/jsonAst.js';
+import { nameToId } from '@/ts/utils/nameGenerator.js';
+import { levenshteinDistance } from '@/ts/utils/stringUtils.js';
+import {
+  analyzeReminderText,
+  getIssueSummary,
+  normalizeReminderText,
+} from '@/ts/utils/textFormatAnalyzer.js';
+import { SPECIAL_GLOBALS, SPECIAL_NAMES, SPECIAL_TIMES, SPECIAL_TYPES } from './specialUtils.js';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type ScriptDiagnosticSeverity = 'error' | 'warning' | 'info';
+
+/**
+ * Identifies which rule produced a diagnostic
+ */
+export type ScriptLintCode =
+  | 'not-array'
+  | 'invalid-entry'
+  | 'missing-id'
+  | 'duplicate-id'
+  | 'unknown-team'
+  | 'wrong-type'
+  | 'unknown-night-order-id'
+  | 'reminder-format'
+  | 'invalid-special';
+
+/**
+ * A single text replacement (offsets refer to the linted text)
+ */
+export interface ScriptTextChange {
+  from: number;
+  to: number;
+  insert: string;
+}
+
+/**
+ * A quick fix that resolves a diagnostic
+ */
+export interface ScriptQuickFix {
+  /** Short action label shown in the editor */
+  label: string;
+  /** Text changes to apply (non-overlapping) */
+  changes: ScriptTextChange[];
+}
+
+/**
+ * A schema problem mapped to a range of the JSON text
+ */
+export interface ScriptDiagnostic {
+  from: number;
+  to: number;
+  severity: ScriptDiagnosticSeverity;
+  code: ScriptLintCode;
+  message: string;
+  fix?: ScriptQuickFix;
+}
+
+/**
+ * Expected JSON type of a known field
+ */
+type FieldKind = 'string' | 'number' | 'boolean' | 'array' | 'stringArray' | 'stringOrStringArray';
+
+// ============================================================================
+// Schema
+// ============================================================================
+
+/** Known character fields and their expected types */
+const CHARACTER_FIELDS: Record<string, FieldKind> = {
+  id: 'string',
+  name: 'string',
+  team: 'string',
+  ability: 'string',
+  flavor: 'string',
+  overview: 'string',
+  edition: 'string',
+  image: 'stringOrStringArray',
+  setup: 'boolean',
+  reminders: 'stringArray',
+  remindersGlobal: 'stringArray',
+  firstNight: 'number',
+  otherNight: 'number',
+  firstNightReminder: 'string',
+  otherNightReminder: 'string',
+  jinxes: 'array',
+  special: 'array',
+};
+
+/** Known _meta fields and their expected types */
+const META_FIELDS: Record<string, FieldKind> = {
+  name: 'string',
+  version: 'string',
+  author: 'string',
+  logo: 'string',
+  hideTitle: 'boolean',
+  almanac: 'string',
+  background: 'string',
+  firstNight: 'stringArray',
+  otherNight: 'stringArray',
+  bootlegger: 'stringArray',
+};
+
+/** Enumerated fields of a special item and their allowed values */
+const SPECIAL_ENUM_FIELDS: Record<string, readonly string[]> = {
+  type: SPECIAL_TYPES,
+  name: SPECIAL_NAMES,
+  time: SPECIAL_TIMES,
+  global: SPECIAL_GLOBALS,
+};
+
+/** Special item fields that must be present */
+const SPECIAL_REQUIRED_FIELDS = ['type', 'name'] as const;
+
+/** Reminder fields checked by the text format analyzer */
+const NIGHT_REMINDER_FIELDS = ['firstNightReminder', 'otherNightReminder'] as const;
+
+/** Teams a character may belong to (meta is reserved for the _meta entry) */
+const CHARACTER_TEAMS = CONFIG.TEAMS.filter((team) => team !== 'meta') as readonly string[];
+
+/** Common misspellings mapped to the schema team value */
+const TEAM_ALIASES: Record<string, string> = {
+  traveler: 'traveller',
+  townsperson: 'townsfolk',
+  townsfolks: 'townsfolk',
+};
+
+/** Night order IDs that are valid without a matching script entry */
+const SPECIAL_NIGHT_ORDER_IDS = new Set<string>(Object.values(SPECIAL_ENTRY_IDS));
+
+const KIND_LABELS: Record<FieldKind, string> = {
+  string: 'a string',
+  number: 'a number',
+  boolean: 'true or false',
+  array: 'an array',
+  stringArray: 'an array of strings',
+  stringOrStringArray: 'a string or an array of strings',
+};
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+/**
+ * Check whether a node matches an expected field kind
+ */
+function matchesKind(node: JsonNode, kind: FieldKind): boolean {
+  switch (kind) {
+    case 'string':
+    case 'number':
+    case 'boolean':
+      return node.type === kind;
+    case 'array':
+      return node.type === 'array';
+    case 'stringArray':
+      return node.type === 'array' && node.items.every((item) => item.type === 'string');
+    case 'stringOrStringArray':
+      return node.type === 'string' || matchesKind(node, 'stringArray');
+  }
+}
+
+/**
+ * Suggest a replacement for a value of the wrong type, if one is obvious
+ */
+function suggestTypeFix(node: JsonNode, kind: FieldKind): ScriptQuickFix | undefined {
+  const replace = (label: string, insert: string): ScriptQuickFix => ({
+    label,
+    changes: [{ from: node.from, to: node.to, insert }],
+  });
+
+  if (kind === 'number' && node.type === 'string' && /^-?\d+(\.\d+)?$/.test(node.value.trim())) {
+    return replace('Convert to number', node.value.trim());
+  }
+  if (kind === 'boolean' && node.type === 'string' && /^(true|false)$/i.test(node.value.trim())) {
+    return replace('Convert to boolean', node.value.trim().toLowerCase());
+  }
+  if (kind === 'string' && (node.type === 'number' || node.type === 'boolean')) {
+    return replace('Convert to string', JSON.stringify(String(node.value)));
+  }
+  if ((kind === 'stringArray' || kind === 'array') && node.type === 'string') {
+    return replace('Wrap in array', `[${JSON.stringify(node.value)}]`);
+  }
+  if (kind === 'array' && node.type === 'object') {
+    return {
+      label: 'Wrap in array',
+      changes: [
+        { from: node.from, to: node.from, insert: '[' },
+        { from: node.to, to: node.to, insert: ']' },
+      ],
+    };
+  }
+  if (kind === 'stringArray' && node.type === 'array') {
+    const strings = node.items.filter((item) => item.type === 'string');
+    return replace('Remove non-string items', JSON.stringify(strings.map((item) => item.value)));
+  }
+  return undefined;
+}
+
+/**
+ * Suggest the team value a typo most likely meant, if any alias or prefix matches
+ */
+function suggestTeam(value: string): string | undefined {
+  const normalized = value.trim().toLowerCase();
+  if (CHARACTER_TEAMS.includes(normalized)) return normalized;
+  if (TEAM_ALIASES[normalized]) return TEAM_ALIASES[normalized];
+
+  const singular = normalized.replace(/s$/, '');
+  if (CHARACTER_TEAMS.includes(singular)) return singular;
+  if (TEAM_ALIASES[singular]) return TEAM_ALIASES[singular];
+
+  return CHARACTER_TEAMS.find((team) => normalized.length >= 3 && team.startsWith(normalized));
+}
+
+/**
+ * Find the allowed value closest to a typo (case-insensitive), if any is close
+ */
+function suggestAllowedValue(value: string, allowed: readonly string[]): string | undefined {
+  const normalized = value.trim().toLowerCase();
+  let best: string | undefined;
+  let bestDistance = Number.POSITIVE_INFINITY;
+  for (const candidate of allowed) {
+    const distance = levenshteinDistance(normalized, candidate.toLowerCase());
+    if (distance < bestDistance) {
+      best = candidate;
+      bestDistance = distance;
+    }
+  }
+  return best && bestDistance <= Math.max(1, Math.floor(best.length / 3)) ? best : undefined;
+}
+
+/**
+ * Build a quick fix that removes one element of a list
+ */
+function removalFix(
+  label: string,
+  elements: ReadonlyArray<{ from: number; to: number }>,
+  index: number
+): ScriptQuickFix {
+  const range = getListRemovalRange(elements, index);
+  return { label, changes: [{ ...range, insert: '' }] };
+}
+
+/**
+ * Get the lowercase ID of a script entry (string reference or object with id)
+ */
+function getEntryId(entry: JsonNode): string | null {
+  if (entry.type === 'string') return entry.value.trim().toLowerCase() || null;
+  if (entry.type === 'object') {
+    const idProp = getJsonProperty(entry, 'id');
+    if (idProp?.value.type === 'string') {
+      return idProp.value.value.trim().toLowerCase() || null;
+    }
+  }
+  return null;
+}
+
+// ============================================================================
+// Rules
+// ============================================================================
+
+/**
+ * Check known fields of an object against a field schema
+ */
+function lintFieldTypes(
+  object: JsonObjectNode,
+  fields: Record<string, FieldKind>,
+  diagnostics: ScriptDiagnostic[]
+): void {
+  object.properties.forEach((prop, index) => {
+    const kind = fields[prop.key];
+    if (!kind || matchesKind(prop.value, kind)) return;
+
+    diagnostics.push({
+      from: prop.value.from,
+      to: prop.value.to,
+      severity: 'error',
+      code: 'wrong-type',
+      message: `"${prop.key}" must be ${KIND_LABELS[kind]}`,
+      fix:
+        suggestTypeFix(prop.value, kind) ??
+        removalFix(`Remove "${prop.key}"`, object.properties, index),
+    });
+  });
+}
+
+/**
+ * Lint the `_meta` entry (field types and night order references)
+ */
+function lintMeta(
+  meta: JsonObjectNode,
+  scriptIds: Set<string>,
+  diagnostics: ScriptDiagnostic[]
+): void {
+  lintFieldTypes(meta, META_FIELDS, diagnostics);
+
+  for (const key of ['firstNight', 'otherNight'] as const) {
+    const prop = getJsonProperty(meta, key);
+    if (prop?.value.type !== 'array') continue;
+
+    const items = prop.value.items;
+    items.forEach((item, index) => {
+      if (item.type !== 'string') return;
+      const id = item.value.trim().toLowerCase();
+      if (scriptIds.has(id) || SPECIAL_NIGHT_ORDER_IDS.has(id)) return;
+
+      diagnostics.push({
+        from: item.from,
+        to: item.to,
+        severity: 'warning',
+        code: 'unknown-night-order-id',
+        message: `_meta.${key} references "${item.value}", which is not on the script`,
+        fix: removalFix(`Remove from ${key}`, items, index),
+      });
+    });
+  }
+}
+
+/**
+ * Lint the items of a character's `special` array against the allowed values
+ */
+function lintSpecialItems(special: JsonArrayNode, diagnostics: ScriptDiagnostic[]): void {
+  special.items.forEach((item, itemIndex) => {
+    if (item.type !== 'object') {
+      diagnostics.push({
+        from: item.from,
+        to: item.to,
+        severity: 'error',
+        code: 'invalid-special',
+        message: 'Special items must be objects with a "type" and "name"',
+        fix: removalFix('Remove special item', special.items, itemIndex),
+      });
+      return;
+    }
+
+    for (const key of SPECIAL_REQUIRED_FIELDS) {
+      if (getJsonProperty(item, key)) continue;
+      diagnostics.push({
+        from: item.from,
+        to: item.from + 1,
+        severity: 'error',
+        code: 'invalid-special',
+        message: `Special item is missing "${key}"`,
+        fix: removalFix('Remove special item', special.items, itemIndex),
+      });
+    }
+
+    item.properties.forEach((prop, propIndex) => {
+      const allowed = SPECIAL_ENUM_FIELDS[prop.key];
+      if (!allowed || (prop.value.type === 'string' && allowed.includes(prop.value.value))) return;
+
+      const isRequired = (SPECIAL_REQUIRED_FIELDS as readonly string[]).includes(prop.key);
+      const suggestion =
+        prop.value.type === 'string' ? suggestAllowedValue(prop.value.value, allowed) : undefined;
+      diagnostics.push({
+        from: prop.value.from,
+        to: prop.value.to,
+        severity: isRequired ? 'error' : 'warning',
+        code: 'invalid-special',
+        message: `Unknown special ${prop.key} (expected ${allowed.join(', ')})`,
+        fix: suggestion
+          ? {
+              label: `Change to "${suggestion}"`,
+              changes: [
+                { from: prop.value.from, to: prop.value.to, insert: JSON.stringify(suggestion) },
+              ],
+            }
+          : isRequired
+            ? removalFix('Remove special item', special.items, itemIndex)
+            : removalFix(`Remove "${prop.key}"`, item.properties, propIndex),
+      });
+    });
+  });
+}
+
+/**
+ * Lint a character object (id, team, field types, reminder formatting)
+ */
+function lintCharacter(
+  character: JsonObjectNode,
+  entries: JsonArrayNode,
+  index: number,
+  diagnostics: ScriptDiagnostic[]
+): void {
+  const idProp = getJsonProperty(character, 'id');
+  if (!idProp) {
+    const nameProp = getJsonProperty(character, 'name');
+    const suggestedId = nameProp?.value.type === 'string' ? nameToId(nameProp.value.value) : '';
+    const insertAt = character.from + 1;
+    diagnostics.push({
+      from: character.from,
+      to: character.from + 1,
+      severity: 'error',
+      code: 'missing-id',
+      message: 'Character is missing an "id"',
+      fix: suggestedId
+        ? {
+            label: `Add id "${suggestedId}"`,
+            changes: [
+              {
+                from: insertAt,
+                to: insertAt,
+                insert: `"id": ${JSON.stringify(suggestedId)}${character.properties.length > 0 ? ', ' : ''}`,
+              },
+            ],
+          }
+        : removalFix('Remove entry', entries.items, index),
+    });
+  }
+
+  lintFieldTypes(character, CHARACTER_FIELDS, diagnostics);
+
+  const teamProp = getJsonProperty(character, 'team');
+  if (teamProp?.value.type === 'string' && !CHARACTER_TEAMS.includes(teamProp.value.value)) {
+    const suggestion = suggestTeam(teamProp.value.value);
+    diagnostics.push({
+      from: teamProp.value.from,
+      to: teamProp.value.to,
+      severity: 'error',
+      code: 'unknown-team',
+      message: `Unknown team "${teamProp.value.value}" (expected ${CHARACTER_TEAMS.join(', ')})`,
+      fix: suggestion
+        ? {
+            label: `Change to "${suggestion}"`,
+            changes: [
+              { from: teamProp.value.from, to: teamProp.value.to, insert: `"${suggestion}"` },
+            ],
+          }
+        : undefined,
+    });
+  }
+
+  const specialProp = getJsonProperty(character, 'special');
+  if (specialProp?.value.type === 'array') {
+    lintSpecialItems(specialProp.value, diagnostics);
+  }
+
+  for (const key of NIGHT_REMINDER_FIELDS) {
+    const prop = getJsonProperty(character, key);
+    if (prop?.value.type !== 'string') continue;
+
+    const issues = analyzeReminderText(prop.value.value);
+    if (issues.length === 0) continue;
+
+    diagnostics.push({
+      from: prop.value.from,
+      to: prop.value.to,
+      severity: 'warning',
+      code: 'reminder-format',
+      message: `${key} uses non-standard formatting: ${getIssueSummary(issues)}`,
+      fix: {
+        label: 'Normalize formatting',
+        changes: [
+          {
+            from: prop.value.from,
+            to: prop.value.to,
+            insert: JSON.stringify(normalizeReminderText(prop.value.value)),
+          },
+        ],
+      },
+    });
+  }
+}
+
+// ============================================================================
+// Public API
+// ============================================================================
+
+/**
+ * Lint script JSON text against the script schema
+ *
+ * @param text - Script JSON source
+ * @returns Diagnostics sorted by position (empty for invalid JSON)
+ */
+export function lintScriptJson(text: string): ScriptDiagnostic[] {
+  const root = parseJsonAst(text);
+  if (!root) return [];
+
+  if (root.type !== 'array') {
+    return [
+      {
+        from: root.from,
+        to: root.type === 'object' ? root.from + 1 : root.to,
+        severity: 'error',
+        code: 'not-array',
+        message: 'A script must be a JSON array of characters',
+        fix: {
+          label: 'Wrap in array',
+          changes: [
+            { from: root.from, to: root.from, insert: '[' },
+            { from: root.to, to: root.to, insert: ']' },
+          ],
+        },
+      },
+    ];
+  }
+
+  const diagnostics: ScriptDiagnostic[] = [];
+  const scriptIds = new Set<string>();
+  const seenIds = new Set<string>();
+  let meta: JsonObjectNode | null = null;
+
+  for (const [index, entry] of root.items.entries()) {
+    const id = getEntryId(entry);
+
+    if (entry.type !== 'string' && entry.type !== 'object') {
+      diagnostics.push({
+        from: entry.from,
+        to: entry.to,
+        severity: 'error',
+        code: 'invalid-entry',
+        message: 'Script entries must be character IDs or objects',
+        fix: removalFix('Remove entry', root.items, index),
+      });
+      continue;
+    }
+
+    if (id === '_meta' && entry.type === 'object') {
+      meta = entry;
+      continue;
+    }
+
+    if (id) {
+      if (seenIds.has(id)) {
+        diagnostics.push({
+          from: entry.from,
+          to: entry.type === 'object' ? entry.from + 1 : entry.to,
+          severity: 'warning',
+          code: 'duplicate-id',
+          message: `Duplicate character "${id}" (only the first entry is used)`,
+          fix: removalFix('Remove duplicate', root.items, index),
+        });
+      }
+      seenIds.add(id);
+      scriptIds.add(id);
+    }
+
+    if (entry.type === 'object') {
+      lintCharacter(entry, root, index, diagnostics);
+    }
+  }
+
+  if (meta) {
+    lintMeta(meta, scriptIds, diagnostics);
+  }
+
+  return diagnostics.sort((a, b) => a.from - b.from);
+}
+
+/**
+ * Apply a quick fix to script JSON text (outside an editor)
+ *
+ * @param text - Script JSON source the fix was computed for
+ * @param fix - Quick fix from a diagnostic
+ * @returns Updated text
+ */
+export function applyScriptQuickFix(text: string, fix: ScriptQuickFix): string {
+  // Apply from the end so earlier offsets stay valid
+  const changes = [...fix.changes].sort((a, b) => b.from - a.from);
+  let result = text;
+  for (const change of changes) {
+    result = result.slice(0, change.from) + change.insert + result.slice(change.to);
+  }
+  return result;
+}
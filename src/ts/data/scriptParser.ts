@@ -7,6 +7,7 @@
  * Responsibilities:
  * - Parse script JSON (string IDs, ID references, full character objects)
  * - Merge with official character data
+ * - Resolve name/variant references and collect "did you mean" suggestions
  * - Validate entries and collect warnings
  * - Extract script meta information
  *
@@ -21,6 +22,13 @@ import CONFIG from '@/ts/config.js';
 import type { Character, ScriptEntry, ScriptMeta } from '@/ts/types/index.js';
 import { logger } from '@/ts/utils/logger.js';
 import { generateStableUuid, generateUuid } from '@/ts/utils/nameGenerator.js';
+import {
+  type CharacterResolver,
+  type CharacterSuggestion,
+  createCharacterResolver,
+} from './characterResolver.js';
+import { getCharacterJinxes, normalizeJinxes } from './jinxUtils.js';
+import { normalizeSpecial } from './specialUtils.js';
 
 // ============================================================================
 // Types
@@ -32,6 +40,8 @@ import { generateStableUuid, generateUuid } from '@/ts/utils/nameGenerator.js';
 export interface ScriptValidationResult {
   characters: Character[];
   warnings: string[];
+  /** Entries that reference official characters by name, variant or misspelled ID */
+  suggestions: CharacterSuggestion[];
 }
 
 /**
@@ -40,6 +50,8 @@ export interface ScriptValidationResult {
 interface EntryProcessResult {
   character: Character | null;
   warning: string | null;
+  /** Match details for non-canonical references (position added by the caller) */
+  suggestion?: Pick<CharacterSuggestion, 'input' | 'matches' | 'resolved'>;
 }
 
 /**
@@ -48,6 +60,8 @@ interface EntryProcessResult {
 interface ParsingContext {
   /** Map of official characters by lowercase ID */
   officialMap: Map<string, Character>;
+  /** Name/variant/fuzzy lookup for references that miss officialMap */
+  resolver: CharacterResolver;
   /** Whether to collect warnings instead of just logging */
   lenient: boolean;
 }
@@ -148,6 +162,7 @@ function buildOfficialMap(officialData: Character[]): Map<string, Character> {
 function createParsingContext(officialData: Character[], lenient: boolean): ParsingContext {
   return {
     officialMap: buildOfficialMap(officialData),
+    resolver: createCharacterResolver(officialData),
     lenient,
   };
 }
@@ -178,17 +193,43 @@ function validateCharacterEntry(character: Character): string[] {
     warnings.push('reminders must be an array');
   }
 
+  warnings.push(...normalizeJinxes(character.jinxes).errors);
+  warnings.push(...normalizeSpecial(character.special).errors);
+
   return warnings;
 }
 
+/**
+ * Find jinx targets that match neither a script character nor an official character
+ * @param character - Parsed character with jinxes
+ * @param scriptIds - Lowercase IDs of all characters on the script
+ * @param ctx - Parsing context (for official lookup)
+ * @returns IDs of unknown jinx targets
+ */
+function findUnknownJinxTargets(
+  character: Character,
+  scriptIds: Set<string>,
+  ctx: ParsingContext
+): string[] {
+  return getCharacterJinxes(character)
+    .map((jinx) => jinx.id)
+    .filter((id) => {
+      const lowerId = id.toLowerCase();
+      return !(scriptIds.has(lowerId) || ctx.officialMap.has(lowerId));
+    });
+}
+
 // ============================================================================
 // Entry Handlers (Strategy-like pattern for each entry type)
 // ============================================================================
 
 /**
- * Handle string ID entries (e.g., "washerwoman")
+ * Resolve an ID reference (string or { id }) to an official character.
+ * Exact IDs hit officialMap; names and separated variants ("Fortune Teller",
+ * "fortune_teller") resolve through the resolver; anything else is reported
+ * with fuzzy suggestions in lenient mode.
  */
-async function handleStringEntry(
+async function resolveOfficialReference(
   id: string,
   ctx: ParsingContext,
   position: string
@@ -199,16 +240,42 @@ async function handleStringEntry(
     return { character: { ...officialChar, uuid, source: 'official' }, warning: null };
   }
 
+  const resolved = ctx.resolver.resolve(id);
+  if (resolved) {
+    const { character } = resolved;
+    const uuid = await generateStableUuid(character.id, character.name);
+    logger.debug('ScriptParser', `Resolved "${id}" to official character ${character.id}`);
+    return {
+      character: { ...character, uuid, source: 'official' },
+      warning: null,
+      suggestion: ctx.lenient ? { input: id, matches: [resolved], resolved: true } : undefined,
+    };
+  }
+
   if (ctx.lenient) {
+    const matches = ctx.resolver.suggest(id);
+    const hint = matches.length > 0 ? ` (did you mean "${matches[0].character.name}"?)` : '';
     return {
       character: null,
-      warning: `${position}: Character "${id}" not found in official data`,
+      warning: `${position}: Character "${id}" not found in official data${hint}`,
+      suggestion: matches.length > 0 ? { input: id, matches, resolved: false } : undefined,
     };
   }
   logger.warn('ScriptParser', `Character not found in official data: ${id}`);
   return { character: null, warning: null };
 }
 
+/**
+ * Handle string ID entries (e.g., "washerwoman")
+ */
+async function handleStringEntry(
+  id: string,
+  ctx: ParsingContext,
+  position: string
+): Promise<EntryProcessResult> {
+  return resolveOfficialReference(id, ctx, position);
+}
+
 /**
  * Handle ID reference objects (e.g., { id: "washerwoman" })
  */
@@ -221,20 +288,7 @@ async function handleIdReference(
     return { character: null, warning: `${position}: Invalid id field type` };
   }
 
-  const officialChar = ctx.officialMap.get(entry.id.toLowerCase());
-  if (officialChar) {
-    const uuid = await generateStableUuid(officialChar.id, officialChar.name);
-    return { character: { ...officialChar, uuid, source: 'official' }, warning: null };
-  }
-
-  if (ctx.lenient) {
-    return {
-      character: null,
-      warning: `${position}: Character "${entry.id}" not found in official data`,
-    };
-  }
-  logger.warn('ScriptParser', `Character not found in official data: ${entry.id}`);
-  return { character: null, warning: null };
+  return resolveOfficialReference(entry.id, ctx, position);
 }
 
 /**
@@ -256,9 +310,14 @@ async function handleCharacterEntry(
     }
   }
 
+  // Drop malformed jinx and special entries so downstream consumers can trust the shape
+  const sanitizedEntry: Character = { ...entry };
+  if (entry.jinxes !== undefined) sanitizedEntry.jinxes = normalizeJinxes(entry.jinxes).jinxes;
+  if (entry.special !== undefined) sanitizedEntry.special = normalizeSpecial(entry.special).special;
+
   // Merge with official data if ID matches
   const officialChar = entry.id ? ctx.officialMap.get(entry.id.toLowerCase()) : null;
-  const mergedChar = officialChar ? { ...officialChar, ...entry } : entry;
+  const mergedChar = officialChar ? { ...officialChar, ...sanitizedEntry } : sanitizedEntry;
   const source = officialChar ? 'official' : 'custom';
 
   // Generate UUID: existing > stable (from id+name) > random (fallback)
@@ -363,7 +422,8 @@ export async function parseScriptData(
  *
  * @param scriptData - Raw script data array
  * @param officialData - Official character data for merging
- * @returns Object containing valid characters and warnings for filtered entries
+ * @returns Object containing valid characters, warnings for filtered entries,
+ *   and character suggestions for name/variant/misspelled references
  *
  * @example
  * ```typescript
@@ -381,12 +441,15 @@ export async function validateAndParseScript(
     return {
       characters: [],
       warnings: ['Script data must be an array'],
+      suggestions: [],
     };
   }
 
   const ctx = createParsingContext(officialData, true);
   const characters: Character[] = [];
   const warnings: string[] = [];
+  const suggestions: CharacterSuggestion[] = [];
+  const positions: string[] = [];
 
   for (let i = 0; i < scriptData.length; i++) {
     const position = `Entry ${i + 1}`;
@@ -394,18 +457,35 @@ export async function validateAndParseScript(
 
     if (result.character) {
       characters.push(result.character);
+      positions.push(position);
     }
     if (result.warning) {
       warnings.push(result.warning);
     }
+    if (result.suggestion) {
+      suggestions.push({ ...result.suggestion, entryIndex: i, position });
+    }
   }
 
-  return { characters, warnings };
+  // Jinx targets can only be checked once every script ID is known
+  const scriptIds = new Set(characters.map((char) => char.id?.toLowerCase()));
+  characters.forEach((character, index) => {
+    const unknownTargets = findUnknownJinxTargets(character, scriptIds, ctx);
+    if (unknownTargets.length > 0) {
+      const targets = unknownTargets.map((id) => `"${id}"`).join(', ');
+      warnings.push(
+        `${positions[index]} (${character.name}): jinx references unknown character ${targets}`
+      );
+    }
+  });
+
+  return { characters, warnings, suggestions };
 }
 
 /**
  * Extract meta information from script
  * Includes backward compatibility migration for bootlegger field
+ * and drops a non-boolean hideTitle
  * @param scriptData - Raw script data
  * @returns Meta object or null
  */
@@ -434,6 +514,11 @@ export function extractScriptMeta(scriptData: ScriptEntry[]): ScriptMeta | null
         }
       }
 
+      if (meta.hideTitle !== undefined && typeof meta.hideTitle !== 'boolean') {
+        logger.warn('ScriptParser', 'Invalid hideTitle value, ignoring it');
+        delete meta.hideTitle;
+      }
+
       return meta;
     }
   }
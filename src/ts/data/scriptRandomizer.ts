@@ -0,0 +1,257 @@
+/**
+ * Blood on the Clocktower Token Generator
+ * Script Randomizer - Random scripts from the official character pool
+ *
+ * Picks characters per team at random under user constraints: team counts,
+ * allowed editions, must-include characters, a cap on jinxed pairs and
+ * setup-modifier limits. Demons and Minions are drawn first so Outsider-count
+ * modifiers are settled before Outsiders and Townsfolk fill in. A draw that
+ * breaks a constraint is retried; the result is sorted by SAO.
+ */
+
+import type { Character, Team } from '@/ts/types/index.js';
+import { shuffleArray } from '@/ts/utils/asyncUtils.js';
+import { sortScriptBySAO } from '@/ts/utils/scriptSorting.js';
+import { createCharacterResolver, normalizeCharacterKey } from './characterResolver.js';
+import { type EditionId, getCharacterEdition } from './editions.js';
+import { getScriptJinxes, type JinxPair } from './jinxUtils.js';
+import { type CompositionTeam, getSetupModifiers, STANDARD_COMPOSITION } from './scriptAnalyzer.js';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/** Teams a random script draws from */
+export type RandomScriptTeam = CompositionTeam | 'traveller';
+
+/**
+ * Constraints for a random script
+ */
+export interface RandomScriptOptions {
+  /** Characters to draw per team */
+  teamCounts: Record<RandomScriptTeam, number>;
+  /** Editions to draw from (all when omitted or empty) */
+  editions?: EditionId[];
+  /** Character names or IDs that must be on the script (any edition) */
+  mustInclude?: string[];
+  /** Maximum number of jinxed pairs on the script (unlimited when omitted) */
+  maxJinxPairs?: number;
+  /** Minimum characters whose setup modifier changes the Outsider count */
+  minOutsiderModifiers?: number;
+  /** Maximum characters with a setup modifier ([brackets]) of any kind */
+  maxSetupModifiers?: number;
+}
+
+/**
+ * Result of a random draw
+ */
+export interface RandomScriptResult {
+  /** Drawn characters in SAO order (empty when the draw failed) */
+  characters: Character[];
+  /** Jinxed pairs on the drawn script */
+  jinxPairs: JinxPair[];
+  /** Draws needed to satisfy the constraints */
+  attempts: number;
+  /** Why no script could be drawn */
+  errors: string[];
+}
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+/** Default team counts: the usual 13/4/4/4 and no Travellers */
+export const DEFAULT_RANDOM_SCRIPT_COUNTS: Readonly<Record<RandomScriptTeam, number>> = {
+  ...STANDARD_COMPOSITION,
+  traveller: 0,
+};
+
+/** Draw order: evil teams first so Outsider modifiers are known early */
+const DRAW_ORDER: RandomScriptTeam[] = ['demon', 'minion', 'outsider', 'townsfolk', 'traveller'];
+
+/** Draws tried before giving up on the constraints */
+const MAX_ATTEMPTS = 500;
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+function isRandomScriptTeam(team: Team): team is RandomScriptTeam {
+  return (DRAW_ORDER as string[]).includes(team);
+}
+
+function hasSetupModifier(character: Character): boolean {
+  return getSetupModifiers(character).length > 0;
+}
+
+function modifiesOutsiders(character: Character): boolean {
+  return getSetupModifiers(character).some((modifier) => modifier.modifiesOutsiders);
+}
+
+/**
+ * Resolve must-include names/IDs against the pool
+ */
+function resolveMustInclude(
+  pool: Character[],
+  queries: string[],
+  counts: Record<RandomScriptTeam, number>,
+  errors: string[]
+): Character[] {
+  const resolver = createCharacterResolver(pool);
+  const resolved = new Map<string, Character>();
+
+  for (const query of queries.map((q) => q.trim()).filter(Boolean)) {
+    const character = resolver.resolve(query)?.character;
+    if (!character) {
+      errors.push(`Unknown character "${query}"`);
+    } else if (!isRandomScriptTeam(character.team) || counts[character.team] === 0) {
+      errors.push(`${character.name} is a ${character.team}, which is not drawn`);
+    } else {
+      resolved.set(normalizeCharacterKey(character.id), character);
+    }
+  }
+
+  return Array.from(resolved.values());
+}
+
+/**
+ * Check that the must-include characters fit the team counts and caps
+ */
+function checkRequired(
+  required: Character[],
+  counts: Record<RandomScriptTeam, number>,
+  options: RandomScriptOptions,
+  errors: string[]
+): void {
+  for (const team of DRAW_ORDER) {
+    const count = required.filter((c) => c.team === team).length;
+    if (count > counts[team]) {
+      errors.push(`${count} must-include ${team} characters but only ${counts[team]} drawn`);
+    }
+  }
+
+  const jinxCount = getScriptJinxes(required).length;
+  if (options.maxJinxPairs !== undefined && jinxCount > options.maxJinxPairs) {
+    errors.push(`Must-include characters already have ${jinxCount} jinxed pairs`);
+  }
+
+  const modifierCount = required.filter(hasSetupModifier).length;
+  if (options.maxSetupModifiers !== undefined && modifierCount > options.maxSetupModifiers) {
+    errors.push(`Must-include characters already have ${modifierCount} setup modifiers`);
+  }
+}
+
+/**
+ * Draw one script; returns null when a team can't be filled within the caps
+ */
+function drawScript(
+  candidates: Record<RandomScriptTeam, Character[]>,
+  required: Character[],
+  counts: Record<RandomScriptTeam, number>,
+  options: RandomScriptOptions
+): Character[] | null {
+  const picked = [...required];
+  const pickedIds = new Set(picked.map((c) => c.id));
+  let setupModifiers = picked.filter(hasSetupModifier).length;
+
+  for (const team of DRAW_ORDER) {
+    let remaining = counts[team] - picked.filter((c) => c.team === team).length;
+
+    for (const character of shuffleArray(candidates[team])) {
+      if (remaining <= 0) break;
+      if (pickedIds.has(character.id)) continue;
+
+      const isModifier = hasSetupModifier(character);
+      if (
+        isModifier &&
+        options.maxSetupModifiers !== undefined &&
+        setupModifiers >= options.maxSetupModifiers
+      ) {
+        continue;
+      }
+
+      if (
+        options.maxJinxPairs !== undefined &&
+        getScriptJinxes([...picked, character]).length > options.maxJinxPairs
+      ) {
+        continue;
+      }
+
+      picked.push(character);
+      pickedIds.add(character.id);
+      if (isModifier) setupModifiers++;
+      remaining--;
+    }
+
+    if (remaining > 0) return null;
+  }
+
+  return picked.filter(modifiesOutsiders).length >= (options.minOutsiderModifiers ?? 0)
+    ? picked
+    : null;
+}
+
+// ============================================================================
+// Public API
+// ============================================================================
+
+/**
+ * Draw a random script from the official character pool
+ *
+ * @param pool - Official characters (e.g. from the sync cache)
+ * @param options - Team counts and constraints
+ * @returns SAO-sorted characters, or errors explaining why none could be drawn
+ */
+export function generateRandomScript(
+  pool: Character[],
+  options: RandomScriptOptions
+): RandomScriptResult {
+  const errors: string[] = [];
+  const counts = { ...options.teamCounts };
+  for (const team of DRAW_ORDER) {
+    counts[team] = Math.max(0, Math.floor(counts[team] ?? 0));
+  }
+
+  const required = resolveMustInclude(pool, options.mustInclude ?? [], counts, errors);
+  checkRequired(required, counts, options, errors);
+
+  const editions = options.editions?.length ? new Set(options.editions) : null;
+  const candidates = Object.fromEntries(
+    DRAW_ORDER.map((team) => [team, [] as Character[]])
+  ) as Record<RandomScriptTeam, Character[]>;
+  for (const character of pool) {
+    if (!isRandomScriptTeam(character.team)) continue;
+    if (editions && !editions.has(getCharacterEdition(character))) continue;
+    candidates[character.team].push(character);
+  }
+
+  for (const team of DRAW_ORDER) {
+    const requiredIds = new Set(required.filter((c) => c.team === team).map((c) => c.id));
+    const available =
+      requiredIds.size + candidates[team].filter((c) => !requiredIds.has(c.id)).length;
+    if (available < counts[team]) {
+      errors.push(`Only ${available} ${team} characters available, ${counts[team]} requested`);
+    }
+  }
+
+  if (errors.length > 0) {
+    return { characters: [], jinxPairs: [], attempts: 0, errors };
+  }
+
+  for (let attempt = 1; attempt <= MAX_ATTEMPTS; attempt++) {
+    const picked = drawScript(candidates, required, counts, options);
+    if (picked) {
+      const characters = sortScriptBySAO(picked) as Character[];
+      return { characters, jinxPairs: getScriptJinxes(characters), attempts: attempt, errors: [] };
+    }
+  }
+
+  return {
+    characters: [],
+    jinxPairs: [],
+    attempts: MAX_ATTEMPTS,
+    errors: [
+      `No script met the constraints after ${MAX_ATTEMPTS} draws; loosen the jinx or setup modifier limits`,
+    ],
+  };
+}
@@ -0,0 +1,256 @@
+/**
+ * Blood on the Clocktower Token Generator
+ * Script Text Importer - Build a script from a typed-out character list
+ *
+ * Scripts often arrive as plain text rather than JSON: one name per line,
+ * comma-separated lists, CSV exports, or Markdown tables, optionally grouped
+ * under team headers ("## Townsfolk", "Minions:"). The importer resolves each
+ * name through the character lookup service and produces a `ScriptEntry[]`
+ * with a `_meta` entry built from the title line.
+ *
+ * Names that do not resolve are kept as written, so the JSON view can offer
+ * "did you mean" suggestions for them.
+ */
+
+import type { ScriptEntry, ScriptMeta, Team } from '@/ts/types/index.js';
+import type { ICharacterLookupService } from './ICharacterLookup.js';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/** Layout detected in the pasted text */
+export type CharacterListFormat = 'lines' | 'csv' | 'markdown';
+
+/**
+ * Result of importing a character list
+ */
+export interface CharacterListImportResult {
+  /** Script entries (`_meta` first when a title was found, then character IDs) */
+  script: ScriptEntry[];
+  /** The `_meta` entry, if a title line was found */
+  meta: ScriptMeta | null;
+  /** Number of names resolved to official characters */
+  resolvedCount: number;
+  /** Names kept as written because no official character matched */
+  unresolved: string[];
+  format: CharacterListFormat;
+}
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+/** Header words (singular or plural) that introduce a team group */
+const TEAM_HEADERS: Record<string, Team> = {
+  townsfolk: 'townsfolk',
+  townsfolks: 'townsfolk',
+  outsider: 'outsider',
+  outsiders: 'outsider',
+  minion: 'minion',
+  minions: 'minion',
+  demon: 'demon',
+  demons: 'demon',
+  traveller: 'traveller',
+  travellers: 'traveller',
+  traveler: 'traveller',
+  travelers: 'traveller',
+  fabled: 'fabled',
+  loric: 'loric',
+};
+
+/** Table/CSV column headings that are never character names */
+const COLUMN_HEADINGS = /^(?:names?|characters?|roles?|teams?|types?|abilit(?:y|ies)|ids?|#)$/i;
+
+/** Unresolved cells longer than this are treated as ability text, not names */
+const MAX_NAME_WORDS = 4;
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+/**
+ * Remove list markers, Markdown emphasis/headings and trailing parentheticals
+ * ("- **Fortune Teller** (Townsfolk)" → "Fortune Teller")
+ */
+function cleanName(text: string): string {
+  return text
+    .replace(/^\s*(?:[-*+•]|\d+[.)])\s+/, '')
+    .replace(/^\s*\[[ xX]\]\s*/, '')
+    .replace(/^#+\s*/, '')
+    .replace(/[*_`]/g, '')
+    .replace(/\s*\([^)]*\)\s*$/, '')
+    .replace(/^["']|["']$/g, '')
+    .replace(/:$/, '')
+    .trim();
+}
+
+/**
+ * Get the team a header line introduces ("## Minions", "Outsiders:", "TOWNSFOLK")
+ */
+function getTeamHeader(line: string): Team | null {
+  return TEAM_HEADERS[cleanName(line).toLowerCase()] ?? null;
+}
+
+function isMarkdownTableRow(line: string): boolean {
+  return line.trim().startsWith('|');
+}
+
+function isMarkdownSeparatorRow(line: string): boolean {
+  return /^\s*\|?[\s:|-]+\|?\s*$/.test(line) && line.includes('-');
+}
+
+/**
+ * Split a line into cells for its format
+ */
+function splitCells(line: string, format: CharacterListFormat): string[] {
+  if (format === 'markdown' && isMarkdownTableRow(line)) {
+    return line
+      .trim()
+      .replace(/^\||\|$/g, '')
+      .split('|');
+  }
+  return line.split(/[,;\t]/);
+}
+
+/**
+ * Whether an unresolved cell could plausibly be a character name
+ * (filters out ability text, counts and column headings in tables)
+ */
+function looksLikeName(text: string): boolean {
+  if (!text || COLUMN_HEADINGS.test(text) || /^\d+$/.test(text)) return false;
+  if (getTeamHeader(text)) return false;
+  return text.split(/\s+/).length <= MAX_NAME_WORDS;
+}
+
+/**
+ * Detect the list layout from the non-empty lines
+ */
+function detectFormat(lines: string[]): CharacterListFormat {
+  if (lines.some(isMarkdownTableRow)) return 'markdown';
+  if (lines.some((line) => /[,;\t]/.test(line))) return 'csv';
+  return 'lines';
+}
+
+/**
+ * Whether CSV lines form a table (same column count on every row) rather
+ * than a comma-separated list of names
+ */
+function isCsvTable(lines: string[]): boolean {
+  const counts = lines
+    .filter((line) => /[,;\t]/.test(line))
+    .map((line) => splitCells(line, 'csv').length);
+  return counts.length > 1 && counts.every((count) => count === counts[0]);
+}
+
+/**
+ * Split a title line into script name and author ("Trouble Brewing by Steven Medway")
+ */
+function parseTitle(line: string): Pick<ScriptMeta, 'name' | 'author'> {
+  const title = cleanName(line);
+  const match = title.match(/^(.+?)\s+by\s+(.+)$/i);
+  return match ? { name: match[1].trim(), author: match[2].trim() } : { name: title };
+}
+
+/**
+ * Whether the first line is a title: a Markdown heading, or a single cell
+ * that names no character (a CSV header row has several cells)
+ */
+function isTitleLine(
+  line: string,
+  format: CharacterListFormat,
+  lookup: ICharacterLookupService
+): boolean {
+  if (/^\s*#/.test(line)) return true;
+  if (isMarkdownTableRow(line)) return false;
+  const cells = splitCells(line, format).map(cleanName).filter(Boolean);
+  return cells.length === 1 && !lookup.resolveName(cells[0]);
+}
+
+// ============================================================================
+// Public API
+// ============================================================================
+
+/**
+ * Build a script from a plain-text, CSV or Markdown character list
+ *
+ * The first line becomes the script title when it is a Markdown heading or
+ * does not resolve to a character (and is not a team header).
+ *
+ * @param text - Pasted or uploaded list
+ * @param lookup - Character lookup service with official data loaded
+ * @returns Script entries, meta, and unresolved names
+ *
+ * @example
+ * ```typescript
+ * const { script, unresolved } = importCharacterList(
+ *   '# Trouble Brewing by Steven Medway\n## Townsfolk\nWasherwoman\nFortune Teller',
+ *   characterLookup
+ * );
+ * // script: [{ id: '_meta', name: 'Trouble Brewing', author: 'Steven Medway' }, 'washerwoman', 'fortuneteller']
+ * ```
+ */
+export function importCharacterList(
+  text: string,
+  lookup: ICharacterLookupService
+): CharacterListImportResult {
+  const lines = text.split(/\r?\n/).filter((line) => line.trim());
+  const format = detectFormat(lines);
+  const hasColumns = format === 'markdown' || (format === 'csv' && isCsvTable(lines));
+
+  let meta: ScriptMeta | null = null;
+  const ids: string[] = [];
+  const seen = new Set<string>();
+  const unresolved: string[] = [];
+  let resolvedCount = 0;
+
+  const addEntry = (id: string) => {
+    const key = id.toLowerCase();
+    if (seen.has(key)) return;
+    seen.add(key);
+    ids.push(id);
+  };
+
+  for (const [index, line] of lines.entries()) {
+    if (isMarkdownSeparatorRow(line) || getTeamHeader(line)) continue;
+
+    if (index === 0 && isTitleLine(line, format, lookup)) {
+      meta = { id: '_meta', ...parseTitle(line) };
+      continue;
+    }
+
+    const cells = splitCells(line, format).map(cleanName).filter(Boolean);
+    const resolved = cells.map((cell) => lookup.resolveName(cell));
+    const isTableRow = hasColumns && cells.length > 1;
+
+    cells.forEach((cell, cellIndex) => {
+      const character = resolved[cellIndex];
+      if (character) {
+        resolvedCount++;
+        addEntry(character.id);
+        return;
+      }
+      // In table rows only the name column matters; the rest are team/ability columns
+      if (isTableRow && (resolved.some(Boolean) || cellIndex > 0)) return;
+      if (!looksLikeName(cell)) return;
+      unresolved.push(cell);
+      addEntry(cell);
+    });
+  }
+
+  return {
+    script: meta ? [meta, ...ids] : ids,
+    meta,
+    resolvedCount,
+    unresolved,
+    format,
+  };
+}
+
+/**
+ * Check whether pasted or uploaded text is JSON (and should skip the list importer)
+ */
+export function isJsonText(text: string): boolean {
+  const trimmed = text.trim();
+  return trimmed.startsWith('[') || trimmed.startsWith('{');
+}
@@ -0,0 +1,137 @@
+/**
+ * Blood on the Clocktower Token Generator
+ * Script Variant - Cut a script down for a smaller player count
+ *
+ * A variant keeps a chosen subset of the parent script's characters (for
+ * example a 5–6 player "Teensyville" cut). Entries keep their original form
+ * (ID string or full character object) and `_meta.firstNight`/`otherNight`
+ * are rebuilt from the parent's night order so custom ordering survives.
+ */
+
+import { buildMetaNightOrderArrays } from '@/ts/nightOrder/nightOrderSync.js';
+import { buildNightOrder } from '@/ts/nightOrder/nightOrderUtils.js';
+import type { Character, ScriptEntry, ScriptMeta } from '@/ts/types/index.js';
+import { normalizeCharacterKey } from './characterResolver.js';
+import { type CompositionTeam, STANDARD_COMPOSITION } from './scriptAnalyzer.js';
+import { isScriptMeta } from './scriptParser.js';
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+export const MIN_PLAYER_COUNT = 5;
+export const MAX_PLAYER_COUNT = 15;
+
+/** Largest player count a Teensyville script is built for */
+export const TEENSYVILLE_MAX_PLAYERS = 6;
+
+/** Usual character counts for a Teensyville script (6 Townsfolk, 2 of each other team) */
+export const TEENSYVILLE_COMPOSITION: Readonly<Record<CompositionTeam, number>> = {
+  townsfolk: 6,
+  outsider: 2,
+  minion: 2,
+  demon: 2,
+};
+
+/**
+ * Characters in play per team for each player count (before setup modifiers)
+ */
+const PLAYER_COUNT_SETUP: Record<number, Readonly<Record<CompositionTeam, number>>> = {
+  5: { townsfolk: 3, outsider: 0, minion: 1, demon: 1 },
+  6: { townsfolk: 3, outsider: 1, minion: 1, demon: 1 },
+  7: { townsfolk: 5, outsider: 0, minion: 1, demon: 1 },
+  8: { townsfolk: 5, outsider: 1, minion: 1, demon: 1 },
+  9: { townsfolk: 5, outsider: 2, minion: 1, demon: 1 },
+  10: { townsfolk: 7, outsider: 0, minion: 2, demon: 1 },
+  11: { townsfolk: 7, outsider: 1, minion: 2, demon: 1 },
+  12: { townsfolk: 7, outsider: 2, minion: 2, demon: 1 },
+  13: { townsfolk: 9, outsider: 0, minion: 3, demon: 1 },
+  14: { townsfolk: 9, outsider: 1, minion: 3, demon: 1 },
+  15: { townsfolk: 9, outsider: 2, minion: 3, demon: 1 },
+};
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * Options for building a variant script
+ */
+export interface ScriptVariantOptions {
+  /** Parsed characters of the parent script (night numbers must be resolved) */
+  characters: Character[];
+  /** IDs of the characters to keep */
+  keepIds: Iterable<string>;
+  /** Name written to the variant's `_meta.name` */
+  name: string;
+}
+
+// ============================================================================
+// Public API
+// ============================================================================
+
+/**
+ * Get how many characters of each team are in play for a player count
+ *
+ * @param playerCount - Number of players (clamped to 5–15)
+ * @returns Characters in play per team
+ */
+export function getPlayerCountSetup(
+  playerCount: number
+): Readonly<Record<CompositionTeam, number>> {
+  const clamped = Math.min(MAX_PLAYER_COUNT, Math.max(MIN_PLAYER_COUNT, Math.round(playerCount)));
+  return PLAYER_COUNT_SETUP[clamped];
+}
+
+/**
+ * Get the recommended script composition for a player count
+ *
+ * Teensyville counts for 5–6 players, the usual 13/4/4/4 otherwise.
+ */
+export function getVariantComposition(
+  playerCount: number
+): Readonly<Record<CompositionTeam, number>> {
+  return playerCount <= TEENSYVILLE_MAX_PLAYERS ? TEENSYVILLE_COMPOSITION : STANDARD_COMPOSITION;
+}
+
+/**
+ * Build a variant script from the parent's script entries
+ *
+ * Kept entries stay in parent order and form. Characters missing from the
+ * parent's `_meta` night order arrays stay out of the variant's arrays too.
+ *
+ * @param scriptData - Parent script entries (raw JSON array)
+ * @param options - Characters, kept IDs and the variant name
+ * @returns Variant script entries with `_meta` first
+ */
+export function buildScriptVariant(
+  scriptData: ScriptEntry[],
+  options: ScriptVariantOptions
+): ScriptEntry[] {
+  const keep = new Set(Array.from(options.keepIds, normalizeCharacterKey));
+  const isKept = (id: string) => keep.has(normalizeCharacterKey(id));
+
+  const parentMeta = scriptData.find(isScriptMeta);
+  const keptEntries = scriptData.filter((entry) => {
+    if (typeof entry === 'string') return isKept(entry);
+    return !isScriptMeta(entry) && isKept(entry.id);
+  });
+  const keptCharacters = options.characters.filter((character) => isKept(character.id));
+
+  // Rebuild night order from the parent's order (its _meta arrays or night numbers)
+  const orderSource: ScriptEntry[] = parentMeta ? [parentMeta, ...keptCharacters] : keptCharacters;
+  const { firstNight, otherNight } = buildMetaNightOrderArrays(
+    buildNightOrder(orderSource, 'first').entries,
+    buildNightOrder(orderSource, 'other').entries
+  );
+
+  const meta: ScriptMeta = {
+    ...parentMeta,
+    id: '_meta',
+    name: options.name,
+    firstNight,
+    otherNight,
+  };
+
+  return [meta, ...keptEntries];
+}
@@ -0,0 +1,154 @@
+/**
+ * Blood on the Clocktower Token Generator
+ * Special Utilities - Validate app integration ("special") items
+ *
+ * The official script schema lets a character carry
+ * `special: [{ type, name, value?, time?, global? }]`, which online play apps
+ * (clocktower.online) read to enable grimoire selection, signals, vote
+ * modifiers and similar behaviour. `type` and `name` are required and, like
+ * `time` and `global`, limited to the values listed below.
+ */
+
+import type {
+  CharacterSpecial,
+  SpecialGlobal,
+  SpecialName,
+  SpecialTime,
+  SpecialType,
+} from '@/ts/types/index.js';
+
+// ============================================================================
+// Allowed Values (official script schema)
+// ============================================================================
+
+export const SPECIAL_TYPES: readonly SpecialType[] = [
+  'selection',
+  'ability',
+  'signal',
+  'vote',
+  'reveal',
+  'player',
+];
+
+export const SPECIAL_NAMES: readonly SpecialName[] = [
+  'grimoire',
+  'pointing',
+  'ghost-votes',
+  'distribute-roles',
+  'bag-disabled',
+  'bag-duplicate',
+  'multiplier',
+  'hidden',
+  'replace-character',
+  'player',
+  'card',
+  'open-eyes',
+];
+
+export const SPECIAL_TIMES: readonly SpecialTime[] = [
+  'pregame',
+  'day',
+  'night',
+  'firstNight',
+  'firstDay',
+  'otherNight',
+  'otherDay',
+];
+
+export const SPECIAL_GLOBALS: readonly SpecialGlobal[] = [
+  'townsfolk',
+  'outsider',
+  'minion',
+  'demon',
+  'traveller',
+  'dead',
+];
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * Result of normalizing a raw `special` value
+ */
+export interface SpecialNormalizeResult {
+  /** Valid special items (items with an unknown type or name are dropped) */
+  special: CharacterSpecial[];
+  /** Problems found while normalizing */
+  errors: string[];
+}
+
+// ============================================================================
+// Validation
+// ============================================================================
+
+function isOneOf<T extends string>(values: readonly T[], value: unknown): value is T {
+  return typeof value === 'string' && (values as readonly string[]).includes(value);
+}
+
+/**
+ * Validate and normalize a raw `special` value from script JSON.
+ *
+ * A single object is accepted and wrapped in an array (older tools wrote it
+ * that way). Invalid optional fields are removed from an item; items without
+ * a valid `type` and `name` are dropped.
+ *
+ * @param value - Raw value of the `special` field
+ * @returns Valid items plus a list of problems
+ */
+export function normalizeSpecial(value: unknown): SpecialNormalizeResult {
+  if (value === undefined) {
+    return { special: [], errors: [] };
+  }
+
+  const items =
+    typeof value === 'object' && value !== null && !Array.isArray(value) ? [value] : value;
+  if (!Array.isArray(items)) {
+    return { special: [], errors: ['special must be an array'] };
+  }
+
+  const special: CharacterSpecial[] = [];
+  const errors: string[] = [];
+
+  items.forEach((item, index) => {
+    const label = `special ${index + 1}`;
+    if (typeof item !== 'object' || item === null) {
+      errors.push(`${label} must be an object`);
+      return;
+    }
+    const { type, name, value: itemValue, time, global } = item as Record<string, unknown>;
+    if (!isOneOf(SPECIAL_TYPES, type)) {
+      errors.push(
+        type === undefined ? `${label} is missing a type` : `${label} has unknown type "${type}"`
+      );
+      return;
+    }
+    if (!isOneOf(SPECIAL_NAMES, name)) {
+      errors.push(
+        name === undefined ? `${label} is missing a name` : `${label} has unknown name "${name}"`
+      );
+      return;
+    }
+
+    const normalized: CharacterSpecial = { type, name };
+    if (typeof itemValue === 'string' || typeof itemValue === 'number') {
+      normalized.value = itemValue;
+    } else if (itemValue !== undefined) {
+      errors.push(`${label} (${name}) value must be a string or number`);
+    }
+    if (isOneOf(SPECIAL_TIMES, time)) {
+      normalized.time = time;
+    } else if (time !== undefined) {
+      errors.push(`${label} (${name}) has unknown time "${String(time)}"`);
+    }
+    if (isOneOf(SPECIAL_GLOBALS, global)) {
+      normalized.global = global;
+    } else if (global !== undefined) {
+      errors.push(`${label} (${name}) has unknown global "${String(global)}"`);
+    }
+
+    special.push(normalized);
+  });
+
+  return { special, errors };
+}
@@ -4,6 +4,7 @@
  */
 
 import JSZip from 'jszip';
+import { generateTokenBacks } from '@/ts/generation/batchGenerator.js';
 import type {
   GenerationOptions,
   ProgressCallback,
@@ -13,6 +14,7 @@ import type {
 } from '@/ts/types/index.js';
 import { downloadFile } from '@/ts/utils/index.js';
 import { PDFGenerator } from './pdfGenerator.js';
+import { getTokenImageFormat } from './svgExporter.js';
 import { getTokenFilename, getTokenFolderPath, processTokenToBlob } from './zipExporter.js';
 
 /**
@@ -116,7 +118,10 @@ export async function createCompletePackage(options: CompletePackageOptions): Pr
     const batchResults = await Promise.all(
       batch.map(async (token) => {
         const blob = await processTokenToBlob(token, generationOptions.pngSettings);
-        const filename = getTokenFilename(token);
+        const filename = getTokenFilename(
+          token,
+          getTokenImageFormat(token, generationOptions.pngSettings)
+        );
         const folderPath = getTokenFolderPath(token, zipSettings);
 
         // Report progress for each token
@@ -150,6 +155,10 @@ export async function createCompletePackage(options: CompletePackageOptions): Pr
     yOffset: generationOptions.pdfYOffset ?? 0, // Inches
     imageQuality: generationOptions.pdfImageQuality ?? 0.9,
     bleed: generationOptions.pdfBleed ?? 0.125, // Default 1/8" bleed
+    tokenShape: generationOptions.tokenShape,
+    tokenShapePath: generationOptions.tokenShapePath,
+    duplexXOffset: generationOptions.pdfDuplexXOffset ?? 0, // Inches
+    duplexYOffset: generationOptions.pdfDuplexYOffset ?? 0, // Inches
   });
 
   const pdfProgressCallback: ProgressCallback = (currentPage, totalPages) => {
@@ -161,7 +170,8 @@ export async function createCompletePackage(options: CompletePackageOptions): Pr
     }
   };
 
-  const pdfBlob = await pdfGenerator.getPDFBlob(tokens, pdfProgressCallback);
+  const pdfTokens = await generateTokenBacks(tokens, generationOptions, scriptMeta, signal);
+  const pdfBlob = await pdfGenerator.getPDFBlob(pdfTokens, pdfProgressCallback);
   zip.file(`${baseFilename}.pdf`, pdfBlob);
 
   // Check for cancellation
@@ -25,5 +25,19 @@ export {
   embedPngMetadata,
   type PngMetadata,
 } from './pngMetadata.js';
+// Role Card Export
+export {
+  createRoleCardSheetPdf,
+  createRoleCardsZip,
+  getCardSheetLayout,
+  type RoleCardSheetOptions,
+} from './roleCardExporter.js';
+// SVG Export
+export {
+  createTokenSvg,
+  drawingToSvg,
+  getTokenImageFormat,
+  tokenToSvgBlob,
+} from './svgExporter.js';
 // ZIP Export
 export { createTokensZip } from './zipExporter.js';
@@ -3,8 +3,13 @@
  * PDF Generator - PDF export functionality using pdf-lib
  */
 
-import { PDFDocument } from 'pdf-lib';
+import { PDFDocument, type PDFPage } from 'pdf-lib';
 import { generateBleedRing, hasValidSamples, sampleEdgeColors } from '@/ts/canvas/bleedUtils.js';
+import {
+  createShapeBoundary,
+  getTokenShapeGeometry,
+  type TokenShapeGeometry,
+} from '@/ts/canvas/tokenShapes.js';
 import CONFIG, { AVERY_TEMPLATES } from '@/ts/config.js';
 import { BLEED_ALGORITHM, DEFAULT_COLORS, PDF_POINTS_PER_INCH } from '@/ts/constants.js';
 import type {
@@ -70,6 +75,10 @@ export class PDFGenerator {
       imageQuality: options.imageQuality ?? CONFIG.PDF.IMAGE_QUALITY,
       template: options.template ?? CONFIG.PDF.DEFAULT_TEMPLATE,
       bleed: options.bleed ?? 0.125, // Default 1/8" bleed for cutting
+      tokenShape: options.tokenShape,
+      tokenShapePath: options.tokenShapePath,
+      duplexXOffset: options.duplexXOffset ?? 0,
+      duplexYOffset: options.duplexYOffset ?? 0,
     };
 
     // Calculate usable area in pixels at configured DPI
@@ -97,6 +106,13 @@ export class PDFGenerator {
     this.usableHeight = this.pageHeightPx - 2 * this.marginPx;
   }
 
+  /**
+   * Token shape the sheet is laid out and bled for
+   */
+  private getShape(): TokenShapeGeometry {
+    return getTokenShapeGeometry(this.options.tokenShape, this.options.tokenShapePath);
+  }
+
   /**
    * Calculate grid layout for tokens
    * @param tokens - Array of token objects with canvas
@@ -124,9 +140,10 @@ export class PDFGenerator {
 
     // Layout each group with its appropriate template
     // Character tokens use Avery 94500 (1.75"), reminders use Avery 94509 (1")
-    const charTemplate = this.options.template === 'custom' ? null : AVERY_TEMPLATES['avery-94500'];
-    const reminderTemplate =
-      this.options.template === 'custom' ? null : AVERY_TEMPLATES['avery-94509'];
+    // Avery sheets are round labels, so other shapes use the legacy grid
+    const useAvery = this.options.template !== 'custom' && this.getShape().shape === 'circle';
+    const charTemplate = useAvery ? AVERY_TEMPLATES['avery-94500'] : null;
+    const reminderTemplate = useAvery ? AVERY_TEMPLATES['avery-94509'] : null;
 
     const charPages = this.calculateSingleLayout(characterTokens, charTemplate);
     const reminderPages = this.calculateSingleLayout(reminderTokens, reminderTemplate);
@@ -308,6 +325,7 @@ export class PDFGenerator {
     }
 
     const imageData = tokenCtx.getImageData(0, 0, originalSize, originalSize);
+    const boundary = createShapeBoundary(this.getShape());
 
     // Sample colors from safe zone inside the token edge
     const samples = sampleEdgeColors(
@@ -315,7 +333,8 @@ export class PDFGenerator {
       center,
       originalRadius,
       BLEED_ALGORITHM.SAMPLE_COUNT,
-      BLEED_ALGORITHM.SAFE_SAMPLE_DISTANCE
+      BLEED_ALGORITHM.SAFE_SAMPLE_DISTANCE,
+      boundary
     );
 
     // Validate that we have enough opaque samples for bleed generation
@@ -349,7 +368,8 @@ export class PDFGenerator {
         innerOverlap: BLEED_ALGORITHM.INNER_OVERLAP,
       },
       samples,
-      BLEED_ALGORITHM.MIN_ALPHA_THRESHOLD
+      BLEED_ALGORITHM.MIN_ALPHA_THRESHOLD,
+      boundary
     );
 
     // Draw the original token on top
@@ -408,40 +428,8 @@ export class PDFGenerator {
 
       // Add tokens to page
       for (const item of pageItems) {
-        // Create bleed canvas
-        const bleedCanvas = this.createBleedCanvas(item.token.canvas, bleedPx);
-
-        // Convert canvas to ArrayBuffer (efficient, no base64)
-        const imageBuffer = await canvasToArrayBuffer(
-          bleedCanvas,
-          'image/jpeg',
-          this.options.imageQuality
-        );
-
-        // Embed image in PDF
-        const image = await pdfDoc.embedJpg(imageBuffer);
-
-        // Calculate position in points
-        // Note: PDF coordinate system has origin at bottom-left, Y increases upward
-        const xOffsetInches = this.options.xOffset;
-        const yOffsetInches = this.options.yOffset;
-
-        // Position calculation (accounting for bleed offset)
-        const xInches = leftMarginInches + xOffsetInches + item.x / this.options.dpi - bleedInches;
-        // Convert from top-down (layout) to bottom-up (PDF) coordinates
-        const yFromTop = topMarginInches + yOffsetInches + item.y / this.options.dpi - bleedInches;
-        const heightInches = (item.height + bleedPx * 2) / this.options.dpi;
-        const yInches = this.options.pageHeight - yFromTop - heightInches;
-
-        const widthInches = (item.width + bleedPx * 2) / this.options.dpi;
-
-        // Draw image on page (convert inches to points)
-        page.drawImage(image, {
-          x: inchesToPoints(xInches),
-          y: inchesToPoints(yInches),
-          width: inchesToPoints(widthInches),
-          height: inchesToPoints(heightInches),
-        });
+        const rect = this.getTokenRect(item, leftMarginInches, topMarginInches, bleedPx);
+        await this.drawTokenImage(pdfDoc, page, item.token.canvas, rect, bleedPx);
 
         // Report progress by token
         tokensProcessed++;
@@ -449,11 +437,85 @@ export class PDFGenerator {
           progressCallback(tokensProcessed, totalTokens);
         }
       }
+
+      // Back page follows its front page, mirrored left-to-right so each back
+      // lands behind its front when the sheet is flipped on the long edge
+      if (pageItems.some((item) => item.token.backCanvas)) {
+        const backPage = pdfDoc.addPage([pageWidthPt, pageHeightPt]);
+        for (const item of pageItems) {
+          const { backCanvas } = item.token;
+          if (!backCanvas) continue;
+
+          const front = this.getTokenRect(item, leftMarginInches, topMarginInches, bleedPx);
+          const rect = {
+            ...front,
+            x: this.options.pageWidth - front.x - front.width + (this.options.duplexXOffset ?? 0),
+            y: front.y - (this.options.duplexYOffset ?? 0),
+          };
+          await this.drawTokenImage(pdfDoc, backPage, backCanvas, rect, bleedPx);
+        }
+      }
     }
 
     return pdfDoc.save();
   }
 
+  /**
+   * Position of a token image on the page in inches (PDF coordinates,
+   * origin at bottom-left), including its bleed
+   */
+  private getTokenRect(
+    item: TokenLayoutItem,
+    leftMarginInches: number,
+    topMarginInches: number,
+    bleedPx: number
+  ): { x: number; y: number; width: number; height: number } {
+    const { dpi, xOffset, yOffset, pageHeight } = this.options;
+    const bleedInches = this.options.bleed ?? 0;
+
+    // Position calculation (accounting for bleed offset)
+    const x = leftMarginInches + xOffset + item.x / dpi - bleedInches;
+    // Convert from top-down (layout) to bottom-up (PDF) coordinates
+    const yFromTop = topMarginInches + yOffset + item.y / dpi - bleedInches;
+    const height = (item.height + bleedPx * 2) / dpi;
+    const width = (item.width + bleedPx * 2) / dpi;
+
+    return { x, y: pageHeight - yFromTop - height, width, height };
+  }
+
+  /**
+   * Add bleed to a token canvas and draw it on a page
+   * @param rect - Placement in inches from getTokenRect
+   */
+  private async drawTokenImage(
+    pdfDoc: PDFDocument,
+    page: PDFPage,
+    canvas: HTMLCanvasElement,
+    rect: { x: number; y: number; width: number; height: number },
+    bleedPx: number
+  ): Promise<void> {
+    // Create bleed canvas
+    const bleedCanvas = this.createBleedCanvas(canvas, bleedPx);
+
+    // Convert canvas to ArrayBuffer (efficient, no base64)
+    const imageBuffer = await canvasToArrayBuffer(
+      bleedCanvas,
+      'image/jpeg',
+      this.options.imageQuality
+    );
+
+    // Embed image in PDF
+    const image = await pdfDoc.embedJpg(imageBuffer);
+
+    // Draw image on page (convert inches to points)
+    page.drawImage(image, {
+      x: inchesToPoints(rect.x),
+      y: inchesToPoints(rect.y),
+      width: inchesToPoints(rect.width),
+      height: inchesToPoints(rect.height),
+    });
+  }
+
   /**
    * Generate and download PDF
    * @param tokens - Array of token objects with canvas
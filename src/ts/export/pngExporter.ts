@@ -6,9 +6,10 @@
 import type { PngExportOptions, Token } from '@/ts/types/index.js';
 import { canvasToBlob, downloadFile } from '@/ts/utils/index.js';
 import { buildTokenMetadata, embedPngMetadata } from './pngMetadata.js';
+import { getTokenImageFormat, tokenToSvgBlob } from './svgExporter.js';
 
 /**
- * Download a single token as PNG
+ * Download a single token as PNG (or SVG when selected in the PNG settings)
  * @param token - Token object with canvas
  * @param pngSettings - Optional PNG export settings
  */
@@ -16,6 +17,11 @@ export async function downloadTokenPNG(
   token: Token,
   pngSettings?: PngExportOptions
 ): Promise<void> {
+  if (getTokenImageFormat(token, pngSettings) === 'svg') {
+    downloadFile(await tokenToSvgBlob(token), `${token.filename}.svg`);
+    return;
+  }
+
   let blob = await canvasToBlob(token.canvas);
 
   // Embed metadata if enabled
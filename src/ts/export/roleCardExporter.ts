@@ -0,0 +1,211 @@
+/**
+ * Blood on the Clocktower Token Generator
+ * Role Card Exporter - PNG ZIP and printable PDF card sheets
+ *
+ * The PDF sheet lays cards edge-to-edge in a grid centered on the page, so
+ * one straight cut separates two cards. Cut marks are drawn in the page
+ * margins in line with every card edge.
+ */
+
+import JSZip from 'jszip';
+import { PDFDocument, type PDFPage, rgb } from 'pdf-lib';
+import CONFIG, { TEAM_LABELS } from '@/ts/config.js';
+import { PDF_POINTS_PER_INCH, ROLE_CARD_SIZES } from '@/ts/constants.js';
+import type { ProgressCallback, RoleCard, RoleCardSize } from '@/ts/types/index.js';
+import { canvasToArrayBuffer, canvasToBlob } from '@/ts/utils/index.js';
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+/** Length of a cut mark in inches */
+const CUT_MARK_LENGTH = 0.25;
+
+/** Space between the card grid and the start of a cut mark in inches */
+const CUT_MARK_GAP = 0.0625;
+
+/** Cut mark line width in points */
+const CUT_MARK_THICKNESS = 0.5;
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/**
+ * PDF card sheet options
+ */
+export interface RoleCardSheetOptions {
+  /** Page width in inches (default: Letter) */
+  pageWidth?: number;
+  /** Page height in inches (default: Letter) */
+  pageHeight?: number;
+  /** JPEG quality for card images (0.0-1.0) */
+  imageQuality?: number;
+}
+
+/**
+ * Card grid on a sheet, in inches from the bottom-left page corner
+ */
+interface CardSheetLayout {
+  columns: number;
+  rows: number;
+  cardWidth: number;
+  cardHeight: number;
+  left: number;
+  bottom: number;
+}
+
+// ============================================================================
+// ZIP EXPORT
+// ============================================================================
+
+/**
+ * Create a ZIP file with one PNG per role card, in team folders
+ * @param cards - Rendered role cards
+ * @param progressCallback - Progress callback
+ * @returns ZIP file blob
+ */
+export async function createRoleCardsZip(
+  cards: RoleCard[],
+  progressCallback: ProgressCallback | null = null
+): Promise<Blob> {
+  if (cards.length === 0) {
+    throw new Error('No role cards to export');
+  }
+
+  const zip = new JSZip();
+  let processedCount = 0;
+
+  for (const card of cards) {
+    const blob = await canvasToBlob(card.canvas);
+    const teamName = TEAM_LABELS[card.team as keyof typeof TEAM_LABELS] ?? card.team;
+    zip.file(`role_cards/${teamName}/${card.filename}.png`, blob);
+
+    processedCount++;
+    progressCallback?.(processedCount, cards.length);
+  }
+
+  return await zip.generateAsync({
+    type: 'blob',
+    compression: 'DEFLATE',
+    compressionOptions: { level: 6 },
+  });
+}
+
+// ============================================================================
+// PDF CARD SHEET
+// ============================================================================
+
+/**
+ * Fit as many cards of a size as possible on a page, centered
+ */
+export function getCardSheetLayout(
+  size: RoleCardSize,
+  pageWidth: number = CONFIG.PDF.PAGE_WIDTH,
+  pageHeight: number = CONFIG.PDF.PAGE_HEIGHT
+): CardSheetLayout {
+  const { width: cardWidth, height: cardHeight } = ROLE_CARD_SIZES[size];
+  const columns = Math.max(1, Math.floor(pageWidth / cardWidth));
+  const rows = Math.max(1, Math.floor(pageHeight / cardHeight));
+
+  return {
+    columns,
+    rows,
+    cardWidth,
+    cardHeight,
+    left: (pageWidth - columns * cardWidth) / 2,
+    bottom: (pageHeight - rows * cardHeight) / 2,
+  };
+}
+
+/**
+ * Draw cut marks in the page margins at every column and row boundary
+ */
+function drawCutMarks(page: PDFPage, layout: CardSheetLayout): void {
+  const { columns, rows, cardWidth, cardHeight, left, bottom } = layout;
+  const right = left + columns * cardWidth;
+  const top = bottom + rows * cardHeight;
+
+  // Marks shrink to fit narrow margins (the grid is centered, so opposite
+  // margins are equal)
+  const horizontalLength = Math.min(CUT_MARK_LENGTH, left - CUT_MARK_GAP);
+  const verticalLength = Math.min(CUT_MARK_LENGTH, bottom - CUT_MARK_GAP);
+
+  const line = (x1: number, y1: number, x2: number, y2: number) => {
+    page.drawLine({
+      start: { x: x1 * PDF_POINTS_PER_INCH, y: y1 * PDF_POINTS_PER_INCH },
+      end: { x: x2 * PDF_POINTS_PER_INCH, y: y2 * PDF_POINTS_PER_INCH },
+      thickness: CUT_MARK_THICKNESS,
+      color: rgb(0, 0, 0),
+    });
+  };
+
+  if (verticalLength > 0) {
+    for (let column = 0; column <= columns; column++) {
+      const x = left + column * cardWidth;
+      line(x, top + CUT_MARK_GAP, x, top + CUT_MARK_GAP + verticalLength);
+      line(x, bottom - CUT_MARK_GAP, x, bottom - CUT_MARK_GAP - verticalLength);
+    }
+  }
+
+  if (horizontalLength > 0) {
+    for (let row = 0; row <= rows; row++) {
+      const y = bottom + row * cardHeight;
+      line(left - CUT_MARK_GAP, y, left - CUT_MARK_GAP - horizontalLength, y);
+      line(right + CUT_MARK_GAP, y, right + CUT_MARK_GAP + horizontalLength, y);
+    }
+  }
+}
+
+/**
+ * Create a printable PDF of role cards with cut marks
+ * @param cards - Rendered role cards (all the same size)
+ * @param options - Page and image options
+ * @param progressCallback - Progress callback
+ * @returns PDF bytes
+ */
+export async function createRoleCardSheetPdf(
+  cards: RoleCard[],
+  options: RoleCardSheetOptions = {},
+  progressCallback: ProgressCallback | null = null
+): Promise<Uint8Array> {
+  if (cards.length === 0) {
+    throw new Error('No role cards to export');
+  }
+
+  const pageWidth = options.pageWidth ?? CONFIG.PDF.PAGE_WIDTH;
+  const pageHeight = options.pageHeight ?? CONFIG.PDF.PAGE_HEIGHT;
+  const imageQuality = options.imageQuality ?? CONFIG.PDF.IMAGE_QUALITY;
+  const layout = getCardSheetLayout(cards[0].size, pageWidth, pageHeight);
+  const cardsPerPage = layout.columns * layout.rows;
+
+  const pdfDoc = await PDFDocument.create();
+  let page: PDFPage | null = null;
+
+  for (const [index, card] of cards.entries()) {
+    const slot = index % cardsPerPage;
+    if (slot === 0 || !page) {
+      page = pdfDoc.addPage([pageWidth * PDF_POINTS_PER_INCH, pageHeight * PDF_POINTS_PER_INCH]);
+      drawCutMarks(page, layout);
+    }
+
+    // Fill rows from the top of the page
+    const column = slot % layout.columns;
+    const row = Math.floor(slot / layout.columns);
+    const x = layout.left + column * layout.cardWidth;
+    const y = layout.bottom + (layout.rows - 1 - row) * layout.cardHeight;
+
+    const imageBuffer = await canvasToArrayBuffer(card.canvas, 'image/jpeg', imageQuality);
+    const image = await pdfDoc.embedJpg(imageBuffer);
+    page.drawImage(image, {
+      x: x * PDF_POINTS_PER_INCH,
+      y: y * PDF_POINTS_PER_INCH,
+      width: layout.cardWidth * PDF_POINTS_PER_INCH,
+      height: layout.cardHeight * PDF_POINTS_PER_INCH,
+    });
+
+    progressCallback?.(index + 1, cards.length);
+  }
+
+  return pdfDoc.save();
+}
@@ -0,0 +1,367 @@
+/**
+ * Blood on the Clocktower Token Generator
+ * SVG Exporter - Serializes recorded token drawings to SVG
+ *
+ * Curved names become <textPath> text, ability and meta text become <text>
+ * lines, and the fonts they use are embedded as @font-face data URLs so the
+ * file renders the same on machines without them. Icons, accents and the
+ * background raster are embedded as images.
+ */
+
+import {
+  getSvgDrawing,
+  type RecordedSvgElement,
+  type SvgDrawing,
+  type SvgElement,
+  type SvgFont,
+  type SvgImageSource,
+  type SvgTextShadow,
+} from '@/ts/canvas/index.js';
+import { DEFAULT_COLORS } from '@/ts/constants.js';
+import { collectFontSources } from '@/ts/generation/WorkerTokenRenderer.js';
+import type { PngExportOptions, Token, TokenImageFormat } from '@/ts/types/index.js';
+import { logger } from '@/ts/utils/logger.js';
+
+const SVG_NS = 'http://www.w3.org/2000/svg';
+const XLINK_NS = 'http://www.w3.org/1999/xlink';
+const CLIP_ID = 'token-clip';
+
+/** Encoded images, reused across tokens that share an icon or accent */
+const encodedImages = new WeakMap<object, string>();
+
+/** Font files fetched as data URLs, keyed by URL */
+const embeddedFontFiles = new Map<string, Promise<string>>();
+
+// ============================================================================
+// FORMAT SELECTION
+// ============================================================================
+
+/**
+ * Resolve the file format a token is exported in.
+ * SVG is only used when requested and the token was recorded for it.
+ */
+export function getTokenImageFormat(
+  token: Token,
+  pngSettings?: PngExportOptions
+): TokenImageFormat {
+  return pngSettings?.format === 'svg' && getSvgDrawing(token.canvas) ? 'svg' : 'png';
+}
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
+
+/**
+ * Format a coordinate without float noise
+ */
+function num(value: number): string {
+  return String(Math.round(value * 100) / 100);
+}
+
+function blobToDataURL(blob: Blob): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(blob);
+  });
+}
+
+/**
+ * Encode an image as a PNG data URL
+ */
+function encodeImage(source: SvgImageSource): string {
+  const cached = encodedImages.get(source);
+  if (cached) return cached;
+
+  let href: string;
+  if (source instanceof HTMLCanvasElement) {
+    href = source.toDataURL('image/png');
+  } else if (source instanceof HTMLImageElement && source.src.startsWith('data:')) {
+    href = source.src;
+  } else {
+    const canvas = document.createElement('canvas');
+    canvas.width = source.width;
+    canvas.height = source.height;
+    canvas.getContext('2d')?.drawImage(source, 0, 0);
+    href = canvas.toDataURL('image/png');
+  }
+
+  encodedImages.set(source, href);
+  return href;
+}
+
+function fontFamilyValue(font: SvgFont): string {
+  return `"${font.family}", ${font.fallback}`;
+}
+
+function fontAttributes(font: SvgFont): string {
+  return `font-family="${escapeXml(fontFamilyValue(font))}" font-size="${num(font.size)}"${font.bold ? ' font-weight="bold"' : ''}`;
+}
+
+// ============================================================================
+// FONTS
+// ============================================================================
+
+/**
+ * Fetch a font file once and return it as a data URL
+ */
+function embedFontFile(url: string): Promise<string> {
+  let embedded = embeddedFontFiles.get(url);
+  if (!embedded) {
+    embedded = fetch(url)
+      .then((response) => {
+        if (!response.ok) throw new Error(`HTTP ${response.status}`);
+        return response.blob();
+      })
+      .then(blobToDataURL)
+      .catch((error) => {
+        logger.warn('SvgExporter', `Failed to embed font file: ${url}`, error);
+        embeddedFontFiles.delete(url);
+        return url;
+      });
+    embeddedFontFiles.set(url, embedded);
+  }
+  return embedded;
+}
+
+/**
+ * Build @font-face rules for the font families used in a drawing
+ */
+async function buildFontFaces(families: Set<string>): Promise<string> {
+  const sources = collectFontSources().filter((font) => families.has(font.family));
+
+  const rules = await Promise.all(
+    sources.map(async (font) => {
+      const urls = Array.from(font.source.matchAll(/url\("([^"]+)"\)/g), (match) => match[1]);
+      let source = font.source;
+      for (const url of urls) {
+        source = source.replace(`url("${url}")`, `url("${await embedFontFile(url)}")`);
+      }
+      const weight = font.descriptors?.weight ?? 'normal';
+      const style = font.descriptors?.style ?? 'normal';
+      return `@font-face { font-family: "${font.family}"; src: ${source}; font-weight: ${weight}; font-style: ${style}; }`;
+    })
+  );
+
+  return rules.join('\n');
+}
+
+// ============================================================================
+// ELEMENTS
+// ============================================================================
+
+/**
+ * Shared <defs> entries collected while serializing elements
+ */
+class SvgDefs {
+  readonly entries: string[] = [];
+  private filters = new Map<string, string>();
+  private pathCount = 0;
+
+  shadowFilter(shadow: SvgTextShadow): string {
+    const key = `${shadow.blur}|${shadow.offset}`;
+    let id = this.filters.get(key);
+    if (!id) {
+      id = `text-shadow-${this.filters.size + 1}`;
+      this.filters.set(key, id);
+      this.entries.push(
+        `<filter id="${id}" x="-20%" y="-20%" width="140%" height="140%">` +
+          `<feDropShadow dx="${num(shadow.offset)}" dy="${num(shadow.offset)}" stdDeviation="${num(shadow.blur / 2)}" flood-color="${DEFAULT_COLORS.TEXT_SHADOW}"/>` +
+          '</filter>'
+      );
+    }
+    return id;
+  }
+
+  /**
+   * Circle path whose midpoint sits at the top or bottom of the token,
+   * running left to right so centered text reads upright
+   */
+  curvePath(cx: number, cy: number, r: number, position: 'top' | 'bottom'): string {
+    const id = `text-curve-${++this.pathCount}`;
+    const [fromY, toY, sweep] = position === 'bottom' ? [cy - r, cy + r, 0] : [cy + r, cy - r, 1];
+    const arc = `A ${num(r)} ${num(r)} 0 1 ${sweep}`;
+    this.entries.push(
+      `<path id="${id}" d="M ${num(cx)} ${num(fromY)} ${arc} ${num(cx)} ${num(toY)} ${arc} ${num(cx)} ${num(fromY)}"/>`
+    );
+    return id;
+  }
+}
+
+function filterAttribute(defs: SvgDefs, shadow?: SvgTextShadow): string {
+  return shadow ? ` filter="url(#${defs.shadowFilter(shadow)})"` : '';
+}
+
+function serializeElement(element: SvgElement, defs: SvgDefs): string {
+  switch (element.kind) {
+    case 'raster':
+      return `<image x="${num(element.x)}" y="${num(element.y)}" width="${num(element.width)}" height="${num(element.height)}" xlink:href="${element.href}"/>`;
+
+    case 'image': {
+      const transforms: string[] = [];
+      if (element.translate) {
+        transforms.push(`translate(${num(element.translate.x)} ${num(element.translate.y)})`);
+      }
+      if (element.rotate) {
+        transforms.push(`rotate(${num((element.rotate * 180) / Math.PI)})`);
+      }
+      const transform = transforms.length > 0 ? ` transform="${transforms.join(' ')}"` : '';
+      return `<image x="${num(element.x)}" y="${num(element.y)}" width="${num(element.width)}" height="${num(element.height)}" preserveAspectRatio="none"${transform} xlink:href="${encodeImage(element.source)}"/>`;
+    }
+
+    case 'curved-text': {
+      const pathId = defs.curvePath(
+        element.center.x,
+        element.center.y,
+        element.radius,
+        element.position
+      );
+      const fit =
+        element.textLength !== undefined
+          ? ` textLength="${num(element.textLength)}" lengthAdjust="spacing"`
+          : '';
+      return (
+        `<text ${fontAttributes(element.font)} fill="${escapeXml(element.color)}" letter-spacing="${num(element.letterSpacing)}" text-anchor="middle" dominant-baseline="middle"${filterAttribute(defs, element.shadow)}>` +
+        `<textPath xlink:href="#${pathId}" startOffset="50%"${fit}>${escapeXml(element.text)}</textPath>` +
+        '</text>'
+      );
+    }
+
+    case 'text': {
+      const baseline = element.baseline === 'top' ? 'text-before-edge' : 'middle';
+      const lines = element.lines.map((line) => {
+        const segments = line.segments
+          .map((segment) => {
+            const style =
+              (segment.bold && !element.font.bold ? ' font-weight="bold"' : '') +
+              (segment.italic ? ' font-style="italic"' : '');
+            return style
+              ? `<tspan${style}>${escapeXml(segment.text)}</tspan>`
+              : escapeXml(segment.text);
+          })
+          .join('');
+        const fit =
+          line.textLength !== undefined
+            ? ` textLength="${num(line.textLength)}" lengthAdjust="spacing"`
+            : '';
+        return `<tspan x="${num(element.x)}" y="${num(line.y)}"${fit}>${segments}</tspan>`;
+      });
+      return (
+        `<text ${fontAttributes(element.font)} fill="${escapeXml(element.color)}" letter-spacing="${num(element.letterSpacing)}" text-anchor="middle" dominant-baseline="${baseline}" xml:space="preserve"${filterAttribute(defs, element.shadow)}>` +
+        lines.join('') +
+        '</text>'
+      );
+    }
+
+    case 'circle':
+      return `<circle cx="${num(element.center.x)}" cy="${num(element.center.y)}" r="${num(element.radius)}" fill="${escapeXml(element.fill)}"${element.stroke ? ` stroke="${escapeXml(element.stroke)}" stroke-width="${num(element.strokeWidth ?? 1)}"` : ''}/>`;
+  }
+}
+
+/**
+ * Serialize elements, wrapping runs of clipped elements in the token clip
+ */
+function serializeElements(elements: RecordedSvgElement[], defs: SvgDefs): string[] {
+  const output: string[] = [];
+  let clippedRun: string[] = [];
+
+  const flushClipped = () => {
+    if (clippedRun.length === 0) return;
+    output.push(`<g clip-path="url(#${CLIP_ID})">`, ...clippedRun, '</g>');
+    clippedRun = [];
+  };
+
+  for (const { element, clipped } of elements) {
+    const markup = serializeElement(element, defs);
+    if (clipped) {
+      clippedRun.push(markup);
+    } else {
+      flushClipped();
+      output.push(markup);
+    }
+  }
+  flushClipped();
+
+  return output;
+}
+
+/**
+ * Token outline for the clip path (outlines are drawn in a 100×100 box)
+ */
+function clipShape({ diameter, outline }: SvgDrawing): string {
+  if (!outline) {
+    return `<circle cx="${num(diameter / 2)}" cy="${num(diameter / 2)}" r="${num(diameter / 2)}"/>`;
+  }
+  return `<path d="${escapeXml(outline)}" transform="scale(${diameter / 100})"/>`;
+}
+
+function collectFontFamilies(drawing: SvgDrawing): Set<string> {
+  const families = new Set<string>();
+  for (const { element } of drawing.elements) {
+    if (element.kind === 'curved-text' || element.kind === 'text') {
+      families.add(element.font.family);
+    }
+  }
+  return families;
+}
+
+// ============================================================================
+// EXPORT
+// ============================================================================
+
+/**
+ * Serialize a recorded drawing to an SVG document
+ * @param drawing - Recorded token drawing
+ * @param title - Document title (token name)
+ */
+export async function drawingToSvg(drawing: SvgDrawing, title: string): Promise<string> {
+  const { diameter, dpi } = drawing;
+  const defs = new SvgDefs();
+  const body = serializeElements(drawing.elements, defs);
+  const fontFaces = await buildFontFaces(collectFontFamilies(drawing));
+  const size = `${num(diameter / dpi)}in`;
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<svg xmlns="${SVG_NS}" xmlns:xlink="${XLINK_NS}" width="${size}" height="${size}" viewBox="0 0 ${num(diameter)} ${num(diameter)}">`,
+    `<title>${escapeXml(title)}</title>`,
+    '<defs>',
+    fontFaces ? `<style>\n${fontFaces}\n</style>` : '',
+    `<clipPath id="${CLIP_ID}">${clipShape(drawing)}</clipPath>`,
+    ...defs.entries,
+    '</defs>',
+    ...body,
+    '</svg>',
+  ]
+    .filter(Boolean)
+    .join('\n');
+}
+
+/**
+ * Create the SVG document for a token
+ * @throws Error if the token was not recorded for SVG output
+ */
+export async function createTokenSvg(token: Token): Promise<string> {
+  const drawing = getSvgDrawing(token.canvas);
+  if (!drawing) {
+    throw new Error(`Token "${token.name}" was not generated for SVG output`);
+  }
+  return drawingToSvg(drawing, token.name);
+}
+
+/**
+ * Create an SVG blob for a token
+ */
+export async function tokenToSvgBlob(token: Token): Promise<Blob> {
+  return new Blob([await createTokenSvg(token)], { type: 'image/svg+xml' });
+}
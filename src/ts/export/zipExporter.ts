@@ -9,10 +9,12 @@ import type {
   PngExportOptions,
   ProgressCallback,
   Token,
+  TokenImageFormat,
   ZipExportOptions,
 } from '@/ts/types/index.js';
 import { canvasToBlob } from '@/ts/utils/index.js';
 import { buildTokenMetadata, embedPngMetadata } from './pngMetadata.js';
+import { getTokenImageFormat, tokenToSvgBlob } from './svgExporter.js';
 
 // ============================================================================
 // CONSTANTS
@@ -57,12 +59,12 @@ export function isMetaToken(token: Token): boolean {
 /**
  * Get the filename for a token, with underscore prefix for meta tokens
  */
-export function getTokenFilename(token: Token): string {
+export function getTokenFilename(token: Token, format: TokenImageFormat = 'png'): string {
   let filename = token.filename;
   if (isMetaToken(token) && !filename.startsWith('_')) {
     filename = `_${filename}`;
   }
-  return `${filename}.png`;
+  return `${filename}.${format}`;
 }
 
 /**
@@ -96,11 +98,16 @@ export function getTokenFolderPath(token: Token, settings: ZipExportOptions): st
 
 /**
  * Process a token and convert to blob with optional metadata
+ * (an SVG document when SVG output is selected)
  */
 export async function processTokenToBlob(
   token: Token,
   pngSettings?: PngExportOptions
 ): Promise<Blob> {
+  if (getTokenImageFormat(token, pngSettings) === 'svg') {
+    return tokenToSvgBlob(token);
+  }
+
   let blob = await canvasToBlob(token.canvas);
 
   if (pngSettings?.embedMetadata) {
@@ -164,7 +171,7 @@ export async function createTokensZip(
     const batchResults = await Promise.all(
       batch.map(async (token) => {
         const blob = await processTokenToBlob(token, pngSettings);
-        const filename = getTokenFilename(token);
+        const filename = getTokenFilename(token, getTokenImageFormat(token, pngSettings));
         const folderPath = getTokenFolderPath(token, settings);
 
         // Report progress for each individual token
@@ -0,0 +1,370 @@
+/**
+ * Blood on the Clocktower Token Generator
+ * Role Card Generator - Renders characters as portrait role cards
+ *
+ * Cards reuse the token style: the character background (BackgroundRenderer
+ * styles, solid colors or background images), the name and ability fonts
+ * and colors, and the character icon. The team banner uses the team colors.
+ */
+
+import { getCachedFont } from '@/ts/cache/instances/fontCache.js';
+import {
+  applyConfigurableShadow,
+  createCanvasElement,
+  drawStyledLine,
+  renderBackground,
+  wrapText,
+} from '@/ts/canvas/index.js';
+import {
+  DEFAULT_COLORS,
+  LINE_HEIGHTS,
+  ROLE_CARD_LAYOUT,
+  ROLE_CARD_SIZES,
+  TEAM_COLORS,
+  TEAM_LABELS,
+  type TeamColorKey,
+  type TeamLabelKey,
+} from '@/ts/constants.js';
+import { ValidationError } from '@/ts/errors.js';
+import type { Character, RoleCardSize } from '@/ts/types/index.js';
+import { DEFAULT_TOKEN_OPTIONS, type TokenGeneratorOptions } from '@/ts/types/tokenOptions.js';
+import { getAbilityDisplayText, getLineSegments } from '@/ts/utils/abilityTextParser.js';
+import { getFallbackFontStack } from '@/ts/utils/localeFonts.js';
+import { logger } from '@/ts/utils/logger.js';
+import { createSeededRandom, type RandomSource } from '@/ts/utils/seededRandom.js';
+import { defaultImageCache } from './ImageCacheAdapter.js';
+import { type IImageCache, TokenImageRenderer } from './TokenImageRenderer.js';
+import { getTokenSeedKey, resolveTokenSeed } from './tokenSeeds.js';
+
+/**
+ * Per-card content options
+ */
+export interface RoleCardContentOptions {
+  /** Resolved icon URL (defaults to none) */
+  imageUrl?: string;
+  /** Print the character's flavor text (default: true) */
+  flavorText?: boolean;
+}
+
+/**
+ * Renders role cards with the token generation options
+ */
+export class RoleCardGenerator {
+  private options: TokenGeneratorOptions;
+  private imageRenderer: TokenImageRenderer;
+
+  /**
+   * @param options - Token generation options (fonts, colors, background, DPI)
+   * @param imageCache - Image cache implementation (optional, uses global cache by default)
+   */
+  constructor(
+    options: Partial<TokenGeneratorOptions> = {},
+    imageCache: IImageCache = defaultImageCache
+  ) {
+    this.options = { ...DEFAULT_TOKEN_OPTIONS, ...options };
+    if (options.textShadow) {
+      this.options.textShadow = { ...DEFAULT_TOKEN_OPTIONS.textShadow, ...options.textShadow };
+    }
+    this.imageRenderer = new TokenImageRenderer(this.options, imageCache);
+  }
+
+  /**
+   * Generate a role card for a character
+   * @param character - Character to render
+   * @param size - Card size (default: poker)
+   * @param content - Icon and flavor text options
+   * @returns Card canvas at the configured DPI
+   */
+  async generateRoleCard(
+    character: Character,
+    size: RoleCardSize = 'poker',
+    content: RoleCardContentOptions = {}
+  ): Promise<HTMLCanvasElement> {
+    if (!character?.name) {
+      throw new ValidationError('Character must have a name');
+    }
+    if (this.options.dpi <= 0) {
+      throw new ValidationError('DPI must be positive');
+    }
+
+    const { width: widthInches, height: heightInches } = ROLE_CARD_SIZES[size];
+    const width = Math.round(widthInches * this.options.dpi);
+    const height = Math.round(heightInches * this.options.dpi);
+
+    const canvas = createCanvasElement(width, height);
+    const ctx = canvas.getContext('2d');
+    if (!ctx) {
+      throw new Error('Failed to get canvas context');
+    }
+    ctx.imageSmoothingEnabled = true;
+    ctx.imageSmoothingQuality = 'high';
+
+    const margin = width * ROLE_CARD_LAYOUT.MARGIN;
+
+    // Cards share the look of the character's token
+    const random = createSeededRandom(
+      resolveTokenSeed(this.options.randomSeed, character, getTokenSeedKey('character'))
+    );
+    await this.drawBackground(ctx, width, height, random);
+    this.drawFrame(ctx, width, height, margin);
+    this.drawName(ctx, character.name, width, height, margin);
+    this.drawTeamBanner(ctx, character.team, width, height, margin);
+
+    if (content.imageUrl) {
+      await this.drawIcon(ctx, content.imageUrl, width, height, margin);
+    }
+
+    const abilityBottom = character.ability?.trim()
+      ? this.drawAbility(ctx, character.ability.trim(), width, height, margin)
+      : height * ROLE_CARD_LAYOUT.ABILITY_Y;
+
+    if (content.flavorText !== false && character.flavor?.trim()) {
+      this.drawFlavor(ctx, character.flavor.trim(), width, height, margin, abilityBottom);
+    }
+
+    logger.debug('RoleCardGenerator', 'Generated role card', { character: character.name, size });
+    return canvas;
+  }
+
+  // ========================================================================
+  // CARD PARTS
+  // ========================================================================
+
+  /**
+   * Draw the character background. Backgrounds are designed for a square
+   * token, so they are rendered at the card height and center-cropped.
+   */
+  private async drawBackground(
+    ctx: CanvasRenderingContext2D,
+    width: number,
+    height: number,
+    random: RandomSource
+  ): Promise<void> {
+    const square = createCanvasElement(height, height);
+    const squareCtx = square.getContext('2d');
+    if (!squareCtx) return;
+
+    // Fills in the background helpers use the current path
+    squareCtx.beginPath();
+    squareCtx.rect(0, 0, height, height);
+
+    // Priority: BackgroundStyle > color > image (same as character tokens)
+    if (this.options.characterBackgroundStyle) {
+      await renderBackground(
+        squareCtx,
+        this.options.characterBackgroundStyle,
+        height,
+        this.imageRenderer.loadImage,
+        random
+      );
+    } else if (this.options.characterBackgroundType === 'color') {
+      if (!this.options.transparentBackground) {
+        squareCtx.fillStyle =
+          this.options.characterBackgroundColor || DEFAULT_COLORS.BACKGROUND_WHITE;
+        squareCtx.fill();
+      }
+    } else {
+      await this.imageRenderer.drawBackground(
+        squareCtx,
+        this.options.characterBackground,
+        height,
+        DEFAULT_COLORS.FALLBACK_BACKGROUND
+      );
+    }
+
+    ctx.drawImage(square, (width - height) / 2, 0);
+  }
+
+  private drawFrame(
+    ctx: CanvasRenderingContext2D,
+    width: number,
+    height: number,
+    margin: number
+  ): void {
+    ctx.save();
+    ctx.strokeStyle = this.options.characterNameColor || DEFAULT_COLORS.TEXT_PRIMARY;
+    ctx.globalAlpha = 0.6;
+    ctx.lineWidth = height * ROLE_CARD_LAYOUT.FRAME_WIDTH;
+    ctx.strokeRect(margin / 2, margin / 2, width - margin, height - margin);
+    ctx.restore();
+  }
+
+  /**
+   * Draw the name across the top, shrunk to fit the card width
+   */
+  private drawName(
+    ctx: CanvasRenderingContext2D,
+    name: string,
+    width: number,
+    height: number,
+    margin: number
+  ): void {
+    const text = name.toUpperCase();
+    const maxWidth = width - margin * 2;
+    const fallback = getFallbackFontStack(this.options.locale, 'serif');
+    let fontSize = height * ROLE_CARD_LAYOUT.NAME_SIZE;
+
+    ctx.save();
+    ctx.font = getCachedFont('bold', fontSize, this.options.characterNameFont, fallback);
+    const measured = ctx.measureText(text).width;
+    if (measured > maxWidth) {
+      fontSize *= maxWidth / measured;
+      ctx.font = getCachedFont('bold', fontSize, this.options.characterNameFont, fallback);
+    }
+
+    ctx.fillStyle = this.options.characterNameColor || DEFAULT_COLORS.TEXT_PRIMARY;
+    ctx.textAlign = 'center';
+    ctx.textBaseline = 'middle';
+    applyConfigurableShadow(ctx, this.options.textShadow?.characterName ?? 4);
+    ctx.fillText(text, width / 2, height * ROLE_CARD_LAYOUT.NAME_Y);
+    ctx.restore();
+  }
+
+  /**
+   * Draw the team banner (travellers get a good/evil split)
+   */
+  private drawTeamBanner(
+    ctx: CanvasRenderingContext2D,
+    team: string,
+    width: number,
+    height: number,
+    margin: number
+  ): void {
+    const top = height * ROLE_CARD_LAYOUT.BANNER_Y;
+    const bannerHeight = height * ROLE_CARD_LAYOUT.BANNER_HEIGHT;
+    const bannerWidth = width - margin * 2;
+    const color = TEAM_COLORS[team as TeamColorKey] ?? TEAM_COLORS.meta;
+
+    ctx.save();
+    if ('split' in color) {
+      const gradient = ctx.createLinearGradient(margin, 0, margin + bannerWidth, 0);
+      gradient.addColorStop(0, color.split.left.hex);
+      gradient.addColorStop(1, color.split.right.hex);
+      ctx.fillStyle = gradient;
+    } else {
+      ctx.fillStyle = color.hex;
+    }
+    ctx.fillRect(margin, top, bannerWidth, bannerHeight);
+
+    const label = (TEAM_LABELS[team as TeamLabelKey] ?? team).toUpperCase();
+    ctx.font = getCachedFont(
+      'bold',
+      bannerHeight * ROLE_CARD_LAYOUT.BANNER_TEXT_SIZE,
+      this.options.metaNameFont || this.options.characterNameFont,
+      getFallbackFontStack(this.options.locale, 'serif')
+    );
+    ctx.fillStyle = DEFAULT_COLORS.TEXT_PRIMARY;
+    ctx.textAlign = 'center';
+    ctx.textBaseline = 'middle';
+    ctx.fillText(label, width / 2, top + bannerHeight / 2);
+    ctx.restore();
+  }
+
+  /**
+   * Draw the icon contained in the icon area
+   */
+  private async drawIcon(
+    ctx: CanvasRenderingContext2D,
+    imageUrl: string,
+    width: number,
+    height: number,
+    margin: number
+  ): Promise<void> {
+    try {
+      const icon = await this.imageRenderer.getCachedImage(imageUrl);
+      const boxWidth = width - margin * 2;
+      const boxHeight = height * ROLE_CARD_LAYOUT.ICON_HEIGHT;
+      const scale = Math.min(boxWidth / icon.width, boxHeight / icon.height);
+      const drawWidth = icon.width * scale;
+      const drawHeight = icon.height * scale;
+      ctx.drawImage(
+        icon,
+        (width - drawWidth) / 2,
+        height * ROLE_CARD_LAYOUT.ICON_TOP + (boxHeight - drawHeight) / 2,
+        drawWidth,
+        drawHeight
+      );
+    } catch (error) {
+      logger.warn('RoleCardGenerator', `Could not load icon: ${imageUrl}`, error);
+    }
+  }
+
+  /**
+   * Draw the full ability text, with setup brackets in bold
+   * @returns Y position below the last line
+   */
+  private drawAbility(
+    ctx: CanvasRenderingContext2D,
+    ability: string,
+    width: number,
+    height: number,
+    margin: number
+  ): number {
+    const fontSize = height * ROLE_CARD_LAYOUT.ABILITY_SIZE;
+    const fontFamily = this.options.abilityTextFont;
+    const fallback = getFallbackFontStack(this.options.locale, 'sans-serif');
+    const lineHeight = fontSize * LINE_HEIGHTS.STANDARD;
+
+    ctx.save();
+    ctx.font = getCachedFont('', fontSize, fontFamily, fallback);
+    ctx.fillStyle = this.options.abilityTextColor || DEFAULT_COLORS.TEXT_PRIMARY;
+    ctx.textAlign = 'left';
+    ctx.textBaseline = 'top';
+    applyConfigurableShadow(ctx, this.options.textShadow?.abilityText ?? 3);
+
+    const lines = wrapText(getAbilityDisplayText(ability), ctx, width - margin * 2);
+    let y = height * ROLE_CARD_LAYOUT.ABILITY_Y;
+    for (const line of lines) {
+      const segments = getLineSegments(line, ability);
+      drawStyledLine(ctx, segments, width / 2, y, fontSize, fontFamily, fallback);
+      y += lineHeight;
+    }
+    ctx.restore();
+
+    return y;
+  }
+
+  /**
+   * Draw flavor text in italics at the bottom of the card, skipped when it
+   * would run into the ability text
+   */
+  private drawFlavor(
+    ctx: CanvasRenderingContext2D,
+    flavor: string,
+    width: number,
+    height: number,
+    margin: number,
+    abilityBottom: number
+  ): void {
+    const fontSize = height * ROLE_CARD_LAYOUT.FLAVOR_SIZE;
+    const lineHeight = fontSize * LINE_HEIGHTS.STANDARD;
+
+    ctx.save();
+    ctx.font = getCachedFont(
+      'italic',
+      fontSize,
+      this.options.abilityTextFont,
+      getFallbackFontStack(this.options.locale, 'serif')
+    );
+
+    const lines = wrapText(flavor, ctx, width - margin * 2);
+    const top = height - margin - lines.length * lineHeight;
+    if (top < abilityBottom + height * ROLE_CARD_LAYOUT.FLAVOR_GAP) {
+      ctx.restore();
+      logger.debug('RoleCardGenerator', 'Skipped flavor text (no room)');
+      return;
+    }
+
+    ctx.fillStyle = this.options.abilityTextColor || DEFAULT_COLORS.TEXT_PRIMARY;
+    ctx.globalAlpha = 0.85;
+    ctx.textAlign = 'center';
+    ctx.textBaseline = 'top';
+    applyConfigurableShadow(ctx, this.options.textShadow?.abilityText ?? 3);
+    lines.forEach((line, i) => {
+      ctx.fillText(line, width / 2, top + i * lineHeight);
+    });
+    ctx.restore();
+  }
+}
+
+export default RoleCardGenerator;
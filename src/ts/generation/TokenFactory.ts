@@ -8,6 +8,7 @@
 
 import CONFIG from '@/ts/config.js';
 import type { Character, Team, Token, TokenCallback } from '@/ts/types/index.js';
+import { getTextFitReport } from './textFit.js';
 
 // ============================================================================
 // TYPES
@@ -31,6 +32,8 @@ export interface CharacterTokenOptions {
   imageUrl?: string;
   variantInfo?: VariantInfo;
   hasDecorativeOverrides?: boolean;
+  /** Seed the decoration was drawn with */
+  seed?: number;
 }
 
 /** Options for creating a reminder token */
@@ -42,6 +45,8 @@ export interface ReminderTokenOptions {
   order: number;
   variantInfo?: VariantInfo;
   hasDecorativeOverrides?: boolean;
+  /** Seed the decoration was drawn with */
+  seed?: number;
 }
 
 /** Options for creating a meta token */
@@ -97,8 +102,16 @@ export class TokenFactory {
    * Create a character token from a rendered canvas
    */
   createCharacterToken(options: CharacterTokenOptions): Token {
-    const { canvas, character, filename, order, imageUrl, variantInfo, hasDecorativeOverrides } =
-      options;
+    const {
+      canvas,
+      character,
+      filename,
+      order,
+      imageUrl,
+      variantInfo,
+      hasDecorativeOverrides,
+      seed,
+    } = options;
 
     const token: Token = {
       type: 'character',
@@ -114,6 +127,7 @@ export class TokenFactory {
       order,
       characterData: character,
       imageUrl,
+      seed,
     };
 
     // Only add variant info if there are multiple variants
@@ -127,6 +141,12 @@ export class TokenFactory {
       token.hasDecorativeOverrides = true;
     }
 
+    // Attach how the ability text was fitted
+    const textFit = getTextFitReport(canvas);
+    if (textFit) {
+      token.textFit = textFit;
+    }
+
     return token;
   }
 
@@ -146,6 +166,7 @@ export class TokenFactory {
       order,
       variantInfo,
       hasDecorativeOverrides,
+      seed,
     } = options;
 
     const token: Token = {
@@ -160,6 +181,7 @@ export class TokenFactory {
       reminderText,
       isOfficial: character.source === 'official',
       order,
+      seed,
     };
 
     // Only add variant info if there are multiple variants
@@ -173,6 +195,12 @@ export class TokenFactory {
       token.hasDecorativeOverrides = true;
     }
 
+    // Attach how the reminder text was fitted
+    const textFit = getTextFitReport(canvas);
+    if (textFit) {
+      token.textFit = textFit;
+    }
+
     return token;
   }
 
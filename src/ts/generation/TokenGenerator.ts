@@ -9,17 +9,29 @@
 import {
   type CanvasContext,
   createCanvas,
-  createCircularClipPath,
-  type Point,
+  createTokenShapeClipPath,
+  getSvgRecorder,
+  getTokenShapeGeometry,
   renderBackground,
+  startSvgRecording,
   type TextLayoutResult,
+  type TokenShapeGeometry,
 } from '@/ts/canvas/index.js';
 import { generateStyledQRCode } from '@/ts/canvas/qrGeneration.js';
 import CONFIG from '@/ts/config.js';
-import { DEFAULT_COLORS, QR_COLORS, QR_TOKEN_LAYOUT, TOKEN_COUNT_BADGE } from '@/ts/constants.js';
+import {
+  DEFAULT_COLORS,
+  QR_COLORS,
+  QR_TOKEN_LAYOUT,
+  TEAM_COLORS,
+  TEAM_LABELS,
+  type TeamColorKey,
+  type TeamLabelKey,
+  TOKEN_COUNT_BADGE,
+} from '@/ts/constants.js';
 import { countReminders } from '@/ts/data/index.js';
 import { ValidationError } from '@/ts/errors.js';
-import type { Character } from '@/ts/types/index.js';
+import type { Character, Token, TokenBackOptions } from '@/ts/types/index.js';
 import {
   DEFAULT_TOKEN_OPTIONS,
   type MetaTokenContentRenderer,
@@ -27,9 +39,15 @@ import {
 } from '@/ts/types/tokenOptions.js';
 import { resolveCharacterImages } from '@/ts/utils/characterImageResolver.js';
 import { logger } from '@/ts/utils/logger.js';
+import { createSeededRandom, type RandomSource } from '@/ts/utils/seededRandom.js';
+import { type BootleggerTextFit, getBootleggerTextFit } from './bootleggerFit.js';
 import { defaultImageCache } from './ImageCacheAdapter.js';
+import { resolveLayoutTemplate } from './layoutTemplates.js';
+import type { MetaTokenType } from './TokenFactory.js';
 import { type IImageCache, TokenImageRenderer } from './TokenImageRenderer.js';
 import { TokenTextRenderer } from './TokenTextRenderer.js';
+import { recordTextFit } from './textFit.js';
+import { getMetaTokenSeed, getTokenSeedKey, resolveTokenSeed } from './tokenSeeds.js';
 
 /**
  * TokenGenerator class handles all canvas operations for creating tokens
@@ -119,21 +137,120 @@ export class TokenGenerator {
   // ========================================================================
 
   private createBaseCanvas(diameter: number): CanvasContext {
-    return createCanvas(diameter, { dpi: this.options.dpi });
+    const base = createCanvas(diameter, { dpi: this.options.dpi });
+    if (this.options.vectorOutput) {
+      const shape = this.getShapeGeometry();
+      const outline = shape.shape === 'circle' ? undefined : shape.outline;
+      startSvgRecording(base.canvas, base.ctx, diameter, this.options.dpi, outline);
+    }
+    return base;
+  }
+
+  private getShapeGeometry(): TokenShapeGeometry {
+    return getTokenShapeGeometry(this.options.tokenShape, this.options.tokenShapePath);
   }
 
-  private applyCircularClip(ctx: CanvasRenderingContext2D, center: Point, radius: number): void {
+  private applyShapeClip(ctx: CanvasRenderingContext2D, diameter: number): void {
     ctx.save();
-    createCircularClipPath(ctx, center, radius);
+    createTokenShapeClipPath(ctx, this.getShapeGeometry(), diameter);
+    getSvgRecorder(ctx)?.beginClip();
+  }
+
+  private releaseShapeClip(ctx: CanvasRenderingContext2D): void {
+    ctx.restore();
+    getSvgRecorder(ctx)?.endClip();
+  }
+
+  /**
+   * Keep the background drawn so far as a raster layer of the SVG recording
+   */
+  private captureBackground(canvas: HTMLCanvasElement, ctx: CanvasRenderingContext2D): void {
+    getSvgRecorder(ctx)?.captureRaster(canvas);
+  }
+
+  /**
+   * Draw the character token background (inside the shape clip)
+   * Priority: BackgroundStyle > color > image
+   */
+  private async drawCharacterBackground(
+    ctx: CanvasRenderingContext2D,
+    diameter: number,
+    random: RandomSource
+  ): Promise<void> {
+    if (this.options.characterBackgroundStyle) {
+      // Advanced background styling with gradients, textures, and effects
+      await renderBackground(
+        ctx,
+        this.options.characterBackgroundStyle,
+        diameter,
+        this.imageRenderer.loadImage,
+        random
+      );
+    } else if (this.options.characterBackgroundType === 'color') {
+      if (!this.options.transparentBackground) {
+        ctx.fillStyle = this.options.characterBackgroundColor || DEFAULT_COLORS.BACKGROUND_WHITE;
+        ctx.fill();
+      }
+    } else {
+      await this.imageRenderer.drawBackground(
+        ctx,
+        this.options.characterBackground,
+        diameter,
+        DEFAULT_COLORS.FALLBACK_BACKGROUND
+      );
+    }
+  }
+
+  /**
+   * Draw the meta token background (inside the shape clip)
+   * Priority: BackgroundStyle > color > image
+   */
+  private async drawMetaBackground(
+    ctx: CanvasRenderingContext2D,
+    diameter: number,
+    random: RandomSource,
+    backgroundOverride?: string
+  ): Promise<void> {
+    if (this.options.metaBackgroundStyle) {
+      // Advanced background styling with gradients, textures, and effects
+      await renderBackground(
+        ctx,
+        this.options.metaBackgroundStyle,
+        diameter,
+        this.imageRenderer.loadImage,
+        random
+      );
+    } else if (this.options.metaBackgroundType === 'color') {
+      if (!this.options.transparentBackground) {
+        ctx.fillStyle = this.options.metaBackgroundColor || DEFAULT_COLORS.BACKGROUND_WHITE;
+        ctx.fill();
+      }
+    } else {
+      const bgName =
+        backgroundOverride || this.options.metaBackground || this.options.characterBackground;
+      await this.imageRenderer.drawBackground(
+        ctx,
+        bgName,
+        diameter,
+        DEFAULT_COLORS.FALLBACK_BACKGROUND
+      );
+    }
   }
 
   // ========================================================================
   // CHARACTER TOKEN GENERATION
   // ========================================================================
 
+  /**
+   * Generate a character token
+   * @param character - Character to render
+   * @param imageOverride - Resolved icon URL (image variants)
+   * @param seed - Seed for accents and background (default: the character's first variant)
+   */
   async generateCharacterToken(
     character: Character,
-    imageOverride?: string
+    imageOverride?: string,
+    seed?: number
   ): Promise<HTMLCanvasElement> {
     // Input validation
     if (!character?.name) {
@@ -147,27 +264,14 @@ export class TokenGenerator {
 
     const diameter = CONFIG.TOKEN.ROLE_DIAMETER_INCHES * this.options.dpi;
     const { canvas, ctx, center, radius } = this.createBaseCanvas(diameter);
+    const random = createSeededRandom(
+      seed ?? resolveTokenSeed(this.options.randomSeed, character, getTokenSeedKey('character'))
+    );
 
-    this.applyCircularClip(ctx, center, radius);
+    this.applyShapeClip(ctx, diameter);
 
-    // Draw background based on type selection
-    // Priority: BackgroundStyle > color > image
-    if (this.options.characterBackgroundStyle) {
-      // Advanced background styling with gradients, textures, and effects
-      await renderBackground(ctx, this.options.characterBackgroundStyle, diameter);
-    } else if (this.options.characterBackgroundType === 'color') {
-      if (!this.options.transparentBackground) {
-        ctx.fillStyle = this.options.characterBackgroundColor || DEFAULT_COLORS.BACKGROUND_WHITE;
-        ctx.fill();
-      }
-    } else {
-      await this.imageRenderer.drawBackground(
-        ctx,
-        this.options.characterBackground,
-        diameter,
-        DEFAULT_COLORS.FALLBACK_BACKGROUND
-      );
-    }
+    await this.drawCharacterBackground(ctx, diameter, random);
+    this.captureBackground(canvas, ctx);
 
     // Determine ability text
     const abilityTextToDisplay = this.options.displayAbilityText
@@ -209,16 +313,11 @@ export class TokenGenerator {
       }
     }
 
-    // Calculate text layout if needed
-    let abilityTextLayout: ReturnType<TokenTextRenderer['calculateAbilityTextLayout']> | undefined;
-    if (abilityTextToDisplay) {
-      abilityTextLayout = this.textRenderer.calculateAbilityTextLayout(
-        ctx,
-        abilityTextToDisplay,
-        diameter,
-        abilityTextYPosition
-      );
-    }
+    // Fit text (font size, line breaks and icon space) if needed
+    const abilityTextFit = abilityTextToDisplay
+      ? this.textRenderer.fitAbilityText(ctx, abilityTextToDisplay, diameter, abilityTextYPosition)
+      : undefined;
+    const abilityTextLayout = abilityTextFit?.layout;
 
     // Convert ability text Y ratio to pixels for icon layout
     const abilityTextStartYPixels =
@@ -242,16 +341,22 @@ export class TokenGenerator {
       await this.imageRenderer.drawSetupOverlay(ctx, diameter);
     }
 
-    ctx.restore();
+    this.releaseShapeClip(ctx);
 
     // Draw accents
     if (this.options.accentEnabled !== false && this.options.maximumAccents > 0) {
-      await this.imageRenderer.drawAccents(ctx, diameter);
+      await this.imageRenderer.drawAccents(ctx, diameter, random);
     }
 
     // Draw ability text (with adjusted Y position if badge is present)
     if (abilityTextToDisplay) {
-      this.textRenderer.drawAbilityText(ctx, abilityTextToDisplay, diameter, abilityTextYPosition);
+      this.textRenderer.drawAbilityText(
+        ctx,
+        abilityTextToDisplay,
+        diameter,
+        abilityTextYPosition,
+        abilityTextFit
+      );
     }
 
     // Draw character name
@@ -264,6 +369,10 @@ export class TokenGenerator {
       this.textRenderer.drawTokenCount(ctx, reminderCount, diameter);
     }
 
+    if (abilityTextFit) {
+      recordTextFit(canvas, abilityTextFit.report);
+    }
+
     logger.info('TokenGenerator', 'Generated character token', character.name);
     return canvas;
   }
@@ -272,10 +381,18 @@ export class TokenGenerator {
   // REMINDER TOKEN GENERATION
   // ========================================================================
 
+  /**
+   * Generate a reminder token
+   * @param character - Character the reminder belongs to
+   * @param reminderText - Reminder text
+   * @param imageOverride - Resolved icon URL (image variants)
+   * @param seed - Seed for the background (default: the reminder's first variant)
+   */
   async generateReminderToken(
     character: Character,
     reminderText: string,
-    imageOverride?: string
+    imageOverride?: string,
+    seed?: number
   ): Promise<HTMLCanvasElement> {
     // Input validation
     if (!character?.name) {
@@ -295,14 +412,28 @@ export class TokenGenerator {
 
     const diameter = CONFIG.TOKEN.REMINDER_DIAMETER_INCHES * this.options.dpi;
     const { canvas, ctx, center, radius } = this.createBaseCanvas(diameter);
+    const random = createSeededRandom(
+      seed ??
+        resolveTokenSeed(
+          this.options.randomSeed,
+          character,
+          getTokenSeedKey('reminder', 0, reminderText)
+        )
+    );
 
-    this.applyCircularClip(ctx, center, radius);
+    this.applyShapeClip(ctx, diameter);
 
     // Draw background based on type selection
     // Priority: BackgroundStyle > image > color
     if (this.options.reminderBackgroundStyle) {
       // Advanced background styling with gradients, textures, and effects
-      await renderBackground(ctx, this.options.reminderBackgroundStyle, diameter);
+      await renderBackground(
+        ctx,
+        this.options.reminderBackgroundStyle,
+        diameter,
+        this.imageRenderer.loadImage,
+        random
+      );
     } else if (this.options.reminderBackgroundType === 'image') {
       const bgImage = this.options.reminderBackgroundImage || 'character_background_1';
       await this.imageRenderer.drawBackground(
@@ -317,6 +448,10 @@ export class TokenGenerator {
         ctx.fill();
       }
     }
+    this.captureBackground(canvas, ctx);
+
+    // Fit reminder text first: two-line text makes room with a smaller icon
+    const reminderTextFit = this.textRenderer.fitReminderText(ctx, reminderText, radius, diameter);
 
     // Draw character image
     await this.imageRenderer.drawCharacterImage(
@@ -324,12 +459,25 @@ export class TokenGenerator {
       character,
       diameter,
       'reminder',
-      imageOverride
+      imageOverride,
+      undefined,
+      undefined,
+      undefined,
+      undefined,
+      reminderTextFit.iconScale
     );
-    ctx.restore();
+    this.releaseShapeClip(ctx);
 
     // Draw reminder text
-    this.textRenderer.drawReminderText(ctx, reminderText, center, radius, diameter);
+    this.textRenderer.drawReminderText(
+      ctx,
+      reminderText,
+      center,
+      radius,
+      diameter,
+      reminderTextFit
+    );
+    recordTextFit(canvas, reminderTextFit.report);
 
     logger.info('TokenGenerator', 'Generated reminder token', {
       character: character.name,
@@ -343,36 +491,20 @@ export class TokenGenerator {
   // ========================================================================
 
   private async generateMetaToken(
+    type: MetaTokenType,
     renderContent: MetaTokenContentRenderer,
     backgroundOverride?: string
   ): Promise<HTMLCanvasElement> {
     const diameter = CONFIG.TOKEN.ROLE_DIAMETER_INCHES * this.options.dpi;
     const { canvas, ctx, center, radius } = this.createBaseCanvas(diameter);
+    const random = createSeededRandom(getMetaTokenSeed(this.options.randomSeed, type));
 
-    this.applyCircularClip(ctx, center, radius);
+    this.applyShapeClip(ctx, diameter);
 
-    // Draw background based on type selection
-    // Priority: BackgroundStyle > color > image
-    if (this.options.metaBackgroundStyle) {
-      // Advanced background styling with gradients, textures, and effects
-      await renderBackground(ctx, this.options.metaBackgroundStyle, diameter);
-    } else if (this.options.metaBackgroundType === 'color') {
-      if (!this.options.transparentBackground) {
-        ctx.fillStyle = this.options.metaBackgroundColor || DEFAULT_COLORS.BACKGROUND_WHITE;
-        ctx.fill();
-      }
-    } else {
-      const bgName =
-        backgroundOverride || this.options.metaBackground || this.options.characterBackground;
-      await this.imageRenderer.drawBackground(
-        ctx,
-        bgName,
-        diameter,
-        DEFAULT_COLORS.FALLBACK_BACKGROUND
-      );
-    }
+    await this.drawMetaBackground(ctx, diameter, random, backgroundOverride);
+    this.captureBackground(canvas, ctx);
 
-    ctx.restore();
+    this.releaseShapeClip(ctx);
 
     await renderContent(ctx, diameter, center, radius);
     return canvas;
@@ -385,7 +517,7 @@ export class TokenGenerator {
   ): Promise<HTMLCanvasElement> {
     logger.debug('TokenGenerator', 'Generating script name token', scriptName);
 
-    return this.generateMetaToken(async (ctx, diameter, center, radius) => {
+    return this.generateMetaToken('script-name', async (ctx, diameter, center, radius) => {
       // Try to draw logo if provided
       let logoDrawn = false;
       if (this.options.logoUrl) {
@@ -413,7 +545,7 @@ export class TokenGenerator {
   async generatePandemoniumToken(): Promise<HTMLCanvasElement> {
     logger.debug('TokenGenerator', 'Generating Pandemonium token');
 
-    return this.generateMetaToken(async (ctx, diameter, center) => {
+    return this.generateMetaToken('pandemonium', async (ctx, diameter, center) => {
       await this.imageRenderer.drawPandemoniumImage(ctx, diameter, center.x, center.y);
     });
   }
@@ -445,8 +577,8 @@ export class TokenGenerator {
 
         // Convert to data URL (data URLs don't have CORS issues)
         const logoCanvas = document.createElement('canvas');
-        logoCanvas.width = logoImage.naturalWidth || logoImage.width;
-        logoCanvas.height = logoImage.naturalHeight || logoImage.height;
+        logoCanvas.width = logoImage.width;
+        logoCanvas.height = logoImage.height;
         const logoCtx = logoCanvas.getContext('2d');
         if (logoCtx) {
           logoCtx.drawImage(logoImage, 0, 0);
@@ -498,7 +630,7 @@ export class TokenGenerator {
     const errorCorrectionLevel = qrOpts?.errorCorrectionLevel ?? 'H';
 
     // Draw meta background (same as other meta tokens)
-    this.applyCircularClip(ctx, center, radius);
+    this.applyShapeClip(ctx, diameter);
     if (this.options.metaBackgroundType === 'color') {
       if (!this.options.transparentBackground) {
         ctx.fillStyle = this.options.metaBackgroundColor || DEFAULT_COLORS.BACKGROUND_WHITE;
@@ -513,7 +645,8 @@ export class TokenGenerator {
         DEFAULT_COLORS.FALLBACK_BACKGROUND
       );
     }
-    ctx.restore();
+    this.captureBackground(canvas, ctx);
+    this.releaseShapeClip(ctx);
 
     // Calculate QR size and position
     const qrSize = Math.floor(diameter * QR_TOKEN_LAYOUT.QR_CODE_SIZE);
@@ -562,6 +695,14 @@ export class TokenGenerator {
 
     // Draw QR code centered on token
     ctx.drawImage(qrCanvas, qrOffset, qrOffset, qrSize, qrSize);
+    getSvgRecorder(ctx)?.add({
+      kind: 'image',
+      source: qrCanvas,
+      x: qrOffset,
+      y: qrOffset,
+      width: qrSize,
+      height: qrSize,
+    });
 
     // Optionally draw "ALMANAC" curved at bottom
     if (showAlmanacLabel) {
@@ -592,26 +733,16 @@ export class TokenGenerator {
 
     const diameter = CONFIG.TOKEN.ROLE_DIAMETER_INCHES * this.options.dpi;
     const { canvas, ctx, center, radius } = this.createBaseCanvas(diameter);
+    // Each rule keeps its look however the rules are ordered
+    const random = createSeededRandom(
+      getMetaTokenSeed(this.options.randomSeed, 'bootlegger', abilityText)
+    );
 
-    this.applyCircularClip(ctx, center, radius);
+    this.applyShapeClip(ctx, diameter);
 
     // Draw background (same as character tokens)
-    // Priority: BackgroundStyle > color > image
-    if (this.options.characterBackgroundStyle) {
-      await renderBackground(ctx, this.options.characterBackgroundStyle, diameter);
-    } else if (this.options.characterBackgroundType === 'color') {
-      if (!this.options.transparentBackground) {
-        ctx.fillStyle = this.options.characterBackgroundColor || DEFAULT_COLORS.BACKGROUND_WHITE;
-        ctx.fill();
-      }
-    } else {
-      await this.imageRenderer.drawBackground(
-        ctx,
-        this.options.characterBackground,
-        diameter,
-        DEFAULT_COLORS.FALLBACK_BACKGROUND
-      );
-    }
+    await this.drawCharacterBackground(ctx, diameter, random);
+    this.captureBackground(canvas, ctx);
 
     // Bootlegger tokens always have ability text
     const hasAbilityText = Boolean(abilityText?.trim());
@@ -636,11 +767,11 @@ export class TokenGenerator {
       this.options.logoUrl
     );
 
-    ctx.restore();
+    this.releaseShapeClip(ctx);
 
     // Draw accents if enabled
     if (this.options.accentEnabled !== false && this.options.maximumAccents > 0) {
-      await this.imageRenderer.drawAccents(ctx, diameter);
+      await this.imageRenderer.drawAccents(ctx, diameter, random);
     }
 
     // Always draw ability text for bootlegger tokens
@@ -673,4 +804,110 @@ export class TokenGenerator {
 
     return this.textRenderer.calculateAbilityTextLayout(ctx, abilityText, diameter);
   }
+
+  /**
+   * Check whether a Bootlegger rule fits on its token with the current font settings.
+   * @param abilityText - The rule text
+   * @returns Fit status (fits / tight / overflow) and measurements
+   */
+  measureBootleggerFit(abilityText: string): BootleggerTextFit {
+    const diameter = CONFIG.TOKEN.ROLE_DIAMETER_INCHES * this.options.dpi;
+    return getBootleggerTextFit(
+      this.calculateBootleggerLayout(abilityText),
+      diameter,
+      this.options.bootleggerHideName,
+      resolveLayoutTemplate(this.options.layoutTemplate)
+    );
+  }
+
+  // ========================================================================
+  // BACK FACE GENERATION
+  // ========================================================================
+
+  /**
+   * Generate the back face of a token for double-sided printing.
+   * Backs are raster only (PDF export) and use the same size and shape as
+   * the front. Styles that cannot be drawn for a token (ability text on a
+   * meta token, an image that fails to load) fall back to the script logo.
+   * @param token - Front token the back belongs to
+   * @param back - Back face settings for the token's type
+   * @param scriptName - Drawn on logo backs when the script has no logo
+   * @returns Back face canvas, or null when the style is 'none'
+   */
+  async generateTokenBack(
+    token: Token,
+    back: TokenBackOptions,
+    scriptName?: string
+  ): Promise<HTMLCanvasElement | null> {
+    if (back.style === 'none') return null;
+
+    const diameter =
+      (token.type === 'reminder'
+        ? CONFIG.TOKEN.REMINDER_DIAMETER_INCHES
+        : CONFIG.TOKEN.ROLE_DIAMETER_INCHES) * this.options.dpi;
+    const { canvas, ctx, center, radius } = createCanvas(diameter, { dpi: this.options.dpi });
+    const ability = token.characterData?.ability?.trim();
+    // Backs share the front's seed
+    const random = createSeededRandom(
+      token.seed ?? getMetaTokenSeed(this.options.randomSeed, `${token.type}-back`)
+    );
+
+    this.applyShapeClip(ctx, diameter);
+    if (back.style === 'team') {
+      this.drawTeamBackground(ctx, diameter, token.team);
+      this.releaseShapeClip(ctx);
+      const label = TEAM_LABELS[token.team as TeamLabelKey] ?? TEAM_LABELS.meta;
+      this.textRenderer.drawCenteredText(ctx, label, diameter);
+      return canvas;
+    }
+
+    if (back.style === 'image' && back.imageUrl) {
+      const drawn = await this.imageRenderer.drawBackImage(ctx, back.imageUrl, diameter);
+      if (drawn) {
+        this.releaseShapeClip(ctx);
+        return canvas;
+      }
+    }
+
+    if (back.style === 'ability' && ability) {
+      await this.drawCharacterBackground(ctx, diameter, random);
+      this.releaseShapeClip(ctx);
+      this.textRenderer.drawBackAbilityText(ctx, ability, diameter);
+      this.textRenderer.drawCharacterName(
+        ctx,
+        token.characterData?.name ?? token.name,
+        center,
+        radius,
+        diameter
+      );
+      return canvas;
+    }
+
+    // Script logo back (also the fallback for the other styles)
+    await this.drawMetaBackground(ctx, diameter, random);
+    this.releaseShapeClip(ctx);
+    const logoDrawn = this.options.logoUrl
+      ? await this.imageRenderer.drawLogo(ctx, this.options.logoUrl, diameter, center.x, center.y)
+      : false;
+    if (!logoDrawn && scriptName) {
+      this.textRenderer.drawCenteredText(ctx, scriptName, diameter);
+    }
+    return canvas;
+  }
+
+  /**
+   * Fill the token with its team color (travellers are split good/evil)
+   */
+  private drawTeamBackground(ctx: CanvasRenderingContext2D, diameter: number, team: string): void {
+    const color = TEAM_COLORS[team as TeamColorKey] ?? TEAM_COLORS.meta;
+    if ('split' in color) {
+      ctx.fillStyle = color.split.left.hex;
+      ctx.fillRect(0, 0, diameter / 2, diameter);
+      ctx.fillStyle = color.split.right.hex;
+      ctx.fillRect(diameter / 2, 0, diameter / 2, diameter);
+      return;
+    }
+    ctx.fillStyle = color.hex;
+    ctx.fill();
+  }
 }
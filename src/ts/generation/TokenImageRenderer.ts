@@ -7,15 +7,16 @@
  */
 
 import type { TextLayoutResult } from '@/ts/canvas/canvasOptimizations.js';
-import { drawImageCover } from '@/ts/canvas/index.js';
+import {
+  type DrawableImage,
+  getImageCoverRect,
+  getSvgRecorder,
+  getTokenShapeGeometry,
+  type ImageLoader,
+} from '@/ts/canvas/index.js';
 import CONFIG from '@/ts/config.js';
 import { getBuiltInAssetPath, isBuiltInAsset } from '@/ts/constants/builtInAssets.js';
-import {
-  CHARACTER_LAYOUT,
-  META_TOKEN_LAYOUT,
-  TokenType,
-  type TokenTypeValue,
-} from '@/ts/constants.js';
+import { META_TOKEN_LAYOUT, TokenType, type TokenTypeValue } from '@/ts/constants.js';
 import { getCharacterImageUrl } from '@/ts/data/index.js';
 import { TokenCreationError } from '@/ts/errors.js';
 import { isAssetReference, resolveAssetUrl } from '@/ts/services/upload/assetResolver.js';
@@ -24,17 +25,19 @@ import { dataSyncService } from '@/ts/sync/index.js';
 import type { Character } from '@/ts/types/index.js';
 import type { TokenGeneratorOptions } from '@/ts/types/tokenOptions.js';
 import { logger } from '@/ts/utils/logger.js';
+import type { RandomSource } from '@/ts/utils/seededRandom.js';
 import {
   type IconLayoutStrategy,
   IconLayoutStrategyFactory,
   type LayoutContext,
 } from './iconLayoutStrategies.js';
+import { resolveLayoutTemplate } from './layoutTemplates.js';
 
 /**
  * Image cache interface for dependency injection
  */
 export interface IImageCache {
-  get(url: string, isLocal: boolean): Promise<HTMLImageElement>;
+  get(url: string, isLocal: boolean): Promise<DrawableImage>;
   clear(): void;
 }
 
@@ -60,17 +63,38 @@ export class TokenImageRenderer {
   /**
    * Get cached image from URL
    */
-  async getCachedImage(url: string): Promise<HTMLImageElement> {
+  async getCachedImage(url: string): Promise<DrawableImage> {
     return this.imageCache.get(url, false);
   }
 
   /**
    * Get local image from path
    */
-  async getLocalImage(path: string): Promise<HTMLImageElement> {
+  async getLocalImage(path: string): Promise<DrawableImage> {
     return this.imageCache.get(path, true);
   }
 
+  /**
+   * Image loader backed by this renderer's cache, for drawing helpers
+   * (backgrounds, accents) that load their own assets
+   */
+  readonly loadImage: ImageLoader = (url, isLocal) => this.imageCache.get(url, isLocal);
+
+  /**
+   * Draw an image and record it for SVG output when the token is being recorded
+   */
+  private drawImage(
+    ctx: CanvasRenderingContext2D,
+    image: DrawableImage,
+    x: number,
+    y: number,
+    width: number,
+    height: number
+  ): void {
+    ctx.drawImage(image, x, y, width, height);
+    getSvgRecorder(ctx)?.add({ kind: 'image', source: image, x, y, width, height });
+  }
+
   /**
    * Resolve a decorative asset value to a loadable image URL/path
    * Handles built-in asset IDs, user-uploaded asset references, and legacy paths
@@ -133,7 +157,8 @@ export class TokenImageRenderer {
       const bgImage = bgPath.startsWith('blob:')
         ? await this.getCachedImage(bgPath)
         : await this.getLocalImage(bgPath);
-      drawImageCover(ctx, bgImage, diameter, diameter);
+      const cover = getImageCoverRect(bgImage, diameter, diameter);
+      ctx.drawImage(bgImage, cover.x, cover.y, cover.width, cover.height);
     } catch (error) {
       logger.warn('TokenImageRenderer', `Failed to load background: ${backgroundName}`, error);
       if (!this.options.transparentBackground) {
@@ -147,6 +172,7 @@ export class TokenImageRenderer {
    * Draw character image on token
    * @param abilityTextStartY - Actual Y position (in pixels) where ability text starts (may be adjusted for badge)
    * @param topReservedY - Y position (in pixels) below which the icon can be placed (used when no ability text but badge present)
+   * @param fitScale - Extra icon scale from text fitting (two-line reminder text)
    */
   async drawCharacterImage(
     ctx: CanvasRenderingContext2D,
@@ -157,7 +183,8 @@ export class TokenImageRenderer {
     hasAbilityText?: boolean,
     abilityTextLayout?: TextLayoutResult,
     abilityTextStartY?: number,
-    topReservedY?: number
+    topReservedY?: number,
+    fitScale = 1
   ): Promise<void> {
     const imageUrl = imageOverride || getCharacterImageUrl(character.image);
     if (!imageUrl) {
@@ -178,7 +205,7 @@ export class TokenImageRenderer {
       const layoutContext: LayoutContext = {
         diameter,
         dpi: this.options.dpi || CONFIG.PDF.DPI,
-        iconScale: iconSettings.scale,
+        iconScale: iconSettings.scale * fitScale,
         iconOffsetX: iconSettings.offsetX,
         iconOffsetY: iconSettings.offsetY,
       };
@@ -186,9 +213,11 @@ export class TokenImageRenderer {
       // Get appropriate layout strategy
       let strategy: IconLayoutStrategy;
       if (tokenType === TokenType.CHARACTER) {
-        // Use passed abilityTextStartY, or calculate from constant if layout exists
+        const template = resolveLayoutTemplate(this.options.layoutTemplate);
+
+        // Use passed abilityTextStartY, or the template's text top if layout exists
         const effectiveAbilityTextStartY = abilityTextLayout
-          ? (abilityTextStartY ?? diameter * CHARACTER_LAYOUT.ABILITY_TEXT_Y_POSITION)
+          ? (abilityTextStartY ?? diameter * template.abilityText.top)
           : undefined;
 
         // Determine if we have badge-only case (no ability text but has reserved space at top)
@@ -199,7 +228,8 @@ export class TokenImageRenderer {
           hasAbilityText, // Only true if there's actual ability text
           abilityTextLayout?.totalHeight,
           effectiveAbilityTextStartY,
-          hasBadgeOnly ? topReservedY : undefined // Pass as topBoundaryOverride for badge-only case
+          hasBadgeOnly ? topReservedY : undefined, // Pass as topBoundaryOverride for badge-only case
+          template.icon
         );
       } else {
         strategy = IconLayoutStrategyFactory.create(tokenType);
@@ -209,7 +239,14 @@ export class TokenImageRenderer {
       const layout = strategy.calculate(layoutContext);
 
       // Draw image at calculated position
-      ctx.drawImage(charImage, layout.position.x, layout.position.y, layout.size, layout.size);
+      this.drawImage(
+        ctx,
+        charImage,
+        layout.position.x,
+        layout.position.y,
+        layout.size,
+        layout.size
+      );
 
       logger.debug('TokenImageRenderer', 'Drew character image', {
         character: character.name,
@@ -244,7 +281,8 @@ export class TokenImageRenderer {
       const overlayImage = overlayPath.startsWith('blob:')
         ? await this.getCachedImage(overlayPath)
         : await this.getLocalImage(overlayPath);
-      drawImageCover(ctx, overlayImage, diameter, diameter);
+      const cover = getImageCoverRect(overlayImage, diameter, diameter);
+      this.drawImage(ctx, overlayImage, cover.x, cover.y, cover.width, cover.height);
       logger.debug('TokenImageRenderer', 'Drew setup overlay', this.options.setupStyle);
     } catch (error) {
       logger.warn(
@@ -255,12 +293,44 @@ export class TokenImageRenderer {
     }
   }
 
+  /**
+   * Draw a custom back face image covering the token
+   * @param ctx - Canvas rendering context
+   * @param imageUrl - Image URL or asset reference (asset:uuid)
+   * @param diameter - Token diameter
+   * @returns Whether the image was drawn
+   */
+  async drawBackImage(
+    ctx: CanvasRenderingContext2D,
+    imageUrl: string,
+    diameter: number
+  ): Promise<boolean> {
+    try {
+      const url = isAssetReference(imageUrl) ? await resolveAssetUrl(imageUrl) : imageUrl;
+      if (!url) return false;
+
+      const backImage = await this.getCachedImage(url);
+      const cover = getImageCoverRect(backImage, diameter, diameter);
+      this.drawImage(ctx, backImage, cover.x, cover.y, cover.width, cover.height);
+      return true;
+    } catch (error) {
+      logger.warn('TokenImageRenderer', `Could not load back image: ${imageUrl}`, error);
+      return false;
+    }
+  }
+
   /**
    * Draw accents decoration
+   * @param random - Random source for placement (the token's seeded source)
    */
-  async drawAccents(ctx: CanvasRenderingContext2D, diameter: number): Promise<void> {
+  async drawAccents(
+    ctx: CanvasRenderingContext2D,
+    diameter: number,
+    random?: RandomSource
+  ): Promise<void> {
     // Import dynamically to avoid circular dependencies
     const { drawAccents } = await import('../canvas/index.js');
+    const { accentArcs } = resolveLayoutTemplate(this.options.layoutTemplate);
     const accentOptions = {
       maximumAccents: this.options.maximumAccents,
       accentPopulationProbability: this.options.accentPopulationProbability,
@@ -270,8 +340,15 @@ export class TokenImageRenderer {
       enableLeftAccent: this.options.enableLeftAccent,
       enableRightAccent: this.options.enableRightAccent,
       sideAccentProbability: this.options.sideAccentProbability,
+      // Template arcs use the accent settings for any span or slot count they leave out
+      arcs: accentArcs.map((arc) => ({
+        center: arc.center,
+        span: arc.span ?? this.options.accentArcSpan,
+        slots: arc.slots ?? this.options.accentSlots,
+      })),
+      shape: getTokenShapeGeometry(this.options.tokenShape, this.options.tokenShapePath),
     };
-    await drawAccents(ctx, diameter, accentOptions);
+    await drawAccents(ctx, diameter, accentOptions, this.loadImage, random);
     logger.debug('TokenImageRenderer', 'Drew accents', { maxAccents: this.options.maximumAccents });
   }
 
@@ -305,7 +382,7 @@ export class TokenImageRenderer {
 
       const x = centerX - drawWidth / 2;
       const y = centerY - drawHeight / 2;
-      ctx.drawImage(logoImage, x, y, drawWidth, drawHeight);
+      this.drawImage(ctx, logoImage, x, y, drawWidth, drawHeight);
 
       logger.debug('TokenImageRenderer', 'Drew logo', { width: drawWidth, height: drawHeight });
       return true;
@@ -342,7 +419,7 @@ export class TokenImageRenderer {
 
     const x = centerX - drawWidth / 2;
     const y = centerY - drawHeight / 2;
-    ctx.drawImage(pandemoniumImage, x, y, drawWidth, drawHeight);
+    this.drawImage(ctx, pandemoniumImage, x, y, drawWidth, drawHeight);
 
     logger.debug('TokenImageRenderer', 'Drew Pandemonium Institute image');
   }
@@ -420,15 +497,16 @@ export class TokenImageRenderer {
       };
 
       // Use character layout strategy since bootlegger looks like a character token
-      const abilityTextStartY = abilityTextLayout
-        ? diameter * CHARACTER_LAYOUT.ABILITY_TEXT_Y_POSITION
-        : undefined;
+      const template = resolveLayoutTemplate(this.options.layoutTemplate);
+      const abilityTextStartY = abilityTextLayout ? diameter * template.abilityText.top : undefined;
 
       const strategy = IconLayoutStrategyFactory.create(
         TokenType.CHARACTER,
         hasAbilityText,
         abilityTextLayout?.totalHeight,
-        abilityTextStartY
+        abilityTextStartY,
+        undefined,
+        template.icon
       );
 
       const layout = strategy.calculate(layoutContext);
@@ -440,9 +518,9 @@ export class TokenImageRenderer {
       let drawY = layout.position.y;
 
       if (useScriptLogo) {
-        // Script logos use a 1.0 space ratio instead of the 1.5x ratio used for character icons
+        // Script logos use a 1.0 space ratio instead of the template's ratio for character icons
         // This keeps the logo fully within the available space between ability text and name
-        const scriptLogoScale = 1.0 / CHARACTER_LAYOUT.ICON_SPACE_RATIO_WITH_ABILITY;
+        const scriptLogoScale = 1.0 / template.icon.scaleWithText;
         const scaledSize = layout.size * scriptLogoScale;
 
         // Handle aspect ratio - script logos may not be square
@@ -464,7 +542,7 @@ export class TokenImageRenderer {
       }
 
       // Draw image at calculated position
-      ctx.drawImage(charImage, drawX, drawY, drawWidth, drawHeight);
+      this.drawImage(ctx, charImage, drawX, drawY, drawWidth, drawHeight);
 
       logger.debug('TokenImageRenderer', 'Drew Bootlegger image', {
         useScriptLogo,
@@ -11,11 +11,15 @@ import {
   drawAbilityText,
   drawCenteredWrappedText,
   drawCurvedText,
+  getShapeBoundaryRatio,
+  getSvgRecorder,
+  getTokenShapeGeometry,
   type Point,
   type TextLayoutResult,
 } from '@/ts/canvas/index.js';
 import CONFIG from '@/ts/config.js';
 import {
+  BACK_FACE_LAYOUT,
   CHARACTER_LAYOUT,
   DEFAULT_COLORS,
   LINE_HEIGHTS,
@@ -25,9 +29,18 @@ import {
   REMINDER_LAYOUT,
   TOKEN_COUNT_BADGE,
 } from '@/ts/constants.js';
-import type { ReminderCountStyle } from '@/ts/types/index.js';
+import type { ReminderCountStyle, TokenLayoutTemplate } from '@/ts/types/index.js';
 import type { TokenGeneratorOptions } from '@/ts/types/tokenOptions.js';
+import { getAbilityDisplayText } from '@/ts/utils/abilityTextParser.js';
+import { getFallbackFontStack } from '@/ts/utils/localeFonts.js';
 import { logger } from '@/ts/utils/logger.js';
+import { resolveLayoutTemplate } from './layoutTemplates.js';
+import {
+  type AbilityTextFit,
+  fitAbilityText,
+  fitReminderText,
+  type ReminderTextFit,
+} from './textFit.js';
 
 /**
  * Format reminder count based on the selected style
@@ -67,6 +80,27 @@ export class TokenTextRenderer {
     this.options = { ...this.options, ...options };
   }
 
+  /**
+   * Fonts tried after the serif token fonts (names, reminders, meta text)
+   */
+  private get serifFallback(): string {
+    return getFallbackFontStack(this.options.locale, 'serif');
+  }
+
+  /**
+   * Fonts tried after the ability text font
+   */
+  private get sansFallback(): string {
+    return getFallbackFontStack(this.options.locale, 'sans-serif');
+  }
+
+  /**
+   * Character token layout template
+   */
+  private get template(): TokenLayoutTemplate {
+    return resolveLayoutTemplate(this.options.layoutTemplate);
+  }
+
   /**
    * Calculate ability text layout
    * @param yPositionOverride - Optional Y position ratio override (e.g., when badge is present)
@@ -79,20 +113,21 @@ export class TokenTextRenderer {
   ): TextLayoutResult {
     ctx.save();
     const fontSize = diameter * CONFIG.FONTS.ABILITY_TEXT.SIZE_RATIO;
-    ctx.font = `${fontSize}px "${this.options.abilityTextFont}", sans-serif`;
+    ctx.font = `${fontSize}px "${this.options.abilityTextFont}", ${this.sansFallback}`;
     const lineHeightMultiplier = CONFIG.FONTS.ABILITY_TEXT.LINE_HEIGHT ?? LINE_HEIGHTS.STANDARD;
-    const yPositionRatio = yPositionOverride ?? CHARACTER_LAYOUT.ABILITY_TEXT_Y_POSITION;
+    const { abilityText } = this.template;
+    const yPositionRatio = yPositionOverride ?? abilityText.top;
     const startY = diameter * yPositionRatio;
 
     // Use optimized circular text layout calculation
     const layout = calculateCircularTextLayout(
       ctx,
-      ability,
+      getAbilityDisplayText(ability),
       diameter,
       fontSize,
       lineHeightMultiplier,
       startY,
-      CHARACTER_LAYOUT.ABILITY_TEXT_CIRCULAR_PADDING
+      abilityText.padding
     );
 
     ctx.restore();
@@ -105,6 +140,114 @@ export class TokenTextRenderer {
     return layout;
   }
 
+  /**
+   * Fit ability text between the top of the token and the icon, shrinking
+   * or truncating long text (see textFit.ts)
+   * @param yPositionOverride - Optional Y position ratio override (e.g., when badge is present)
+   */
+  fitAbilityText(
+    ctx: CanvasRenderingContext2D,
+    ability: string,
+    diameter: number,
+    yPositionOverride?: number
+  ): AbilityTextFit {
+    const { abilityText, icon } = this.template;
+    const fit = fitAbilityText(
+      ctx,
+      ability,
+      {
+        family: this.options.abilityTextFont,
+        fallback: this.sansFallback,
+        size: diameter * CONFIG.FONTS.ABILITY_TEXT.SIZE_RATIO,
+      },
+      {
+        diameter,
+        startY: diameter * (yPositionOverride ?? abilityText.top),
+        lineHeightMultiplier: CONFIG.FONTS.ABILITY_TEXT.LINE_HEIGHT ?? LINE_HEIGHTS.STANDARD,
+        circularPadding: abilityText.padding,
+        iconBottomY: diameter * icon.bottom,
+      }
+    );
+
+    logger.debug('TokenTextRenderer', 'Fitted ability text', fit.report);
+    return fit;
+  }
+
+  /**
+   * Fit reminder text to the bottom arc, over two arcs if needed
+   */
+  fitReminderText(
+    ctx: CanvasRenderingContext2D,
+    reminderText: string,
+    radius: number,
+    diameter: number
+  ): ReminderTextFit {
+    const edge = this.fitEdgeText(radius * REMINDER_LAYOUT.CURVED_TEXT_RADIUS, diameter, 'bottom');
+    const fit = fitReminderText(
+      ctx,
+      reminderText.toUpperCase(),
+      {
+        family: this.options.characterReminderFont,
+        fallback: this.serifFallback,
+        size: diameter * CONFIG.FONTS.REMINDER_TEXT.SIZE_RATIO,
+      },
+      {
+        radius: edge.radius,
+        letterSpacing: this.options.fontSpacing.reminderText,
+        straightMaxWidth: edge.straightMaxWidth,
+      }
+    );
+
+    logger.debug('TokenTextRenderer', 'Fitted reminder text', fit.report);
+    return fit;
+  }
+
+  /**
+   * Fit edge text to the token shape: the arc radius follows the outline and
+   * straight edges (square, hexagon) get straight text
+   */
+  private fitEdgeText(
+    radius: number,
+    diameter: number,
+    position: 'top' | 'bottom'
+  ): { radius: number; straightMaxWidth?: number } {
+    const shape = getTokenShapeGeometry(this.options.tokenShape, this.options.tokenShapePath);
+    if (shape.shape === 'circle') return { radius };
+
+    const edgeAngle = position === 'bottom' ? Math.PI / 2 : -Math.PI / 2;
+    return {
+      radius: radius * getShapeBoundaryRatio(shape, edgeAngle),
+      straightMaxWidth: shape.straightEdges[position]
+        ? diameter * shape.straightTextWidth
+        : undefined,
+    };
+  }
+
+  /**
+   * Place the character name from the layout template: along the top or
+   * bottom edge, or straight across the token (banner)
+   */
+  private getNamePlacement(
+    radius: number,
+    diameter: number
+  ): { radius: number; position: 'top' | 'bottom'; straightMaxWidth?: number } {
+    const { characterName } = this.template;
+
+    if (characterName.placement === 'banner') {
+      // Straight text centered at bannerY, as wide as the token allows there
+      const offset = (characterName.bannerY - 0.5) * diameter;
+      const halfChord = Math.sqrt(Math.max(0, radius * radius - offset * offset));
+      return {
+        radius: Math.abs(offset),
+        position: offset < 0 ? 'top' : 'bottom',
+        straightMaxWidth: 2 * halfChord * CHARACTER_LAYOUT.NAME_BANNER_WIDTH,
+      };
+    }
+
+    const position = characterName.placement === 'top-arc' ? 'top' : 'bottom';
+    return { ...this.fitEdgeText(radius * characterName.radius, diameter, position), position };
+  }
+
   /**
    * Draw character name text
    */
@@ -119,13 +262,13 @@ export class TokenTextRenderer {
       text: name.toUpperCase(),
       centerX: center.x,
       centerY: center.y,
-      radius: radius * CHARACTER_LAYOUT.CURVED_TEXT_RADIUS,
+      ...this.getNamePlacement(radius, diameter),
       fontFamily: this.options.characterNameFont,
       fontSize: diameter * CONFIG.FONTS.CHARACTER_NAME.SIZE_RATIO,
-      position: 'bottom',
       color: this.options.characterNameColor,
       letterSpacing: this.options.fontSpacing.characterName,
       shadowBlur: this.options.textShadow?.characterName ?? 4,
+      fallbackFonts: this.serifFallback,
     });
 
     logger.debug('TokenTextRenderer', 'Drew character name', name);
@@ -134,26 +277,31 @@ export class TokenTextRenderer {
   /**
    * Draw ability text
    * @param yPositionOverride - Optional Y position ratio override (e.g., when badge is present)
+   * @param fit - Fitted layout from fitAbilityText (default: configured size)
    */
   drawAbilityText(
     ctx: CanvasRenderingContext2D,
     ability: string,
     diameter: number,
-    yPositionOverride?: number
+    yPositionOverride?: number,
+    fit?: AbilityTextFit
   ): void {
-    const yPositionRatio = yPositionOverride ?? CHARACTER_LAYOUT.ABILITY_TEXT_Y_POSITION;
+    const yPositionRatio = yPositionOverride ?? this.template.abilityText.top;
     drawAbilityText(
       ctx,
       ability,
       diameter,
       this.options.abilityTextFont,
-      CONFIG.FONTS.ABILITY_TEXT.SIZE_RATIO,
+      fit ? fit.fontSize / diameter : CONFIG.FONTS.ABILITY_TEXT.SIZE_RATIO,
       CONFIG.FONTS.ABILITY_TEXT.LINE_HEIGHT ?? LINE_HEIGHTS.STANDARD,
       CHARACTER_LAYOUT.ABILITY_TEXT_MAX_WIDTH,
       yPositionRatio,
       this.options.abilityTextColor,
       this.options.fontSpacing.abilityText,
-      this.options.textShadow?.abilityText ?? 3
+      this.options.textShadow?.abilityText ?? 3,
+      this.sansFallback,
+      // Lay out with the template's text region when there is no fitted layout
+      fit?.layout ?? this.calculateAbilityTextLayout(ctx, ability, diameter, yPositionOverride)
     );
 
     logger.debug('TokenTextRenderer', 'Drew ability text', {
@@ -164,27 +312,34 @@ export class TokenTextRenderer {
 
   /**
    * Draw reminder text
+   * @param fit - Fitted lines from fitReminderText (default: one line at configured size)
    */
   drawReminderText(
     ctx: CanvasRenderingContext2D,
     reminderText: string,
     center: Point,
     radius: number,
-    diameter: number
+    diameter: number,
+    fit?: ReminderTextFit
   ): void {
-    const reminderLayout = REMINDER_LAYOUT;
-
-    drawCurvedText(ctx, {
-      text: reminderText.toUpperCase(),
-      centerX: center.x,
-      centerY: center.y,
-      radius: radius * reminderLayout.CURVED_TEXT_RADIUS,
-      fontFamily: this.options.characterReminderFont,
-      fontSize: diameter * CONFIG.FONTS.REMINDER_TEXT.SIZE_RATIO,
-      position: 'bottom',
-      color: this.options.reminderTextColor,
-      letterSpacing: this.options.fontSpacing.reminderText,
-      shadowBlur: this.options.textShadow?.reminderText ?? 4,
+    const edge = this.fitEdgeText(radius * REMINDER_LAYOUT.CURVED_TEXT_RADIUS, diameter, 'bottom');
+    const lines = fit?.lines ?? [reminderText.toUpperCase()];
+
+    lines.forEach((line, i) => {
+      drawCurvedText(ctx, {
+        text: line,
+        centerX: center.x,
+        centerY: center.y,
+        radius: fit?.radii[i] ?? edge.radius,
+        straightMaxWidth: edge.straightMaxWidth,
+        fontFamily: this.options.characterReminderFont,
+        fontSize: fit?.fontSize ?? diameter * CONFIG.FONTS.REMINDER_TEXT.SIZE_RATIO,
+        position: 'bottom',
+        color: this.options.reminderTextColor,
+        letterSpacing: this.options.fontSpacing.reminderText,
+        shadowBlur: this.options.textShadow?.reminderText ?? 4,
+        fallbackFonts: this.serifFallback,
+      });
     });
 
     logger.debug('TokenTextRenderer', 'Drew reminder text', reminderText);
@@ -208,15 +363,16 @@ export class TokenTextRenderer {
   /**
    * Calculate the Y position ratio where ability text should start
    * when a reminder count badge is present.
-   * Returns undefined if no adjustment is needed.
+   * Returns the template's text top if the badge is not above the text.
    */
   calculateAbilityTextYWithBadge(reminderCount: number, diameter: number): number {
-    if (reminderCount <= 0) {
-      return CHARACTER_LAYOUT.ABILITY_TEXT_Y_POSITION;
+    const { abilityText, reminderBadge } = this.template;
+    if (reminderCount <= 0 || reminderBadge.y > abilityText.top) {
+      return abilityText.top;
     }
 
     const badgeRadius = this.calculateBadgeRadius(reminderCount, diameter);
-    const badgeCenterY = diameter * CHARACTER_LAYOUT.TOKEN_COUNT_Y_POSITION;
+    const badgeCenterY = diameter * reminderBadge.y;
     const badgeBottomY = badgeCenterY + badgeRadius;
     const gap = diameter * TOKEN_COUNT_BADGE.TEXT_GAP;
 
@@ -224,7 +380,7 @@ export class TokenTextRenderer {
     const adjustedYRatio = (badgeBottomY + gap) / diameter;
 
     // Only adjust if the badge would overlap with default ability text position
-    return Math.max(adjustedYRatio, CHARACTER_LAYOUT.ABILITY_TEXT_Y_POSITION);
+    return Math.max(adjustedYRatio, abilityText.top);
   }
 
   /**
@@ -237,7 +393,9 @@ export class TokenTextRenderer {
     ctx.textAlign = 'center';
     ctx.textBaseline = 'middle';
 
-    const y = diameter * CHARACTER_LAYOUT.TOKEN_COUNT_Y_POSITION;
+    const { reminderBadge } = this.template;
+    const x = diameter * reminderBadge.x;
+    const y = diameter * reminderBadge.y;
 
     // Format the count based on the selected style
     const style = this.options.reminderCountStyle || 'arabic';
@@ -248,7 +406,7 @@ export class TokenTextRenderer {
 
     // Draw background circle
     ctx.beginPath();
-    ctx.arc(diameter / 2, y, badgeRadius, 0, Math.PI * 2);
+    ctx.arc(x, y, badgeRadius, 0, Math.PI * 2);
     ctx.fillStyle = DEFAULT_COLORS.BADGE_BACKGROUND;
     ctx.fill();
     ctx.strokeStyle = DEFAULT_COLORS.TEXT_PRIMARY;
@@ -257,9 +415,35 @@ export class TokenTextRenderer {
 
     // Draw count text
     ctx.fillStyle = DEFAULT_COLORS.TEXT_PRIMARY;
-    ctx.fillText(displayText, diameter / 2, y);
+    ctx.fillText(displayText, x, y);
     ctx.restore();
 
+    const recorder = getSvgRecorder(ctx);
+    if (recorder) {
+      recorder.add({
+        kind: 'circle',
+        center: { x, y },
+        radius: badgeRadius,
+        fill: DEFAULT_COLORS.BADGE_BACKGROUND,
+        stroke: DEFAULT_COLORS.TEXT_PRIMARY,
+        strokeWidth: TOKEN_COUNT_BADGE.STROKE_WIDTH,
+      });
+      recorder.add({
+        kind: 'text',
+        x,
+        lines: [{ y, segments: [{ text: displayText, bold: true }] }],
+        baseline: 'middle',
+        font: {
+          family: this.options.characterNameFont,
+          fallback: 'Georgia, serif',
+          size: fontSize,
+          bold: true,
+        },
+        color: DEFAULT_COLORS.TEXT_PRIMARY,
+        letterSpacing: 0,
+      });
+    }
+
     logger.debug('TokenTextRenderer', 'Drew token count badge', displayText);
   }
 
@@ -284,11 +468,32 @@ export class TokenTextRenderer {
       color: metaColor,
       shadowBlur: this.options.textShadow?.metaText ?? 4,
       verticalOffset,
+      fallbackFonts: this.serifFallback,
     });
 
     logger.debug('TokenTextRenderer', 'Drew centered text', text);
   }
 
+  /**
+   * Draw ability text centered on a token back face, where the whole
+   * face is free for text
+   */
+  drawBackAbilityText(ctx: CanvasRenderingContext2D, ability: string, diameter: number): void {
+    drawCenteredWrappedText(ctx, {
+      text: ability,
+      diameter,
+      fontFamily: this.options.abilityTextFont || this.options.characterReminderFont,
+      fontSizeRatio: CONFIG.FONTS.ABILITY_TEXT.SIZE_RATIO * BACK_FACE_LAYOUT.ABILITY_TEXT_SCALE,
+      maxWidthRatio: BACK_FACE_LAYOUT.ABILITY_TEXT_MAX_WIDTH,
+      color: this.options.abilityTextColor || DEFAULT_COLORS.TEXT_PRIMARY,
+      shadowBlur: this.options.textShadow?.abilityText ?? 3,
+      verticalOffset: -diameter * BACK_FACE_LAYOUT.ABILITY_TEXT_RAISE,
+      fallbackFonts: this.serifFallback,
+    });
+
+    logger.debug('TokenTextRenderer', 'Drew back ability text');
+  }
+
   /**
    * Draw author text on meta token
    */
@@ -306,7 +511,7 @@ export class TokenTextRenderer {
       text: author,
       centerX: center.x,
       centerY: center.y,
-      radius: radius * CHARACTER_LAYOUT.CURVED_TEXT_RADIUS,
+      ...this.fitEdgeText(radius * CHARACTER_LAYOUT.CURVED_TEXT_RADIUS, diameter, 'bottom'),
       fontFamily: metaFont,
       fontSize:
         diameter *
@@ -316,6 +521,7 @@ export class TokenTextRenderer {
       color: metaColor,
       letterSpacing: this.options.fontSpacing.metaText ?? 0,
       shadowBlur: this.options.textShadow?.metaText ?? 4,
+      fallbackFonts: this.serifFallback,
     });
 
     logger.debug('TokenTextRenderer', 'Drew author text', author);
@@ -337,7 +543,7 @@ export class TokenTextRenderer {
       text: 'ALMANAC',
       centerX: center.x,
       centerY: center.y,
-      radius: radius * QR_TOKEN_LAYOUT.SCRIPT_NAME_RADIUS,
+      ...this.fitEdgeText(radius * QR_TOKEN_LAYOUT.SCRIPT_NAME_RADIUS, diameter, 'bottom'),
       fontFamily: metaFont,
       fontSize: diameter * QR_TOKEN_LAYOUT.SCRIPT_NAME_SIZE,
       position: 'bottom',
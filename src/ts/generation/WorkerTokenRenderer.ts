@@ -0,0 +1,297 @@
+/**
+ * Blood on the Clocktower Token Generator
+ * Worker Token Renderer - Renders character and reminder tokens in a worker pool
+ *
+ * Mirrors TokenGenerator's character/reminder API so batch generation can
+ * swap it in. Each token is drawn on OffscreenCanvas in a worker and copied
+ * back into an HTMLCanvasElement, so Token objects are unchanged. Falls back
+ * to main-thread rendering when workers or OffscreenCanvas are unavailable.
+ */
+
+import { WorkerPool } from '@/ts/cache/utils/WorkerPool.js';
+import { createCanvasElement } from '@/ts/canvas/canvasUtils.js';
+import type { Character } from '@/ts/types/index.js';
+import type { TokenGeneratorOptions } from '@/ts/types/tokenOptions.js';
+import { getCustomFontSources } from '@/ts/utils/customFonts.js';
+import { globalImageCache } from '@/ts/utils/imageCache.js';
+import { logger } from '@/ts/utils/logger.js';
+import type {
+  FontSource,
+  ImageRequestMessage,
+  ImageResponseMessage,
+  RenderTokenResult,
+  RenderTokenTask,
+  RenderTokenTaskData,
+} from '@/ts/workers/token-render-worker.js';
+import { TokenGenerator } from './TokenGenerator.js';
+import { recordTextFit } from './textFit.js';
+
+/** Time to wait for the first worker before rendering on the main thread */
+const WORKER_READY_TIMEOUT_MS = 5000;
+
+let renderPool: WorkerPool<RenderTokenTask> | null = null;
+let renderPoolReady: Promise<boolean> | null = null;
+
+/** Set when workers failed to start; later batches skip the pool and its timeout */
+let renderPoolFailed = false;
+
+// ============================================================================
+// SUPPORT DETECTION
+// ============================================================================
+
+/**
+ * Check whether tokens can be rendered in workers in this browser
+ */
+export function isWorkerRenderingSupported(): boolean {
+  return (
+    typeof Worker !== 'undefined' &&
+    typeof OffscreenCanvas !== 'undefined' &&
+    typeof createImageBitmap !== 'undefined' &&
+    typeof FontFace !== 'undefined'
+  );
+}
+
+// ============================================================================
+// FONTS
+// ============================================================================
+
+/**
+ * Collect the page's @font-face rules and uploaded fonts so workers can
+ * register the same fonts (workers don't inherit document fonts). URLs are
+ * made absolute.
+ */
+export function collectFontSources(): FontSource[] {
+  if (typeof document === 'undefined') return [];
+
+  const fonts: FontSource[] = [];
+  for (const sheet of Array.from(document.styleSheets)) {
+    let rules: CSSRuleList;
+    try {
+      rules = sheet.cssRules;
+    } catch {
+      continue; // Cross-origin stylesheet
+    }
+
+    const base = sheet.href ?? document.baseURI;
+    for (const rule of Array.from(rules)) {
+      if (!(rule instanceof CSSFontFaceRule)) continue;
+
+      const family = rule.style
+        .getPropertyValue('font-family')
+        .trim()
+        .replace(/^["']|["']$/g, '');
+      const src = rule.style.getPropertyValue('src');
+      if (!(family && src)) continue;
+
+      fonts.push({
+        family,
+        source: src.replace(
+          /url\((["']?)([^"')]+)\1\)/g,
+          (_match, _quote, url: string) => `url("${new URL(url, base).href}")`
+        ),
+        descriptors: {
+          weight: rule.style.getPropertyValue('font-weight') || 'normal',
+          style: rule.style.getPropertyValue('font-style') || 'normal',
+        },
+      });
+    }
+  }
+
+  // Uploaded fonts are registered through FontFace, not stylesheets
+  fonts.push(...getCustomFontSources());
+  return fonts;
+}
+
+// ============================================================================
+// WORKER POOL
+// ============================================================================
+
+/**
+ * Serve a worker's image request from the global image cache
+ */
+async function handleImageRequest(worker: Worker, request: ImageRequestMessage): Promise<void> {
+  let response: ImageResponseMessage;
+  try {
+    const image = await globalImageCache.get(request.url, request.isLocal);
+    const bitmap = await createImageBitmap(image);
+    response = { type: 'IMAGE_RESPONSE', requestId: request.requestId, bitmap };
+    worker.postMessage(response, [bitmap]);
+  } catch (error) {
+    response = {
+      type: 'IMAGE_RESPONSE',
+      requestId: request.requestId,
+      error: error instanceof Error ? error.message : String(error),
+    };
+    worker.postMessage(response);
+  }
+}
+
+/**
+ * Create a render worker wired to the main-thread image bridge
+ */
+function createRenderWorker(): Worker {
+  // Vite handles this worker import specially
+  const worker = new Worker(new URL('../workers/token-render-worker.ts', import.meta.url), {
+    type: 'module',
+  });
+  worker.addEventListener('message', (e: MessageEvent) => {
+    if (e.data?.type === 'IMAGE_REQUEST') {
+      void handleImageRequest(worker, e.data as ImageRequestMessage);
+    }
+  });
+  return worker;
+}
+
+/**
+ * Get the shared render pool, creating it on first use.
+ * Resolves to null when workers are unsupported or fail to start. A failed
+ * start is remembered for the rest of the session.
+ */
+export async function getTokenRenderPool(): Promise<WorkerPool<RenderTokenTask> | null> {
+  if (renderPoolFailed || !isWorkerRenderingSupported()) return null;
+
+  if (!renderPool) {
+    try {
+      const cores = navigator.hardwareConcurrency || 4;
+      renderPool = new WorkerPool<RenderTokenTask>({
+        // Leave a core for the UI thread
+        workerCount: Math.max(1, Math.min(cores - 1, 8)),
+        maxQueueSize: 1000,
+        createWorker: createRenderWorker,
+      });
+      renderPoolReady = renderPool.waitForReady(WORKER_READY_TIMEOUT_MS);
+    } catch (error) {
+      logger.warn('WorkerTokenRenderer', 'Failed to start render workers', error);
+      renderPool = null;
+      renderPoolFailed = true;
+      return null;
+    }
+  }
+
+  const pool = renderPool;
+  if (!(await renderPoolReady)) {
+    // Concurrent callers share the same timeout; only the first one cleans up
+    if (!renderPoolFailed) {
+      logger.warn(
+        'WorkerTokenRenderer',
+        'Render workers not ready, rendering on main thread for this session'
+      );
+      renderPoolFailed = true;
+      pool.terminate();
+      if (renderPool === pool) {
+        renderPool = null;
+        renderPoolReady = null;
+      }
+    }
+    return null;
+  }
+
+  return pool;
+}
+
+/**
+ * Terminate the shared render pool (workers are recreated on next use)
+ */
+export function terminateTokenRenderPool(): void {
+  renderPool?.terminate();
+  renderPool = null;
+  renderPoolReady = null;
+}
+
+// ============================================================================
+// RENDERER
+// ============================================================================
+
+/**
+ * Renders character and reminder tokens in the worker pool
+ */
+export class WorkerTokenRenderer {
+  private options: Partial<TokenGeneratorOptions>;
+  private fonts: FontSource[];
+  private fallback: TokenGenerator | null = null;
+
+  /**
+   * @param pool - Render pool from getTokenRenderPool()
+   * @param options - Token generation options (must be structured-cloneable)
+   * @param signal - Optional AbortSignal; in-flight renders are discarded on abort
+   */
+  constructor(
+    private pool: WorkerPool<RenderTokenTask>,
+    options: Partial<TokenGeneratorOptions>,
+    private signal?: AbortSignal,
+    fonts: FontSource[] = collectFontSources()
+  ) {
+    this.options = options;
+    this.fonts = fonts;
+  }
+
+  async generateCharacterToken(
+    character: Character,
+    imageOverride?: string,
+    seed?: number
+  ): Promise<HTMLCanvasElement> {
+    return this.render({ kind: 'character', character, imageOverride, seed }, (generator) =>
+      generator.generateCharacterToken(character, imageOverride, seed)
+    );
+  }
+
+  async generateReminderToken(
+    character: Character,
+    reminderText: string,
+    imageOverride?: string,
+    seed?: number
+  ): Promise<HTMLCanvasElement> {
+    return this.render(
+      { kind: 'reminder', character, reminderText, imageOverride, seed },
+      (generator) => generator.generateReminderToken(character, reminderText, imageOverride, seed)
+    );
+  }
+
+  /**
+   * Render in a worker, falling back to the main thread if the worker fails
+   */
+  private async render(
+    task: Omit<RenderTokenTaskData, 'options' | 'fonts'>,
+    renderOnMainThread: (generator: TokenGenerator) => Promise<HTMLCanvasElement>
+  ): Promise<HTMLCanvasElement> {
+    try {
+      const result = await this.pool.execute<RenderTokenResult>(
+        { type: 'RENDER_TOKEN', data: { ...task, options: this.options, fonts: this.fonts } },
+        { signal: this.signal }
+      );
+      const canvas = bitmapToCanvas(result.bitmap);
+      if (result.textFit) {
+        recordTextFit(canvas, result.textFit);
+      }
+      return canvas;
+    } catch (error) {
+      if (error instanceof DOMException && error.name === 'AbortError') {
+        throw error;
+      }
+      logger.warn(
+        'WorkerTokenRenderer',
+        `Worker render failed for ${task.character.name}, rendering on main thread`,
+        error
+      );
+      this.fallback ??= new TokenGenerator(this.options);
+      return renderOnMainThread(this.fallback);
+    }
+  }
+}
+
+/**
+ * Copy worker-rendered pixels into a regular canvas
+ */
+function bitmapToCanvas(bitmap: ImageBitmap): HTMLCanvasElement {
+  const canvas = createCanvasElement(bitmap.width, bitmap.height);
+  const ctx = canvas.getContext('2d');
+  if (!ctx) {
+    bitmap.close();
+    throw new Error('Failed to get canvas context');
+  }
+  ctx.drawImage(bitmap, 0, 0);
+  bitmap.close();
+  return canvas;
+}
+
+export default WorkerTokenRenderer;
@@ -3,7 +3,8 @@
  * Batch Token Generation - Orchestrates bulk token creation with parallel processing
  *
  * Architecture:
- * - Uses TokenGenerator for canvas rendering (low-level)
+ * - Uses TokenGenerator for canvas rendering (low-level), or WorkerTokenRenderer
+ *   to render character/reminder tokens in parallel on OffscreenCanvas workers
  * - Uses TokenFactory for Token object creation (metadata assembly)
  * - Orchestrates batching, progress, and abort handling (high-level)
  */
@@ -21,12 +22,17 @@ import type {
   CharacterMetadata,
   GenerationOptions,
   ProgressCallback,
+  RoleCard,
+  RoleCardSize,
   ScriptMeta,
   Token,
+  TokenBackOptions,
   TokenCallback,
 } from '@/ts/types/index.js';
 import { DEFAULT_AUTO_GENERATE_TEAMS } from '@/ts/types/index.js';
+import type { TokenGeneratorOptions } from '@/ts/types/tokenOptions.js';
 import { resolveCharacterImageUrl } from '@/ts/utils/characterImageResolver.js';
+import { loadCustomFonts } from '@/ts/utils/customFonts.js';
 import { createEffectiveOptions } from '@/ts/utils/decorativeUtils.js';
 import type { ProgressState } from '@/ts/utils/index.js';
 import {
@@ -36,6 +42,7 @@ import {
   sanitizeFilename,
   updateProgress,
 } from '@/ts/utils/index.js';
+import { RoleCardGenerator } from './RoleCardGenerator.js';
 import { TokenFactory } from './TokenFactory.js';
 import { TokenGenerator } from './TokenGenerator.js';
 import {
@@ -43,17 +50,37 @@ import {
   getTeamDisplayName,
   getTeamsToGenerate,
 } from './teamVariantGenerator.js';
+import { getCharacterKey } from './tokenDependencies.js';
+import { getTokenSeedKey, resolveTokenSeed } from './tokenSeeds.js';
+import {
+  collectFontSources,
+  getTokenRenderPool,
+  WorkerTokenRenderer,
+} from './WorkerTokenRenderer.js';
 
 // ============================================================================
 // TYPES
 // ============================================================================
 
+/**
+ * Renders character and reminder canvases
+ * (TokenGenerator on the main thread, WorkerTokenRenderer in the worker pool)
+ */
+type CharacterTokenRenderer = Pick<
+  TokenGenerator,
+  'generateCharacterToken' | 'generateReminderToken'
+>;
+
 /**
  * Context object passed to generation functions.
  * Reduces parameter count and groups related dependencies.
  */
 interface BatchContext {
   generator: TokenGenerator;
+  /** Character/reminder renderer for the global options */
+  renderer: CharacterTokenRenderer;
+  /** Create a renderer for per-character decorative overrides */
+  createRenderer: (options: Partial<TokenGeneratorOptions>) => CharacterTokenRenderer;
   factory: TokenFactory;
   progress: ProgressState;
   options: Partial<GenerationOptions>;
@@ -86,6 +113,17 @@ interface CharacterBatchInfo {
   isOfficial: boolean;
 }
 
+/**
+ * Limits a run to some of the script's tokens (incremental regeneration).
+ * Filenames and order are still computed over the whole script.
+ */
+export interface GenerationScope {
+  /** Character keys (UUID, falling back to ID) to render; all when omitted */
+  characterKeys?: Set<string>;
+  /** Whether to render meta tokens (default true) */
+  metaTokens?: boolean;
+}
+
 // ============================================================================
 // UTILITY HELPERS
 // ============================================================================
@@ -100,6 +138,13 @@ function checkAbort(signal?: AbortSignal): void {
   }
 }
 
+/**
+ * Check whether an error is an abort (rethrown rather than logged per token)
+ */
+function isAbortError(error: unknown): boolean {
+  return error instanceof DOMException && error.name === 'AbortError';
+}
+
 // ============================================================================
 // TOKEN COUNT CALCULATION
 // ============================================================================
@@ -110,14 +155,17 @@ function checkAbort(signal?: AbortSignal): void {
 function calculateTotalTokenCount(
   characters: Character[],
   options: Partial<GenerationOptions>,
-  scriptMeta: ScriptMeta | null
+  scriptMeta: ScriptMeta | null,
+  includeMetaTokens: boolean = true
 ): number {
   let metaTokenCount = 0;
-  if (options.pandemoniumToken) metaTokenCount++;
-  if (options.scriptNameToken && scriptMeta?.name) metaTokenCount++;
-  if (options.almanacToken && scriptMeta?.almanac) metaTokenCount++;
-  if (options.generateBootleggerRules && scriptMeta?.bootlegger?.length) {
-    metaTokenCount += scriptMeta.bootlegger.length;
+  if (includeMetaTokens) {
+    if (options.pandemoniumToken) metaTokenCount++;
+    if (options.scriptNameToken && scriptMeta?.name) metaTokenCount++;
+    if (options.almanacToken && scriptMeta?.almanac) metaTokenCount++;
+    if (options.generateBootleggerRules && scriptMeta?.bootlegger?.length) {
+      metaTokenCount += scriptMeta.bootlegger.length;
+    }
   }
 
   // Get auto-generation settings
@@ -471,6 +519,13 @@ async function generateCharacterVariant(
     const decoratives = metadata?.decoratives;
     const hasDecorativeOverrides = decoratives?.useCustomSettings ?? false;
 
+    const seed = resolveTokenSeed(
+      ctx.options.randomSeed,
+      character,
+      getTokenSeedKey('character', variant.variantIndex),
+      metadata
+    );
+
     let canvas: HTMLCanvasElement;
 
     if (hasDecorativeOverrides && decoratives) {
@@ -479,15 +534,16 @@ async function generateCharacterVariant(
         ctx.options as GenerationOptions,
         decoratives
       );
-      // Create a temporary generator with the merged options
-      const tempGenerator = new TokenGenerator({
+      // Create a temporary renderer with the merged options
+      const tempRenderer = ctx.createRenderer({
         ...effectiveOptions,
         transparentBackground: effectiveOptions.pngSettings?.transparentBackground ?? false,
+        vectorOutput: effectiveOptions.pngSettings?.format === 'svg',
       });
-      canvas = await tempGenerator.generateCharacterToken(character, resolvedImageUrl);
+      canvas = await tempRenderer.generateCharacterToken(character, resolvedImageUrl, seed);
     } else {
-      // Use the shared generator with global options
-      canvas = await ctx.generator.generateCharacterToken(character, resolvedImageUrl);
+      // Use the shared renderer with global options
+      canvas = await ctx.renderer.generateCharacterToken(character, resolvedImageUrl, seed);
     }
 
     updateProgress(ctx.progress);
@@ -504,10 +560,12 @@ async function generateCharacterVariant(
           ? { variantIndex: variant.variantIndex, totalVariants: variant.totalVariants }
           : undefined,
       hasDecorativeOverrides,
+      seed,
     });
 
     return ctx.factory.emit(token);
   } catch (error) {
+    if (isAbortError(error)) throw error;
     logger.error('BatchGenerator', `Failed to generate token for ${character.name}`, error);
     updateProgress(ctx.progress);
     return null;
@@ -536,13 +594,14 @@ async function generateReminderTokens(
   const decoratives = metadata?.decoratives;
   const hasDecorativeOverrides = decoratives?.useCustomSettings ?? false;
 
-  // Create a generator for this character (temp if has overrides, shared otherwise)
-  let generator = ctx.generator;
+  // Create a renderer for this character (temp if has overrides, shared otherwise)
+  let generator = ctx.renderer;
   if (hasDecorativeOverrides && decoratives) {
     const effectiveOptions = createEffectiveOptions(ctx.options as GenerationOptions, decoratives);
-    generator = new TokenGenerator({
+    generator = ctx.createRenderer({
       ...effectiveOptions,
       transparentBackground: effectiveOptions.pngSettings?.transparentBackground ?? false,
+      vectorOutput: effectiveOptions.pngSettings?.format === 'svg',
     });
   }
 
@@ -567,7 +626,18 @@ async function generateReminderTokens(
         ctx.resolvedImageUrls.get(`${character.id}:${variantIndex}`) ?? imageUrl;
 
       try {
-        const canvas = await generator.generateReminderToken(character, reminder, resolvedImageUrl);
+        const seed = resolveTokenSeed(
+          ctx.options.randomSeed,
+          character,
+          getTokenSeedKey('reminder', variantIndex, reminder),
+          metadata
+        );
+        const canvas = await generator.generateReminderToken(
+          character,
+          reminder,
+          resolvedImageUrl,
+          seed
+        );
         const variantSuffix = hasVariants ? `_v${variantIndex + 1}` : '';
         const reminderBaseName = sanitizeFilename(`${character.name}_${reminder}${variantSuffix}`);
         const filename = generateUniqueFilename(reminderNameCount, reminderBaseName);
@@ -584,10 +654,12 @@ async function generateReminderTokens(
           order,
           variantInfo: totalVariants > 1 ? { variantIndex, totalVariants } : undefined,
           hasDecorativeOverrides,
+          seed,
         });
 
         ctx.factory.emitAndPush(token, tokens);
       } catch (error) {
+        if (isAbortError(error)) throw error;
         logger.error(
           'BatchGenerator',
           `Failed to generate reminder token "${reminder}" for ${character.name}`,
@@ -618,23 +690,30 @@ async function generateReminderTokens(
             }
           }
 
+          const totalVariants = hasVariants
+            ? imageUrls.length + teamsToGenerate.length
+            : 1 + teamsToGenerate.length;
+          const variantIndex = hasVariants
+            ? imageUrls.length + teamsToGenerate.indexOf(targetTeam)
+            : 1 + teamsToGenerate.indexOf(targetTeam);
+          const seed = resolveTokenSeed(
+            ctx.options.randomSeed,
+            character,
+            getTokenSeedKey('reminder', variantIndex, reminder),
+            metadata
+          );
+
           const canvas = await generator.generateReminderToken(
             character,
             reminder,
-            recoloredImageUrl
+            recoloredImageUrl,
+            seed
           );
 
           const teamDisplayName = getTeamDisplayName(targetTeam);
           const reminderBaseName = sanitizeFilename(`${character.name}_${reminder}_${targetTeam}`);
           const filename = generateUniqueFilename(reminderNameCount, reminderBaseName);
 
-          const totalVariants = hasVariants
-            ? imageUrls.length + teamsToGenerate.length
-            : 1 + teamsToGenerate.length;
-          const variantIndex = hasVariants
-            ? imageUrls.length + teamsToGenerate.indexOf(targetTeam)
-            : 1 + teamsToGenerate.indexOf(targetTeam);
-
           // Keep original reminder text - no team name suffix
           const token = ctx.factory.createReminderToken({
             canvas,
@@ -644,6 +723,7 @@ async function generateReminderTokens(
             order,
             variantInfo: { variantIndex, totalVariants },
             hasDecorativeOverrides,
+            seed,
           });
 
           ctx.factory.emitAndPush(token, tokens);
@@ -653,6 +733,7 @@ async function generateReminderTokens(
             `Generated team reminder variant for ${character.name}/${reminder} -> ${teamDisplayName}`
           );
         } catch (error) {
+          if (isAbortError(error)) throw error;
           logger.error(
             'BatchGenerator',
             `Failed to generate team reminder variant "${reminder}" for ${character.name} -> ${targetTeam}`,
@@ -684,7 +765,8 @@ interface CharacterReminderOptions {
 async function generateCharacterAndReminderTokens(
   ctx: BatchContext,
   characters: Character[],
-  charReminderOptions: CharacterReminderOptions
+  charReminderOptions: CharacterReminderOptions,
+  characterKeys?: Set<string>
 ): Promise<Token[]> {
   const tokens: Token[] = [];
   const nameCount = new Map<string, number>();
@@ -703,16 +785,19 @@ async function generateCharacterAndReminderTokens(
     const batch = characters.slice(i, i + batchSize);
 
     // Pre-compute filenames and official status for this batch
+    // (for every character, so filenames match a full run)
     const batchInfo = batch.map((character) =>
       computeCharacterBatchInfo(character, batchOptions, nameCount)
     );
+    const isInScope = (character: Character) =>
+      !characterKeys || characterKeys.has(getCharacterKey(character));
 
     // Generate character tokens in parallel (including variants)
     const charTokenPromises: Promise<Token | null>[] = [];
 
     batch.forEach((character, idx) => {
       const { variants } = batchInfo[idx];
-      if (!character.name || variants.length === 0) return;
+      if (!character.name || variants.length === 0 || !isInScope(character)) return;
 
       const absoluteIndex = i + idx;
 
@@ -728,6 +813,7 @@ async function generateCharacterAndReminderTokens(
 
     // Generate reminder tokens in parallel for this batch
     const reminderPromises = batch.map((character, idx) => {
+      if (!isInScope(character)) return Promise.resolve([]);
       const absoluteIndex = i + idx;
       return generateReminderTokens(
         ctx,
@@ -759,6 +845,7 @@ function buildGeneratorOptions(options: Partial<GenerationOptions>, scriptMeta:
   return {
     ...options,
     transparentBackground: options.pngSettings?.transparentBackground ?? false,
+    vectorOutput: options.pngSettings?.format === 'svg',
     bootleggerRules: options.generateBootleggerRules ? scriptMeta?.bootlegger : undefined,
     bootleggerIconType: options.bootleggerIconType,
     bootleggerNormalizeIcons: options.bootleggerNormalizeIcons,
@@ -834,6 +921,9 @@ async function preResolveCharacterImageUrls(
  * Pre-warm caches for better performance
  */
 async function prewarmCaches(generator: TokenGenerator, characters: Character[]): Promise<void> {
+  // Register uploaded fonts before any text is drawn
+  await loadCustomFonts();
+
   // Pre-warm image cache
   await generator.prewarmImageCache(characters);
 
@@ -861,6 +951,7 @@ async function prewarmCaches(generator: TokenGenerator, characters: Character[])
  * @param tokenCallback - Optional callback for incremental token updates
  * @param signal - Optional AbortSignal for cancellation
  * @param characterMetadata - Optional map of character UUID to metadata (for decorative overrides)
+ * @param scope - Optional subset of tokens to render (incremental regeneration)
  * @returns Promise resolving to array of generated tokens
  */
 export async function generateAllTokens(
@@ -870,10 +961,17 @@ export async function generateAllTokens(
   scriptMeta: ScriptMeta | null = null,
   tokenCallback: TokenCallback | null = null,
   signal?: AbortSignal,
-  characterMetadata?: Map<string, CharacterMetadata>
+  characterMetadata?: Map<string, CharacterMetadata>,
+  scope?: GenerationScope
 ): Promise<Token[]> {
   checkAbort(signal);
 
+  const includeMetaTokens = scope?.metaTokens ?? true;
+  const characterKeys = scope?.characterKeys;
+  const scopedCharacters = characterKeys
+    ? characters.filter((character) => characterKeys.has(getCharacterKey(character)))
+    : characters;
+
   // Create generator and factory
   const generatorOptions = buildGeneratorOptions(options, scriptMeta);
   const generator = new TokenGenerator(generatorOptions);
@@ -881,21 +979,33 @@ export async function generateAllTokens(
   const factory = new TokenFactory(dpi, tokenCallback);
 
   // Pre-warm caches
-  await prewarmCaches(generator, characters);
+  await prewarmCaches(generator, scopedCharacters);
+
+  // Render character/reminder tokens in workers when supported
+  // (SVG recording needs the drawing calls on the main thread)
+  const renderPool = generatorOptions.vectorOutput ? null : await getTokenRenderPool();
+  const fonts = renderPool ? collectFontSources() : [];
+  const createRenderer = (rendererOptions: Partial<TokenGeneratorOptions>) =>
+    renderPool
+      ? new WorkerTokenRenderer(renderPool, rendererOptions, signal, fonts)
+      : new TokenGenerator(rendererOptions);
+  const renderer = renderPool ? createRenderer(generatorOptions) : generator;
 
   // Pre-resolve all character image URLs using SSOT
   const resolvedImageUrls = await preResolveCharacterImageUrls(
-    characters,
+    scopedCharacters,
     options.generateImageVariants ?? false
   );
 
   // Create progress tracker
-  const total = calculateTotalTokenCount(characters, options, scriptMeta);
+  const total = calculateTotalTokenCount(scopedCharacters, options, scriptMeta, includeMetaTokens);
   const progress = createProgressState(total, progressCallback);
 
   // Build batch context
   const ctx: BatchContext = {
     generator,
+    renderer,
+    createRenderer,
     factory,
     progress,
     options,
@@ -906,7 +1016,7 @@ export async function generateAllTokens(
   };
 
   // Generate meta tokens first (so they appear quickly)
-  const metaTokens = await generateMetaTokens(ctx);
+  const metaTokens = includeMetaTokens ? await generateMetaTokens(ctx) : [];
 
   checkAbort(signal);
 
@@ -923,9 +1033,147 @@ export async function generateAllTokens(
   const characterTokens = await generateCharacterAndReminderTokens(
     ctx,
     characters,
-    charReminderOptions
+    charReminderOptions,
+    characterKeys
   );
 
   // Return character tokens first, meta tokens last (for display ordering)
   return [...characterTokens, ...metaTokens];
 }
+
+// ============================================================================
+// BACK FACES (double-sided printing)
+// ============================================================================
+
+/**
+ * Back face settings for a token's type
+ */
+export function getTokenBackOptions(
+  token: Token,
+  options: Partial<GenerationOptions>
+): TokenBackOptions | undefined {
+  if (token.type === 'reminder') return options.reminderBack;
+  if (token.type === 'character' || token.type === 'bootlegger') return options.characterBack;
+  return options.metaBack;
+}
+
+/**
+ * Attach back faces to tokens for double-sided PDF export.
+ * Backs that do not depend on the individual token (logo, team color,
+ * custom image) are rendered once per token size and team and shared.
+ *
+ * @param tokens - Front tokens
+ * @param options - Generation options (back face settings per token type)
+ * @param scriptMeta - Script metadata (logo and name for logo backs)
+ * @param signal - Optional AbortSignal for cancellation
+ * @returns Copies of the tokens, with backCanvas set where a back is configured
+ */
+export async function generateTokenBacks(
+  tokens: Token[],
+  options: Partial<GenerationOptions>,
+  scriptMeta: ScriptMeta | null = null,
+  signal?: AbortSignal
+): Promise<Token[]> {
+  const hasBacks = [options.characterBack, options.reminderBack, options.metaBack].some(
+    (back) => back && back.style !== 'none'
+  );
+  if (!hasBacks) return tokens;
+
+  const generator = new TokenGenerator(buildGeneratorOptions(options, scriptMeta));
+  const sharedBacks = new Map<string, HTMLCanvasElement | null>();
+  const result: Token[] = [];
+
+  for (const token of tokens) {
+    checkAbort(signal);
+
+    const back = getTokenBackOptions(token, options);
+    if (!back || back.style === 'none') {
+      result.push(token);
+      continue;
+    }
+
+    const isShared = back.style !== 'ability' || !token.characterData?.ability?.trim();
+    const key = isShared
+      ? [
+          token.type === 'reminder' ? 'reminder' : 'role',
+          back.style,
+          back.style === 'team' ? token.team : '',
+          back.imageUrl ?? '',
+        ].join(':')
+      : null;
+
+    let backCanvas = key ? sharedBacks.get(key) : undefined;
+    if (backCanvas === undefined) {
+      backCanvas = await generator.generateTokenBack(token, back, scriptMeta?.name);
+      if (key) sharedBacks.set(key, backCanvas);
+    }
+
+    result.push(backCanvas ? { ...token, backCanvas } : token);
+  }
+
+  return result;
+}
+
+// ============================================================================
+// ROLE CARDS
+// ============================================================================
+
+/**
+ * Render role cards for characters (one card per character, first image)
+ *
+ * @param characters - Characters to render
+ * @param options - Generation options (token style, roleCardSize, roleCardFlavorText)
+ * @param scriptMeta - Script metadata
+ * @param progressCallback - Optional progress callback
+ * @param signal - Optional AbortSignal for cancellation
+ * @returns Rendered role cards in character order
+ */
+export async function generateRoleCards(
+  characters: Character[],
+  options: Partial<GenerationOptions> = {},
+  scriptMeta: ScriptMeta | null = null,
+  progressCallback: ProgressCallback | null = null,
+  signal?: AbortSignal
+): Promise<RoleCard[]> {
+  checkAbort(signal);
+
+  const size: RoleCardSize = options.roleCardSize ?? 'poker';
+  const generator = new RoleCardGenerator(buildGeneratorOptions(options, scriptMeta));
+  const nameCount = new Map<string, number>();
+  const cards: RoleCard[] = [];
+
+  for (const [index, character] of characters.entries()) {
+    checkAbort(signal);
+    if (!character.name) continue;
+
+    let imageUrl: string | undefined;
+    const sourceUrl = getCharacterImageUrl(character.image);
+    if (sourceUrl) {
+      try {
+        const resolved = await resolveCharacterImageUrl(sourceUrl, character.id, {
+          logContext: 'BatchGenerator',
+        });
+        imageUrl = resolved.url;
+      } catch {
+        logger.warn('BatchGenerator', `Could not resolve image for role card: ${character.name}`);
+      }
+    }
+
+    const canvas = await generator.generateRoleCard(character, size, {
+      imageUrl,
+      flavorText: options.roleCardFlavorText ?? true,
+    });
+
+    cards.push({
+      name: character.name,
+      filename: generateUniqueFilename(nameCount, sanitizeFilename(character.name)),
+      team: character.team,
+      size,
+      canvas,
+      order: index,
+    });
+    progressCallback?.(index + 1, characters.length);
+  }
+
+  return cards;
+}
@@ -0,0 +1,95 @@
+/**
+ * Blood on the Clocktower Token Generator
+ * Bootlegger Fit - Check whether a Bootlegger rule fits on its token
+ *
+ * Bootlegger tokens stack the rule text at the top, the icon in the space
+ * left below it, and the "BOOTLEGGER" name where the layout template puts
+ * it (curved along the bottom by default). Long rules
+ * shrink the icon (the icon layout sizes it from the remaining space) and
+ * eventually run into the name. This module turns a text layout result into
+ * a fit status the editor can show before any token is generated.
+ */
+
+import type { TextLayoutResult } from '@/ts/canvas/canvasOptimizations.js';
+import CONFIG from '@/ts/config.js';
+import type { TokenLayoutTemplate } from '@/ts/types/index.js';
+import { CLASSIC_LAYOUT_TEMPLATE } from './layoutTemplates.js';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * - fits: text and icon both have room
+ * - tight: text fits but leaves little room for the icon
+ * - overflow: text runs into the Bootlegger name (or off the token)
+ */
+export type BootleggerFitStatus = 'fits' | 'tight' | 'overflow';
+
+/**
+ * How a Bootlegger rule lays out on its token (ratios of the token diameter)
+ */
+export interface BootleggerTextFit {
+  status: BootleggerFitStatus;
+  lineCount: number;
+  /** Where the last line of text ends */
+  textBottom: number;
+  /** Vertical space left for the icon between the text and the name */
+  iconSpace: number;
+}
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+/** Icon space below which the icon becomes too small to read */
+const MIN_ICON_SPACE = 0.2;
+
+/** Lowest point text may reach when the name is hidden (circular padding) */
+const MAX_TEXT_BOTTOM_WITHOUT_NAME = 0.9;
+
+/**
+ * Lowest point text may reach before it runs into the name
+ */
+function getTextLimit(template: TokenLayoutTemplate, hideName: boolean): number {
+  const { characterName } = template;
+  const nameSize = CONFIG.FONTS.CHARACTER_NAME.SIZE_RATIO;
+
+  // A hidden name or a name along the top leaves the bottom of the token free
+  if (hideName || characterName.placement === 'top-arc') return MAX_TEXT_BOTTOM_WITHOUT_NAME;
+  if (characterName.placement === 'banner') return characterName.bannerY - nameSize / 2;
+
+  // Top edge of the curved name at the bottom of the token
+  return 0.5 + characterName.radius / 2 - nameSize;
+}
+
+// ============================================================================
+// Public API
+// ============================================================================
+
+/**
+ * Assess a Bootlegger rule's text layout
+ *
+ * @param layout - Layout from `TokenGenerator.calculateBootleggerLayout()`
+ * @param diameter - Token diameter in pixels the layout was calculated for
+ * @param hideName - Whether the "BOOTLEGGER" name is hidden
+ * @param template - Layout template the token is drawn with (default: classic)
+ * @returns Fit status and measurements
+ */
+export function getBootleggerTextFit(
+  layout: TextLayoutResult | undefined,
+  diameter: number,
+  hideName = false,
+  template: TokenLayoutTemplate = CLASSIC_LAYOUT_TEMPLATE
+): BootleggerTextFit {
+  const textTop = template.abilityText.top;
+  const textBottom = layout ? textTop + layout.totalHeight / diameter : textTop;
+  const iconSpace = template.icon.bottom - textBottom;
+  const limit = getTextLimit(template, hideName);
+
+  let status: BootleggerFitStatus = 'fits';
+  if (textBottom > limit) status = 'overflow';
+  else if (iconSpace < MIN_ICON_SPACE) status = 'tight';
+
+  return { status, lineCount: layout?.lines.length ?? 0, textBottom, iconSpace };
+}
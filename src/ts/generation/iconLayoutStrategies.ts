@@ -4,12 +4,9 @@
  */
 
 import type { Point } from '@/ts/canvas/index.js';
-import {
-  CHARACTER_LAYOUT,
-  REMINDER_LAYOUT,
-  TokenType,
-  type TokenTypeValue,
-} from '@/ts/constants.js';
+import { REMINDER_LAYOUT, TokenType, type TokenTypeValue } from '@/ts/constants.js';
+import type { TemplateIconBox } from '@/ts/types/index.js';
+import { CLASSIC_LAYOUT_TEMPLATE } from './layoutTemplates.js';
 
 // ============================================================================
 // LAYOUT RESULT TYPES
@@ -64,7 +61,8 @@ export interface IconLayoutStrategy {
 export class CharacterWithAbilityTextLayout implements IconLayoutStrategy {
   constructor(
     private abilityTextHeight: number,
-    private abilityTextStartY: number
+    private abilityTextStartY: number,
+    private iconBox: TemplateIconBox = CLASSIC_LAYOUT_TEMPLATE.icon
   ) {}
 
   calculate(context: LayoutContext): IconLayoutResult {
@@ -74,17 +72,17 @@ export class CharacterWithAbilityTextLayout implements IconLayoutStrategy {
     const offsetXPixels = iconOffsetX * dpi;
     const offsetYPixels = iconOffsetY * dpi;
 
-    // Character name is at the bottom (curved text)
-    const characterNameY = diameter * CHARACTER_LAYOUT.CURVED_TEXT_RADIUS;
+    // Bottom of the icon box (above the character name in the classic layout)
+    const iconBoxBottomY = diameter * this.iconBox.bottom;
 
-    // Dynamic sizing: maximize icon space between ability text and character name
+    // Dynamic sizing: maximize icon space between ability text and the box bottom
     const abilityTextEndY = this.abilityTextStartY + this.abilityTextHeight;
 
     // Calculate available vertical space for icon
-    const availableHeight = characterNameY - abilityTextEndY;
+    const availableHeight = iconBoxBottomY - abilityTextEndY;
 
     // Use configured ratio of available space for optimal appearance
-    const optimalSize = availableHeight * CHARACTER_LAYOUT.ICON_SPACE_RATIO_WITH_ABILITY;
+    const optimalSize = availableHeight * this.iconBox.scaleWithText;
 
     // Calculate the ratio
     const imageSizeRatio = optimalSize / diameter;
@@ -117,7 +115,10 @@ export class CharacterWithAbilityTextLayout implements IconLayoutStrategy {
  * Optionally accepts a top boundary override for badge-only cases
  */
 export class CharacterWithoutAbilityTextLayout implements IconLayoutStrategy {
-  constructor(private topBoundaryOverride?: number) {}
+  constructor(
+    private topBoundaryOverride?: number,
+    private iconBox: TemplateIconBox = CLASSIC_LAYOUT_TEMPLATE.icon
+  ) {}
 
   calculate(context: LayoutContext): IconLayoutResult {
     const { diameter, dpi, iconScale, iconOffsetX, iconOffsetY } = context;
@@ -126,20 +127,20 @@ export class CharacterWithoutAbilityTextLayout implements IconLayoutStrategy {
     const offsetXPixels = iconOffsetX * dpi;
     const offsetYPixels = iconOffsetY * dpi;
 
-    // Character name is at the bottom (curved text)
-    const characterNameY = diameter * CHARACTER_LAYOUT.CURVED_TEXT_RADIUS;
+    // Bottom of the icon box (above the character name in the classic layout)
+    const iconBoxBottomY = diameter * this.iconBox.bottom;
 
-    // Use override (badge bottom) if provided, otherwise use default top margin
+    // Use override (badge bottom) if provided, otherwise use the box top
     const topMargin =
       this.topBoundaryOverride !== undefined
         ? this.topBoundaryOverride
-        : diameter * CHARACTER_LAYOUT.NO_ABILITY_TOP_MARGIN;
+        : diameter * this.iconBox.top;
 
     // Calculate available vertical space for icon
-    const availableHeight = characterNameY - topMargin;
+    const availableHeight = iconBoxBottomY - topMargin;
 
     // Use configured ratio of available space for optimal appearance
-    const optimalSize = availableHeight * CHARACTER_LAYOUT.ICON_SPACE_RATIO_NO_ABILITY;
+    const optimalSize = availableHeight * this.iconBox.scale;
 
     // Calculate the ratio
     const imageSizeRatio = optimalSize / diameter;
@@ -243,23 +244,25 @@ export const IconLayoutStrategyFactory = {
    * @param abilityTextHeight - Height of ability text (if present)
    * @param abilityTextStartY - Starting Y position of ability text
    * @param topBoundaryOverride - Optional top boundary for badge-only case (pixels)
+   * @param iconBox - Icon box from the layout template (default: classic)
    * @returns Appropriate layout strategy
    */
   createCharacterLayout(
     hasAbilityText: boolean,
     abilityTextHeight?: number,
     abilityTextStartY?: number,
-    topBoundaryOverride?: number
+    topBoundaryOverride?: number,
+    iconBox?: TemplateIconBox
   ): IconLayoutStrategy {
     if (hasAbilityText && abilityTextHeight !== undefined && abilityTextStartY !== undefined) {
       // Has actual ability text - use ability text layout
-      return new CharacterWithAbilityTextLayout(abilityTextHeight, abilityTextStartY);
+      return new CharacterWithAbilityTextLayout(abilityTextHeight, abilityTextStartY, iconBox);
     } else if (topBoundaryOverride !== undefined) {
       // No ability text but has badge/uniform layout - use no-ability layout with custom top boundary
-      return new CharacterWithoutAbilityTextLayout(topBoundaryOverride);
+      return new CharacterWithoutAbilityTextLayout(topBoundaryOverride, iconBox);
     } else {
       // No ability text, no badge - use default no-ability layout
-      return new CharacterWithoutAbilityTextLayout();
+      return new CharacterWithoutAbilityTextLayout(undefined, iconBox);
     }
   },
 
@@ -270,6 +273,7 @@ export const IconLayoutStrategyFactory = {
    * @param abilityTextHeight - Height of ability text (only for character tokens with ability text)
    * @param abilityTextStartY - Starting Y position of ability text
    * @param topBoundaryOverride - Optional top boundary for badge-only case (pixels)
+   * @param iconBox - Icon box from the layout template (only for character tokens)
    * @returns Appropriate layout strategy
    */
   create(
@@ -277,7 +281,8 @@ export const IconLayoutStrategyFactory = {
     hasAbilityText?: boolean,
     abilityTextHeight?: number,
     abilityTextStartY?: number,
-    topBoundaryOverride?: number
+    topBoundaryOverride?: number,
+    iconBox?: TemplateIconBox
   ): IconLayoutStrategy {
     switch (tokenType) {
       case TokenType.CHARACTER:
@@ -285,7 +290,8 @@ export const IconLayoutStrategyFactory = {
           hasAbilityText ?? false,
           abilityTextHeight,
           abilityTextStartY,
-          topBoundaryOverride
+          topBoundaryOverride,
+          iconBox
         );
       case TokenType.REMINDER:
         return new ReminderTokenLayout();
@@ -5,13 +5,33 @@
 
 // Batch generation (orchestration layer)
 export {
+  type GenerationScope,
   generateAllTokens as generateAllTokensBatch,
   generateAllTokens,
+  generateRoleCards,
+  generateTokenBacks,
+  getTokenBackOptions,
 } from './batchGenerator.js';
+// Bootlegger rule fit checks
+export {
+  type BootleggerFitStatus,
+  type BootleggerTextFit,
+  getBootleggerTextFit,
+} from './bootleggerFit.js';
 // Export image cache adapter
 export { defaultImageCache } from './ImageCacheAdapter.js';
+// Layout templates (character token composition)
+export {
+  BUILT_IN_LAYOUT_TEMPLATES,
+  CLASSIC_LAYOUT_TEMPLATE,
+  CUSTOM_LAYOUT_TEMPLATE_ID,
+  getBuiltInLayoutTemplate,
+  resolveLayoutTemplate,
+} from './layoutTemplates.js';
 // Presets
 export { getPreset, getPresetNames, PRESETS } from './presets.js';
+// Role cards (large-format portrait cards)
+export { type RoleCardContentOptions, RoleCardGenerator } from './RoleCardGenerator.js';
 // Token Factory (Token object creation)
 export {
   type CharacterTokenOptions,
@@ -39,3 +59,42 @@ export {
   type TeamVariantConfig,
   type TeamVariantResult,
 } from './teamVariantGenerator.js';
+// Text fitting (ability and reminder text)
+export {
+  type AbilityTextFit,
+  fitAbilityText,
+  fitReminderText,
+  getTextFitReport,
+  getTextFitStatus,
+  type ReminderTextFit,
+  recordTextFit,
+} from './textFit.js';
+// Dependency tracking (incremental regeneration)
+export {
+  createDependencySnapshot,
+  type DependencySnapshot,
+  getCharacterKey,
+  getTokenOwnerKey,
+  META_OWNER,
+  OPTION_GROUP_KEYS,
+  type OptionGroup,
+  type RegenerationPlan,
+  TokenDependencyGraph,
+  tokenDependencyGraph,
+} from './tokenDependencies.js';
+// Token seeds (reproducible decoration)
+export {
+  DEFAULT_RANDOM_SEED,
+  getMetaTokenSeed,
+  getTokenSeedKey,
+  getTokenSeedKeyForToken,
+  resolveTokenSeed,
+} from './tokenSeeds.js';
+// Worker pool rendering (OffscreenCanvas character/reminder tokens)
+export {
+  collectFontSources,
+  getTokenRenderPool,
+  isWorkerRenderingSupported,
+  terminateTokenRenderPool,
+  WorkerTokenRenderer,
+} from './WorkerTokenRenderer.js';
@@ -0,0 +1,138 @@
+/**
+ * Blood on the Clocktower Token Generator
+ * Layout Templates - Built-in character token layouts
+ *
+ * A template (see types/layoutTemplate.ts) places the character name, icon
+ * box, ability text, reminder badge and accent arcs. The classic template is
+ * the original fixed layout. Templates from options and presets are resolved
+ * against it, so missing sections and out-of-range values fall back.
+ */
+
+import { CHARACTER_LAYOUT } from '@/ts/constants.js';
+import type { NamePlacement, TokenLayoutTemplate } from '@/ts/types/index.js';
+
+/** ID of a template that was edited away from its built-in values */
+export const CUSTOM_LAYOUT_TEMPLATE_ID = 'custom';
+
+/**
+ * Classic layout: ability text at the top, icon in the middle, name along
+ * the bottom arc, badge above the text and accents across the top
+ */
+export const CLASSIC_LAYOUT_TEMPLATE: TokenLayoutTemplate = {
+  id: 'classic',
+  name: 'Classic',
+  characterName: {
+    placement: 'bottom-arc',
+    radius: CHARACTER_LAYOUT.CURVED_TEXT_RADIUS,
+    bannerY: 0.74,
+  },
+  icon: {
+    top: CHARACTER_LAYOUT.NO_ABILITY_TOP_MARGIN,
+    bottom: CHARACTER_LAYOUT.CURVED_TEXT_RADIUS,
+    scaleWithText: CHARACTER_LAYOUT.ICON_SPACE_RATIO_WITH_ABILITY,
+    scale: CHARACTER_LAYOUT.ICON_SPACE_RATIO_NO_ABILITY,
+  },
+  abilityText: {
+    top: CHARACTER_LAYOUT.ABILITY_TEXT_Y_POSITION,
+    padding: CHARACTER_LAYOUT.ABILITY_TEXT_CIRCULAR_PADDING,
+  },
+  reminderBadge: { x: 0.5, y: CHARACTER_LAYOUT.TOKEN_COUNT_Y_POSITION },
+  accentArcs: [{ center: 0 }],
+};
+
+/**
+ * Built-in templates, in display order
+ */
+export const BUILT_IN_LAYOUT_TEMPLATES: TokenLayoutTemplate[] = [
+  CLASSIC_LAYOUT_TEMPLATE,
+  {
+    id: 'name-top',
+    name: 'Name on Top',
+    characterName: { placement: 'top-arc', radius: 0.85, bannerY: 0.26 },
+    icon: { top: 0.18, bottom: 0.82, scaleWithText: 1.4, scale: 1.1 },
+    abilityText: { top: 0.2, padding: 0.8 },
+    reminderBadge: { x: 0.5, y: 0.9 },
+    accentArcs: [{ center: 180 }],
+  },
+  {
+    id: 'banner',
+    name: 'Banner',
+    characterName: { placement: 'banner', radius: 0.85, bannerY: 0.74 },
+    icon: { top: 0.1, bottom: 0.67, scaleWithText: 1.5, scale: 1.2 },
+    abilityText: { top: 0.15, padding: 0.8 },
+    reminderBadge: { x: 0.5, y: 0.12 },
+    accentArcs: [{ center: 0 }, { center: 180, span: 60, slots: 3 }],
+  },
+];
+
+const NAME_PLACEMENTS: NamePlacement[] = ['bottom-arc', 'top-arc', 'banner'];
+
+/**
+ * Clamp a template value, falling back when it is missing or not a number
+ */
+function clampRatio(value: unknown, fallback: number, min = 0, max = 1): number {
+  return typeof value === 'number' && Number.isFinite(value)
+    ? Math.min(max, Math.max(min, value))
+    : fallback;
+}
+
+/**
+ * Get a built-in template by ID
+ * @param id - Template ID
+ * @returns The template, or undefined for unknown IDs (including "custom")
+ */
+export function getBuiltInLayoutTemplate(id: string): TokenLayoutTemplate | undefined {
+  return BUILT_IN_LAYOUT_TEMPLATES.find((template) => template.id === id);
+}
+
+/**
+ * Resolve a (possibly partial or hand-edited) template into a complete one
+ * @param template - Template from options or a preset (default: classic)
+ * @returns Complete template with every value in range
+ */
+export function resolveLayoutTemplate(
+  template?: Partial<TokenLayoutTemplate> | null
+): TokenLayoutTemplate {
+  if (!template) return CLASSIC_LAYOUT_TEMPLATE;
+
+  const base = CLASSIC_LAYOUT_TEMPLATE;
+  const name = template.characterName;
+  const icon = template.icon;
+  const ability = template.abilityText;
+  const badge = template.reminderBadge;
+
+  const iconTop = clampRatio(icon?.top, base.icon.top);
+
+  return {
+    id: template.id ?? CUSTOM_LAYOUT_TEMPLATE_ID,
+    name: template.name ?? 'Custom',
+    characterName: {
+      placement: NAME_PLACEMENTS.includes(name?.placement as NamePlacement)
+        ? (name?.placement as NamePlacement)
+        : base.characterName.placement,
+      radius: clampRatio(name?.radius, base.characterName.radius, 0.3, 1),
+      bannerY: clampRatio(name?.bannerY, base.characterName.bannerY, 0.1, 0.9),
+    },
+    icon: {
+      top: iconTop,
+      bottom: clampRatio(icon?.bottom, base.icon.bottom, iconTop, 1),
+      scaleWithText: clampRatio(icon?.scaleWithText, base.icon.scaleWithText, 0.1, 3),
+      scale: clampRatio(icon?.scale, base.icon.scale, 0.1, 3),
+    },
+    abilityText: {
+      top: clampRatio(ability?.top, base.abilityText.top, 0, 0.9),
+      padding: clampRatio(ability?.padding, base.abilityText.padding, 0.3, 1),
+    },
+    reminderBadge: {
+      x: clampRatio(badge?.x, base.reminderBadge.x),
+      y: clampRatio(badge?.y, base.reminderBadge.y),
+    },
+    accentArcs: Array.isArray(template.accentArcs)
+      ? template.accentArcs.map((arc) => ({
+          center: clampRatio(arc.center, 0, -360, 360),
+          span: arc.span === undefined ? undefined : clampRatio(arc.span, 120, 0, 360),
+          slots: arc.slots === undefined ? undefined : Math.round(clampRatio(arc.slots, 7, 1, 30)),
+        }))
+      : base.accentArcs,
+  };
+}
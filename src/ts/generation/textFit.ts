@@ -0,0 +1,414 @@
+/**
+ * Blood on the Clocktower Token Generator
+ * Text Fit - Fit ability and reminder text into the token's safe area
+ *
+ * Ability text is wrapped inside the circle above the icon, and the icon is
+ * sized from the space left between the text and the name. Reminder text
+ * runs along the bottom arc. Both are fitted by searching font size, line
+ * breaks and icon size together:
+ *
+ * 1. Shrink the text a little while the icon keeps its preferred size
+ * 2. Let the icon shrink to its minimum (ability) or split the text over two
+ *    arcs with a smaller icon (reminder) while the text shrinks further
+ * 3. Truncate with an ellipsis at the smallest font size
+ *
+ * The result carries a fit report, which is kept per canvas so it can be
+ * attached to the token after rendering (also across the render workers).
+ */
+
+import { getCachedFont } from '@/ts/cache/instances/fontCache.js';
+import {
+  calculateCircularTextLayout,
+  createCircularWidthCalculator,
+  type TextLayoutResult,
+} from '@/ts/canvas/canvasOptimizations.js';
+import { getSegmentFontStyle } from '@/ts/canvas/textDrawing.js';
+import { CHARACTER_LAYOUT, TEXT_FIT } from '@/ts/constants.js';
+import type { TextFitReport } from '@/ts/types/index.js';
+import {
+  getAbilityDisplayText,
+  getLineSegments,
+  hasStyledText,
+} from '@/ts/utils/abilityTextParser.js';
+import { getWrapUnits, joinWrapUnit } from '@/ts/utils/stringUtils.js';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * Font used for fitted text
+ */
+export interface FitFont {
+  family: string;
+  fallback: string;
+  /** Configured font size in pixels (font scale 1) */
+  size: number;
+}
+
+/**
+ * Fitted ability text
+ */
+export interface AbilityTextFit {
+  layout: TextLayoutResult;
+  fontSize: number;
+  report: TextFitReport;
+}
+
+/**
+ * Ability text area on a character token (pixels)
+ */
+export interface AbilityTextArea {
+  diameter: number;
+  /** Where the first line starts */
+  startY: number;
+  lineHeightMultiplier: number;
+  circularPadding: number;
+  /** Bottom of the icon box (default: the character name line) */
+  iconBottomY?: number;
+}
+
+/**
+ * Fitted reminder text, one or two arcs
+ */
+export interface ReminderTextFit {
+  /** Lines from top to bottom (the last line sits on the base arc) */
+  lines: string[];
+  /** Arc radius for each line */
+  radii: number[];
+  fontSize: number;
+  /** Icon scale to keep the icon clear of the text */
+  iconScale: number;
+  report: TextFitReport;
+}
+
+/**
+ * Reminder text arc on a reminder token (pixels)
+ */
+export interface ReminderTextArc {
+  /** Base arc radius (bottom line) */
+  radius: number;
+  letterSpacing: number;
+  /** Width limit for straight edges (square and hexagon tokens) */
+  straightMaxWidth?: number;
+}
+
+// ============================================================================
+// Report registry
+// ============================================================================
+
+const reports = new WeakMap<object, TextFitReport>();
+
+/**
+ * Remember how text was fitted on a rendered canvas
+ */
+export function recordTextFit(
+  canvas: HTMLCanvasElement | OffscreenCanvas,
+  report: TextFitReport
+): void {
+  reports.set(canvas, report);
+}
+
+/**
+ * Fit report for a rendered canvas, if one was recorded
+ */
+export function getTextFitReport(
+  canvas: HTMLCanvasElement | OffscreenCanvas
+): TextFitReport | undefined {
+  return reports.get(canvas);
+}
+
+/**
+ * Most severe fit outcome, or null when the text fits as configured
+ */
+export function getTextFitStatus(
+  report: TextFitReport | undefined
+): 'shrunk' | 'truncated' | 'overflowing' | null {
+  if (!report) return null;
+  if (report.overflowing) return 'overflowing';
+  if (report.truncated) return 'truncated';
+  if (report.shrunk) return 'shrunk';
+  return null;
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+/**
+ * Font scales to try, largest first
+ */
+function getFontScales(minScale: number): number[] {
+  const scales: number[] = [];
+  const steps = Math.round((1 - minScale) / TEXT_FIT.FONT_SCALE_STEP);
+  for (let i = 0; i <= steps; i++) {
+    scales.push(Math.round((1 - i * TEXT_FIT.FONT_SCALE_STEP) * 100) / 100);
+  }
+  return scales;
+}
+
+function createReport(
+  fontScale: number,
+  lineCount: number,
+  truncated = false,
+  overflowing = false
+): TextFitReport {
+  return { shrunk: fontScale < 1, truncated, overflowing, fontScale, lineCount };
+}
+
+/**
+ * Drop trailing wrap units until the line plus an ellipsis fits
+ */
+function truncateLine(line: string, maxWidth: number, measure: (text: string) => number): string {
+  const units = getWrapUnits(line);
+  while (units.length > 1) {
+    const text = units.reduce(joinWrapUnit, '');
+    if (measure(text + TEXT_FIT.ELLIPSIS) <= maxWidth) break;
+    units.pop();
+  }
+  return units.reduce(joinWrapUnit, '') + TEXT_FIT.ELLIPSIS;
+}
+
+// ============================================================================
+// Ability text
+// ============================================================================
+
+/**
+ * Fit ability text above the icon of a character token
+ *
+ * @param ctx - Canvas context used for measuring (font is changed and restored)
+ * @param text - Ability text, with markup (lines are wrapped from its display text)
+ * @param font - Ability text font
+ * @param area - Text area on the token
+ * @returns Layout at the chosen font size and the fit report
+ */
+export function fitAbilityText(
+  ctx: CanvasRenderingContext2D,
+  text: string,
+  font: FitFont,
+  area: AbilityTextArea
+): AbilityTextFit {
+  const { diameter, startY, lineHeightMultiplier, circularPadding } = area;
+  const radius = diameter / 2;
+  const iconBottomY = area.iconBottomY ?? diameter * CHARACTER_LAYOUT.CURVED_TEXT_RADIUS;
+  const widthAt = createCircularWidthCalculator(radius, radius, circularPadding);
+  const displayText = getAbilityDisplayText(text);
+  const styled = hasStyledText(text);
+
+  ctx.save();
+
+  const layoutAt = (scale: number) => {
+    const fontSize = font.size * scale;
+    ctx.font = getCachedFont('', fontSize, font.family, font.fallback);
+    const layout = calculateCircularTextLayout(
+      ctx,
+      displayText,
+      diameter,
+      fontSize,
+      lineHeightMultiplier,
+      startY,
+      circularPadding
+    );
+    return { layout, fontSize, scale };
+  };
+
+  // Bold and italic runs change the width, so styled lines are measured per segment
+  const measureLine = (line: string, fontSize: number) => {
+    if (!styled) return ctx.measureText(line).width;
+    const regularFont = ctx.font;
+    let width = 0;
+    for (const segment of getLineSegments(line, text)) {
+      ctx.font = getCachedFont(getSegmentFontStyle(segment), fontSize, font.family, font.fallback);
+      width += ctx.measureText(segment.text).width;
+    }
+    ctx.font = regularFont;
+    return width;
+  };
+
+  const iconSpace = (textHeight: number) => (iconBottomY - (startY + textHeight)) / diameter;
+
+  // A single word can be wider than the circle allows at its line
+  const hasWideLine = ({ layout, fontSize }: ReturnType<typeof layoutAt>) =>
+    layout.lines.some(
+      (line, i) =>
+        measureLine(line, fontSize) > widthAt(startY + i * layout.lineHeight + fontSize / 2) + 0.5
+    );
+
+  const search = (minScale: number, minIconSpace: number) => {
+    for (const scale of getFontScales(minScale)) {
+      const candidate = layoutAt(scale);
+      if (iconSpace(candidate.layout.totalHeight) >= minIconSpace && !hasWideLine(candidate)) {
+        return candidate;
+      }
+    }
+    return null;
+  };
+
+  const fitted =
+    search(TEXT_FIT.PREFERRED_MIN_FONT_SCALE, TEXT_FIT.PREFERRED_ICON_SPACE) ??
+    search(TEXT_FIT.MIN_FONT_SCALE, TEXT_FIT.MIN_ICON_SPACE);
+
+  if (fitted) {
+    ctx.restore();
+    return {
+      layout: fitted.layout,
+      fontSize: fitted.fontSize,
+      report: createReport(fitted.scale, fitted.layout.lines.length),
+    };
+  }
+
+  // Smallest size still leaves too little room: drop lines until the icon fits
+  const smallest = layoutAt(TEXT_FIT.MIN_FONT_SCALE);
+  const { lineHeight } = smallest.layout;
+  const lines = [...smallest.layout.lines];
+  let truncated = false;
+  while (lines.length > 1 && iconSpace(lines.length * lineHeight) < TEXT_FIT.MIN_ICON_SPACE) {
+    lines.pop();
+    truncated = true;
+  }
+  if (truncated) {
+    const last = lines.length - 1;
+    const maxWidth = widthAt(startY + last * lineHeight + smallest.fontSize / 2);
+    lines[last] = truncateLine(lines[last], maxWidth, (line) =>
+      measureLine(line, smallest.fontSize)
+    );
+  }
+
+  const result = {
+    ...smallest,
+    layout: { lines, lineHeight, totalHeight: lines.length * lineHeight },
+  };
+  const overflowing =
+    hasWideLine(result) || iconSpace(result.layout.totalHeight) < TEXT_FIT.MIN_ICON_SPACE;
+
+  ctx.restore();
+  return {
+    layout: result.layout,
+    fontSize: result.fontSize,
+    report: createReport(TEXT_FIT.MIN_FONT_SCALE, lines.length, truncated, overflowing),
+  };
+}
+
+// ============================================================================
+// Reminder text
+// ============================================================================
+
+/**
+ * Fit reminder text along the bottom arc of a reminder token
+ *
+ * @param ctx - Canvas context used for measuring (font is changed and restored)
+ * @param text - Reminder text as drawn (already uppercased)
+ * @param font - Reminder text font (drawn bold)
+ * @param arc - Base arc of the text
+ * @returns Lines with their radii, font size, icon scale and the fit report
+ */
+export function fitReminderText(
+  ctx: CanvasRenderingContext2D,
+  text: string,
+  font: FitFont,
+  arc: ReminderTextArc
+): ReminderTextFit {
+  const { radius, letterSpacing, straightMaxWidth } = arc;
+  const units = getWrapUnits(text);
+
+  ctx.save();
+
+  const measure = (line: string) =>
+    ctx.measureText(line).width + Math.max(0, line.length - 1) * letterSpacing;
+  const available = (lineRadius: number) =>
+    straightMaxWidth ?? lineRadius * CHARACTER_LAYOUT.MAX_TEXT_ARC_SPAN;
+  const setScale = (scale: number) => {
+    ctx.font = getCachedFont('bold', font.size * scale, font.family, font.fallback);
+  };
+  const innerRadius = (scale: number) =>
+    radius - font.size * scale * TEXT_FIT.REMINDER_LINE_SPACING;
+
+  // Split at the wrap point that leaves both arcs least full
+  const splitLines = (scale: number): [string, string] | null => {
+    let best: [string, string] | null = null;
+    let bestFill = Infinity;
+    for (let i = 1; i < units.length; i++) {
+      const top = units.slice(0, i).reduce(joinWrapUnit, '');
+      const bottom = units
+        .slice(i)
+        .map((unit, j) => (j === 0 ? { ...unit, spaced: false } : unit))
+        .reduce(joinWrapUnit, '');
+      const fill = Math.max(
+        measure(top) / available(innerRadius(scale)),
+        measure(bottom) / available(radius)
+      );
+      if (fill < bestFill) {
+        bestFill = fill;
+        best = [top, bottom];
+      }
+    }
+    return best;
+  };
+
+  const oneLine = (scale: number): ReminderTextFit => ({
+    lines: [text],
+    radii: [radius],
+    fontSize: font.size * scale,
+    iconScale: 1,
+    report: createReport(scale, 1),
+  });
+
+  const twoLines = (scale: number, lines: [string, string]): ReminderTextFit => ({
+    lines,
+    radii: [innerRadius(scale), radius],
+    fontSize: font.size * scale,
+    iconScale: TEXT_FIT.REMINDER_TWO_LINE_ICON_SCALE,
+    report: createReport(scale, 2),
+  });
+
+  const fitsOneLine = (scale: number) => {
+    setScale(scale);
+    return measure(text) <= available(radius);
+  };
+
+  const fitsTwoLines = (scale: number) => {
+    setScale(scale);
+    const lines = splitLines(scale);
+    if (!lines) return null;
+    const [top, bottom] = lines;
+    return measure(top) <= available(innerRadius(scale)) && measure(bottom) <= available(radius)
+      ? lines
+      : null;
+  };
+
+  const finish = (fit: ReminderTextFit) => {
+    ctx.restore();
+    return fit;
+  };
+
+  // 1. One line, shrinking a little
+  for (const scale of getFontScales(TEXT_FIT.PREFERRED_MIN_FONT_SCALE)) {
+    if (fitsOneLine(scale)) return finish(oneLine(scale));
+  }
+
+  // 2. Two lines with a smaller icon, shrinking down to the minimum
+  for (const scale of getFontScales(TEXT_FIT.MIN_FONT_SCALE)) {
+    const lines = fitsTwoLines(scale);
+    if (lines) return finish(twoLines(scale, lines));
+  }
+
+  // 3. Single word: one line at the minimum size, compressed into the arc
+  const minScale = TEXT_FIT.MIN_FONT_SCALE;
+  if (units.length < 2) {
+    const fits = fitsOneLine(minScale);
+    return finish({ ...oneLine(minScale), report: createReport(minScale, 1, false, !fits) });
+  }
+
+  // 4. Truncate the bottom line at the minimum size
+  setScale(minScale);
+  const split = splitLines(minScale) ?? [text, ''];
+  const [top, bottom] = split;
+  const truncatedBottom = truncateLine(bottom, available(radius), measure);
+  const overflowing =
+    measure(top) > available(innerRadius(minScale)) || measure(truncatedBottom) > available(radius);
+
+  return finish({
+    ...twoLines(minScale, [top, truncatedBottom]),
+    report: createReport(minScale, 2, true, overflowing),
+  });
+}
@@ -0,0 +1,521 @@
+/**
+ * Blood on the Clocktower Token Generator
+ * Token Dependencies - Dependency graph for incremental token regeneration
+ *
+ * Each character's tokens depend on the character data (keyed by UUID), the
+ * option groups its tokens read (background, fonts, accents, icon settings...)
+ * after decorative overrides, and the uploaded image assets it references.
+ * Meta tokens depend on the script metadata and the meta option group.
+ *
+ * A snapshot hashes every node; comparing it to the snapshot of the last
+ * generation gives the characters (and whether the meta tokens) to re-render.
+ * Asset, character and global invalidation events mark dependents stale.
+ */
+
+import { cacheInvalidationService } from '@/ts/cache/CacheInvalidationService.js';
+import { combineHashes, hashObject, simpleHash } from '@/ts/cache/utils/hashUtils.js';
+import { getAllCharacterImageUrls } from '@/ts/data/characterUtils.js';
+import { extractAssetId } from '@/ts/services/upload/assetResolver.js';
+import type {
+  Character,
+  CharacterMetadata,
+  GenerationOptions,
+  ScriptMeta,
+  Token,
+} from '@/ts/types/index.js';
+import { createEffectiveOptions } from '@/ts/utils/decorativeUtils.js';
+import { logger, sanitizeFilename } from '@/ts/utils/index.js';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/**
+ * Groups of generation options that tokens read
+ */
+export type OptionGroup =
+  | 'background'
+  | 'fonts'
+  | 'accents'
+  | 'icon'
+  | 'layout'
+  | 'variants'
+  | 'meta'
+  | 'seed';
+
+/**
+ * Hashed dependency nodes and the nodes each token owner reads
+ */
+export interface DependencySnapshot {
+  /** Node ID -> hash (character data, option groups, assets, script) */
+  nodes: Map<string, string>;
+  /** Owner (character key or META_OWNER) -> node IDs it reads */
+  edges: Map<string, string[]>;
+  /** Character keys in script order */
+  order: string[];
+}
+
+/**
+ * What to re-render to bring the current tokens up to date
+ */
+export interface RegenerationPlan {
+  /** Regenerate everything (no usable previous generation) */
+  full: boolean;
+  /** Characters whose tokens must be re-rendered */
+  characterKeys: Set<string>;
+  /** Characters no longer on the script (tokens to drop) */
+  removedKeys: Set<string>;
+  /** Whether the meta tokens must be re-rendered */
+  meta: boolean;
+  /** Why a full regeneration is needed */
+  reason?: string;
+}
+
+// ============================================================================
+// OPTION GROUPS
+// ============================================================================
+
+/**
+ * GenerationOptions keys per option group
+ */
+export const OPTION_GROUP_KEYS: Readonly<
+  Record<OptionGroup, readonly (keyof GenerationOptions)[]>
+> = {
+  background: [
+    'characterBackground',
+    'characterBackgroundColor',
+    'characterBackgroundType',
+    'characterBackgroundStyle',
+    'reminderBackground',
+    'reminderBackgroundImage',
+    'reminderBackgroundType',
+    'reminderBackgroundStyle',
+    'setupStyle',
+    'pngSettings',
+  ],
+  fonts: [
+    'characterNameFont',
+    'characterNameColor',
+    'characterReminderFont',
+    'abilityTextFont',
+    'abilityTextColor',
+    'reminderTextColor',
+    'fontSpacing',
+    'textShadow',
+  ],
+  accents: [
+    'accentGeneration',
+    'accentEnabled',
+    'maximumAccents',
+    'accentPopulationProbability',
+    'accentArcSpan',
+    'accentSlots',
+    'enableLeftAccent',
+    'enableRightAccent',
+    'sideAccentProbability',
+  ],
+  icon: ['iconSettings'],
+  layout: [
+    'displayAbilityText',
+    'tokenCount',
+    'reminderCountStyle',
+    'reminderCountUniformLayout',
+    'dpi',
+    'locale',
+    'tokenShape',
+    'tokenShapePath',
+    'layoutTemplate',
+  ],
+  variants: [
+    'generateImageVariants',
+    'generateReminderVariants',
+    'autoGenerateCharacterVariants',
+    'autoGenerateReminderVariants',
+    'autoGenerateTeams',
+  ],
+  meta: [
+    'metaBackground',
+    'metaBackgroundColor',
+    'metaBackgroundType',
+    'metaBackgroundStyle',
+    'metaNameFont',
+    'metaNameColor',
+    'scriptNameToken',
+    'hideScriptNameAuthor',
+    'almanacToken',
+    'pandemoniumToken',
+    'logoUrl',
+    'qrCodeOptions',
+    'generateBootleggerRules',
+    'bootleggerIconType',
+    'bootleggerNormalizeIcons',
+    'bootleggerHideName',
+  ],
+  seed: ['randomSeed'],
+};
+
+/** Options that only affect exports, never token pixels */
+const EXPORT_ONLY_KEYS: readonly (keyof GenerationOptions)[] = [
+  'zipSettings',
+  'pdfPadding',
+  'pdfXOffset',
+  'pdfYOffset',
+  'pdfImageQuality',
+  'pdfBleed',
+  'pdfDuplexXOffset',
+  'pdfDuplexYOffset',
+  'characterBack',
+  'reminderBack',
+  'metaBack',
+  'roleCardSize',
+  'roleCardFlavorText',
+  'measurementUnit',
+];
+
+/** Option groups read by character and reminder tokens */
+const CHARACTER_TOKEN_GROUPS: readonly OptionGroup[] = [
+  'background',
+  'fonts',
+  'accents',
+  'icon',
+  'layout',
+  'variants',
+  'seed',
+];
+
+/** Option groups read by meta tokens */
+const META_TOKEN_GROUPS: readonly OptionGroup[] = [
+  'background',
+  'fonts',
+  'accents',
+  'icon',
+  'layout',
+  'meta',
+  'seed',
+];
+
+/** Owner key for the meta tokens (pandemonium, script name, almanac, bootlegger) */
+export const META_OWNER = '@meta';
+
+/** Node read by every owner: options not in any group (any change forces a full run) */
+const UNCLASSIFIED_NODE = 'options:unclassified';
+
+const CLASSIFIED_KEYS = new Set<string>([
+  ...Object.values(OPTION_GROUP_KEYS).flat(),
+  ...EXPORT_ONLY_KEYS,
+]);
+
+// ============================================================================
+// SNAPSHOT
+// ============================================================================
+
+/**
+ * Key a character's tokens are tracked by (UUID, falling back to ID)
+ */
+export function getCharacterKey(character: Character): string {
+  return character.uuid || character.id;
+}
+
+/**
+ * Owner key of a generated token, or null if it can't be traced to a character
+ */
+export function getTokenOwnerKey(token: Token): string | null {
+  if (token.type !== 'character' && token.type !== 'reminder') return META_OWNER;
+  return token.parentUuid || token.characterData?.id || null;
+}
+
+/**
+ * Collect asset IDs referenced by a value (strings, arrays and nested objects)
+ */
+function collectAssetIds(value: unknown, into: Set<string>): void {
+  if (typeof value === 'string') {
+    const assetId = extractAssetId(value);
+    if (assetId) into.add(assetId);
+  } else if (Array.isArray(value)) {
+    for (const item of value) collectAssetIds(item, into);
+  } else if (value && typeof value === 'object') {
+    for (const item of Object.values(value)) collectAssetIds(item, into);
+  }
+}
+
+/**
+ * Pick the options in a group
+ */
+function pickGroup(options: GenerationOptions, group: OptionGroup): Partial<GenerationOptions> {
+  const picked: Partial<GenerationOptions> = {};
+  for (const key of OPTION_GROUP_KEYS[group]) {
+    (picked as Record<string, unknown>)[key] = options[key];
+  }
+  return picked;
+}
+
+/**
+ * Hash the current generation inputs into a dependency snapshot
+ *
+ * @param characters - Enabled characters in script order (already localized)
+ * @param options - Global generation options
+ * @param scriptMeta - Script metadata (meta tokens)
+ * @param characterMetadata - Character UUID -> metadata (decorative overrides)
+ * @param assetVersion - Current version of an asset (bumped on invalidation)
+ */
+export function createDependencySnapshot(
+  characters: Character[],
+  options: Partial<GenerationOptions>,
+  scriptMeta: ScriptMeta | null,
+  characterMetadata: Map<string, CharacterMetadata> | undefined,
+  assetVersion: (assetId: string) => number = () => 0
+): DependencySnapshot {
+  const globalOptions = options as GenerationOptions;
+  const nodes = new Map<string, string>();
+  const edges = new Map<string, string[]>();
+  const order: string[] = [];
+
+  const unclassified = Object.keys(options)
+    .filter((key) => !CLASSIFIED_KEYS.has(key))
+    .sort();
+  nodes.set(UNCLASSIFIED_NODE, hashObject(options as Record<string, unknown>, unclassified));
+
+  for (const group of Object.keys(OPTION_GROUP_KEYS) as OptionGroup[]) {
+    nodes.set(`options:${group}`, hashObject(pickGroup(globalOptions, group)));
+  }
+
+  const addAssets = (value: unknown, reads: string[]) => {
+    const assetIds = new Set<string>();
+    collectAssetIds(value, assetIds);
+    for (const assetId of assetIds) {
+      const node = `asset:${assetId}`;
+      nodes.set(node, String(assetVersion(assetId)));
+      reads.push(node);
+    }
+  };
+
+  // Filenames are deduplicated by name, so same-named earlier characters count too
+  const nameCount = new Map<string, number>();
+
+  for (const character of characters) {
+    const key = getCharacterKey(character);
+    if (edges.has(key)) continue;
+    order.push(key);
+
+    const baseName = sanitizeFilename(character.name ?? '');
+    const nameIndex = nameCount.get(baseName) ?? 0;
+    nameCount.set(baseName, nameIndex + 1);
+
+    // Locked token seeds change the look as much as the character data does
+    const metadata = characterMetadata?.get(character.uuid || '');
+    const characterNode = `character:${key}`;
+    nodes.set(
+      characterNode,
+      combineHashes([
+        simpleHash(JSON.stringify(character)),
+        String(nameIndex),
+        simpleHash(JSON.stringify(metadata?.tokenSeeds ?? null)),
+      ])
+    );
+    const reads = [UNCLASSIFIED_NODE, characterNode];
+
+    // Characters with decorative overrides read their own copy of each group
+    const decoratives = metadata?.decoratives;
+    const effectiveOptions = decoratives?.useCustomSettings
+      ? createEffectiveOptions(globalOptions, decoratives)
+      : null;
+    for (const group of CHARACTER_TOKEN_GROUPS) {
+      if (effectiveOptions) {
+        const node = `options:${group}:${key}`;
+        nodes.set(node, hashObject(pickGroup(effectiveOptions, group)));
+        reads.push(node);
+      } else {
+        reads.push(`options:${group}`);
+      }
+    }
+
+    addAssets(
+      [
+        getAllCharacterImageUrls(character.image),
+        CHARACTER_TOKEN_GROUPS.map((group) => pickGroup(effectiveOptions ?? globalOptions, group)),
+      ],
+      reads
+    );
+    edges.set(key, reads);
+  }
+
+  // Meta tokens read the script metadata, but not the character list
+  const metaReads = [UNCLASSIFIED_NODE, 'script', ...META_TOKEN_GROUPS.map((g) => `options:${g}`)];
+  nodes.set('script', simpleHash(JSON.stringify(scriptMeta ?? null)));
+  addAssets(
+    [scriptMeta?.logo, META_TOKEN_GROUPS.map((group) => pickGroup(globalOptions, group))],
+    metaReads
+  );
+  edges.set(META_OWNER, metaReads);
+
+  return { nodes, edges, order };
+}
+
+// ============================================================================
+// DEPENDENCY GRAPH
+// ============================================================================
+
+/**
+ * Tracks the inputs of the last generation and which tokens are stale
+ */
+export class TokenDependencyGraph {
+  private committed: DependencySnapshot | null = null;
+  /** Tokens generated per owner at the last commit */
+  private tokenCounts = new Map<string, number>();
+  private assetVersions = new Map<string, number>();
+  /** Owners marked stale by invalidation events since the last commit */
+  private staleOwners = new Set<string>();
+  private staleAll = false;
+
+  constructor() {
+    cacheInvalidationService.subscribe('asset', (event) => {
+      this.markAssetsChanged(event.entityIds);
+    });
+    cacheInvalidationService.subscribe('character', (event) => {
+      this.markCharactersChanged(event.entityIds);
+    });
+    cacheInvalidationService.subscribe('global', () => {
+      this.markAllChanged();
+    });
+    cacheInvalidationService.subscribe('project', () => {
+      this.reset();
+    });
+  }
+
+  /**
+   * Current version of an asset (changes when the asset is updated or deleted)
+   */
+  getAssetVersion = (assetId: string): number => this.assetVersions.get(assetId) ?? 0;
+
+  /**
+   * Snapshot the generation inputs using the tracked asset versions
+   */
+  snapshot(
+    characters: Character[],
+    options: Partial<GenerationOptions>,
+    scriptMeta: ScriptMeta | null,
+    characterMetadata?: Map<string, CharacterMetadata>
+  ): DependencySnapshot {
+    return createDependencySnapshot(
+      characters,
+      options,
+      scriptMeta,
+      characterMetadata,
+      this.getAssetVersion
+    );
+  }
+
+  /**
+   * Work out which tokens to re-render for a new snapshot
+   *
+   * @param next - Snapshot of the current inputs
+   * @param currentTokens - Tokens currently shown (checked against the last commit)
+   */
+  plan(next: DependencySnapshot, currentTokens: Token[]): RegenerationPlan {
+    const full = (reason: string): RegenerationPlan => ({
+      full: true,
+      characterKeys: new Set(next.order),
+      removedKeys: new Set(),
+      meta: true,
+      reason,
+    });
+
+    const previous = this.committed;
+    if (!previous) return full('no previous generation');
+    if (this.staleAll) return full('global invalidation');
+    if (next.nodes.get(UNCLASSIFIED_NODE) !== previous.nodes.get(UNCLASSIFIED_NODE)) {
+      return full('untracked option changed');
+    }
+
+    // Tokens may have been replaced outside generation; only trust matching counts
+    const counts = new Map<string, number>();
+    for (const token of currentTokens) {
+      const owner = getTokenOwnerKey(token);
+      if (owner === null) return full('token without owner');
+      counts.set(owner, (counts.get(owner) ?? 0) + 1);
+    }
+    for (const owner of new Set([...counts.keys(), ...this.tokenCounts.keys()])) {
+      if (counts.get(owner) !== this.tokenCounts.get(owner)) {
+        return full('tokens changed since last generation');
+      }
+    }
+
+    const changedNodes = new Set<string>();
+    for (const [node, hash] of next.nodes) {
+      if (previous.nodes.get(node) !== hash) changedNodes.add(node);
+    }
+
+    const affected = new Set<string>();
+    for (const [owner, reads] of next.edges) {
+      if (
+        !previous.edges.has(owner) ||
+        this.staleOwners.has(owner) ||
+        reads.some((node) => changedNodes.has(node))
+      ) {
+        affected.add(owner);
+      }
+    }
+
+    const removedKeys = new Set(previous.order.filter((key) => !next.edges.has(key)));
+    const meta = affected.delete(META_OWNER);
+    return { full: false, characterKeys: affected, removedKeys, meta };
+  }
+
+  /**
+   * Record a finished generation
+   *
+   * @param snapshot - Snapshot the tokens were generated from
+   * @param tokens - All tokens now shown
+   */
+  commit(snapshot: DependencySnapshot, tokens: Token[]): void {
+    this.committed = snapshot;
+    this.tokenCounts.clear();
+    for (const token of tokens) {
+      const owner = getTokenOwnerKey(token);
+      if (owner !== null) {
+        this.tokenCounts.set(owner, (this.tokenCounts.get(owner) ?? 0) + 1);
+      }
+    }
+    this.staleOwners.clear();
+    this.staleAll = false;
+  }
+
+  /**
+   * Mark the tokens of characters using these assets as stale
+   */
+  markAssetsChanged(assetIds: string[]): void {
+    for (const assetId of assetIds) {
+      this.assetVersions.set(assetId, this.getAssetVersion(assetId) + 1);
+    }
+  }
+
+  /**
+   * Mark characters (by UUID) as stale
+   */
+  markCharactersChanged(characterIds: string[]): void {
+    for (const id of characterIds) this.staleOwners.add(id);
+  }
+
+  /**
+   * Mark every token as stale
+   */
+  markAllChanged(): void {
+    this.staleAll = true;
+  }
+
+  /**
+   * Forget the last generation (next run is a full one)
+   */
+  reset(): void {
+    this.committed = null;
+    this.tokenCounts.clear();
+    this.staleOwners.clear();
+    this.staleAll = false;
+    logger.debug('TokenDependencyGraph', 'Dependency graph reset');
+  }
+}
+
+/**
+ * Shared dependency graph for the token generator
+ */
+export const tokenDependencyGraph = new TokenDependencyGraph();
@@ -0,0 +1,81 @@
+/**
+ * Blood on the Clocktower Token Generator
+ * Token Seeds - Per-token seeds for reproducible decoration
+ *
+ * Each token draws its random decoration (accent placement, per-token
+ * texture seeds, background crop and rotation) from its own seed. The seed
+ * is derived from the project's master seed (GenerationOptions.randomSeed),
+ * the character UUID and the token's variant, so regenerating a project or
+ * reprinting one lost token gives the same look.
+ *
+ * A token's look is locked by storing its seed in the character metadata
+ * (CharacterMetadata.tokenSeeds); locked tokens keep their look when the
+ * master seed changes, and rerolling stores a new seed for just that token.
+ */
+
+import type { Character, CharacterMetadata, Token } from '@/ts/types/index.js';
+import { hashSeed } from '@/ts/utils/seededRandom.js';
+import { getCharacterKey } from './tokenDependencies.js';
+
+/** Master seed used when the project has not picked one */
+export const DEFAULT_RANDOM_SEED = 1;
+
+/**
+ * Key of a token among its character's tokens (CharacterMetadata.tokenSeeds)
+ * @param type - Token type
+ * @param variantIndex - 0-based variant index (image and team variants)
+ * @param reminderText - Reminder text (reminder tokens only)
+ * @returns Key such as "character:0" or "reminder:Poisoned:0"
+ */
+export function getTokenSeedKey(
+  type: 'character' | 'reminder',
+  variantIndex = 0,
+  reminderText?: string
+): string {
+  return type === 'reminder'
+    ? `reminder:${reminderText ?? ''}:${variantIndex}`
+    : `character:${variantIndex}`;
+}
+
+/**
+ * Seed key of a generated token
+ * @returns Key, or null for meta tokens (their seeds cannot be locked)
+ */
+export function getTokenSeedKeyForToken(token: Token): string | null {
+  if (token.type !== 'character' && token.type !== 'reminder') return null;
+  return getTokenSeedKey(token.type, token.variantIndex ?? 0, token.reminderText);
+}
+
+/**
+ * Seed for a character or reminder token: the locked seed if there is one,
+ * otherwise derived from the master seed, character and seed key
+ * @param masterSeed - Project master seed (GenerationOptions.randomSeed)
+ * @param character - Character the token belongs to
+ * @param seedKey - Token key from getTokenSeedKey
+ * @param metadata - Character metadata holding locked seeds
+ */
+export function resolveTokenSeed(
+  masterSeed: number | undefined,
+  character: Character,
+  seedKey: string,
+  metadata?: CharacterMetadata
+): number {
+  return (
+    metadata?.tokenSeeds?.[seedKey] ??
+    hashSeed(masterSeed ?? DEFAULT_RANDOM_SEED, getCharacterKey(character), seedKey)
+  );
+}
+
+/**
+ * Seed for a meta token (script name, pandemonium, bootlegger) or a back
+ * @param masterSeed - Project master seed (GenerationOptions.randomSeed)
+ * @param type - Token type
+ * @param key - Distinguishes tokens of the same type (e.g. the Bootlegger rule)
+ */
+export function getMetaTokenSeed(
+  masterSeed: number | undefined,
+  type: string,
+  key: string = ''
+): number {
+  return hashSeed(masterSeed ?? DEFAULT_RANDOM_SEED, '@meta', type, key);
+}
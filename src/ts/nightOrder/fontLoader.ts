@@ -9,10 +9,25 @@
  * - Goudy Old Style: Character names
  * - TradeGothic: Ability text
  * - TradeGothic Bold: Bold reminder tokens
+ *
+ * These fonts only cover Latin text. PDFs for other scripts (Cyrillic, Greek,
+ * Chinese, Japanese, Korean) use one Noto font for every role instead, subset
+ * on embedding. Noto Sans (Latin, Cyrillic, Greek) is bundled in
+ * `fonts/Noto/`. The CJK faces are too large to bundle: they are read from
+ * `fonts/Noto/` when a deployment adds them there, otherwise from the jsDelivr
+ * npm CDN. If the face for a script cannot be loaded, another CJK face and
+ * finally Noto Sans stand in, and the export reports a warning instead of
+ * failing.
+ *
+ * Fonts uploaded in the token font settings replace the bundled ones (see
+ * getFontFamiliesFromOptions) and are embedded through fontkit as well.
  */
 
 import fontkit from '@pdf-lib/fontkit';
 import type { PDFDocument, PDFFont } from 'pdf-lib';
+import type { GenerationOptions } from '@/ts/types/index.js';
+import { getCustomFontBytes, loadCustomFonts } from '@/ts/utils/customFonts.js';
+import { getLocaleFontScript, type LocaleFontScript } from '@/ts/utils/localeFonts.js';
 import { logger } from '@/ts/utils/logger.js';
 
 // ============================================================================
@@ -33,6 +48,12 @@ export interface FontSet {
   abilityBold: PDFFont;
 }
 
+/**
+ * Font family chosen for each role; only uploaded fonts replace the bundled
+ * ones, other families are ignored
+ */
+export type FontFamilies = Partial<Record<keyof FontSet, string>>;
+
 /**
  * Font configuration for loading
  */
@@ -68,6 +89,85 @@ const FONT_CONFIGS: FontConfig[] = [
   },
 ];
 
+/** Bundled Noto Sans: Latin, Cyrillic and Greek (last resort for every script) */
+const NOTO_SANS_PATH = `${FONTS_PATH}Noto/NotoSans-Regular.ttf`;
+
+/** npm CDN serving the Noto CJK faces (Google Fonts builds, OFL) */
+const NOTO_CDN_URL = 'https://cdn.jsdelivr.net/npm/@expo-google-fonts';
+
+type CjkFontScript = 'sc' | 'tc' | 'ja' | 'ko';
+
+/**
+ * Noto CJK faces: file name under `fonts/Noto/` and npm package on the CDN
+ */
+const CJK_FONTS: Record<CjkFontScript, { file: string; cdnPath: string }> = {
+  sc: {
+    file: 'NotoSansSC-Regular.ttf',
+    cdnPath: 'noto-sans-sc@0.4.3/400Regular/NotoSansSC_400Regular.ttf',
+  },
+  tc: {
+    file: 'NotoSansTC-Regular.ttf',
+    cdnPath: 'noto-sans-tc@0.4.3/400Regular/NotoSansTC_400Regular.ttf',
+  },
+  ja: {
+    file: 'NotoSansJP-Regular.ttf',
+    cdnPath: 'noto-sans-jp@0.4.3/400Regular/NotoSansJP_400Regular.ttf',
+  },
+  ko: {
+    file: 'NotoSansKR-Regular.ttf',
+    cdnPath: 'noto-sans-kr@0.4.3/400Regular/NotoSansKR_400Regular.ttf',
+  },
+};
+
+/**
+ * CJK faces to try per script: its own first, then the others (they share
+ * the Han glyphs, in different regional forms)
+ */
+const CJK_FALLBACK_ORDER: Record<CjkFontScript, CjkFontScript[]> = {
+  sc: ['sc', 'tc', 'ja', 'ko'],
+  tc: ['tc', 'sc', 'ja', 'ko'],
+  ja: ['ja', 'sc', 'tc', 'ko'],
+  ko: ['ko', 'sc', 'tc', 'ja'],
+};
+
+/** Script names for warnings */
+const SCRIPT_NAMES: Record<Exclude<LocaleFontScript, 'latin'>, string> = {
+  cyrillic: 'Cyrillic',
+  greek: 'Greek',
+  sc: 'Simplified Chinese',
+  tc: 'Traditional Chinese',
+  ja: 'Japanese',
+  ko: 'Korean',
+};
+
+/**
+ * A font to try for a script
+ */
+interface LocaleFontCandidate {
+  /** Script the font was made for */
+  script: Exclude<LocaleFontScript, 'latin'>;
+  /** Paths to try in order (local copy, then CDN) */
+  paths: string[];
+}
+
+/**
+ * Fonts to try, in order, for text the Latin fonts cannot render
+ */
+function getLocaleFontCandidates(
+  script: Exclude<LocaleFontScript, 'latin'>
+): LocaleFontCandidate[] {
+  if (script === 'cyrillic' || script === 'greek') {
+    return [{ script, paths: [NOTO_SANS_PATH] }];
+  }
+  return CJK_FALLBACK_ORDER[script].map((cjkScript) => ({
+    script: cjkScript,
+    paths: [
+      `${FONTS_PATH}Noto/${CJK_FONTS[cjkScript].file}`,
+      `${NOTO_CDN_URL}/${CJK_FONTS[cjkScript].cdnPath}`,
+    ],
+  }));
+}
+
 // ============================================================================
 // Caches
 // ============================================================================
@@ -144,6 +244,151 @@ function registerFontkit(pdfDoc: PDFDocument): void {
   }
 }
 
+/**
+ * Embed the first font that loads from a list of paths
+ *
+ * @param pdfDoc - PDF document to embed the font into
+ * @param paths - Font paths to try in order
+ * @returns Embedded font, or undefined if none loaded
+ */
+async function embedFirstAvailableFont(
+  pdfDoc: PDFDocument,
+  paths: string[]
+): Promise<PDFFont | undefined> {
+  for (const path of paths) {
+    try {
+      const bytes = await fetchFontBytes(path);
+      // Subset: CJK fonts hold tens of thousands of glyphs
+      return await pdfDoc.embedFont(bytes, { subset: true });
+    } catch (error) {
+      logger.debug('FontLoader', `Font not available at ${path}`, error);
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Embed the font for a non-Latin script and use it for every role
+ *
+ * Falls back to another face for the script family, then to the bundled
+ * Noto Sans, reporting the substitution through onWarning.
+ *
+ * @param pdfDoc - PDF document to embed the font into
+ * @param script - Writing system of the text
+ * @param onWarning - Called with a message when a fallback font is used
+ * @returns FontSet using the script font throughout
+ * @throws Error if not even the bundled Noto Sans can be embedded
+ */
+async function loadLocaleFonts(
+  pdfDoc: PDFDocument,
+  script: Exclude<LocaleFontScript, 'latin'>,
+  onWarning?: (message: string) => void
+): Promise<FontSet> {
+  registerFontkit(pdfDoc);
+
+  let embeddedMap = embeddedFontsCache.get(pdfDoc);
+  if (!embeddedMap) {
+    embeddedMap = new Map();
+    embeddedFontsCache.set(pdfDoc, embeddedMap);
+  }
+
+  const cacheKey = `locale:${script}`;
+  let font = embeddedMap.get(cacheKey);
+  if (!font) {
+    const scriptName = SCRIPT_NAMES[script];
+
+    for (const candidate of getLocaleFontCandidates(script)) {
+      font = await embedFirstAvailableFont(pdfDoc, candidate.paths);
+      if (!font) continue;
+
+      if (candidate.script !== script) {
+        onWarning?.(
+          `The ${scriptName} font could not be loaded; the PDF uses the ${SCRIPT_NAMES[candidate.script]} font, so some characters may use regional forms.`
+        );
+      }
+      break;
+    }
+
+    if (!font) {
+      logger.warn('FontLoader', `No ${script} font could be loaded, using Noto Sans`);
+      font = await embedFirstAvailableFont(pdfDoc, [NOTO_SANS_PATH]);
+      if (!font) {
+        throw new Error(`Failed to load font ${NOTO_SANS_PATH}`);
+      }
+      onWarning?.(
+        `The ${scriptName} font could not be loaded, so ${scriptName} characters are missing from the PDF. Check your connection or add ${CJK_FONTS[script as CjkFontScript]?.file ?? 'the font'} to fonts/Noto/.`
+      );
+    }
+
+    embeddedMap.set(cacheKey, font);
+    logger.debug('FontLoader', `Embedded ${script} font`);
+  }
+
+  return { title: font, name: font, ability: font, abilityBold: font };
+}
+
+/**
+ * Replace fonts with uploaded fonts where one was chosen for the role
+ *
+ * @param pdfDoc - PDF document to embed the fonts into
+ * @param fonts - Bundled fonts
+ * @param families - Font family chosen for each role
+ * @returns FontSet with uploaded fonts swapped in
+ */
+async function applyCustomFonts(
+  pdfDoc: PDFDocument,
+  fonts: FontSet,
+  families: FontFamilies
+): Promise<FontSet> {
+  await loadCustomFonts();
+
+  const embeddedMap = embeddedFontsCache.get(pdfDoc) ?? new Map<string, PDFFont>();
+  embeddedFontsCache.set(pdfDoc, embeddedMap);
+  const result = { ...fonts };
+
+  for (const key of Object.keys(families) as (keyof FontSet)[]) {
+    const family = families[key];
+    const cacheKey = `custom:${family}`;
+    let font = embeddedMap.get(cacheKey);
+
+    if (!font) {
+      const bytes = await getCustomFontBytes(family);
+      if (!bytes) continue; // Bundled or unknown family
+
+      try {
+        font = await pdfDoc.embedFont(bytes, { subset: true });
+      } catch (error) {
+        logger.warn('FontLoader', `Failed to embed uploaded font ${family}, using bundled`, error);
+        continue;
+      }
+      embeddedMap.set(cacheKey, font);
+      logger.debug('FontLoader', `Embedded uploaded font: ${family}`);
+    }
+
+    result[key] = font;
+  }
+
+  return result;
+}
+
+/**
+ * Font families for the PDF roles from the token font options: titles and
+ * character names follow the name font, ability text the ability font
+ *
+ * @param options - Generation options
+ * @returns Font family for each role
+ */
+export function getFontFamiliesFromOptions(
+  options: Pick<GenerationOptions, 'characterNameFont' | 'abilityTextFont'>
+): FontFamilies {
+  return {
+    title: options.characterNameFont,
+    name: options.characterNameFont,
+    ability: options.abilityTextFont,
+    abilityBold: options.abilityTextFont,
+  };
+}
+
 /**
  * Load and embed all custom fonts into a PDF document
  *
@@ -152,16 +397,41 @@ function registerFontkit(pdfDoc: PDFDocument): void {
  * 2. Embedded fonts - cached per PDF document
  *
  * @param pdfDoc - PDF document to embed fonts into
+ * @param locale - Locale of the text; non-Latin scripts use a Noto font instead
+ * @param families - Uploaded fonts to use instead of the bundled ones (Latin text only)
+ * @param onWarning - Called with a message when a fallback font stands in for a script font
  * @returns FontSet with all embedded fonts
  * @throws Error if any font fails to load (will log warning and use fallback)
  */
-export async function loadFonts(pdfDoc: PDFDocument): Promise<FontSet> {
+export async function loadFonts(
+  pdfDoc: PDFDocument,
+  locale?: string,
+  families?: FontFamilies,
+  onWarning?: (message: string) => void
+): Promise<FontSet> {
+  const script = getLocaleFontScript(locale);
+  if (script !== 'latin') {
+    return loadLocaleFonts(pdfDoc, script, onWarning);
+  }
+
+  const fonts = await loadBundledFonts(pdfDoc);
+  return families ? applyCustomFonts(pdfDoc, fonts, families) : fonts;
+}
+
+/**
+ * Load and embed the bundled Latin fonts
+ *
+ * @param pdfDoc - PDF document to embed fonts into
+ * @returns FontSet with all bundled fonts
+ * @throws Error if any font fails to load
+ */
+async function loadBundledFonts(pdfDoc: PDFDocument): Promise<FontSet> {
   // Register fontkit for OTF support
   registerFontkit(pdfDoc);
 
   // Check if fonts are already embedded in this document
   let embeddedMap = embeddedFontsCache.get(pdfDoc);
-  if (embeddedMap?.size === FONT_CONFIGS.length) {
+  if (embeddedMap && FONT_CONFIGS.every((config) => embeddedMap?.has(config.key))) {
     logger.debug('FontLoader', 'Using cached embedded fonts');
     return {
       title: getRequiredFont(embeddedMap, 'title'),
@@ -5,10 +5,11 @@
  */
 
 // Font loading utilities
-export type { FontSet } from './fontLoader.js';
+export type { FontFamilies, FontSet } from './fontLoader.js';
 export {
   clearFontCache,
   getCachedFontCount,
+  getFontFamiliesFromOptions,
   loadFonts,
   preloadFonts,
 } from './fontLoader.js';
@@ -87,6 +88,21 @@ export {
   preRenderNightOrder,
   shouldShowEntry,
 } from './nightOrderUtils.js';
+// Player Script PDF Export using pdf-lib
+export type {
+  PlayerScriptExportPhase,
+  PlayerScriptPdfOptions,
+  PlayerScriptProgressCallback,
+  ScriptTeam,
+  TeamSection,
+} from './playerScriptPdfLib.js';
+export {
+  downloadPlayerScriptPdf,
+  generatePlayerScriptPdf,
+  getPlayerScriptPdfBlob,
+  groupCharactersByTeam,
+  TEAM_SECTION_TITLES,
+} from './playerScriptPdfLib.js';
 // Special entries
 export {
   DAWN_ENTRY,
@@ -7,22 +7,29 @@
  * Features:
  * - Custom font embedding (Dumbledor, Goudy, TradeGothic)
  * - Character icon rendering
+ * - Jinx sheet with both character icons per pair
  * - Dynamic scaling to fit all entries on one page
  * - Progress reporting
  * - Cancellation support
  * - Parallel page rendering
  */
 
-import { PDFDocument, type PDFImage, type PDFPage, rgb } from 'pdf-lib';
-import type { ScriptMeta } from '@/ts/types/index.js';
+import { PDFDocument, type PDFFont, type PDFImage, type PDFPage, rgb } from 'pdf-lib';
+import { getCharacterImageUrl } from '@/ts/data/characterUtils.js';
+import type { JinxPair } from '@/ts/data/jinxUtils.js';
+import type { Character, ScriptMeta } from '@/ts/types/index.js';
 import { resolveCharacterImageUrl } from '@/ts/utils/characterImageResolver.js';
 import { globalImageCache } from '@/ts/utils/imageCache.js';
 import { logger } from '@/ts/utils/logger.js';
-import { type FontSet, loadFonts } from './fontLoader.js';
+import { getWrapUnits, joinWrapUnit } from '@/ts/utils/stringUtils.js';
+import { type FontFamilies, type FontSet, loadFonts } from './fontLoader.js';
 import {
   ABILITY_LINE_HEIGHT_RATIO,
+  BASELINE_ABILITY_FONT_SIZE,
   BASELINE_ENTRY_PADDING,
+  BASELINE_ICON_SIZE,
   BASELINE_ICON_TEXT_GAP,
+  BASELINE_NAME_FONT_SIZE,
   calculateScaleConfig,
   inchesToPoints,
   MARGIN,
@@ -47,6 +54,7 @@ export type ExportPhase =
   | 'loading-images'
   | 'rendering-first'
   | 'rendering-other'
+  | 'rendering-jinxes'
   | 'saving';
 
 /**
@@ -64,6 +72,14 @@ export interface NightOrderPdfOptions {
   includeOtherNight?: boolean;
   /** Show script name in header */
   showScriptName?: boolean;
+  /** Jinx pairs to print on a trailing Jinxes sheet (omitted when empty) */
+  jinxes?: JinxPair[];
+  /** Locale of the character text; non-Latin scripts embed a matching font */
+  locale?: string;
+  /** Uploaded fonts to use for each role (see getFontFamiliesFromOptions) */
+  fonts?: FontFamilies;
+  /** Called with a message when a fallback font stands in for the locale's font */
+  onWarning?: (message: string) => void;
   /** Progress callback */
   onProgress?: ProgressCallback;
   /** Abort signal for cancellation */
@@ -83,6 +99,7 @@ const COLORS = {
   PARCHMENT_BG: rgb(244 / 255, 237 / 255, 217 / 255),
   FIRST_NIGHT_TITLE: rgb(26 / 255, 58 / 255, 90 / 255),
   OTHER_NIGHT_TITLE: rgb(74 / 255, 42 / 255, 106 / 255),
+  JINX_TITLE: rgb(90 / 255, 26 / 255, 26 / 255),
   TEXT_DARK: rgb(26 / 255, 26 / 255, 26 / 255),
   TEXT_SECONDARY: rgb(90 / 255, 80 / 255, 64 / 255),
   SEPARATOR: rgb(200 / 255, 195 / 255, 180 / 255),
@@ -90,8 +107,17 @@ const COLORS = {
   SCRIPT_NAME: rgb(42 / 255, 90 / 255, 42 / 255),
 } as const;
 
-/** Team colors */
-const TEAM_COLORS: Record<string, ReturnType<typeof rgb>> = {
+/** Sheet titles and title colors */
+type SheetType = 'first' | 'other' | 'jinxes';
+
+const SHEET_TITLES: Record<SheetType, { title: string; color: ReturnType<typeof rgb> }> = {
+  first: { title: 'First Night', color: COLORS.FIRST_NIGHT_TITLE },
+  other: { title: 'Other Nights', color: COLORS.OTHER_NIGHT_TITLE },
+  jinxes: { title: 'Jinxes', color: COLORS.JINX_TITLE },
+};
+
+/** Team colors (shared with the player script generator) */
+export const TEAM_COLORS: Record<string, ReturnType<typeof rgb>> = {
   townsfolk: rgb(26 / 255, 95 / 255, 42 / 255),
   outsider: rgb(26 / 255, 63 / 255, 95 / 255),
   minion: rgb(95 / 255, 26 / 255, 63 / 255),
@@ -329,7 +355,7 @@ async function embedImageInPdf(
  * Performance: ~6x faster than sequential loading due to parallel network requests
  * Caching: Bytes are cached, so repeat exports are near-instant
  */
-async function loadCharacterImages(
+export async function loadCharacterImages(
   pdfDoc: PDFDocument,
   entries: NightOrderEntry[],
   onProgress?: (loaded: number, total: number) => void,
@@ -488,7 +514,7 @@ function drawBottomBorder(page: PDFPage): void {
 function drawHeader(
   page: PDFPage,
   fonts: FontSet,
-  nightType: 'first' | 'other',
+  sheetType: SheetType,
   scriptMeta: ScriptMeta | null,
   scaleConfig: ScaleConfig,
   showScriptName: boolean
@@ -496,8 +522,7 @@ function drawHeader(
   const margin = inchesToPoints(MARGIN_SIDE);
   const topY = PAGE_HEIGHT_PT - inchesToPoints(MARGIN) - inchesToPoints(0.2);
 
-  const title = nightType === 'first' ? 'First Night' : 'Other Nights';
-  const titleColor = nightType === 'first' ? COLORS.FIRST_NIGHT_TITLE : COLORS.OTHER_NIGHT_TITLE;
+  const { title, color: titleColor } = SHEET_TITLES[sheetType];
 
   // Scale title font (baseline is ~28pt at scale 1.0)
   const titleFontSize = Math.round(28 * scaleConfig.scaleFactor);
@@ -542,7 +567,7 @@ function drawHeader(
  * Calculate image dimensions to fit within a max size while preserving aspect ratio
  * Matches CSS object-fit: contain behavior (WYSIWYG)
  */
-function calculateContainedImageSize(
+export function calculateContainedImageSize(
   image: PDFImage,
   maxSize: number
 ): { width: number; height: number; xOffset: number; yOffset: number } {
@@ -646,11 +671,12 @@ function drawEntry(
     } else if (segment.text) {
       // Text segment (bold or normal)
       const font = segment.isBold ? fonts.abilityBold : fonts.ability;
-      const words = segment.text.split(' ');
+      const units = getWrapUnits(segment.text);
 
-      for (const word of words) {
-        if (!word) continue;
-        const wordText = `${word} `;
+      for (let i = 0; i < units.length; i++) {
+        if (!units[i].text) continue;
+        // CJK units are joined without spaces
+        const wordText = units[i + 1]?.spaced === false ? units[i].text : `${units[i].text} `;
         const wordWidth = font.widthOfTextAtSize(wordText, abilityFontSize);
 
         // Word wrap check
@@ -678,6 +704,169 @@ function drawEntry(
   return currentY - inchesToPoints(scaleConfig.entrySpacing) - entryPadding * 2;
 }
 
+/**
+ * Draw plain text wrapped to a maximum width
+ * @returns Y position of the last drawn line
+ */
+function drawWrappedText(
+  page: PDFPage,
+  text: string,
+  font: PDFFont,
+  fontSize: number,
+  x: number,
+  y: number,
+  maxWidth: number
+): number {
+  const lineHeight = fontSize * ABILITY_LINE_HEIGHT_RATIO;
+  let currentY = y;
+  let line = '';
+
+  for (const unit of getWrapUnits(text.replace(/\s+/g, ' ').trim())) {
+    if (!unit.text) continue;
+    const candidate = joinWrapUnit(line, unit);
+    if (line && font.widthOfTextAtSize(candidate, fontSize) > maxWidth) {
+      page.drawText(line, { x, y: currentY, font, size: fontSize, color: COLORS.TEXT_DARK });
+      currentY -= lineHeight;
+      line = unit.text;
+    } else {
+      line = candidate;
+    }
+  }
+
+  if (line) {
+    page.drawText(line, { x, y: currentY, font, size: fontSize, color: COLORS.TEXT_DARK });
+  }
+
+  return currentY;
+}
+
+/**
+ * Draw a single jinx row (both icons + "A & B" + jinx text)
+ */
+function drawJinxEntry(
+  page: PDFPage,
+  fonts: FontSet,
+  pair: JinxPair,
+  imageMap: Map<string, PDFImage>,
+  yPos: number
+): number {
+  const margin = inchesToPoints(MARGIN_SIDE);
+  const contentWidth = PAGE_WIDTH_PT - margin * 2;
+  const iconSize = inchesToPoints(BASELINE_ICON_SIZE);
+  const iconTextGap = inchesToPoints(BASELINE_ICON_TEXT_GAP);
+  const textStartX = margin + iconSize * 2 + iconTextGap;
+
+  // Both icons side by side
+  [pair.character, pair.target].forEach((character, index) => {
+    const image = imageMap.get(character.id);
+    if (!image) return;
+    const imgDims = calculateContainedImageSize(image, iconSize);
+    page.drawImage(image, {
+      x: margin + iconSize * index + imgDims.xOffset,
+      y: yPos - iconSize + imgDims.yOffset,
+      width: imgDims.width,
+      height: imgDims.height,
+    });
+  });
+
+  // Pair names in team colors
+  const nameFontSize = BASELINE_NAME_FONT_SIZE;
+  let nameX = textStartX;
+  const nameParts: { text: string; color: ReturnType<typeof rgb> }[] = [
+    { text: pair.character.name, color: TEAM_COLORS[pair.character.team] || TEAM_COLORS.special },
+    { text: ' & ', color: COLORS.TEXT_SECONDARY },
+    { text: pair.target.name, color: TEAM_COLORS[pair.target.team] || TEAM_COLORS.special },
+  ];
+  for (const part of nameParts) {
+    page.drawText(part.text, {
+      x: nameX,
+      y: yPos,
+      font: fonts.name,
+      size: nameFontSize,
+      color: part.color,
+    });
+    nameX += fonts.name.widthOfTextAtSize(part.text, nameFontSize);
+  }
+
+  // Jinx rules text
+  const lastLineY = drawWrappedText(
+    page,
+    pair.reason,
+    fonts.ability,
+    BASELINE_ABILITY_FONT_SIZE,
+    textStartX,
+    yPos - inchesToPoints(0.16),
+    contentWidth - iconSize * 2 - iconTextGap
+  );
+
+  const entryPadding = inchesToPoints(BASELINE_ENTRY_PADDING);
+  const rowBottom = Math.min(lastLineY, yPos - iconSize);
+  return rowBottom - inchesToPoints(0.08) - entryPadding * 2;
+}
+
+/**
+ * Estimate the height of a jinx row before drawing (for page breaks)
+ */
+function estimateJinxEntryHeight(fonts: FontSet, pair: JinxPair): number {
+  const margin = inchesToPoints(MARGIN_SIDE);
+  const iconSize = inchesToPoints(BASELINE_ICON_SIZE);
+  const maxWidth =
+    PAGE_WIDTH_PT - margin * 2 - iconSize * 2 - inchesToPoints(BASELINE_ICON_TEXT_GAP);
+  const textWidth = fonts.ability.widthOfTextAtSize(pair.reason, BASELINE_ABILITY_FONT_SIZE);
+  const lines = Math.max(1, Math.ceil(textWidth / maxWidth));
+  const textHeight =
+    inchesToPoints(0.16) + lines * BASELINE_ABILITY_FONT_SIZE * ABILITY_LINE_HEIGHT_RATIO;
+  return Math.max(textHeight, iconSize) + inchesToPoints(0.08 + BASELINE_ENTRY_PADDING * 2);
+}
+
+/**
+ * Render the Jinxes sheet, continuing onto extra pages when needed
+ */
+function renderJinxSheets(
+  pdfDoc: PDFDocument,
+  fonts: FontSet,
+  jinxes: JinxPair[],
+  imageMap: Map<string, PDFImage>,
+  scriptMeta: ScriptMeta | null,
+  showScriptName: boolean
+): void {
+  const scaleConfig = calculateScaleConfig([]);
+  const bottomLimit = inchesToPoints(0.6);
+
+  const startPage = (): { page: PDFPage; yPos: number } => {
+    const page = pdfDoc.addPage([PAGE_WIDTH_PT, PAGE_HEIGHT_PT]);
+    drawBackground(page);
+    drawBottomBorder(page);
+    const yPos = drawHeader(page, fonts, 'jinxes', scriptMeta, scaleConfig, showScriptName);
+    return { page, yPos };
+  };
+
+  let { page, yPos } = startPage();
+  for (const pair of jinxes) {
+    if (yPos - estimateJinxEntryHeight(fonts, pair) < bottomLimit) {
+      ({ page, yPos } = startPage());
+    }
+    yPos = drawJinxEntry(page, fonts, pair, imageMap, yPos);
+  }
+}
+
+/**
+ * Build a minimal entry for loading a jinx character's icon
+ */
+export function characterToImageEntry(character: Character): NightOrderEntry {
+  return {
+    id: character.id,
+    type: 'character',
+    name: character.name,
+    ability: '',
+    image: getCharacterImageUrl(character.image),
+    team: character.team,
+    order: 0,
+    nightType: 'both',
+    character,
+  };
+}
+
 /**
  * Draw footer with credits
  */
@@ -764,6 +953,10 @@ export async function generateNightOrderPdf(
     includeFirstNight = true,
     includeOtherNight = true,
     showScriptName = true,
+    jinxes = [],
+    locale,
+    fonts: fontFamilies,
+    onWarning,
     onProgress,
     signal,
   } = options;
@@ -784,7 +977,7 @@ export async function generateNightOrderPdf(
 
   // Phase: Loading fonts
   onProgress?.('loading-fonts', 0, 1);
-  const fonts = await loadFonts(pdfDoc);
+  const fonts = await loadFonts(pdfDoc, locale, fontFamilies, onWarning);
   onProgress?.('loading-fonts', 1, 1);
 
   if (signal?.aborted) {
@@ -795,6 +988,9 @@ export async function generateNightOrderPdf(
   const allEntries: NightOrderEntry[] = [];
   if (includeFirstNight) allEntries.push(...firstNight.entries);
   if (includeOtherNight) allEntries.push(...otherNight.entries);
+  for (const pair of jinxes) {
+    allEntries.push(characterToImageEntry(pair.character), characterToImageEntry(pair.target));
+  }
 
   // Deduplicate entries by ID
   const uniqueEntries = Array.from(new Map(allEntries.map((e) => [e.id, e])).values());
@@ -860,6 +1056,12 @@ export async function generateNightOrderPdf(
     throw new DOMException('Export cancelled', 'AbortError');
   }
 
+  if (jinxes.length > 0) {
+    onProgress?.('rendering-jinxes', 0, 1);
+    renderJinxSheets(pdfDoc, fonts, jinxes, imageMap, scriptMeta, showScriptName);
+    onProgress?.('rendering-jinxes', 1, 1);
+  }
+
   // Phase: Saving
   onProgress?.('saving', 0, 1);
   const pdfBytes = await pdfDoc.save();
@@ -0,0 +1,667 @@
+/**
+ * Player Script PDF Generator using pdf-lib
+ *
+ * Offline replacement for the official Script Tool: renders the handout
+ * players read during a game. Shares fonts and image loading with the
+ * night order generator so both sheets look alike and repeat exports
+ * reuse the same image cache.
+ *
+ * Features:
+ * - Script logo, title and author header
+ * - Characters grouped by team in SAO order, two columns per team
+ * - Character icons and ability text
+ * - Jinx section for pairs that are both on the script
+ * - Automatic page breaks (team headings are never orphaned)
+ * - Progress reporting and cancellation support
+ */
+
+import { PDFDocument, type PDFFont, type PDFImage, type PDFPage, rgb } from 'pdf-lib';
+import { getScriptJinxes, type JinxPair } from '@/ts/data/jinxUtils.js';
+import type { Character, ScriptMeta, Team } from '@/ts/types/index.js';
+import { logger } from '@/ts/utils/logger.js';
+import { sortScriptBySAO } from '@/ts/utils/scriptSorting.js';
+import { getWrapUnits, joinWrapUnit } from '@/ts/utils/stringUtils.js';
+import { type FontFamilies, type FontSet, loadFonts } from './fontLoader.js';
+import {
+  ABILITY_LINE_HEIGHT_RATIO,
+  inchesToPoints,
+  MARGIN,
+  PAGE_HEIGHT,
+  PAGE_WIDTH,
+} from './nightOrderLayout.js';
+import {
+  calculateContainedImageSize,
+  characterToImageEntry,
+  loadCharacterImages,
+  TEAM_COLORS,
+} from './nightOrderPdfLib.js';
+import type { NightOrderEntry } from './nightOrderTypes.js';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * Progress phases for player script export
+ */
+export type PlayerScriptExportPhase =
+  | 'initializing'
+  | 'loading-fonts'
+  | 'loading-images'
+  | 'rendering'
+  | 'saving';
+
+/**
+ * Progress callback function
+ */
+export type PlayerScriptProgressCallback = (
+  phase: PlayerScriptExportPhase,
+  progress: number,
+  total: number
+) => void;
+
+/**
+ * Export options for player script generation
+ */
+export interface PlayerScriptPdfOptions {
+  /** Include the jinx section (default: true) */
+  includeJinxes?: boolean;
+  /** Include the script logo in the header when available (default: true) */
+  includeLogo?: boolean;
+  /** Locale of the character text; non-Latin scripts embed a matching font */
+  locale?: string;
+  /** Uploaded fonts to use for each role (see getFontFamiliesFromOptions) */
+  fonts?: FontFamilies;
+  /** Called with a message when a fallback font stands in for the locale's font */
+  onWarning?: (message: string) => void;
+  /** Progress callback */
+  onProgress?: PlayerScriptProgressCallback;
+  /** Abort signal for cancellation */
+  signal?: AbortSignal;
+}
+
+/**
+ * Teams printed as sections on the player script
+ */
+export type ScriptTeam = Exclude<Team, 'meta'>;
+
+/**
+ * Characters of one team, in SAO order
+ */
+export interface TeamSection {
+  team: ScriptTeam;
+  characters: Character[];
+}
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+/** Page dimensions in points (72 points = 1 inch) */
+const PAGE_WIDTH_PT = inchesToPoints(PAGE_WIDTH);
+const PAGE_HEIGHT_PT = inchesToPoints(PAGE_HEIGHT);
+
+/** Player scripts need wider margins than the night sheets (home printers clip edges) */
+const MARGIN_SIDE_PT = inchesToPoints(0.4);
+const MARGIN_BOTTOM_PT = inchesToPoints(0.45);
+const CONTENT_WIDTH_PT = PAGE_WIDTH_PT - MARGIN_SIDE_PT * 2;
+
+/** Two character columns per team section */
+const COLUMN_GAP_PT = inchesToPoints(0.25);
+const COLUMN_WIDTH_PT = (CONTENT_WIDTH_PT - COLUMN_GAP_PT) / 2;
+
+/** Entry dimensions */
+const ICON_SIZE_PT = inchesToPoints(0.5);
+const ICON_TEXT_GAP_PT = inchesToPoints(0.08);
+const ENTRY_SPACING_PT = inchesToPoints(0.08);
+const NAME_FONT_SIZE = 11;
+const ABILITY_FONT_SIZE = 8.5;
+
+/** Header dimensions */
+const LOGO_MAX_SIZE_PT = inchesToPoints(0.9);
+const TITLE_FONT_SIZE = 26;
+const CONTINUED_TITLE_FONT_SIZE = 16;
+const AUTHOR_FONT_SIZE = 10;
+const SECTION_FONT_SIZE = 15;
+
+/** ID used for the logo in the image map (cannot collide with a character ID) */
+const LOGO_IMAGE_ID = '_meta';
+
+/** Colors */
+const COLORS = {
+  PARCHMENT_BG: rgb(244 / 255, 237 / 255, 217 / 255),
+  TITLE: rgb(26 / 255, 26 / 255, 26 / 255),
+  JINX_TITLE: rgb(90 / 255, 26 / 255, 26 / 255),
+  TEXT_DARK: rgb(26 / 255, 26 / 255, 26 / 255),
+  TEXT_SECONDARY: rgb(90 / 255, 80 / 255, 64 / 255),
+  SEPARATOR: rgb(200 / 255, 195 / 255, 180 / 255),
+} as const;
+
+/** Team section headings, in SAO team order */
+export const TEAM_SECTION_TITLES: Record<ScriptTeam, string> = {
+  townsfolk: 'Townsfolk',
+  outsider: 'Outsiders',
+  minion: 'Minions',
+  demon: 'Demons',
+  traveller: 'Travellers',
+  fabled: 'Fabled',
+  loric: 'Loric',
+};
+
+// ============================================================================
+// Layout Helpers
+// ============================================================================
+
+/**
+ * Split text into lines that fit within a maximum width
+ */
+function wrapText(text: string, font: PDFFont, fontSize: number, maxWidth: number): string[] {
+  const lines: string[] = [];
+  let line = '';
+
+  for (const unit of getWrapUnits(text.replace(/\s+/g, ' ').trim())) {
+    if (!unit.text) continue;
+    const candidate = joinWrapUnit(line, unit);
+    if (line && font.widthOfTextAtSize(candidate, fontSize) > maxWidth) {
+      lines.push(line);
+      line = unit.text;
+    } else {
+      line = candidate;
+    }
+  }
+
+  if (line) {
+    lines.push(line);
+  }
+
+  return lines;
+}
+
+/**
+ * Group characters by team, sorting each team by SAO.
+ * Teams without characters are omitted. Also drives the on-screen preview.
+ */
+export function groupCharactersByTeam(characters: Character[]): TeamSection[] {
+  const sorted = sortScriptBySAO(characters) as Character[];
+  const sections: TeamSection[] = [];
+
+  for (const team of Object.keys(TEAM_SECTION_TITLES) as ScriptTeam[]) {
+    const teamCharacters = sorted.filter((c) => c.team === team);
+    if (teamCharacters.length > 0) {
+      sections.push({ team, characters: teamCharacters });
+    }
+  }
+
+  return sections;
+}
+
+/**
+ * Height of a single character entry (icon vs. name + wrapped ability)
+ */
+function measureCharacterEntry(fonts: FontSet, character: Character): number {
+  const textWidth = COLUMN_WIDTH_PT - ICON_SIZE_PT - ICON_TEXT_GAP_PT;
+  const lines = wrapText(character.ability ?? '', fonts.ability, ABILITY_FONT_SIZE, textWidth);
+  const textHeight =
+    NAME_FONT_SIZE * 1.2 + lines.length * ABILITY_FONT_SIZE * ABILITY_LINE_HEIGHT_RATIO;
+  return Math.max(ICON_SIZE_PT, textHeight) + ENTRY_SPACING_PT;
+}
+
+/**
+ * Height of a jinx row (two icons vs. names + wrapped reason)
+ */
+function measureJinxEntry(fonts: FontSet, pair: JinxPair): number {
+  const textWidth = CONTENT_WIDTH_PT - ICON_SIZE_PT * 2 - ICON_TEXT_GAP_PT;
+  const lines = wrapText(pair.reason, fonts.ability, ABILITY_FONT_SIZE, textWidth);
+  const textHeight =
+    NAME_FONT_SIZE * 1.2 + lines.length * ABILITY_FONT_SIZE * ABILITY_LINE_HEIGHT_RATIO;
+  return Math.max(ICON_SIZE_PT, textHeight) + ENTRY_SPACING_PT;
+}
+
+/**
+ * Height of a section heading including its underline
+ */
+function measureSectionHeading(): number {
+  return SECTION_FONT_SIZE + inchesToPoints(0.2);
+}
+
+// ============================================================================
+// Page Rendering
+// ============================================================================
+
+/**
+ * Draw parchment background
+ */
+function drawBackground(page: PDFPage): void {
+  page.drawRectangle({
+    x: 0,
+    y: 0,
+    width: PAGE_WIDTH_PT,
+    height: PAGE_HEIGHT_PT,
+    color: COLORS.PARCHMENT_BG,
+  });
+}
+
+/**
+ * Draw the first-page header: logo, script title and author
+ * @returns Y position where content starts
+ */
+function drawScriptHeader(
+  page: PDFPage,
+  fonts: FontSet,
+  scriptMeta: ScriptMeta | null,
+  logo: PDFImage | undefined
+): number {
+  const topY = PAGE_HEIGHT_PT - inchesToPoints(MARGIN) - inchesToPoints(0.15);
+  let textX = MARGIN_SIDE_PT;
+  let headerBottom = topY - TITLE_FONT_SIZE;
+
+  if (logo) {
+    const dims = calculateContainedImageSize(logo, LOGO_MAX_SIZE_PT);
+    page.drawImage(logo, {
+      x: MARGIN_SIDE_PT + dims.xOffset,
+      y: topY - LOGO_MAX_SIZE_PT + dims.yOffset,
+      width: dims.width,
+      height: dims.height,
+    });
+    textX += LOGO_MAX_SIZE_PT + inchesToPoints(0.2);
+    headerBottom = Math.min(headerBottom, topY - LOGO_MAX_SIZE_PT);
+  }
+
+  const title = scriptMeta?.name || 'Custom Script';
+  page.drawText(title, {
+    x: textX,
+    y: topY - TITLE_FONT_SIZE,
+    font: fonts.title,
+    size: TITLE_FONT_SIZE,
+    color: COLORS.TITLE,
+  });
+
+  if (scriptMeta?.author) {
+    const authorY = topY - TITLE_FONT_SIZE - AUTHOR_FONT_SIZE * 1.8;
+    page.drawText(`by ${scriptMeta.author}`, {
+      x: textX,
+      y: authorY,
+      font: fonts.name,
+      size: AUTHOR_FONT_SIZE,
+      color: COLORS.TEXT_SECONDARY,
+    });
+    headerBottom = Math.min(headerBottom, authorY);
+  }
+
+  const lineY = headerBottom - inchesToPoints(0.12);
+  page.drawLine({
+    start: { x: MARGIN_SIDE_PT, y: lineY },
+    end: { x: PAGE_WIDTH_PT - MARGIN_SIDE_PT, y: lineY },
+    thickness: 1.5,
+    color: COLORS.TITLE,
+  });
+
+  return lineY - inchesToPoints(0.2);
+}
+
+/**
+ * Draw the compact header used on continuation pages
+ * @returns Y position where content starts
+ */
+function drawContinuationHeader(
+  page: PDFPage,
+  fonts: FontSet,
+  scriptMeta: ScriptMeta | null
+): number {
+  const topY = PAGE_HEIGHT_PT - inchesToPoints(MARGIN) - CONTINUED_TITLE_FONT_SIZE;
+  const title = scriptMeta?.name || 'Custom Script';
+
+  page.drawText(title, {
+    x: MARGIN_SIDE_PT,
+    y: topY,
+    font: fonts.title,
+    size: CONTINUED_TITLE_FONT_SIZE,
+    color: COLORS.TEXT_SECONDARY,
+  });
+
+  return topY - inchesToPoints(0.3);
+}
+
+/**
+ * Draw a section heading (team name or "Jinxes") with an underline
+ * @returns Y position below the heading
+ */
+function drawSectionHeading(
+  page: PDFPage,
+  fonts: FontSet,
+  text: string,
+  color: ReturnType<typeof rgb>,
+  yPos: number
+): number {
+  const baseline = yPos - SECTION_FONT_SIZE;
+  page.drawText(text, {
+    x: MARGIN_SIDE_PT,
+    y: baseline,
+    font: fonts.title,
+    size: SECTION_FONT_SIZE,
+    color,
+  });
+
+  const lineY = baseline - inchesToPoints(0.06);
+  page.drawLine({
+    start: { x: MARGIN_SIDE_PT, y: lineY },
+    end: { x: PAGE_WIDTH_PT - MARGIN_SIDE_PT, y: lineY },
+    thickness: 0.75,
+    color: COLORS.SEPARATOR,
+  });
+
+  return yPos - measureSectionHeading();
+}
+
+/**
+ * Draw wrapped lines of ability text starting at a baseline
+ */
+function drawLines(page: PDFPage, lines: string[], font: PDFFont, x: number, y: number): void {
+  const lineHeight = ABILITY_FONT_SIZE * ABILITY_LINE_HEIGHT_RATIO;
+  lines.forEach((line, index) => {
+    page.drawText(line, {
+      x,
+      y: y - index * lineHeight,
+      font,
+      size: ABILITY_FONT_SIZE,
+      color: COLORS.TEXT_DARK,
+    });
+  });
+}
+
+/**
+ * Draw an icon at the top-left of an entry, preserving aspect ratio
+ */
+function drawIcon(page: PDFPage, image: PDFImage | undefined, x: number, yTop: number): void {
+  if (!image) return;
+  const dims = calculateContainedImageSize(image, ICON_SIZE_PT);
+  page.drawImage(image, {
+    x: x + dims.xOffset,
+    y: yTop - ICON_SIZE_PT + dims.yOffset,
+    width: dims.width,
+    height: dims.height,
+  });
+}
+
+/**
+ * Draw a character entry (icon + name + ability) within one column
+ */
+function drawCharacterEntry(
+  page: PDFPage,
+  fonts: FontSet,
+  character: Character,
+  imageMap: Map<string, PDFImage>,
+  x: number,
+  yTop: number
+): void {
+  drawIcon(page, imageMap.get(character.id), x, yTop);
+
+  const textX = x + ICON_SIZE_PT + ICON_TEXT_GAP_PT;
+  const textWidth = COLUMN_WIDTH_PT - ICON_SIZE_PT - ICON_TEXT_GAP_PT;
+  const nameY = yTop - NAME_FONT_SIZE;
+
+  page.drawText(character.name, {
+    x: textX,
+    y: nameY,
+    font: fonts.name,
+    size: NAME_FONT_SIZE,
+    color: TEAM_COLORS[character.team] || TEAM_COLORS.special,
+  });
+
+  const lines = wrapText(character.ability ?? '', fonts.ability, ABILITY_FONT_SIZE, textWidth);
+  drawLines(page, lines, fonts.ability, textX, nameY - NAME_FONT_SIZE * 1.1);
+}
+
+/**
+ * Draw a jinx row (both icons + "A & B" + reason) across the full width
+ */
+function drawJinxEntry(
+  page: PDFPage,
+  fonts: FontSet,
+  pair: JinxPair,
+  imageMap: Map<string, PDFImage>,
+  yTop: number
+): void {
+  drawIcon(page, imageMap.get(pair.character.id), MARGIN_SIDE_PT, yTop);
+  drawIcon(page, imageMap.get(pair.target.id), MARGIN_SIDE_PT + ICON_SIZE_PT, yTop);
+
+  const textX = MARGIN_SIDE_PT + ICON_SIZE_PT * 2 + ICON_TEXT_GAP_PT;
+  const textWidth = CONTENT_WIDTH_PT - ICON_SIZE_PT * 2 - ICON_TEXT_GAP_PT;
+  const nameY = yTop - NAME_FONT_SIZE;
+
+  let nameX = textX;
+  const nameParts: { text: string; color: ReturnType<typeof rgb> }[] = [
+    { text: pair.character.name, color: TEAM_COLORS[pair.character.team] || TEAM_COLORS.special },
+    { text: ' & ', color: COLORS.TEXT_SECONDARY },
+    { text: pair.target.name, color: TEAM_COLORS[pair.target.team] || TEAM_COLORS.special },
+  ];
+  for (const part of nameParts) {
+    page.drawText(part.text, {
+      x: nameX,
+      y: nameY,
+      font: fonts.name,
+      size: NAME_FONT_SIZE,
+      color: part.color,
+    });
+    nameX += fonts.name.widthOfTextAtSize(part.text, NAME_FONT_SIZE);
+  }
+
+  const lines = wrapText(pair.reason, fonts.ability, ABILITY_FONT_SIZE, textWidth);
+  drawLines(page, lines, fonts.ability, textX, nameY - NAME_FONT_SIZE * 1.1);
+}
+
+/**
+ * Render all team sections and the jinx section, adding pages as needed
+ */
+function renderPlayerScript(
+  pdfDoc: PDFDocument,
+  fonts: FontSet,
+  sections: TeamSection[],
+  jinxes: JinxPair[],
+  imageMap: Map<string, PDFImage>,
+  scriptMeta: ScriptMeta | null
+): void {
+  let page = pdfDoc.addPage([PAGE_WIDTH_PT, PAGE_HEIGHT_PT]);
+  drawBackground(page);
+  let yPos = drawScriptHeader(page, fonts, scriptMeta, imageMap.get(LOGO_IMAGE_ID));
+
+  /** Start a new page if the next block does not fit */
+  const ensureSpace = (height: number): void => {
+    if (yPos - height >= MARGIN_BOTTOM_PT) return;
+    page = pdfDoc.addPage([PAGE_WIDTH_PT, PAGE_HEIGHT_PT]);
+    drawBackground(page);
+    yPos = drawContinuationHeader(page, fonts, scriptMeta);
+  };
+
+  for (const { team, characters } of sections) {
+    // Characters are paired into rows: left column, right column
+    const rows: Character[][] = [];
+    for (let i = 0; i < characters.length; i += 2) {
+      rows.push(characters.slice(i, i + 2));
+    }
+    const rowHeights = rows.map((row) =>
+      Math.max(...row.map((c) => measureCharacterEntry(fonts, c)))
+    );
+
+    // Keep the heading together with the first row
+    ensureSpace(measureSectionHeading() + rowHeights[0]);
+    yPos = drawSectionHeading(
+      page,
+      fonts,
+      TEAM_SECTION_TITLES[team],
+      TEAM_COLORS[team] || TEAM_COLORS.special,
+      yPos
+    );
+
+    rows.forEach((row, index) => {
+      ensureSpace(rowHeights[index]);
+      row.forEach((character, column) => {
+        const x = MARGIN_SIDE_PT + column * (COLUMN_WIDTH_PT + COLUMN_GAP_PT);
+        drawCharacterEntry(page, fonts, character, imageMap, x, yPos);
+      });
+      yPos -= rowHeights[index];
+    });
+
+    yPos -= inchesToPoints(0.08);
+  }
+
+  if (jinxes.length === 0) return;
+
+  ensureSpace(measureSectionHeading() + measureJinxEntry(fonts, jinxes[0]));
+  yPos = drawSectionHeading(page, fonts, 'Jinxes', COLORS.JINX_TITLE, yPos);
+
+  for (const pair of jinxes) {
+    const height = measureJinxEntry(fonts, pair);
+    ensureSpace(height);
+    drawJinxEntry(page, fonts, pair, imageMap, yPos);
+    yPos -= height;
+  }
+}
+
+// ============================================================================
+// Main Export Functions
+// ============================================================================
+
+/**
+ * Generate a Player Script PDF using pdf-lib
+ *
+ * @param characters - Characters on the script (any order; sorted by SAO here)
+ * @param scriptMeta - Script metadata (title, author, logo)
+ * @param options - Export options
+ * @returns PDF document as Uint8Array
+ */
+export async function generatePlayerScriptPdf(
+  characters: Character[],
+  scriptMeta: ScriptMeta | null,
+  options: PlayerScriptPdfOptions = {}
+): Promise<Uint8Array> {
+  const {
+    includeJinxes = true,
+    includeLogo = true,
+    locale,
+    fonts: fontFamilies,
+    onWarning,
+    onProgress,
+    signal,
+  } = options;
+
+  const startTime = performance.now();
+  logger.info('PlayerScriptPdfLib', 'Starting PDF generation');
+
+  if (signal?.aborted) {
+    throw new DOMException('Export cancelled', 'AbortError');
+  }
+
+  // Phase: Initializing
+  onProgress?.('initializing', 0, 1);
+  const pdfDoc = await PDFDocument.create();
+  pdfDoc.setTitle(scriptMeta?.name || 'Custom Script');
+  if (scriptMeta?.author) {
+    pdfDoc.setAuthor(scriptMeta.author);
+  }
+
+  // Phase: Loading fonts
+  onProgress?.('loading-fonts', 0, 1);
+  const fonts = await loadFonts(pdfDoc, locale, fontFamilies, onWarning);
+  onProgress?.('loading-fonts', 1, 1);
+
+  if (signal?.aborted) {
+    throw new DOMException('Export cancelled', 'AbortError');
+  }
+
+  const sections = groupCharactersByTeam(characters);
+  const jinxes = includeJinxes ? getScriptJinxes(characters) : [];
+
+  // Collect icons for every printed character plus the logo
+  const imageEntries: NightOrderEntry[] = sections.flatMap((section) =>
+    section.characters.map(characterToImageEntry)
+  );
+  if (includeLogo && scriptMeta?.logo) {
+    imageEntries.push({
+      id: LOGO_IMAGE_ID,
+      type: 'special',
+      name: scriptMeta.name || 'Logo',
+      ability: '',
+      image: scriptMeta.logo,
+      order: 0,
+      nightType: 'both',
+    });
+  }
+  const uniqueEntries = Array.from(new Map(imageEntries.map((e) => [e.id, e])).values());
+
+  // Phase: Loading images
+  onProgress?.('loading-images', 0, uniqueEntries.length);
+  const imageMap = await loadCharacterImages(
+    pdfDoc,
+    uniqueEntries,
+    (loaded, total) => onProgress?.('loading-images', loaded, total),
+    signal
+  );
+
+  if (signal?.aborted) {
+    throw new DOMException('Export cancelled', 'AbortError');
+  }
+
+  // Phase: Rendering
+  onProgress?.('rendering', 0, 1);
+  renderPlayerScript(pdfDoc, fonts, sections, jinxes, imageMap, scriptMeta);
+  onProgress?.('rendering', 1, 1);
+
+  // Phase: Saving
+  onProgress?.('saving', 0, 1);
+  const pdfBytes = await pdfDoc.save();
+  onProgress?.('saving', 1, 1);
+
+  const elapsed = performance.now() - startTime;
+  logger.info(
+    'PlayerScriptPdfLib',
+    `PDF generated in ${elapsed.toFixed(0)}ms (${pdfDoc.getPageCount()} pages)`
+  );
+
+  return pdfBytes;
+}
+
+/**
+ * Download Player Script PDF
+ *
+ * @param characters - Characters on the script
+ * @param scriptMeta - Script metadata
+ * @param filename - Output filename
+ * @param options - Export options
+ */
+export async function downloadPlayerScriptPdf(
+  characters: Character[],
+  scriptMeta: ScriptMeta | null,
+  filename: string = 'player-script.pdf',
+  options: PlayerScriptPdfOptions = {}
+): Promise<void> {
+  const blob = await getPlayerScriptPdfBlob(characters, scriptMeta, options);
+  const url = URL.createObjectURL(blob);
+
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+
+  URL.revokeObjectURL(url);
+}
+
+/**
+ * Get Player Script PDF as Blob
+ *
+ * @param characters - Characters on the script
+ * @param scriptMeta - Script metadata
+ * @param options - Export options
+ * @returns PDF as Blob
+ */
+export async function getPlayerScriptPdfBlob(
+  characters: Character[],
+  scriptMeta: ScriptMeta | null,
+  options: PlayerScriptPdfOptions = {}
+): Promise<Blob> {
+  const pdfBytes = await generatePlayerScriptPdf(characters, scriptMeta, options);
+  // Cast to ArrayBuffer for TypeScript compatibility
+  return new Blob([pdfBytes.buffer as ArrayBuffer], { type: 'application/pdf' });
+}
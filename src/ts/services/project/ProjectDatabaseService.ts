@@ -210,6 +210,7 @@ export class ProjectDatabaseService implements IProjectDatabase {
       stateJson: JSON.stringify(project.state),
       stats: project.stats,
       schemaVersion: project.schemaVersion,
+      variantOf: project.variantOf,
     };
   }
 
@@ -230,6 +231,7 @@ export class ProjectDatabaseService implements IProjectDatabase {
       state: JSON.parse(dbProject.stateJson),
       stats: dbProject.stats,
       schemaVersion: dbProject.schemaVersion,
+      variantOf: dbProject.variantOf,
     };
   }
 
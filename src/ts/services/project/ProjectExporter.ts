@@ -6,6 +6,7 @@
  * - manifest.json (package metadata)
  * - thumbnail.png (project thumbnail)
  * - assets/ folder (character icons and other assets)
+ * - fonts/ folder (uploaded fonts used by the token settings)
  *
  * Features:
  * - Fetches assets from AssetStorageService (new unified system)
@@ -29,6 +30,7 @@ import type {
   Project,
   ProjectManifest,
 } from '@/ts/types/project.js';
+import { getFontAssetFamily, loadCustomFonts } from '@/ts/utils/customFonts.js';
 import { downloadFile } from '@/ts/utils/imageUtils.js';
 import { logger } from '@/ts/utils/logger.js';
 import { sanitizeFilename } from '@/ts/utils/stringUtils.js';
@@ -49,6 +51,14 @@ const DEFAULT_EXPORT_OPTIONS: Required<ExportOptions> = {
   includeCustomIcons: true,
 };
 
+/** Generation options that name a font family */
+const FONT_OPTION_KEYS = [
+  'characterNameFont',
+  'metaNameFont',
+  'characterReminderFont',
+  'abilityTextFont',
+] as const;
+
 // ============================================================================
 // Dependency Injection Types
 // ============================================================================
@@ -128,12 +138,15 @@ export class ProjectExporter implements IProjectExporter {
       }
     }
 
+    // Uploaded fonts live in the global library, so pick the ones in use
+    const fontAssets = opts.includeAssets ? await this.fetchProjectFonts(project) : [];
+
     // 1. Add project.json (project data without embedded images)
     const projectData = await this.prepareProjectData(project, projectAssets);
     zip.file('project.json', JSON.stringify(projectData, null, 2));
 
     // 2. Add manifest.json (package metadata)
-    const manifest = await this.generateManifest(project, projectAssets, opts);
+    const manifest = await this.generateManifest(project, projectAssets, fontAssets, opts);
     zip.file('manifest.json', JSON.stringify(manifest, null, 2));
 
     // 3. Add thumbnail (if enabled and available)
@@ -153,7 +166,12 @@ export class ProjectExporter implements IProjectExporter {
       }
     }
 
-    // 5. Generate ZIP blob
+    // 5. Add fonts (if enabled and in use)
+    if (fontAssets.length > 0) {
+      this.addFonts(zip, fontAssets);
+    }
+
+    // 6. Generate ZIP blob
     const blob = await zip.generateAsync({
       type: 'blob',
       compression: 'DEFLATE',
@@ -218,6 +236,30 @@ export class ProjectExporter implements IProjectExporter {
     }
   }
 
+  /**
+   * Fetch the uploaded fonts named by the project's generation options
+   *
+   * @param project - Project to export
+   * @returns Font assets in use (bundled fonts have no asset)
+   */
+  private async fetchProjectFonts(project: Project): Promise<DBAsset[]> {
+    const options = project.state.generationOptions;
+    const families = new Set(FONT_OPTION_KEYS.map((key) => options?.[key]).filter(Boolean));
+    if (families.size === 0) {
+      return [];
+    }
+
+    try {
+      // Families are numbered at registration when filenames clash
+      await loadCustomFonts();
+      const fonts = await this.assetStorage.list({ type: 'font' });
+      return fonts.filter((asset) => families.has(getFontAssetFamily(asset)));
+    } catch (error) {
+      exportLogger.warn(`Failed to fetch fonts for project ${project.id}`, error);
+      return [];
+    }
+  }
+
   /**
    * Prepare project data for export (strip out data URLs to keep file clean)
    */
@@ -252,24 +294,36 @@ export class ProjectExporter implements IProjectExporter {
     };
   }
 
+  /**
+   * Name of a font file in the ZIP package. Named after the registered
+   * family, so fonts uploaded under the same filename don't overwrite each
+   * other and keep their family when imported.
+   */
+  private getFontFilename(font: DBAsset): string {
+    const extension = font.metadata.filename.match(/\.[^/.]+$/)?.[0] ?? '';
+    return `${getFontAssetFamily(font)}${extension}`;
+  }
+
   /**
    * Generate manifest.json for the ZIP package
    */
   private async generateManifest(
     project: Project,
     assets: DBAsset[],
+    fonts: DBAsset[],
     options: Required<ExportOptions>
   ): Promise<ProjectManifest> {
     const assetFiles = options.includeAssets
       ? assets.map((asset) => `assets/${asset.metadata.filename}`)
       : [];
+    const fontFiles = fonts.map((font) => `fonts/${this.getFontFilename(font)}`);
 
     // Calculate file sizes (approximate)
     const projectData = await this.prepareProjectData(project, assets);
     const projectJsonSize = JSON.stringify(projectData).length;
     const manifestJsonSize = 500; // Approximate
     const thumbnailSize = options.includeThumbnail ? this.estimateThumbnailSize(project) : 0;
-    const assetsSize = assets.reduce((sum, asset) => sum + asset.metadata.size, 0);
+    const assetsSize = [...assets, ...fonts].reduce((sum, asset) => sum + asset.metadata.size, 0);
     const totalUncompressed = projectJsonSize + manifestJsonSize + thumbnailSize + assetsSize;
 
     return {
@@ -284,6 +338,7 @@ export class ProjectExporter implements IProjectExporter {
         projectData: 'project.json',
         thumbnail: options.includeThumbnail ? 'thumbnail.png' : undefined,
         customIcons: assetFiles, // Using new assets system
+        fonts: fontFiles.length > 0 ? fontFiles : undefined,
       },
 
       stats: {
@@ -345,6 +400,20 @@ export class ProjectExporter implements IProjectExporter {
     }
   }
 
+  /**
+   * Add uploaded fonts to ZIP package
+   */
+  private addFonts(zip: JSZip, fonts: DBAsset[]): void {
+    const fontsFolder = zip.folder('fonts');
+    if (!fontsFolder) {
+      throw new Error('Failed to create fonts folder in ZIP');
+    }
+
+    for (const font of fonts) {
+      fontsFolder.file(this.getFontFilename(font), font.blob);
+    }
+  }
+
   /**
    * Add assets to ZIP using streaming (for large projects)
    *
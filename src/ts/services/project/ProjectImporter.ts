@@ -6,6 +6,7 @@
  * - Manifest compatibility checking
  * - Project data extraction
  * - Custom icon loading
+ * - Uploaded font restoration
  * - Preview generation
  *
  * @module services/project/ProjectImporter
@@ -13,6 +14,8 @@
 
 import JSZip from 'jszip';
 import { CONFIG } from '@/ts/config.js';
+import { fileUploadService } from '@/ts/services/upload/FileUploadService.js';
+import type { IFileUploadService } from '@/ts/services/upload/IUploadServices.js';
 import type {
   CustomIconMetadata,
   Project,
@@ -35,6 +38,17 @@ const REQUIRED_FILES = ['project.json', 'manifest.json'];
 const MAX_FILE_SIZE = 50 * 1024 * 1024; // 50MB limit
 const WARN_FILE_SIZE = 10 * 1024 * 1024; // 10MB warning threshold
 
+// ============================================================================
+// Dependency Injection Types
+// ============================================================================
+
+/**
+ * Dependencies for ProjectImporter
+ */
+export interface ProjectImporterDeps {
+  fileUpload: IFileUploadService;
+}
+
 // ============================================================================
 // ProjectImporter Implementation
 // ============================================================================
@@ -43,6 +57,18 @@ const WARN_FILE_SIZE = 10 * 1024 * 1024; // 10MB warning threshold
  * Service for importing projects from ZIP files
  */
 export class ProjectImporter implements IProjectImporter {
+  // Injected dependencies
+  private readonly fileUpload: IFileUploadService;
+
+  /**
+   * Create a new ProjectImporter instance
+   *
+   * @param deps - Optional dependencies for injection (defaults to singleton instances)
+   */
+  constructor(deps: Partial<ProjectImporterDeps> = {}) {
+    this.fileUpload = deps.fileUpload ?? fileUploadService;
+  }
+
   /**
    * Import a project from a ZIP file
    *
@@ -71,6 +97,9 @@ export class ProjectImporter implements IProjectImporter {
     // Load custom icons
     const customIcons = await this.loadCustomIcons(zip, projectData.state.customIcons);
 
+    // Restore uploaded fonts so the token settings find them
+    await this.restoreFonts(zip, manifest.files.fonts ?? []);
+
     // Generate new UUID for imported project
     const importedProject: Project = {
       ...projectData,
@@ -270,6 +299,35 @@ export class ProjectImporter implements IProjectImporter {
     return loadedIcons;
   }
 
+  /**
+   * Add fonts from ZIP to the global font library. Fonts already in the
+   * library are deduplicated by content hash.
+   */
+  private async restoreFonts(zip: JSZip, fontPaths: string[]): Promise<void> {
+    for (const fontPath of fontPaths) {
+      const fontFile = zip.files[fontPath];
+
+      if (!fontFile) {
+        importLogger.warn(`Font not found in ZIP: ${fontPath}`);
+        continue;
+      }
+
+      try {
+        const blob = await fontFile.async('blob');
+        const filename = fontPath.slice(fontPath.lastIndexOf('/') + 1);
+        const [result] = await this.fileUpload.upload(new File([blob], filename), {
+          assetType: 'font',
+          projectId: null,
+        });
+        if (result && !result.success) {
+          importLogger.warn(`Failed to restore font ${fontPath}: ${result.error}`);
+        }
+      } catch (error) {
+        importLogger.warn(`Failed to restore font ${fontPath}`, error);
+      }
+    }
+  }
+
   /**
    * Check compatibility with current generator version
    */
@@ -144,6 +144,7 @@ export class ProjectService implements IProjectService {
       state,
       stats,
       schemaVersion: 1,
+      variantOf: options.variantOf,
     };
 
     // Save to database
@@ -999,6 +999,7 @@ export class AssetStorageService {
       'studio-icon': { count: 0, size: 0 },
       'studio-logo': { count: 0, size: 0 },
       'studio-project': { count: 0, size: 0 },
+      font: { count: 0, size: 0 },
     };
 
     let totalSize = 0;
@@ -7,7 +7,9 @@
  * @module services/upload/FileUploadService
  */
 
+import { registerCustomFont, renderFontThumbnail } from '@/ts/utils/customFonts.js';
 import { assetStorageService, type CreateAssetData } from './AssetStorageService.js';
+import { ASSET_TYPE_CONFIGS, DEFAULT_THUMBNAIL_SIZE } from './constants.js';
 import { fileValidationService } from './FileValidationService.js';
 import { imageProcessingService } from './ImageProcessingService.js';
 import type {
@@ -239,7 +241,21 @@ export class FileUploadService {
       height: number;
     };
 
-    if (config.skipProcessing) {
+    if (config.assetType === 'font') {
+      // Fonts are stored as uploaded, with a rendered sample as the thumbnail
+      processedBlob = file;
+      thumbnailBlob = await renderFontThumbnail(
+        file,
+        ASSET_TYPE_CONFIGS.font.thumbnailSize ?? DEFAULT_THUMBNAIL_SIZE
+      );
+      metadata = {
+        filename: file.name,
+        mimeType: validation.detectedMimeType ?? file.type,
+        size: file.size,
+        width: 0,
+        height: 0,
+      };
+    } else if (config.skipProcessing) {
       // Use original file
       processedBlob = file;
       thumbnailBlob = await this.imageProcessing.generateThumbnail(file);
@@ -281,6 +297,11 @@ export class FileUploadService {
       throw new Error('Failed to retrieve saved asset');
     }
 
+    // 6. Make fonts available to tokens and PDFs right away
+    if (asset.type === 'font') {
+      await registerCustomFont(asset);
+    }
+
     return {
       success: true,
       assetId,
@@ -344,7 +365,8 @@ export class FileUploadService {
    */
   getAcceptString(assetType: AssetType): string {
     const config = this.fileValidation.getConfig(assetType);
-    return config.allowedMimeTypes.join(',');
+    // Extensions too: browsers rarely report font MIME types
+    return [...config.allowedMimeTypes, ...config.allowedExtensions].join(',');
   }
 
   /**
@@ -287,6 +287,13 @@ export class FileValidationService {
       return 'image/gif';
     }
 
+    // Fonts (TrueType, OpenType CFF, WOFF2)
+    for (const fontType of ['font/ttf', 'font/otf', 'font/woff2']) {
+      if (this.matchesMagicBytes(bytes, MAGIC_BYTES[fontType])) {
+        return fontType;
+      }
+    }
+
     return null;
   }
 
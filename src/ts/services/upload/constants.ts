@@ -37,6 +37,12 @@ export const MAGIC_BYTES: Record<string, Uint8Array> = {
   'image/gif': new Uint8Array([0x47, 0x49, 0x46, 0x38]),
   // SVG: starts with '<' or '<?xml'
   'image/svg+xml': new Uint8Array([0x3c]),
+  // TrueType: 00 01 00 00
+  'font/ttf': new Uint8Array([0x00, 0x01, 0x00, 0x00]),
+  // OpenType (CFF): 4F 54 54 4F (OTTO)
+  'font/otf': new Uint8Array([0x4f, 0x54, 0x54, 0x4f]),
+  // WOFF2: 77 4F 46 32 (wOF2)
+  'font/woff2': new Uint8Array([0x77, 0x4f, 0x46, 0x32]),
 };
 
 /**
@@ -170,6 +176,13 @@ export const ASSET_TYPE_CONFIGS: Record<AssetType, AssetTypeConfig> = {
     requireTransparency: true,
     thumbnailSize: 256, // Larger for better layer preview
   },
+
+  font: {
+    allowedMimeTypes: ['font/ttf', 'font/otf', 'font/woff2'],
+    allowedExtensions: ['.ttf', '.otf', '.woff2'],
+    maxSize: 10 * MB,
+    thumbnailSize: 128, // Rendered "Aa" sample
+  },
 };
 
 // ============================================================================
@@ -213,6 +226,7 @@ export const ASSET_ZIP_PATHS: Record<AssetType, string> = {
   'studio-icon': 'assets/studio-icons/',
   'studio-logo': 'assets/studio-logos/',
   'studio-project': 'assets/studio-projects/',
+  font: 'assets/fonts/',
 };
 
 // ============================================================================
@@ -232,6 +246,7 @@ export const ASSET_TYPE_LABELS: Record<AssetType, string> = {
   'studio-icon': 'Studio Icon',
   'studio-logo': 'Studio Logo',
   'studio-project': 'Studio Project',
+  font: 'Font',
 };
 
 /**
@@ -247,6 +262,7 @@ export const ASSET_TYPE_LABELS_PLURAL: Record<AssetType, string> = {
   'studio-icon': 'Studio Icons',
   'studio-logo': 'Studio Logos',
   'studio-project': 'Studio Projects',
+  font: 'Fonts',
 };
 
 /**
@@ -262,4 +278,5 @@ export const ASSET_TYPE_ICONS: Record<AssetType, string> = {
   'studio-icon': '✨',
   'studio-logo': '🎭',
   'studio-project': '📦',
+  font: '🔤',
 };
@@ -22,7 +22,8 @@ export type AssetType =
   | 'logo'
   | 'studio-icon' // Custom icon created in Studio
   | 'studio-logo' // Script logo created in Studio
-  | 'studio-project'; // Complete Studio project (multi-layer)
+  | 'studio-project' // Complete Studio project (multi-layer)
+  | 'font'; // TTF, OTF or WOFF2 font for token and PDF text
 
 /**
  * Source of how an asset was added to the system
@@ -43,9 +44,9 @@ export interface AssetMetadata {
   mimeType: string;
   /** File size in bytes */
   size: number;
-  /** Image width in pixels */
+  /** Image width in pixels (0 for fonts) */
   width: number;
-  /** Image height in pixels */
+  /** Image height in pixels (0 for fonts) */
   height: number;
   /** Timestamp when uploaded */
   uploadedAt: number;
@@ -140,9 +140,9 @@ export interface IStorageManager {
   getAllCharacters(): Promise<CachedCharacter[]>;
 
   /**
-   * Search characters by name or ID (fuzzy match)
+   * Search characters by name, ID, ability, flavor and reminder text
    *
-   * @param query - Search query
+   * @param query - Search query (every whitespace-separated term must match)
    * @returns Array of matching characters
    */
   searchCharacters(query: string): Promise<CachedCharacter[]>;
@@ -395,7 +395,7 @@ export interface IDataSyncService {
   getCharacter(id: string): Promise<Character | null>;
 
   /**
-   * Search characters by name or ID
+   * Search characters by name, ID, ability, flavor and reminder text
    */
   searchCharacters(query: string): Promise<Character[]>;
 
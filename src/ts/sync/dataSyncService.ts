@@ -393,7 +393,7 @@ export class DataSyncService {
   }
 
   /**
-   * Search characters by name or ID
+   * Search characters by name, ID, ability, flavor and reminder text
    */
   async searchCharacters(query: string): Promise<Character[]> {
     if (!this.isInitialized) {
@@ -9,6 +9,7 @@
  */
 
 import CONFIG from '@/ts/config.js';
+import { matchesCharacterSearch } from '@/ts/data/characterUtils.js';
 import { StorageError } from '@/ts/errors.js';
 import type {
   CachedCharacter,
@@ -235,19 +236,13 @@ export class StorageManager {
   }
 
   /**
-   * Search characters by name or ID (fuzzy match)
-   * @param query - Search query
+   * Search characters by name, ID, ability, flavor and reminder text
+   * @param query - Search query (every whitespace-separated term must match)
    * @returns Array of matching characters
    */
   async searchCharacters(query: string): Promise<CachedCharacter[]> {
     const allCharacters = await this.getAllCharacters();
-    const lowerQuery = query.toLowerCase();
-
-    return allCharacters.filter((character) => {
-      const nameMatch = character.name.toLowerCase().includes(lowerQuery);
-      const idMatch = character.id.toLowerCase().includes(lowerQuery);
-      return nameMatch || idMatch;
-    });
+    return allCharacters.filter((character) => matchesCharacterSearch(character, query));
   }
 
   /**
@@ -13,6 +13,11 @@ export * from './backgroundEffects.js';
 
 import type { BackgroundStyle } from './backgroundEffects.js';
 
+// Token layout template types
+export * from './layoutTemplate.js';
+
+import type { TokenLayoutTemplate } from './layoutTemplate.js';
+
 // Measurement system types
 export * from './measurement.js';
 // Project management types
@@ -195,6 +200,48 @@ export interface CharacterMetadata {
     enabled: boolean;
     filename?: string; // Filename in ZIP or IndexedDB
   };
+  tokenSeeds?: Record<string, number>; // Locked token looks: token seed key -> seed
+}
+
+// Jinx between two characters (official script schema: { id, reason })
+// Stored on one character; `id` references the other character in the pair
+export interface Jinx {
+  id: string;
+  reason: string;
+}
+
+// App integration feature (official script schema "special" item)
+// Tells online play apps (clocktower.online) about behaviour the character needs
+export type SpecialType = 'selection' | 'ability' | 'signal' | 'vote' | 'reveal' | 'player';
+export type SpecialName =
+  | 'grimoire'
+  | 'pointing'
+  | 'ghost-votes'
+  | 'distribute-roles'
+  | 'bag-disabled'
+  | 'bag-duplicate'
+  | 'multiplier'
+  | 'hidden'
+  | 'replace-character'
+  | 'player'
+  | 'card'
+  | 'open-eyes';
+export type SpecialTime =
+  | 'pregame'
+  | 'day'
+  | 'night'
+  | 'firstNight'
+  | 'firstDay'
+  | 'otherNight'
+  | 'otherDay';
+export type SpecialGlobal = 'townsfolk' | 'outsider' | 'minion' | 'demon' | 'traveller' | 'dead';
+
+export interface CharacterSpecial {
+  type: SpecialType;
+  name: SpecialName;
+  value?: string | number;
+  time?: SpecialTime;
+  global?: SpecialGlobal;
 }
 
 // Character data from BotC API
@@ -224,11 +271,29 @@ export interface Character {
   otherNight?: number;
   firstNightReminder?: string;
   otherNightReminder?: string;
+  jinxes?: Jinx[];
+  special?: CharacterSpecial[];
   // Internal fields for the generator (stripped on export)
   uuid?: string; // Stable internal identifier
   source?: 'official' | 'custom'; // Whether character is official or custom
 }
 
+/**
+ * Character fields a localization pack can translate
+ */
+export type LocalizedCharacterFields = Partial<
+  Pick<Character, 'name' | 'ability' | 'reminders' | 'firstNightReminder' | 'otherNightReminder'>
+>;
+
+/**
+ * Translations of character text for one locale, imported as JSON
+ */
+export interface LocalizationPack {
+  locale: string; // BCP 47 tag, e.g. 'de', 'zh-CN', 'ja'
+  name: string; // Display name, e.g. 'Deutsch'
+  characters: Record<string, LocalizedCharacterFields>; // Keyed by normalized character ID
+}
+
 // Script meta information
 export interface ScriptMeta {
   id: '_meta';
@@ -236,6 +301,7 @@ export interface ScriptMeta {
   version?: string;
   author?: string;
   logo?: string;
+  hideTitle?: boolean; // Hide the script name when the logo already shows it
   almanac?: string;
   background?: string;
   synopsis?: string;
@@ -295,10 +361,30 @@ export interface TextShadowOptions {
   metaText: number;
 }
 
+// Token outline shape ('custom' uses an SVG path in a 100×100 box)
+export type TokenShape = 'circle' | 'rounded-square' | 'hexagon' | 'shield' | 'custom';
+
+// Portrait role card size (see ROLE_CARD_SIZES)
+export type RoleCardSize = 'poker' | 'tarot';
+
+// Back face design for double-sided printing
+export type TokenBackStyle = 'none' | 'logo' | 'team' | 'ability' | 'image';
+
+// Back face settings for one token type
+export interface TokenBackOptions {
+  style: TokenBackStyle;
+  imageUrl?: string; // Custom back image (URL or asset reference) for the 'image' style
+}
+
+// Token image file format
+export type TokenImageFormat = 'png' | 'svg';
+
 // PNG export configuration
 export interface PngExportOptions {
   embedMetadata: boolean;
   transparentBackground: boolean;
+  /** File format for token images (SVG keeps text as live text) */
+  format?: TokenImageFormat;
 }
 
 // ZIP compression level
@@ -417,6 +503,18 @@ export interface GenerationOptions {
   logoUrl?: string; // Custom logo URL for meta tokens
   measurementUnit?: MeasurementUnit; // User's preferred display unit (inches/millimeters)
   qrCodeOptions?: QRCodeOptions; // QR code styling options for almanac tokens
+  locale?: string; // Localization pack used for token text and script sheets (unset = source text)
+  tokenShape?: TokenShape; // Token outline (default: circle)
+  tokenShapePath?: string; // SVG path data in a 100×100 box for the custom shape
+  layoutTemplate?: TokenLayoutTemplate; // Character token layout (default: classic)
+  randomSeed?: number; // Master seed for accents, textures and rotations (same seed, same tokens)
+  characterBack?: TokenBackOptions; // Back face of character and bootlegger tokens (PDF only)
+  reminderBack?: TokenBackOptions; // Back face of reminder tokens (PDF only)
+  metaBack?: TokenBackOptions; // Back face of script name, almanac and pandemonium tokens (PDF only)
+  pdfDuplexXOffset?: number; // Back page horizontal shift in inches (printer duplex calibration)
+  pdfDuplexYOffset?: number; // Back page vertical shift in inches (printer duplex calibration)
+  roleCardSize?: RoleCardSize; // Role card export size (default: poker)
+  roleCardFlavorText?: boolean; // Print character flavor text on role cards (default: true)
 }
 
 // Generated token
@@ -441,6 +539,29 @@ export interface Token {
   characterData?: Character; // Original character data (for icon editing)
   imageUrl?: string; // URL of the icon used for this specific token variant
   hasDecorativeOverrides?: boolean; // Whether this token was generated with per-character decorative overrides
+  backCanvas?: HTMLCanvasElement; // Back face, attached for double-sided PDF export
+  textFit?: TextFitReport; // How ability or reminder text was fitted (character and reminder tokens)
+  seed?: number; // Seed the decoration was drawn with (character and reminder tokens)
+  isSeedLocked?: boolean; // Whether this token's seed is locked in its character's metadata
+}
+
+// How ability or reminder text was fitted onto a token
+export interface TextFitReport {
+  shrunk: boolean; // Font size was reduced
+  truncated: boolean; // Text was cut short with an ellipsis
+  overflowing: boolean; // Text still runs past the safe area
+  fontScale: number; // Font size relative to the configured size
+  lineCount: number;
+}
+
+// Generated role card (portrait character card)
+export interface RoleCard {
+  name: string;
+  filename: string;
+  team: Team | string;
+  size: RoleCardSize;
+  canvas: HTMLCanvasElement;
+  order?: number; // Script order
 }
 
 // Avery label template type
@@ -471,6 +592,10 @@ export interface PDFOptions {
   imageQuality: number; // JPEG quality: 0.0-1.0 (0.90 = 90% quality)
   template?: AveryTemplateId; // Avery template to use for layout
   bleed?: number; // Bleed in inches for cutting margin (extends edge colors)
+  tokenShape?: TokenShape; // Token outline; round Avery templates are only used for circles
+  tokenShapePath?: string; // SVG path data for the custom shape
+  duplexXOffset?: number; // Back page horizontal shift in inches (duplex calibration)
+  duplexYOffset?: number; // Back page vertical shift in inches (duplex calibration)
 }
 
 // Token layout item for PDF
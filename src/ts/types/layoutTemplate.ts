@@ -0,0 +1,88 @@
+/**
+ * Token Layout Template Types
+ *
+ * Declarative description of where each element of a character token goes.
+ * Y positions are fractions of the token diameter from the top edge and X
+ * positions fractions from the left edge; arc radii are fractions of the
+ * token radius.
+ */
+
+/**
+ * Where the character name is drawn
+ * - bottom-arc: curved along the bottom edge (classic)
+ * - top-arc: curved along the top edge
+ * - banner: straight across the token at a fixed height
+ */
+export type NamePlacement = 'bottom-arc' | 'top-arc' | 'banner';
+
+/**
+ * Character name placement
+ */
+export interface TemplateNameLayout {
+  placement: NamePlacement;
+  /** Arc radius as a fraction of the token radius (arc placements) */
+  radius: number;
+  /** Vertical center of the text (banner placement) */
+  bannerY: number;
+}
+
+/**
+ * Vertical band the icon is centered in. With ability text the band starts
+ * below the last line of text.
+ */
+export interface TemplateIconBox {
+  /** Top of the band when there is no ability text */
+  top: number;
+  /** Bottom of the band */
+  bottom: number;
+  /** Icon size as a multiple of the band height, with ability text */
+  scaleWithText: number;
+  /** Icon size as a multiple of the band height, without ability text */
+  scale: number;
+}
+
+/**
+ * Region the ability text wraps in
+ */
+export interface TemplateAbilityTextRegion {
+  /** Top of the first line */
+  top: number;
+  /** Share of the token width at each line that text may use (0-1) */
+  padding: number;
+}
+
+/**
+ * Center of the reminder count badge
+ */
+export interface TemplateBadgePlacement {
+  x: number;
+  y: number;
+}
+
+/**
+ * Arc of accent positions along the token edge
+ */
+export interface TemplateAccentArc {
+  /** Arc center in degrees clockwise from the top */
+  center: number;
+  /** Arc span in degrees (default: accent settings) */
+  span?: number;
+  /** Accent positions along the arc (default: accent settings) */
+  slots?: number;
+}
+
+/**
+ * Layout of a character token
+ */
+export interface TokenLayoutTemplate {
+  /** Built-in template ID, or "custom" once edited */
+  id: string;
+  /** Display name */
+  name: string;
+  characterName: TemplateNameLayout;
+  icon: TemplateIconBox;
+  abilityText: TemplateAbilityTextRegion;
+  reminderBadge: TemplateBadgePlacement;
+  /** Accent arcs (side accents are configured separately) */
+  accentArcs: TemplateAccentArc[];
+}
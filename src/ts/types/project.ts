@@ -11,6 +11,7 @@ import type {
   Character,
   CharacterMetadata,
   GenerationOptions,
+  LocalizationPack,
   ScriptMeta,
   Token,
 } from './index.js';
@@ -54,10 +55,25 @@ export interface Project {
   // Versioning
   schemaVersion: number; // For migrations (current: 1)
 
+  // Variant link (set when built from another project, e.g. a Teensyville cut)
+  variantOf?: ProjectVariantLink;
+
   // Cloud sync (future)
   cloudSync?: CloudSyncMetadata; // Reserved for v2.0
 }
 
+/**
+ * Link from a variant project back to the project it was cut down from
+ */
+export interface ProjectVariantLink {
+  parentProjectId: string;
+  parentName: string; // For display if the parent is deleted
+  playerCount: number; // Player count the variant was built for
+  characterIds: string[]; // Character IDs kept from the parent
+  parentModifiedAt: number; // Parent's lastModifiedAt when the variant was built
+  createdAt: number; // Unix timestamp (ms)
+}
+
 // ============================================================================
 // Project State
 // ============================================================================
@@ -80,6 +96,9 @@ export interface ProjectState {
   // Custom character icons
   customIcons: CustomIconMetadata[]; // User-uploaded icons
 
+  // Translation packs (the active one is generationOptions.locale)
+  localizationPacks?: LocalizationPack[];
+
   // Filter state (optional - can reset to defaults)
   filters?: ProjectFilters;
 
@@ -299,6 +318,7 @@ export interface CreateProjectOptions {
   color?: string;
   thumbnailType?: ProjectThumbnail['type'];
   state?: Partial<ProjectState>; // Can provide partial state
+  variantOf?: ProjectVariantLink; // Parent link for variant projects
 }
 
 /**
@@ -345,6 +365,7 @@ export interface ProjectManifest {
     projectData: string; // "project.json"
     thumbnail?: string; // "thumbnail.png"
     customIcons: string[]; // ["icons/imp.webp", ...]
+    fonts?: string[]; // ["fonts/Blackletter.ttf", ...]
   };
 
   stats: {
@@ -420,6 +441,7 @@ export interface DBProject {
   stateJson: string; // JSON.stringify(ProjectState)
   stats: ProjectStats;
   schemaVersion: number;
+  variantOf?: ProjectVariantLink;
 }
 
 /**
@@ -5,7 +5,14 @@
 
 import type { Point } from '@/ts/canvas/index.js';
 import CONFIG from '@/ts/config.js';
-import type { DPIOption, GenerationOptions, MeasurementUnit, ReminderCountStyle } from './index.js';
+import type {
+  DPIOption,
+  GenerationOptions,
+  MeasurementUnit,
+  ReminderCountStyle,
+  TokenLayoutTemplate,
+  TokenShape,
+} from './index.js';
 
 // ============================================================================
 // TOKEN GENERATOR OPTIONS
@@ -164,6 +171,16 @@ export interface TokenGeneratorOptions {
   bootleggerNormalizeIcons?: boolean;
   bootleggerHideName?: boolean;
   logoUrl?: string;
+  /** Locale of the rendered text; selects script-appropriate fallback fonts */
+  locale?: string;
+  /** Token outline (default: circle) */
+  tokenShape?: TokenShape;
+  /** SVG path data in a 100×100 box for the custom shape */
+  tokenShapePath?: string;
+  /** Character token layout (default: classic) */
+  layoutTemplate?: TokenLayoutTemplate;
+  /** Master seed for accents, textures and rotations (see tokenSeeds) */
+  randomSeed?: number;
   tokenCount: boolean;
   reminderCountStyle?: ReminderCountStyle;
   /** When true, all tokens use uniform top spacing as if they all have a badge */
@@ -202,6 +219,8 @@ export interface TokenGeneratorOptions {
   enableRightAccent: boolean;
   sideAccentProbability: number;
   transparentBackground: boolean;
+  /** Record drawing operations so the token can be exported as SVG */
+  vectorOutput?: boolean;
   dpi: number;
   fontSpacing: {
     characterName: number;
@@ -4,9 +4,21 @@
  */
 
 import CONFIG from '@/ts/config.js';
-import { createTokensZip } from '@/ts/export/index.js';
-import { TokenGenerator } from '@/ts/generation/index.js';
-import type { Character, GenerationOptions, Team, Token } from '@/ts/types/index.js';
+import { createTokensZip, getTokenImageFormat, tokenToSvgBlob } from '@/ts/export/index.js';
+import {
+  getTextFitReport,
+  getTokenSeedKey,
+  resolveTokenSeed,
+  TokenGenerator,
+} from '@/ts/generation/index.js';
+import type {
+  Character,
+  CharacterMetadata,
+  GenerationOptions,
+  PngExportOptions,
+  Team,
+  Token,
+} from '@/ts/types/index.js';
 import { downloadFile, logger, sanitizeFilename } from '@/ts/utils/index.js';
 
 // Create child logger for detail view operations
@@ -24,6 +36,7 @@ export async function regenerateSingleToken(
   const generatorOptions = {
     ...generationOptions,
     transparentBackground: generationOptions.pngSettings?.transparentBackground ?? false,
+    vectorOutput: generationOptions.pngSettings?.format === 'svg',
   };
   const generator = new TokenGenerator(generatorOptions);
 
@@ -42,22 +55,35 @@ export async function regenerateSingleToken(
  * @param editedCharacter - The character data to generate tokens for
  * @param generationOptions - Token generation options
  * @param imageOverride - Optional specific image URL to use (for variant preview)
+ * @param metadata - Character metadata; locked token seeds (`tokenSeeds`) keep their look
  */
 export async function regenerateCharacterAndReminders(
   editedCharacter: Character,
   generationOptions: GenerationOptions,
-  imageOverride?: string
+  imageOverride?: string,
+  metadata?: CharacterMetadata
 ): Promise<{ characterToken: Token; reminderTokens: Token[] }> {
   const generatorOptions = {
     ...generationOptions,
     transparentBackground: generationOptions.pngSettings?.transparentBackground ?? false,
+    vectorOutput: generationOptions.pngSettings?.format === 'svg',
   };
   const generator = new TokenGenerator(generatorOptions);
   const dpi = generationOptions.dpi ?? CONFIG.PDF.DPI;
 
   try {
     // Generate character token (with optional image override for variant preview)
-    const charCanvas = await generator.generateCharacterToken(editedCharacter, imageOverride);
+    const charSeed = resolveTokenSeed(
+      generationOptions.randomSeed,
+      editedCharacter,
+      getTokenSeedKey('character'),
+      metadata
+    );
+    const charCanvas = await generator.generateCharacterToken(
+      editedCharacter,
+      imageOverride,
+      charSeed
+    );
     const charFilename = sanitizeFilename(editedCharacter.name);
 
     const characterToken: Token = {
@@ -68,6 +94,8 @@ export async function regenerateCharacterAndReminders(
       canvas: charCanvas,
       diameter: CONFIG.TOKEN.ROLE_DIAMETER_INCHES * dpi,
       parentUuid: editedCharacter.uuid,
+      textFit: getTextFitReport(charCanvas),
+      seed: charSeed,
     };
 
     // Generate reminder tokens
@@ -78,10 +106,17 @@ export async function regenerateCharacterAndReminders(
 
       for (const reminder of editedCharacter.reminders) {
         try {
+          const seed = resolveTokenSeed(
+            generationOptions.randomSeed,
+            editedCharacter,
+            getTokenSeedKey('reminder', 0, reminder),
+            metadata
+          );
           const canvas = await generator.generateReminderToken(
             editedCharacter,
             reminder,
-            imageOverride
+            imageOverride,
+            seed
           );
           const reminderBaseName = sanitizeFilename(`${editedCharacter.name}_${reminder}`);
 
@@ -107,6 +142,8 @@ export async function regenerateCharacterAndReminders(
             parentCharacter: editedCharacter.name,
             parentUuid: editedCharacter.uuid,
             reminderText: reminder,
+            textFit: getTextFitReport(canvas),
+            seed,
           });
         } catch (error) {
           detailLogger.error(
@@ -210,7 +247,7 @@ export async function downloadCharacterTokensAsZip(
   characterToken: Token,
   reminderTokens: Token[],
   characterName: string,
-  pngSettings?: { embedMetadata: boolean; transparentBackground: boolean },
+  pngSettings?: PngExportOptions,
   characterData?: Character,
   progressCallback?: (current: number, total: number) => void
 ): Promise<void> {
@@ -245,14 +282,19 @@ export async function downloadCharacterTokensAsZip(
 }
 
 /**
- * Download only the character token as a PNG file
+ * Download only the character token as a PNG file (or SVG when selected)
  */
 export async function downloadCharacterTokenOnly(
   characterToken: Token,
   characterName: string,
-  _pngSettings?: { embedMetadata: boolean; transparentBackground: boolean }
+  pngSettings?: PngExportOptions
 ): Promise<void> {
   try {
+    if (getTokenImageFormat(characterToken, pngSettings) === 'svg') {
+      downloadFile(await tokenToSvgBlob(characterToken), `${sanitizeFilename(characterName)}.svg`);
+      return;
+    }
+
     const canvas = characterToken.canvas;
     const blob = await new Promise<Blob>((resolve, reject) => {
       canvas.toBlob((blob) => {
@@ -278,7 +320,7 @@ export async function downloadCharacterTokenOnly(
 export async function downloadReminderTokensOnly(
   reminderTokens: Token[],
   characterName: string,
-  pngSettings?: { embedMetadata: boolean; transparentBackground: boolean }
+  pngSettings?: PngExportOptions
 ): Promise<void> {
   if (reminderTokens.length === 0) {
     throw new Error('No reminder tokens to download');
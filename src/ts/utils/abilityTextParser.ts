@@ -2,59 +2,156 @@
  * Ability Text Parser
  *
  * Parses ability text to extract styled segments for token rendering.
- * Text inside [] brackets (including the brackets) is marked as bold.
+ * Understands the same markup as the night order, plus italics:
+ * - Text inside [] brackets (including the brackets) is bold
+ * - *text* is bold and _text_ is italic (markers are removed)
+ * - :reminder: becomes an inline reminder glyph
+ *
+ * Markers only count at word boundaries, so keyword emphasis such as
+ * "Each night*" or snake_case words keep their literal characters.
  */
 
 export interface TextSegment {
   text: string;
   isBold: boolean;
+  isItalic: boolean;
 }
 
+/** Character drawn in place of :reminder: */
+export const REMINDER_GLYPH = '●';
+
 /**
- * Parses ability text and extracts segments with bold markers.
- * Text inside [] (including the brackets) is marked as bold.
- *
- * @example
- * parseAbilityText("Each night* [except the first], you learn...")
- * // Returns: [
- * //   { text: "Each night* ", isBold: false },
- * //   { text: "[except the first]", isBold: true },
- * //   { text: ", you learn...", isBold: false }
- * // ]
+ * Inline markup: *bold*, _italic_ and :reminder:.
+ * An opening marker follows the start of the text, whitespace or opening
+ * punctuation and is followed by a non-space; a closing marker follows a
+ * non-space and is followed by the end, whitespace or punctuation.
  */
-export function parseAbilityText(text: string): TextSegment[] {
-  const segments: TextSegment[] = [];
-  const regex = /(\[[^\]]*\])/g;
+const MARKUP_REGEX =
+  /(?<=^|[\s([{"'“‘])(?:\*(?=\S)([^*\n]*?[^\s*])\*|_(?=\S)([^_\n]*?[^\s_])_)(?=$|[\s.,;:!?)\]}"'”’])|(:reminder:)/g;
+
+/** Setup brackets, matched on the display text */
+const SETUP_REGEX = /\[[^\]]*\]/g;
+
+interface CharStyle {
+  isBold: boolean;
+  isItalic: boolean;
+}
+
+/**
+ * Ability text with markup removed and the style of every character
+ */
+interface StyledText {
+  text: string;
+  styles: CharStyle[];
+}
+
+/**
+ * Strip markup from text, appending display characters and their styles
+ */
+function appendMarkup(text: string, style: CharStyle, out: StyledText): void {
+  const regex = new RegExp(MARKUP_REGEX.source, 'g');
   let lastIndex = 0;
   let match: RegExpExecArray | null = regex.exec(text);
 
+  const appendPlain = (plain: string) => {
+    out.text += plain;
+    for (let i = 0; i < plain.length; i++) {
+      out.styles.push(style);
+    }
+  };
+
   while (match !== null) {
-    // Add text before the match (non-bold)
-    if (match.index > lastIndex) {
-      segments.push({
-        text: text.slice(lastIndex, match.index),
-        isBold: false,
-      });
+    appendPlain(text.slice(lastIndex, match.index));
+
+    if (match[1] !== undefined) {
+      // *bold* (may contain _italic_)
+      appendMarkup(match[1], { ...style, isBold: true }, out);
+    } else if (match[2] !== undefined) {
+      // _italic_ (may contain *bold*)
+      appendMarkup(match[2], { ...style, isItalic: true }, out);
+    } else {
+      // :reminder: glyph, never bold or italic
+      out.text += REMINDER_GLYPH;
+      out.styles.push({ isBold: false, isItalic: false });
     }
-    // Add the matched bracket text (bold)
-    segments.push({
-      text: match[1],
-      isBold: true,
-    });
+
     lastIndex = regex.lastIndex;
     match = regex.exec(text);
   }
 
-  // Add remaining text after last match
-  if (lastIndex < text.length) {
-    segments.push({
-      text: text.slice(lastIndex),
-      isBold: false,
-    });
+  appendPlain(text.slice(lastIndex));
+}
+
+/**
+ * Resolve markup into display text and per-character styles
+ */
+function parseStyledText(text: string): StyledText {
+  const styled: StyledText = { text: '', styles: [] };
+  appendMarkup(text, { isBold: false, isItalic: false }, styled);
+
+  // Setup brackets are shown as written and always bold
+  for (const match of styled.text.matchAll(SETUP_REGEX)) {
+    const start = match.index ?? 0;
+    for (let i = start; i < start + match[0].length; i++) {
+      styled.styles[i] = { ...styled.styles[i], isBold: true };
+    }
   }
 
-  // Return at least one segment for empty or non-matching text
-  return segments.length > 0 ? segments : [{ text, isBold: false }];
+  return styled;
+}
+
+/**
+ * Group consecutive characters with the same style into segments
+ */
+function toSegments(text: string, styles: CharStyle[]): TextSegment[] {
+  const segments: TextSegment[] = [];
+  let current: TextSegment | null = null;
+
+  for (let i = 0; i < text.length; i++) {
+    const { isBold, isItalic } = styles[i] ?? { isBold: false, isItalic: false };
+    if (current && current.isBold === isBold && current.isItalic === isItalic) {
+      current.text += text[i];
+    } else {
+      current = { text: text[i], isBold, isItalic };
+      segments.push(current);
+    }
+  }
+
+  return segments;
+}
+
+/**
+ * Parses ability text into styled segments. Markup markers are removed and
+ * :reminder: is replaced with REMINDER_GLYPH; setup brackets are kept.
+ *
+ * @example
+ * parseAbilityText("Each night* [except the first], choose a _dead_ player")
+ * // Returns: [
+ * //   { text: "Each night* ", isBold: false, isItalic: false },
+ * //   { text: "[except the first]", isBold: true, isItalic: false },
+ * //   { text: ", choose a ", isBold: false, isItalic: false },
+ * //   { text: "dead", isBold: false, isItalic: true },
+ * //   { text: " player", isBold: false, isItalic: false }
+ * // ]
+ */
+export function parseAbilityText(text: string): TextSegment[] {
+  const styled = parseStyledText(text);
+  const segments = toSegments(styled.text, styled.styles);
+
+  // Return at least one segment for empty text
+  return segments.length > 0 ? segments : [{ text: '', isBold: false, isItalic: false }];
+}
+
+/**
+ * Ability text as drawn on a token: markup removed and :reminder: replaced
+ * with REMINDER_GLYPH. Wrap and measure this text, then style each wrapped
+ * line with getLineSegments.
+ *
+ * @param text - Ability text with markup
+ * @returns Display text
+ */
+export function getAbilityDisplayText(text: string): string {
+  return parseStyledText(text).text;
 }
 
 /**
@@ -68,68 +165,45 @@ export function hasSetupBrackets(text: string): boolean {
 }
 
 /**
- * Given a line of text and the original parsed segments,
- * returns the segments that appear in this line.
+ * Checks if ability text renders with more than one style.
+ *
+ * @param text - Ability text with markup
+ * @returns true if any character is bold or italic
+ */
+export function hasStyledText(text: string): boolean {
+  return parseStyledText(text).styles.some((style) => style.isBold || style.isItalic);
+}
+
+/**
+ * Given a line of wrapped display text and the original ability text,
+ * returns the styled segments that make up this line.
  *
  * This function is used during rendering to determine which parts
- * of a wrapped line should be bold vs normal.
+ * of a wrapped line should be bold, italic or normal.
  *
- * @param line - A single line of wrapped text
- * @param originalText - The full original ability text
- * @returns Array of segments with bold flags for this line
+ * @param line - A single line of wrapped display text (see getAbilityDisplayText)
+ * @param originalText - The full original ability text, with markup
+ * @returns Array of segments with style flags for this line
  */
 export function getLineSegments(line: string, originalText: string): TextSegment[] {
-  // Parse the full text to get all segments with their positions
-  const fullSegments = parseAbilityText(originalText);
-
-  // If there are no bold segments, return the line as-is
-  const hasBold = fullSegments.some((s) => s.isBold);
-  if (!hasBold) {
-    return [{ text: line, isBold: false }];
-  }
+  const plain = [{ text: line, isBold: false, isItalic: false }];
+  const styled = parseStyledText(originalText);
 
-  // Build a map of character positions to their bold status
-  // This approach handles the case where a line may contain parts of multiple segments
-  const charBoldMap: boolean[] = [];
-  let _pos = 0;
-  for (const segment of fullSegments) {
-    for (let i = 0; i < segment.text.length; i++) {
-      charBoldMap.push(segment.isBold);
-    }
-    _pos += segment.text.length;
+  // If nothing is styled, return the line as-is
+  if (!styled.styles.some((style) => style.isBold || style.isItalic)) {
+    return plain;
   }
 
-  // Find where this line appears in the original text
+  // Find where this line appears in the display text
   // Account for space normalization during word wrapping
-  const lineStart = findLineInText(line, originalText);
+  const lineStart = findLineInText(line, styled.text);
   if (lineStart === -1) {
-    // Fallback: couldn't find line, return as non-bold
-    return [{ text: line, isBold: false }];
-  }
-
-  // Build segments for this line based on the character map
-  const lineSegments: TextSegment[] = [];
-  let currentSegment: TextSegment | null = null;
-
-  for (let i = 0; i < line.length; i++) {
-    const charIndex = lineStart + i;
-    const isBold = charIndex < charBoldMap.length ? charBoldMap[charIndex] : false;
-
-    if (!currentSegment || currentSegment.isBold !== isBold) {
-      if (currentSegment && currentSegment.text.length > 0) {
-        lineSegments.push(currentSegment);
-      }
-      currentSegment = { text: line[i], isBold };
-    } else {
-      currentSegment.text += line[i];
-    }
-  }
-
-  if (currentSegment && currentSegment.text.length > 0) {
-    lineSegments.push(currentSegment);
+    // Fallback: couldn't find line, return as unstyled
+    return plain;
   }
 
-  return lineSegments.length > 0 ? lineSegments : [{ text: line, isBold: false }];
+  const segments = toSegments(line, styled.styles.slice(lineStart, lineStart + line.length));
+  return segments.length > 0 ? segments : plain;
 }
 
 /**
@@ -3,15 +3,18 @@
  * Async/Timing Utility Functions
  */
 
+import type { RandomSource } from './seededRandom.js';
+
 /**
  * Fisher-Yates shuffle algorithm - returns a new shuffled array
  * @param array - Array to shuffle (can be readonly)
+ * @param random - Random source (default Math.random; pass a seeded one for a repeatable order)
  * @returns New shuffled array (original unchanged)
  */
-export function shuffleArray<T>(array: readonly T[]): T[] {
+export function shuffleArray<T>(array: readonly T[], random: RandomSource = Math.random): T[] {
   const shuffled = [...array];
   for (let i = shuffled.length - 1; i > 0; i--) {
-    const j = Math.floor(Math.random() * (i + 1));
+    const j = Math.floor(random() * (i + 1));
     [shuffled[i], shuffled[j]] = [shuffled[j], shuffled[i]];
   }
   return shuffled;
@@ -0,0 +1,303 @@
+/**
+ * Blood on the Clocktower Token Generator
+ * Custom Fonts - Uploaded fonts for tokens and PDFs
+ *
+ * Fonts uploaded as 'font' assets are registered with the page through
+ * FontFace, under a family named after the file, so options refer to them
+ * the same way as the bundled fonts. Fonts whose files share a name get a
+ * numbered family ("Blackletter 2"), in upload order. Registered fonts are
+ * also passed to the render workers and the SVG exporter (see
+ * collectFontSources), and their bytes are embedded in the night order and
+ * player script PDFs. Deleting a font asset unregisters its face.
+ */
+
+import { cacheInvalidationService } from '@/ts/cache/CacheInvalidationService.js';
+import { assetStorageService } from '@/ts/services/upload/AssetStorageService.js';
+import type { DBAsset } from '@/ts/services/upload/types.js';
+import type { FontSource } from '@/ts/workers/token-render-worker.js';
+import { canvasToBlob } from './imageUtils.js';
+import { logger } from './logger.js';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * An uploaded font registered with the page
+ */
+export interface CustomFont {
+  /** ID of the font asset */
+  assetId: string;
+  /** Family name used in options, CSS and canvas */
+  family: string;
+  /** Original filename */
+  filename: string;
+  /** Font file */
+  blob: Blob;
+  /** Object URL of the font file (workers and SVG export) */
+  url: string;
+  /** Face added to document.fonts */
+  face: FontFace;
+}
+
+// ============================================================================
+// State
+// ============================================================================
+
+/** Registered fonts by asset ID */
+const registeredFonts = new Map<string, CustomFont>();
+
+/** Listeners notified when a font is registered or unregistered */
+const listeners = new Set<() => void>();
+
+/** Pending load of the stored fonts (once per session) */
+let loadPromise: Promise<CustomFont[]> | null = null;
+
+/** Families claimed by fonts that are still loading */
+const pendingFamilies = new Set<string>();
+
+/** Whether deleted font assets are being followed */
+let isWatchingDeletes = false;
+
+// ============================================================================
+// Registration
+// ============================================================================
+
+/**
+ * Family name for an uploaded font file
+ * @param filename - Font filename (e.g. "Blackletter.ttf")
+ * @returns Family name (e.g. "Blackletter")
+ */
+export function getCustomFontFamily(filename: string): string {
+  const family = filename
+    .replace(/\.[^/.]+$/, '')
+    .replace(/["'\\]/g, '')
+    .trim();
+  return family || 'Custom Font';
+}
+
+/**
+ * Family name not yet taken by another registered font
+ * @param base - Family name from the filename
+ * @returns The base name, or the base name with the first free number
+ */
+function getUniqueFamily(base: string): string {
+  const taken = new Set(pendingFamilies);
+  for (const font of registeredFonts.values()) {
+    taken.add(font.family);
+  }
+  let family = base;
+  for (let n = 2; taken.has(family); n++) {
+    family = `${base} ${n}`;
+  }
+  return family;
+}
+
+function notifyListeners(): void {
+  for (const listener of listeners) {
+    listener();
+  }
+}
+
+/**
+ * Unregister fonts whose assets are deleted, so font lists stop offering them
+ */
+function watchDeletedFonts(): void {
+  if (isWatchingDeletes) return;
+  isWatchingDeletes = true;
+  cacheInvalidationService.subscribe('asset', (event) => {
+    if (event.reason !== 'delete') return;
+    for (const assetId of event.entityIds) {
+      unregisterCustomFont(assetId);
+    }
+  });
+}
+
+/**
+ * Register a font asset with the page
+ * @param asset - Font asset
+ * @returns Registered font
+ * @throws Error if the browser cannot parse the font
+ */
+export async function registerCustomFont(asset: DBAsset): Promise<CustomFont> {
+  const existing = registeredFonts.get(asset.id);
+  if (existing) return existing;
+
+  watchDeletedFonts();
+
+  const family = getUniqueFamily(getCustomFontFamily(asset.metadata.filename));
+  pendingFamilies.add(family);
+  let face: FontFace;
+  try {
+    face = new FontFace(family, await asset.blob.arrayBuffer());
+    await face.load();
+  } finally {
+    pendingFamilies.delete(family);
+  }
+  document.fonts.add(face);
+
+  const font: CustomFont = {
+    assetId: asset.id,
+    family,
+    filename: asset.metadata.filename,
+    blob: asset.blob,
+    url: URL.createObjectURL(asset.blob),
+    face,
+  };
+  registeredFonts.set(asset.id, font);
+  logger.debug('CustomFonts', `Registered font: ${family}`);
+
+  notifyListeners();
+  return font;
+}
+
+/**
+ * Remove a font from the page (e.g. after its asset is deleted)
+ * @param assetId - ID of the font asset
+ * @returns Whether a font was registered for the asset
+ */
+export function unregisterCustomFont(assetId: string): boolean {
+  const font = registeredFonts.get(assetId);
+  if (!font) return false;
+
+  document.fonts.delete(font.face);
+  URL.revokeObjectURL(font.url);
+  registeredFonts.delete(assetId);
+  logger.debug('CustomFonts', `Unregistered font: ${font.family}`);
+
+  notifyListeners();
+  return true;
+}
+
+/**
+ * Register every stored font asset. Runs once per session; later calls
+ * return the same result. Fonts that fail to parse are skipped.
+ * @returns Registered fonts
+ */
+export function loadCustomFonts(): Promise<CustomFont[]> {
+  if (typeof FontFace === 'undefined' || typeof document === 'undefined') {
+    return Promise.resolve([]);
+  }
+
+  if (!loadPromise) {
+    loadPromise = (async () => {
+      try {
+        // Upload order decides which of two same-named fonts gets the number
+        const assets = (await assetStorageService.getByType('font')).sort(
+          (a, b) => a.metadata.uploadedAt - b.metadata.uploadedAt || a.id.localeCompare(b.id)
+        );
+        for (const asset of assets) {
+          try {
+            await registerCustomFont(asset);
+          } catch (error) {
+            logger.warn('CustomFonts', `Failed to load font ${asset.metadata.filename}`, error);
+          }
+        }
+      } catch (error) {
+        logger.warn('CustomFonts', 'Failed to read stored fonts', error);
+      }
+      return getCustomFonts();
+    })();
+  }
+  return loadPromise;
+}
+
+// ============================================================================
+// Lookup
+// ============================================================================
+
+/**
+ * Get all registered fonts, sorted by family
+ */
+export function getCustomFonts(): CustomFont[] {
+  return Array.from(registeredFonts.values()).sort((a, b) => a.family.localeCompare(b.family));
+}
+
+/**
+ * Get a registered font by family name
+ * @param family - Family name from options
+ * @returns The font, or undefined for bundled and unknown families
+ */
+export function getCustomFont(family: string | undefined): CustomFont | undefined {
+  if (!family) return undefined;
+  return getCustomFonts().find((font) => font.family === family);
+}
+
+/**
+ * Get the family a font asset is registered under
+ * @param asset - Font asset
+ * @returns Registered family, or the family from the filename if not registered
+ */
+export function getFontAssetFamily(asset: DBAsset): string {
+  return registeredFonts.get(asset.id)?.family ?? getCustomFontFamily(asset.metadata.filename);
+}
+
+/**
+ * Get the file bytes of a registered font for PDF embedding
+ * @param family - Family name from options
+ * @returns Font bytes, or undefined for bundled and unknown families
+ */
+export async function getCustomFontBytes(
+  family: string | undefined
+): Promise<ArrayBuffer | undefined> {
+  const font = getCustomFont(family);
+  return font ? font.blob.arrayBuffer() : undefined;
+}
+
+/**
+ * Registered fonts as worker font sources
+ */
+export function getCustomFontSources(): FontSource[] {
+  return getCustomFonts().map((font) => ({
+    family: font.family,
+    source: `url("${font.url}")`,
+  }));
+}
+
+/**
+ * Subscribe to font registrations
+ * @param listener - Called after each font is registered or unregistered
+ * @returns Unsubscribe function
+ */
+export function subscribeToCustomFonts(listener: () => void): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+// ============================================================================
+// Thumbnails
+// ============================================================================
+
+/**
+ * Render an "Aa" sample of a font file for the asset library
+ * @param file - Font file
+ * @param size - Thumbnail size in pixels
+ * @returns PNG thumbnail
+ */
+export async function renderFontThumbnail(file: Blob, size: number): Promise<Blob> {
+  // Temporary family so the sample never clashes with a registered font
+  const family = `font-thumbnail-${crypto.randomUUID()}`;
+  const face = new FontFace(family, await file.arrayBuffer());
+  await face.load();
+  document.fonts.add(face);
+
+  try {
+    const canvas = document.createElement('canvas');
+    canvas.width = size;
+    canvas.height = size;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) throw new Error('Failed to get canvas context');
+
+    ctx.fillStyle = '#FFFFFF';
+    ctx.textAlign = 'center';
+    ctx.textBaseline = 'middle';
+    ctx.font = `${Math.round(size * 0.5)}px "${family}"`;
+    ctx.fillText('Aa', size / 2, size / 2);
+
+    return await canvasToBlob(canvas);
+  } finally {
+    document.fonts.delete(face);
+  }
+}
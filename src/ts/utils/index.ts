@@ -4,20 +4,25 @@
  *
  * This module re-exports all utility functions for convenient importing.
  * Functions are organized into domain-specific modules:
- * - stringUtils: filename sanitization, capitalize, unique names
+ * - stringUtils: filename sanitization, capitalize, unique names, edit distance, wrap units
  * - imageUtils: image loading, canvas operations, file downloads
  * - jsonUtils: JSON formatting, validation, deep cloning
+ * - jsonAst: position-aware JSON parsing for diagnostics
  * - colorUtils: hex to RGB conversion, contrast colors
  * - asyncUtils: debounce, array shuffling
+ * - seededRandom: reproducible random numbers for token decoration
  * - compressionUtils: gzip compression/decompression for storage optimization
  */
 
 export type { TextSegment } from './abilityTextParser.js';
-// Ability text parser utilities (for bold [] rendering on tokens)
+// Ability text parser utilities (for bold [], *bold*, _italic_ and :reminder: on tokens)
 export {
+  getAbilityDisplayText,
   getLineSegments,
   hasSetupBrackets,
+  hasStyledText,
   parseAbilityText,
+  REMINDER_GLYPH,
 } from './abilityTextParser.js';
 // Re-export types
 export type { DebouncedFunction } from './asyncUtils.js';
@@ -80,6 +85,17 @@ export {
   getCompressionStats,
   isCompressionSupported,
 } from './compressionUtils.js';
+export type { CustomFont } from './customFonts.js';
+// Uploaded fonts (registered through FontFace, embedded in PDFs)
+export {
+  getCustomFont,
+  getCustomFontBytes,
+  getCustomFontFamily,
+  getCustomFonts,
+  loadCustomFonts,
+  registerCustomFont,
+  subscribeToCustomFonts,
+} from './customFonts.js';
 // Decorative utilities (for merging per-character overrides with global options)
 export {
   ACCENT_DECORATIVE_KEYS,
@@ -112,6 +128,16 @@ export {
   loadImage,
   loadLocalImage,
 } from './imageUtils.js';
+// JSON AST (position-aware parsing)
+export {
+  getJsonProperty,
+  getListRemovalRange,
+  type JsonArrayNode,
+  type JsonNode,
+  type JsonObjectNode,
+  type JsonPropertyNode,
+  parseJsonAst,
+} from './jsonAst.js';
 // JSON utilities
 export {
   condenseScript,
@@ -122,6 +148,13 @@ export {
   stripInternalFields,
   validateJson,
 } from './jsonUtils.js';
+// Locale fallback fonts (non-Latin token text)
+export {
+  type GenericFontFamily,
+  getFallbackFontStack,
+  getLocaleFontScript,
+  type LocaleFontScript,
+} from './localeFonts.js';
 export type { LoggerConfig } from './logger.js';
 // Logger utilities
 export {
@@ -166,16 +199,25 @@ export {
   resetProgress,
   updateProgress,
 } from './progressUtils.js';
-// Script encoder utilities (for official BOTC Script Tool integration)
+// Script encoder utilities (official BOTC Script Tool integration and share links)
 export {
+  clearScriptParamFromUrl,
   decodeScriptFromUrl,
+  decodeSharedScript,
   encodeScriptForUrl,
+  encodeSharedScript,
   getOfficialScriptToolUrl,
+  getScriptParamFromUrl,
+  getShareUrl,
   openInOfficialScriptTool,
+  pickShareableOptions,
+  SCRIPT_URL_PARAM,
+  type SharedScriptPayload,
 } from './scriptEncoder.js';
 export type { ScriptSortOptions, SortOrder } from './scriptSorting.js';
 // Script sorting utilities
 export {
+  getSAOAbilityPrefix,
   getScriptSortStats,
   isScriptJsonSortedBySAO,
   isScriptSortedBySAO,
@@ -184,6 +226,14 @@ export {
   sortScriptBySAO,
   sortScriptJsonBySAO,
 } from './scriptSorting.js';
+// Seeded random numbers (reproducible token decoration)
+export {
+  createRandomSeed,
+  createSeededRandom,
+  hashSeed,
+  MAX_SEED,
+  type RandomSource,
+} from './seededRandom.js';
 // Storage utilities
 export {
   getStorageItem,
@@ -196,7 +246,11 @@ export {
 export {
   capitalize,
   generateUniqueFilename,
+  getWrapUnits,
+  joinWrapUnit,
+  levenshteinDistance,
   sanitizeFilename,
+  type WrapUnit,
 } from './stringUtils.js';
 export type {
   ArrayDiffResult,
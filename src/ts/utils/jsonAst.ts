@@ -0,0 +1,280 @@
+/**
+ * Blood on the Clocktower Token Generator
+ * JSON AST - Position-aware JSON parsing
+ *
+ * JSON.parse discards source positions, so diagnostics cannot point at the
+ * offending text. This parser builds a small syntax tree where every node
+ * keeps its [from, to) character offsets into the original string.
+ */
+
+// ============================================================================
+// Types
+// ============================================================================
+
+interface JsonNodeBase {
+  /** Offset of the first character of the node */
+  from: number;
+  /** Offset just past the last character of the node */
+  to: number;
+}
+
+export interface JsonObjectNode extends JsonNodeBase {
+  type: 'object';
+  properties: JsonPropertyNode[];
+}
+
+export interface JsonArrayNode extends JsonNodeBase {
+  type: 'array';
+  items: JsonNode[];
+}
+
+export interface JsonStringNode extends JsonNodeBase {
+  type: 'string';
+  value: string;
+}
+
+export interface JsonNumberNode extends JsonNodeBase {
+  type: 'number';
+  value: number;
+}
+
+export interface JsonBooleanNode extends JsonNodeBase {
+  type: 'boolean';
+  value: boolean;
+}
+
+export interface JsonNullNode extends JsonNodeBase {
+  type: 'null';
+  value: null;
+}
+
+export type JsonNode =
+  | JsonObjectNode
+  | JsonArrayNode
+  | JsonStringNode
+  | JsonNumberNode
+  | JsonBooleanNode
+  | JsonNullNode;
+
+/**
+ * A key/value pair inside an object node.
+ * `from`/`to` span the whole pair (key through value).
+ */
+export interface JsonPropertyNode extends JsonNodeBase {
+  key: string;
+  keyFrom: number;
+  keyTo: number;
+  value: JsonNode;
+}
+
+// ============================================================================
+// Parser
+// ============================================================================
+
+const NUMBER_PATTERN = /-?(?:0|[1-9]\d*)(?:\.\d+)?(?:[eE][+-]?\d+)?/y;
+
+class JsonAstParser {
+  private pos = 0;
+
+  constructor(private readonly text: string) {}
+
+  parse(): JsonNode {
+    const node = this.parseValue();
+    this.skipWhitespace();
+    if (this.pos < this.text.length) {
+      this.fail('Unexpected trailing content');
+    }
+    return node;
+  }
+
+  private fail(message: string): never {
+    throw new SyntaxError(`${message} at offset ${this.pos}`);
+  }
+
+  private skipWhitespace(): void {
+    while (this.pos < this.text.length && /\s/.test(this.text[this.pos])) {
+      this.pos++;
+    }
+  }
+
+  private expect(char: string): void {
+    if (this.text[this.pos] !== char) {
+      this.fail(`Expected "${char}"`);
+    }
+    this.pos++;
+  }
+
+  private parseValue(): JsonNode {
+    this.skipWhitespace();
+    const char = this.text[this.pos];
+
+    switch (char) {
+      case '{':
+        return this.parseObject();
+      case '[':
+        return this.parseArray();
+      case '"':
+        return this.parseString();
+      case 't':
+        return this.parseLiteral('true', { type: 'boolean', value: true });
+      case 'f':
+        return this.parseLiteral('false', { type: 'boolean', value: false });
+      case 'n':
+        return this.parseLiteral('null', { type: 'null', value: null });
+      default:
+        return this.parseNumber();
+    }
+  }
+
+  private parseObject(): JsonObjectNode {
+    const from = this.pos;
+    const properties: JsonPropertyNode[] = [];
+    this.expect('{');
+    this.skipWhitespace();
+
+    if (this.text[this.pos] === '}') {
+      this.pos++;
+      return { type: 'object', from, to: this.pos, properties };
+    }
+
+    while (true) {
+      this.skipWhitespace();
+      const keyNode = this.parseString();
+      this.skipWhitespace();
+      this.expect(':');
+      const value = this.parseValue();
+      properties.push({
+        key: keyNode.value,
+        keyFrom: keyNode.from,
+        keyTo: keyNode.to,
+        value,
+        from: keyNode.from,
+        to: value.to,
+      });
+
+      this.skipWhitespace();
+      if (this.text[this.pos] === ',') {
+        this.pos++;
+        continue;
+      }
+      this.expect('}');
+      return { type: 'object', from, to: this.pos, properties };
+    }
+  }
+
+  private parseArray(): JsonArrayNode {
+    const from = this.pos;
+    const items: JsonNode[] = [];
+    this.expect('[');
+    this.skipWhitespace();
+
+    if (this.text[this.pos] === ']') {
+      this.pos++;
+      return { type: 'array', from, to: this.pos, items };
+    }
+
+    while (true) {
+      items.push(this.parseValue());
+      this.skipWhitespace();
+      if (this.text[this.pos] === ',') {
+        this.pos++;
+        continue;
+      }
+      this.expect(']');
+      return { type: 'array', from, to: this.pos, items };
+    }
+  }
+
+  private parseString(): JsonStringNode {
+    const from = this.pos;
+    this.expect('"');
+
+    while (this.pos < this.text.length && this.text[this.pos] !== '"') {
+      // Skip the escaped character so \" does not end the string
+      this.pos += this.text[this.pos] === '\\' ? 2 : 1;
+    }
+    this.expect('"');
+
+    try {
+      const value = JSON.parse(this.text.slice(from, this.pos)) as string;
+      return { type: 'string', from, to: this.pos, value };
+    } catch {
+      return this.fail('Invalid string');
+    }
+  }
+
+  private parseNumber(): JsonNumberNode {
+    const from = this.pos;
+    NUMBER_PATTERN.lastIndex = from;
+    const match = NUMBER_PATTERN.exec(this.text);
+    if (!match) {
+      this.fail('Unexpected token');
+    }
+    this.pos = from + match[0].length;
+    return { type: 'number', from, to: this.pos, value: Number(match[0]) };
+  }
+
+  private parseLiteral<T extends JsonBooleanNode | JsonNullNode>(
+    literal: string,
+    node: Omit<T, 'from' | 'to'>
+  ): T {
+    const from = this.pos;
+    if (!this.text.startsWith(literal, from)) {
+      this.fail('Unexpected token');
+    }
+    this.pos += literal.length;
+    return { ...node, from, to: this.pos } as T;
+  }
+}
+
+/**
+ * Parse JSON text into a position-aware syntax tree
+ * @param text - JSON source text
+ * @returns Root node, or null if the text is not valid JSON
+ */
+export function parseJsonAst(text: string): JsonNode | null {
+  try {
+    return new JsonAstParser(text).parse();
+  } catch {
+    return null;
+  }
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+/**
+ * Find a property on an object node by key (last occurrence wins, like JSON.parse)
+ */
+export function getJsonProperty(node: JsonObjectNode, key: string): JsonPropertyNode | undefined {
+  for (let i = node.properties.length - 1; i >= 0; i--) {
+    if (node.properties[i].key === key) {
+      return node.properties[i];
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Get the text range that removes one element of a comma-separated list
+ * (array items or object properties) while keeping the remaining list valid.
+ *
+ * @param elements - Ranges of every element in the list
+ * @param index - Index of the element to remove
+ */
+export function getListRemovalRange(
+  elements: ReadonlyArray<{ from: number; to: number }>,
+  index: number
+): { from: number; to: number } {
+  const element = elements[index];
+  if (index > 0) {
+    // Remove the preceding comma together with the element
+    return { from: elements[index - 1].to, to: element.to };
+  }
+  if (elements.length > 1) {
+    // First element: remove through the start of the next one
+    return { from: element.from, to: elements[1].from };
+  }
+  return { from: element.from, to: element.to };
+}
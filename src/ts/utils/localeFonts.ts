@@ -0,0 +1,99 @@
+/**
+ * Blood on the Clocktower Token Generator
+ * Locale Fonts - Fallback font stacks for non-Latin text
+ *
+ * The bundled token fonts only cover Latin glyphs. Text in other scripts
+ * falls through the CSS font stack, so each locale gets a stack of common
+ * system fonts for its script (Noto first, then the platform defaults).
+ * Chinese, Japanese and Korean share Han glyphs with different regional
+ * forms, so each gets its own stack rather than a combined CJK one.
+ */
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type LocaleFontScript = 'latin' | 'cyrillic' | 'greek' | 'sc' | 'tc' | 'ja' | 'ko';
+
+export type GenericFontFamily = 'serif' | 'sans-serif';
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+const FALLBACK_FONTS: Record<LocaleFontScript, Record<GenericFontFamily, string[]>> = {
+  latin: {
+    serif: ['Georgia'],
+    'sans-serif': [],
+  },
+  cyrillic: {
+    serif: ['Noto Serif', 'Georgia', 'Times New Roman'],
+    'sans-serif': ['Noto Sans', 'Segoe UI', 'Arial'],
+  },
+  greek: {
+    serif: ['Noto Serif', 'Georgia', 'Times New Roman'],
+    'sans-serif': ['Noto Sans', 'Segoe UI', 'Arial'],
+  },
+  sc: {
+    serif: ['Noto Serif SC', 'Songti SC', 'SimSun'],
+    'sans-serif': ['Noto Sans SC', 'PingFang SC', 'Microsoft YaHei'],
+  },
+  tc: {
+    serif: ['Noto Serif TC', 'Songti TC', 'PMingLiU'],
+    'sans-serif': ['Noto Sans TC', 'PingFang TC', 'Microsoft JhengHei'],
+  },
+  ja: {
+    serif: ['Noto Serif JP', 'Hiragino Mincho ProN', 'Yu Mincho'],
+    'sans-serif': ['Noto Sans JP', 'Hiragino Sans', 'Yu Gothic', 'Meiryo'],
+  },
+  ko: {
+    serif: ['Noto Serif KR', 'AppleMyungjo', 'Batang'],
+    'sans-serif': ['Noto Sans KR', 'Apple SD Gothic Neo', 'Malgun Gothic'],
+  },
+};
+
+const CYRILLIC_LANGUAGES = new Set(['ru', 'uk', 'be', 'bg', 'sr', 'mk', 'kk', 'ky', 'mn']);
+
+// ============================================================================
+// Public API
+// ============================================================================
+
+/**
+ * Get the writing system a locale's text needs fonts for
+ *
+ * @param locale - BCP 47 tag (e.g. 'de', 'zh-TW', 'ja'); unset means Latin
+ */
+export function getLocaleFontScript(locale: string | undefined): LocaleFontScript {
+  if (!locale) return 'latin';
+  const [language, ...subtags] = locale.toLowerCase().split(/[-_]/);
+
+  switch (language) {
+    case 'zh':
+      return subtags.some((tag) => tag === 'hant' || tag === 'tw' || tag === 'hk' || tag === 'mo')
+        ? 'tc'
+        : 'sc';
+    case 'ja':
+      return 'ja';
+    case 'ko':
+      return 'ko';
+    case 'el':
+      return 'greek';
+    default:
+      return CYRILLIC_LANGUAGES.has(language) ? 'cyrillic' : 'latin';
+  }
+}
+
+/**
+ * Build the CSS fallback list that follows a token font
+ *
+ * @param locale - Locale of the text being drawn
+ * @param generic - Generic family the stack ends with
+ * @returns Fallback list for a canvas font string, e.g. `"Noto Sans JP", "Meiryo", sans-serif`
+ */
+export function getFallbackFontStack(
+  locale: string | undefined,
+  generic: GenericFontFamily = 'sans-serif'
+): string {
+  const fonts = FALLBACK_FONTS[getLocaleFontScript(locale)][generic];
+  return [...fonts.map((font) => `"${font}"`), generic].join(', ');
+}
@@ -7,11 +7,191 @@
  * The official tool accepts scripts via URL parameter using gzip + base64url encoding.
  * This utility provides functions to encode scripts in this format.
  *
+ * The same encoding is used for this app's own share links (`#script=`), which
+ * can also carry generation options so a friend sees the same token style.
+ *
  * @module ts/utils/scriptEncoder
  */
 
 import pako from 'pako';
-import type { ScriptEntry } from '@/ts/types/index.js';
+import { type GenerationOptions, isAssetReference, type ScriptEntry } from '@/ts/types/index.js';
+
+/** URL parameter (query or hash) that carries an encoded script */
+export const SCRIPT_URL_PARAM = 'script';
+
+/** Version of the share-link payload format */
+const SHARE_PAYLOAD_VERSION = 1;
+
+/** Expected type of a generation option carried by a share link */
+type ShareableOptionKind =
+  | 'boolean'
+  | 'number'
+  | 'string'
+  | 'perText'
+  | { oneOf: readonly string[] };
+
+/** Keys of per-text settings (fontSpacing, textShadow) */
+const PER_TEXT_KEYS = ['characterName', 'abilityText', 'reminderText', 'metaText'] as const;
+
+/**
+ * Generation options a share link may carry and the type each must have.
+ * Only the token look travels: export and device settings (DPI, PDF, PNG and
+ * ZIP) and the localization pack stay local. Anything else is dropped.
+ */
+const SHAREABLE_OPTIONS: Partial<Record<keyof GenerationOptions, ShareableOptionKind>> = {
+  displayAbilityText: 'boolean',
+  generateBootleggerRules: 'boolean',
+  bootleggerIconType: { oneOf: ['bootlegger', 'script'] },
+  bootleggerNormalizeIcons: 'boolean',
+  bootleggerHideName: 'boolean',
+  tokenCount: 'boolean',
+  reminderCountStyle: { oneOf: ['arabic', 'roman', 'circled', 'dots'] },
+  reminderCountUniformLayout: 'boolean',
+  generateImageVariants: 'boolean',
+  generateReminderVariants: 'boolean',
+  setupStyle: 'string',
+  reminderBackground: 'string',
+  reminderBackgroundImage: 'string',
+  reminderBackgroundType: { oneOf: ['color', 'image'] },
+  characterBackground: 'string',
+  characterBackgroundColor: 'string',
+  characterBackgroundType: { oneOf: ['color', 'image'] },
+  metaBackground: 'string',
+  metaBackgroundColor: 'string',
+  metaBackgroundType: { oneOf: ['color', 'image'] },
+  characterNameFont: 'string',
+  characterNameColor: 'string',
+  metaNameFont: 'string',
+  metaNameColor: 'string',
+  characterReminderFont: 'string',
+  abilityTextFont: 'string',
+  abilityTextColor: 'string',
+  reminderTextColor: 'string',
+  scriptNameToken: 'boolean',
+  hideScriptNameAuthor: 'boolean',
+  almanacToken: 'boolean',
+  pandemoniumToken: 'boolean',
+  accentGeneration: 'string',
+  accentEnabled: 'boolean',
+  maximumAccents: 'number',
+  accentPopulationProbability: 'number',
+  accentArcSpan: 'number',
+  accentSlots: 'number',
+  enableLeftAccent: 'boolean',
+  enableRightAccent: 'boolean',
+  sideAccentProbability: 'number',
+  fontSpacing: 'perText',
+  textShadow: 'perText',
+  logoUrl: 'string',
+  tokenShape: { oneOf: ['circle', 'rounded-square', 'hexagon', 'shield', 'custom'] },
+  tokenShapePath: 'string',
+  randomSeed: 'number',
+  roleCardSize: { oneOf: ['poker', 'tarot'] },
+  roleCardFlavorText: 'boolean',
+};
+
+/**
+ * Script data carried by a share link
+ * Plain script arrays (official tool links) decode with no generation options.
+ */
+export interface SharedScriptPayload {
+  /** Script entries: _meta, official IDs, and full custom character objects */
+  script: ScriptEntry[];
+  /** Token generation settings of the sharer, if included */
+  generationOptions?: Partial<GenerationOptions>;
+}
+
+/**
+ * Check a shared option value against its expected type
+ * Asset references (`asset:<id>`) point into the sharer's IndexedDB and
+ * cannot be resolved by anyone else, so they are rejected.
+ *
+ * @returns The value to keep (a copy for objects), or undefined to drop it
+ */
+function sanitizeSharedOption(kind: ShareableOptionKind, value: unknown): unknown {
+  if (typeof kind === 'object') {
+    return typeof value === 'string' && kind.oneOf.includes(value) ? value : undefined;
+  }
+  switch (kind) {
+    case 'boolean':
+      return typeof value === 'boolean' ? value : undefined;
+    case 'number':
+      return typeof value === 'number' && Number.isFinite(value) ? value : undefined;
+    case 'string':
+      return typeof value === 'string' && !isAssetReference(value) ? value : undefined;
+    case 'perText': {
+      if (typeof value !== 'object' || value === null) return undefined;
+      const record = value as Record<string, unknown>;
+      const valid = PER_TEXT_KEYS.every(
+        (key) => typeof record[key] === 'number' && Number.isFinite(record[key])
+      );
+      return valid ? Object.fromEntries(PER_TEXT_KEYS.map((key) => [key, record[key]])) : undefined;
+    }
+  }
+}
+
+/**
+ * Keep only the shareable, correctly typed generation options
+ *
+ * @param options - Generation options (local settings or an untrusted link payload)
+ * @returns Shareable options, or undefined if none remain
+ */
+export function pickShareableOptions(options: unknown): Partial<GenerationOptions> | undefined {
+  if (typeof options !== 'object' || options === null || Array.isArray(options)) {
+    return undefined;
+  }
+
+  const picked: Record<string, unknown> = {};
+  for (const [key, kind] of Object.entries(SHAREABLE_OPTIONS)) {
+    if (!(kind && key in options)) continue;
+    const value = sanitizeSharedOption(kind, (options as Record<string, unknown>)[key]);
+    if (value !== undefined) picked[key] = value;
+  }
+  return Object.keys(picked).length > 0 ? (picked as Partial<GenerationOptions>) : undefined;
+}
+
+/**
+ * Gzip + base64url encode any JSON-serializable value
+ */
+function encodeJsonForUrl(value: unknown): string {
+  // Compress with gzip
+  const compressed = pako.gzip(JSON.stringify(value));
+
+  // Convert to base64
+  let base64 = '';
+  const bytes = new Uint8Array(compressed);
+  for (let i = 0; i < bytes.length; i++) {
+    base64 += String.fromCharCode(bytes[i]);
+  }
+  base64 = btoa(base64);
+
+  // Convert to base64url (RFC 4648)
+  // Replace + with -, / with _, and remove trailing =
+  return base64.replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+/**
+ * Decode a base64url + gzip string back to its JSON value
+ */
+function decodeJsonFromUrl(encoded: string): unknown {
+  // Convert from base64url back to base64
+  let base64 = encoded.replace(/-/g, '+').replace(/_/g, '/');
+
+  // Add padding if needed
+  while (base64.length % 4 !== 0) {
+    base64 += '=';
+  }
+
+  // Decode base64 to binary
+  const binaryString = atob(base64);
+  const bytes = new Uint8Array(binaryString.length);
+  for (let i = 0; i < binaryString.length; i++) {
+    bytes[i] = binaryString.charCodeAt(i);
+  }
+
+  // Decompress gzip and parse JSON
+  return JSON.parse(pako.ungzip(bytes, { to: 'string' }));
+}
 
 /**
  * Encode script JSON for URL parameter (gzip + base64url)
@@ -32,23 +212,7 @@ import type { ScriptEntry } from '@/ts/types/index.js';
  * ```
  */
 export function encodeScriptForUrl(script: ScriptEntry[]): string {
-  // Convert script to JSON string
-  const json = JSON.stringify(script);
-
-  // Compress with gzip
-  const compressed = pako.gzip(json);
-
-  // Convert to base64
-  let base64 = '';
-  const bytes = new Uint8Array(compressed);
-  for (let i = 0; i < bytes.length; i++) {
-    base64 += String.fromCharCode(bytes[i]);
-  }
-  base64 = btoa(base64);
-
-  // Convert to base64url (RFC 4648)
-  // Replace + with -, / with _, and remove trailing =
-  return base64.replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+  return encodeJsonForUrl(script);
 }
 
 /**
@@ -65,26 +229,102 @@ export function encodeScriptForUrl(script: ScriptEntry[]): string {
  * ```
  */
 export function decodeScriptFromUrl(encoded: string): ScriptEntry[] {
-  // Convert from base64url back to base64
-  let base64 = encoded.replace(/-/g, '+').replace(/_/g, '/');
+  return decodeJsonFromUrl(encoded) as ScriptEntry[];
+}
 
-  // Add padding if needed
-  while (base64.length % 4 !== 0) {
-    base64 += '=';
+/**
+ * Encode a script and optional generation options for a share link
+ * Only shareable options are included (see pickShareableOptions).
+ *
+ * @param payload - Script entries and generation options
+ * @returns Base64url encoded gzip-compressed payload
+ */
+export function encodeSharedScript(payload: SharedScriptPayload): string {
+  const options = pickShareableOptions(payload.generationOptions);
+  return encodeJsonForUrl({
+    v: SHARE_PAYLOAD_VERSION,
+    script: payload.script,
+    ...(options && { options }),
+  });
+}
+
+/**
+ * Decode a `script` URL parameter from either a share link or the official Script Tool
+ *
+ * @param encoded - Base64url encoded gzip-compressed string
+ * @returns Script entries and the link's shareable generation options (if any)
+ * @throws Error if the payload cannot be decoded or does not contain a script array
+ */
+export function decodeSharedScript(encoded: string): SharedScriptPayload {
+  let decoded: unknown;
+  try {
+    decoded = decodeJsonFromUrl(encoded);
+  } catch {
+    throw new Error('The script link is damaged or incomplete');
   }
 
-  // Decode base64 to binary
-  const binaryString = atob(base64);
-  const bytes = new Uint8Array(binaryString.length);
-  for (let i = 0; i < binaryString.length; i++) {
-    bytes[i] = binaryString.charCodeAt(i);
+  // Official Script Tool links carry a bare script array
+  if (Array.isArray(decoded)) {
+    return { script: decoded as ScriptEntry[] };
   }
 
-  // Decompress gzip
-  const decompressed = pako.ungzip(bytes, { to: 'string' });
+  if (typeof decoded === 'object' && decoded !== null && 'script' in decoded) {
+    const { script, options } = decoded as { script: unknown; options?: unknown };
+    if (Array.isArray(script)) {
+      return {
+        script: script as ScriptEntry[],
+        // Links are untrusted: unknown keys and mistyped values are dropped
+        generationOptions: pickShareableOptions(options),
+      };
+    }
+  }
+
+  throw new Error('The script link does not contain a script');
+}
+
+/**
+ * Read the encoded script from a URL's query (`?script=`) or hash (`#script=`)
+ *
+ * @param url - URL to inspect (defaults to the current page)
+ * @returns Encoded payload, or null if the URL has none
+ */
+export function getScriptParamFromUrl(url: URL = new URL(window.location.href)): string | null {
+  const fromQuery = url.searchParams.get(SCRIPT_URL_PARAM);
+  if (fromQuery) return fromQuery;
+
+  const fromHash = new URLSearchParams(url.hash.replace(/^#/, '')).get(SCRIPT_URL_PARAM);
+  return fromHash || null;
+}
+
+/**
+ * Remove the script parameter from the current URL without reloading,
+ * so refreshing the page does not offer the import again
+ */
+export function clearScriptParamFromUrl(): void {
+  const url = new URL(window.location.href);
+  url.searchParams.delete(SCRIPT_URL_PARAM);
+
+  const hashParams = new URLSearchParams(url.hash.replace(/^#/, ''));
+  hashParams.delete(SCRIPT_URL_PARAM);
+  const hash = hashParams.toString();
+  url.hash = hash ? `#${hash}` : '';
+
+  window.history.replaceState(window.history.state, '', url.toString());
+}
 
-  // Parse JSON
-  return JSON.parse(decompressed) as ScriptEntry[];
+/**
+ * Build a share link to this app that opens the script in the import dialog
+ * The payload goes in the hash so it is never sent to the server.
+ *
+ * @param payload - Script entries and generation options
+ * @param baseUrl - App URL (defaults to the current page without query/hash)
+ * @returns Full share URL
+ */
+export function getShareUrl(
+  payload: SharedScriptPayload,
+  baseUrl: string = `${window.location.origin}${window.location.pathname}`
+): string {
+  return `${baseUrl}#${SCRIPT_URL_PARAM}=${encodeSharedScript(payload)}`;
 }
 
 /**
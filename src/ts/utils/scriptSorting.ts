@@ -175,6 +175,16 @@ function getAbilityPrefixIndex(ability: string | undefined): number {
   return SAO_ABILITY_PREFIXES.length;
 }
 
+/**
+ * Get the SAO ability prefix a character's ability falls under
+ * @param ability - Ability text
+ * @returns The first matching prefix from SAO_ABILITY_PREFIXES, or null if none match
+ */
+export function getSAOAbilityPrefix(ability: string | undefined): string | null {
+  const index = getAbilityPrefixIndex(ability);
+  return index < SAO_ABILITY_PREFIXES.length ? SAO_ABILITY_PREFIXES[index] : null;
+}
+
 /**
  * Get the team sort index for a character
  */
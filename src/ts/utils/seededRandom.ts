@@ -0,0 +1,55 @@
+/**
+ * Blood on the Clocktower Token Generator
+ * Seeded Random - Reproducible random numbers for token decoration
+ *
+ * Accent placement, per-token texture seeds and background crop and
+ * rotation draw from a seeded generator, so the same seed always gives the
+ * same token.
+ */
+
+/**
+ * Source of random numbers in [0, 1), like Math.random
+ */
+export type RandomSource = () => number;
+
+/** Largest seed value (seeds are non-negative 31-bit integers) */
+export const MAX_SEED = 0x7fffffff;
+
+/**
+ * Create a seeded random number generator (mulberry32)
+ * @param seed - Seed; the same seed always gives the same sequence
+ * @returns Random source
+ */
+export function createSeededRandom(seed: number): RandomSource {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/**
+ * Derive a seed from a list of values (FNV-1a hash)
+ * @param parts - Values to combine (e.g. master seed, character UUID, variant)
+ * @returns Seed
+ */
+export function hashSeed(...parts: (string | number)[]): number {
+  const input = parts.join(':');
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < input.length; i++) {
+    hash ^= input.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0) & MAX_SEED;
+}
+
+/**
+ * Pick a new seed at random
+ * @param max - Largest seed to pick (default MAX_SEED)
+ */
+export function createRandomSeed(max: number = MAX_SEED): number {
+  return Math.floor(Math.random() * (max + 1));
+}
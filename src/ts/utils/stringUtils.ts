@@ -69,3 +69,91 @@ export function capitalize(str: string): string {
   if (!str) return '';
   return str.charAt(0).toUpperCase() + str.slice(1).toLowerCase();
 }
+
+/**
+ * Calculate Levenshtein distance between two strings
+ * (minimum number of single-character insertions, deletions or substitutions)
+ * @param a - First string
+ * @param b - Second string
+ * @returns Edit distance
+ */
+export function levenshteinDistance(a: string, b: string): number {
+  if (a === b) return 0;
+  if (a.length === 0) return b.length;
+  if (b.length === 0) return a.length;
+
+  // Single-row dynamic programming: previous[j] = distance(a[0..i-1], b[0..j])
+  let previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + cost);
+    }
+    previous = current;
+  }
+  return previous[b.length];
+}
+
+/**
+ * A piece of text that line wrapping never breaks
+ */
+export interface WrapUnit {
+  text: string;
+  /** Whether a space separates this unit from the previous one */
+  spaced: boolean;
+}
+
+// Han, kana and CJK punctuation; Hangul is left out since Korean breaks at spaces
+const CJK_CHAR = /[\u3000-\u30ff\u3400-\u4dbf\u4e00-\u9fff\uf900-\ufaff\uff00-\uffef]/;
+// Characters that may not start a line (closing punctuation, prolonged sound mark)
+const NO_BREAK_BEFORE = /[、。，．！？：；）」』】〕》〉ーゝゞヽヾ々…,.!?:;)\]]/;
+// Characters that may not end a line (opening brackets)
+const NO_BREAK_AFTER = /[（「『【〔《〈([]/;
+
+/**
+ * Split text into wrap units
+ *
+ * Text without CJK characters splits at spaces only. Chinese and Japanese are
+ * written without spaces, so each CJK character becomes its own unit, with
+ * closing punctuation kept on the line of the character before it.
+ *
+ * @param text - Text to split
+ * @returns Units in order
+ */
+export function getWrapUnits(text: string): WrapUnit[] {
+  const words = text.split(' ');
+  if (!CJK_CHAR.test(text)) {
+    return words.map((word) => ({ text: word, spaced: true }));
+  }
+
+  const units: WrapUnit[] = [];
+  for (const word of words) {
+    let current = '';
+    let spaced = true;
+    for (const char of word) {
+      const previous = current.slice(-1);
+      const canBreak =
+        current !== '' &&
+        (CJK_CHAR.test(char) || CJK_CHAR.test(previous)) &&
+        !NO_BREAK_BEFORE.test(char) &&
+        !NO_BREAK_AFTER.test(previous);
+      if (canBreak) {
+        units.push({ text: current, spaced });
+        current = '';
+        spaced = false;
+      }
+      current += char;
+    }
+    units.push({ text: current, spaced });
+  }
+  return units;
+}
+
+/**
+ * Append a wrap unit to a line
+ */
+export function joinWrapUnit(line: string, unit: WrapUnit): string {
+  if (!line) return unit.text;
+  return unit.spaced ? `${line} ${unit.text}` : `${line}${unit.text}`;
+}
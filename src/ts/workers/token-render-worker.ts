@@ -0,0 +1,280 @@
+/**
+ * Token Render Web Worker
+ * Renders character and reminder tokens on OffscreenCanvas so a batch can
+ * be drawn in parallel off the main thread.
+ *
+ * Images are requested from the main thread, which owns the sync storage
+ * and CORS proxy handling, and arrive as transferred ImageBitmaps. Fonts are
+ * registered from the page's @font-face sources before the first render.
+ */
+
+import type { DrawableImage } from '@/ts/canvas/canvasUtils.js';
+import { TokenGenerator } from '@/ts/generation/TokenGenerator.js';
+import type { IImageCache } from '@/ts/generation/TokenImageRenderer.js';
+import { getTextFitReport } from '@/ts/generation/textFit.js';
+import type { Character, TextFitReport } from '@/ts/types/index.js';
+import type { TokenGeneratorOptions } from '@/ts/types/tokenOptions.js';
+import { logger } from '@/ts/utils/logger.js';
+
+/**
+ * Token kinds this worker can render.
+ */
+export type TokenRenderKind = 'character' | 'reminder';
+
+/**
+ * Font face to register in the worker (mirrors a page @font-face rule).
+ */
+export interface FontSource {
+  family: string;
+  /** CSS `src` value with absolute URLs */
+  source: string;
+  descriptors?: FontFaceDescriptors;
+}
+
+/**
+ * Render task data.
+ */
+export interface RenderTokenTaskData {
+  kind: TokenRenderKind;
+  character: Character;
+  /** Reminder text (reminder tokens only) */
+  reminderText?: string;
+  /** Resolved character image URL */
+  imageOverride?: string;
+  /** Seed for the token's decoration */
+  seed?: number;
+  options: Partial<TokenGeneratorOptions>;
+  fonts: FontSource[];
+}
+
+/**
+ * Task sent from main thread to worker.
+ */
+export interface RenderTokenTask {
+  type: 'RENDER_TOKEN';
+  id: string; // Unique task ID for response matching
+  data: RenderTokenTaskData;
+}
+
+/**
+ * Rendered token pixels (transferred, not copied).
+ */
+export interface RenderTokenResult {
+  bitmap: ImageBitmap;
+  /** How the ability or reminder text was fitted */
+  textFit?: TextFitReport;
+}
+
+/**
+ * Response sent from worker to main thread.
+ */
+export interface RenderWorkerResponse {
+  type: 'SUCCESS' | 'ERROR';
+  id: string; // Matches task ID
+  data?: RenderTokenResult;
+  error?: string;
+}
+
+/**
+ * Image load request sent from worker to main thread.
+ */
+export interface ImageRequestMessage {
+  type: 'IMAGE_REQUEST';
+  requestId: number;
+  url: string;
+  isLocal: boolean;
+}
+
+/**
+ * Image load reply sent from main thread to worker.
+ */
+export interface ImageResponseMessage {
+  type: 'IMAGE_RESPONSE';
+  requestId: number;
+  bitmap?: ImageBitmap;
+  error?: string;
+}
+
+/**
+ * Worker global scope members not covered by the DOM lib typings.
+ */
+interface RenderWorkerScope {
+  fonts: FontFaceSet;
+  postMessage(message: unknown, options?: StructuredSerializeOptions): void;
+  addEventListener(type: 'message', listener: (e: MessageEvent) => void): void;
+}
+
+const scope = self as unknown as RenderWorkerScope;
+
+/** Images kept per worker before the oldest are dropped */
+const MAX_CACHED_IMAGES = 300;
+
+// ============================================================================
+// IMAGE LOADING
+// ============================================================================
+
+let imageRequestCounter = 0;
+const pendingImageRequests = new Map<
+  number,
+  { resolve: (bitmap: ImageBitmap) => void; reject: (error: Error) => void }
+>();
+
+/**
+ * Ask the main thread to load an image and transfer it back.
+ */
+function requestImage(url: string, isLocal: boolean): Promise<ImageBitmap> {
+  const requestId = ++imageRequestCounter;
+  return new Promise((resolve, reject) => {
+    pendingImageRequests.set(requestId, { resolve, reject });
+    const message: ImageRequestMessage = { type: 'IMAGE_REQUEST', requestId, url, isLocal };
+    scope.postMessage(message);
+  });
+}
+
+/**
+ * Decode data and blob URLs in the worker; returns null if they can't be read here.
+ */
+async function tryDecodeInWorker(url: string): Promise<ImageBitmap | null> {
+  if (!(url.startsWith('data:') || url.startsWith('blob:'))) return null;
+  try {
+    const response = await fetch(url);
+    if (!response.ok) return null;
+    return await createImageBitmap(await response.blob());
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Worker-side image cache returning ImageBitmaps.
+ */
+class WorkerImageCache implements IImageCache {
+  private images = new Map<string, Promise<ImageBitmap>>();
+
+  get(url: string, isLocal: boolean): Promise<DrawableImage> {
+    const cached = this.images.get(url);
+    if (cached) return cached;
+
+    const loading = tryDecodeInWorker(url)
+      .then((bitmap) => bitmap ?? requestImage(url, isLocal))
+      .catch((error) => {
+        this.images.delete(url);
+        throw error;
+      });
+
+    this.images.set(url, loading);
+    if (this.images.size > MAX_CACHED_IMAGES) {
+      const oldest = this.images.keys().next().value;
+      if (oldest !== undefined) this.images.delete(oldest);
+    }
+    return loading;
+  }
+
+  clear(): void {
+    this.images.clear();
+  }
+}
+
+const imageCache = new WorkerImageCache();
+
+// ============================================================================
+// FONTS
+// ============================================================================
+
+const registeredFonts = new Map<string, Promise<void>>();
+
+/**
+ * Register font faces once per worker; failures fall back to system fonts.
+ */
+async function registerFonts(fonts: FontSource[]): Promise<void> {
+  await Promise.all(
+    fonts.map((font) => {
+      const key = `${font.family}|${font.source}|${font.descriptors?.weight ?? ''}|${font.descriptors?.style ?? ''}`;
+      let registration = registeredFonts.get(key);
+      if (!registration) {
+        const face = new FontFace(font.family, font.source, font.descriptors);
+        registration = face
+          .load()
+          .then((loaded) => {
+            scope.fonts.add(loaded);
+          })
+          .catch((error) => {
+            logger.warn('TokenRenderWorker', `Failed to load font: ${font.family}`, error);
+          });
+        registeredFonts.set(key, registration);
+      }
+      return registration;
+    })
+  );
+}
+
+// ============================================================================
+// RENDERING
+// ============================================================================
+
+/**
+ * Render one token and return its pixels and text fit report.
+ */
+async function renderToken(task: RenderTokenTaskData): Promise<RenderTokenResult> {
+  await registerFonts(task.fonts);
+
+  const generator = new TokenGenerator(task.options, imageCache);
+  const canvas =
+    task.kind === 'character'
+      ? await generator.generateCharacterToken(task.character, task.imageOverride, task.seed)
+      : await generator.generateReminderToken(
+          task.character,
+          task.reminderText ?? '',
+          task.imageOverride,
+          task.seed
+        );
+
+  return {
+    bitmap: (canvas as unknown as OffscreenCanvas).transferToImageBitmap(),
+    textFit: getTextFitReport(canvas),
+  };
+}
+
+/**
+ * Handle incoming messages from main thread.
+ */
+scope.addEventListener(
+  'message',
+  async (e: MessageEvent<RenderTokenTask | ImageResponseMessage>) => {
+    const message = e.data;
+
+    if (message?.type === 'IMAGE_RESPONSE') {
+      const pending = pendingImageRequests.get(message.requestId);
+      if (!pending) return;
+      pendingImageRequests.delete(message.requestId);
+      if (message.bitmap) {
+        pending.resolve(message.bitmap);
+      } else {
+        pending.reject(new Error(message.error || 'Failed to load image'));
+      }
+      return;
+    }
+
+    if (message?.type !== 'RENDER_TOKEN') return;
+
+    try {
+      const result = await renderToken(message.data);
+      const response: RenderWorkerResponse = {
+        type: 'SUCCESS',
+        id: message.id,
+        data: result,
+      };
+      scope.postMessage(response, { transfer: [result.bitmap] });
+    } catch (error) {
+      const response: RenderWorkerResponse = {
+        type: 'ERROR',
+        id: message.id,
+        error: error instanceof Error ? error.message : String(error),
+      };
+      scope.postMessage(response);
+    }
+  }
+);
+
+// Notify main thread that worker is ready
+scope.postMessage({ type: 'READY' });
@@ -99,6 +99,21 @@ export default defineConfig(({ mode }) => ({
               }
             }
           },
+          {
+            // Cache Noto CJK fonts for PDF export (jsDelivr npm CDN)
+            urlPattern: /^https:\/\/cdn\.jsdelivr\.net\/npm\/@expo-google-fonts\/.*/i,
+            handler: 'CacheFirst',
+            options: {
+              cacheName: 'noto-cjk-fonts',
+              expiration: {
+                maxEntries: 4,
+                maxAgeSeconds: 60 * 60 * 24 * 365 // 1 year
+              },
+              cacheableResponse: {
+                statuses: [0, 200]
+              }
+            }
+          },
           {
             // Cache GitHub API responses (for character data sync)
             urlPattern: /^https:\/\/api\.github\.com\/.*/i,
@@ -146,6 +161,10 @@ export default defineConfig(({ mode }) => ({
     emptyOutDir: true,  // Clean old builds to prevent service worker bloat
   },
 
+  worker: {
+    format: 'es',  // Module workers; the token render worker's graph is code-split
+  },
+
   optimizeDeps: {
     exclude: ['qrcodejs'],
     include: ['jszip']  // Include JSZip for proper CommonJS-to-ESM conversion